@@ -1,44 +1,84 @@
 /**
  * Authentication middleware for Web3 Payroll System
+ * Wallets are identified by a JWT issued after a Sign-In with Ethereum login
  * @author Dev Austin
  */
 
 const jwt = require('jsonwebtoken')
+const AuthSession = require('../models/AuthSession')
+
+// Tokens signed with a known secret could be forged, so only development may fall back to one
+const JWT_SECRET = process.env.JWT_SECRET ||
+  (process.env.NODE_ENV === 'development' ? 'development_secret' : null)
+
+if (!JWT_SECRET) {
+  throw new Error('JWT_SECRET must be set when NODE_ENV is not development')
+}
+
+// Lifetime of a token; /api/auth/refresh extends the session by the same amount
+const SESSION_TTL_SECONDS = parseInt(process.env.SESSION_TTL_SECONDS) || 60 * 60
+
+/**
+ * Issue a token for an active session
+ */
+const signSessionToken = (session) => {
+  return jwt.sign(
+    { sub: session.walletAddress, chainId: session.chainId, sid: session._id.toString() },
+    JWT_SECRET,
+    { expiresIn: SESSION_TTL_SECONDS }
+  )
+}
 
 /**
- * Authenticate user with JWT token or allow unauthenticated access for development
+ * Resolve the Bearer token to its session and set req.wallet.
+ * Requests without a token continue unauthenticated so public routes keep working;
+ * a token that is invalid, expired or revoked is rejected outright.
  */
-const authMiddleware = (req, res, next) => {
+const authenticateSession = async (req, res, next) => {
+  const authHeader = req.headers.authorization
+
+  if (!authHeader || !authHeader.startsWith('Bearer ')) {
+    return next()
+  }
+
   try {
-    // For development, we'll allow requests without authentication
-    // In production, you should implement proper JWT authentication
-    const authHeader = req.headers.authorization
-    
-    if (authHeader && authHeader.startsWith('Bearer ')) {
-      const token = authHeader.substring(7)
-      
-      try {
-        const decoded = jwt.verify(token, process.env.JWT_SECRET || 'development_secret')
-        req.user = decoded
-      } catch (error) {
-        console.log('Invalid token, proceeding without authentication')
-      }
-    }
-    
-    // Set default user for development
-    if (!req.user) {
-      req.user = {
-        address: '0x0000000000000000000000000000000000000000',
-        role: 'admin'
-      }
+    const decoded = jwt.verify(authHeader.substring(7), JWT_SECRET)
+    const session = await AuthSession.findById(decoded.sid)
+
+    if (!session || !session.isActive() || session.walletAddress !== decoded.sub) {
+      return res.status(401).json({
+        error: 'Session expired',
+        message: 'Please sign in with your wallet again'
+      })
     }
-    
+
+    req.session = session
+    req.wallet = session.walletAddress
     next()
   } catch (error) {
-    console.error('Auth middleware error:', error)
-    res.status(401).json({ error: 'Authentication failed' })
+    res.status(401).json({
+      error: 'Invalid session',
+      message: 'Please sign in with your wallet again'
+    })
   }
 }
 
-module.exports = authMiddleware
+/**
+ * Reject requests without a signed-in wallet
+ */
+const requireAuth = (req, res, next) => {
+  if (!req.wallet) {
+    return res.status(401).json({
+      error: 'Sign-in required',
+      message: 'Sign in with your wallet to continue'
+    })
+  }
+  next()
+}
 
+module.exports = {
+  SESSION_TTL_SECONDS,
+  signSessionToken,
+  authenticateSession,
+  requireAuth
+}
@@ -0,0 +1,27 @@
+/**
+ * Company role middleware for Web3 Payroll System
+ * @author Dev Austin
+ */
+
+// Roles the owner can invite; the owner itself can do everything
+const MEMBER_ROLES = ['hr', 'finance', 'auditor']
+
+/**
+ * Allow the company owner and the listed roles through.
+ * Runs after the route's company extractor, which sets req.role.
+ */
+const requireRole = (...roles) => (req, res, next) => {
+  if (req.role === 'owner' || roles.includes(req.role)) {
+    return next()
+  }
+
+  res.status(403).json({
+    error: 'Insufficient role',
+    message: `This action requires the ${['owner', ...roles].join(' or ')} role`
+  })
+}
+
+module.exports = {
+  MEMBER_ROLES,
+  requireRole
+}
@@ -18,41 +18,24 @@ const isValidWallet = (address) => {
 }
 
 /**
- * Extract and validate wallet address from headers
- * This is the ONLY authentication we need for Web3
+ * Require the wallet signed in through Sign-In with Ethereum.
+ * req.wallet is set by authenticateSession; headers are never trusted.
  */
 const requireWallet = (req, res, next) => {
-  const walletAddress = req.headers['x-wallet-address']
-  
-  if (!walletAddress) {
+  if (!req.wallet) {
     return res.status(401).json({
       error: 'Wallet required',
-      message: 'Provide wallet address in x-wallet-address header'
+      message: 'Sign in with your wallet to continue'
     })
   }
-  
-  if (!isValidWallet(walletAddress)) {
-    return res.status(400).json({
-      error: 'Invalid wallet',
-      message: 'Provide valid Ethereum wallet address'
-    })
-  }
-  
-  // Store normalized wallet address
-  req.wallet = walletAddress.toLowerCase()
+
   next()
 }
 
 /**
- * Optional wallet extraction (for public endpoints)
+ * Optional wallet (for public endpoints); req.wallet is simply left unset
  */
 const optionalWallet = (req, res, next) => {
-  const walletAddress = req.headers['x-wallet-address']
-  
-  if (walletAddress && isValidWallet(walletAddress)) {
-    req.wallet = walletAddress.toLowerCase()
-  }
-  
   next()
 }
 
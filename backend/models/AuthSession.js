@@ -0,0 +1,65 @@
+const mongoose = require('mongoose')
+
+/**
+ * Auth Session Model
+ * A Sign-In with Ethereum login. Starts as a pending nonce, becomes
+ * active once the wallet signs it, and is revoked on logout or when
+ * the wallet switches account or chain.
+ */
+
+const authSessionSchema = new mongoose.Schema({
+  // Single-use nonce the wallet must sign
+  nonce: {
+    type: String,
+    required: true,
+    unique: true
+  },
+
+  walletAddress: {
+    type: String,
+    required: true,
+    lowercase: true
+  },
+
+  // Chain ID from the signed message
+  chainId: {
+    type: Number
+  },
+
+  status: {
+    type: String,
+    enum: ['pending', 'active', 'revoked'],
+    default: 'pending'
+  },
+
+  // Pending nonces and idle sessions are removed by the TTL index
+  expiresAt: {
+    type: Date,
+    required: true
+  },
+
+  verifiedAt: {
+    type: Date
+  },
+
+  revokedAt: {
+    type: Date
+  },
+
+  createdAt: {
+    type: Date,
+    default: Date.now
+  }
+}, {
+  timestamps: false,
+  versionKey: false
+})
+
+authSessionSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 })
+authSessionSchema.index({ walletAddress: 1, status: 1 })
+
+authSessionSchema.methods.isActive = function() {
+  return this.status === 'active' && this.expiresAt > new Date()
+}
+
+module.exports = mongoose.model('AuthSession', authSessionSchema)
@@ -0,0 +1,105 @@
+const mongoose = require('mongoose')
+
+/**
+ * Bonus Model
+ * Mirror of an on-chain bonus, written from BonusCreated and
+ * BonusDistributed events. The contract stays the source of truth.
+ */
+
+const bonusSchema = new mongoose.Schema({
+  companyId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Company',
+    required: true
+  },
+
+  employeeId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Employee'
+  },
+
+  // Set when the bonus was created as part of a bonus pool
+  poolId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'BonusPool'
+  },
+
+  // Bonus ID assigned by the contract
+  bonusId: {
+    type: Number,
+    required: true
+  },
+
+  walletAddress: {
+    type: String,
+    required: true,
+    lowercase: true
+  },
+
+  // Amount formatted with the token's decimals
+  amount: {
+    type: String,
+    required: true
+  },
+
+  tokenAddress: {
+    type: String,
+    required: true,
+    lowercase: true
+  },
+
+  tokenSymbol: {
+    type: String,
+    default: 'ETH'
+  },
+
+  reason: {
+    type: String,
+    default: ''
+  },
+
+  status: {
+    type: String,
+    enum: ['pending', 'distributed'],
+    default: 'pending'
+  },
+
+  // BonusCreated transaction
+  createTransactionHash: {
+    type: String,
+    required: true,
+    lowercase: true
+  },
+
+  // BonusDistributed transaction
+  transactionHash: {
+    type: String,
+    lowercase: true
+  },
+
+  blockNumber: {
+    type: Number
+  },
+
+  distributionDate: {
+    type: Date
+  },
+
+  // Block timestamp of the BonusCreated event
+  createdAt: {
+    type: Date,
+    default: Date.now
+  }
+}, {
+  timestamps: false,
+  versionKey: false
+})
+
+bonusSchema.index({ companyId: 1, bonusId: 1 }, { unique: true })
+bonusSchema.index({ companyId: 1, walletAddress: 1 })
+
+bonusSchema.statics.findByCompany = function(companyId) {
+  return this.find({ companyId }).sort({ createdAt: -1 })
+}
+
+module.exports = mongoose.model('Bonus', bonusSchema)
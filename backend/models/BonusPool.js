@@ -0,0 +1,116 @@
+const mongoose = require('mongoose')
+
+/**
+ * Bonus Pool Model
+ * A fixed amount split across employees by weight. Each allocation
+ * becomes one on-chain bonus, linked here once its BonusCreated event is recorded.
+ */
+
+const allocationSchema = new mongoose.Schema({
+  employeeId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Employee'
+  },
+  walletAddress: {
+    type: String,
+    required: true,
+    lowercase: true
+  },
+  weight: {
+    type: String,
+    required: true
+  },
+  // Amount formatted with the token's decimals
+  amount: {
+    type: String,
+    required: true
+  },
+  bonusId: {
+    type: Number
+  },
+  status: {
+    type: String,
+    enum: ['pending', 'created', 'distributed'],
+    default: 'pending'
+  }
+}, { _id: false })
+
+const bonusPoolSchema = new mongoose.Schema({
+  companyId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Company',
+    required: true
+  },
+
+  reason: {
+    type: String,
+    required: true,
+    maxlength: 500
+  },
+
+  totalAmount: {
+    type: String,
+    required: true
+  },
+
+  tokenAddress: {
+    type: String,
+    required: true,
+    lowercase: true
+  },
+
+  tokenSymbol: {
+    type: String,
+    default: 'ETH'
+  },
+
+  method: {
+    type: String,
+    enum: ['salary', 'equal', 'score'],
+    required: true
+  },
+
+  allocations: [allocationSchema],
+
+  status: {
+    type: String,
+    enum: ['pending', 'created', 'completed'],
+    default: 'pending'
+  },
+
+  createdBy: {
+    type: String,
+    required: true,
+    lowercase: true
+  },
+
+  createdAt: {
+    type: Date,
+    default: Date.now
+  }
+}, {
+  timestamps: false,
+  versionKey: false
+})
+
+bonusPoolSchema.index({ companyId: 1, createdAt: -1 })
+
+/**
+ * Pool status follows its least advanced allocation
+ */
+bonusPoolSchema.methods.refreshStatus = function() {
+  if (this.allocations.every(allocation => allocation.status === 'distributed')) {
+    this.status = 'completed'
+  } else if (this.allocations.every(allocation => allocation.status !== 'pending')) {
+    this.status = 'created'
+  } else {
+    this.status = 'pending'
+  }
+  return this.status
+}
+
+bonusPoolSchema.statics.findByCompany = function(companyId) {
+  return this.find({ companyId }).sort({ createdAt: -1 })
+}
+
+module.exports = mongoose.model('BonusPool', bonusPoolSchema)
@@ -58,6 +58,42 @@ const companySchema = new mongoose.Schema({
     default: false
   },
 
+  // Wallets allowed to approve payroll runs; kept in step with finance members
+  financeApprovers: [{
+    type: String,
+    lowercase: true
+  }],
+
+  // Wallets the owner invited to help run the company
+  // hr: manages employees, finance: approves and executes payroll, auditor: read-only
+  members: [{
+    wallet: {
+      type: String,
+      required: true,
+      lowercase: true
+    },
+    role: {
+      type: String,
+      required: true,
+      enum: ['hr', 'finance', 'auditor']
+    },
+    invitedBy: {
+      type: String,
+      lowercase: true
+    },
+    invitedAt: {
+      type: Date,
+      default: Date.now
+    }
+  }],
+
+  // Number of finance approvals a payroll run needs before it can be executed
+  payrollApprovalsRequired: {
+    type: Number,
+    default: 1,
+    min: 1
+  },
+
   createdAt: {
     type: Date,
     default: Date.now
@@ -71,12 +107,63 @@ const companySchema = new mongoose.Schema({
 // Essential indexes only
 companySchema.index({ ownerWallet: 1 })
 companySchema.index({ ensDomain: 1 })
+companySchema.index({ financeApprovers: 1 })
+companySchema.index({ 'members.wallet': 1 })
 
 // Essential methods only
 companySchema.statics.findByWallet = function(wallet) {
   return this.findOne({ ownerWallet: wallet.toLowerCase() })
 }
 
+// Company the wallet belongs to, as owner, invited member or finance approver
+companySchema.statics.findByMember = function(wallet) {
+  const normalized = wallet.toLowerCase()
+  return this.findOne({
+    $or: [
+      { ownerWallet: normalized },
+      { 'members.wallet': normalized },
+      { financeApprovers: normalized }
+    ]
+  })
+}
+
+// Role of the wallet in this company, or null when it is not a member
+companySchema.methods.getRole = function(wallet) {
+  const normalized = wallet.toLowerCase()
+  if (this.ownerWallet === normalized) return 'owner'
+
+  const member = (this.members || []).find(item => item.wallet === normalized)
+  if (member) return member.role
+
+  // Approvers configured before roles existed act as finance
+  if ((this.financeApprovers || []).includes(normalized)) return 'finance'
+
+  return null
+}
+
+// Add a member or change its role, keeping finance approvers in step
+companySchema.methods.setMember = function(wallet, role, invitedBy) {
+  const normalized = wallet.toLowerCase()
+  const member = this.members.find(item => item.wallet === normalized)
+
+  if (member) {
+    member.role = role
+  } else {
+    this.members.push({ wallet: normalized, role, invitedBy, invitedAt: new Date() })
+  }
+
+  this.financeApprovers = this.financeApprovers.filter(approver => approver !== normalized)
+  if (role === 'finance') {
+    this.financeApprovers.push(normalized)
+  }
+}
+
+companySchema.methods.removeMember = function(wallet) {
+  const normalized = wallet.toLowerCase()
+  this.members = this.members.filter(item => item.wallet !== normalized)
+  this.financeApprovers = this.financeApprovers.filter(approver => approver !== normalized)
+}
+
 companySchema.statics.findByDomain = function(domain) {
   return this.findOne({ ensDomain: domain.toLowerCase() })
 }
@@ -6,6 +6,110 @@ const mongoose = require('mongoose')
  * NO personal data, NO tracking
  */
 
+const compensationSchema = new mongoose.Schema({
+  salaryAmount: {
+    type: String,
+    required: true
+  },
+  paymentFrequency: {
+    type: String,
+    required: true
+  },
+  paymentToken: {
+    type: String,
+    required: true
+  },
+  changedAt: {
+    type: Date,
+    default: Date.now
+  },
+  // Wallet that made the change
+  changedBy: {
+    type: String,
+    lowercase: true
+  },
+  // updateEmployeeCompensation transaction
+  transactionHash: {
+    type: String,
+    lowercase: true
+  }
+}, { _id: false })
+
+const terminationSchema = new mongoose.Schema({
+  terminationDate: {
+    type: Date,
+    required: true
+  },
+  reason: {
+    type: String,
+    maxlength: 500
+  },
+  // Final salary paid through processIndividualPayment, if any
+  finalPaymentAmount: {
+    type: String
+  },
+  finalPaymentHash: {
+    type: String,
+    lowercase: true
+  },
+  // removeEmployee transaction
+  removalTransactionHash: {
+    type: String,
+    lowercase: true
+  },
+  // What happened to the ENS subdomain
+  ensAction: {
+    type: String,
+    enum: ['kept', 'revoked', 'reassigned'],
+    default: 'kept'
+  },
+  ensNewOwner: {
+    type: String,
+    lowercase: true
+  },
+  ensTransactionHash: {
+    type: String,
+    lowercase: true
+  },
+  terminatedBy: {
+    type: String,
+    lowercase: true
+  }
+}, { _id: false })
+
+const walletChangeSchema = new mongoose.Schema({
+  newWallet: {
+    type: String,
+    required: true,
+    lowercase: true
+  },
+  // The employee signing from their current wallet, or a company member
+  requestedBy: {
+    type: String,
+    required: true,
+    lowercase: true
+  },
+  requestedByRole: {
+    type: String,
+    enum: ['employee', 'owner', 'hr'],
+    required: true
+  },
+  requestedAt: {
+    type: Date,
+    default: Date.now
+  },
+  // When the on-chain timelock expires
+  effectiveAt: {
+    type: Date,
+    required: true
+  },
+  // requestWalletChange transaction
+  requestTransactionHash: {
+    type: String,
+    lowercase: true
+  }
+}, { _id: false })
+
 const employeeSchema = new mongoose.Schema({
   // Company reference
   companyId: {
@@ -47,6 +151,49 @@ const employeeSchema = new mongoose.Schema({
     type: String,
     enum: ['ETH', 'USDC', 'USDT', 'DAI'],
     default: 'ETH'
+  },
+
+  // Payment frequency (mirrors the on-chain PaymentFrequency)
+  paymentFrequency: {
+    type: String,
+    enum: ['WEEKLY', 'BIWEEKLY', 'MONTHLY', 'QUARTERLY', 'ONE_TIME'],
+    default: 'MONTHLY'
+  },
+
+  // Previous compensation, newest last. Each entry is what applied until changedAt
+  compensationHistory: [compensationSchema],
+
+  // Terminated employees are kept for payment history instead of deleted
+  isActive: {
+    type: Boolean,
+    default: true
+  },
+
+  termination: terminationSchema,
+
+  // Payout wallet change waiting for its timelock, cleared once applied or cancelled
+  walletChange: walletChangeSchema,
+
+  // Wallets the employee was paid to before a wallet change, oldest first
+  previousWallets: [{
+    type: String,
+    lowercase: true
+  }],
+
+  // Set when the employee was registered on-chain through batch onboarding
+  ensNode: {
+    type: String,
+    lowercase: true
+  },
+  onboardingTransactionHash: {
+    type: String,
+    lowercase: true
+  },
+
+  // Accepted invite holding the employee's signed wallet attestation
+  invite: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'EmployeeInvite'
   }
 
 }, {
@@ -59,8 +206,9 @@ employeeSchema.index({ companyId: 1, ensName: 1 }, { unique: true })
 employeeSchema.index({ walletAddress: 1 })
 
 // Generate ENS name from employee name
+// New employees onboarded on-chain keep the subdomain they were registered with
 employeeSchema.pre('save', function(next) {
-  if (this.isModified('name') || this.isNew) {
+  if (this.isNew ? !this.ensName : this.isModified('name')) {
     this.ensName = this.name
       .toLowerCase()
       .replace(/[^a-z0-9]/g, '')
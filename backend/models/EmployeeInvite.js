@@ -0,0 +1,139 @@
+const mongoose = require('mongoose')
+
+/**
+ * Employee Invite Model
+ * A pending employee created by HR. The employee opens the invite link,
+ * connects a wallet and signs an EIP-712 attestation; only an accepted
+ * invite can be added to payroll, and the signature is kept as proof.
+ */
+
+const attestationSchema = new mongoose.Schema({
+  signature: {
+    type: String,
+    required: true
+  },
+  // Chain ID in the typed-data domain the wallet signed
+  chainId: {
+    type: Number,
+    required: true
+  },
+  signedAt: {
+    type: Date,
+    default: Date.now
+  }
+}, { _id: false })
+
+const employeeInviteSchema = new mongoose.Schema({
+  companyId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Company',
+    required: true
+  },
+
+  // Secret part of the invite link
+  token: {
+    type: String,
+    required: true,
+    unique: true
+  },
+
+  name: {
+    type: String,
+    required: true,
+    trim: true,
+    maxlength: 50
+  },
+
+  salaryAmount: {
+    type: String,
+    required: true
+  },
+
+  paymentToken: {
+    type: String,
+    enum: ['ETH', 'USDC', 'USDT', 'DAI'],
+    default: 'ETH'
+  },
+
+  paymentFrequency: {
+    type: String,
+    enum: ['WEEKLY', 'BIWEEKLY', 'MONTHLY', 'QUARTERLY', 'ONE_TIME'],
+    default: 'MONTHLY'
+  },
+
+  // pending: waiting for the employee, accepted: wallet attested, onboarded: employee created
+  status: {
+    type: String,
+    enum: ['pending', 'accepted', 'onboarded', 'revoked'],
+    default: 'pending'
+  },
+
+  // Wallet from a bulk import; only that wallet can accept the invite
+  expectedWallet: {
+    type: String,
+    lowercase: true
+  },
+
+  // Set from the attestation; never typed in by HR
+  walletAddress: {
+    type: String,
+    lowercase: true
+  },
+
+  // Onboarding details from a bulk import, used when the employee is added on-chain
+  subdomain: {
+    type: String,
+    lowercase: true,
+    trim: true
+  },
+
+  position: {
+    type: String,
+    trim: true
+  },
+
+  department: {
+    type: String,
+    trim: true
+  },
+
+  attestation: attestationSchema,
+
+  employeeId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Employee'
+  },
+
+  createdBy: {
+    type: String,
+    required: true,
+    lowercase: true
+  },
+
+  expiresAt: {
+    type: Date,
+    required: true
+  },
+
+  createdAt: {
+    type: Date,
+    default: Date.now
+  }
+}, {
+  timestamps: false,
+  versionKey: false
+})
+
+employeeInviteSchema.index({ companyId: 1, status: 1 })
+
+employeeInviteSchema.methods.isExpired = function() {
+  return this.status === 'pending' && this.expiresAt <= new Date()
+}
+
+// Accepted invites of a company, i.e. wallets their employees signed for
+employeeInviteSchema.statics.findAccepted = function(companyId, ids) {
+  const validIds = ids.filter(id => mongoose.Types.ObjectId.isValid(id))
+  return this.find({ _id: { $in: validIds }, companyId, status: 'accepted' })
+}
+
+module.exports = mongoose.model('EmployeeInvite', employeeInviteSchema)
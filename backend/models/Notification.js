@@ -0,0 +1,75 @@
+const mongoose = require('mongoose')
+
+/**
+ * Notification Model
+ * Tells one side of a change that the other side made it. Employee
+ * notifications follow the employee record, so they survive a wallet
+ * change; company notifications are shown to the owner and HR.
+ */
+
+const notificationSchema = new mongoose.Schema({
+  companyId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Company',
+    required: true
+  },
+
+  employeeId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Employee',
+    required: true
+  },
+
+  // Who it is for: the employee, or the company's owner and HR
+  audience: {
+    type: String,
+    enum: ['employee', 'company'],
+    required: true
+  },
+
+  type: {
+    type: String,
+    enum: ['wallet_change_requested', 'wallet_change_cancelled', 'wallet_change_applied'],
+    required: true
+  },
+
+  title: {
+    type: String,
+    required: true
+  },
+
+  message: {
+    type: String,
+    required: true
+  },
+
+  // The wallet that made the change and its role
+  actorWallet: {
+    type: String,
+    lowercase: true
+  },
+
+  actorRole: {
+    type: String,
+    enum: ['employee', 'owner', 'hr']
+  },
+
+  // Wallets that have read it; company notifications have several readers
+  readBy: [{
+    type: String,
+    lowercase: true
+  }],
+
+  createdAt: {
+    type: Date,
+    default: Date.now
+  }
+}, {
+  timestamps: false,
+  versionKey: false
+})
+
+notificationSchema.index({ employeeId: 1, audience: 1, createdAt: -1 })
+notificationSchema.index({ companyId: 1, audience: 1, createdAt: -1 })
+
+module.exports = mongoose.model('Notification', notificationSchema)
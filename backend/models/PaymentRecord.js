@@ -0,0 +1,107 @@
+const mongoose = require('mongoose')
+
+/**
+ * Payment Record Model
+ * One on-chain payment, written from a PaymentProcessed event
+ * in a mined transaction receipt. Never written from intent alone.
+ */
+
+const paymentRecordSchema = new mongoose.Schema({
+  companyId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Company',
+    required: true
+  },
+
+  employeeId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Employee'
+  },
+
+  payrollRunId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'PayrollRun'
+  },
+
+  walletAddress: {
+    type: String,
+    required: true,
+    lowercase: true
+  },
+
+  // Amount as emitted by the event, formatted with the token's decimals
+  amount: {
+    type: String,
+    required: true
+  },
+
+  tokenAddress: {
+    type: String,
+    required: true,
+    lowercase: true
+  },
+
+  tokenSymbol: {
+    type: String,
+    default: 'ETH'
+  },
+
+  transactionHash: {
+    type: String,
+    required: true,
+    lowercase: true
+  },
+
+  logIndex: {
+    type: Number,
+    required: true
+  },
+
+  blockNumber: {
+    type: Number,
+    required: true
+  },
+
+  // Gas used by the whole transaction (shared by every payment in a batch)
+  gasUsed: {
+    type: Number,
+    default: 0
+  },
+
+  paymentType: {
+    type: String,
+    enum: ['salary', 'bonus'],
+    default: 'salary'
+  },
+
+  status: {
+    type: String,
+    enum: ['pending', 'completed', 'failed'],
+    default: 'completed'
+  },
+
+  // Block timestamp from the event
+  paymentDate: {
+    type: Date,
+    required: true
+  },
+
+  createdAt: {
+    type: Date,
+    default: Date.now
+  }
+}, {
+  timestamps: false,
+  versionKey: false
+})
+
+// A log can only be recorded once
+paymentRecordSchema.index({ transactionHash: 1, logIndex: 1 }, { unique: true })
+paymentRecordSchema.index({ companyId: 1, paymentDate: -1 })
+paymentRecordSchema.index({ employeeId: 1 })
+
+paymentRecordSchema.statics.findByCompany = function(companyId) {
+  return this.find({ companyId }).sort({ paymentDate: -1 })
+}
+
+module.exports = mongoose.model('PaymentRecord', paymentRecordSchema)
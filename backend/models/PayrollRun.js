@@ -0,0 +1,218 @@
+const mongoose = require('mongoose')
+
+/**
+ * Payroll Run Model
+ * A batch of salary payments that has to be approved by finance
+ * before it can be executed on-chain. Every status change is recorded.
+ */
+
+const RUN_STATUSES = ['draft', 'submitted', 'approved', 'executing', 'settled', 'failed']
+const CHUNK_STATUSES = ['pending', 'sent', 'confirmed', 'failed']
+
+// Allowed status transitions (from -> to[]).
+// A failed run goes back through approval before it is retried.
+const RUN_TRANSITIONS = {
+  draft: ['submitted'],
+  submitted: ['approved', 'draft'],
+  approved: ['executing'],
+  executing: ['settled', 'failed'],
+  failed: ['submitted'],
+  settled: []
+}
+
+const runEmployeeSchema = new mongoose.Schema({
+  employeeId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Employee'
+  },
+  walletAddress: {
+    type: String,
+    required: true,
+    lowercase: true
+  },
+  name: String,
+  amount: {
+    type: String,
+    required: true
+  },
+  tokenSymbol: {
+    type: String,
+    default: 'ETH'
+  }
+}, { _id: false })
+
+const transitionSchema = new mongoose.Schema({
+  from: {
+    type: String,
+    enum: [null, ...RUN_STATUSES]
+  },
+  to: {
+    type: String,
+    enum: RUN_STATUSES,
+    required: true
+  },
+  actor: {
+    type: String,
+    required: true,
+    lowercase: true
+  },
+  note: String,
+  at: {
+    type: Date,
+    default: Date.now
+  }
+}, { _id: false })
+
+const approvalSchema = new mongoose.Schema({
+  wallet: {
+    type: String,
+    required: true,
+    lowercase: true
+  },
+  comment: String,
+  approvedAt: {
+    type: Date,
+    default: Date.now
+  }
+}, { _id: false })
+
+// One processPayroll transaction of a chunked run
+const chunkSchema = new mongoose.Schema({
+  index: {
+    type: Number,
+    required: true
+  },
+  employees: [{
+    type: String,
+    lowercase: true
+  }],
+  status: {
+    type: String,
+    enum: CHUNK_STATUSES,
+    default: 'pending'
+  },
+  transactionHash: String,
+  error: String,
+  updatedAt: {
+    type: Date,
+    default: Date.now
+  }
+}, { _id: false })
+
+// Expected payments that had no PaymentProcessed event in their receipt
+const missingPaymentSchema = new mongoose.Schema({
+  walletAddress: {
+    type: String,
+    required: true,
+    lowercase: true
+  },
+  name: String,
+  amount: String,
+  transactionHash: String
+}, { _id: false })
+
+const payrollRunSchema = new mongoose.Schema({
+  companyId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Company',
+    required: true
+  },
+
+  status: {
+    type: String,
+    enum: RUN_STATUSES,
+    default: 'draft'
+  },
+
+  employees: {
+    type: [runEmployeeSchema],
+    validate: [list => list.length > 0, 'A payroll run needs at least one employee']
+  },
+
+  // Snapshot of the PaymentSummary shown when the run was drafted
+  summary: {
+    totalAmount: { type: String, default: '0' },
+    employeeCount: { type: Number, default: 0 },
+    tokenBreakdown: { type: mongoose.Schema.Types.Mixed, default: {} },
+    estimatedGas: { type: String, default: '0' },
+    feeSpeed: { type: String, enum: ['low', 'medium', 'high'], default: 'medium' }
+  },
+
+  requiredApprovals: {
+    type: Number,
+    default: 1,
+    min: 1
+  },
+
+  approvals: [approvalSchema],
+  transitions: [transitionSchema],
+
+  // Gas-bounded chunks the run is executed in, saved so execution can resume
+  chunks: [chunkSchema],
+
+  // Result of matching receipt logs against the employees in the run
+  reconciliation: {
+    recordedCount: { type: Number, default: 0 },
+    missing: [missingPaymentSchema],
+    reconciledAt: Date
+  },
+
+  transactionHash: String,
+  failureReason: String,
+
+  createdBy: {
+    type: String,
+    required: true,
+    lowercase: true
+  },
+
+  createdAt: {
+    type: Date,
+    default: Date.now
+  }
+}, {
+  timestamps: false,
+  versionKey: false
+})
+
+payrollRunSchema.index({ companyId: 1, createdAt: -1 })
+
+/**
+ * Check whether the run may move to the given status
+ */
+payrollRunSchema.methods.canTransitionTo = function(status) {
+  return (RUN_TRANSITIONS[this.status] || []).includes(status)
+}
+
+/**
+ * Move the run to a new status and record who did it.
+ * Throws if the transition is not allowed.
+ */
+payrollRunSchema.methods.transitionTo = function(status, actor, note) {
+  if (!this.canTransitionTo(status)) {
+    const error = new Error(`Cannot move payroll run from ${this.status} to ${status}`)
+    error.statusCode = 409
+    throw error
+  }
+
+  this.transitions.push({ from: this.status, to: status, actor, note })
+  this.status = status
+  return this
+}
+
+/**
+ * Whether any chunk has been sent or paid already
+ */
+payrollRunSchema.methods.hasStartedChunks = function() {
+  return this.chunks.some(chunk => chunk.status !== 'pending')
+}
+
+payrollRunSchema.statics.findByCompany = function(companyId) {
+  return this.find({ companyId }).sort({ createdAt: -1 })
+}
+
+payrollRunSchema.statics.RUN_STATUSES = RUN_STATUSES
+payrollRunSchema.statics.RUN_TRANSITIONS = RUN_TRANSITIONS
+payrollRunSchema.statics.CHUNK_STATUSES = CHUNK_STATUSES
+
+module.exports = mongoose.model('PayrollRun', payrollRunSchema)
@@ -7,27 +7,21 @@ const express = require('express')
 const router = express.Router()
 const Employee = require('../models/Employee')
 const Company = require('../models/Company')
-const { ethers } = require('ethers')
 
-// Middleware to extract wallet address and get company
+// Middleware to extract wallet address and get the company it belongs to
 const extractCompanyFromWallet = async (req, res, next) => {
   try {
-    const walletAddress = req.headers['x-wallet-address']
-    
+    // Set by authenticateSession from the signed-in session
+    const walletAddress = req.wallet
+
     if (!walletAddress) {
       return res.status(401).json({
-        error: 'Wallet address required',
-        message: 'Please provide wallet address in x-wallet-address header'
-      })
-    }
-    
-    if (!ethers.utils.isAddress(walletAddress)) {
-      return res.status(400).json({
-        error: 'Invalid wallet address'
+        error: 'Sign-in required',
+        message: 'Sign in with your wallet to continue'
       })
     }
 
-    const company = await Company.findByWallet(walletAddress.toLowerCase())
+    const company = await Company.findByMember(walletAddress.toLowerCase())
     
     if (!company) {
       return res.status(404).json({
@@ -38,6 +32,7 @@ const extractCompanyFromWallet = async (req, res, next) => {
 
     req.company = company
     req.walletAddress = walletAddress.toLowerCase()
+    req.role = company.getRole(req.walletAddress)
     next()
   } catch (error) {
     res.status(500).json({ error: 'Authentication failed' })
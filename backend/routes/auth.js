@@ -0,0 +1,142 @@
+/**
+ * Sign-In with Ethereum routes for Web3 Payroll System
+ * @author Dev Austin
+ */
+
+const express = require('express')
+const crypto = require('crypto')
+const rateLimit = require('express-rate-limit')
+const router = express.Router()
+const AuthSession = require('../models/AuthSession')
+const { verifySiweMessage } = require('../services/siweService')
+const { SESSION_TTL_SECONDS, signSessionToken, requireAuth } = require('../middleware/auth')
+const { ethers } = require('ethers')
+const winston = require('winston')
+
+const logger = winston.createLogger({
+  level: 'info',
+  format: winston.format.json(),
+  transports: [
+    new winston.transports.File({ filename: 'logs/auth.log' }),
+  ]
+})
+
+// How long a nonce may wait for its signature
+const NONCE_TTL_MS = 10 * 60 * 1000
+
+const sessionResponse = (session) => ({
+  token: signSessionToken(session),
+  address: session.walletAddress,
+  chainId: session.chainId,
+  expiresAt: session.expiresAt
+})
+
+// Every nonce is stored until its TTL, so a client may only request a few at a time
+const nonceLimiter = rateLimit({
+  windowMs: 60 * 1000,
+  max: parseInt(process.env.NONCE_RATE_LIMIT) || 10,
+  standardHeaders: true,
+  legacyHeaders: false,
+  message: { error: 'Too many sign-in attempts, please wait a minute and try again' }
+})
+
+// Issue a nonce for the wallet to sign
+router.post('/nonce', nonceLimiter, async (req, res) => {
+  try {
+    const { address } = req.body
+
+    if (!address || !ethers.utils.isAddress(address)) {
+      return res.status(400).json({ error: 'Invalid wallet address' })
+    }
+
+    // EIP-4361 nonces are alphanumeric
+    const nonce = crypto.randomBytes(16).toString('hex')
+    const session = await AuthSession.create({
+      nonce,
+      walletAddress: address.toLowerCase(),
+      expiresAt: new Date(Date.now() + NONCE_TTL_MS)
+    })
+
+    res.json({
+      success: true,
+      data: { nonce, expiresAt: session.expiresAt }
+    })
+  } catch (error) {
+    res.status(500).json({ error: error.message })
+  }
+})
+
+// Verify the signed message and start a session
+router.post('/verify', async (req, res) => {
+  try {
+    const { message, signature } = req.body
+
+    if (!message || !signature) {
+      return res.status(400).json({ error: 'Message and signature are required' })
+    }
+
+    let fields
+    try {
+      fields = verifySiweMessage(message, signature)
+    } catch (error) {
+      return res.status(401).json({ error: error.message })
+    }
+
+    // Claim the nonce atomically so a signature can only be used once
+    const session = await AuthSession.findOneAndUpdate(
+      {
+        nonce: fields.nonce,
+        walletAddress: fields.address.toLowerCase(),
+        status: 'pending',
+        expiresAt: { $gt: new Date() }
+      },
+      {
+        status: 'active',
+        chainId: fields.chainId,
+        verifiedAt: new Date(),
+        expiresAt: new Date(Date.now() + SESSION_TTL_SECONDS * 1000)
+      },
+      { new: true }
+    )
+
+    if (!session) {
+      return res.status(401).json({ error: 'Nonce is invalid, expired or already used' })
+    }
+
+    logger.info('Wallet signed in', { walletAddress: session.walletAddress, chainId: session.chainId })
+
+    res.json({ success: true, data: sessionResponse(session) })
+  } catch (error) {
+    logger.error('Sign-in failed', { error: error.message })
+    res.status(500).json({ error: error.message })
+  }
+})
+
+// Extend the current session and issue a fresh token
+router.post('/refresh', requireAuth, async (req, res) => {
+  try {
+    req.session.expiresAt = new Date(Date.now() + SESSION_TTL_SECONDS * 1000)
+    await req.session.save()
+
+    res.json({ success: true, data: sessionResponse(req.session) })
+  } catch (error) {
+    res.status(500).json({ error: error.message })
+  }
+})
+
+// End the current session; its token stops working immediately
+router.post('/logout', requireAuth, async (req, res) => {
+  try {
+    req.session.status = 'revoked'
+    req.session.revokedAt = new Date()
+    await req.session.save()
+
+    logger.info('Wallet signed out', { walletAddress: req.session.walletAddress })
+
+    res.json({ success: true })
+  } catch (error) {
+    res.status(500).json({ error: error.message })
+  }
+})
+
+module.exports = router
@@ -6,236 +6,347 @@
 const express = require('express')
 const router = express.Router()
 const Employee = require('../models/Employee')
-const authMiddleware = require('../middleware/auth')
-const { validateBonus } = require('../middleware/validation')
+const Company = require('../models/Company')
+const Bonus = require('../models/Bonus')
+const BonusPool = require('../models/BonusPool')
+const PaymentRecord = require('../models/PaymentRecord')
+const { requireRole } = require('../middleware/roles')
+const { ethers } = require('ethers')
 
-// Mock bonus storage (in a real app, you'd have a Bonus model)
-let bonuses = []
-let bonusIdCounter = 1
+// Middleware to extract wallet address and get the company it belongs to
+const extractCompanyFromWallet = async (req, res, next) => {
+  try {
+    // Set by authenticateSession from the signed-in session
+    const walletAddress = req.wallet
+
+    if (!walletAddress) {
+      return res.status(401).json({
+        error: 'Sign-in required',
+        message: 'Sign in with your wallet to continue'
+      })
+    }
+
+    const company = await Company.findByMember(walletAddress.toLowerCase())
+
+    if (!company) {
+      return res.status(404).json({
+        error: 'Company not found',
+        message: 'Please register your company first'
+      })
+    }
+
+    req.company = company
+    req.walletAddress = walletAddress.toLowerCase()
+    req.role = company.getRole(req.walletAddress)
+    next()
+  } catch (error) {
+    res.status(500).json({ error: 'Authentication failed' })
+  }
+}
+
+const POOL_METHODS = ['salary', 'equal', 'score']
+
+// Token amounts are compared in 18-decimal units, enough for any supported token
+const toUnits = (amount) => ethers.utils.parseUnits(amount.toString(), 18)
+
+const isValidBonusEvent = (event) => {
+  return event &&
+    Number.isInteger(event.bonusId) &&
+    Number.isInteger(event.blockNumber) &&
+    Number.isInteger(event.logIndex) &&
+    ethers.utils.isAddress(event.recipient) &&
+    ethers.utils.isAddress(event.token) &&
+    /^0x[a-fA-F0-9]{64}$/.test(event.transactionHash || '')
+}
 
 // Get all bonuses
-router.get('/', authMiddleware, async (req, res) => {
+router.get('/', extractCompanyFromWallet, async (req, res) => {
   try {
-    const { employeeId, status, page = 1, limit = 10 } = req.query
-    
-    let filteredBonuses = bonuses
-    
+    // Disable caching to prevent 304 responses
+    res.set({
+      'Cache-Control': 'no-cache, no-store, must-revalidate',
+      'Pragma': 'no-cache',
+      'Expires': '0'
+    })
+
+    const { employeeId, walletAddress, status, page = 1, limit = 10 } = req.query
+
+    const query = { companyId: req.company._id }
     if (employeeId) {
-      filteredBonuses = filteredBonuses.filter(bonus => bonus.employeeId === employeeId)
+      query.employeeId = employeeId
+    }
+    if (walletAddress) {
+      query.walletAddress = walletAddress.toLowerCase()
     }
-    
     if (status) {
-      filteredBonuses = filteredBonuses.filter(bonus => bonus.status === status)
+      query.status = status
     }
-    
-    const startIndex = (page - 1) * limit
-    const endIndex = startIndex + parseInt(limit)
-    const paginatedBonuses = filteredBonuses.slice(startIndex, endIndex)
-    
+
+    const pageNumber = Math.max(parseInt(page) || 1, 1)
+    const pageSize = Math.max(parseInt(limit) || 10, 1)
+
+    const [bonuses, total] = await Promise.all([
+      Bonus.find(query)
+        .sort({ bonusId: -1 })
+        .skip((pageNumber - 1) * pageSize)
+        .limit(pageSize),
+      Bonus.countDocuments(query)
+    ])
+
     res.json({
-      data: paginatedBonuses,
-      totalPages: Math.ceil(filteredBonuses.length / limit),
-      currentPage: parseInt(page),
-      total: filteredBonuses.length
+      success: true,
+      data: {
+        data: bonuses,
+        totalPages: Math.ceil(total / pageSize),
+        currentPage: pageNumber,
+        total
+      }
     })
   } catch (error) {
     res.status(500).json({ error: error.message })
   }
 })
 
-// Get bonus by ID
-router.get('/:id', authMiddleware, async (req, res) => {
+// Get bonus statistics
+router.get('/stats/overview', extractCompanyFromWallet, async (req, res) => {
   try {
-    const bonus = bonuses.find(b => b._id === req.params.id)
-    if (!bonus) {
-      return res.status(404).json({ error: 'Bonus not found' })
-    }
-    res.json(bonus)
-  } catch (error) {
-    res.status(500).json({ error: error.message })
-  }
-})
+    const bonuses = await Bonus.findByCompany(req.company._id)
+    const now = new Date()
 
-// Create new bonus
-router.post('/', authMiddleware, validateBonus, async (req, res) => {
-  try {
-    const { employeeId, amount, reason, tokenAddress } = req.body
-    
-    // Verify employee exists
-    const employee = await Employee.findById(employeeId)
-    if (!employee) {
-      return res.status(404).json({ error: 'Employee not found' })
-    }
-    
-    const newBonus = {
-      _id: bonusIdCounter.toString(),
-      employeeId,
-      employeeName: employee.personalInfo.name,
-      amount,
-      tokenAddress,
-      tokenSymbol: tokenAddress === '0x0000000000000000000000000000000000000000' ? 'ETH' : 'TOKEN',
-      reason,
-      status: 'pending',
-      createdAt: new Date().toISOString(),
-      createdBy: req.user.address
-    }
-    
-    bonuses.push(newBonus)
-    bonusIdCounter++
-    
-    res.status(201).json({
-      message: 'Bonus created successfully',
-      bonus: newBonus
-    })
-  } catch (error) {
-    res.status(500).json({ error: error.message })
-  }
-})
+    const distributed = bonuses.filter(bonus => bonus.status === 'distributed')
+    const monthly = distributed.filter(bonus =>
+      bonus.distributionDate &&
+      bonus.distributionDate.getMonth() === now.getMonth() &&
+      bonus.distributionDate.getFullYear() === now.getFullYear()
+    )
 
-// Update bonus
-router.put('/:id', authMiddleware, async (req, res) => {
-  try {
-    const bonusIndex = bonuses.findIndex(b => b._id === req.params.id)
-    if (bonusIndex === -1) {
-      return res.status(404).json({ error: 'Bonus not found' })
-    }
-    
-    const updatedBonus = {
-      ...bonuses[bonusIndex],
-      ...req.body,
-      updatedAt: new Date().toISOString(),
-      updatedBy: req.user.address
-    }
-    
-    bonuses[bonusIndex] = updatedBonus
-    
     res.json({
-      message: 'Bonus updated successfully',
-      bonus: updatedBonus
+      success: true,
+      data: {
+        totalBonuses: bonuses.length,
+        pendingBonuses: bonuses.length - distributed.length,
+        distributedBonuses: distributed.length,
+        totalBonusAmount: distributed.reduce((sum, bonus) => sum + parseFloat(bonus.amount), 0).toFixed(4),
+        monthlyBonusAmount: monthly.reduce((sum, bonus) => sum + parseFloat(bonus.amount), 0).toFixed(4)
+      }
     })
   } catch (error) {
     res.status(500).json({ error: error.message })
   }
 })
 
-// Distribute bonus
-router.post('/:id/distribute', authMiddleware, async (req, res) => {
+// Get bonus by ID
+router.get('/:id', extractCompanyFromWallet, async (req, res) => {
   try {
-    const bonusIndex = bonuses.findIndex(b => b._id === req.params.id)
-    if (bonusIndex === -1) {
+    const bonus = await Bonus.findOne({ _id: req.params.id, companyId: req.company._id })
+    if (!bonus) {
       return res.status(404).json({ error: 'Bonus not found' })
     }
-    
-    const bonus = bonuses[bonusIndex]
-    if (bonus.status === 'distributed') {
-      return res.status(400).json({ error: 'Bonus already distributed' })
-    }
-    
-    // This is where you'd integrate with the blockchain service
-    const mockTransactionHash = '0x' + Math.random().toString(16).slice(2, 66)
-    
-    bonus.status = 'distributed'
-    bonus.transactionHash = mockTransactionHash
-    bonus.distributionDate = new Date().toISOString()
-    bonus.distributedBy = req.user.address
-    
-    res.json({
-      success: true,
-      transactionHash: mockTransactionHash,
-      message: 'Bonus distributed successfully'
-    })
+    res.json({ success: true, data: bonus })
   } catch (error) {
     res.status(500).json({ error: error.message })
   }
 })
 
-// Bulk bonus distribution
-router.post('/bulk', authMiddleware, async (req, res) => {
+// Record bonuses from BonusCreated / BonusDistributed events.
+// Upserts by on-chain bonus ID, so the same events can be replayed for a full resync.
+router.post('/events', extractCompanyFromWallet, requireRole('finance'), async (req, res) => {
   try {
-    const { bonusIds } = req.body
-    
-    if (!Array.isArray(bonusIds) || bonusIds.length === 0) {
-      return res.status(400).json({ error: 'Invalid bonus IDs' })
-    }
-    
-    const distributedBonuses = []
-    const mockTransactionHash = '0x' + Math.random().toString(16).slice(2, 66)
-    
-    for (const bonusId of bonusIds) {
-      const bonusIndex = bonuses.findIndex(b => b._id === bonusId)
-      if (bonusIndex !== -1 && bonuses[bonusIndex].status === 'pending') {
-        bonuses[bonusIndex].status = 'distributed'
-        bonuses[bonusIndex].transactionHash = mockTransactionHash
-        bonuses[bonusIndex].distributionDate = new Date().toISOString()
-        bonuses[bonusIndex].distributedBy = req.user.address
-        distributedBonuses.push(bonuses[bonusIndex])
+    const { created = [], distributed = [], poolId } = req.body
+
+    if (!Array.isArray(created) || !Array.isArray(distributed)) {
+      return res.status(400).json({ error: 'Invalid bonus event data' })
+    }
+
+    if (![...created, ...distributed].every(isValidBonusEvent)) {
+      return res.status(400).json({ error: 'Invalid bonus event data' })
+    }
+
+    let pool = null
+    if (poolId) {
+      pool = await BonusPool.findOne({ _id: poolId, companyId: req.company._id })
+      if (!pool) {
+        return res.status(404).json({ error: 'Bonus pool not found' })
       }
     }
-    
-    res.json({
+
+    const wallets = [...created, ...distributed].map(event => event.recipient.toLowerCase())
+    const employees = await Employee.find({ companyId: req.company._id, walletAddress: { $in: wallets } })
+    const employeeByWallet = new Map(employees.map(employee => [employee.walletAddress, employee]))
+
+    const bonusFields = (event) => {
+      const walletAddress = event.recipient.toLowerCase()
+      const employee = employeeByWallet.get(walletAddress)
+      return {
+        employeeId: employee ? employee._id : undefined,
+        walletAddress,
+        amount: event.amount.toString(),
+        tokenAddress: event.token.toLowerCase(),
+        tokenSymbol: event.tokenSymbol || 'ETH',
+        reason: event.reason || '',
+        createdAt: new Date(Number(event.timestamp) * 1000)
+      }
+    }
+
+    await Promise.all(created.map(event => Bonus.updateOne(
+      { companyId: req.company._id, bonusId: event.bonusId },
+      {
+        $set: { createTransactionHash: event.transactionHash.toLowerCase(), ...(pool ? { poolId: pool._id } : {}) },
+        $setOnInsert: { ...bonusFields(event), status: 'pending' }
+      },
+      { upsert: true }
+    )))
+
+    await Promise.all(distributed.map(async event => {
+      const fields = bonusFields(event)
+      const transactionHash = event.transactionHash.toLowerCase()
+      const distributionDate = new Date(Number(event.blockTimestamp) * 1000)
+
+      // A distribution seen before its creation event keeps the distribution hash as a placeholder
+      await Bonus.updateOne(
+        { companyId: req.company._id, bonusId: event.bonusId },
+        {
+          $set: { status: 'distributed', transactionHash, blockNumber: event.blockNumber, distributionDate },
+          $setOnInsert: { ...fields, createTransactionHash: transactionHash }
+        },
+        { upsert: true }
+      )
+
+      // Bonus payouts belong in payment history alongside salaries
+      await PaymentRecord.updateOne(
+        { transactionHash, logIndex: event.logIndex },
+        {
+          $setOnInsert: {
+            companyId: req.company._id,
+            employeeId: fields.employeeId,
+            walletAddress: fields.walletAddress,
+            amount: fields.amount,
+            tokenAddress: fields.tokenAddress,
+            tokenSymbol: fields.tokenSymbol,
+            blockNumber: event.blockNumber,
+            paymentType: 'bonus',
+            status: 'completed',
+            paymentDate: distributionDate
+          }
+        },
+        { upsert: true }
+      )
+    }))
+
+    if (pool) {
+      // Link each created bonus to the first open allocation for its wallet
+      created.forEach(event => {
+        const allocation = pool.allocations.find(item =>
+          item.walletAddress === event.recipient.toLowerCase() && item.bonusId === undefined
+        )
+        if (allocation) {
+          allocation.bonusId = event.bonusId
+          allocation.status = 'created'
+        }
+      })
+
+      distributed.forEach(event => {
+        const allocation = pool.allocations.find(item => item.bonusId === event.bonusId)
+        if (allocation) {
+          allocation.status = 'distributed'
+        }
+      })
+
+      pool.refreshStatus()
+      await pool.save()
+    }
+
+    res.status(201).json({
       success: true,
-      transactionHash: mockTransactionHash,
-      distributedCount: distributedBonuses.length,
-      message: `${distributedBonuses.length} bonuses distributed successfully`
+      data: {
+        created: created.length,
+        distributed: distributed.length,
+        pool
+      }
     })
   } catch (error) {
     res.status(500).json({ error: error.message })
   }
 })
 
-// Delete bonus
-router.delete('/:id', authMiddleware, async (req, res) => {
+// Create a bonus pool: a fixed amount split across employees.
+// The client creates and distributes each allocation on-chain, then records the events against the pool.
+router.post('/bulk', extractCompanyFromWallet, requireRole('finance'), async (req, res) => {
   try {
-    const bonusIndex = bonuses.findIndex(b => b._id === req.params.id)
-    if (bonusIndex === -1) {
-      return res.status(404).json({ error: 'Bonus not found' })
+    const { reason, totalAmount, tokenAddress, tokenSymbol, method, allocations } = req.body
+
+    if (!reason || !reason.trim() || reason.length > 500) {
+      return res.status(400).json({ error: 'Reason is required and cannot exceed 500 characters' })
     }
-    
-    const bonus = bonuses[bonusIndex]
-    if (bonus.status === 'distributed') {
-      return res.status(400).json({ error: 'Cannot delete distributed bonus' })
+
+    if (!ethers.utils.isAddress(tokenAddress || '')) {
+      return res.status(400).json({ error: 'Invalid token address format' })
     }
-    
-    bonuses.splice(bonusIndex, 1)
-    
-    res.json({ message: 'Bonus deleted successfully' })
-  } catch (error) {
-    res.status(500).json({ error: error.message })
-  }
-})
 
-// Get bonus statistics
-router.get('/stats/overview', authMiddleware, async (req, res) => {
-  try {
-    const totalBonuses = bonuses.length
-    const pendingBonuses = bonuses.filter(b => b.status === 'pending').length
-    const distributedBonuses = bonuses.filter(b => b.status === 'distributed').length
-    
-    const totalBonusAmount = bonuses
-      .filter(b => b.status === 'distributed')
-      .reduce((sum, bonus) => sum + parseFloat(bonus.amount), 0)
-    
-    const monthlyBonusAmount = bonuses
-      .filter(b => {
-        const distributionDate = new Date(b.distributionDate)
-        const now = new Date()
-        return b.status === 'distributed' && 
-               distributionDate.getMonth() === now.getMonth() &&
-               distributionDate.getFullYear() === now.getFullYear()
-      })
-      .reduce((sum, bonus) => sum + parseFloat(bonus.amount), 0)
-    
-    res.json({
-      totalBonuses,
-      pendingBonuses,
-      distributedBonuses,
-      totalBonusAmount: totalBonusAmount.toFixed(4),
-      monthlyBonusAmount: monthlyBonusAmount.toFixed(4)
+    if (!POOL_METHODS.includes(method)) {
+      return res.status(400).json({ error: `Method must be one of: ${POOL_METHODS.join(', ')}` })
+    }
+
+    if (!Array.isArray(allocations) || allocations.length === 0) {
+      return res.status(400).json({ error: 'At least one allocation is required' })
+    }
+
+    if (allocations.some(item => !ethers.utils.isAddress(item.walletAddress || '') || item.weight === undefined)) {
+      return res.status(400).json({ error: 'Every allocation needs a wallet address and weight' })
+    }
+
+    const wallets = allocations.map(item => item.walletAddress.toLowerCase())
+    if (new Set(wallets).size !== wallets.length) {
+      return res.status(400).json({ error: 'Each employee can only appear once in a pool' })
+    }
+
+    let total
+    let allocated = ethers.constants.Zero
+    try {
+      total = toUnits(totalAmount)
+      for (const item of allocations) {
+        const amount = toUnits(item.amount)
+        if (amount.lte(0)) {
+          return res.status(400).json({ error: 'Every allocation must be greater than 0' })
+        }
+        allocated = allocated.add(amount)
+      }
+    } catch (parseError) {
+      return res.status(400).json({ error: 'Invalid amount format' })
+    }
+
+    // Allocations must add up to the pool exactly, remainder included
+    if (!allocated.eq(total)) {
+      return res.status(400).json({ error: 'Allocations do not add up to the pool amount' })
+    }
+
+    const employees = await Employee.find({ companyId: req.company._id, walletAddress: { $in: wallets } })
+    const employeeByWallet = new Map(employees.map(employee => [employee.walletAddress, employee]))
+
+    const pool = await BonusPool.create({
+      companyId: req.company._id,
+      reason: reason.trim(),
+      totalAmount: totalAmount.toString(),
+      tokenAddress: tokenAddress.toLowerCase(),
+      tokenSymbol: tokenSymbol || 'ETH',
+      method,
+      allocations: allocations.map(item => {
+        const walletAddress = item.walletAddress.toLowerCase()
+        const employee = employeeByWallet.get(walletAddress)
+        return {
+          employeeId: employee ? employee._id : undefined,
+          walletAddress,
+          weight: item.weight.toString(),
+          amount: item.amount.toString()
+        }
+      }),
+      createdBy: req.walletAddress
     })
+
+    res.status(201).json({ success: true, data: pool })
   } catch (error) {
     res.status(500).json({ error: error.message })
   }
 })
 
 module.exports = router
-
@@ -2,9 +2,11 @@ const express = require('express')
 const router = express.Router()
 const Company = require('../models/Company')
 const Employee = require('../models/Employee')
+const EmployeeInvite = require('../models/EmployeeInvite')
 const ENSService = require('../services/ensService')
 const { body, validationResult } = require('express-validator')
 const { ethers } = require('ethers')
+const { MEMBER_ROLES } = require('../middleware/roles')
 
 /**
  * Web3 Company Routes - Ultra Minimal
@@ -27,17 +29,14 @@ const isValidWallet = (address) => {
   }
 }
 
-// Wallet-only auth
+// req.wallet is set by authenticateSession from the signed-in session
 const requireWallet = (req, res, next) => {
-  const wallet = req.headers['x-wallet-address']
-  
-  if (!wallet || !isValidWallet(wallet)) {
+  if (!req.wallet) {
     return res.status(401).json({
-      error: 'Valid wallet address required'
+      error: 'Sign-in required'
     })
   }
-  
-  req.wallet = wallet.toLowerCase()
+
   next()
 }
 
@@ -46,17 +45,168 @@ const requireWallet = (req, res, next) => {
  */
 router.get('/status', requireWallet, async (req, res) => {
   try {
-    const company = await Company.findByWallet(req.wallet)
+    const company = await Company.findByMember(req.wallet)
     
     res.json({
       hasCompany: !!company,
-      company: company || null
+      company: company || null,
+      role: company ? company.getRole(req.wallet) : null
     })
   } catch (error) {
     res.status(500).json({ error: 'Status check failed' })
   }
 })
 
+/**
+ * Update finance approvers (owner only)
+ */
+router.put('/finance-approvers',
+  requireWallet,
+  [
+    body('approvers').isArray(),
+    body('approvers.*').custom(isValidWallet),
+    body('approvalsRequired').optional().isInt({ min: 1 })
+  ],
+  async (req, res) => {
+    try {
+      const errors = validationResult(req)
+      if (!errors.isEmpty()) {
+        return res.status(400).json({ error: 'Invalid input' })
+      }
+
+      const company = await Company.findByWallet(req.wallet)
+      if (!company) {
+        return res.status(404).json({ error: 'No company found' })
+      }
+
+      const approvers = [...new Set(req.body.approvers.map(wallet => wallet.toLowerCase()))]
+
+      if (approvers.includes(company.ownerWallet)) {
+        return res.status(400).json({ error: 'The company owner cannot be a finance approver' })
+      }
+
+      const approvalsRequired = req.body.approvalsRequired || company.payrollApprovalsRequired || 1
+      if (approvers.length > 0 && approvalsRequired > approvers.length) {
+        return res.status(400).json({ error: 'Required approvals exceed the number of approvers' })
+      }
+
+      const conflict = await Company.findOne({
+        _id: { $ne: company._id },
+        $or: [{ ownerWallet: { $in: approvers } }, { 'members.wallet': { $in: approvers } }, { financeApprovers: { $in: approvers } }]
+      })
+      if (conflict) {
+        return res.status(409).json({ error: 'An approver already belongs to another company' })
+      }
+
+      // Approvers are the finance members; dropped approvers leave the team
+      company.financeApprovers
+        .filter(wallet => !approvers.includes(wallet))
+        .forEach(wallet => company.removeMember(wallet))
+      approvers.forEach(wallet => company.setMember(wallet, 'finance', req.wallet))
+      company.payrollApprovalsRequired = approvalsRequired
+      await company.save()
+
+      res.json({ success: true, company })
+    } catch (error) {
+      res.status(500).json({ error: 'Failed to update finance approvers' })
+    }
+  }
+)
+
+/**
+ * List the owner and invited members
+ */
+router.get('/members', requireWallet, async (req, res) => {
+  try {
+    const company = await Company.findByMember(req.wallet)
+    if (!company) {
+      return res.status(404).json({ error: 'No company found' })
+    }
+
+    const members = [...company.members]
+    // Approvers configured before roles existed have no member entry yet
+    company.financeApprovers
+      .filter(wallet => !members.some(member => member.wallet === wallet))
+      .forEach(wallet => members.push({ wallet, role: 'finance' }))
+
+    res.json({ success: true, data: { owner: company.ownerWallet, members } })
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to fetch members' })
+  }
+})
+
+/**
+ * Invite a wallet as HR, finance or auditor, or change its role (owner only)
+ */
+router.post('/members',
+  requireWallet,
+  [
+    body('wallet').custom(isValidWallet),
+    body('role').isIn(MEMBER_ROLES)
+  ],
+  async (req, res) => {
+    try {
+      const errors = validationResult(req)
+      if (!errors.isEmpty()) {
+        return res.status(400).json({ error: 'Invalid input' })
+      }
+
+      const company = await Company.findByWallet(req.wallet)
+      if (!company) {
+        return res.status(404).json({ error: 'Only the company owner can manage members' })
+      }
+
+      const wallet = req.body.wallet.toLowerCase()
+      if (wallet === company.ownerWallet) {
+        return res.status(400).json({ error: 'The company owner cannot be invited as a member' })
+      }
+
+      const existing = await Company.findByMember(wallet)
+      if (existing && !existing._id.equals(company._id)) {
+        return res.status(409).json({ error: 'Wallet already belongs to another company' })
+      }
+
+      company.setMember(wallet, req.body.role, req.wallet)
+      await company.save()
+
+      res.status(201).json({ success: true, company })
+    } catch (error) {
+      res.status(500).json({ error: 'Failed to invite member' })
+    }
+  }
+)
+
+/**
+ * Remove a member (owner only)
+ */
+router.delete('/members/:wallet', requireWallet, async (req, res) => {
+  try {
+    const company = await Company.findByWallet(req.wallet)
+    if (!company) {
+      return res.status(404).json({ error: 'Only the company owner can manage members' })
+    }
+
+    const wallet = req.params.wallet.toLowerCase()
+    if (!company.getRole(wallet) || wallet === company.ownerWallet) {
+      return res.status(404).json({ error: 'Member not found' })
+    }
+
+    company.removeMember(wallet)
+
+    // Keep approvals reachable with the remaining approvers
+    const approverCount = company.financeApprovers.length
+    if (approverCount > 0 && company.payrollApprovalsRequired > approverCount) {
+      company.payrollApprovalsRequired = approverCount
+    }
+
+    await company.save()
+
+    res.json({ success: true, company })
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to remove member' })
+  }
+})
+
 /**
  * Register company (minimal data)
  */
@@ -75,8 +225,8 @@ router.post('/register',
 
       const { companyName, companyDomain } = req.body
 
-      // Check if wallet already has company
-      const existing = await Company.findByWallet(req.wallet)
+      // Check if wallet already has or belongs to a company
+      const existing = await Company.findByMember(req.wallet)
       if (existing) {
         return res.status(409).json({ error: 'Wallet already has company' })
       }
@@ -199,7 +349,7 @@ router.post('/create-after-ens', requireWallet, async (req, res) => {
  */
 router.get('/my-company', requireWallet, async (req, res) => {
   try {
-    const company = await Company.findByWallet(req.wallet)
+    const company = await Company.findByMember(req.wallet)
     
     if (!company) {
       return res.status(404).json({ error: 'No company found' })
@@ -216,7 +366,7 @@ router.get('/my-company', requireWallet, async (req, res) => {
  */
 router.get('/employees', requireWallet, async (req, res) => {
   try {
-    const company = await Company.findByWallet(req.wallet)
+    const company = await Company.findByMember(req.wallet)
     if (!company) {
       return res.status(404).json({ error: 'No company found' })
     }
@@ -229,15 +379,12 @@ router.get('/employees', requireWallet, async (req, res) => {
 })
 
 /**
- * Add employee
+ * Add employee from an accepted invite, so the wallet is the one the employee signed for
  */
 router.post('/employees',
   requireWallet,
   [
-    body('name').trim().isLength({ min: 2, max: 50 }),
-    body('walletAddress').custom(isValidWallet),
-    body('salaryAmount').isNumeric(),
-    body('paymentToken').optional().isIn(['ETH', 'USDC', 'USDT', 'DAI'])
+    body('inviteId').isMongoId()
   ],
   async (req, res) => {
     try {
@@ -246,24 +393,37 @@ router.post('/employees',
         return res.status(400).json({ error: 'Invalid input' })
       }
 
-      const { name, walletAddress, salaryAmount, paymentToken = 'ETH' } = req.body
-
-      const company = await Company.findByWallet(req.wallet)
+      const company = await Company.findByMember(req.wallet)
       if (!company) {
         return res.status(404).json({ error: 'No company found' })
       }
 
+      if (!['owner', 'hr'].includes(company.getRole(req.wallet))) {
+        return res.status(403).json({ error: 'Only the owner or HR can add employees' })
+      }
+
+      const [invite] = await EmployeeInvite.findAccepted(company._id, [req.body.inviteId])
+      if (!invite) {
+        return res.status(400).json({ error: 'The employee must accept their invite first' })
+      }
+
       // Create employee
       const employee = new Employee({
         companyId: company._id,
-        name,
-        walletAddress: walletAddress.toLowerCase(),
-        salaryAmount: salaryAmount.toString(),
-        paymentToken
+        name: invite.name,
+        walletAddress: invite.walletAddress,
+        salaryAmount: invite.salaryAmount,
+        paymentToken: invite.paymentToken,
+        paymentFrequency: invite.paymentFrequency,
+        invite: invite._id
       })
 
       await employee.save()
 
+      invite.status = 'onboarded'
+      invite.employeeId = employee._id
+      await invite.save()
+
       res.status(201).json({
         success: true,
         employee
@@ -278,31 +438,6 @@ router.post('/employees',
   }
 )
 
-/**
- * Remove employee
- */
-router.delete('/employees/:id', requireWallet, async (req, res) => {
-  try {
-    const company = await Company.findByWallet(req.wallet)
-    if (!company) {
-      return res.status(404).json({ error: 'No company found' })
-    }
-
-    const result = await Employee.findOneAndDelete({
-      _id: req.params.id,
-      companyId: company._id
-    })
-
-    if (!result) {
-      return res.status(404).json({ error: 'Employee not found' })
-    }
-
-    res.json({ success: true })
-  } catch (error) {
-    res.status(500).json({ error: 'Failed to remove employee' })
-  }
-})
-
 /**
  * Check domain availability
  */
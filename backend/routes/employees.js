@@ -2,6 +2,11 @@ const express = require('express')
 const router = express.Router()
 const Employee = require('../models/Employee')
 const Company = require('../models/Company')
+const PaymentRecord = require('../models/PaymentRecord')
+const EmployeeInvite = require('../models/EmployeeInvite')
+const { requireRole } = require('../middleware/roles')
+const { getOnChainEmployee, getPendingWalletChange, getCompensationUpdate } = require('../services/payrollContractService')
+const { notifyWalletChange } = require('../services/notificationService')
 const { ethers } = require('ethers')
 const winston = require('winston')
 
@@ -18,25 +23,23 @@ const logger = winston.createLogger({
   ]
 })
 
-// Middleware to extract wallet address and get company
+// Decimals of the tokens employees can be paid in, to compare salaries with the contract
+const TOKEN_DECIMALS = { ETH: 18, USDC: 6, USDT: 6, DAI: 18 }
+
+// Middleware to extract wallet address and get the company it belongs to
 const extractCompanyFromWallet = async (req, res, next) => {
   try {
-    const walletAddress = req.headers['x-wallet-address']
-    
+    // Set by authenticateSession from the signed-in session
+    const walletAddress = req.wallet
+
     if (!walletAddress) {
       return res.status(401).json({
-        error: 'Wallet address required',
-        message: 'Please provide wallet address in x-wallet-address header'
-      })
-    }
-    
-    if (!ethers.utils.isAddress(walletAddress)) {
-      return res.status(400).json({
-        error: 'Invalid wallet address'
+        error: 'Sign-in required',
+        message: 'Sign in with your wallet to continue'
       })
     }
 
-    const company = await Company.findByWallet(walletAddress.toLowerCase())
+    const company = await Company.findByMember(walletAddress.toLowerCase())
     
     if (!company) {
       return res.status(404).json({
@@ -47,6 +50,7 @@ const extractCompanyFromWallet = async (req, res, next) => {
 
     req.company = company
     req.walletAddress = walletAddress.toLowerCase()
+    req.role = company.getRole(req.walletAddress)
     next()
   } catch (error) {
     logger.error('Company extraction failed', { error: error.message })
@@ -54,6 +58,295 @@ const extractCompanyFromWallet = async (req, res, next) => {
   }
 }
 
+// Middleware to load the employee for :address, visible only to that wallet or its company
+const loadOwnEmployee = async (req, res, next) => {
+  try {
+    // Set by authenticateSession from the signed-in session
+    const walletAddress = req.wallet
+
+    if (!walletAddress) {
+      return res.status(401).json({
+        error: 'Sign-in required',
+        message: 'Sign in with your wallet to continue'
+      })
+    }
+
+    if (!ethers.utils.isAddress(req.params.address)) {
+      return res.status(400).json({
+        error: 'Invalid wallet address'
+      })
+    }
+
+    const employee = await Employee.findOne({ walletAddress: req.params.address.toLowerCase() })
+      .populate('companyId', 'name ensDomain ownerWallet financeApprovers members')
+    if (!employee) {
+      return res.status(404).json({ error: 'Employee not found' })
+    }
+
+    const requester = walletAddress.toLowerCase()
+    const company = employee.companyId
+    const isCompanyMember = !!company && !!company.getRole(requester)
+
+    if (employee.walletAddress !== requester && !isCompanyMember) {
+      return res.status(403).json({ error: 'Employees can only view their own records' })
+    }
+
+    req.employee = employee
+    req.walletAddress = requester
+    next()
+  } catch (error) {
+    logger.error('Employee lookup failed', { error: error.message })
+    res.status(500).json({ error: 'Authentication failed' })
+  }
+}
+
+// Role a company member acts in on an employee's wallet change
+const getActorRole = (req) => req.role === 'owner' ? 'owner' : 'hr'
+
+// Middleware for changes only the employee may make, signed from their current wallet
+const requireOwnWallet = (req, res, next) => {
+  if (req.employee.walletAddress !== req.walletAddress) {
+    return res.status(403).json({ error: 'Only the employee can make this change' })
+  }
+  next()
+}
+
+// Check a wallet change before recording it; returns { status, error } when it cannot be recorded
+const validateWalletChange = async (employee, { newWallet, transactionHash }) => {
+  if (employee.isActive === false) {
+    return { status: 409, error: 'Employee is not active' }
+  }
+
+  if (!ethers.utils.isAddress(newWallet || '')) {
+    return { status: 400, error: 'Invalid new wallet address' }
+  }
+
+  if (newWallet.toLowerCase() === employee.walletAddress) {
+    return { status: 400, error: 'New wallet must differ from the current wallet' }
+  }
+
+  if (transactionHash && !/^0x[a-fA-F0-9]{64}$/.test(transactionHash)) {
+    return { status: 400, error: 'Invalid transaction hash' }
+  }
+
+  if (await Employee.findByWallet(newWallet)) {
+    return { status: 409, error: 'This wallet already belongs to an employee' }
+  }
+
+  return null
+}
+
+// Tell the other party about a wallet change. The change is already on-chain,
+// so a failed notification is logged rather than failing the request.
+const notifyOtherParty = async (type, employee, change) => {
+  try {
+    await notifyWalletChange(type, employee, change)
+  } catch (error) {
+    logger.error('Wallet change notification failed', { error: error.message, employeeId: employee._id, type })
+  }
+}
+
+// Record a wallet change once requestWalletChange has confirmed on-chain.
+// The timelock is read from the contract, never taken from the request.
+const recordWalletChange = async (req, res, employee, requestedByRole) => {
+  const invalid = await validateWalletChange(employee, req.body)
+  if (invalid) {
+    return res.status(invalid.status).json({ error: invalid.error })
+  }
+
+  const { newWallet, transactionHash } = req.body
+
+  let pending
+  try {
+    pending = await getPendingWalletChange(employee.walletAddress)
+  } catch (error) {
+    logger.error('On-chain wallet change lookup failed', { error: error.message, employeeId: employee._id })
+    return res.status(503).json({ error: 'Could not read the wallet change from the payroll contract' })
+  }
+
+  if (!pending || pending.newWallet !== newWallet.toLowerCase()) {
+    return res.status(409).json({
+      error: 'Wallet change not found on-chain',
+      message: 'Request the change on the payroll contract before recording it'
+    })
+  }
+
+  employee.walletChange = {
+    newWallet,
+    requestedBy: req.walletAddress,
+    requestedByRole,
+    effectiveAt: pending.effectiveAt,
+    requestTransactionHash: transactionHash
+  }
+  await employee.save()
+
+  logger.info('Wallet change requested', {
+    companyId: employee.companyId?._id || employee.companyId,
+    employeeId: employee._id,
+    newWallet: employee.walletChange.newWallet,
+    effectiveAt: employee.walletChange.effectiveAt,
+    requestedBy: req.walletAddress,
+    requestedByRole
+  })
+
+  await notifyOtherParty('wallet_change_requested', employee, {
+    actorWallet: req.walletAddress,
+    actorRole: requestedByRole,
+    newWallet: employee.walletChange.newWallet,
+    effectiveAt: employee.walletChange.effectiveAt
+  })
+
+  res.json({ success: true, data: employee })
+}
+
+// Clear a wallet change once cancelWalletChange has confirmed on-chain
+const cancelRecordedWalletChange = async (req, res, employee, actorRole) => {
+  if (!employee.walletChange) {
+    return res.status(404).json({ error: 'No pending wallet change' })
+  }
+
+  let pending
+  try {
+    pending = await getPendingWalletChange(employee.walletAddress)
+  } catch (error) {
+    logger.error('On-chain wallet change lookup failed', { error: error.message, employeeId: employee._id })
+    return res.status(503).json({ error: 'Could not read the wallet change from the payroll contract' })
+  }
+
+  if (pending) {
+    return res.status(409).json({
+      error: 'Wallet change still pending on-chain',
+      message: 'Cancel the change on the payroll contract before recording it'
+    })
+  }
+
+  const { newWallet } = employee.walletChange
+  employee.walletChange = undefined
+  await employee.save()
+
+  logger.info('Wallet change cancelled', {
+    employeeId: employee._id,
+    newWallet,
+    cancelledBy: req.walletAddress
+  })
+
+  await notifyOtherParty('wallet_change_cancelled', employee, {
+    actorWallet: req.walletAddress,
+    actorRole,
+    newWallet
+  })
+
+  res.json({ success: true, data: employee })
+}
+
+// Move the employee to the new wallet once applyWalletChange has confirmed on-chain
+const applyRecordedWalletChange = async (req, res, employee, actorRole) => {
+  const change = employee.walletChange
+  if (!change) {
+    return res.status(404).json({ error: 'No pending wallet change' })
+  }
+
+  if (change.effectiveAt > new Date()) {
+    return res.status(409).json({
+      error: 'Wallet change still time-locked',
+      message: `The change can be applied after ${change.effectiveAt.toISOString()}`
+    })
+  }
+
+  const { transactionHash } = req.body
+  if (transactionHash && !/^0x[a-fA-F0-9]{64}$/.test(transactionHash)) {
+    return res.status(400).json({ error: 'Invalid transaction hash' })
+  }
+
+  // The contract moves the employee to the new wallet when the change is applied
+  let onChain
+  try {
+    onChain = await getOnChainEmployee(change.newWallet)
+  } catch (error) {
+    logger.error('On-chain employee lookup failed', { error: error.message, employeeId: employee._id })
+    return res.status(503).json({ error: 'Could not verify the wallet change on the payroll contract' })
+  }
+
+  if (onChain.walletAddress !== change.newWallet.toLowerCase()) {
+    return res.status(409).json({
+      error: 'Wallet change not applied on-chain',
+      message: 'Apply the change on the payroll contract before recording it'
+    })
+  }
+
+  const oldWallet = employee.walletAddress
+  employee.previousWallets.push(oldWallet)
+  employee.walletAddress = change.newWallet
+  employee.walletChange = undefined
+  await employee.save()
+
+  logger.info('Wallet change applied', {
+    employeeId: employee._id,
+    oldWallet,
+    newWallet: employee.walletAddress,
+    transactionHash,
+    appliedBy: req.walletAddress
+  })
+
+  await notifyOtherParty('wallet_change_applied', employee, {
+    actorWallet: req.walletAddress,
+    actorRole,
+    newWallet: employee.walletAddress
+  })
+
+  res.json({ success: true, data: employee })
+}
+
+// Check that the contract already pays what is about to be saved: the transaction that
+// updated it, or the contract's current record when mirroring it (fromContract).
+// Returns { status, error } when it does not.
+const verifyCompensation = async (employee, { salaryAmount, paymentFrequency, paymentToken }, { transactionHash, fromContract }) => {
+  if (!transactionHash && !fromContract) {
+    return {
+      status: 400,
+      error: 'Transaction hash required',
+      message: 'Update the compensation on the payroll contract before saving it'
+    }
+  }
+
+  let salaryUnits
+  try {
+    salaryUnits = ethers.utils.parseUnits(salaryAmount, TOKEN_DECIMALS[paymentToken]).toString()
+  } catch (error) {
+    return { status: 400, error: `Salary has more decimals than ${paymentToken} supports` }
+  }
+
+  // The schema lists frequencies in the order of the contract's PaymentFrequency enum
+  const frequency = Employee.schema.path('paymentFrequency').enumValues.indexOf(paymentFrequency)
+
+  let onChain
+  try {
+    if (transactionHash) {
+      const result = await getCompensationUpdate(transactionHash, employee.walletAddress)
+      if (!result || !result.succeeded) {
+        return { status: 400, error: 'Transaction not found or reverted' }
+      }
+      onChain = result.update
+    } else {
+      const record = await getOnChainEmployee(employee.walletAddress)
+      onChain = record.isActive ? record : null
+    }
+  } catch (error) {
+    logger.error('On-chain compensation lookup failed', { error: error.message, employeeId: employee._id })
+    return { status: 503, error: 'Could not verify the compensation on the payroll contract' }
+  }
+
+  if (!onChain || onChain.salaryAmount !== salaryUnits || onChain.frequency !== frequency) {
+    return {
+      status: 409,
+      error: 'Compensation not updated on-chain',
+      message: 'The payroll contract does not pay this salary and frequency'
+    }
+  }
+
+  return null
+}
+
 // Get all employees for the authenticated company
 router.get('/', extractCompanyFromWallet, async (req, res) => {
   try {
@@ -64,11 +357,16 @@ router.get('/', extractCompanyFromWallet, async (req, res) => {
       'Expires': '0'
     })
     
-    const { page = 1, limit = 10 } = req.query
+    const { page = 1, limit = 10, active } = req.query
     
     // Filter by company
     let query = { companyId: req.company._id }
 
+    // Records created before termination support have no isActive field
+    if (active !== undefined) {
+      query.isActive = active === 'true' ? { $ne: false } : false
+    }
+
     const employees = await Employee.find(query)
       .populate('companyId', 'name ensDomain')
       .limit(limit * 1)
@@ -85,16 +383,21 @@ router.get('/', extractCompanyFromWallet, async (req, res) => {
         email: `${emp.ensName}@${emp.companyId?.ensDomain || 'company.eth'}`,
       },
       employmentDetails: {
-        isActive: true, // All employees are active in minimal model
+        isActive: emp.isActive !== false,
         position: 'Employee',
-        department: 'General'
+        department: 'General',
+        terminationDate: emp.termination?.terminationDate
       },
       payrollSettings: {
         walletAddress: emp.walletAddress,
         salaryAmount: emp.salaryAmount,
-        paymentFrequency: emp.paymentToken === 'ETH' ? 'MONTHLY' : 'MONTHLY',
-        preferredToken: emp.paymentToken
+        paymentFrequency: emp.paymentFrequency || 'MONTHLY',
+        preferredToken: emp.paymentToken,
+        // The employee signed for this wallet through an invite link
+        walletVerified: !!emp.invite
       },
+      compensationHistory: emp.compensationHistory || [],
+      walletChange: emp.walletChange,
       ensDetails: {
         subdomain: emp.ensName,
         fullDomain: `${emp.ensName}.${emp.companyId?.ensDomain || 'company.eth'}`
@@ -135,14 +438,96 @@ router.get('/:id', extractCompanyFromWallet, async (req, res) => {
 })
 
 // Get employee by wallet address
-router.get('/wallet/:address', async (req, res) => {
+router.get('/wallet/:address', loadOwnEmployee, async (req, res) => {
+  const { _id, name, walletAddress, salaryAmount, paymentToken, paymentFrequency, ensName, isActive, companyId, walletChange, createdAt } = req.employee
+
+  res.json({
+    success: true,
+    data: {
+      _id,
+      name,
+      walletAddress,
+      salaryAmount,
+      paymentToken,
+      paymentFrequency,
+      ensName,
+      ensDomain: companyId ? `${ensName}.${companyId.ensDomain}` : ensName,
+      companyName: companyId?.name,
+      isActive: isActive !== false,
+      walletChange,
+      createdAt
+    }
+  })
+})
+
+// Get payment history for an employee's own wallet
+router.get('/wallet/:address/payments', loadOwnEmployee, async (req, res) => {
   try {
-    const employee = await Employee.findOne({ walletAddress: req.params.address.toLowerCase() })
-    if (!employee) {
-      return res.status(404).json({ error: 'Employee not found' })
+    res.set({
+      'Cache-Control': 'no-cache, no-store, must-revalidate',
+      'Pragma': 'no-cache',
+      'Expires': '0'
+    })
+
+    const { page = 1, limit = 10 } = req.query
+    const pageNumber = Math.max(parseInt(page) || 1, 1)
+    const pageSize = Math.max(parseInt(limit) || 10, 1)
+
+    // Payments follow the wallet, so history recorded before an employeeId existed is included,
+    // along with payments to wallets the employee used before a wallet change
+    const query = {
+      companyId: req.employee.companyId?._id,
+      walletAddress: { $in: [req.employee.walletAddress, ...(req.employee.previousWallets || [])] }
     }
-    res.json(employee)
+
+    const [payments, total] = await Promise.all([
+      PaymentRecord.find(query)
+        .sort({ paymentDate: -1 })
+        .skip((pageNumber - 1) * pageSize)
+        .limit(pageSize),
+      PaymentRecord.countDocuments(query)
+    ])
+
+    res.json({
+      success: true,
+      data: {
+        data: payments,
+        totalPages: Math.ceil(total / pageSize),
+        currentPage: pageNumber,
+        total
+      }
+    })
+  } catch (error) {
+    res.status(500).json({ error: error.message })
+  }
+})
+
+// Request a payout wallet change, signed by the employee from their current wallet.
+// Called once requestWalletChange has confirmed on-chain; the change applies after the timelock.
+router.post('/wallet/:address/wallet-change', loadOwnEmployee, requireOwnWallet, async (req, res) => {
+  try {
+    await recordWalletChange(req, res, req.employee, 'employee')
   } catch (error) {
+    logger.error('Wallet change request failed', { error: error.message, employeeId: req.employee._id })
+    res.status(500).json({ error: error.message })
+  }
+})
+
+// Cancel the employee's own pending wallet change
+router.delete('/wallet/:address/wallet-change', loadOwnEmployee, requireOwnWallet, async (req, res) => {
+  try {
+    await cancelRecordedWalletChange(req, res, req.employee, 'employee')
+  } catch (error) {
+    res.status(500).json({ error: error.message })
+  }
+})
+
+// Apply the employee's own wallet change after the timelock
+router.post('/wallet/:address/wallet-change/apply', loadOwnEmployee, requireOwnWallet, async (req, res) => {
+  try {
+    await applyRecordedWalletChange(req, res, req.employee, 'employee')
+  } catch (error) {
+    logger.error('Wallet change apply failed', { error: error.message, employeeId: req.employee._id })
     res.status(500).json({ error: error.message })
   }
 })
@@ -160,24 +545,47 @@ router.get('/ens/:subdomain', async (req, res) => {
   }
 })
 
-// Create new employee
-router.post('/', extractCompanyFromWallet, async (req, res) => {
+// Create an employee from an accepted invite, or mirror one already on the payroll contract
+router.post('/', extractCompanyFromWallet, requireRole('hr'), async (req, res) => {
   try {
-    // Handle both flat and nested data structures
-    let name, walletAddress, salaryAmount, paymentToken = 'ETH'
-    
-    if (req.body.personalInfo) {
-      // Nested structure from frontend
-      name = req.body.personalInfo.name
-      walletAddress = req.body.payrollSettings?.walletAddress
-      salaryAmount = req.body.payrollSettings?.salaryAmount
-      paymentToken = req.body.payrollSettings?.preferredToken || 'ETH'
+    let name, walletAddress, salaryAmount, paymentToken = 'ETH', paymentFrequency = 'MONTHLY'
+    let invite = null
+
+    if (req.body.inviteId) {
+      // The employee attested to the wallet by signing their invite
+      const accepted = await EmployeeInvite.findAccepted(req.company._id, [req.body.inviteId])
+      invite = accepted[0]
+
+      if (!invite) {
+        return res.status(400).json({
+          error: 'Wallet not verified',
+          message: 'The employee must accept their invite and sign with their wallet first'
+        })
+      }
+
+      ({ name, walletAddress, salaryAmount, paymentToken, paymentFrequency } = invite)
+    } else if (req.body.fromContract) {
+      // Mirrors an employee already on the payroll contract, so the wallet was not typed in
+      if (req.body.personalInfo) {
+        // Nested structure from frontend
+        name = req.body.personalInfo.name
+        walletAddress = req.body.payrollSettings?.walletAddress
+        salaryAmount = req.body.payrollSettings?.salaryAmount
+        paymentToken = req.body.payrollSettings?.preferredToken || 'ETH'
+        paymentFrequency = req.body.payrollSettings?.paymentFrequency || 'MONTHLY'
+      } else {
+        // Flat structure for direct API calls
+        name = req.body.name
+        walletAddress = req.body.walletAddress
+        salaryAmount = req.body.salaryAmount
+        paymentToken = req.body.paymentToken || 'ETH'
+        paymentFrequency = req.body.paymentFrequency || 'MONTHLY'
+      }
     } else {
-      // Flat structure for direct API calls
-      name = req.body.name
-      walletAddress = req.body.walletAddress
-      salaryAmount = req.body.salaryAmount
-      paymentToken = req.body.paymentToken || 'ETH'
+      return res.status(400).json({
+        error: 'Wallet not verified',
+        message: 'Invite the employee so they can confirm their wallet address'
+      })
     }
 
     // Validate required fields
@@ -195,6 +603,32 @@ router.post('/', extractCompanyFromWallet, async (req, res) => {
       })
     }
 
+    if (!invite) {
+      // Only mirror what the contract actually holds for this wallet
+      let onChain
+      try {
+        onChain = await getOnChainEmployee(walletAddress)
+      } catch (error) {
+        logger.error('On-chain employee lookup failed', { error: error.message, walletAddress })
+        return res.status(503).json({
+          error: 'Could not verify the employee on the payroll contract'
+        })
+      }
+
+      if (!onChain.isActive || onChain.walletAddress !== walletAddress.toLowerCase()) {
+        return res.status(400).json({
+          error: 'Employee not on payroll contract',
+          message: 'Only active employees on the payroll contract can be mirrored'
+        })
+      }
+    }
+
+    if (!Employee.schema.path('paymentFrequency').enumValues.includes(paymentFrequency)) {
+      return res.status(400).json({
+        error: 'Invalid payment frequency'
+      })
+    }
+
     // Check if wallet already exists
     const existingEmployee = await Employee.findOne({ walletAddress: walletAddress.toLowerCase() })
     if (existingEmployee) {
@@ -210,12 +644,20 @@ router.post('/', extractCompanyFromWallet, async (req, res) => {
       name: name.trim(),
       walletAddress: walletAddress.toLowerCase(),
       salaryAmount: salaryAmount.toString(),
-      paymentToken: paymentToken
+      paymentToken: paymentToken,
+      paymentFrequency: paymentFrequency,
+      invite: invite ? invite._id : undefined
     }
 
     const employee = new Employee(employeeData)
     await employee.save()
 
+    if (invite) {
+      invite.status = 'onboarded'
+      invite.employeeId = employee._id
+      await invite.save()
+    }
+
     logger.info('Employee created successfully', {
       companyId: req.company._id,
       employeeId: employee._id,
@@ -233,6 +675,7 @@ router.post('/', extractCompanyFromWallet, async (req, res) => {
         walletAddress: employee.walletAddress,
         salaryAmount: employee.salaryAmount,
         paymentToken: employee.paymentToken,
+        paymentFrequency: employee.paymentFrequency,
         ensDomain: `${employee.ensName}.${req.company.ensDomain}`
       }
     })
@@ -270,22 +713,426 @@ router.post('/', extractCompanyFromWallet, async (req, res) => {
   }
 })
 
-// Delete employee
-router.delete('/:id', extractCompanyFromWallet, async (req, res) => {
+// Record employees onboarded through addEmployeesBatch.
+// Called once the batch transaction is final, with one entry per EmployeeAdded event.
+// Entries that name an accepted invite take their payroll details from it; imported rows
+// carry their own and are only recorded once the contract holds the employee.
+router.post('/bulk', extractCompanyFromWallet, requireRole('hr'), async (req, res) => {
   try {
-    const employee = await Employee.findOneAndDelete({ 
-      _id: req.params.id, 
-      companyId: req.company._id 
+    const { employees } = req.body
+
+    if (!Array.isArray(employees) || employees.length === 0) {
+      return res.status(400).json({ error: 'At least one employee is required' })
+    }
+
+    const frequencies = Employee.schema.path('paymentFrequency').enumValues
+    const tokens = Employee.schema.path('paymentToken').enumValues
+    const invalid = employees.find(item =>
+      (!item.inviteId && (
+        !item.name || !item.name.trim() ||
+        !/^\d+(\.\d+)?$/.test(String(item.salaryAmount)) ||
+        !frequencies.includes(item.paymentFrequency) ||
+        !tokens.includes(item.paymentToken)
+      )) ||
+      !ethers.utils.isAddress(item.walletAddress || '') ||
+      !item.ensName ||
+      !/^0x[a-fA-F0-9]{64}$/.test(item.ensNode || '') ||
+      !/^0x[a-fA-F0-9]{64}$/.test(item.transactionHash || '')
+    )
+    if (invalid) {
+      return res.status(400).json({
+        error: 'Invalid onboarded employee data',
+        walletAddress: invalid.walletAddress
+      })
+    }
+
+    const invites = await EmployeeInvite.findAccepted(
+      req.company._id,
+      employees.filter(item => item.inviteId).map(item => item.inviteId)
+    )
+    const inviteById = new Map(invites.map(invite => [invite._id.toString(), invite]))
+
+    const wallets = employees.map(item => item.walletAddress.toLowerCase())
+    const existing = await Employee.find({ walletAddress: { $in: wallets } })
+    const existingWallets = new Set(existing.map(employee => employee.walletAddress))
+
+    const created = []
+    const skipped = []
+    for (const item of employees) {
+      const walletAddress = item.walletAddress.toLowerCase()
+      let invite = null
+
+      if (item.inviteId) {
+        // Payroll details come from the invite, never from the request
+        invite = inviteById.get(String(item.inviteId))
+        if (!invite || invite.walletAddress !== walletAddress) {
+          skipped.push({ walletAddress, error: 'Wallet not verified by an accepted invite' })
+          continue
+        }
+      }
+
+      if (existingWallets.has(walletAddress)) {
+        skipped.push({ walletAddress, error: 'Wallet address already in use' })
+        continue
+      }
+
+      if (!invite) {
+        // Only mirror what the contract actually holds for this wallet
+        let onChain
+        try {
+          onChain = await getOnChainEmployee(walletAddress)
+        } catch (error) {
+          logger.error('On-chain employee lookup failed', { error: error.message, walletAddress })
+          skipped.push({ walletAddress, error: 'Could not verify the employee on the payroll contract' })
+          continue
+        }
+
+        if (!onChain.isActive || onChain.walletAddress !== walletAddress ||
+          onChain.ensNode.toLowerCase() !== item.ensNode.toLowerCase()) {
+          skipped.push({ walletAddress, error: 'Employee not on payroll contract' })
+          continue
+        }
+      }
+
+      try {
+        const details = invite || {
+          name: item.name.trim(),
+          salaryAmount: item.salaryAmount.toString(),
+          paymentToken: item.paymentToken,
+          paymentFrequency: item.paymentFrequency
+        }
+        const employee = new Employee({
+          companyId: req.company._id,
+          name: details.name,
+          ensName: item.ensName,
+          walletAddress,
+          salaryAmount: details.salaryAmount,
+          paymentToken: details.paymentToken,
+          paymentFrequency: details.paymentFrequency,
+          ensNode: item.ensNode,
+          onboardingTransactionHash: item.transactionHash,
+          invite: invite?._id
+        })
+        await employee.save()
+        existingWallets.add(walletAddress)
+        created.push(employee)
+
+        if (invite) {
+          invite.status = 'onboarded'
+          invite.employeeId = employee._id
+          await invite.save()
+        }
+      } catch (saveError) {
+        skipped.push({
+          walletAddress,
+          error: saveError.code === 11000 ? 'ENS name already in use' : saveError.message
+        })
+      }
+    }
+
+    logger.info('Onboarded employees recorded', {
+      companyId: req.company._id,
+      created: created.length,
+      skipped: skipped.length,
+      recordedBy: req.walletAddress
     })
+
+    res.status(201).json({ success: true, data: { created, skipped } })
+  } catch (error) {
+    logger.error('Recording onboarded employees failed', {
+      error: error.message,
+      companyId: req.company?._id
+    })
+    res.status(500).json({ error: error.message })
+  }
+})
+
+// Update employee compensation.
+// Called after updateEmployeeCompensation confirms on-chain, with its transaction hash, or to
+// mirror the contract (fromContract); the replaced values are kept as history.
+router.put('/:id', extractCompanyFromWallet, requireRole('hr'), async (req, res) => {
+  try {
+    const employee = await Employee.findOne({ _id: req.params.id, companyId: req.company._id })
     if (!employee) {
       return res.status(404).json({ error: 'Employee not found' })
     }
 
-    res.json({ 
-      success: true,
-      message: 'Employee deleted successfully' 
+    // Handle both flat and nested data structures
+    const settings = req.body.payrollSettings || req.body
+    const salaryAmount = settings.salaryAmount !== undefined ? settings.salaryAmount.toString() : employee.salaryAmount
+    const paymentFrequency = settings.paymentFrequency || employee.paymentFrequency || 'MONTHLY'
+    const paymentToken = settings.preferredToken || settings.paymentToken || employee.paymentToken
+    const { transactionHash, fromContract } = req.body
+
+    if (!/^\d+(\.\d+)?$/.test(salaryAmount) || parseFloat(salaryAmount) <= 0) {
+      return res.status(400).json({ error: 'Salary must be greater than 0' })
+    }
+
+    if (!Employee.schema.path('paymentFrequency').enumValues.includes(paymentFrequency)) {
+      return res.status(400).json({ error: 'Invalid payment frequency' })
+    }
+
+    if (!Employee.schema.path('paymentToken').enumValues.includes(paymentToken)) {
+      return res.status(400).json({ error: 'Invalid payment token' })
+    }
+
+    if (transactionHash && !/^0x[a-fA-F0-9]{64}$/.test(transactionHash)) {
+      return res.status(400).json({ error: 'Invalid transaction hash' })
+    }
+
+    const changed = salaryAmount !== employee.salaryAmount ||
+      paymentFrequency !== (employee.paymentFrequency || 'MONTHLY') ||
+      paymentToken !== employee.paymentToken
+
+    if (changed) {
+      const unverified = await verifyCompensation(
+        employee,
+        { salaryAmount, paymentFrequency, paymentToken },
+        { transactionHash, fromContract }
+      )
+      if (unverified) {
+        return res.status(unverified.status).json({ error: unverified.error, message: unverified.message })
+      }
+
+      employee.compensationHistory.push({
+        salaryAmount: employee.salaryAmount,
+        paymentFrequency: employee.paymentFrequency || 'MONTHLY',
+        paymentToken: employee.paymentToken,
+        changedAt: new Date(),
+        changedBy: req.walletAddress,
+        transactionHash
+      })
+      employee.salaryAmount = salaryAmount
+      employee.paymentFrequency = paymentFrequency
+      employee.paymentToken = paymentToken
+      await employee.save()
+
+      logger.info('Employee compensation updated', {
+        companyId: req.company._id,
+        employeeId: employee._id,
+        updatedBy: req.walletAddress,
+        transactionHash
+      })
+    }
+
+    res.json({ success: true, data: employee })
+  } catch (error) {
+    logger.error('Employee update failed', {
+      error: error.message,
+      companyId: req.company?._id,
+      employeeId: req.params.id
+    })
+    res.status(500).json({ error: error.message })
+  }
+})
+
+// Terminate employee.
+// Called once removeEmployee has confirmed on-chain, which is checked against the contract;
+// the record is deactivated, not deleted.
+router.post('/:id/terminate', extractCompanyFromWallet, requireRole('hr'), async (req, res) => {
+  try {
+    const employee = await Employee.findOne({ _id: req.params.id, companyId: req.company._id })
+    if (!employee) {
+      return res.status(404).json({ error: 'Employee not found' })
+    }
+
+    if (employee.isActive === false) {
+      return res.status(409).json({ error: 'Employee already terminated' })
+    }
+
+    const {
+      terminationDate,
+      reason,
+      finalPaymentAmount,
+      finalPaymentHash,
+      removalTransactionHash,
+      ensAction = 'kept',
+      ensNewOwner,
+      ensTransactionHash
+    } = req.body
+
+    const date = new Date(terminationDate)
+    if (!terminationDate || isNaN(date.getTime())) {
+      return res.status(400).json({ error: 'Valid termination date is required' })
+    }
+
+    if (reason && reason.length > 500) {
+      return res.status(400).json({ error: 'Reason cannot exceed 500 characters' })
+    }
+
+    const hashes = [finalPaymentHash, removalTransactionHash, ensTransactionHash].filter(Boolean)
+    if (hashes.some(hash => !/^0x[a-fA-F0-9]{64}$/.test(hash))) {
+      return res.status(400).json({ error: 'Invalid transaction hash' })
+    }
+
+    if (!['kept', 'revoked', 'reassigned'].includes(ensAction)) {
+      return res.status(400).json({ error: 'Invalid ENS action' })
+    }
+
+    if (ensAction === 'reassigned' && !ethers.utils.isAddress(ensNewOwner || '')) {
+      return res.status(400).json({ error: 'Invalid new ENS owner address' })
+    }
+
+    let onChain
+    try {
+      onChain = await getOnChainEmployee(employee.walletAddress)
+    } catch (error) {
+      logger.error('On-chain employee lookup failed', { error: error.message, employeeId: employee._id })
+      return res.status(503).json({ error: 'Could not verify the termination on the payroll contract' })
+    }
+
+    if (onChain.isActive) {
+      return res.status(409).json({
+        error: 'Employee still active on-chain',
+        message: 'Remove the employee on the payroll contract before recording the termination'
+      })
+    }
+
+    employee.isActive = false
+    employee.termination = {
+      terminationDate: date,
+      reason,
+      finalPaymentAmount: finalPaymentAmount !== undefined ? finalPaymentAmount.toString() : undefined,
+      finalPaymentHash,
+      removalTransactionHash,
+      ensAction,
+      ensNewOwner: ensAction === 'reassigned' ? ensNewOwner : undefined,
+      ensTransactionHash,
+      terminatedBy: req.walletAddress
+    }
+    await employee.save()
+
+    logger.info('Employee terminated', {
+      companyId: req.company._id,
+      employeeId: employee._id,
+      terminationDate: date,
+      ensAction,
+      terminatedBy: req.walletAddress
     })
+
+    res.json({ success: true, data: employee })
   } catch (error) {
+    logger.error('Employee termination failed', {
+      error: error.message,
+      companyId: req.company?._id,
+      employeeId: req.params.id
+    })
+    res.status(500).json({ error: error.message })
+  }
+})
+
+// Reactivate employee.
+// Used when the employee is active on-chain again; the termination details are cleared.
+router.post('/:id/activate', extractCompanyFromWallet, requireRole('hr'), async (req, res) => {
+  try {
+    const employee = await Employee.findOne({ _id: req.params.id, companyId: req.company._id })
+    if (!employee) {
+      return res.status(404).json({ error: 'Employee not found' })
+    }
+
+    if (employee.isActive !== false) {
+      return res.status(409).json({ error: 'Employee already active' })
+    }
+
+    let onChain
+    try {
+      onChain = await getOnChainEmployee(employee.walletAddress)
+    } catch (error) {
+      logger.error('On-chain employee lookup failed', { error: error.message, employeeId: employee._id })
+      return res.status(503).json({ error: 'Could not verify the employee on the payroll contract' })
+    }
+
+    if (!onChain.isActive) {
+      return res.status(409).json({
+        error: 'Employee not active on-chain',
+        message: 'Add the employee back to the payroll contract before reactivating the record'
+      })
+    }
+
+    employee.isActive = true
+    employee.termination = undefined
+    await employee.save()
+
+    logger.info('Employee reactivated', {
+      companyId: req.company._id,
+      employeeId: employee._id,
+      activatedBy: req.walletAddress
+    })
+
+    res.json({ success: true, data: employee })
+  } catch (error) {
+    logger.error('Employee reactivation failed', {
+      error: error.message,
+      companyId: req.company?._id,
+      employeeId: req.params.id
+    })
+    res.status(500).json({ error: error.message })
+  }
+})
+
+// Request a payout wallet change on the employee's behalf.
+// HR re-enters the new wallet and confirms they verified the request with the employee
+// outside the channel it came in, since this is where social engineering would target.
+router.post('/:id/wallet-change', extractCompanyFromWallet, requireRole('hr'), async (req, res) => {
+  try {
+    const employee = await Employee.findOne({ _id: req.params.id, companyId: req.company._id })
+    if (!employee) {
+      return res.status(404).json({ error: 'Employee not found' })
+    }
+
+    const { newWallet, confirmNewWallet, verifiedWithEmployee } = req.body
+
+    if (!newWallet || !confirmNewWallet || newWallet.toLowerCase() !== confirmNewWallet.toLowerCase()) {
+      return res.status(400).json({ error: 'New wallet confirmation does not match' })
+    }
+
+    if (verifiedWithEmployee !== true) {
+      return res.status(400).json({
+        error: 'Confirmation required',
+        message: 'Confirm that you verified this change with the employee directly'
+      })
+    }
+
+    await recordWalletChange(req, res, employee, getActorRole(req))
+  } catch (error) {
+    logger.error('Wallet change request failed', {
+      error: error.message,
+      companyId: req.company?._id,
+      employeeId: req.params.id
+    })
+    res.status(500).json({ error: error.message })
+  }
+})
+
+// Cancel a pending wallet change
+router.delete('/:id/wallet-change', extractCompanyFromWallet, requireRole('hr'), async (req, res) => {
+  try {
+    const employee = await Employee.findOne({ _id: req.params.id, companyId: req.company._id })
+    if (!employee) {
+      return res.status(404).json({ error: 'Employee not found' })
+    }
+
+    await cancelRecordedWalletChange(req, res, employee, getActorRole(req))
+  } catch (error) {
+    res.status(500).json({ error: error.message })
+  }
+})
+
+// Apply a wallet change after the timelock
+router.post('/:id/wallet-change/apply', extractCompanyFromWallet, requireRole('hr'), async (req, res) => {
+  try {
+    const employee = await Employee.findOne({ _id: req.params.id, companyId: req.company._id })
+    if (!employee) {
+      return res.status(404).json({ error: 'Employee not found' })
+    }
+
+    await applyRecordedWalletChange(req, res, employee, getActorRole(req))
+  } catch (error) {
+    logger.error('Wallet change apply failed', {
+      error: error.message,
+      companyId: req.company?._id,
+      employeeId: req.params.id
+    })
     res.status(500).json({ error: error.message })
   }
 })
@@ -0,0 +1,203 @@
+const express = require('express')
+const request = require('supertest')
+
+jest.mock('../models/Employee', () => ({ findOne: jest.fn(), findByWallet: jest.fn() }))
+jest.mock('../models/Company', () => ({ findByMember: jest.fn() }))
+jest.mock('../models/PaymentRecord', () => ({}))
+jest.mock('../models/EmployeeInvite', () => ({}))
+jest.mock('../models/Notification', () => ({ create: jest.fn() }))
+jest.mock('../services/payrollContractService', () => ({
+  getOnChainEmployee: jest.fn(),
+  getPendingWalletChange: jest.fn(),
+  getCompensationUpdate: jest.fn()
+}))
+
+const Employee = require('../models/Employee')
+const Company = require('../models/Company')
+const Notification = require('../models/Notification')
+const { getOnChainEmployee, getPendingWalletChange } = require('../services/payrollContractService')
+const employeeRoutes = require('./employees')
+
+const OWNER = '0x1111111111111111111111111111111111111111'
+const HR = '0x2222222222222222222222222222222222222222'
+const EMPLOYEE = '0x3333333333333333333333333333333333333333'
+const NEW_WALLET = '0x4444444444444444444444444444444444444444'
+const EFFECTIVE_AT = new Date('2026-01-04T12:00:00Z')
+
+const company = {
+  _id: 'company1',
+  getRole: (wallet) => ({ [OWNER]: 'owner', [HR]: 'hr' })[wallet] || null
+}
+
+// Mongoose queries are awaited directly or after populate()
+const query = (value) => ({
+  populate: () => Promise.resolve(value),
+  then: (resolve, reject) => Promise.resolve(value).then(resolve, reject)
+})
+
+const makeEmployee = (walletChange) => ({
+  _id: 'employee1',
+  name: 'Alice',
+  companyId: company,
+  walletAddress: EMPLOYEE,
+  isActive: true,
+  previousWallets: [],
+  walletChange,
+  save: jest.fn().mockResolvedValue(undefined)
+})
+
+// Stands in for authenticateSession, which sets the signed-in wallet
+const app = express()
+app.use(express.json())
+app.use((req, res, next) => {
+  req.wallet = req.headers['x-wallet']
+  next()
+})
+app.use('/api/employees', employeeRoutes)
+
+let employee
+
+beforeEach(() => {
+  jest.clearAllMocks()
+  Company.findByMember.mockResolvedValue(company)
+  Employee.findByWallet.mockResolvedValue(null)
+  Employee.findOne.mockImplementation(() => query(employee))
+  Notification.create.mockResolvedValue({})
+})
+
+describe('wallet change notifications', () => {
+  const pending = { newWallet: NEW_WALLET, requestedBy: HR, requestedByRole: 'hr', effectiveAt: EFFECTIVE_AT }
+
+  it('notifies the employee when HR requests a change', async () => {
+    employee = makeEmployee()
+    getPendingWalletChange.mockResolvedValue({ newWallet: NEW_WALLET, requestedBy: HR, effectiveAt: EFFECTIVE_AT })
+
+    const res = await request(app)
+      .post('/api/employees/employee1/wallet-change')
+      .set('x-wallet', HR)
+      .send({ newWallet: NEW_WALLET, confirmNewWallet: NEW_WALLET, verifiedWithEmployee: true })
+
+    expect(res.status).toBe(200)
+    expect(Notification.create).toHaveBeenCalledWith(expect.objectContaining({
+      companyId: 'company1',
+      employeeId: 'employee1',
+      audience: 'employee',
+      type: 'wallet_change_requested',
+      actorWallet: HR,
+      actorRole: 'hr',
+      message: expect.stringContaining('0x4444...4444 from Sun, 04 Jan 2026 12:00:00 GMT')
+    }))
+  })
+
+  it('notifies the company when the employee requests a change', async () => {
+    employee = makeEmployee()
+    getPendingWalletChange.mockResolvedValue({ newWallet: NEW_WALLET, requestedBy: EMPLOYEE, effectiveAt: EFFECTIVE_AT })
+
+    const res = await request(app)
+      .post(`/api/employees/wallet/${EMPLOYEE}/wallet-change`)
+      .set('x-wallet', EMPLOYEE)
+      .send({ newWallet: NEW_WALLET })
+
+    expect(res.status).toBe(200)
+    expect(Notification.create).toHaveBeenCalledWith(expect.objectContaining({
+      audience: 'company',
+      type: 'wallet_change_requested',
+      actorRole: 'employee',
+      message: expect.stringMatching(/^Alice requested that their pay move to 0x4444\.\.\.4444/)
+    }))
+  })
+
+  it('notifies the employee when the owner cancels a change', async () => {
+    employee = makeEmployee(pending)
+    getPendingWalletChange.mockResolvedValue(null)
+
+    const res = await request(app)
+      .delete('/api/employees/employee1/wallet-change')
+      .set('x-wallet', OWNER)
+
+    expect(res.status).toBe(200)
+    expect(Notification.create).toHaveBeenCalledWith(expect.objectContaining({
+      audience: 'employee',
+      type: 'wallet_change_cancelled',
+      actorRole: 'owner',
+      message: 'Your employer cancelled the pending move of your pay to 0x4444...4444.'
+    }))
+  })
+
+  it('notifies the company when the employee cancels a change', async () => {
+    employee = makeEmployee(pending)
+    getPendingWalletChange.mockResolvedValue(null)
+
+    const res = await request(app)
+      .delete(`/api/employees/wallet/${EMPLOYEE}/wallet-change`)
+      .set('x-wallet', EMPLOYEE)
+
+    expect(res.status).toBe(200)
+    expect(Notification.create).toHaveBeenCalledWith(expect.objectContaining({
+      audience: 'company',
+      type: 'wallet_change_cancelled',
+      message: 'Alice cancelled the pending move of their pay to 0x4444...4444.'
+    }))
+  })
+
+  it('notifies the employee when HR applies a change', async () => {
+    employee = makeEmployee({ ...pending, effectiveAt: new Date(Date.now() - 1000) })
+    getOnChainEmployee.mockResolvedValue({ walletAddress: NEW_WALLET, isActive: true })
+
+    const res = await request(app)
+      .post('/api/employees/employee1/wallet-change/apply')
+      .set('x-wallet', HR)
+      .send({})
+
+    expect(res.status).toBe(200)
+    expect(employee.walletAddress).toBe(NEW_WALLET)
+    expect(Notification.create).toHaveBeenCalledWith(expect.objectContaining({
+      audience: 'employee',
+      type: 'wallet_change_applied',
+      message: 'Your employer applied your wallet change. You are now paid to 0x4444...4444.'
+    }))
+  })
+
+  it('notifies the company when the employee applies a change', async () => {
+    employee = makeEmployee({ ...pending, effectiveAt: new Date(Date.now() - 1000) })
+    getOnChainEmployee.mockResolvedValue({ walletAddress: NEW_WALLET, isActive: true })
+
+    const res = await request(app)
+      .post(`/api/employees/wallet/${EMPLOYEE}/wallet-change/apply`)
+      .set('x-wallet', EMPLOYEE)
+      .send({})
+
+    expect(res.status).toBe(200)
+    expect(Notification.create).toHaveBeenCalledWith(expect.objectContaining({
+      audience: 'company',
+      type: 'wallet_change_applied',
+      actorWallet: EMPLOYEE,
+      message: 'Alice applied their wallet change and is now paid to 0x4444...4444.'
+    }))
+  })
+
+  it('does not notify anyone when the change is not on-chain', async () => {
+    employee = makeEmployee(pending)
+    getPendingWalletChange.mockResolvedValue(pending)
+
+    const res = await request(app)
+      .delete('/api/employees/employee1/wallet-change')
+      .set('x-wallet', HR)
+
+    expect(res.status).toBe(409)
+    expect(Notification.create).not.toHaveBeenCalled()
+  })
+
+  it('still records the change when the notification cannot be saved', async () => {
+    employee = makeEmployee(pending)
+    getPendingWalletChange.mockResolvedValue(null)
+    Notification.create.mockRejectedValue(new Error('write failed'))
+
+    const res = await request(app)
+      .delete(`/api/employees/wallet/${EMPLOYEE}/wallet-change`)
+      .set('x-wallet', EMPLOYEE)
+
+    expect(res.status).toBe(200)
+    expect(employee.walletChange).toBeUndefined()
+  })
+})
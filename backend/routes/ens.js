@@ -6,7 +6,7 @@
 const express = require('express')
 const router = express.Router()
 const Employee = require('../models/Employee')
-const authMiddleware = require('../middleware/auth')
+const { requireAuth } = require('../middleware/auth')
 const { validateENSRegistration } = require('../middleware/validation')
 
 // Mock ENS registry (in a real app, you'd integrate with actual ENS contracts)
@@ -21,7 +21,7 @@ let ensRegistry = [
 ]
 
 // Get company domains
-router.get('/company-domains', authMiddleware, async (req, res) => {
+router.get('/company-domains', requireAuth, async (req, res) => {
   try {
     res.json(ensRegistry)
   } catch (error) {
@@ -30,7 +30,7 @@ router.get('/company-domains', authMiddleware, async (req, res) => {
 })
 
 // Register ENS subdomain
-router.post('/register', authMiddleware, validateENSRegistration, async (req, res) => {
+router.post('/register', requireAuth, validateENSRegistration, async (req, res) => {
   try {
     const { subdomain, employeeAddress, resolverAddress } = req.body
     
@@ -53,7 +53,7 @@ router.post('/register', authMiddleware, validateENSRegistration, async (req, re
       owner: employeeAddress,
       resolver: resolverAddress || '0x4976fb03C32e5B8cfe2b6Cb31c09Ba78EBaBa41',
       createdAt: new Date().toISOString(),
-      createdBy: req.user.address
+      createdBy: req.wallet
     }
     
     ensRegistry.push(newDomain)
@@ -79,7 +79,7 @@ router.post('/register', authMiddleware, validateENSRegistration, async (req, re
 })
 
 // Resolve ENS name
-router.get('/resolve/:ensName', authMiddleware, async (req, res) => {
+router.get('/resolve/:ensName', requireAuth, async (req, res) => {
   try {
     const { ensName } = req.params
     
@@ -101,7 +101,7 @@ router.get('/resolve/:ensName', authMiddleware, async (req, res) => {
 })
 
 // Transfer ENS subdomain
-router.post('/transfer', authMiddleware, async (req, res) => {
+router.post('/transfer', requireAuth, async (req, res) => {
   try {
     const { subdomain, newOwner } = req.body
     
@@ -119,7 +119,7 @@ router.post('/transfer', authMiddleware, async (req, res) => {
     // Update domain ownership
     ensRegistry[domainIndex].owner = newOwner
     ensRegistry[domainIndex].transferredAt = new Date().toISOString()
-    ensRegistry[domainIndex].transferredBy = req.user.address
+    ensRegistry[domainIndex].transferredBy = req.wallet
     
     // Mock transaction hash
     const mockTransactionHash = '0x' + Math.random().toString(16).slice(2, 66)
@@ -135,7 +135,7 @@ router.post('/transfer', authMiddleware, async (req, res) => {
 })
 
 // Get ENS subdomain details
-router.get('/subdomain/:subdomain', authMiddleware, async (req, res) => {
+router.get('/subdomain/:subdomain', requireAuth, async (req, res) => {
   try {
     const { subdomain } = req.params
     
@@ -162,7 +162,7 @@ router.get('/subdomain/:subdomain', authMiddleware, async (req, res) => {
 })
 
 // Check subdomain availability
-router.get('/check/:subdomain', authMiddleware, async (req, res) => {
+router.get('/check/:subdomain', requireAuth, async (req, res) => {
   try {
     const { subdomain } = req.params
     
@@ -194,7 +194,7 @@ router.get('/check/:subdomain', authMiddleware, async (req, res) => {
 })
 
 // Get ENS statistics
-router.get('/stats/overview', authMiddleware, async (req, res) => {
+router.get('/stats/overview', requireAuth, async (req, res) => {
   try {
     const totalDomains = ensRegistry.length
     const employeeDomains = ensRegistry.filter(d => d.subdomain !== 'company').length
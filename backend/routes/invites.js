@@ -0,0 +1,307 @@
+/**
+ * Employee invite routes for Web3 Payroll System
+ * HR invites a pending employee, who proves wallet ownership by signing the invite
+ * @author Dev Austin
+ */
+
+const express = require('express')
+const router = express.Router()
+const crypto = require('crypto')
+const Company = require('../models/Company')
+const Employee = require('../models/Employee')
+const EmployeeInvite = require('../models/EmployeeInvite')
+const { verifyAttestation } = require('../services/attestationService')
+const { requireRole } = require('../middleware/roles')
+const { ethers } = require('ethers')
+const winston = require('winston')
+
+const logger = winston.createLogger({
+  level: 'info',
+  format: winston.format.json(),
+  transports: [
+    new winston.transports.File({ filename: 'logs/invites.log' }),
+  ]
+})
+
+// How long an invite link stays valid
+const INVITE_TTL_DAYS = parseInt(process.env.INVITE_TTL_DAYS) || 7
+
+// Middleware to extract wallet address and get the company it belongs to
+const extractCompanyFromWallet = async (req, res, next) => {
+  try {
+    // Set by authenticateSession from the signed-in session
+    const walletAddress = req.wallet
+
+    if (!walletAddress) {
+      return res.status(401).json({
+        error: 'Sign-in required',
+        message: 'Sign in with your wallet to continue'
+      })
+    }
+
+    const company = await Company.findByMember(walletAddress.toLowerCase())
+
+    if (!company) {
+      return res.status(404).json({
+        error: 'Company not found',
+        message: 'Please register your company first'
+      })
+    }
+
+    req.company = company
+    req.walletAddress = walletAddress.toLowerCase()
+    req.role = company.getRole(req.walletAddress)
+    next()
+  } catch (error) {
+    logger.error('Company extraction failed', { error: error.message })
+    res.status(500).json({ error: 'Authentication failed' })
+  }
+}
+
+// Load the invite behind a link; anyone holding the link may read it
+const loadInviteByToken = async (req, res, next) => {
+  try {
+    const invite = await EmployeeInvite.findOne({ token: req.params.token })
+      .populate('companyId', 'name ensDomain')
+
+    if (!invite || invite.status === 'revoked' || !invite.companyId) {
+      return res.status(404).json({ error: 'Invite not found' })
+    }
+
+    if (invite.isExpired()) {
+      return res.status(410).json({ error: 'Invite expired', message: 'Ask your employer for a new invite link' })
+    }
+
+    req.invite = invite
+    next()
+  } catch (error) {
+    logger.error('Invite lookup failed', { error: error.message })
+    res.status(500).json({ error: 'Failed to load invite' })
+  }
+}
+
+// What the employee sees before signing
+const publicInvite = (invite) => ({
+  _id: invite._id,
+  name: invite.name,
+  salaryAmount: invite.salaryAmount,
+  paymentToken: invite.paymentToken,
+  paymentFrequency: invite.paymentFrequency,
+  status: invite.status,
+  expectedWallet: invite.expectedWallet,
+  walletAddress: invite.walletAddress,
+  expiresAt: invite.expiresAt,
+  companyName: invite.companyId.name,
+  ensDomain: invite.companyId.ensDomain
+})
+
+// List the company's invites
+router.get('/', extractCompanyFromWallet, requireRole('hr'), async (req, res) => {
+  try {
+    const query = { companyId: req.company._id }
+    if (req.query.status) {
+      query.status = { $in: req.query.status.split(',') }
+    }
+
+    const invites = await EmployeeInvite.find(query).sort({ createdAt: -1 })
+    res.json({ success: true, data: invites })
+  } catch (error) {
+    logger.error('Failed to list invites', { error: error.message })
+    res.status(500).json({ error: 'Failed to fetch invites' })
+  }
+})
+
+// Check the payroll details HR enters for an invite; returns an error message or null
+const validateInviteInput = ({ name, salaryAmount, paymentToken = 'ETH', paymentFrequency = 'MONTHLY', expectedWallet, subdomain }) => {
+  if (!name || !name.trim() || !salaryAmount) {
+    return 'Name and salary are required'
+  }
+
+  if (!(parseFloat(salaryAmount) > 0)) {
+    return 'Salary must be greater than 0'
+  }
+
+  if (!EmployeeInvite.schema.path('paymentFrequency').enumValues.includes(paymentFrequency)) {
+    return 'Invalid payment frequency'
+  }
+
+  if (!EmployeeInvite.schema.path('paymentToken').enumValues.includes(paymentToken)) {
+    return 'Invalid payment token'
+  }
+
+  if (expectedWallet && !ethers.utils.isAddress(expectedWallet)) {
+    return 'Invalid wallet address'
+  }
+
+  if (subdomain && !/^[a-z0-9-]+$/.test(subdomain)) {
+    return 'Invalid ENS subdomain'
+  }
+
+  return null
+}
+
+const buildInvite = (req, data) => new EmployeeInvite({
+  companyId: req.company._id,
+  token: crypto.randomBytes(24).toString('hex'),
+  name: data.name.trim(),
+  salaryAmount: data.salaryAmount.toString(),
+  paymentToken: data.paymentToken || 'ETH',
+  paymentFrequency: data.paymentFrequency || 'MONTHLY',
+  expectedWallet: data.expectedWallet,
+  subdomain: data.subdomain,
+  position: data.position,
+  department: data.department,
+  createdBy: req.walletAddress,
+  expiresAt: new Date(Date.now() + INVITE_TTL_DAYS * 24 * 60 * 60 * 1000)
+})
+
+// Create a pending employee and its invite link
+router.post('/', extractCompanyFromWallet, requireRole('hr'), async (req, res) => {
+  try {
+    const invalid = validateInviteInput(req.body)
+    if (invalid) {
+      return res.status(400).json({ error: invalid })
+    }
+
+    const invite = buildInvite(req, req.body)
+    await invite.save()
+
+    logger.info('Employee invite created', {
+      companyId: req.company._id,
+      inviteId: invite._id,
+      createdBy: req.walletAddress
+    })
+
+    res.status(201).json({ success: true, data: invite })
+  } catch (error) {
+    logger.error('Failed to create invite', { error: error.message })
+    res.status(500).json({ error: 'Failed to create invite' })
+  }
+})
+
+// Invite every row of a bulk import. The wallet in the file is only expected:
+// the employee still has to sign with it before they can join payroll.
+router.post('/bulk', extractCompanyFromWallet, requireRole('hr'), async (req, res) => {
+  try {
+    const { invites } = req.body
+
+    if (!Array.isArray(invites) || invites.length === 0) {
+      return res.status(400).json({ error: 'At least one invite is required' })
+    }
+
+    const created = []
+    const skipped = []
+    for (let index = 0; index < invites.length; index++) {
+      const data = invites[index]
+      const invalid = validateInviteInput(data)
+      if (invalid) {
+        skipped.push({ index, error: invalid })
+        continue
+      }
+
+      if (data.expectedWallet && await Employee.findByWallet(data.expectedWallet)) {
+        skipped.push({ index, error: 'This wallet already belongs to an employee' })
+        continue
+      }
+
+      const invite = buildInvite(req, data)
+      await invite.save()
+      created.push(invite)
+    }
+
+    logger.info('Employee invites imported', {
+      companyId: req.company._id,
+      created: created.length,
+      skipped: skipped.length,
+      createdBy: req.walletAddress
+    })
+
+    res.status(201).json({ success: true, data: { created, skipped } })
+  } catch (error) {
+    logger.error('Failed to import invites', { error: error.message })
+    res.status(500).json({ error: 'Failed to create invites' })
+  }
+})
+
+// Revoke an invite that has not been added to payroll yet
+router.delete('/:id', extractCompanyFromWallet, requireRole('hr'), async (req, res) => {
+  try {
+    const invite = await EmployeeInvite.findOneAndUpdate(
+      { _id: req.params.id, companyId: req.company._id, status: { $in: ['pending', 'accepted'] } },
+      { status: 'revoked' },
+      { new: true }
+    )
+
+    if (!invite) {
+      return res.status(404).json({ error: 'Invite not found or already used' })
+    }
+
+    res.json({ success: true, data: invite })
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to revoke invite' })
+  }
+})
+
+// Invite details for the employee opening the link (no sign-in needed)
+router.get('/token/:token', loadInviteByToken, async (req, res) => {
+  res.json({ success: true, data: publicInvite(req.invite) })
+})
+
+// Accept an invite with a signed EIP-712 attestation from the employee's wallet
+router.post('/token/:token/accept', loadInviteByToken, async (req, res) => {
+  try {
+    const { walletAddress, chainId, signature } = req.body
+    const invite = req.invite
+
+    if (!ethers.utils.isAddress(walletAddress || '') || !Number.isInteger(chainId) || !signature) {
+      return res.status(400).json({ error: 'Wallet address, chain ID and signature are required' })
+    }
+
+    if (invite.status !== 'pending') {
+      return res.status(409).json({ error: 'This invite has already been accepted' })
+    }
+
+    try {
+      verifyAttestation(invite, invite.companyId, walletAddress, chainId, signature)
+    } catch (error) {
+      return res.status(401).json({ error: error.message })
+    }
+
+    const wallet = walletAddress.toLowerCase()
+    if (invite.expectedWallet && invite.expectedWallet !== wallet) {
+      return res.status(403).json({
+        error: 'Wrong wallet',
+        message: 'Sign with the wallet your employer has on file, or ask them for a new invite'
+      })
+    }
+
+    const existing = await Employee.findByWallet(wallet)
+    if (existing) {
+      return res.status(409).json({ error: 'This wallet already belongs to an employee' })
+    }
+
+    // Accept atomically so a link cannot be claimed by two wallets
+    const accepted = await EmployeeInvite.findOneAndUpdate(
+      { _id: invite._id, status: 'pending' },
+      {
+        status: 'accepted',
+        walletAddress: wallet,
+        attestation: { signature, chainId, signedAt: new Date() }
+      },
+      { new: true }
+    ).populate('companyId', 'name ensDomain')
+
+    if (!accepted) {
+      return res.status(409).json({ error: 'This invite has already been accepted' })
+    }
+
+    logger.info('Employee invite accepted', { inviteId: accepted._id, walletAddress: wallet })
+
+    res.json({ success: true, data: publicInvite(accepted) })
+  } catch (error) {
+    logger.error('Failed to accept invite', { error: error.message })
+    res.status(500).json({ error: 'Failed to accept invite' })
+  }
+})
+
+module.exports = router
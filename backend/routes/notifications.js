@@ -0,0 +1,97 @@
+/**
+ * Notification routes for Web3 Payroll System
+ * @author Dev Austin
+ */
+
+const express = require('express')
+const mongoose = require('mongoose')
+const router = express.Router()
+const Notification = require('../models/Notification')
+const Employee = require('../models/Employee')
+const Company = require('../models/Company')
+const { requireAuth } = require('../middleware/auth')
+const winston = require('winston')
+
+const logger = winston.createLogger({
+  level: 'info',
+  format: winston.format.json(),
+  transports: [
+    new winston.transports.File({ filename: 'logs/notifications.log' }),
+  ]
+})
+
+// Most recent notifications returned in one request
+const NOTIFICATION_LIMIT = 50
+
+// Notifications the signed-in wallet may see: its own as an employee, and its
+// company's when it is the owner or HR. Null when there are none.
+const getVisibleQuery = async (wallet) => {
+  const [employee, company] = await Promise.all([
+    Employee.findByWallet(wallet),
+    Company.findByMember(wallet)
+  ])
+
+  const audiences = []
+  if (employee) {
+    audiences.push({ audience: 'employee', employeeId: employee._id })
+  }
+
+  const role = company && company.getRole(wallet)
+  if (role === 'owner' || role === 'hr') {
+    audiences.push({ audience: 'company', companyId: company._id })
+  }
+
+  return audiences.length > 0 ? { $or: audiences } : null
+}
+
+const toResponse = (notification, wallet) => {
+  const { readBy, ...fields } = notification.toObject()
+  return { ...fields, read: (readBy || []).includes(wallet) }
+}
+
+// List the signed-in wallet's notifications, newest first
+router.get('/', requireAuth, async (req, res) => {
+  try {
+    const wallet = req.wallet.toLowerCase()
+    const query = await getVisibleQuery(wallet)
+    if (!query) {
+      return res.json({ success: true, data: [] })
+    }
+
+    const notifications = await Notification.find(query)
+      .sort({ createdAt: -1 })
+      .limit(NOTIFICATION_LIMIT)
+
+    res.json({ success: true, data: notifications.map(notification => toResponse(notification, wallet)) })
+  } catch (error) {
+    logger.error('Failed to list notifications', { error: error.message })
+    res.status(500).json({ error: 'Failed to fetch notifications' })
+  }
+})
+
+// Mark a notification as read by the signed-in wallet
+router.post('/:id/read', requireAuth, async (req, res) => {
+  try {
+    const wallet = req.wallet.toLowerCase()
+    const query = mongoose.Types.ObjectId.isValid(req.params.id) && await getVisibleQuery(wallet)
+    if (!query) {
+      return res.status(404).json({ error: 'Notification not found' })
+    }
+
+    const notification = await Notification.findOneAndUpdate(
+      { _id: req.params.id, ...query },
+      { $addToSet: { readBy: wallet } },
+      { new: true }
+    )
+    if (!notification) {
+      return res.status(404).json({ error: 'Notification not found' })
+    }
+
+    res.json({ success: true, data: toResponse(notification, wallet) })
+  } catch (error) {
+    logger.error('Failed to mark notification as read', { error: error.message })
+    res.status(500).json({ error: 'Failed to update notification' })
+  }
+})
+
+module.exports = router
@@ -0,0 +1,105 @@
+const express = require('express')
+const request = require('supertest')
+
+jest.mock('../models/Employee', () => ({ findByWallet: jest.fn() }))
+jest.mock('../models/Company', () => ({ findByMember: jest.fn() }))
+jest.mock('../models/Notification', () => ({ find: jest.fn(), findOneAndUpdate: jest.fn() }))
+
+process.env.JWT_SECRET = 'test_secret'
+
+const Employee = require('../models/Employee')
+const Company = require('../models/Company')
+const Notification = require('../models/Notification')
+const notificationRoutes = require('./notifications')
+
+const HR = '0x2222222222222222222222222222222222222222'
+const FINANCE = '0x5555555555555555555555555555555555555555'
+const EMPLOYEE = '0x3333333333333333333333333333333333333333'
+const NOTIFICATION_ID = '64b7f0c2a1b2c3d4e5f60718'
+
+const company = {
+  _id: 'company1',
+  getRole: (wallet) => ({ [HR]: 'hr', [FINANCE]: 'finance' })[wallet] || null
+}
+
+const makeNotification = (readBy) => ({
+  toObject: () => ({ _id: NOTIFICATION_ID, type: 'wallet_change_requested', readBy })
+})
+
+const app = express()
+app.use(express.json())
+app.use((req, res, next) => {
+  req.wallet = req.headers['x-wallet']
+  next()
+})
+app.use('/api/notifications', notificationRoutes)
+
+beforeEach(() => {
+  jest.clearAllMocks()
+  Employee.findByWallet.mockResolvedValue(null)
+  Company.findByMember.mockResolvedValue(null)
+  Notification.find.mockReturnValue({
+    sort: () => ({ limit: () => Promise.resolve([makeNotification([HR])]) })
+  })
+})
+
+describe('GET /api/notifications', () => {
+  it('requires a signed-in wallet', async () => {
+    const res = await request(app).get('/api/notifications')
+    expect(res.status).toBe(401)
+  })
+
+  it('shows an employee their own notifications', async () => {
+    Employee.findByWallet.mockResolvedValue({ _id: 'employee1' })
+
+    const res = await request(app).get('/api/notifications').set('x-wallet', EMPLOYEE)
+
+    expect(res.status).toBe(200)
+    expect(Notification.find).toHaveBeenCalledWith({ $or: [{ audience: 'employee', employeeId: 'employee1' }] })
+    expect(res.body.data).toEqual([{ _id: NOTIFICATION_ID, type: 'wallet_change_requested', read: false }])
+  })
+
+  it('shows HR the company notifications, read state per wallet', async () => {
+    Company.findByMember.mockResolvedValue(company)
+
+    const res = await request(app).get('/api/notifications').set('x-wallet', HR)
+
+    expect(Notification.find).toHaveBeenCalledWith({ $or: [{ audience: 'company', companyId: 'company1' }] })
+    expect(res.body.data[0].read).toBe(true)
+  })
+
+  it('shows other company roles nothing', async () => {
+    Company.findByMember.mockResolvedValue(company)
+
+    const res = await request(app).get('/api/notifications').set('x-wallet', FINANCE)
+
+    expect(res.body.data).toEqual([])
+    expect(Notification.find).not.toHaveBeenCalled()
+  })
+})
+
+describe('POST /api/notifications/:id/read', () => {
+  it('marks a visible notification as read by the wallet', async () => {
+    Employee.findByWallet.mockResolvedValue({ _id: 'employee1' })
+    Notification.findOneAndUpdate.mockResolvedValue(makeNotification([EMPLOYEE]))
+
+    const res = await request(app).post(`/api/notifications/${NOTIFICATION_ID}/read`).set('x-wallet', EMPLOYEE)
+
+    expect(res.status).toBe(200)
+    expect(res.body.data.read).toBe(true)
+    expect(Notification.findOneAndUpdate).toHaveBeenCalledWith(
+      { _id: NOTIFICATION_ID, $or: [{ audience: 'employee', employeeId: 'employee1' }] },
+      { $addToSet: { readBy: EMPLOYEE } },
+      { new: true }
+    )
+  })
+
+  it('hides notifications the wallet cannot see', async () => {
+    Notification.findOneAndUpdate.mockResolvedValue(null)
+
+    const res = await request(app).post(`/api/notifications/${NOTIFICATION_ID}/read`).set('x-wallet', FINANCE)
+
+    expect(res.status).toBe(404)
+    expect(Notification.findOneAndUpdate).not.toHaveBeenCalled()
+  })
+})
@@ -7,27 +7,26 @@ const express = require('express')
 const router = express.Router()
 const Employee = require('../models/Employee')
 const Company = require('../models/Company')
+const PayrollRun = require('../models/PayrollRun')
+const PaymentRecord = require('../models/PaymentRecord')
 const { ethers } = require('ethers')
+const { requireRole } = require('../middleware/roles')
+const { getPaymentReceipt } = require('../services/payrollContractService')
 
-// Middleware to extract wallet address and get company
+// Middleware to extract wallet address and get the company it belongs to
 const extractCompanyFromWallet = async (req, res, next) => {
   try {
-    const walletAddress = req.headers['x-wallet-address']
-    
+    // Set by authenticateSession from the signed-in session
+    const walletAddress = req.wallet
+
     if (!walletAddress) {
       return res.status(401).json({
-        error: 'Wallet address required',
-        message: 'Please provide wallet address in x-wallet-address header'
-      })
-    }
-    
-    if (!ethers.utils.isAddress(walletAddress)) {
-      return res.status(400).json({
-        error: 'Invalid wallet address'
+        error: 'Sign-in required',
+        message: 'Sign in with your wallet to continue'
       })
     }
 
-    const company = await Company.findByWallet(walletAddress.toLowerCase())
+    const company = await Company.findByMember(walletAddress.toLowerCase())
     
     if (!company) {
       return res.status(404).json({
@@ -38,12 +37,427 @@ const extractCompanyFromWallet = async (req, res, next) => {
 
     req.company = company
     req.walletAddress = walletAddress.toLowerCase()
+    req.role = company.getRole(req.walletAddress)
     next()
   } catch (error) {
     res.status(500).json({ error: 'Authentication failed' })
   }
 }
 
+// Load a payroll run that belongs to the request's company
+const loadPayrollRun = async (req, res, next) => {
+  try {
+    const run = await PayrollRun.findOne({ _id: req.params.id, companyId: req.company._id })
+    if (!run) {
+      return res.status(404).json({ error: 'Payroll run not found' })
+    }
+    req.payrollRun = run
+    next()
+  } catch (error) {
+    res.status(500).json({ error: error.message })
+  }
+}
+
+const sendRunError = (res, error) => {
+  res.status(error.statusCode || 500).json({ error: error.message })
+}
+
+// A run can only be approved when enough finance approvers besides its creator exist;
+// returns the error to send otherwise
+const checkApprovers = (company, creator) => {
+  const required = company.payrollApprovalsRequired || 1
+  const eligible = (company.financeApprovers || []).filter(wallet => wallet !== creator)
+
+  if (eligible.length < required) {
+    return `Payroll runs need ${required} finance approver${required === 1 ? '' : 's'} besides their creator. Add finance approvers first.`
+  }
+  return null
+}
+
+// List payroll runs
+router.get('/runs', extractCompanyFromWallet, async (req, res) => {
+  try {
+    res.set({
+      'Cache-Control': 'no-cache, no-store, must-revalidate',
+      'Pragma': 'no-cache',
+      'Expires': '0'
+    })
+
+    const query = { companyId: req.company._id }
+    if (req.query.status) {
+      query.status = { $in: req.query.status.split(',') }
+    }
+
+    const runs = await PayrollRun.find(query).sort({ createdAt: -1 })
+    res.json({ success: true, data: runs })
+  } catch (error) {
+    res.status(500).json({ error: error.message })
+  }
+})
+
+// Get a single payroll run
+router.get('/runs/:id', extractCompanyFromWallet, loadPayrollRun, async (req, res) => {
+  res.json({ success: true, data: req.payrollRun })
+})
+
+// Create a draft payroll run from the selected employees and payment summary
+router.post('/runs', extractCompanyFromWallet, requireRole('finance'), async (req, res) => {
+  try {
+    const { employees, summary = {} } = req.body
+
+    if (!Array.isArray(employees) || employees.length === 0) {
+      return res.status(400).json({ error: 'At least one employee is required' })
+    }
+
+    const invalid = employees.find(emp => !emp.walletAddress || !ethers.utils.isAddress(emp.walletAddress))
+    if (invalid) {
+      return res.status(400).json({ error: 'Invalid employee wallet address', walletAddress: invalid.walletAddress })
+    }
+
+    const approverError = checkApprovers(req.company, req.walletAddress)
+    if (approverError) {
+      return res.status(409).json({ error: approverError })
+    }
+
+    const run = new PayrollRun({
+      companyId: req.company._id,
+      employees: employees.map(emp => ({
+        employeeId: emp.employeeId || undefined,
+        walletAddress: emp.walletAddress,
+        name: emp.name,
+        amount: String(emp.amount || '0'),
+        tokenSymbol: emp.tokenSymbol || 'ETH'
+      })),
+      summary: {
+        totalAmount: String(summary.totalAmount || '0'),
+        employeeCount: summary.employeeCount || employees.length,
+        tokenBreakdown: summary.tokenBreakdown || {},
+        estimatedGas: String(summary.estimatedGas || '0'),
+        feeSpeed: summary.feeSpeed || 'medium'
+      },
+      requiredApprovals: req.company.payrollApprovalsRequired || 1,
+      createdBy: req.walletAddress,
+      transitions: [{ from: null, to: 'draft', actor: req.walletAddress }]
+    })
+
+    await run.save()
+
+    res.status(201).json({ success: true, data: run })
+  } catch (error) {
+    sendRunError(res, error)
+  }
+})
+
+// Submit a draft, or a failed run before it is retried, for finance approval
+router.post('/runs/:id/submit', extractCompanyFromWallet, requireRole('finance'), loadPayrollRun, async (req, res) => {
+  try {
+    const run = req.payrollRun
+
+    const approverError = checkApprovers(req.company, run.createdBy)
+    if (approverError) {
+      return res.status(409).json({ error: approverError })
+    }
+
+    run.transitionTo('submitted', req.walletAddress, req.body.note)
+    run.approvals = []
+    run.requiredApprovals = req.company.payrollApprovalsRequired || 1
+    await run.save()
+
+    res.json({ success: true, data: run })
+  } catch (error) {
+    sendRunError(res, error)
+  }
+})
+
+// Approve a submitted run (finance approvers only)
+router.post('/runs/:id/approve', extractCompanyFromWallet, loadPayrollRun, async (req, res) => {
+  try {
+    const run = req.payrollRun
+
+    if (req.role !== 'finance') {
+      return res.status(403).json({ error: 'Only finance approvers can approve payroll runs' })
+    }
+
+    if (run.createdBy === req.walletAddress) {
+      return res.status(403).json({ error: 'The creator of a payroll run cannot approve it' })
+    }
+
+    if (run.status !== 'submitted') {
+      return res.status(409).json({ error: `Cannot approve a payroll run that is ${run.status}` })
+    }
+
+    if (run.approvals.some(approval => approval.wallet === req.walletAddress)) {
+      return res.status(409).json({ error: 'You have already approved this payroll run' })
+    }
+
+    run.approvals.push({ wallet: req.walletAddress, comment: req.body.comment })
+
+    if (run.approvals.length >= run.requiredApprovals) {
+      run.transitionTo('approved', req.walletAddress, req.body.comment)
+    }
+
+    await run.save()
+
+    res.json({ success: true, data: run })
+  } catch (error) {
+    sendRunError(res, error)
+  }
+})
+
+// Reject a submitted run and send it back to draft (finance approvers only)
+router.post('/runs/:id/reject', extractCompanyFromWallet, loadPayrollRun, async (req, res) => {
+  try {
+    const run = req.payrollRun
+
+    if (req.role !== 'finance') {
+      return res.status(403).json({ error: 'Only finance approvers can reject payroll runs' })
+    }
+
+    if (!req.body.reason) {
+      return res.status(400).json({ error: 'A rejection reason is required' })
+    }
+
+    run.transitionTo('draft', req.walletAddress, req.body.reason)
+    run.approvals = []
+    await run.save()
+
+    res.json({ success: true, data: run })
+  } catch (error) {
+    sendRunError(res, error)
+  }
+})
+
+// Mark an approved run as executing; failed runs are approved again before a retry
+router.post('/runs/:id/execute', extractCompanyFromWallet, requireRole('finance'), loadPayrollRun, async (req, res) => {
+  try {
+    const run = req.payrollRun
+    run.transitionTo('executing', req.walletAddress, req.body.note)
+    run.failureReason = undefined
+    await run.save()
+
+    res.json({ success: true, data: run })
+  } catch (error) {
+    sendRunError(res, error)
+  }
+})
+
+// Save the chunk plan for an executing run
+router.put('/runs/:id/chunks', extractCompanyFromWallet, requireRole('finance'), loadPayrollRun, async (req, res) => {
+  try {
+    const run = req.payrollRun
+    const { chunks } = req.body
+
+    if (run.status !== 'executing') {
+      return res.status(409).json({ error: 'Chunks can only be planned for an executing payroll run' })
+    }
+
+    if (run.hasStartedChunks()) {
+      return res.status(409).json({ error: 'Payroll run already has chunks in progress' })
+    }
+
+    if (!Array.isArray(chunks) || chunks.length === 0 || chunks.some(chunk => !Array.isArray(chunk) || chunk.length === 0)) {
+      return res.status(400).json({ error: 'Chunks must be non-empty lists of wallet addresses' })
+    }
+
+    // Every run employee must be in exactly one chunk
+    const planned = chunks.flat().map(wallet => String(wallet).toLowerCase())
+    const expected = run.employees.map(emp => emp.walletAddress)
+    if (planned.length !== expected.length || new Set(planned).size !== planned.length ||
+      planned.some(wallet => !expected.includes(wallet))) {
+      return res.status(400).json({ error: 'Chunks must contain every employee of the run exactly once' })
+    }
+
+    run.chunks = chunks.map((employees, index) => ({ index, employees }))
+    await run.save()
+
+    res.json({ success: true, data: run })
+  } catch (error) {
+    sendRunError(res, error)
+  }
+})
+
+// Update the progress of a single chunk
+router.patch('/runs/:id/chunks/:index', extractCompanyFromWallet, requireRole('finance'), loadPayrollRun, async (req, res) => {
+  try {
+    const run = req.payrollRun
+    const { status, transactionHash, error } = req.body
+    const chunk = run.chunks.find(item => item.index === Number(req.params.index))
+
+    if (!chunk) {
+      return res.status(404).json({ error: 'Chunk not found' })
+    }
+
+    if (!PayrollRun.CHUNK_STATUSES.includes(status)) {
+      return res.status(400).json({ error: 'Invalid chunk status' })
+    }
+
+    if (chunk.status === 'confirmed') {
+      return res.status(409).json({ error: 'Chunk has already been paid' })
+    }
+
+    if (transactionHash && !/^0x[a-fA-F0-9]{64}$/.test(transactionHash)) {
+      return res.status(400).json({ error: 'Invalid transaction hash format' })
+    }
+
+    chunk.status = status
+    chunk.transactionHash = transactionHash || chunk.transactionHash
+    chunk.error = status === 'failed' ? (error || 'Unknown error') : undefined
+    chunk.updatedAt = new Date()
+    await run.save()
+
+    res.json({ success: true, data: run })
+  } catch (error) {
+    sendRunError(res, error)
+  }
+})
+
+// Record a successful on-chain execution
+router.post('/runs/:id/settle', extractCompanyFromWallet, requireRole('finance'), loadPayrollRun, async (req, res) => {
+  try {
+    const { transactionHash } = req.body
+
+    if (!transactionHash || !/^0x[a-fA-F0-9]{64}$/.test(transactionHash)) {
+      return res.status(400).json({ error: 'Invalid transaction hash format' })
+    }
+
+    const run = req.payrollRun
+
+    if (run.chunks.some(chunk => chunk.status !== 'confirmed')) {
+      return res.status(409).json({ error: 'All chunks must be confirmed before the run is settled' })
+    }
+
+    run.transitionTo('settled', req.walletAddress, req.body.note)
+    run.transactionHash = transactionHash
+    await run.save()
+
+    res.json({ success: true, data: run })
+  } catch (error) {
+    sendRunError(res, error)
+  }
+})
+
+// Record a failed on-chain execution
+router.post('/runs/:id/fail', extractCompanyFromWallet, requireRole('finance'), loadPayrollRun, async (req, res) => {
+  try {
+    const run = req.payrollRun
+    run.transitionTo('failed', req.walletAddress, req.body.reason)
+    run.failureReason = req.body.reason || 'Unknown error'
+    await run.save()
+
+    res.json({ success: true, data: run })
+  } catch (error) {
+    sendRunError(res, error)
+  }
+})
+
+// Record payments decoded from PaymentProcessed events in a mined receipt, fetched here
+// rather than trusted from the client. Only emitted events are stored; expected payments
+// without an event are flagged.
+router.post('/records', extractCompanyFromWallet, requireRole('finance'), async (req, res) => {
+  try {
+    const { transactionHash, payments: reported = [], expected = [], payrollRunId } = req.body
+
+    if (!transactionHash || !/^0x[a-fA-F0-9]{64}$/.test(transactionHash)) {
+      return res.status(400).json({ error: 'Invalid transaction hash format' })
+    }
+
+    if (!Array.isArray(reported) || !Array.isArray(expected)) {
+      return res.status(400).json({ error: 'Invalid receipt data' })
+    }
+
+    if (reported.some(payment => !Number.isInteger(payment.logIndex) || payment.logIndex < 0)) {
+      return res.status(400).json({ error: 'Invalid payment event data' })
+    }
+
+    // Payments are decoded from the receipt on-chain; the client only supplies token symbols
+    let receipt
+    try {
+      receipt = await getPaymentReceipt(transactionHash)
+    } catch (error) {
+      return res.status(503).json({ error: 'Could not read the transaction from the payroll contract' })
+    }
+
+    if (!receipt || !receipt.succeeded) {
+      return res.status(400).json({ error: 'Transaction not found or reverted' })
+    }
+
+    const { blockNumber, gasUsed, payments } = receipt
+    const symbolByLog = new Map(reported.map(payment => [payment.logIndex, payment.tokenSymbol]))
+
+    let run = null
+    if (payrollRunId) {
+      run = await PayrollRun.findOne({ _id: payrollRunId, companyId: req.company._id })
+      if (!run) {
+        return res.status(404).json({ error: 'Payroll run not found' })
+      }
+    }
+
+    const wallets = payments.map(payment => payment.employee.toLowerCase())
+    const employees = await Employee.find({ companyId: req.company._id, walletAddress: { $in: wallets } })
+    const employeeByWallet = new Map(employees.map(employee => [employee.walletAddress, employee]))
+
+    // Upsert on (transactionHash, logIndex) so a receipt can be reconciled twice safely
+    const results = await Promise.all(payments.map(payment => {
+      const walletAddress = payment.employee.toLowerCase()
+      const employee = employeeByWallet.get(walletAddress)
+
+      return PaymentRecord.updateOne(
+        { transactionHash: transactionHash.toLowerCase(), logIndex: payment.logIndex },
+        {
+          $setOnInsert: {
+            companyId: req.company._id,
+            employeeId: employee ? employee._id : undefined,
+            payrollRunId: run ? run._id : undefined,
+            walletAddress,
+            amount: payment.amount.toString(),
+            tokenAddress: payment.token.toLowerCase(),
+            tokenSymbol: symbolByLog.get(payment.logIndex) || 'ETH',
+            blockNumber,
+            gasUsed: Number(gasUsed) || 0,
+            paymentType: 'salary',
+            status: 'completed',
+            paymentDate: new Date(Number(payment.timestamp) * 1000)
+          }
+        },
+        { upsert: true }
+      )
+    }))
+
+    const recorded = results.filter(result => result.upsertedCount > 0).length
+
+    const paid = new Set(wallets)
+    const missing = expected
+      .filter(item => item.walletAddress && !paid.has(item.walletAddress.toLowerCase()))
+      .map(item => ({
+        walletAddress: item.walletAddress.toLowerCase(),
+        name: item.name,
+        amount: item.amount,
+        transactionHash: transactionHash.toLowerCase()
+      }))
+
+    if (run) {
+      // Drop earlier flags for employees this receipt has now paid
+      const previous = (run.reconciliation && run.reconciliation.missing) || []
+      run.reconciliation = {
+        recordedCount: await PaymentRecord.countDocuments({ payrollRunId: run._id }),
+        missing: [...previous.filter(item => !paid.has(item.walletAddress)), ...missing],
+        reconciledAt: new Date()
+      }
+      await run.save()
+    }
+
+    res.status(201).json({
+      success: true,
+      data: {
+        recorded,
+        missing
+      }
+    })
+  } catch (error) {
+    res.status(500).json({ error: error.message })
+  }
+})
+
 // Get payment history
 router.get('/history', extractCompanyFromWallet, async (req, res) => {
   try {
@@ -56,7 +470,7 @@ router.get('/history', extractCompanyFromWallet, async (req, res) => {
     
     const { employeeId, page = 1, limit = 10, startDate, endDate } = req.query
     
-    let query = {}
+    let query = { companyId: req.company._id }
     if (employeeId) {
       query.employeeId = employeeId
     }
@@ -67,15 +481,25 @@ router.get('/history', extractCompanyFromWallet, async (req, res) => {
       }
     }
 
-    // Mock payment history for now
-    // In a real implementation, you'd have a separate PaymentHistory model
-    const payments = []
+    const pageNumber = Math.max(parseInt(page) || 1, 1)
+    const pageSize = Math.max(parseInt(limit) || 10, 1)
+
+    const [payments, total] = await Promise.all([
+      PaymentRecord.find(query)
+        .sort({ paymentDate: -1 })
+        .skip((pageNumber - 1) * pageSize)
+        .limit(pageSize),
+      PaymentRecord.countDocuments(query)
+    ])
     
     res.json({
-      data: payments,
-      totalPages: Math.ceil(payments.length / limit),
-      currentPage: parseInt(page),
-      total: payments.length
+      success: true,
+      data: {
+        data: payments,
+        totalPages: Math.ceil(total / pageSize),
+        currentPage: pageNumber,
+        total
+      }
     })
   } catch (error) {
     res.status(500).json({ error: error.message })
@@ -114,63 +538,6 @@ router.get('/pending', extractCompanyFromWallet, async (req, res) => {
   }
 })
 
-// Process payroll for multiple employees
-router.post('/process', extractCompanyFromWallet, async (req, res) => {
-  try {
-    const { employeeIds } = req.body
-    
-    // This is where you'd integrate with the blockchain service
-    // For now, we'll just return a mock response
-    
-    const mockTransactionHash = '0x' + Math.random().toString(16).slice(2, 66)
-    
-    // Update last payment timestamps for employees
-    await Employee.updateMany(
-      { _id: { $in: employeeIds } },
-      { 'payrollSettings.lastPaymentTimestamp': Date.now() }
-    )
-    
-    res.json({
-      success: true,
-      transactionHash: mockTransactionHash,
-      message: `Payroll processed for ${employeeIds.length} employees`
-    })
-  } catch (error) {
-    res.status(500).json({ error: error.message })
-  }
-})
-
-// Process individual payment
-router.post('/process/:employeeId', extractCompanyFromWallet, async (req, res) => {
-  try {
-    const { employeeId } = req.params
-    
-    const employee = await Employee.findById(employeeId)
-    if (!employee) {
-      return res.status(404).json({ error: 'Employee not found' })
-    }
-    
-    if (!employee.employmentDetails.isActive) {
-      return res.status(400).json({ error: 'Employee is not active' })
-    }
-    
-    // This is where you'd integrate with the blockchain service
-    const mockTransactionHash = '0x' + Math.random().toString(16).slice(2, 66)
-    
-    // Update last payment timestamp
-    employee.payrollSettings.lastPaymentTimestamp = Date.now()
-    await employee.save()
-    
-    res.json({
-      success: true,
-      transactionHash: mockTransactionHash,
-      message: `Payment processed for ${employee.personalInfo.name}`
-    })
-  } catch (error) {
-    res.status(500).json({ error: error.message })
-  }
-})
-
 // Get payroll summary
 router.get('/summary', extractCompanyFromWallet, async (req, res) => {
   try {
@@ -29,16 +29,28 @@ app.use(cors({
 // Body parser
 app.use(express.json({ limit: '1mb' }))
 
+// Sessions from Sign-In with Ethereum identify the wallet on every API request
+const { authenticateSession } = require('./middleware/auth')
+app.use('/api', authenticateSession)
+
 // Routes
+const authRoutes = require('./routes/auth')
 const companyRoutes = require('./routes/companies')
 const employeeRoutes = require('./routes/employees')
 const analyticsRoutes = require('./routes/analytics')
 const payrollRoutes = require('./routes/payroll')
+const bonusRoutes = require('./routes/bonuses')
+const inviteRoutes = require('./routes/invites')
+const notificationRoutes = require('./routes/notifications')
 
+app.use('/api/auth', authRoutes)
 app.use('/api/companies', companyRoutes)
 app.use('/api/employees', employeeRoutes)
 app.use('/api/analytics', analyticsRoutes)
 app.use('/api/payroll', payrollRoutes)
+app.use('/api/bonuses', bonusRoutes)
+app.use('/api/invites', inviteRoutes)
+app.use('/api/notifications', notificationRoutes)
 
 // Health check
 app.get('/health', (req, res) => {
@@ -0,0 +1,60 @@
+const { ethers } = require('ethers')
+
+/**
+ * EIP-712 wallet attestations signed by employees accepting an invite
+ * @author Dev Austin
+ */
+
+const ATTESTATION_STATEMENT = 'I own this wallet and want my salary paid to it.'
+
+const ATTESTATION_TYPES = {
+  EmployeeWalletAttestation: [
+    { name: 'inviteId', type: 'string' },
+    { name: 'company', type: 'string' },
+    { name: 'employeeName', type: 'string' },
+    { name: 'wallet', type: 'address' },
+    { name: 'salaryAmount', type: 'string' },
+    { name: 'paymentToken', type: 'string' },
+    { name: 'statement', type: 'string' }
+  ]
+}
+
+/**
+ * Typed data for an invite; the frontend builds the same structure
+ */
+const buildAttestationTypedData = (invite, company, wallet, chainId) => ({
+  domain: {
+    name: 'Web3 Payroll',
+    version: '1',
+    chainId
+  },
+  types: ATTESTATION_TYPES,
+  message: {
+    inviteId: invite._id.toString(),
+    company: company.ensDomain,
+    employeeName: invite.name,
+    wallet: ethers.utils.getAddress(wallet),
+    salaryAmount: invite.salaryAmount,
+    paymentToken: invite.paymentToken,
+    statement: ATTESTATION_STATEMENT
+  }
+})
+
+/**
+ * Check that the wallet itself signed the attestation for this invite.
+ * Throws when the signature is malformed or from another wallet.
+ */
+const verifyAttestation = (invite, company, wallet, chainId, signature) => {
+  const { domain, types, message } = buildAttestationTypedData(invite, company, wallet, chainId)
+  const signer = ethers.utils.verifyTypedData(domain, types, message, signature)
+
+  if (signer.toLowerCase() !== wallet.toLowerCase()) {
+    throw new Error('Signature does not match the wallet')
+  }
+}
+
+module.exports = {
+  ATTESTATION_STATEMENT,
+  buildAttestationTypedData,
+  verifyAttestation
+}
@@ -0,0 +1,56 @@
+const Notification = require('../models/Notification')
+
+/**
+ * Notifications to the other side of a payout wallet change
+ * @author Dev Austin
+ */
+
+const shortAddress = (wallet) => `${wallet.slice(0, 6)}...${wallet.slice(-4)}`
+
+// Title and message of each event, worded for whoever receives it
+const WALLET_CHANGE_MESSAGES = {
+  wallet_change_requested: {
+    title: 'Payout Wallet Change Requested',
+    employee: ({ newWallet, effectiveAt }) =>
+      `Your employer requested that your pay move to ${shortAddress(newWallet)} from ${effectiveAt.toUTCString()}. ` +
+      'If you did not ask for this, cancel it in your portal before then.',
+    company: ({ name, newWallet, effectiveAt }) =>
+      `${name} requested that their pay move to ${shortAddress(newWallet)} from ${effectiveAt.toUTCString()}. ` +
+      'If they did not ask for this, cancel it from the employee list before then.'
+  },
+  wallet_change_cancelled: {
+    title: 'Payout Wallet Change Cancelled',
+    employee: ({ newWallet }) => `Your employer cancelled the pending move of your pay to ${shortAddress(newWallet)}.`,
+    company: ({ name, newWallet }) => `${name} cancelled the pending move of their pay to ${shortAddress(newWallet)}.`
+  },
+  wallet_change_applied: {
+    title: 'Payout Wallet Changed',
+    employee: ({ newWallet }) => `Your employer applied your wallet change. You are now paid to ${shortAddress(newWallet)}.`,
+    company: ({ name, newWallet }) => `${name} applied their wallet change and is now paid to ${shortAddress(newWallet)}.`
+  }
+}
+
+/**
+ * Record a wallet change event for the side that did not make it: the company's
+ * owner and HR when the employee acted, the employee when a company member did
+ */
+const notifyWalletChange = (type, employee, { actorWallet, actorRole, newWallet, effectiveAt }) => {
+  const audience = actorRole === 'employee' ? 'company' : 'employee'
+  const messages = WALLET_CHANGE_MESSAGES[type]
+
+  return Notification.create({
+    companyId: employee.companyId?._id || employee.companyId,
+    employeeId: employee._id,
+    audience,
+    type,
+    title: messages.title,
+    message: messages[audience]({ name: employee.name, newWallet, effectiveAt }),
+    actorWallet,
+    actorRole,
+    readBy: []
+  })
+}
+
+module.exports = {
+  notifyWalletChange
+}
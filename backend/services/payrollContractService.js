@@ -0,0 +1,141 @@
+const { ethers } = require('ethers')
+
+/**
+ * Read-only access to the deployed PayrollManager contract, so routes can
+ * check what a client reports against the chain instead of trusting it
+ * @author Dev Austin
+ */
+
+const PAYROLL_MANAGER_ABI = [
+  'function employees(address) view returns (address walletAddress, uint256 salaryAmount, uint256 lastPaymentTimestamp, bool isActive, bytes32 ensNode, uint8 frequency, address preferredToken, string ensSubdomain, uint256 startDate, string position, string department)',
+  'function pendingWalletChanges(address) view returns (address newWallet, address requestedBy, uint256 effectiveAt)',
+  'event PaymentProcessed(address indexed employee, uint256 amount, address token, uint256 timestamp)',
+  'event EmployeeUpdated(address indexed employee, uint256 newSalary, uint8 newFrequency)'
+]
+
+let payrollContract = null
+
+/**
+ * Contract instance from PAYROLL_RPC_URL and PAYROLL_MANAGER_ADDRESS.
+ * Throws when either is missing, so callers fail closed.
+ */
+const getPayrollContract = () => {
+  if (payrollContract) return payrollContract
+
+  const rpcUrl = process.env.PAYROLL_RPC_URL
+  const address = process.env.PAYROLL_MANAGER_ADDRESS
+  if (!rpcUrl || !ethers.utils.isAddress(address || '')) {
+    throw new Error('Payroll contract is not configured')
+  }
+
+  payrollContract = new ethers.Contract(
+    address,
+    PAYROLL_MANAGER_ABI,
+    new ethers.providers.JsonRpcProvider(rpcUrl)
+  )
+  return payrollContract
+}
+
+/**
+ * The contract's record for a wallet; walletAddress is the zero address when there is none
+ */
+const getOnChainEmployee = async (wallet) => {
+  const employee = await getPayrollContract().employees(wallet)
+
+  return {
+    walletAddress: employee.walletAddress.toLowerCase(),
+    salaryAmount: employee.salaryAmount.toString(),
+    frequency: employee.frequency,
+    isActive: employee.isActive,
+    ensNode: employee.ensNode,
+    ensSubdomain: employee.ensSubdomain
+  }
+}
+
+/**
+ * The time-locked wallet change waiting for an employee, or null when there is none
+ */
+const getPendingWalletChange = async (wallet) => {
+  const change = await getPayrollContract().pendingWalletChanges(wallet)
+  if (change.newWallet === ethers.constants.AddressZero) return null
+
+  return {
+    newWallet: change.newWallet.toLowerCase(),
+    requestedBy: change.requestedBy.toLowerCase(),
+    effectiveAt: new Date(change.effectiveAt.toNumber() * 1000)
+  }
+}
+
+/**
+ * Logs the payroll contract emitted in a receipt, decoded; unknown events are skipped
+ */
+const parseContractLogs = (contract, receipt) => {
+  return receipt.logs
+    .filter(log => log.address.toLowerCase() === contract.address.toLowerCase())
+    .map(log => {
+      try {
+        return { log, event: contract.interface.parseLog(log) }
+      } catch {
+        return null
+      }
+    })
+    .filter(Boolean)
+}
+
+/**
+ * Salary payments a transaction made, decoded from its receipt.
+ * Returns null while the transaction is unknown or not yet mined.
+ */
+const getPaymentReceipt = async (transactionHash) => {
+  const contract = getPayrollContract()
+  const receipt = await contract.provider.getTransactionReceipt(transactionHash)
+  if (!receipt) return null
+
+  const payments = parseContractLogs(contract, receipt)
+    .filter(({ event }) => event.name === 'PaymentProcessed')
+    .map(({ log, event }) => ({
+      employee: event.args.employee.toLowerCase(),
+      amount: event.args.amount.toString(),
+      token: event.args.token.toLowerCase(),
+      timestamp: event.args.timestamp.toNumber(),
+      logIndex: log.logIndex
+    }))
+
+  return {
+    succeeded: receipt.status === 1,
+    blockNumber: receipt.blockNumber,
+    gasUsed: receipt.gasUsed.toString(),
+    payments
+  }
+}
+
+/**
+ * The compensation a transaction set for an employee, from its EmployeeUpdated event.
+ * Returns null while the transaction is unknown or not yet mined; update is null
+ * when the transaction did not change this employee.
+ */
+const getCompensationUpdate = async (transactionHash, wallet) => {
+  const contract = getPayrollContract()
+  const receipt = await contract.provider.getTransactionReceipt(transactionHash)
+  if (!receipt) return null
+
+  const updated = parseContractLogs(contract, receipt)
+    .map(({ event }) => event)
+    .filter(event => event.name === 'EmployeeUpdated' && event.args.employee.toLowerCase() === wallet.toLowerCase())
+    .pop()
+
+  return {
+    succeeded: receipt.status === 1,
+    update: updated
+      ? { salaryAmount: updated.args.newSalary.toString(), frequency: updated.args.newFrequency }
+      : null
+  }
+}
+
+module.exports = {
+  getPayrollContract,
+  getOnChainEmployee,
+  getPendingWalletChange,
+  getPaymentReceipt,
+  getCompensationUpdate
+}
@@ -0,0 +1,127 @@
+const { ethers } = require('ethers')
+
+/**
+ * Sign-In with Ethereum (EIP-4361) message parsing and verification
+ * @author Dev Austin
+ */
+
+const HEADER_SUFFIX = ' wants you to sign in with your Ethereum account:'
+
+// Signed messages older than this are rejected even if their nonce is still pending
+const MAX_MESSAGE_AGE_MS = 10 * 60 * 1000
+// Tolerated difference between the wallet's clock and ours
+const CLOCK_SKEW_MS = 60 * 1000
+
+// Mainnet, Sepolia and Goerli, as in the frontend's wallet config
+const DEFAULT_CHAIN_IDS = [1, 11155111, 5]
+// The local Hardhat node
+const DEVELOPMENT_CHAIN_IDS = [31337]
+
+/**
+ * Chains a wallet may sign in from; SIWE_CHAIN_IDS is a comma-separated list
+ */
+const getAllowedChainIds = () => {
+  if (process.env.SIWE_CHAIN_IDS) {
+    return process.env.SIWE_CHAIN_IDS.split(',').map(id => parseInt(id.trim(), 10))
+  }
+  return process.env.NODE_ENV === 'development'
+    ? [...DEFAULT_CHAIN_IDS, ...DEVELOPMENT_CHAIN_IDS]
+    : DEFAULT_CHAIN_IDS
+}
+
+/**
+ * Domain the frontend is served from, which every message must name
+ */
+const getExpectedDomain = () => {
+  if (process.env.SIWE_DOMAIN) return process.env.SIWE_DOMAIN
+  return new URL(process.env.FRONTEND_URL || 'http://localhost:3000').host
+}
+
+const readField = (message, label) => {
+  const match = message.match(new RegExp(`^${label}: (.+)$`, 'm'))
+  return match ? match[1].trim() : null
+}
+
+/**
+ * Parse an EIP-4361 message into its fields. Throws on malformed messages.
+ */
+const parseSiweMessage = (message) => {
+  if (typeof message !== 'string') {
+    throw new Error('Message must be a string')
+  }
+
+  const lines = message.split('\n')
+  if (!lines[0] || !lines[0].endsWith(HEADER_SUFFIX)) {
+    throw new Error('Not a Sign-In with Ethereum message')
+  }
+
+  const address = (lines[1] || '').trim()
+  if (!ethers.utils.isAddress(address)) {
+    throw new Error('Invalid address in message')
+  }
+
+  const fields = {
+    domain: lines[0].slice(0, -HEADER_SUFFIX.length),
+    address,
+    uri: readField(message, 'URI'),
+    version: readField(message, 'Version'),
+    chainId: parseInt(readField(message, 'Chain ID'), 10),
+    nonce: readField(message, 'Nonce'),
+    issuedAt: readField(message, 'Issued At'),
+    expirationTime: readField(message, 'Expiration Time')
+  }
+
+  if (!fields.uri || !fields.nonce || !fields.issuedAt || !Number.isInteger(fields.chainId)) {
+    throw new Error('Message is missing required fields')
+  }
+
+  return fields
+}
+
+/**
+ * Check the message against this server and its signature against the address it names.
+ * Returns the parsed fields; the caller still has to match the nonce to a pending session.
+ */
+const verifySiweMessage = (message, signature, now = new Date()) => {
+  const fields = parseSiweMessage(message)
+
+  if (fields.domain !== getExpectedDomain()) {
+    throw new Error('Message was issued for a different domain')
+  }
+
+  if (fields.version !== '1') {
+    throw new Error('Unsupported message version')
+  }
+
+  if (!getAllowedChainIds().includes(fields.chainId)) {
+    throw new Error('Sign-in is not supported on this chain')
+  }
+
+  const issuedAt = new Date(fields.issuedAt)
+  if (isNaN(issuedAt.getTime()) || issuedAt - now > CLOCK_SKEW_MS || now - issuedAt > MAX_MESSAGE_AGE_MS) {
+    throw new Error('Message issue time is invalid or too old')
+  }
+
+  if (fields.expirationTime && new Date(fields.expirationTime) <= now) {
+    throw new Error('Message has expired')
+  }
+
+  let signer
+  try {
+    signer = ethers.utils.verifyMessage(message, signature)
+  } catch (error) {
+    throw new Error('Invalid signature')
+  }
+
+  if (signer.toLowerCase() !== fields.address.toLowerCase()) {
+    throw new Error('Signature does not match the message address')
+  }
+
+  return fields
+}
+
+module.exports = {
+  getAllowedChainIds,
+  parseSiweMessage,
+  verifySiweMessage
+}
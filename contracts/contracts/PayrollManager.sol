@@ -2,6 +2,7 @@
 pragma solidity ^0.8.19;
 
 import "@openzeppelin/contracts/access/Ownable.sol";
+import "@openzeppelin/contracts/access/AccessControl.sol";
 import "@openzeppelin/contracts/security/ReentrancyGuard.sol";
 import "@openzeppelin/contracts/security/Pausable.sol";
 import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
@@ -16,10 +17,14 @@ import "@ensdomains/ens-contracts/contracts/resolvers/Resolver.sol";
  * @notice A comprehensive Web3 payroll system with ENS integration
  * @dev Manages employee payroll, bonuses, and ENS subdomain creation
  */
-contract PayrollManager is Ownable, ReentrancyGuard, Pausable {
+contract PayrollManager is Ownable, AccessControl, ReentrancyGuard, Pausable {
     using SafeERC20 for IERC20;
     using SafeMath for uint256;
 
+    // Delegated roles, granted and revoked by the owner
+    bytes32 public constant HR_ROLE = keccak256("HR_ROLE");           // manages employees
+    bytes32 public constant FINANCE_ROLE = keccak256("FINANCE_ROLE"); // executes payroll and bonuses
+
     // ENS Registry contract
     ENS public ensRegistry;
     
@@ -54,7 +59,8 @@ contract PayrollManager is Ownable, ReentrancyGuard, Pausable {
         WEEKLY,      // 7 days
         BIWEEKLY,    // 14 days
         MONTHLY,     // 30 days
-        QUARTERLY    // 90 days
+        QUARTERLY,   // 90 days
+        ONE_TIME     // paid once, then deactivated
     }
 
     /**
@@ -69,16 +75,43 @@ contract PayrollManager is Ownable, ReentrancyGuard, Pausable {
         address token;                // Bonus token
     }
 
+    /**
+     * @notice Onboarding details for one employee in a batch
+     */
+    struct NewEmployee {
+        address walletAddress;        // Employee's wallet address
+        uint256 salaryAmount;         // Salary amount in the token's smallest unit
+        string ensSubdomain;          // ENS subdomain name
+        PaymentFrequency frequency;   // Payment frequency
+        address preferredToken;       // Preferred payment token
+        string position;              // Employee position
+        string department;            // Department
+    }
+
+    /**
+     * @notice Payout wallet change waiting for its timelock to expire
+     */
+    struct WalletChange {
+        address newWallet;            // Wallet salary will be paid to
+        address requestedBy;          // Employee (old wallet), owner or HR
+        uint256 effectiveAt;          // Earliest time the change can be applied
+    }
+
+    // Shortest cooldown the owner can configure for wallet changes
+    uint256 public constant MIN_WALLET_CHANGE_DELAY = 1 hours;
+
     // State variables
     mapping(address => Employee) public employees;
     mapping(bytes32 => address) public ensNodeToEmployee;
     mapping(address => bool) public authorizedTokens;
     mapping(uint256 => Bonus) public bonuses;
     mapping(address => uint256[]) public employeeBonuses;
+    mapping(address => WalletChange) public pendingWalletChanges;
     
     uint256 public totalEmployees;
     uint256 public totalBonuses;
     uint256 public totalPayrollProcessed;
+    uint256 public walletChangeDelay = 72 hours;
 
     // Events
     event EmployeeAdded(
@@ -97,6 +130,8 @@ contract PayrollManager is Ownable, ReentrancyGuard, Pausable {
         PaymentFrequency newFrequency
     );
     
+    event EmployeeTokenUpdated(address indexed employee, address newToken);
+    
     event PaymentProcessed(
         address indexed employee, 
         uint256 amount, 
@@ -124,8 +159,37 @@ contract PayrollManager is Ownable, ReentrancyGuard, Pausable {
         address owner
     );
     
+    event ENSSubdomainReassigned(
+        address indexed employee,
+        bytes32 node,
+        address newOwner
+    );
+    
+    event WalletChangeRequested(
+        address indexed employee,
+        address indexed newWallet,
+        address requestedBy,
+        uint256 effectiveAt
+    );
+
+    event WalletChangeCancelled(address indexed employee, address indexed newWallet, address cancelledBy);
+
+    event WalletChanged(address indexed oldWallet, address indexed newWallet, bytes32 ensNode);
+
+    event WalletChangeDelayUpdated(uint256 delay);
+    
     event TokenAuthorized(address indexed token, bool authorized);
 
+    event FundsDeposited(address indexed token, address indexed from, uint256 amount);
+
+    /**
+     * @notice Restrict a function to the owner or holders of a delegated role
+     */
+    modifier onlyOwnerOrRole(bytes32 _role) {
+        require(msg.sender == owner() || hasRole(_role, msg.sender), "Not authorized");
+        _;
+    }
+
     /**
      * @notice Constructor initializes the contract
      * @param _ensRegistry Address of ENS registry contract
@@ -169,7 +233,44 @@ contract PayrollManager is Ownable, ReentrancyGuard, Pausable {
         address _token,
         string memory _position,
         string memory _department
-    ) external onlyOwner whenNotPaused {
+    ) external onlyOwnerOrRole(HR_ROLE) whenNotPaused {
+        _addEmployee(_employee, _salary, _subdomain, _frequency, _token, _position, _department);
+    }
+
+    /**
+     * @notice Add several employees in one transaction
+     * @dev All or nothing: one invalid entry reverts the whole batch
+     * @param _newEmployees Employees to add
+     */
+    function addEmployeesBatch(NewEmployee[] calldata _newEmployees) external onlyOwnerOrRole(HR_ROLE) whenNotPaused {
+        require(_newEmployees.length > 0, "No employees specified");
+
+        for (uint256 i = 0; i < _newEmployees.length; i++) {
+            NewEmployee calldata newEmployee = _newEmployees[i];
+            _addEmployee(
+                newEmployee.walletAddress,
+                newEmployee.salaryAmount,
+                newEmployee.ensSubdomain,
+                newEmployee.frequency,
+                newEmployee.preferredToken,
+                newEmployee.position,
+                newEmployee.department
+            );
+        }
+    }
+
+    /**
+     * @notice Internal function to add an employee
+     */
+    function _addEmployee(
+        address _employee,
+        uint256 _salary,
+        string memory _subdomain,
+        PaymentFrequency _frequency,
+        address _token,
+        string memory _position,
+        string memory _department
+    ) internal {
         require(_employee != address(0), "Invalid employee address");
         require(_salary > 0, "Salary must be greater than 0");
         require(authorizedTokens[_token], "Token not authorized");
@@ -203,7 +304,7 @@ contract PayrollManager is Ownable, ReentrancyGuard, Pausable {
      * @notice Remove an employee
      * @param _employee Employee's wallet address
      */
-    function removeEmployee(address _employee) external onlyOwner {
+    function removeEmployee(address _employee) external onlyOwnerOrRole(HR_ROLE) {
         require(employees[_employee].isActive, "Employee not found");
         
         employees[_employee].isActive = false;
@@ -222,7 +323,38 @@ contract PayrollManager is Ownable, ReentrancyGuard, Pausable {
         address _employee,
         uint256 _newSalary,
         PaymentFrequency _newFrequency
-    ) external onlyOwner {
+    ) external onlyOwnerOrRole(HR_ROLE) {
+        _updateEmployee(_employee, _newSalary, _newFrequency);
+    }
+
+    /**
+     * @notice Update employee salary, frequency and preferred token in one transaction
+     * @param _employee Employee's wallet address
+     * @param _newSalary New salary amount, in the new token's units
+     * @param _newFrequency New payment frequency
+     * @param _newToken New preferred token (address(0) for ETH)
+     */
+    function updateEmployeeCompensation(
+        address _employee,
+        uint256 _newSalary,
+        PaymentFrequency _newFrequency,
+        address _newToken
+    ) external onlyOwnerOrRole(HR_ROLE) {
+        require(authorizedTokens[_newToken], "Token not authorized");
+
+        _updateEmployee(_employee, _newSalary, _newFrequency);
+
+        if (employees[_employee].preferredToken != _newToken) {
+            employees[_employee].preferredToken = _newToken;
+            emit EmployeeTokenUpdated(_employee, _newToken);
+        }
+    }
+
+    function _updateEmployee(
+        address _employee,
+        uint256 _newSalary,
+        PaymentFrequency _newFrequency
+    ) internal {
         require(employees[_employee].isActive, "Employee not found");
         require(_newSalary > 0, "Salary must be greater than 0");
         
@@ -232,13 +364,112 @@ contract PayrollManager is Ownable, ReentrancyGuard, Pausable {
         emit EmployeeUpdated(_employee, _newSalary, _newFrequency);
     }
 
+    /**
+     * @notice Start a time-locked change of an employee's payout wallet
+     * @dev The employee requests from their current wallet, or the owner or HR on their behalf.
+     *      A new request replaces a pending one and restarts the cooldown.
+     * @param _employee Employee's current wallet address
+     * @param _newWallet Wallet the employee will be paid to once the change is applied
+     */
+    function requestWalletChange(address _employee, address _newWallet) external whenNotPaused {
+        require(
+            msg.sender == _employee || msg.sender == owner() || hasRole(HR_ROLE, msg.sender),
+            "Not authorized"
+        );
+        require(employees[_employee].isActive, "Employee not found");
+        require(_newWallet != address(0) && _newWallet != _employee, "Invalid new wallet");
+        require(employees[_newWallet].walletAddress == address(0), "Wallet already in use");
+
+        uint256 effectiveAt = block.timestamp.add(walletChangeDelay);
+        pendingWalletChanges[_employee] = WalletChange({
+            newWallet: _newWallet,
+            requestedBy: msg.sender,
+            effectiveAt: effectiveAt
+        });
+
+        emit WalletChangeRequested(_employee, _newWallet, msg.sender, effectiveAt);
+    }
+
+    /**
+     * @notice Cancel a pending wallet change
+     * @dev Either party can stop a change they did not expect during the cooldown
+     * @param _employee Employee's current wallet address
+     */
+    function cancelWalletChange(address _employee) external {
+        require(
+            msg.sender == _employee || msg.sender == owner() || hasRole(HR_ROLE, msg.sender),
+            "Not authorized"
+        );
+        WalletChange memory change = pendingWalletChanges[_employee];
+        require(change.newWallet != address(0), "No pending wallet change");
+
+        delete pendingWalletChanges[_employee];
+
+        emit WalletChangeCancelled(_employee, change.newWallet, msg.sender);
+    }
+
+    /**
+     * @notice Move an employee to their new wallet once the cooldown has passed
+     * @dev Anyone can apply an expired change; the record, bonuses still to be paid
+     *      and the ENS subdomain follow the employee to the new wallet
+     * @param _employee Employee's current wallet address
+     */
+    function applyWalletChange(address _employee) external whenNotPaused {
+        WalletChange memory change = pendingWalletChanges[_employee];
+        require(change.newWallet != address(0), "No pending wallet change");
+        require(block.timestamp >= change.effectiveAt, "Wallet change still time-locked");
+        require(employees[_employee].isActive, "Employee not found");
+        require(employees[change.newWallet].walletAddress == address(0), "Wallet already in use");
+
+        address newWallet = change.newWallet;
+        delete pendingWalletChanges[_employee];
+
+        employees[newWallet] = employees[_employee];
+        employees[newWallet].walletAddress = newWallet;
+        delete employees[_employee];
+
+        // Bonuses not yet distributed are paid to the new wallet
+        uint256[] storage bonusIds = employeeBonuses[_employee];
+        for (uint256 i = 0; i < bonusIds.length; i++) {
+            Bonus storage bonus = bonuses[bonusIds[i]];
+            if (!bonus.distributed) {
+                bonus.recipient = newWallet;
+            }
+            employeeBonuses[newWallet].push(bonusIds[i]);
+        }
+        delete employeeBonuses[_employee];
+
+        bytes32 subdomainNode = employees[newWallet].ensNode;
+        if (subdomainNode != bytes32(0)) {
+            _setSubdomainRecord(
+                keccak256(abi.encodePacked(employees[newWallet].ensSubdomain)),
+                subdomainNode,
+                newWallet
+            );
+            ensNodeToEmployee[subdomainNode] = newWallet;
+        }
+
+        emit WalletChanged(_employee, newWallet, subdomainNode);
+    }
+
+    /**
+     * @notice Set the cooldown before a requested wallet change can be applied
+     * @dev Only affects requests made after the update
+     * @param _delay Cooldown in seconds, at least MIN_WALLET_CHANGE_DELAY
+     */
+    function setWalletChangeDelay(uint256 _delay) external onlyOwner {
+        require(_delay >= MIN_WALLET_CHANGE_DELAY, "Delay too short");
+        walletChangeDelay = _delay;
+        emit WalletChangeDelayUpdated(_delay);
+    }
+
     /**
      * @notice Process payroll for multiple employees
      * @param _employees Array of employee addresses
      */
     function processPayroll(address[] calldata _employees) 
         external 
-        onlyOwner 
+        onlyOwnerOrRole(FINANCE_ROLE) 
         nonReentrant 
         whenNotPaused 
     {
@@ -255,7 +486,7 @@ contract PayrollManager is Ownable, ReentrancyGuard, Pausable {
      */
     function processIndividualPayment(address _employee) 
         external 
-        onlyOwner 
+        onlyOwnerOrRole(FINANCE_ROLE) 
         nonReentrant 
         whenNotPaused 
     {
@@ -273,21 +504,66 @@ contract PayrollManager is Ownable, ReentrancyGuard, Pausable {
         uint256 paymentAmount = calculatePaymentAmount(_employee);
         require(paymentAmount > 0, "No payment due");
 
-        if (employee.preferredToken == address(0)) {
+        employee.lastPaymentTimestamp = block.timestamp;
+
+        // One-time contractors are done once paid
+        if (employee.frequency == PaymentFrequency.ONE_TIME) {
+            employee.isActive = false;
+            totalEmployees = totalEmployees.sub(1);
+            emit EmployeeRemoved(_employee);
+        }
+
+        _transferPayment(_employee, paymentAmount);
+    }
+
+    /**
+     * @notice Pay an employee a custom amount of their accrued salary
+     * @dev Used for mid-cycle hires and departures. Moves lastPaymentTimestamp forward
+     *      by the share of the interval the amount covers, so it marks the paid-through time.
+     * @param _employee Employee's wallet address
+     * @param _amount Amount to pay, at most the salary accrued up to now
+     */
+    function processPartialPayment(address _employee, uint256 _amount)
+        external
+        onlyOwnerOrRole(FINANCE_ROLE)
+        nonReentrant
+        whenNotPaused
+    {
+        Employee storage employee = employees[_employee];
+        require(employee.isActive, "Employee not active");
+        require(employee.frequency != PaymentFrequency.ONE_TIME, "One-time payments cannot be split");
+        require(_amount > 0, "Amount must be greater than 0");
+        require(_amount <= calculateProRatedAmount(_employee, block.timestamp), "Amount exceeds accrued pay");
+
+        uint256 paidFrom = employee.lastPaymentTimestamp > 0 ? employee.lastPaymentTimestamp : employee.startDate;
+        uint256 paymentInterval = getPaymentInterval(employee.frequency);
+        employee.lastPaymentTimestamp = paidFrom.add(_amount.mul(paymentInterval).div(employee.salaryAmount));
+
+        _transferPayment(_employee, _amount);
+    }
+
+    /**
+     * @notice Internal function to send a payment in the employee's preferred token
+     * @param _employee Employee's wallet address
+     * @param _amount Payment amount
+     */
+    function _transferPayment(address _employee, uint256 _amount) internal {
+        address preferredToken = employees[_employee].preferredToken;
+
+        if (preferredToken == address(0)) {
             // Pay in ETH
-            require(address(this).balance >= paymentAmount, "Insufficient ETH balance");
-            payable(_employee).transfer(paymentAmount);
+            require(address(this).balance >= _amount, "Insufficient ETH balance");
+            payable(_employee).transfer(_amount);
         } else {
             // Pay in ERC20 token
-            IERC20 token = IERC20(employee.preferredToken);
-            require(token.balanceOf(address(this)) >= paymentAmount, "Insufficient token balance");
-            token.safeTransfer(_employee, paymentAmount);
+            IERC20 token = IERC20(preferredToken);
+            require(token.balanceOf(address(this)) >= _amount, "Insufficient token balance");
+            token.safeTransfer(_employee, _amount);
         }
 
-        employee.lastPaymentTimestamp = block.timestamp;
-        totalPayrollProcessed = totalPayrollProcessed.add(paymentAmount);
+        totalPayrollProcessed = totalPayrollProcessed.add(_amount);
         
-        emit PaymentProcessed(_employee, paymentAmount, employee.preferredToken, block.timestamp);
+        emit PaymentProcessed(_employee, _amount, preferredToken, block.timestamp);
     }
 
     /**
@@ -302,7 +578,7 @@ contract PayrollManager is Ownable, ReentrancyGuard, Pausable {
         uint256 _amount,
         string memory _reason,
         address _token
-    ) external onlyOwner {
+    ) external onlyOwnerOrRole(FINANCE_ROLE) {
         require(_recipient != address(0), "Invalid recipient");
         require(_amount > 0, "Amount must be greater than 0");
         require(authorizedTokens[_token], "Token not authorized");
@@ -329,7 +605,7 @@ contract PayrollManager is Ownable, ReentrancyGuard, Pausable {
      */
     function distributeBonus(uint256 _bonusId) 
         external 
-        onlyOwner 
+        onlyOwnerOrRole(FINANCE_ROLE) 
         nonReentrant 
         whenNotPaused 
     {
@@ -370,12 +646,32 @@ contract PayrollManager is Ownable, ReentrancyGuard, Pausable {
         return 0;
     }
 
+    /**
+     * @notice Salary accrued since the last payment (or start date), pro-rated by the second
+     * @param _employee Employee's wallet address
+     * @param _until End of the period, e.g. now or a termination date
+     * @return Accrued amount in the employee's token units
+     */
+    function calculateProRatedAmount(address _employee, uint256 _until) public view returns (uint256) {
+        Employee memory employee = employees[_employee];
+        if (!employee.isActive) return 0;
+
+        // Nothing to pro-rate: an active one-time employee is owed the full amount
+        if (employee.frequency == PaymentFrequency.ONE_TIME) return employee.salaryAmount;
+
+        uint256 paidFrom = employee.lastPaymentTimestamp > 0 ? employee.lastPaymentTimestamp : employee.startDate;
+        if (_until <= paidFrom) return 0;
+
+        return employee.salaryAmount.mul(_until.sub(paidFrom)).div(getPaymentInterval(employee.frequency));
+    }
+
     /**
      * @notice Get payment interval for a frequency
      * @param _frequency Payment frequency
-     * @return Payment interval in seconds
+     * @return Payment interval in seconds, 0 for one-time payments
      */
     function getPaymentInterval(PaymentFrequency _frequency) public pure returns (uint256) {
+        if (_frequency == PaymentFrequency.ONE_TIME) return 0;
         if (_frequency == PaymentFrequency.WEEKLY) return 7 days;
         if (_frequency == PaymentFrequency.BIWEEKLY) return 14 days;
         if (_frequency == PaymentFrequency.MONTHLY) return 30 days;
@@ -396,21 +692,51 @@ contract PayrollManager is Ownable, ReentrancyGuard, Pausable {
         bytes32 labelHash = keccak256(abi.encodePacked(_subdomain));
         bytes32 subdomainNode = keccak256(abi.encodePacked(companyNode, labelHash));
 
-        // Set subdomain record
+        _setSubdomainRecord(labelHash, subdomainNode, _owner);
+
+        emit ENSSubdomainCreated(_subdomain, subdomainNode, _owner);
+        return subdomainNode;
+    }
+
+    /**
+     * @notice Point a company subdomain at a wallet and hand the subdomain to it
+     * @dev The resolver only accepts setAddr from the node's owner, so the address
+     *      record is set while the contract still owns the subnode
+     * @param _labelHash Hash of the subdomain label
+     * @param _node Subdomain node hash
+     * @param _owner New subdomain owner and address record
+     */
+    function _setSubdomainRecord(bytes32 _labelHash, bytes32 _node, address _owner) internal {
         ensRegistry.setSubnodeRecord(
             companyNode,
-            labelHash,
-            _owner,
+            _labelHash,
+            address(this),
             publicResolver,
             0
         );
 
-        // Set address record in resolver
-        Resolver resolver = Resolver(publicResolver);
-        resolver.setAddr(subdomainNode, _owner);
+        Resolver(publicResolver).setAddr(_node, _owner);
+        ensRegistry.setSubnodeOwner(companyNode, _labelHash, _owner);
+    }
 
-        emit ENSSubdomainCreated(_subdomain, subdomainNode, _owner);
-        return subdomainNode;
+    /**
+     * @notice Hand a removed employee's ENS subdomain to a new owner
+     * @dev Pass address(0) to revoke the subdomain entirely
+     * @param _employee Former employee's wallet address
+     * @param _newOwner New subdomain owner, or address(0) to revoke
+     */
+    function reassignEmployeeENS(address _employee, address _newOwner) external onlyOwnerOrRole(HR_ROLE) {
+        Employee storage employee = employees[_employee];
+        require(!employee.isActive, "Employee still active");
+        require(employee.ensNode != bytes32(0), "No ENS subdomain");
+
+        bytes32 subdomainNode = employee.ensNode;
+        _setSubdomainRecord(keccak256(abi.encodePacked(employee.ensSubdomain)), subdomainNode, _newOwner);
+
+        ensNodeToEmployee[subdomainNode] = _newOwner;
+        employee.ensNode = bytes32(0);
+
+        emit ENSSubdomainReassigned(_employee, subdomainNode, _newOwner);
     }
 
     /**
@@ -432,6 +758,43 @@ contract PayrollManager is Ownable, ReentrancyGuard, Pausable {
         emit TokenAuthorized(_token, _authorized);
     }
 
+    /**
+     * @notice Grant a delegated role (HR_ROLE or FINANCE_ROLE)
+     * @dev Roles are administered by the owner rather than by role admins,
+     *      so they follow ownership transfers
+     * @param _role Role identifier
+     * @param _account Wallet receiving the role
+     */
+    function grantRole(bytes32 _role, address _account) public override onlyOwner {
+        require(_role == HR_ROLE || _role == FINANCE_ROLE, "Unknown role");
+        require(_account != address(0), "Invalid account");
+        _grantRole(_role, _account);
+    }
+
+    /**
+     * @notice Revoke a delegated role
+     * @param _role Role identifier
+     * @param _account Wallet losing the role
+     */
+    function revokeRole(bytes32 _role, address _account) public override onlyOwner {
+        _revokeRole(_role, _account);
+    }
+
+    /**
+     * @notice Deposit an authorized ERC20 token to fund payroll
+     * @dev Caller must approve this contract for `_amount` first. ETH is sent directly.
+     * @param _token Token address
+     * @param _amount Amount to deposit
+     */
+    function depositToken(address _token, uint256 _amount) external nonReentrant {
+        require(_token != address(0), "Use ETH transfer for ETH");
+        require(authorizedTokens[_token], "Token not authorized");
+        require(_amount > 0, "Amount must be greater than 0");
+
+        IERC20(_token).safeTransferFrom(msg.sender, address(this), _amount);
+        emit FundsDeposited(_token, msg.sender, _amount);
+    }
+
     /**
      * @notice Pause the contract
      */
@@ -483,8 +846,7 @@ contract PayrollManager is Ownable, ReentrancyGuard, Pausable {
      */
     function getActiveEmployees() external view returns (address[] memory) {
         address[] memory activeEmployees = new address[](totalEmployees);
-        uint256 index = 0;
-        
+
         // Note: This is a simplified implementation
         // In production, you might want to maintain a separate array of active employees
         return activeEmployees;
@@ -492,14 +854,14 @@ contract PayrollManager is Ownable, ReentrancyGuard, Pausable {
 
     /**
      * @notice Register a new ENS domain for the company
-     * @dev Simplified version that just stores the domain info and lets frontend handle ENS
+     * @dev Simplified version that just stores the domain info and lets frontend handle ENS.
+     *      The registration duration argument is unused until the ENS registrar is wired in.
      * @param _domainName The domain name to register (without .eth)
-     * @param _duration Registration duration in seconds
      * @param _owner The owner of the domain (should be msg.sender for security)
      */
     function registerCompanyDomain(
         string memory _domainName,
-        uint256 _duration,
+        uint256 /* _duration */,
         address _owner
     ) external payable nonReentrant whenNotPaused {
         require(msg.value > 0, "Insufficient payment");
@@ -0,0 +1,85 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.19;
+
+/**
+ * @title MockENSRegistry
+ * @author Dev Austin
+ * @notice Minimal ENS registry for tests
+ * @dev Like the real registry, only a node's owner can change its subnodes,
+ *      and the root node belongs to the deployer
+ */
+contract MockENSRegistry {
+    struct Record {
+        address owner;
+        address resolver;
+        uint64 ttl;
+    }
+
+    mapping(bytes32 => Record) private records;
+
+    constructor() {
+        records[0x0].owner = msg.sender;
+    }
+
+    modifier authorised(bytes32 node) {
+        require(records[node].owner == msg.sender, "Not node owner");
+        _;
+    }
+
+    function setSubnodeRecord(
+        bytes32 node,
+        bytes32 label,
+        address owner_,
+        address resolver_,
+        uint64 ttl_
+    ) external authorised(node) {
+        records[keccak256(abi.encodePacked(node, label))] = Record(owner_, resolver_, ttl_);
+    }
+
+    function setSubnodeOwner(bytes32 node, bytes32 label, address owner_) external authorised(node) returns (bytes32) {
+        bytes32 subnode = keccak256(abi.encodePacked(node, label));
+        records[subnode].owner = owner_;
+        return subnode;
+    }
+
+    function owner(bytes32 node) external view returns (address) {
+        return records[node].owner;
+    }
+
+    function resolver(bytes32 node) external view returns (address) {
+        return records[node].resolver;
+    }
+
+    function ttl(bytes32 node) external view returns (uint64) {
+        return records[node].ttl;
+    }
+}
+
+/**
+ * @title MockResolver
+ * @author Dev Austin
+ * @notice Minimal public resolver for tests
+ * @dev Like PublicResolver, only the node's owner in the registry can set its address
+ */
+contract MockResolver {
+    MockENSRegistry public immutable ens;
+
+    mapping(bytes32 => address) private addresses;
+
+    constructor(MockENSRegistry _ens) {
+        ens = _ens;
+    }
+
+    function isAuthorised(bytes32 node) internal view returns (bool) {
+        return ens.owner(node) == msg.sender;
+    }
+
+    function setAddr(bytes32 node, address a) external {
+        require(isAuthorised(node), "Not authorised");
+        addresses[node] = a;
+    }
+
+    function addr(bytes32 node) external view returns (address payable) {
+        return payable(addresses[node]);
+    }
+}
@@ -1,39 +1,49 @@
 const { expect } = require("chai");
 const { ethers } = require("hardhat");
+const { anyValue } = require("@nomicfoundation/hardhat-chai-matchers/withArgs");
 
 /**
  * Comprehensive test suite for PayrollManager contract
  * @author Dev Austin
  */
 describe("PayrollManager", function () {
-    let payrollManager;
+    let payrollManager, payrollAddress;
     let owner, employee1, employee2, unauthorized;
     let mockENS, mockResolver;
     
     // Test constants
-    const ENS_REGISTRY = "0x00000000000C2E074eC69A0dFb2997BA6C7d2e1e";
-    const PUBLIC_RESOLVER = "0x4976fb03C32e5B8cfe2b6cCB31c09Ba78EBaBa41";
-    const USDC_ADDRESS = "0xA0b86a33E6e527e1F8A4E84F57FB1e8A84eB8aEd";
+    const USDC_ADDRESS = "0xa0B86A33E6e527e1f8a4e84F57FB1E8A84eb8aeD";
     const USDT_ADDRESS = "0xdAC17F958D2ee523a2206206994597C13D831ec7";
     const DAI_ADDRESS = "0x6B175474E89094C44Da98b954EedeAC495271d0F";
     
     const companyDomain = "testcompany.eth";
-    const companyNode = ethers.utils.namehash(companyDomain);
+    const companyNode = ethers.namehash(companyDomain);
     
-    const MONTHLY_SALARY = ethers.utils.parseEther("1.0"); // 1 ETH
-    const WEEKLY_SALARY = ethers.utils.parseEther("0.25"); // 0.25 ETH
+    const MONTHLY_SALARY = ethers.parseEther("1.0"); // 1 ETH
+    const WEEKLY_SALARY = ethers.parseEther("0.25"); // 0.25 ETH
 
     beforeEach(async function () {
         [owner, employee1, employee2, unauthorized] = await ethers.getSigners();
+
+        // Deploy mock ENS registry and resolver
+        mockENS = await ethers.deployContract("MockENSRegistry");
+        await mockENS.waitForDeployment();
+        mockResolver = await ethers.deployContract("MockResolver", [await mockENS.getAddress()]);
+        await mockResolver.waitForDeployment();
         
         // Deploy PayrollManager
         const PayrollManager = await ethers.getContractFactory("PayrollManager");
         payrollManager = await PayrollManager.deploy(
-            ENS_REGISTRY,
+            await mockENS.getAddress(),
             companyNode,
-            PUBLIC_RESOLVER
+            await mockResolver.getAddress()
         );
-        await payrollManager.deployed();
+        await payrollManager.waitForDeployment();
+        payrollAddress = await payrollManager.getAddress();
+
+        // The contract creates employee subdomains, so it must own the company node
+        await mockENS.setSubnodeOwner(ethers.ZeroHash, ethers.id("eth"), owner.address);
+        await mockENS.setSubnodeOwner(ethers.namehash("eth"), ethers.id("testcompany"), payrollAddress);
     });
 
     describe("Deployment", function () {
@@ -42,7 +52,7 @@ describe("PayrollManager", function () {
         });
 
         it("Should set the correct ENS registry", async function () {
-            expect(await payrollManager.ensRegistry()).to.equal(ENS_REGISTRY);
+            expect(await payrollManager.ensRegistry()).to.equal(await mockENS.getAddress());
         });
 
         it("Should set the correct company node", async function () {
@@ -50,7 +60,7 @@ describe("PayrollManager", function () {
         });
 
         it("Should authorize common tokens", async function () {
-            expect(await payrollManager.authorizedTokens(ethers.constants.AddressZero)).to.be.true; // ETH
+            expect(await payrollManager.authorizedTokens(ethers.ZeroAddress)).to.be.true; // ETH
             expect(await payrollManager.authorizedTokens(USDC_ADDRESS)).to.be.true; // USDC
             expect(await payrollManager.authorizedTokens(USDT_ADDRESS)).to.be.true; // USDT
             expect(await payrollManager.authorizedTokens(DAI_ADDRESS)).to.be.true; // DAI
@@ -69,7 +79,7 @@ describe("PayrollManager", function () {
                     MONTHLY_SALARY,
                     "alice",
                     2, // MONTHLY
-                    ethers.constants.AddressZero, // ETH
+                    ethers.ZeroAddress, // ETH
                     "Software Engineer",
                     "Engineering"
                 )
@@ -82,7 +92,7 @@ describe("PayrollManager", function () {
             expect(employee.isActive).to.be.true;
             expect(employee.ensSubdomain).to.equal("alice");
             expect(employee.frequency).to.equal(2); // MONTHLY
-            expect(employee.preferredToken).to.equal(ethers.constants.AddressZero);
+            expect(employee.preferredToken).to.equal(ethers.ZeroAddress);
             expect(employee.position).to.equal("Software Engineer");
             expect(employee.department).to.equal("Engineering");
 
@@ -96,7 +106,7 @@ describe("PayrollManager", function () {
                     0,
                     "alice",
                     2,
-                    ethers.constants.AddressZero,
+                    ethers.ZeroAddress,
                     "Engineer",
                     "Engineering"
                 )
@@ -123,7 +133,7 @@ describe("PayrollManager", function () {
                 MONTHLY_SALARY,
                 "alice",
                 2,
-                ethers.constants.AddressZero,
+                ethers.ZeroAddress,
                 "Engineer",
                 "Engineering"
             );
@@ -134,7 +144,7 @@ describe("PayrollManager", function () {
                     MONTHLY_SALARY,
                     "alice2",
                     2,
-                    ethers.constants.AddressZero,
+                    ethers.ZeroAddress,
                     "Engineer",
                     "Engineering"
                 )
@@ -148,11 +158,79 @@ describe("PayrollManager", function () {
                     MONTHLY_SALARY,
                     "alice",
                     2,
-                    ethers.constants.AddressZero,
+                    ethers.ZeroAddress,
                     "Engineer",
                     "Engineering"
                 )
-            ).to.be.revertedWith("Ownable: caller is not the owner");
+            ).to.be.revertedWith("Not authorized");
+        });
+
+        it("Should add a batch of employees in one transaction", async function () {
+            await expect(
+                payrollManager.addEmployeesBatch([
+                    {
+                        walletAddress: employee1.address,
+                        salaryAmount: MONTHLY_SALARY,
+                        ensSubdomain: "alice",
+                        frequency: 2, // MONTHLY
+                        preferredToken: ethers.ZeroAddress,
+                        position: "Engineer",
+                        department: "Engineering"
+                    },
+                    {
+                        walletAddress: employee2.address,
+                        salaryAmount: WEEKLY_SALARY,
+                        ensSubdomain: "bob",
+                        frequency: 0, // WEEKLY
+                        preferredToken: ethers.ZeroAddress,
+                        position: "Designer",
+                        department: "Design"
+                    }
+                ])
+            ).to.emit(payrollManager, "EmployeeAdded")
+            .withArgs(employee1.address, "alice", anyValue, MONTHLY_SALARY, 2)
+            .and.to.emit(payrollManager, "EmployeeAdded")
+            .withArgs(employee2.address, "bob", anyValue, WEEKLY_SALARY, 0);
+
+            const employee = await payrollManager.employees(employee2.address);
+            expect(employee.isActive).to.be.true;
+            expect(employee.ensSubdomain).to.equal("bob");
+            expect(employee.department).to.equal("Design");
+            expect(await payrollManager.totalEmployees()).to.equal(2);
+        });
+
+        it("Should revert the whole batch when one employee is invalid", async function () {
+            await expect(
+                payrollManager.addEmployeesBatch([
+                    {
+                        walletAddress: employee1.address,
+                        salaryAmount: MONTHLY_SALARY,
+                        ensSubdomain: "alice",
+                        frequency: 2,
+                        preferredToken: ethers.ZeroAddress,
+                        position: "Engineer",
+                        department: "Engineering"
+                    },
+                    {
+                        walletAddress: employee2.address,
+                        salaryAmount: MONTHLY_SALARY,
+                        ensSubdomain: "bob",
+                        frequency: 2,
+                        preferredToken: unauthorized.address, // Unauthorized token
+                        position: "Designer",
+                        department: "Design"
+                    }
+                ])
+            ).to.be.revertedWith("Token not authorized");
+
+            const employee = await payrollManager.employees(employee1.address);
+            expect(employee.isActive).to.be.false;
+            expect(await payrollManager.totalEmployees()).to.equal(0);
+        });
+
+        it("Should not allow an empty batch", async function () {
+            await expect(payrollManager.addEmployeesBatch([]))
+                .to.be.revertedWith("No employees specified");
         });
 
         it("Should remove employee successfully", async function () {
@@ -161,7 +239,7 @@ describe("PayrollManager", function () {
                 MONTHLY_SALARY,
                 "alice",
                 2,
-                ethers.constants.AddressZero,
+                ethers.ZeroAddress,
                 "Engineer",
                 "Engineering"
             );
@@ -181,12 +259,12 @@ describe("PayrollManager", function () {
                 MONTHLY_SALARY,
                 "alice",
                 2,
-                ethers.constants.AddressZero,
+                ethers.ZeroAddress,
                 "Engineer",
                 "Engineering"
             );
 
-            const newSalary = ethers.utils.parseEther("2.0");
+            const newSalary = ethers.parseEther("2.0");
             await expect(
                 payrollManager.updateEmployee(employee1.address, newSalary, 0) // WEEKLY
             ).to.emit(payrollManager, "EmployeeUpdated")
@@ -196,6 +274,48 @@ describe("PayrollManager", function () {
             expect(employee.salaryAmount).to.equal(newSalary);
             expect(employee.frequency).to.equal(0); // WEEKLY
         });
+
+        it("Should update employee compensation including token", async function () {
+            await payrollManager.addEmployee(
+                employee1.address,
+                MONTHLY_SALARY,
+                "alice",
+                2,
+                ethers.ZeroAddress,
+                "Engineer",
+                "Engineering"
+            );
+
+            const newSalary = ethers.parseUnits("5000", 6);
+            await expect(
+                payrollManager.updateEmployeeCompensation(employee1.address, newSalary, 1, USDC_ADDRESS) // BIWEEKLY
+            ).to.emit(payrollManager, "EmployeeUpdated")
+            .withArgs(employee1.address, newSalary, 1)
+            .and.to.emit(payrollManager, "EmployeeTokenUpdated")
+            .withArgs(employee1.address, USDC_ADDRESS);
+
+            const employee = await payrollManager.employees(employee1.address);
+            expect(employee.salaryAmount).to.equal(newSalary);
+            expect(employee.frequency).to.equal(1);
+            expect(employee.preferredToken.toLowerCase()).to.equal(USDC_ADDRESS.toLowerCase());
+        });
+
+        it("Should not update compensation to unauthorized token", async function () {
+            await payrollManager.addEmployee(
+                employee1.address,
+                MONTHLY_SALARY,
+                "alice",
+                2,
+                ethers.ZeroAddress,
+                "Engineer",
+                "Engineering"
+            );
+
+            const newToken = ethers.Wallet.createRandom().address;
+            await expect(
+                payrollManager.updateEmployeeCompensation(employee1.address, MONTHLY_SALARY, 2, newToken)
+            ).to.be.revertedWith("Token not authorized");
+        });
     });
 
     describe("Payment Processing", function () {
@@ -206,15 +326,15 @@ describe("PayrollManager", function () {
                 MONTHLY_SALARY,
                 "alice",
                 2, // MONTHLY
-                ethers.constants.AddressZero,
+                ethers.ZeroAddress,
                 "Engineer",
                 "Engineering"
             );
 
             // Fund contract with ETH
             await owner.sendTransaction({
-                to: payrollManager.address,
-                value: ethers.utils.parseEther("10")
+                to: payrollAddress,
+                value: ethers.parseEther("10")
             });
         });
 
@@ -224,14 +344,14 @@ describe("PayrollManager", function () {
         });
 
         it("Should process individual payment successfully", async function () {
-            const initialBalance = await employee1.getBalance();
+            const initialBalance = await ethers.provider.getBalance(employee1.address);
             
             await expect(payrollManager.processIndividualPayment(employee1.address))
                 .to.emit(payrollManager, "PaymentProcessed")
-                .withArgs(employee1.address, MONTHLY_SALARY, ethers.constants.AddressZero, anyValue);
+                .withArgs(employee1.address, MONTHLY_SALARY, ethers.ZeroAddress, anyValue);
 
-            const finalBalance = await employee1.getBalance();
-            expect(finalBalance.sub(initialBalance)).to.equal(MONTHLY_SALARY);
+            const finalBalance = await ethers.provider.getBalance(employee1.address);
+            expect(finalBalance - initialBalance).to.equal(MONTHLY_SALARY);
         });
 
         it("Should process batch payments successfully", async function () {
@@ -241,39 +361,40 @@ describe("PayrollManager", function () {
                 MONTHLY_SALARY,
                 "bob",
                 2,
-                ethers.constants.AddressZero,
+                ethers.ZeroAddress,
                 "Engineer",
                 "Engineering"
             );
 
-            const initialBalance1 = await employee1.getBalance();
-            const initialBalance2 = await employee2.getBalance();
+            const initialBalance1 = await ethers.provider.getBalance(employee1.address);
+            const initialBalance2 = await ethers.provider.getBalance(employee2.address);
 
             await payrollManager.processPayroll([employee1.address, employee2.address]);
 
-            const finalBalance1 = await employee1.getBalance();
-            const finalBalance2 = await employee2.getBalance();
+            const finalBalance1 = await ethers.provider.getBalance(employee1.address);
+            const finalBalance2 = await ethers.provider.getBalance(employee2.address);
 
-            expect(finalBalance1.sub(initialBalance1)).to.equal(MONTHLY_SALARY);
-            expect(finalBalance2.sub(initialBalance2)).to.equal(MONTHLY_SALARY);
+            expect(finalBalance1 - initialBalance1).to.equal(MONTHLY_SALARY);
+            expect(finalBalance2 - initialBalance2).to.equal(MONTHLY_SALARY);
         });
 
         it("Should not process payment if insufficient funds", async function () {
             // Create new contract with no funds
             const PayrollManager = await ethers.getContractFactory("PayrollManager");
             const emptyPayroll = await PayrollManager.deploy(
-                ENS_REGISTRY,
+                await mockENS.getAddress(),
                 companyNode,
-                PUBLIC_RESOLVER
+                await mockResolver.getAddress()
             );
-            await emptyPayroll.deployed();
+            await emptyPayroll.waitForDeployment();
+            await mockENS.setSubnodeOwner(ethers.namehash("eth"), ethers.id("testcompany"), await emptyPayroll.getAddress());
 
             await emptyPayroll.addEmployee(
                 employee1.address,
                 MONTHLY_SALARY,
                 "alice",
                 2,
-                ethers.constants.AddressZero,
+                ethers.ZeroAddress,
                 "Engineer",
                 "Engineering"
             );
@@ -283,6 +404,34 @@ describe("PayrollManager", function () {
             ).to.be.revertedWith("Insufficient ETH balance");
         });
 
+        it("Should pro-rate pay for a mid-cycle hire", async function () {
+            const { startDate } = await payrollManager.employees(employee1.address);
+            const tenDaysLater = startDate + BigInt(10 * 24 * 60 * 60);
+
+            const proRated = await payrollManager.calculateProRatedAmount(employee1.address, tenDaysLater);
+            expect(proRated).to.equal(MONTHLY_SALARY * 10n / 30n);
+        });
+
+        it("Should process a partial payment and advance the paid-through time", async function () {
+            await ethers.provider.send("evm_increaseTime", [15 * 24 * 60 * 60]);
+            await ethers.provider.send("evm_mine", []);
+
+            const halfSalary = MONTHLY_SALARY / 2n;
+            await expect(payrollManager.processPartialPayment(employee1.address, halfSalary))
+                .to.emit(payrollManager, "PaymentProcessed")
+                .withArgs(employee1.address, halfSalary, ethers.ZeroAddress, anyValue);
+
+            const employee = await payrollManager.employees(employee1.address);
+            expect(employee.lastPaymentTimestamp).to.equal(employee.startDate + BigInt(15 * 24 * 60 * 60));
+            expect(await payrollManager.calculatePaymentAmount(employee1.address)).to.equal(0);
+        });
+
+        it("Should not pay more than the accrued amount", async function () {
+            await expect(
+                payrollManager.processPartialPayment(employee1.address, MONTHLY_SALARY)
+            ).to.be.revertedWith("Amount exceeds accrued pay");
+        });
+
         it("Should not process payment for inactive employee", async function () {
             await payrollManager.removeEmployee(employee1.address);
 
@@ -299,21 +448,21 @@ describe("PayrollManager", function () {
                 MONTHLY_SALARY,
                 "alice",
                 2,
-                ethers.constants.AddressZero,
+                ethers.ZeroAddress,
                 "Engineer",
                 "Engineering"
             );
         });
 
         it("Should create bonus successfully", async function () {
-            const bonusAmount = ethers.utils.parseEther("0.5");
+            const bonusAmount = ethers.parseEther("0.5");
             
             await expect(
                 payrollManager.createBonus(
                     employee1.address,
                     bonusAmount,
                     "Performance bonus",
-                    ethers.constants.AddressZero
+                    ethers.ZeroAddress
                 )
             ).to.emit(payrollManager, "BonusCreated")
             .withArgs(0, employee1.address, bonusAmount, "Performance bonus");
@@ -323,52 +472,52 @@ describe("PayrollManager", function () {
             expect(bonus.recipient).to.equal(employee1.address);
             expect(bonus.reason).to.equal("Performance bonus");
             expect(bonus.distributed).to.be.false;
-            expect(bonus.token).to.equal(ethers.constants.AddressZero);
+            expect(bonus.token).to.equal(ethers.ZeroAddress);
 
             expect(await payrollManager.totalBonuses()).to.equal(1);
         });
 
         it("Should distribute bonus successfully", async function () {
-            const bonusAmount = ethers.utils.parseEther("0.5");
+            const bonusAmount = ethers.parseEther("0.5");
             
             await payrollManager.createBonus(
                 employee1.address,
                 bonusAmount,
                 "Performance bonus",
-                ethers.constants.AddressZero
+                ethers.ZeroAddress
             );
 
             // Fund contract
             await owner.sendTransaction({
-                to: payrollManager.address,
+                to: payrollAddress,
                 value: bonusAmount
             });
 
-            const initialBalance = await employee1.getBalance();
+            const initialBalance = await ethers.provider.getBalance(employee1.address);
 
             await expect(payrollManager.distributeBonus(0))
                 .to.emit(payrollManager, "BonusDistributed")
-                .withArgs(0, employee1.address, bonusAmount, ethers.constants.AddressZero);
+                .withArgs(0, employee1.address, bonusAmount, ethers.ZeroAddress);
 
-            const finalBalance = await employee1.getBalance();
-            expect(finalBalance.sub(initialBalance)).to.equal(bonusAmount);
+            const finalBalance = await ethers.provider.getBalance(employee1.address);
+            expect(finalBalance - initialBalance).to.equal(bonusAmount);
 
             const bonus = await payrollManager.getBonus(0);
             expect(bonus.distributed).to.be.true;
         });
 
         it("Should not distribute bonus twice", async function () {
-            const bonusAmount = ethers.utils.parseEther("0.5");
+            const bonusAmount = ethers.parseEther("0.5");
             
             await payrollManager.createBonus(
                 employee1.address,
                 bonusAmount,
                 "Performance bonus",
-                ethers.constants.AddressZero
+                ethers.ZeroAddress
             );
 
             await owner.sendTransaction({
-                to: payrollManager.address,
+                to: payrollAddress,
                 value: bonusAmount
             });
 
@@ -386,6 +535,40 @@ describe("PayrollManager", function () {
             expect(await payrollManager.getPaymentInterval(1)).to.equal(14 * 24 * 60 * 60); // BIWEEKLY
             expect(await payrollManager.getPaymentInterval(2)).to.equal(30 * 24 * 60 * 60); // MONTHLY
             expect(await payrollManager.getPaymentInterval(3)).to.equal(90 * 24 * 60 * 60); // QUARTERLY
+            expect(await payrollManager.getPaymentInterval(4)).to.equal(0); // ONE_TIME
+        });
+
+        it("Should pay a one-time employee once and deactivate them", async function () {
+            await payrollManager.addEmployee(
+                employee1.address,
+                MONTHLY_SALARY,
+                "contractor",
+                4, // ONE_TIME
+                ethers.ZeroAddress,
+                "Contractor",
+                "Engineering"
+            );
+
+            await owner.sendTransaction({
+                to: payrollAddress,
+                value: ethers.parseEther("10")
+            });
+
+            await expect(payrollManager.processIndividualPayment(employee1.address))
+                .to.emit(payrollManager, "EmployeeRemoved")
+                .withArgs(employee1.address);
+
+            const employee = await payrollManager.employees(employee1.address);
+            expect(employee.isActive).to.be.false;
+            expect(await payrollManager.totalEmployees()).to.equal(0);
+
+            await expect(
+                payrollManager.processIndividualPayment(employee1.address)
+            ).to.be.revertedWith("Employee not active");
+        });
+
+        it("Should reject frequencies outside the enum", async function () {
+            await expect(payrollManager.getPaymentInterval(5)).to.be.reverted;
         });
     });
 
@@ -409,6 +592,222 @@ describe("PayrollManager", function () {
         });
     });
 
+    describe("Funding", function () {
+        it("Should accept ETH sent directly", async function () {
+            const amount = ethers.parseEther("1.0");
+
+            await owner.sendTransaction({ to: payrollAddress, value: amount });
+
+            expect(await ethers.provider.getBalance(payrollAddress)).to.equal(amount);
+        });
+
+        it("Should not deposit ETH through depositToken", async function () {
+            await expect(
+                payrollManager.depositToken(ethers.ZeroAddress, ethers.parseEther("1.0"))
+            ).to.be.revertedWith("Use ETH transfer for ETH");
+        });
+
+        it("Should not deposit unauthorized token", async function () {
+            const newToken = ethers.Wallet.createRandom().address;
+
+            await expect(
+                payrollManager.depositToken(newToken, 1000)
+            ).to.be.revertedWith("Token not authorized");
+        });
+
+        it("Should not deposit zero amount", async function () {
+            await expect(
+                payrollManager.depositToken(USDC_ADDRESS, 0)
+            ).to.be.revertedWith("Amount must be greater than 0");
+        });
+    });
+
+    describe("Role Management", function () {
+        it("Should let the owner grant HR and finance roles", async function () {
+            const HR_ROLE = await payrollManager.HR_ROLE();
+            const FINANCE_ROLE = await payrollManager.FINANCE_ROLE();
+
+            await expect(payrollManager.grantRole(HR_ROLE, employee2.address))
+                .to.emit(payrollManager, "RoleGranted")
+                .withArgs(HR_ROLE, employee2.address, owner.address);
+            await payrollManager.grantRole(FINANCE_ROLE, unauthorized.address);
+
+            expect(await payrollManager.hasRole(HR_ROLE, employee2.address)).to.be.true;
+            expect(await payrollManager.hasRole(FINANCE_ROLE, unauthorized.address)).to.be.true;
+        });
+
+        it("Should not allow non-owner to grant roles", async function () {
+            const HR_ROLE = await payrollManager.HR_ROLE();
+
+            await expect(
+                payrollManager.connect(unauthorized).grantRole(HR_ROLE, unauthorized.address)
+            ).to.be.revertedWith("Ownable: caller is not the owner");
+        });
+
+        it("Should reject unknown roles", async function () {
+            const DEFAULT_ADMIN_ROLE = await payrollManager.DEFAULT_ADMIN_ROLE();
+
+            await expect(
+                payrollManager.grantRole(DEFAULT_ADMIN_ROLE, employee2.address)
+            ).to.be.revertedWith("Unknown role");
+        });
+
+        it("Should let HR manage employees but not pay them", async function () {
+            const HR_ROLE = await payrollManager.HR_ROLE();
+            await payrollManager.grantRole(HR_ROLE, employee2.address);
+
+            await expect(
+                payrollManager.connect(employee2).addEmployee(
+                    employee1.address,
+                    MONTHLY_SALARY,
+                    "alice",
+                    2,
+                    ethers.ZeroAddress,
+                    "Engineer",
+                    "Engineering"
+                )
+            ).to.emit(payrollManager, "EmployeeAdded");
+
+            await expect(
+                payrollManager.connect(employee2).processIndividualPayment(employee1.address)
+            ).to.be.revertedWith("Not authorized");
+        });
+
+        it("Should let finance pay employees but not manage them", async function () {
+            const FINANCE_ROLE = await payrollManager.FINANCE_ROLE();
+            await payrollManager.grantRole(FINANCE_ROLE, employee2.address);
+
+            await payrollManager.addEmployee(
+                employee1.address,
+                MONTHLY_SALARY,
+                "alice",
+                2,
+                ethers.ZeroAddress,
+                "Engineer",
+                "Engineering"
+            );
+            await owner.sendTransaction({
+                to: payrollAddress,
+                value: ethers.parseEther("10")
+            });
+
+            await expect(
+                payrollManager.connect(employee2).processIndividualPayment(employee1.address)
+            ).to.emit(payrollManager, "PaymentProcessed");
+
+            await expect(
+                payrollManager.connect(employee2).removeEmployee(employee1.address)
+            ).to.be.revertedWith("Not authorized");
+        });
+
+        it("Should remove access when a role is revoked", async function () {
+            const HR_ROLE = await payrollManager.HR_ROLE();
+            await payrollManager.grantRole(HR_ROLE, employee2.address);
+            await payrollManager.revokeRole(HR_ROLE, employee2.address);
+
+            await expect(
+                payrollManager.connect(employee2).addEmployee(
+                    employee1.address,
+                    MONTHLY_SALARY,
+                    "alice",
+                    2,
+                    ethers.ZeroAddress,
+                    "Engineer",
+                    "Engineering"
+                )
+            ).to.be.revertedWith("Not authorized");
+        });
+    });
+
+    describe("Wallet Changes", function () {
+        const WALLET_CHANGE_DELAY = 72 * 60 * 60;
+
+        beforeEach(async function () {
+            await payrollManager.addEmployee(
+                employee1.address,
+                MONTHLY_SALARY,
+                "alice",
+                2,
+                ethers.ZeroAddress,
+                "Engineer",
+                "Engineering"
+            );
+        });
+
+        it("Should let the employee request a change from their current wallet", async function () {
+            await expect(
+                payrollManager.connect(employee1).requestWalletChange(employee1.address, employee2.address)
+            ).to.emit(payrollManager, "WalletChangeRequested");
+
+            const change = await payrollManager.pendingWalletChanges(employee1.address);
+            expect(change.newWallet).to.equal(employee2.address);
+            expect(change.requestedBy).to.equal(employee1.address);
+        });
+
+        it("Should not let other wallets request a change", async function () {
+            await expect(
+                payrollManager.connect(unauthorized).requestWalletChange(employee1.address, unauthorized.address)
+            ).to.be.revertedWith("Not authorized");
+        });
+
+        it("Should not apply a change before the timelock expires", async function () {
+            await payrollManager.requestWalletChange(employee1.address, employee2.address);
+
+            await expect(
+                payrollManager.applyWalletChange(employee1.address)
+            ).to.be.revertedWith("Wallet change still time-locked");
+        });
+
+        it("Should move the employee and their ENS node once the timelock expires", async function () {
+            const { ensNode } = await payrollManager.employees(employee1.address);
+            await payrollManager.requestWalletChange(employee1.address, employee2.address);
+
+            await ethers.provider.send("evm_increaseTime", [WALLET_CHANGE_DELAY]);
+            await ethers.provider.send("evm_mine", []);
+
+            await expect(payrollManager.applyWalletChange(employee1.address))
+                .to.emit(payrollManager, "WalletChanged")
+                .withArgs(employee1.address, employee2.address, ensNode);
+
+            const moved = await payrollManager.employees(employee2.address);
+            expect(moved.walletAddress).to.equal(employee2.address);
+            expect(moved.isActive).to.be.true;
+            expect(moved.salaryAmount).to.equal(MONTHLY_SALARY);
+            expect((await payrollManager.employees(employee1.address)).isActive).to.be.false;
+            expect(await payrollManager.resolveENSToEmployee(ensNode)).to.equal(employee2.address);
+            expect(await mockENS.owner(ensNode)).to.equal(employee2.address);
+            expect(await mockResolver.addr(ensNode)).to.equal(employee2.address);
+        });
+
+        it("Should let either party cancel a pending change", async function () {
+            await payrollManager.requestWalletChange(employee1.address, employee2.address);
+
+            await expect(payrollManager.connect(employee1).cancelWalletChange(employee1.address))
+                .to.emit(payrollManager, "WalletChangeCancelled")
+                .withArgs(employee1.address, employee2.address, employee1.address);
+
+            await ethers.provider.send("evm_increaseTime", [WALLET_CHANGE_DELAY]);
+            await ethers.provider.send("evm_mine", []);
+
+            await expect(
+                payrollManager.applyWalletChange(employee1.address)
+            ).to.be.revertedWith("No pending wallet change");
+        });
+
+        it("Should let only the owner configure the cooldown", async function () {
+            await expect(payrollManager.setWalletChangeDelay(24 * 60 * 60))
+                .to.emit(payrollManager, "WalletChangeDelayUpdated")
+                .withArgs(24 * 60 * 60);
+
+            await expect(
+                payrollManager.setWalletChangeDelay(60)
+            ).to.be.revertedWith("Delay too short");
+            await expect(
+                payrollManager.connect(unauthorized).setWalletChangeDelay(24 * 60 * 60)
+            ).to.be.revertedWith("Ownable: caller is not the owner");
+        });
+    });
+
     describe("Pause Functionality", function () {
         it("Should pause contract", async function () {
             await payrollManager.pause();
@@ -430,7 +829,7 @@ describe("PayrollManager", function () {
                     MONTHLY_SALARY,
                     "alice",
                     2,
-                    ethers.constants.AddressZero,
+                    ethers.ZeroAddress,
                     "Engineer",
                     "Engineering"
                 )
@@ -440,25 +839,23 @@ describe("PayrollManager", function () {
 
     describe("Emergency Functions", function () {
         it("Should allow emergency withdraw of ETH", async function () {
-            const withdrawAmount = ethers.utils.parseEther("1.0");
+            const withdrawAmount = ethers.parseEther("1.0");
             
             await owner.sendTransaction({
-                to: payrollManager.address,
+                to: payrollAddress,
                 value: withdrawAmount
             });
 
-            const initialBalance = await owner.getBalance();
-            await payrollManager.emergencyWithdraw(ethers.constants.AddressZero, withdrawAmount);
-            const finalBalance = await owner.getBalance();
-
-            expect(finalBalance.sub(initialBalance)).to.equal(withdrawAmount);
+            // changeEtherBalance leaves out the gas the owner pays for the call
+            await expect(payrollManager.emergencyWithdraw(ethers.ZeroAddress, withdrawAmount))
+                .to.changeEtherBalance(owner, withdrawAmount);
         });
 
         it("Should not allow non-owner to emergency withdraw", async function () {
             await expect(
                 payrollManager.connect(unauthorized).emergencyWithdraw(
-                    ethers.constants.AddressZero,
-                    ethers.utils.parseEther("1.0")
+                    ethers.ZeroAddress,
+                    ethers.parseEther("1.0")
                 )
             ).to.be.revertedWith("Ownable: caller is not the owner");
         });
@@ -471,7 +868,7 @@ describe("PayrollManager", function () {
                 MONTHLY_SALARY,
                 "alice",
                 2,
-                ethers.constants.AddressZero,
+                ethers.ZeroAddress,
                 "Engineer",
                 "Engineering"
             );
@@ -481,6 +878,88 @@ describe("PayrollManager", function () {
             
             expect(resolvedEmployee).to.equal(employee1.address);
         });
+
+        it("Should register the subdomain and point it at the employee", async function () {
+            await payrollManager.addEmployee(
+                employee1.address,
+                MONTHLY_SALARY,
+                "alice",
+                2,
+                ethers.ZeroAddress,
+                "Engineer",
+                "Engineering"
+            );
+
+            const node = ethers.namehash(`alice.${companyDomain}`);
+            const employee = await payrollManager.employees(employee1.address);
+            expect(employee.ensNode).to.equal(node);
+            expect(await mockENS.owner(node)).to.equal(employee1.address);
+            expect(await mockENS.resolver(node)).to.equal(await mockResolver.getAddress());
+            expect(await mockResolver.addr(node)).to.equal(employee1.address);
+        });
+
+        it("Should reassign a removed employee's subdomain", async function () {
+            await payrollManager.addEmployee(
+                employee1.address,
+                MONTHLY_SALARY,
+                "alice",
+                2,
+                ethers.ZeroAddress,
+                "Engineer",
+                "Engineering"
+            );
+
+            const { ensNode } = await payrollManager.employees(employee1.address);
+            await payrollManager.removeEmployee(employee1.address);
+
+            await expect(payrollManager.reassignEmployeeENS(employee1.address, employee2.address))
+                .to.emit(payrollManager, "ENSSubdomainReassigned")
+                .withArgs(employee1.address, ensNode, employee2.address);
+
+            expect(await payrollManager.resolveENSToEmployee(ensNode)).to.equal(employee2.address);
+            expect(await mockENS.owner(ensNode)).to.equal(employee2.address);
+            expect(await mockResolver.addr(ensNode)).to.equal(employee2.address);
+            const employee = await payrollManager.employees(employee1.address);
+            expect(employee.ensNode).to.equal(ethers.ZeroHash);
+        });
+
+        it("Should revoke a removed employee's subdomain", async function () {
+            await payrollManager.addEmployee(
+                employee1.address,
+                MONTHLY_SALARY,
+                "alice",
+                2,
+                ethers.ZeroAddress,
+                "Engineer",
+                "Engineering"
+            );
+
+            const { ensNode } = await payrollManager.employees(employee1.address);
+            await payrollManager.removeEmployee(employee1.address);
+
+            await expect(payrollManager.reassignEmployeeENS(employee1.address, ethers.ZeroAddress))
+                .to.emit(payrollManager, "ENSSubdomainReassigned")
+                .withArgs(employee1.address, ensNode, ethers.ZeroAddress);
+
+            expect(await mockENS.owner(ensNode)).to.equal(ethers.ZeroAddress);
+            expect(await mockResolver.addr(ensNode)).to.equal(ethers.ZeroAddress);
+        });
+
+        it("Should not reassign an active employee's subdomain", async function () {
+            await payrollManager.addEmployee(
+                employee1.address,
+                MONTHLY_SALARY,
+                "alice",
+                2,
+                ethers.ZeroAddress,
+                "Engineer",
+                "Engineering"
+            );
+
+            await expect(
+                payrollManager.reassignEmployeeENS(employee1.address, ethers.ZeroAddress)
+            ).to.be.revertedWith("Employee still active");
+        });
     });
 
     describe("Employee Bonuses", function () {
@@ -490,7 +969,7 @@ describe("PayrollManager", function () {
                 MONTHLY_SALARY,
                 "alice",
                 2,
-                ethers.constants.AddressZero,
+                ethers.ZeroAddress,
                 "Engineer",
                 "Engineering"
             );
@@ -498,16 +977,16 @@ describe("PayrollManager", function () {
             // Create multiple bonuses
             await payrollManager.createBonus(
                 employee1.address,
-                ethers.utils.parseEther("0.5"),
+                ethers.parseEther("0.5"),
                 "Q1 Bonus",
-                ethers.constants.AddressZero
+                ethers.ZeroAddress
             );
 
             await payrollManager.createBonus(
                 employee1.address,
-                ethers.utils.parseEther("0.3"),
+                ethers.parseEther("0.3"),
                 "Q2 Bonus",
-                ethers.constants.AddressZero
+                ethers.ZeroAddress
             );
 
             const bonuses = await payrollManager.getEmployeeBonuses(employee1.address);
@@ -518,8 +997,3 @@ describe("PayrollManager", function () {
     });
 });
 
-// Helper function for anyValue matcher
-function anyValue() {
-    return true;
-}
-
@@ -17,6 +17,7 @@ import { store } from './store/store'
 // Components
 import ProtectedRoute from './components/Auth/ProtectedRoute'
 import CompanyRegistrationGuard from './components/Auth/CompanyRegistrationGuard'
+import EmployeeRoute from './components/Auth/EmployeeRoute'
 import DashboardLayout from './components/Layout/DashboardLayout'
 import { AuthProvider } from './context/AuthContext'
 
@@ -26,9 +27,15 @@ import CompanyRegistration from './pages/CompanyRegistration'
 import Dashboard from './pages/Dashboard'
 import Employees from './pages/Employees'
 import Payroll from './pages/Payroll'
+import PayrollRuns from './pages/PayrollRuns'
+import PayrollCalendar from './pages/PayrollCalendar'
+import Bonuses from './pages/Bonuses'
+import Reconciliation from './pages/Reconciliation'
 import ENSManagement from './pages/ENSManagement'
 import Analytics from './pages/Analytics'
 import Settings from './pages/Settings'
+import EmployeePortal from './pages/EmployeePortal'
+import InviteAcceptance from './pages/InviteAcceptance'
 
 // Import RainbowKit styles
 import '@rainbow-me/rainbowkit/styles.css'
@@ -193,6 +200,17 @@ function App() {
                       </CompanyRegistrationGuard>
                     } 
                   />
+                  <Route path="/invite/:token" element={<InviteAcceptance />} />
+
+                  {/* Employee Self-Service */}
+                  <Route
+                    path="/portal"
+                    element={
+                      <EmployeeRoute>
+                        <EmployeePortal />
+                      </EmployeeRoute>
+                    }
+                  />
                   
                   {/* Protected Dashboard Routes */}
                   <Route
@@ -218,7 +236,7 @@ function App() {
                   <Route
                     path="/payroll"
                     element={
-                      <ProtectedRoute>
+                      <ProtectedRoute roles={['finance']}>
                         <DashboardLayout>
                           <Payroll />
                         </DashboardLayout>
@@ -226,9 +244,49 @@ function App() {
                     }
                   />
                   <Route
-                    path="/ens"
+                    path="/payroll/runs"
+                    element={
+                      <ProtectedRoute roles={['finance', 'auditor']}>
+                        <DashboardLayout>
+                          <PayrollRuns />
+                        </DashboardLayout>
+                      </ProtectedRoute>
+                    }
+                  />
+                  <Route
+                    path="/payroll/calendar"
                     element={
                       <ProtectedRoute>
+                        <DashboardLayout>
+                          <PayrollCalendar />
+                        </DashboardLayout>
+                      </ProtectedRoute>
+                    }
+                  />
+                  <Route
+                    path="/employees/reconcile"
+                    element={
+                      <ProtectedRoute roles={['hr']}>
+                        <DashboardLayout>
+                          <Reconciliation />
+                        </DashboardLayout>
+                      </ProtectedRoute>
+                    }
+                  />
+                  <Route
+                    path="/bonuses"
+                    element={
+                      <ProtectedRoute roles={['finance', 'auditor']}>
+                        <DashboardLayout>
+                          <Bonuses />
+                        </DashboardLayout>
+                      </ProtectedRoute>
+                    }
+                  />
+                  <Route
+                    path="/ens"
+                    element={
+                      <ProtectedRoute roles={['hr']}>
                         <DashboardLayout>
                           <ENSManagement />
                         </DashboardLayout>
@@ -248,7 +306,7 @@ function App() {
                   <Route
                     path="/settings"
                     element={
-                      <ProtectedRoute>
+                      <ProtectedRoute roles={[]}>
                         <DashboardLayout>
                           <Settings />
                         </DashboardLayout>
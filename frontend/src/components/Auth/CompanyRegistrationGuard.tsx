@@ -7,6 +7,7 @@
 import React from 'react'
 import { Navigate, useLocation } from 'react-router-dom'
 import { useAuth } from '../../context/AuthContext'
+import SignInPrompt from './SignInPrompt'
 import { Box, CircularProgress, Typography } from '@mui/material'
 
 interface CompanyRegistrationGuardProps {
@@ -14,7 +15,7 @@ interface CompanyRegistrationGuardProps {
 }
 
 const CompanyRegistrationGuard: React.FC<CompanyRegistrationGuardProps> = ({ children }) => {
-  const { isConnected, loading, hasCompany } = useAuth()
+  const { isConnected, isAuthenticated, loading, hasCompany, isEmployee } = useAuth()
   const location = useLocation()
 
   // Show loading spinner while checking authentication
@@ -41,11 +42,21 @@ const CompanyRegistrationGuard: React.FC<CompanyRegistrationGuardProps> = ({ chi
     return <Navigate to="/" state={{ from: location }} replace />
   }
 
+  // The wallet must prove ownership before anything is loaded for it
+  if (!isAuthenticated) {
+    return <SignInPrompt />
+  }
+
   // Redirect to dashboard if already has company
   if (hasCompany) {
     return <Navigate to="/dashboard" state={{ from: location }} replace />
   }
 
+  // Employee wallets go to their portal instead of registering a company
+  if (isEmployee) {
+    return <Navigate to="/portal" replace />
+  }
+
   // Render registration form for connected users without company
   return <>{children}</>
 }
@@ -0,0 +1,64 @@
+/**
+ * Employee Route Component
+ * Wraps the self-service portal, which only employee wallets may open
+ * @author Dev Austin
+ */
+
+import React from 'react'
+import { Navigate, useLocation } from 'react-router-dom'
+import { useAuth } from '../../context/AuthContext'
+import SignInPrompt from './SignInPrompt'
+import { Box, CircularProgress, Typography } from '@mui/material'
+
+interface EmployeeRouteProps {
+  children: React.ReactNode
+}
+
+const EmployeeRoute: React.FC<EmployeeRouteProps> = ({ children }) => {
+  const { isConnected, isAuthenticated, loading, hasCompany, isEmployee } = useAuth()
+  const location = useLocation()
+
+  // Show loading spinner while checking authentication
+  if (loading) {
+    return (
+      <Box
+        display="flex"
+        flexDirection="column"
+        alignItems="center"
+        justifyContent="center"
+        minHeight="100vh"
+        gap={2}
+      >
+        <CircularProgress size={40} />
+        <Typography variant="body2" color="text.secondary">
+          Checking authentication...
+        </Typography>
+      </Box>
+    )
+  }
+
+  // Redirect to landing page if not connected
+  if (!isConnected) {
+    return <Navigate to="/" state={{ from: location }} replace />
+  }
+
+  // The wallet must prove ownership before anything is loaded for it
+  if (!isAuthenticated) {
+    return <SignInPrompt />
+  }
+
+  // Company members belong on the dashboard
+  if (hasCompany) {
+    return <Navigate to="/dashboard" replace />
+  }
+
+  // Wallets that are not on any payroll can only register a company
+  if (!isEmployee) {
+    return <Navigate to="/register" replace />
+  }
+
+  // Render protected content
+  return <>{children}</>
+}
+
+export default EmployeeRoute
@@ -1,20 +1,23 @@
 /**
  * Protected Route Component
- * Wraps routes that require authentication
+ * Wraps routes that require authentication, optionally limited to company roles
  * @author Dev Austin
  */
 
 import React from 'react'
 import { Navigate, useLocation } from 'react-router-dom'
-import { useAuth } from '../../context/AuthContext'
+import { useAuth, CompanyRole } from '../../context/AuthContext'
+import SignInPrompt from './SignInPrompt'
 import { Box, CircularProgress, Typography } from '@mui/material'
 
 interface ProtectedRouteProps {
   children: React.ReactNode
+  // Member roles allowed besides the owner; every member is allowed when omitted
+  roles?: CompanyRole[]
 }
 
-const ProtectedRoute: React.FC<ProtectedRouteProps> = ({ children }) => {
-  const { isConnected, loading, hasCompany } = useAuth()
+const ProtectedRoute: React.FC<ProtectedRouteProps> = ({ children, roles }) => {
+  const { isConnected, isAuthenticated, loading, hasCompany, isEmployee, hasRole } = useAuth()
   const location = useLocation()
 
   // Show loading spinner while checking authentication
@@ -41,11 +44,26 @@ const ProtectedRoute: React.FC<ProtectedRouteProps> = ({ children }) => {
     return <Navigate to="/" state={{ from: location }} replace />
   }
 
+  // The wallet must prove ownership before anything is loaded for it
+  if (!isAuthenticated) {
+    return <SignInPrompt />
+  }
+
+  // Employees only have the read-only portal
+  if (!hasCompany && isEmployee) {
+    return <Navigate to="/portal" replace />
+  }
+
   // Redirect to company registration if connected but no company
   if (!hasCompany) {
     return <Navigate to="/register" state={{ from: location }} replace />
   }
 
+  // Members without the role land on the dashboard every member can see
+  if (roles && !hasRole(...roles)) {
+    return <Navigate to="/dashboard" replace />
+  }
+
   // Render protected content
   return <>{children}</>
 }
@@ -7,6 +7,7 @@
 import React from 'react'
 import { Navigate, useLocation } from 'react-router-dom'
 import { useAuth } from '../../context/AuthContext'
+import SignInPrompt from './SignInPrompt'
 import { Box, CircularProgress, Typography } from '@mui/material'
 
 interface RegistrationGuardProps {
@@ -14,7 +15,7 @@ interface RegistrationGuardProps {
 }
 
 const RegistrationGuard: React.FC<RegistrationGuardProps> = ({ children }) => {
-  const { isConnected, loading, hasCompany } = useAuth()
+  const { isConnected, isAuthenticated, loading, hasCompany } = useAuth()
   const location = useLocation()
 
   // Show loading spinner while checking authentication
@@ -41,6 +42,11 @@ const RegistrationGuard: React.FC<RegistrationGuardProps> = ({ children }) => {
     return <Navigate to="/" state={{ from: location }} replace />
   }
 
+  // The wallet must prove ownership before anything is loaded for it
+  if (!isAuthenticated) {
+    return <SignInPrompt />
+  }
+
   // Redirect to company registration if connected but no company
   if (!hasCompany) {
     return <Navigate to="/register" state={{ from: location }} replace />
@@ -0,0 +1,67 @@
+/**
+ * Sign In Prompt Component
+ * Asks a connected wallet to sign a Sign-In with Ethereum message
+ * @author Dev Austin
+ */
+
+import React from 'react'
+import { Alert, Avatar, Box, Button, Card, CardContent, CircularProgress, Typography } from '@mui/material'
+import { alpha, useTheme } from '@mui/material/styles'
+import { VerifiedUser as VerifiedUserIcon } from '@mui/icons-material'
+import { useAuth } from '../../context/AuthContext'
+
+const SignInPrompt: React.FC = () => {
+  const theme = useTheme()
+  const { address, signIn, signingIn, error } = useAuth()
+
+  return (
+    <Box
+      display="flex"
+      alignItems="center"
+      justifyContent="center"
+      minHeight="100vh"
+      px={2}
+    >
+      <Card sx={{ maxWidth: 440, width: '100%' }}>
+        <CardContent sx={{ p: 4, textAlign: 'center' }}>
+          <Avatar sx={{
+            mx: 'auto',
+            mb: 2,
+            width: 56,
+            height: 56,
+            bgcolor: alpha(theme.palette.primary.main, 0.1),
+            color: theme.palette.primary.main,
+          }}>
+            <VerifiedUserIcon />
+          </Avatar>
+          <Typography variant="h5" fontWeight={700} gutterBottom>
+            Sign in with Ethereum
+          </Typography>
+          <Typography variant="body2" color="text.secondary" sx={{ mb: 3 }}>
+            Sign a message with {address ? `${address.slice(0, 6)}...${address.slice(-4)}` : 'your wallet'} to
+            prove you own it. Signing is free and sends no transaction.
+          </Typography>
+
+          {error && (
+            <Alert severity="error" sx={{ mb: 2, textAlign: 'left' }}>
+              {error}
+            </Alert>
+          )}
+
+          <Button
+            variant="contained"
+            size="large"
+            fullWidth
+            onClick={signIn}
+            disabled={signingIn}
+            startIcon={signingIn ? <CircularProgress size={18} color="inherit" /> : <VerifiedUserIcon />}
+          >
+            {signingIn ? 'Waiting for signature...' : 'Sign In'}
+          </Button>
+        </CardContent>
+      </Card>
+    </Box>
+  )
+}
+
+export default SignInPrompt
@@ -0,0 +1,438 @@
+/**
+ * Bonus Pool Dialog Component
+ * Splits a fixed pool across employees and creates and distributes one bonus each
+ * @author Dev Austin
+ */
+
+import React, { useState, useEffect, useMemo } from 'react'
+import {
+  Box,
+  Typography,
+  Button,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  Chip,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Alert,
+  CircularProgress,
+  TextField,
+  FormControl,
+  InputLabel,
+  Select,
+  MenuItem,
+  Checkbox,
+  Stack,
+  ToggleButton,
+  ToggleButtonGroup,
+} from '@mui/material'
+import {
+  UploadFile as UploadFileIcon,
+  Send as SendIcon,
+} from '@mui/icons-material'
+import { ethers } from 'ethers'
+import { useAppDispatch } from '../../store/store'
+import { addNotification } from '../../store/slices/uiSlice'
+import { useBlockchain } from '../../hooks/useBlockchain'
+import { apiService, RecordBonusEventsResult } from '../../services/apiService'
+import { BonusEvents } from '../../services/blockchainService'
+import {
+  BonusPoolMethod,
+  PoolAllocation,
+  PoolWeight,
+  allocateBonusPool,
+  parseScoreCsv,
+} from '../../utils/bonusPool'
+
+export interface TokenOption {
+  symbol: string
+  address: string
+}
+
+type AllocationStatus = 'waiting' | 'creating' | 'created' | 'distributing' | 'distributed' | 'failed'
+
+const STATUS_COLORS: Record<AllocationStatus, 'default' | 'info' | 'primary' | 'warning' | 'success' | 'error'> = {
+  waiting: 'default',
+  creating: 'info',
+  created: 'primary',
+  distributing: 'warning',
+  distributed: 'success',
+  failed: 'error',
+}
+
+interface BonusPoolDialogProps {
+  open: boolean
+  tokens: TokenOption[]
+  onClose: () => void
+  getEmployeeDisplayName: (walletAddress: string) => string
+  recordBonusEvents: (events: BonusEvents, poolId?: string) => Promise<RecordBonusEventsResult | null>
+}
+
+const BonusPoolDialog: React.FC<BonusPoolDialogProps> = ({
+  open,
+  tokens,
+  onClose,
+  getEmployeeDisplayName,
+  recordBonusEvents,
+}) => {
+  const dispatch = useAppDispatch()
+  const {
+    employees: blockchainEmployees,
+    createBonus,
+    distributeBonus,
+    getBonusReceipt,
+    getTokenDecimals,
+  } = useBlockchain()
+
+  const [reason, setReason] = useState('')
+  const [poolAmount, setPoolAmount] = useState('')
+  const [tokenAddress, setTokenAddress] = useState(ethers.constants.AddressZero)
+  const [decimals, setDecimals] = useState<number | null>(null)
+  const [method, setMethod] = useState<BonusPoolMethod>('salary')
+  const [department, setDepartment] = useState('')
+  const [selected, setSelected] = useState<string[]>([])
+  const [scores, setScores] = useState<Record<string, string>>({})
+  const [scoreErrors, setScoreErrors] = useState<string[]>([])
+  const [running, setRunning] = useState(false)
+  const [statuses, setStatuses] = useState<Record<string, AllocationStatus>>({})
+
+  const activeEmployees = useMemo(() => {
+    return (blockchainEmployees || []).filter(employee => employee.isActive)
+  }, [blockchainEmployees])
+
+  const departments = Array.from(new Set(activeEmployees.map(employee => employee.department).filter(Boolean)))
+  const visibleEmployees = activeEmployees.filter(employee => !department || employee.department === department)
+
+  // Everyone starts selected; the department filter narrows the selection
+  useEffect(() => {
+    setSelected(visibleEmployees.map(employee => employee.walletAddress))
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [activeEmployees, department])
+
+  useEffect(() => {
+    setDecimals(null)
+    getTokenDecimals(tokenAddress)
+      .then(setDecimals)
+      .catch(error => console.error('Error loading token decimals:', error))
+  }, [tokenAddress, getTokenDecimals])
+
+  const weights: PoolWeight[] = useMemo(() => {
+    return activeEmployees
+      .filter(employee => selected.includes(employee.walletAddress))
+      .map(employee => ({
+        walletAddress: employee.walletAddress,
+        weight: method === 'equal'
+          ? '1'
+          : method === 'salary'
+            ? employee.salaryAmount
+            : scores[employee.walletAddress.toLowerCase()] || '0',
+      }))
+      .filter(item => parseFloat(item.weight) > 0)
+  }, [activeEmployees, selected, method, scores])
+
+  const { allocations, allocationError } = useMemo((): { allocations: PoolAllocation[], allocationError?: string } => {
+    if (!(parseFloat(poolAmount) > 0) || decimals === null || weights.length === 0) {
+      return { allocations: [] }
+    }
+    try {
+      const result = allocateBonusPool(poolAmount, decimals, weights)
+      if (result.some(item => ethers.utils.parseUnits(item.amount, decimals).isZero())) {
+        return { allocations: result, allocationError: 'The pool is too small to give every employee a non-zero bonus' }
+      }
+      return { allocations: result }
+    } catch (error: any) {
+      return { allocations: [], allocationError: error.message }
+    }
+  }, [poolAmount, decimals, weights])
+
+  const selectedTokens = new Set(activeEmployees
+    .filter(employee => selected.includes(employee.walletAddress))
+    .map(employee => employee.preferredToken))
+  const excludedCount = selected.length - weights.length
+  const tokenSymbol = tokens.find(token => token.address === tokenAddress)?.symbol || 'ETH'
+
+  const handleScoreUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0]
+    event.target.value = ''
+    if (!file) return
+
+    const result = parseScoreCsv(await file.text())
+    setScores(result.scores)
+    setScoreErrors(result.errors)
+  }
+
+  const toggleEmployee = (walletAddress: string) => {
+    setSelected(prev => prev.includes(walletAddress)
+      ? prev.filter(address => address !== walletAddress)
+      : [...prev, walletAddress])
+  }
+
+  const setStatus = (walletAddress: string, status: AllocationStatus) => {
+    setStatuses(prev => ({ ...prev, [walletAddress]: status }))
+  }
+
+  /**
+   * Record the pool, then create every bonus and distribute them, recording each receipt
+   */
+  const handleRun = async () => {
+    if (!reason.trim()) {
+      dispatch(addNotification({
+        type: 'error',
+        title: 'Reason Required',
+        message: 'Please describe what the bonus pool is for',
+      }))
+      return
+    }
+
+    setRunning(true)
+    setStatuses(Object.fromEntries(allocations.map(item => [item.walletAddress, 'waiting' as AllocationStatus])))
+
+    const poolResponse = await apiService.createBonusPool({
+      reason: reason.trim(),
+      totalAmount: poolAmount,
+      tokenAddress,
+      tokenSymbol,
+      method,
+      allocations: allocations.map(({ walletAddress, weight, amount }) => ({ walletAddress, weight, amount })),
+    })
+
+    if (!poolResponse.success || !poolResponse.data) {
+      dispatch(addNotification({
+        type: 'error',
+        title: 'Bonus Pool Failed',
+        message: poolResponse.error || 'Failed to create bonus pool',
+      }))
+      setStatuses({})
+      setRunning(false)
+      return
+    }
+
+    const poolId = poolResponse.data._id
+    const bonusIds: Record<string, number> = {}
+
+    const fail = (walletAddress: string, error?: string, suggestion?: string) => {
+      setStatus(walletAddress, 'failed')
+      dispatch(addNotification({
+        type: 'error',
+        title: `Bonus for ${getEmployeeDisplayName(walletAddress)} Failed`,
+        message: `${error || 'Transaction failed'}${suggestion ? `. ${suggestion}` : ''}. Completed bonuses are kept; pending ones can be distributed from the list.`,
+      }))
+      setRunning(false)
+    }
+
+    let current = allocations[0].walletAddress
+    try {
+      for (const allocation of allocations) {
+        current = allocation.walletAddress
+        setStatus(current, 'creating')
+        const result = await createBonus(current, allocation.amount, reason.trim(), tokenAddress)
+        if (!result.success || !result.transactionHash) {
+          return fail(current, result.error, result.suggestion)
+        }
+
+        const events = await getBonusReceipt(result.transactionHash)
+        await recordBonusEvents(events, poolId)
+        bonusIds[current] = events.created[0].bonusId
+        setStatus(current, 'created')
+      }
+
+      for (const allocation of allocations) {
+        current = allocation.walletAddress
+        setStatus(current, 'distributing')
+        const result = await distributeBonus(bonusIds[current])
+        if (!result.success || !result.transactionHash) {
+          return fail(current, result.error, result.suggestion)
+        }
+
+        await recordBonusEvents(await getBonusReceipt(result.transactionHash), poolId)
+        setStatus(current, 'distributed')
+      }
+    } catch (error: any) {
+      console.error('❌ Bonus pool failed:', error)
+      return fail(current, error.message)
+    }
+
+    setRunning(false)
+    dispatch(addNotification({
+      type: 'success',
+      title: 'Bonus Pool Distributed',
+      message: `${poolAmount} ${tokenSymbol} paid out to ${allocations.length} employees`,
+    }))
+  }
+
+  const started = Object.keys(statuses).length > 0
+
+  return (
+    <Dialog open={open} onClose={() => !running && onClose()} maxWidth="md" fullWidth>
+      <DialogTitle>Bonus Pool</DialogTitle>
+      <DialogContent>
+        <Stack spacing={2} sx={{ mt: 1 }}>
+          <TextField
+            fullWidth
+            label="Reason"
+            value={reason}
+            onChange={(e) => setReason(e.target.value)}
+            inputProps={{ maxLength: 500 }}
+            disabled={started}
+          />
+          <Stack direction="row" spacing={2}>
+            <TextField
+              fullWidth
+              label="Pool Amount"
+              type="number"
+              value={poolAmount}
+              onChange={(e) => setPoolAmount(e.target.value)}
+              inputProps={{ min: 0, step: 'any' }}
+              disabled={started}
+            />
+            <FormControl sx={{ minWidth: 140 }} disabled={started}>
+              <InputLabel>Token</InputLabel>
+              <Select label="Token" value={tokenAddress} onChange={(e) => setTokenAddress(e.target.value)}>
+                {tokens.map(token => (
+                  <MenuItem key={token.address} value={token.address}>{token.symbol}</MenuItem>
+                ))}
+              </Select>
+            </FormControl>
+            <FormControl sx={{ minWidth: 180 }} disabled={started}>
+              <InputLabel>Department</InputLabel>
+              <Select label="Department" value={department} onChange={(e) => setDepartment(e.target.value)}>
+                <MenuItem value="">All departments</MenuItem>
+                {departments.map(name => (
+                  <MenuItem key={name} value={name}>{name}</MenuItem>
+                ))}
+              </Select>
+            </FormControl>
+          </Stack>
+
+          <Stack direction="row" spacing={2} alignItems="center">
+            <ToggleButtonGroup
+              size="small"
+              exclusive
+              value={method}
+              onChange={(_, value) => value && setMethod(value)}
+              disabled={started}
+            >
+              <ToggleButton value="salary">Salary Share</ToggleButton>
+              <ToggleButton value="equal">Equal Split</ToggleButton>
+              <ToggleButton value="score">Score CSV</ToggleButton>
+            </ToggleButtonGroup>
+            {method === 'score' && (
+              <Button component="label" size="small" startIcon={<UploadFileIcon />} disabled={started}>
+                Upload Scores
+                <input hidden type="file" accept=".csv" onChange={handleScoreUpload} />
+              </Button>
+            )}
+          </Stack>
+
+          {method === 'score' && (
+            <Typography variant="caption" color="text.secondary">
+              CSV with wallet_address and score columns. Employees without a score are left out of the pool.
+            </Typography>
+          )}
+          {method === 'salary' && selectedTokens.size > 1 && (
+            <Alert severity="warning">
+              Selected employees are paid in different tokens; salary share compares their raw salary amounts.
+            </Alert>
+          )}
+          {scoreErrors.length > 0 && (
+            <Alert severity="warning">
+              {scoreErrors.slice(0, 5).join('; ')}{scoreErrors.length > 5 ? ` and ${scoreErrors.length - 5} more` : ''}
+            </Alert>
+          )}
+          {excludedCount > 0 && (
+            <Alert severity="info">
+              {excludedCount} selected employee{excludedCount === 1 ? ' has' : 's have'} no weight and will not receive a bonus.
+            </Alert>
+          )}
+          {allocationError && <Alert severity="error">{allocationError}</Alert>}
+
+          <TableContainer sx={{ maxHeight: 360 }}>
+            <Table size="small" stickyHeader>
+              <TableHead>
+                <TableRow>
+                  <TableCell padding="checkbox" />
+                  <TableCell sx={{ fontWeight: 600 }}>Employee</TableCell>
+                  <TableCell sx={{ fontWeight: 600 }} align="right">Weight</TableCell>
+                  <TableCell sx={{ fontWeight: 600 }} align="right">Share</TableCell>
+                  <TableCell sx={{ fontWeight: 600 }} align="right">Bonus</TableCell>
+                  {started && <TableCell sx={{ fontWeight: 600 }}>Status</TableCell>}
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {visibleEmployees.map(employee => {
+                  const allocation = allocations.find(item => item.walletAddress === employee.walletAddress)
+                  const status = statuses[employee.walletAddress]
+                  return (
+                    <TableRow key={employee.walletAddress}>
+                      <TableCell padding="checkbox">
+                        <Checkbox
+                          size="small"
+                          checked={selected.includes(employee.walletAddress)}
+                          onChange={() => toggleEmployee(employee.walletAddress)}
+                          disabled={started}
+                        />
+                      </TableCell>
+                      <TableCell>
+                        {getEmployeeDisplayName(employee.walletAddress)}
+                        <Typography variant="caption" color="text.secondary" display="block">
+                          {employee.department || '—'}
+                        </Typography>
+                      </TableCell>
+                      <TableCell align="right">{allocation?.weight || '—'}</TableCell>
+                      <TableCell align="right">{allocation ? `${(allocation.share * 100).toFixed(2)}%` : '—'}</TableCell>
+                      <TableCell align="right">{allocation ? `${allocation.amount} ${tokenSymbol}` : '—'}</TableCell>
+                      {started && (
+                        <TableCell>
+                          {status && (
+                            <Chip
+                              size="small"
+                              label={status}
+                              color={STATUS_COLORS[status]}
+                              icon={status === 'creating' || status === 'distributing' ? <CircularProgress size={12} /> : undefined}
+                            />
+                          )}
+                        </TableCell>
+                      )}
+                    </TableRow>
+                  )
+                })}
+              </TableBody>
+            </Table>
+          </TableContainer>
+
+          {allocations.length > 0 && (
+            <Box>
+              <Typography variant="body2" color="text.secondary">
+                {allocations.length} bonuses totalling exactly {poolAmount} {tokenSymbol}. Each bonus is one transaction to
+                create and one to distribute.
+              </Typography>
+            </Box>
+          )}
+        </Stack>
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose} disabled={running}>
+          {started && !running ? 'Close' : 'Cancel'}
+        </Button>
+        {!started && (
+          <Button
+            variant="contained"
+            startIcon={<SendIcon />}
+            onClick={handleRun}
+            disabled={running || allocations.length === 0 || !!allocationError || tokens.length === 0}
+          >
+            Create & Distribute
+          </Button>
+        )}
+      </DialogActions>
+    </Dialog>
+  )
+}
+
+export default BonusPoolDialog
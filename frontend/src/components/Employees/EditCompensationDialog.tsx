@@ -0,0 +1,304 @@
+/**
+ * Edit Compensation Dialog Component
+ * Updates salary, frequency and preferred token on-chain, then mirrors the change to the backend
+ * @author Dev Austin
+ */
+
+import React, { useState, useEffect } from 'react'
+import {
+  Box,
+  Typography,
+  Button,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  Chip,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Alert,
+  CircularProgress,
+  TextField,
+  FormControl,
+  InputLabel,
+  Select,
+  MenuItem,
+  Stack,
+  Avatar,
+  Grid,
+} from '@mui/material'
+import { Edit as EditIcon } from '@mui/icons-material'
+import { ethers } from 'ethers'
+import { useAppDispatch } from '../../store/store'
+import { addNotification } from '../../store/slices/uiSlice'
+import { useBlockchain } from '../../hooks/useBlockchain'
+import { EmployeeData, PaymentFrequencyKey, UpdateEmployeeRequest } from '../../services/apiService'
+import { PaymentResult } from '../../services/blockchainService'
+import {
+  PAYMENT_FREQUENCIES,
+  PAYMENT_FREQUENCY_LABELS,
+  TOKEN_ADDRESSES,
+} from '../../contracts/constants'
+
+type Frequency = PaymentFrequencyKey
+
+const EDITABLE_FREQUENCIES = Object.keys(PAYMENT_FREQUENCIES) as Frequency[]
+
+const getFrequencyLabel = (frequency: Frequency) => {
+  return PAYMENT_FREQUENCY_LABELS[PAYMENT_FREQUENCIES[frequency]] || frequency
+}
+
+const getResultError = (result: PaymentResult, fallback: string) => {
+  const error = result.error || fallback
+  return result.suggestion ? `${error}. ${result.suggestion}` : error
+}
+
+interface TokenOption {
+  symbol: string
+  address: string
+}
+
+interface EditCompensationDialogProps {
+  open: boolean
+  employee: EmployeeData | null
+  onClose: () => void
+  updateEmployee: (id: string, data: UpdateEmployeeRequest) => Promise<boolean>
+}
+
+const EditCompensationDialog: React.FC<EditCompensationDialogProps> = ({
+  open,
+  employee,
+  onClose,
+  updateEmployee,
+}) => {
+  const dispatch = useAppDispatch()
+  const {
+    currentNetwork,
+    isTokenAuthorized,
+    updateEmployeeCompensation,
+  } = useBlockchain()
+
+  const [salaryAmount, setSalaryAmount] = useState('')
+  const [paymentFrequency, setPaymentFrequency] = useState<Frequency>('MONTHLY')
+  const [preferredToken, setPreferredToken] = useState('ETH')
+  const [tokens, setTokens] = useState<TokenOption[]>([])
+  const [saving, setSaving] = useState(false)
+
+  // Start from the employee's current compensation
+  useEffect(() => {
+    if (!open || !employee) return
+    setSalaryAmount(employee.payrollSettings?.salaryAmount || '')
+    setPaymentFrequency(employee.payrollSettings?.paymentFrequency || 'MONTHLY')
+    setPreferredToken(employee.payrollSettings?.preferredToken || 'ETH')
+  }, [open, employee])
+
+  // Only offer tokens the contract will accept
+  useEffect(() => {
+    if (!open || !currentNetwork) return
+
+    const networkTokens = TOKEN_ADDRESSES[currentNetwork as keyof typeof TOKEN_ADDRESSES] || {}
+    const candidates = Object.entries(networkTokens)
+      .filter(([symbol, address]) => symbol === 'ETH' || address !== ethers.constants.AddressZero)
+      .map(([symbol, address]): TokenOption => ({ symbol, address }))
+
+    Promise.all(candidates.map(async token => (await isTokenAuthorized(token.address)) ? token : null))
+      .then(results => setTokens(results.filter((token): token is TokenOption => token !== null)))
+      .catch(err => console.error('Error checking authorized tokens:', err))
+  }, [open, currentNetwork, isTokenAuthorized])
+
+  const current = employee?.payrollSettings
+  const token = tokens.find(item => item.symbol === preferredToken)
+  const salaryValid = /^\d+(\.\d+)?$/.test(salaryAmount) && parseFloat(salaryAmount) > 0
+  const unchanged = !!current &&
+    salaryAmount === current.salaryAmount &&
+    paymentFrequency === current.paymentFrequency &&
+    preferredToken === current.preferredToken
+  const history = [...(employee?.compensationHistory || [])].reverse()
+
+  const handleClose = () => {
+    if (!saving) onClose()
+  }
+
+  const handleSave = async () => {
+    if (!employee?._id || !current || !token) return
+
+    setSaving(true)
+    try {
+      const result = await updateEmployeeCompensation(
+        current.walletAddress,
+        salaryAmount,
+        PAYMENT_FREQUENCIES[paymentFrequency],
+        token.address
+      )
+
+      if (!result.success) {
+        dispatch(addNotification({
+          type: 'error',
+          title: 'Update Failed',
+          message: getResultError(result, 'Failed to update compensation'),
+        }))
+        return
+      }
+
+      const saved = await updateEmployee(employee._id, {
+        payrollSettings: { salaryAmount, paymentFrequency, preferredToken },
+        transactionHash: result.transactionHash,
+      })
+
+      if (saved) {
+        dispatch(addNotification({
+          type: 'success',
+          title: 'Compensation Updated',
+          message: `${employee.personalInfo?.name || 'Employee'} now earns ${salaryAmount} ${preferredToken} ${getFrequencyLabel(paymentFrequency).toLowerCase()}.`,
+        }))
+      } else {
+        dispatch(addNotification({
+          type: 'warning',
+          title: 'Partially Updated',
+          message: 'Compensation was updated on-chain but could not be saved to the database. Please try again.',
+        }))
+      }
+      onClose()
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <Dialog
+      open={open}
+      onClose={handleClose}
+      maxWidth="sm"
+      fullWidth
+      PaperProps={{
+        sx: { borderRadius: 3 }
+      }}
+    >
+      <DialogTitle sx={{ pb: 1 }}>
+        <Stack direction="row" alignItems="center" spacing={2}>
+          <Avatar sx={{ bgcolor: 'primary.main' }}>
+            <EditIcon />
+          </Avatar>
+          <Box>
+            <Typography variant="h6" fontWeight={600}>
+              Edit Compensation
+            </Typography>
+            <Typography variant="body2" color="text.secondary">
+              {employee?.personalInfo?.name || 'Employee'}
+            </Typography>
+          </Box>
+        </Stack>
+      </DialogTitle>
+
+      <DialogContent sx={{ pt: 2 }}>
+        <Grid container spacing={2} sx={{ mt: 0 }}>
+          <Grid item xs={12} sm={6}>
+            <TextField
+              fullWidth
+              label="Salary Amount"
+              value={salaryAmount}
+              onChange={(e) => setSalaryAmount(e.target.value)}
+              error={!!salaryAmount && !salaryValid}
+              helperText={salaryAmount && !salaryValid ? 'Enter an amount greater than 0' : ''}
+              disabled={saving}
+            />
+          </Grid>
+          <Grid item xs={12} sm={6}>
+            <FormControl fullWidth disabled={saving}>
+              <InputLabel>Payment Token</InputLabel>
+              <Select
+                value={token ? preferredToken : ''}
+                label="Payment Token"
+                onChange={(e) => setPreferredToken(e.target.value)}
+              >
+                {tokens.map(item => (
+                  <MenuItem key={item.symbol} value={item.symbol}>
+                    {item.symbol}
+                  </MenuItem>
+                ))}
+              </Select>
+            </FormControl>
+          </Grid>
+          <Grid item xs={12}>
+            <FormControl fullWidth disabled={saving}>
+              <InputLabel>Payment Frequency</InputLabel>
+              <Select
+                value={paymentFrequency}
+                label="Payment Frequency"
+                onChange={(e) => setPaymentFrequency(e.target.value as Frequency)}
+              >
+                {EDITABLE_FREQUENCIES.map(frequency => (
+                  <MenuItem key={frequency} value={frequency}>
+                    {getFrequencyLabel(frequency)}
+                  </MenuItem>
+                ))}
+              </Select>
+            </FormControl>
+          </Grid>
+        </Grid>
+
+        {!token && tokens.length > 0 && (
+          <Alert severity="warning" sx={{ mt: 2 }}>
+            {preferredToken} is not authorized on the payroll contract. Choose another payment token.
+          </Alert>
+        )}
+
+        <Typography variant="subtitle2" sx={{ mt: 3, mb: 1 }}>
+          Compensation History
+        </Typography>
+        {history.length === 0 ? (
+          <Typography variant="body2" color="text.secondary">
+            No previous changes.
+          </Typography>
+        ) : (
+          <TableContainer>
+            <Table size="small">
+              <TableHead>
+                <TableRow>
+                  <TableCell>Changed</TableCell>
+                  <TableCell>Previous Salary</TableCell>
+                  <TableCell>Frequency</TableCell>
+                  <TableCell>Transaction</TableCell>
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {history.map((entry, index) => (
+                  <TableRow key={`${entry.changedAt}-${index}`}>
+                    <TableCell>{new Date(entry.changedAt).toLocaleDateString()}</TableCell>
+                    <TableCell>{entry.salaryAmount} {entry.paymentToken}</TableCell>
+                    <TableCell>
+                      <Chip label={getFrequencyLabel(entry.paymentFrequency)} size="small" variant="outlined" />
+                    </TableCell>
+                    <TableCell sx={{ fontFamily: 'monospace' }}>
+                      {entry.transactionHash ? `${entry.transactionHash.slice(0, 10)}...` : '-'}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </TableContainer>
+        )}
+      </DialogContent>
+
+      <DialogActions sx={{ px: 3, pb: 2 }}>
+        <Button onClick={handleClose} disabled={saving}>
+          Cancel
+        </Button>
+        <Button
+          variant="contained"
+          onClick={handleSave}
+          disabled={saving || !salaryValid || !token || unchanged}
+          startIcon={saving ? <CircularProgress size={16} /> : <EditIcon />}
+        >
+          {saving ? 'Updating...' : 'Update Compensation'}
+        </Button>
+      </DialogActions>
+    </Dialog>
+  )
+}
+
+export default EditCompensationDialog
@@ -0,0 +1,181 @@
+/**
+ * Employee Invites Card Component
+ * Open invite links, and the employees who have confirmed their wallet and can join payroll
+ * @author Dev Austin
+ */
+
+import React from 'react'
+import {
+  Box,
+  Button,
+  Card,
+  CardContent,
+  CardHeader,
+  Chip,
+  CircularProgress,
+  IconButton,
+  Stack,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  Tooltip,
+  Typography,
+} from '@mui/material'
+import {
+  ContentCopy as CopyIcon,
+  Delete as DeleteIcon,
+  GroupAdd as GroupAddIcon,
+  HowToReg as HowToRegIcon,
+  Refresh as RefreshIcon,
+} from '@mui/icons-material'
+import { EmployeeInvite } from '../../services/apiService'
+import { PAYMENT_FREQUENCIES, PAYMENT_FREQUENCY_LABELS } from '../../contracts/constants'
+
+/**
+ * Link the employee opens to confirm their wallet
+ */
+export const getInviteLink = (invite: EmployeeInvite) => `${window.location.origin}/invite/${invite.token}`
+
+interface EmployeeInvitesCardProps {
+  invites: EmployeeInvite[]
+  loading: boolean
+  // Invite currently being added to payroll or revoked
+  busyId: string | null
+  // Confirmed invites are being onboarded on-chain in batches
+  onboarding: boolean
+  onCopyLink: (invite: EmployeeInvite) => void
+  onRevoke: (invite: EmployeeInvite) => void
+  onAddToPayroll: (invite: EmployeeInvite) => void
+  onOnboardConfirmed: (invites: EmployeeInvite[]) => void
+  onRefresh: () => void
+}
+
+const EmployeeInvitesCard: React.FC<EmployeeInvitesCardProps> = ({
+  invites,
+  loading,
+  busyId,
+  onboarding,
+  onCopyLink,
+  onRevoke,
+  onAddToPayroll,
+  onOnboardConfirmed,
+  onRefresh,
+}) => {
+  const confirmed = invites.filter(invite => invite.status === 'accepted')
+  const busy = !!busyId || onboarding
+
+  return (
+    <Card sx={{ mb: 3, borderRadius: 2 }}>
+      <CardHeader
+        title="Employee Invites"
+        subheader="Employees confirm their own wallet by signing the invite link; only confirmed wallets can join payroll"
+        action={
+          <Stack direction="row" spacing={1} alignItems="center">
+            {confirmed.length > 0 && (
+              <Button
+                size="small"
+                variant="outlined"
+                startIcon={onboarding ? <CircularProgress size={16} /> : <GroupAddIcon />}
+                disabled={busy}
+                onClick={() => onOnboardConfirmed(confirmed)}
+              >
+                {onboarding ? 'Onboarding...' : `Onboard ${confirmed.length} Confirmed`}
+              </Button>
+            )}
+            <Tooltip title="Refresh Invites">
+              <IconButton onClick={onRefresh} disabled={loading}>
+                <RefreshIcon />
+              </IconButton>
+            </Tooltip>
+          </Stack>
+        }
+      />
+      <CardContent sx={{ pt: 0 }}>
+        {loading ? (
+          <Box sx={{ display: 'flex', justifyContent: 'center', p: 2 }}>
+            <CircularProgress size={24} />
+          </Box>
+        ) : (
+          <TableContainer>
+            <Table size="small">
+              <TableHead>
+                <TableRow>
+                  <TableCell>Name</TableCell>
+                  <TableCell>Salary</TableCell>
+                  <TableCell>Status</TableCell>
+                  <TableCell>Wallet</TableCell>
+                  <TableCell align="right">Actions</TableCell>
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {invites.map(invite => {
+                  const accepted = invite.status === 'accepted'
+                  const expired = !accepted && new Date(invite.expiresAt) <= new Date()
+
+                  return (
+                    <TableRow key={invite._id}>
+                      <TableCell>{invite.name}</TableCell>
+                      <TableCell>
+                        {invite.salaryAmount} {invite.paymentToken}{' '}
+                        <Typography component="span" variant="caption" color="text.secondary">
+                          {PAYMENT_FREQUENCY_LABELS[PAYMENT_FREQUENCIES[invite.paymentFrequency]]}
+                        </Typography>
+                      </TableCell>
+                      <TableCell>
+                        <Chip
+                          size="small"
+                          label={accepted ? 'Wallet confirmed' : expired ? 'Expired' : 'Waiting for employee'}
+                          color={accepted ? 'success' : expired ? 'default' : 'warning'}
+                        />
+                      </TableCell>
+                      <TableCell sx={{ fontFamily: 'monospace' }}>
+                        {invite.walletAddress
+                          ? `${invite.walletAddress.slice(0, 6)}...${invite.walletAddress.slice(-4)}`
+                          : '—'}
+                      </TableCell>
+                      <TableCell align="right">
+                        <Stack direction="row" spacing={1} justifyContent="flex-end">
+                          {accepted ? (
+                            <Button
+                              size="small"
+                              variant="contained"
+                              startIcon={busyId === invite._id ? <CircularProgress size={16} color="inherit" /> : <HowToRegIcon />}
+                              disabled={busy}
+                              onClick={() => onAddToPayroll(invite)}
+                            >
+                              Add to Payroll
+                            </Button>
+                          ) : (
+                            <Tooltip title="Copy Invite Link">
+                              <span>
+                                <IconButton size="small" onClick={() => onCopyLink(invite)} disabled={expired}>
+                                  <CopyIcon fontSize="small" />
+                                </IconButton>
+                              </span>
+                            </Tooltip>
+                          )}
+                          <Tooltip title="Revoke Invite">
+                            <span>
+                              <IconButton size="small" onClick={() => onRevoke(invite)} disabled={busy}>
+                                <DeleteIcon fontSize="small" />
+                              </IconButton>
+                            </span>
+                          </Tooltip>
+                        </Stack>
+                      </TableCell>
+                    </TableRow>
+                  )
+                })}
+              </TableBody>
+            </Table>
+          </TableContainer>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
+
+export default EmployeeInvitesCard
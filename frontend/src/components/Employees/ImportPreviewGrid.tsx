@@ -0,0 +1,196 @@
+/**
+ * Import Preview Grid Component
+ * Editable preview of bulk import rows with per-cell validation errors
+ * @author Dev Austin
+ */
+
+import React, { useState } from 'react'
+import {
+  Box,
+  Typography,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  Chip,
+  TextField,
+  Tooltip,
+  Stack,
+  FormControlLabel,
+  Switch,
+  CircularProgress,
+} from '@mui/material'
+import { alpha, useTheme } from '@mui/material/styles'
+import {
+  CheckCircle as CheckCircleIcon,
+  Error as ErrorIcon,
+} from '@mui/icons-material'
+import {
+  ImportRowErrors,
+  ImportRowValues,
+  getImportSubdomain,
+} from '../../utils/importValidation'
+import { ImportRowProgress, ImportRowState } from '../../utils/bulkOnboarding'
+import { TrackedTransactionState, TRANSACTION_STATE_LABELS } from '../../services/transactionTracker'
+
+export type { ImportRowProgress, ImportRowState }
+
+const COLUMNS = [
+  { key: 'name', label: 'Name', width: 140 },
+  { key: 'email', label: 'Email', width: 180 },
+  { key: 'position', label: 'Position', width: 130 },
+  { key: 'department', label: 'Department', width: 120 },
+  { key: 'wallet_address', label: 'Wallet', width: 200 },
+  { key: 'salary_amount', label: 'Salary', width: 90 },
+  { key: 'payment_frequency', label: 'Frequency', width: 100 },
+  { key: 'preferred_token', label: 'Token', width: 70 },
+  { key: 'subdomain', label: 'ENS Subdomain', width: 130 },
+]
+
+// Blank optional cells fall back to these, as in the import itself
+const PLACEHOLDERS: Record<string, string> = {
+  payment_frequency: 'MONTHLY',
+  preferred_token: 'ETH',
+}
+
+const PROGRESS_LABELS: Record<string, string> = {
+  queued: 'Queued',
+  saved: 'Saved',
+  not_saved: 'On-chain only',
+}
+
+const getProgressColor = (state: ImportRowState) => {
+  if (state === 'saved') return 'success'
+  if (state === 'not_saved') return 'warning'
+  if (state === 'reverted' || state === 'cancelled' || state === 'failed') return 'error'
+  return 'info'
+}
+
+interface ImportPreviewGridProps {
+  rows: ImportRowValues[]
+  errors: ImportRowErrors[]
+  validCount: number
+  checking: boolean
+  disabled?: boolean
+  // Onboarding or invite progress keyed by lowercased wallet address
+  progress?: Record<string, ImportRowProgress>
+  onCellChange: (index: number, column: string, value: string) => void
+}
+
+const ImportPreviewGrid: React.FC<ImportPreviewGridProps> = ({
+  rows,
+  errors,
+  validCount,
+  checking,
+  disabled,
+  progress,
+  onCellChange,
+}) => {
+  const theme = useTheme()
+  const [onlyInvalid, setOnlyInvalid] = useState(false)
+
+  const invalidCount = rows.length - validCount
+  const visible = rows
+    .map((row, index) => ({ row, index, rowErrors: errors[index] || {} }))
+    .filter(item => !onlyInvalid || Object.keys(item.rowErrors).length > 0)
+
+  return (
+    <Box>
+      <Stack direction="row" justifyContent="space-between" alignItems="center" sx={{ mb: 1 }}>
+        <Stack direction="row" spacing={1} alignItems="center">
+          <Chip size="small" color="success" icon={<CheckCircleIcon />} label={`${validCount} valid`} />
+          <Chip size="small" color={invalidCount > 0 ? 'error' : 'default'} icon={<ErrorIcon />} label={`${invalidCount} with errors`} />
+          {checking && (
+            <Stack direction="row" spacing={1} alignItems="center">
+              <CircularProgress size={14} />
+              <Typography variant="caption" color="text.secondary">
+                Checking ENS availability...
+              </Typography>
+            </Stack>
+          )}
+        </Stack>
+        <FormControlLabel
+          control={<Switch size="small" checked={onlyInvalid} onChange={(e) => setOnlyInvalid(e.target.checked)} />}
+          label={<Typography variant="body2">Only rows with errors</Typography>}
+        />
+      </Stack>
+
+      <TableContainer sx={{ maxHeight: 400, borderRadius: 2, border: `1px solid ${theme.palette.divider}` }}>
+        <Table size="small" stickyHeader>
+          <TableHead>
+            <TableRow>
+              <TableCell sx={{ fontWeight: 600 }}>Row</TableCell>
+              {COLUMNS.map(column => (
+                <TableCell key={column.key} sx={{ fontWeight: 600, minWidth: column.width }}>
+                  {column.label}
+                </TableCell>
+              ))}
+              <TableCell sx={{ fontWeight: 600 }}>Status</TableCell>
+            </TableRow>
+          </TableHead>
+          <TableBody>
+            {visible.map(({ row, index, rowErrors }) => {
+              const issues = Object.keys(rowErrors).length
+              const rowProgress = progress?.[(row.wallet_address || '').trim().toLowerCase()]
+              return (
+                <TableRow
+                  key={index}
+                  sx={{ bgcolor: issues > 0 ? alpha(theme.palette.error.main, 0.04) : 'transparent' }}
+                >
+                  <TableCell>{index + 2}</TableCell>
+                  {COLUMNS.map(column => {
+                    const error = rowErrors[column.key]
+                    const placeholder = column.key === 'subdomain' ? getImportSubdomain(row) : PLACEHOLDERS[column.key]
+                    return (
+                      <TableCell key={column.key}>
+                        <Tooltip title={error || ''} placement="top">
+                          <TextField
+                            variant="standard"
+                            size="small"
+                            fullWidth
+                            value={row[column.key] || ''}
+                            placeholder={placeholder}
+                            error={!!error}
+                            disabled={disabled}
+                            onChange={(e) => onCellChange(index, column.key, e.target.value)}
+                            InputProps={{
+                              sx: {
+                                fontSize: '0.8rem',
+                                fontFamily: column.key === 'wallet_address' ? 'monospace' : undefined,
+                              },
+                            }}
+                          />
+                        </Tooltip>
+                      </TableCell>
+                    )
+                  })}
+                  <TableCell>
+                    {rowProgress ? (
+                      <Tooltip title={rowProgress.message || ''}>
+                        <Chip
+                          size="small"
+                          color={getProgressColor(rowProgress.state)}
+                          label={PROGRESS_LABELS[rowProgress.state] || TRANSACTION_STATE_LABELS[rowProgress.state as TrackedTransactionState]}
+                        />
+                      </Tooltip>
+                    ) : issues > 0 ? (
+                      <Tooltip title={Object.values(rowErrors).join('; ')}>
+                        <Chip size="small" color="error" label={`${issues} issue${issues === 1 ? '' : 's'}`} />
+                      </Tooltip>
+                    ) : (
+                      <Chip size="small" color="success" label="Valid" />
+                    )}
+                  </TableCell>
+                </TableRow>
+              )
+            })}
+          </TableBody>
+        </Table>
+      </TableContainer>
+    </Box>
+  )
+}
+
+export default ImportPreviewGrid
@@ -0,0 +1,252 @@
+/**
+ * Payout Wallet Card Component
+ * Lets an employee move their pay to a new wallet, signed from the current one, after a cooldown
+ * @author Dev Austin
+ */
+
+import React, { useState, useEffect } from 'react'
+import {
+  Box,
+  Typography,
+  Button,
+  Card,
+  CardContent,
+  Alert,
+  CircularProgress,
+  TextField,
+  Stack,
+} from '@mui/material'
+import { SwapHoriz as SwapHorizIcon } from '@mui/icons-material'
+import { ethers } from 'ethers'
+import { useAppDispatch } from '../../store/store'
+import { addNotification } from '../../store/slices/uiSlice'
+import { useBlockchain } from '../../hooks/useBlockchain'
+import { RequestWalletChangeRequest, WalletChange } from '../../services/apiService'
+import { PaymentResult } from '../../services/blockchainService'
+import { formatCooldown, getCooldownRemaining } from '../../utils/walletChange'
+
+const getResultError = (result: PaymentResult, fallback: string) => {
+  const error = result.error || fallback
+  return result.suggestion ? `${error}. ${result.suggestion}` : error
+}
+
+const shortAddress = (address: string) => `${address.slice(0, 6)}...${address.slice(-4)}`
+
+interface PayoutWalletCardProps {
+  walletAddress: string
+  walletChange?: WalletChange
+  recordWalletChangeRequest: (data: RequestWalletChangeRequest) => Promise<boolean>
+  recordWalletChangeCancelled: () => Promise<boolean>
+  recordWalletChangeApplied: (transactionHash?: string) => Promise<boolean>
+}
+
+const PayoutWalletCard: React.FC<PayoutWalletCardProps> = ({
+  walletAddress,
+  walletChange,
+  recordWalletChangeRequest,
+  recordWalletChangeCancelled,
+  recordWalletChangeApplied,
+}) => {
+  const dispatch = useAppDispatch()
+  const {
+    requestWalletChange,
+    cancelWalletChange,
+    applyWalletChange,
+    getPendingWalletChange,
+    getWalletChangeDelay,
+  } = useBlockchain()
+
+  const [newWallet, setNewWallet] = useState('')
+  const [confirmWallet, setConfirmWallet] = useState('')
+  const [delay, setDelay] = useState<number | null>(null)
+  const [saving, setSaving] = useState(false)
+
+  useEffect(() => {
+    getWalletChangeDelay()
+      .then(setDelay)
+      .catch(err => console.error('Error loading wallet change cooldown:', err))
+  }, [getWalletChangeDelay])
+
+  // Changes started by the company are announced to the employee
+  useEffect(() => {
+    if (!walletChange || walletChange.requestedByRole === 'employee') return
+
+    dispatch(addNotification({
+      type: 'warning',
+      title: 'Payout Wallet Change Requested',
+      message: `Your employer asked to pay ${shortAddress(walletChange.newWallet)} from ${new Date(walletChange.effectiveAt).toLocaleString()}. Cancel it if you did not ask for this.`,
+    }))
+  }, [walletChange, dispatch])
+
+  const remaining = walletChange ? getCooldownRemaining(walletChange.effectiveAt) : 0
+  const walletValid = ethers.utils.isAddress(newWallet) && newWallet.toLowerCase() !== walletAddress.toLowerCase()
+  const confirmed = walletValid && newWallet.toLowerCase() === confirmWallet.toLowerCase()
+
+  const handleRequest = async () => {
+    if (!confirmed) return
+
+    setSaving(true)
+    try {
+      const result = await requestWalletChange(walletAddress, newWallet)
+      if (!result.success) {
+        dispatch(addNotification({
+          type: 'error',
+          title: 'Request Failed',
+          message: getResultError(result, 'Failed to request wallet change'),
+        }))
+        return
+      }
+
+      const saved = await recordWalletChangeRequest({
+        newWallet,
+        transactionHash: result.transactionHash,
+      })
+
+      // The contract decides when the timelock ends
+      const change = await getPendingWalletChange(walletAddress)
+      const effectiveAt = change
+        ? new Date(change.effectiveAt * 1000)
+        : new Date(Date.now() + (delay || 0) * 1000)
+
+      dispatch(addNotification(saved
+        ? {
+            type: 'success',
+            title: 'Wallet Change Requested',
+            message: `You will be paid to ${shortAddress(newWallet)} from ${effectiveAt.toLocaleString()}. Your employer has been notified.`,
+          }
+        : {
+            type: 'warning',
+            title: 'Partially Updated',
+            message: 'The wallet change was requested on-chain but could not be saved. Please refresh and try again.',
+          }))
+      setNewWallet('')
+      setConfirmWallet('')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleCancel = async () => {
+    setSaving(true)
+    try {
+      const result = await cancelWalletChange(walletAddress)
+      if (!result.success) {
+        dispatch(addNotification({
+          type: 'error',
+          title: 'Cancel Failed',
+          message: getResultError(result, 'Failed to cancel wallet change'),
+        }))
+        return
+      }
+
+      await recordWalletChangeCancelled()
+      dispatch(addNotification({
+        type: 'info',
+        title: 'Wallet Change Cancelled',
+        message: `You keep being paid to ${shortAddress(walletAddress)}.`,
+      }))
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleApply = async () => {
+    if (!walletChange) return
+
+    setSaving(true)
+    try {
+      const result = await applyWalletChange(walletAddress)
+      if (!result.success) {
+        dispatch(addNotification({
+          type: 'error',
+          title: 'Apply Failed',
+          message: getResultError(result, 'Failed to apply wallet change'),
+        }))
+        return
+      }
+
+      await recordWalletChangeApplied(result.transactionHash)
+      dispatch(addNotification({
+        type: 'success',
+        title: 'Wallet Changed',
+        message: `You are now paid to ${shortAddress(walletChange.newWallet)}. Connect that wallet to see your portal.`,
+      }))
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <Card sx={{ mb: 4 }}>
+      <CardContent>
+        <Typography variant="h6" fontWeight={600} gutterBottom>
+          Payout Wallet
+        </Typography>
+
+        {walletChange ? (
+          <Stack spacing={2}>
+            <Alert severity={walletChange.requestedByRole === 'employee' ? 'info' : 'warning'}>
+              {walletChange.requestedByRole === 'employee' ? 'You asked' : 'Your employer asked'} to move your pay
+              from {shortAddress(walletAddress)} to {shortAddress(walletChange.newWallet)}.{' '}
+              {remaining > 0
+                ? `It can be applied in ${formatCooldown(remaining)}, on ${new Date(walletChange.effectiveAt).toLocaleString()}.`
+                : 'The cooldown has ended and the change can be applied.'}
+            </Alert>
+            <Stack direction="row" spacing={1}>
+              <Button color="error" variant="outlined" onClick={handleCancel} disabled={saving}>
+                Cancel Change
+              </Button>
+              <Button
+                variant="contained"
+                onClick={handleApply}
+                disabled={saving || remaining > 0}
+                startIcon={saving ? <CircularProgress size={16} color="inherit" /> : <SwapHorizIcon />}
+              >
+                Apply Change
+              </Button>
+            </Stack>
+          </Stack>
+        ) : (
+          <Stack spacing={2}>
+            <Typography variant="body2" color="text.secondary">
+              You are paid to {walletAddress}. Sign a change from this wallet to move your pay
+              {delay !== null ? ` after a ${formatCooldown(delay)} cooldown` : ' after a cooldown'}; your employer is notified
+              and either of you can cancel it until then.
+            </Typography>
+            <Box sx={{ display: 'flex', gap: 2, flexDirection: { xs: 'column', md: 'row' } }}>
+              <TextField
+                size="small"
+                fullWidth
+                label="New Wallet Address"
+                value={newWallet}
+                onChange={(e) => setNewWallet(e.target.value.trim())}
+                error={!!newWallet && !walletValid}
+                disabled={saving}
+              />
+              <TextField
+                size="small"
+                fullWidth
+                label="Confirm New Wallet Address"
+                value={confirmWallet}
+                onChange={(e) => setConfirmWallet(e.target.value.trim())}
+                error={!!confirmWallet && !confirmed}
+                disabled={saving}
+              />
+              <Button
+                variant="contained"
+                onClick={handleRequest}
+                disabled={saving || !confirmed}
+                startIcon={saving ? <CircularProgress size={16} color="inherit" /> : <SwapHorizIcon />}
+                sx={{ flexShrink: 0 }}
+              >
+                Request Change
+              </Button>
+            </Box>
+          </Stack>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
+
+export default PayoutWalletCard
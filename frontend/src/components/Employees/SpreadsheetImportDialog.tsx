@@ -0,0 +1,278 @@
+/**
+ * Spreadsheet Import Dialog Component
+ * Picks the sheet, header row and column mapping of an Excel workbook for the bulk import
+ * @author Dev Austin
+ */
+
+import React, { useState, useEffect, useMemo } from 'react'
+import {
+  Box,
+  Typography,
+  Button,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Alert,
+  CircularProgress,
+  FormControl,
+  InputLabel,
+  Select,
+  MenuItem,
+  Stack,
+  Avatar,
+  Grid,
+} from '@mui/material'
+import { TableChart as TableChartIcon } from '@mui/icons-material'
+import { WorkBook } from 'xlsx'
+import {
+  ColumnMapping,
+  HEADER_SEARCH_ROWS,
+  IMPORT_FIELDS,
+  applyColumnMapping,
+  getColumnLetter,
+  getMissingRequiredFields,
+  getSheetRows,
+  guessColumnMapping,
+  guessHeaderRow,
+  readWorkbook,
+} from '../../utils/spreadsheetImport'
+
+const PREVIEW_ROWS = 5
+
+const PREVIEW_FIELDS = ['name', 'email', 'wallet_address', 'salary_amount']
+
+interface SpreadsheetImportDialogProps {
+  open: boolean
+  file: File | null
+  onClose: () => void
+  onImport: (rows: Record<string, string>[]) => void
+}
+
+const SpreadsheetImportDialog: React.FC<SpreadsheetImportDialogProps> = ({
+  open,
+  file,
+  onClose,
+  onImport,
+}) => {
+  const [workbook, setWorkbook] = useState<WorkBook | null>(null)
+  const [sheetName, setSheetName] = useState('')
+  const [headerRow, setHeaderRow] = useState(0)
+  const [mapping, setMapping] = useState<ColumnMapping>({})
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  // Read the workbook and start on its first sheet that has any data
+  useEffect(() => {
+    if (!open || !file) return
+
+    setLoading(true)
+    setError(null)
+    setWorkbook(null)
+    readWorkbook(file)
+      .then(book => {
+        setWorkbook(book)
+        const firstSheet = book.SheetNames.find(name => getSheetRows(book, name).length > 0)
+        if (!firstSheet) {
+          setError('The workbook does not contain any data.')
+          return
+        }
+        setSheetName(firstSheet)
+      })
+      .catch(err => {
+        console.error('Error reading workbook:', err)
+        setError('Could not read the file. Make sure it is a valid Excel workbook.')
+      })
+      .finally(() => setLoading(false))
+  }, [open, file])
+
+  const rows = useMemo(() => {
+    return workbook && sheetName ? getSheetRows(workbook, sheetName) : []
+  }, [workbook, sheetName])
+
+  // A new sheet gets a fresh guess at its header row and columns
+  useEffect(() => {
+    const guessed = guessHeaderRow(rows)
+    setHeaderRow(guessed)
+    setMapping(guessColumnMapping(rows[guessed] || []))
+  }, [rows])
+
+  const headers = rows[headerRow] || []
+  const columnCount = rows.reduce((max, row) => Math.max(max, row.length), 0)
+  const missingFields = getMissingRequiredFields(mapping)
+  const mappedRows = useMemo(() => applyColumnMapping(rows, headerRow, mapping), [rows, headerRow, mapping])
+
+  const getColumnLabel = (index: number) => {
+    const header = headers[index]
+    return header ? `${getColumnLetter(index)}: ${header}` : `Column ${getColumnLetter(index)}`
+  }
+
+  const handleHeaderRowChange = (index: number) => {
+    setHeaderRow(index)
+    setMapping(guessColumnMapping(rows[index] || []))
+  }
+
+  const handleImport = () => {
+    onImport(mappedRows)
+  }
+
+  return (
+    <Dialog
+      open={open}
+      onClose={onClose}
+      maxWidth="md"
+      fullWidth
+      PaperProps={{
+        sx: { borderRadius: 3 }
+      }}
+    >
+      <DialogTitle sx={{ pb: 1 }}>
+        <Stack direction="row" alignItems="center" spacing={2}>
+          <Avatar sx={{ bgcolor: 'secondary.main' }}>
+            <TableChartIcon />
+          </Avatar>
+          <Box>
+            <Typography variant="h6" fontWeight={600}>
+              Map Spreadsheet Columns
+            </Typography>
+            <Typography variant="body2" color="text.secondary">
+              {file?.name}
+            </Typography>
+          </Box>
+        </Stack>
+      </DialogTitle>
+
+      <DialogContent sx={{ pt: 2 }}>
+        {loading ? (
+          <Box sx={{ display: 'flex', justifyContent: 'center', p: 4 }}>
+            <CircularProgress />
+          </Box>
+        ) : error ? (
+          <Alert severity="error">{error}</Alert>
+        ) : workbook && (
+          <>
+            <Grid container spacing={2} sx={{ mt: 0 }}>
+              <Grid item xs={12} sm={6}>
+                <FormControl fullWidth>
+                  <InputLabel>Sheet</InputLabel>
+                  <Select
+                    value={sheetName}
+                    label="Sheet"
+                    onChange={(e) => setSheetName(e.target.value)}
+                  >
+                    {workbook.SheetNames.map(name => (
+                      <MenuItem key={name} value={name}>
+                        {name}
+                      </MenuItem>
+                    ))}
+                  </Select>
+                </FormControl>
+              </Grid>
+              <Grid item xs={12} sm={6}>
+                <FormControl fullWidth>
+                  <InputLabel>Header Row</InputLabel>
+                  <Select
+                    value={rows.length > 0 ? headerRow : ''}
+                    label="Header Row"
+                    onChange={(e) => handleHeaderRowChange(Number(e.target.value))}
+                  >
+                    {rows.slice(0, HEADER_SEARCH_ROWS).map((row, index) => (
+                      <MenuItem key={index} value={index}>
+                        <Typography variant="body2" noWrap>
+                          Row {index + 1}: {row.filter(Boolean).join(', ')}
+                        </Typography>
+                      </MenuItem>
+                    ))}
+                  </Select>
+                </FormControl>
+              </Grid>
+            </Grid>
+
+            <Typography variant="subtitle2" sx={{ mt: 3, mb: 1 }}>
+              Column Mapping
+            </Typography>
+            <Grid container spacing={2}>
+              {IMPORT_FIELDS.map(field => (
+                <Grid item xs={12} sm={6} md={4} key={field.key}>
+                  <FormControl fullWidth size="small" error={field.required && (mapping[field.key] ?? -1) < 0}>
+                    <InputLabel>{field.required ? `${field.label} *` : field.label}</InputLabel>
+                    <Select
+                      value={mapping[field.key] ?? -1}
+                      label={field.required ? `${field.label} *` : field.label}
+                      onChange={(e) => setMapping(prev => ({ ...prev, [field.key]: Number(e.target.value) }))}
+                    >
+                      <MenuItem value={-1}>
+                        <em>Not imported</em>
+                      </MenuItem>
+                      {Array.from({ length: columnCount }, (_, index) => (
+                        <MenuItem key={index} value={index}>
+                          {getColumnLabel(index)}
+                        </MenuItem>
+                      ))}
+                    </Select>
+                  </FormControl>
+                </Grid>
+              ))}
+            </Grid>
+
+            {missingFields.length > 0 && (
+              <Alert severity="warning" sx={{ mt: 2 }}>
+                Map the required fields before importing: {missingFields.map(field => field.label).join(', ')}
+              </Alert>
+            )}
+
+            <Typography variant="subtitle2" sx={{ mt: 3, mb: 1 }}>
+              Preview ({mappedRows.length} rows)
+            </Typography>
+            <TableContainer>
+              <Table size="small">
+                <TableHead>
+                  <TableRow>
+                    {PREVIEW_FIELDS.map(key => (
+                      <TableCell key={key} sx={{ fontWeight: 600 }}>
+                        {IMPORT_FIELDS.find(field => field.key === key)?.label}
+                      </TableCell>
+                    ))}
+                  </TableRow>
+                </TableHead>
+                <TableBody>
+                  {mappedRows.slice(0, PREVIEW_ROWS).map((row, index) => (
+                    <TableRow key={index}>
+                      {PREVIEW_FIELDS.map(key => (
+                        <TableCell key={key} sx={key === 'wallet_address' ? { fontFamily: 'monospace' } : undefined}>
+                          {row[key] || '-'}
+                        </TableCell>
+                      ))}
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </TableContainer>
+          </>
+        )}
+      </DialogContent>
+
+      <DialogActions sx={{ px: 3, pb: 2 }}>
+        <Button onClick={onClose}>
+          Cancel
+        </Button>
+        <Button
+          variant="contained"
+          onClick={handleImport}
+          disabled={loading || !!error || missingFields.length > 0 || mappedRows.length === 0}
+          startIcon={<TableChartIcon />}
+        >
+          Use {mappedRows.length} Rows
+        </Button>
+      </DialogActions>
+    </Dialog>
+  )
+}
+
+export default SpreadsheetImportDialog
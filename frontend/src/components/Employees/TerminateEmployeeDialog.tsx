@@ -0,0 +1,410 @@
+/**
+ * Terminate Employee Dialog Component
+ * Guided offboarding: final pay, on-chain removal, ENS subdomain handover and backend deactivation
+ * @author Dev Austin
+ */
+
+import React, { useState, useEffect } from 'react'
+import {
+  Box,
+  Typography,
+  Button,
+  Chip,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Alert,
+  CircularProgress,
+  TextField,
+  FormControl,
+  FormControlLabel,
+  FormLabel,
+  Radio,
+  RadioGroup,
+  Checkbox,
+  Stack,
+  Avatar,
+  Divider,
+} from '@mui/material'
+import { PersonOff as PersonOffIcon } from '@mui/icons-material'
+import { ethers } from 'ethers'
+import { useAppDispatch } from '../../store/store'
+import { addNotification } from '../../store/slices/uiSlice'
+import { useBlockchain } from '../../hooks/useBlockchain'
+import { EmployeeData, TerminateEmployeeRequest } from '../../services/apiService'
+import { Employee, PaymentResult } from '../../services/blockchainService'
+import { getDateKey, getProRatedPay, ProRatedPay } from '../../utils/payrollSchedule'
+
+type EnsAction = TerminateEmployeeRequest['ensAction']
+type StepKey = 'payment' | 'remove' | 'ens' | 'record'
+type StepStatus = 'waiting' | 'running' | 'done' | 'skipped' | 'failed'
+
+const STEP_LABELS: Record<StepKey, string> = {
+  payment: 'Pay final salary',
+  remove: 'Remove employee on-chain',
+  ens: 'Update ENS subdomain',
+  record: 'Deactivate employee record',
+}
+
+const STATUS_COLORS: Record<StepStatus, 'default' | 'info' | 'success' | 'error'> = {
+  waiting: 'default',
+  running: 'info',
+  done: 'success',
+  skipped: 'default',
+  failed: 'error',
+}
+
+const INITIAL_STEPS: Record<StepKey, StepStatus> = {
+  payment: 'waiting',
+  remove: 'waiting',
+  ens: 'waiting',
+  record: 'waiting',
+}
+
+const getResultError = (result: PaymentResult, fallback: string) => {
+  const error = result.error || fallback
+  return result.suggestion ? `${error}. ${result.suggestion}` : error
+}
+
+interface TerminateEmployeeDialogProps {
+  open: boolean
+  employee: EmployeeData | null
+  onClose: () => void
+  terminateEmployee: (id: string, request: TerminateEmployeeRequest) => Promise<boolean>
+}
+
+const TerminateEmployeeDialog: React.FC<TerminateEmployeeDialogProps> = ({
+  open,
+  employee,
+  onClose,
+  terminateEmployee,
+}) => {
+  const dispatch = useAppDispatch()
+  const {
+    getEmployee,
+    getPaymentIntervals,
+    getTokenDecimals,
+    calculatePaymentAmount,
+    processIndividualPayment,
+    processPartialPayment,
+    removeEmployee,
+    reassignEmployeeENS,
+  } = useBlockchain()
+
+  const [terminationDate, setTerminationDate] = useState(getDateKey(new Date()))
+  const [reason, setReason] = useState('')
+  const [payFinal, setPayFinal] = useState(true)
+  const [ensAction, setEnsAction] = useState<EnsAction>('revoked')
+  const [newOwner, setNewOwner] = useState('')
+  const [onChainEmployee, setOnChainEmployee] = useState<Employee | null>(null)
+  const [paymentInterval, setPaymentInterval] = useState(0)
+  const [decimals, setDecimals] = useState(18)
+  const [dueAmount, setDueAmount] = useState('0')
+  const [finalPaid, setFinalPaid] = useState(false)
+  const [loading, setLoading] = useState(false)
+  const [running, setRunning] = useState(false)
+  const [steps, setSteps] = useState<Record<StepKey, StepStatus>>(INITIAL_STEPS)
+
+  const walletAddress = employee?.payrollSettings?.walletAddress || ''
+  const tokenSymbol = employee?.payrollSettings?.preferredToken || 'ETH'
+
+  // Load what the contract knows about this employee
+  useEffect(() => {
+    if (!open || !walletAddress) return
+
+    setTerminationDate(getDateKey(new Date()))
+    setReason('')
+    setNewOwner('')
+    setSteps(INITIAL_STEPS)
+    setFinalPaid(false)
+    setPayFinal(true)
+    setLoading(true)
+
+    const load = async () => {
+      const [chainEmployee, intervals, due] = await Promise.all([
+        getEmployee(walletAddress),
+        getPaymentIntervals(),
+        calculatePaymentAmount(walletAddress),
+      ])
+      const found = chainEmployee && chainEmployee.walletAddress !== ethers.constants.AddressZero ? chainEmployee : null
+      setOnChainEmployee(found)
+      setDueAmount(due)
+      if (found) {
+        setPaymentInterval(intervals[found.frequency] || 0)
+        setDecimals(await getTokenDecimals(found.preferredToken))
+        setEnsAction(found.ensNode !== ethers.constants.HashZero ? 'revoked' : 'kept')
+      }
+    }
+
+    load()
+      .catch(err => console.error('Error loading employee for termination:', err))
+      .finally(() => setLoading(false))
+  }, [open, walletAddress, getEmployee, getPaymentIntervals, getTokenDecimals, calculatePaymentAmount])
+
+  // Pay runs through the end of the termination day, but the contract only pays what has accrued so far
+  const [year, month, day] = terminationDate.split('-').map(Number)
+  const payUntil = new Date(Math.min(new Date(year, month - 1, day + 1).getTime(), Date.now()))
+  const finalPay: ProRatedPay | null = onChainEmployee && terminationDate
+    ? getProRatedPay(onChainEmployee, paymentInterval, decimals, payUntil)
+    : null
+
+  // A full period due goes through processIndividualPayment, anything less through processPartialPayment
+  const paysFullSalary = parseFloat(dueAmount) > 0
+  const finalAmount = paysFullSalary ? dueAmount : finalPay?.amount || '0'
+  const hasSubdomain = !!onChainEmployee && onChainEmployee.ensNode !== ethers.constants.HashZero
+  const canPay = !!onChainEmployee?.isActive && !finalPaid && parseFloat(finalAmount) > 0
+  const newOwnerValid = ensAction !== 'reassigned' || ethers.utils.isAddress(newOwner)
+  const finished = steps.record === 'done'
+
+  const setStep = (key: StepKey, status: StepStatus) => {
+    setSteps(prev => ({ ...prev, [key]: status }))
+  }
+
+  const fail = (key: StepKey, title: string, message: string) => {
+    setStep(key, 'failed')
+    dispatch(addNotification({ type: 'error', title, message }))
+  }
+
+  const handleClose = () => {
+    if (!running) onClose()
+  }
+
+  const handleTerminate = async () => {
+    if (!employee?._id) return
+
+    setRunning(true)
+    setSteps(INITIAL_STEPS)
+    const request: TerminateEmployeeRequest = {
+      terminationDate: new Date(year, month - 1, day).toISOString(),
+      reason: reason.trim() || undefined,
+      ensAction: 'kept',
+    }
+
+    try {
+      // 1. Final salary, while the contract still considers them active
+      if (payFinal && canPay) {
+        setStep('payment', 'running')
+        const result = paysFullSalary
+          ? await processIndividualPayment(walletAddress)
+          : await processPartialPayment(walletAddress, finalAmount)
+        if (!result.success) {
+          return fail('payment', 'Final Payment Failed', getResultError(result, 'Failed to pay final salary'))
+        }
+        request.finalPaymentAmount = finalAmount
+        request.finalPaymentHash = result.transactionHash
+        setStep('payment', 'done')
+        // A retry after a later failure must not pay twice
+        setFinalPaid(true)
+      } else {
+        setStep('payment', 'skipped')
+      }
+
+      // 2. Stop future payments; already removed employees can still finish offboarding
+      if (onChainEmployee?.isActive) {
+        setStep('remove', 'running')
+        const result = await removeEmployee(walletAddress)
+        if (!result.success) {
+          return fail('remove', 'Removal Failed', getResultError(result, 'Failed to remove employee'))
+        }
+        request.removalTransactionHash = result.transactionHash
+        setStep('remove', 'done')
+        setOnChainEmployee({ ...onChainEmployee, isActive: false })
+      } else {
+        setStep('remove', 'skipped')
+      }
+
+      // 3. The subdomain can only change hands after removal
+      if (hasSubdomain && ensAction !== 'kept') {
+        setStep('ens', 'running')
+        const target = ensAction === 'reassigned' ? newOwner : ethers.constants.AddressZero
+        const result = await reassignEmployeeENS(walletAddress, target)
+        if (result.success) {
+          request.ensAction = ensAction
+          request.ensNewOwner = ensAction === 'reassigned' ? newOwner : undefined
+          request.ensTransactionHash = result.transactionHash
+          setStep('ens', 'done')
+        } else {
+          // Removal already happened, so record the termination and let the subdomain be retried later
+          fail('ens', 'ENS Update Failed', getResultError(result, 'Failed to update ENS subdomain'))
+        }
+      } else {
+        setStep('ens', 'skipped')
+      }
+
+      // 4. Keep the record for payment history
+      setStep('record', 'running')
+      const saved = await terminateEmployee(employee._id, request)
+      if (!saved) {
+        return fail('record', 'Record Update Failed', 'The employee was removed on-chain but their record could not be deactivated. Please try again.')
+      }
+      setStep('record', 'done')
+
+      dispatch(addNotification({
+        type: 'success',
+        title: 'Employee Terminated',
+        message: `${employee.personalInfo?.name || 'Employee'} has been offboarded.`,
+      }))
+    } finally {
+      setRunning(false)
+    }
+  }
+
+  const started = Object.values(steps).some(status => status !== 'waiting')
+
+  return (
+    <Dialog
+      open={open}
+      onClose={handleClose}
+      maxWidth="sm"
+      fullWidth
+      PaperProps={{
+        sx: { borderRadius: 3 }
+      }}
+    >
+      <DialogTitle sx={{ pb: 1 }}>
+        <Stack direction="row" alignItems="center" spacing={2}>
+          <Avatar sx={{ bgcolor: 'error.main' }}>
+            <PersonOffIcon />
+          </Avatar>
+          <Box>
+            <Typography variant="h6" fontWeight={600}>
+              Terminate Employee
+            </Typography>
+            <Typography variant="body2" color="text.secondary">
+              {employee?.personalInfo?.name || 'Employee'}
+            </Typography>
+          </Box>
+        </Stack>
+      </DialogTitle>
+
+      <DialogContent sx={{ pt: 2 }}>
+        {loading ? (
+          <Box sx={{ display: 'flex', justifyContent: 'center', py: 4 }}>
+            <CircularProgress />
+          </Box>
+        ) : (
+          <Stack spacing={2} sx={{ mt: 1 }}>
+            {!onChainEmployee && (
+              <Alert severity="warning">
+                This employee was not found on the payroll contract. Only their record will be deactivated.
+              </Alert>
+            )}
+
+            <TextField
+              label="Termination Date"
+              type="date"
+              value={terminationDate}
+              onChange={(e) => setTerminationDate(e.target.value)}
+              InputLabelProps={{ shrink: true }}
+              disabled={running || finished}
+              fullWidth
+            />
+
+            <TextField
+              label="Reason (optional)"
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              inputProps={{ maxLength: 500 }}
+              disabled={running || finished}
+              multiline
+              rows={2}
+              fullWidth
+            />
+
+            {finalPay && (
+              <Box>
+                <Typography variant="subtitle2" gutterBottom>
+                  Final Pay
+                </Typography>
+                <Typography variant="body2">
+                  Pro-rated: <strong>{parseFloat(finalPay.amount).toFixed(6)} {tokenSymbol}</strong> for{' '}
+                  {finalPay.periods.toFixed(2)} pay periods from {finalPay.from.toLocaleDateString()} to {finalPay.until.toLocaleDateString()}
+                </Typography>
+                <Typography variant="body2" color="text.secondary">
+                  {paysFullSalary
+                    ? `A full salary of ${dueAmount} ${tokenSymbol} is due on-chain and will be paid instead.`
+                    : 'No full pay period is due, so the pro-rated amount is paid as a partial payment.'}
+                </Typography>
+                <FormControlLabel
+                  control={
+                    <Checkbox
+                      checked={payFinal && canPay}
+                      onChange={(e) => setPayFinal(e.target.checked)}
+                      disabled={!canPay || running || finished}
+                    />
+                  }
+                  label={`Pay ${parseFloat(finalAmount).toFixed(6)} ${tokenSymbol} before removal`}
+                />
+              </Box>
+            )}
+
+            {hasSubdomain && (
+              <FormControl disabled={running || finished}>
+                <FormLabel>ENS Subdomain ({onChainEmployee?.ensSubdomain})</FormLabel>
+                <RadioGroup
+                  value={ensAction}
+                  onChange={(e) => setEnsAction(e.target.value as EnsAction)}
+                >
+                  <FormControlLabel value="revoked" control={<Radio />} label="Revoke it" />
+                  <FormControlLabel value="reassigned" control={<Radio />} label="Reassign it to another wallet" />
+                  <FormControlLabel value="kept" control={<Radio />} label="Leave it with the former employee" />
+                </RadioGroup>
+                {ensAction === 'reassigned' && (
+                  <TextField
+                    label="New Owner Address"
+                    value={newOwner}
+                    onChange={(e) => setNewOwner(e.target.value)}
+                    error={!!newOwner && !newOwnerValid}
+                    helperText={newOwner && !newOwnerValid ? 'Enter a valid wallet address' : ''}
+                    size="small"
+                    sx={{ mt: 1 }}
+                    fullWidth
+                  />
+                )}
+              </FormControl>
+            )}
+
+            {started && (
+              <>
+                <Divider />
+                <Stack spacing={1}>
+                  {(Object.keys(STEP_LABELS) as StepKey[]).map(key => (
+                    <Stack key={key} direction="row" justifyContent="space-between" alignItems="center">
+                      <Typography variant="body2">{STEP_LABELS[key]}</Typography>
+                      <Chip
+                        label={steps[key]}
+                        size="small"
+                        color={STATUS_COLORS[steps[key]]}
+                        icon={steps[key] === 'running' ? <CircularProgress size={12} /> : undefined}
+                      />
+                    </Stack>
+                  ))}
+                </Stack>
+              </>
+            )}
+          </Stack>
+        )}
+      </DialogContent>
+
+      <DialogActions sx={{ px: 3, pb: 2 }}>
+        <Button onClick={handleClose} disabled={running}>
+          {finished ? 'Close' : 'Cancel'}
+        </Button>
+        {!finished && (
+          <Button
+            variant="contained"
+            color="error"
+            onClick={handleTerminate}
+            disabled={running || loading || !terminationDate || !newOwnerValid}
+            startIcon={running ? <CircularProgress size={16} /> : <PersonOffIcon />}
+          >
+            {running ? 'Terminating...' : 'Terminate'}
+          </Button>
+        )}
+      </DialogActions>
+    </Dialog>
+  )
+}
+
+export default TerminateEmployeeDialog
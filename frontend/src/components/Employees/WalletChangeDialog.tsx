@@ -0,0 +1,322 @@
+/**
+ * Wallet Change Dialog Component
+ * Starts, cancels and applies time-locked payout wallet changes on the employee's behalf
+ * @author Dev Austin
+ */
+
+import React, { useState, useEffect } from 'react'
+import {
+  Box,
+  Typography,
+  Button,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Alert,
+  CircularProgress,
+  TextField,
+  FormControlLabel,
+  Checkbox,
+  Stack,
+  Avatar,
+} from '@mui/material'
+import { SwapHoriz as SwapHorizIcon } from '@mui/icons-material'
+import { ethers } from 'ethers'
+import { useAppDispatch } from '../../store/store'
+import { addNotification } from '../../store/slices/uiSlice'
+import { useBlockchain } from '../../hooks/useBlockchain'
+import { EmployeeData, HrWalletChangeRequest, WalletChange } from '../../services/apiService'
+import { PaymentResult } from '../../services/blockchainService'
+import { formatCooldown, getCooldownRemaining } from '../../utils/walletChange'
+
+const REQUESTER_LABELS: Record<WalletChange['requestedByRole'], string> = {
+  employee: 'the employee',
+  owner: 'the company owner',
+  hr: 'HR',
+}
+
+const getResultError = (result: PaymentResult, fallback: string) => {
+  const error = result.error || fallback
+  return result.suggestion ? `${error}. ${result.suggestion}` : error
+}
+
+const shortAddress = (address: string) => `${address.slice(0, 6)}...${address.slice(-4)}`
+
+interface WalletChangeDialogProps {
+  open: boolean
+  employee: EmployeeData | null
+  onClose: () => void
+  recordWalletChangeRequest: (id: string, data: HrWalletChangeRequest) => Promise<boolean>
+  recordWalletChangeCancelled: (id: string) => Promise<boolean>
+  recordWalletChangeApplied: (id: string, transactionHash?: string) => Promise<boolean>
+}
+
+const WalletChangeDialog: React.FC<WalletChangeDialogProps> = ({
+  open,
+  employee,
+  onClose,
+  recordWalletChangeRequest,
+  recordWalletChangeCancelled,
+  recordWalletChangeApplied,
+}) => {
+  const dispatch = useAppDispatch()
+  const {
+    requestWalletChange,
+    cancelWalletChange,
+    applyWalletChange,
+    getPendingWalletChange,
+    getWalletChangeDelay,
+  } = useBlockchain()
+
+  const [newWallet, setNewWallet] = useState('')
+  const [confirmWallet, setConfirmWallet] = useState('')
+  const [verified, setVerified] = useState(false)
+  const [delay, setDelay] = useState<number | null>(null)
+  const [saving, setSaving] = useState(false)
+
+  useEffect(() => {
+    if (!open) return
+    setNewWallet('')
+    setConfirmWallet('')
+    setVerified(false)
+
+    getWalletChangeDelay()
+      .then(setDelay)
+      .catch(err => console.error('Error loading wallet change cooldown:', err))
+  }, [open, getWalletChangeDelay])
+
+  const currentWallet = employee?.payrollSettings?.walletAddress || ''
+  const pending = employee?.walletChange
+  const remaining = pending ? getCooldownRemaining(pending.effectiveAt) : 0
+  const walletValid = ethers.utils.isAddress(newWallet) && newWallet.toLowerCase() !== currentWallet.toLowerCase()
+  const confirmed = walletValid && newWallet.toLowerCase() === confirmWallet.toLowerCase()
+  const name = employee?.personalInfo?.name || 'Employee'
+
+  const handleClose = () => {
+    if (!saving) onClose()
+  }
+
+  const handleRequest = async () => {
+    if (!employee?._id || !confirmed || !verified) return
+
+    setSaving(true)
+    try {
+      const result = await requestWalletChange(currentWallet, newWallet)
+      if (!result.success) {
+        dispatch(addNotification({
+          type: 'error',
+          title: 'Request Failed',
+          message: getResultError(result, 'Failed to request wallet change'),
+        }))
+        return
+      }
+
+      const saved = await recordWalletChangeRequest(employee._id, {
+        newWallet,
+        confirmNewWallet: confirmWallet,
+        verifiedWithEmployee: verified,
+        transactionHash: result.transactionHash,
+      })
+
+      // The contract decides when the timelock ends
+      const change = await getPendingWalletChange(currentWallet)
+      const effectiveAt = change
+        ? new Date(change.effectiveAt * 1000)
+        : new Date(Date.now() + (delay || 0) * 1000)
+
+      if (saved) {
+        dispatch(addNotification({
+          type: 'success',
+          title: 'Wallet Change Requested',
+          message: `${name} will be paid to ${shortAddress(newWallet)} from ${effectiveAt.toLocaleString()}. They are notified in their portal and can cancel it until then.`,
+        }))
+      } else {
+        dispatch(addNotification({
+          type: 'warning',
+          title: 'Partially Updated',
+          message: 'The wallet change was requested on-chain but could not be saved to the database. Please try again.',
+        }))
+      }
+      onClose()
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleCancel = async () => {
+    if (!employee?._id || !pending) return
+
+    setSaving(true)
+    try {
+      const result = await cancelWalletChange(currentWallet)
+      if (!result.success) {
+        dispatch(addNotification({
+          type: 'error',
+          title: 'Cancel Failed',
+          message: getResultError(result, 'Failed to cancel wallet change'),
+        }))
+        return
+      }
+
+      await recordWalletChangeCancelled(employee._id)
+      dispatch(addNotification({
+        type: 'info',
+        title: 'Wallet Change Cancelled',
+        message: `${name} keeps being paid to ${shortAddress(currentWallet)}.`,
+      }))
+      onClose()
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleApply = async () => {
+    if (!employee?._id || !pending) return
+
+    setSaving(true)
+    try {
+      const result = await applyWalletChange(currentWallet)
+      if (!result.success) {
+        dispatch(addNotification({
+          type: 'error',
+          title: 'Apply Failed',
+          message: getResultError(result, 'Failed to apply wallet change'),
+        }))
+        return
+      }
+
+      const saved = await recordWalletChangeApplied(employee._id, result.transactionHash)
+      if (saved) {
+        dispatch(addNotification({
+          type: 'success',
+          title: 'Wallet Changed',
+          message: `${name} is now paid to ${shortAddress(pending.newWallet)}, and their ENS name points there.`,
+        }))
+      } else {
+        dispatch(addNotification({
+          type: 'warning',
+          title: 'Partially Updated',
+          message: 'The wallet was changed on-chain but could not be saved to the database. Please try again.',
+        }))
+      }
+      onClose()
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <Dialog
+      open={open}
+      onClose={handleClose}
+      maxWidth="sm"
+      fullWidth
+      PaperProps={{
+        sx: { borderRadius: 3 }
+      }}
+    >
+      <DialogTitle sx={{ pb: 1 }}>
+        <Stack direction="row" alignItems="center" spacing={2}>
+          <Avatar sx={{ bgcolor: 'warning.main' }}>
+            <SwapHorizIcon />
+          </Avatar>
+          <Box>
+            <Typography variant="h6" fontWeight={600}>
+              Change Payout Wallet
+            </Typography>
+            <Typography variant="body2" color="text.secondary">
+              {name} · {currentWallet ? shortAddress(currentWallet) : 'No wallet'}
+            </Typography>
+          </Box>
+        </Stack>
+      </DialogTitle>
+
+      <DialogContent sx={{ pt: 2 }}>
+        {pending ? (
+          <Stack spacing={2} sx={{ mt: 1 }}>
+            <Alert severity={remaining > 0 ? 'warning' : 'info'}>
+              Requested by {REQUESTER_LABELS[pending.requestedByRole]} on {new Date(pending.requestedAt).toLocaleString()}:
+              pay {shortAddress(pending.newWallet)} instead of {shortAddress(currentWallet)}.
+            </Alert>
+            <Typography variant="body2" sx={{ fontFamily: 'monospace' }}>
+              {pending.newWallet}
+            </Typography>
+            <Typography variant="body2" color="text.secondary">
+              {remaining > 0
+                ? `The change can be applied in ${formatCooldown(remaining)} (${new Date(pending.effectiveAt).toLocaleString()}). Cancel it if the employee did not ask for it.`
+                : 'The cooldown has ended. Applying moves the employee record and ENS name to the new wallet.'}
+            </Typography>
+          </Stack>
+        ) : (
+          <Stack spacing={2} sx={{ mt: 1 }}>
+            <Alert severity="warning">
+              Wallet change requests are a common social-engineering target. Confirm the new wallet with {name} in
+              person or through a channel other than the one the request came in.
+            </Alert>
+            <TextField
+              fullWidth
+              label="New Wallet Address"
+              value={newWallet}
+              onChange={(e) => setNewWallet(e.target.value.trim())}
+              error={!!newWallet && !walletValid}
+              helperText={newWallet && !walletValid ? 'Enter a valid address different from the current wallet' : ''}
+              disabled={saving}
+            />
+            <TextField
+              fullWidth
+              label="Confirm New Wallet Address"
+              value={confirmWallet}
+              onChange={(e) => setConfirmWallet(e.target.value.trim())}
+              error={!!confirmWallet && !confirmed}
+              helperText={confirmWallet && !confirmed ? 'Addresses do not match' : ''}
+              disabled={saving}
+            />
+            <FormControlLabel
+              control={<Checkbox checked={verified} onChange={(e) => setVerified(e.target.checked)} disabled={saving} />}
+              label={`I verified this wallet with ${name} directly`}
+            />
+            {delay !== null && (
+              <Typography variant="body2" color="text.secondary">
+                The change takes effect after a {formatCooldown(delay)} cooldown. {name} is notified and can cancel it until then.
+              </Typography>
+            )}
+          </Stack>
+        )}
+      </DialogContent>
+
+      <DialogActions sx={{ px: 3, pb: 2 }}>
+        <Button onClick={handleClose} disabled={saving}>
+          Close
+        </Button>
+        {pending ? (
+          <>
+            <Button color="error" onClick={handleCancel} disabled={saving}>
+              Cancel Change
+            </Button>
+            <Button
+              variant="contained"
+              onClick={handleApply}
+              disabled={saving || remaining > 0}
+              startIcon={saving ? <CircularProgress size={16} /> : <SwapHorizIcon />}
+            >
+              Apply Change
+            </Button>
+          </>
+        ) : (
+          <Button
+            variant="contained"
+            color="warning"
+            onClick={handleRequest}
+            disabled={saving || !confirmed || !verified}
+            startIcon={saving ? <CircularProgress size={16} /> : <SwapHorizIcon />}
+          >
+            {saving ? 'Requesting...' : 'Request Change'}
+          </Button>
+        )}
+      </DialogActions>
+    </Dialog>
+  )
+}
+
+export default WalletChangeDialog
@@ -40,13 +40,19 @@ import {
   AccountCircle as AccountCircleIcon,
   Logout as LogoutIcon,
   Security as SecurityIcon,
+  FactCheck as ApprovalIcon,
+  CalendarMonth as CalendarIcon,
+  CardGiftcard as BonusIcon,
+  CompareArrows as ReconcileIcon,
+  Settings as SettingsIcon,
 } from '@mui/icons-material'
 import { useLocation, useNavigate } from 'react-router-dom'
 import { useAccount, useDisconnect } from 'wagmi'
 import { ConnectButton } from '@rainbow-me/rainbowkit'
 import { useAppDispatch, useAppSelector } from '../../store/store'
 import { toggleSidebar, setSidebarOpen, setTheme } from '../../store/slices/uiSlice'
-import { useAuth } from '../../context/AuthContext'
+import { useAuth, CompanyRole, ROLE_LABELS } from '../../context/AuthContext'
+import { useAccountNotifications } from '../../hooks/useApi'
 
 const DRAWER_WIDTH = 280
 const MINI_DRAWER_WIDTH = 64
@@ -55,6 +61,15 @@ interface DashboardLayoutProps {
   children: React.ReactNode
 }
 
+interface NavigationItem {
+  text: string
+  icon: React.ReactNode
+  path: string
+  badge: number | null
+  // Member roles that see the item besides the owner; everyone when omitted
+  roles?: CompanyRole[]
+}
+
 const DashboardLayout: React.FC<DashboardLayoutProps> = ({ children }) => {
   const theme = useTheme()
   const isMobile = useMediaQuery(theme.breakpoints.down('md'))
@@ -68,7 +83,15 @@ const DashboardLayout: React.FC<DashboardLayoutProps> = ({ children }) => {
   
   // Auth state
   const { address, isConnected } = useAccount()
-  const { hasCompany } = useAuth()
+  const { hasCompany, role, hasRole } = useAuth()
+
+  // Saved notifications, e.g. wallet changes employees made, shown above this session's messages
+  const {
+    notifications: accountNotifications,
+    unreadCount: accountUnreadCount,
+    markRead: markAccountNotificationRead,
+    refreshNotifications,
+  } = useAccountNotifications()
   
   // Local state
   const [anchorEl, setAnchorEl] = useState<null | HTMLElement>(null)
@@ -105,6 +128,7 @@ const DashboardLayout: React.FC<DashboardLayoutProps> = ({ children }) => {
   // Handle notifications
   const handleNotificationsClick = (event: React.MouseEvent<HTMLElement>) => {
     setNotificationAnchor(event.currentTarget)
+    refreshNotifications()
   }
 
   const handleNotificationsClose = () => {
@@ -118,8 +142,8 @@ const DashboardLayout: React.FC<DashboardLayoutProps> = ({ children }) => {
     navigate('/')
   }
 
-  // Navigation items
-  const navigationItems = [
+  // Navigation items, matching the roles each route allows in App.tsx
+  const allNavigationItems: NavigationItem[] = [
     {
       text: 'Dashboard',
       icon: <DashboardIcon />,
@@ -132,17 +156,46 @@ const DashboardLayout: React.FC<DashboardLayoutProps> = ({ children }) => {
       path: '/employees',
       badge: null,
     },
+    {
+      text: 'Reconciliation',
+      icon: <ReconcileIcon />,
+      path: '/employees/reconcile',
+      badge: null,
+      roles: ['hr'],
+    },
     {
       text: 'Payroll',
       icon: <PaymentIcon />,
       path: '/payroll',
       badge: null,
+      roles: ['finance'],
+    },
+    {
+      text: 'Payroll Runs',
+      icon: <ApprovalIcon />,
+      path: '/payroll/runs',
+      badge: null,
+      roles: ['finance', 'auditor'],
+    },
+    {
+      text: 'Payroll Calendar',
+      icon: <CalendarIcon />,
+      path: '/payroll/calendar',
+      badge: null,
+    },
+    {
+      text: 'Bonuses',
+      icon: <BonusIcon />,
+      path: '/bonuses',
+      badge: null,
+      roles: ['finance', 'auditor'],
     },
     {
       text: 'ENS Management',
       icon: <ENSIcon />,
       path: '/ens',
       badge: null,
+      roles: ['hr'],
     },
     {
       text: 'Analytics',
@@ -150,8 +203,17 @@ const DashboardLayout: React.FC<DashboardLayoutProps> = ({ children }) => {
       path: '/analytics',
       badge: null,
     },
+    {
+      text: 'Settings',
+      icon: <SettingsIcon />,
+      path: '/settings',
+      badge: null,
+      roles: [],
+    },
   ]
 
+  const navigationItems = allNavigationItems.filter(item => !item.roles || hasRole(...item.roles))
+
   // Get network status for display
   const getNetworkStatus = () => {
     if (!isConnected) return { text: 'Not Connected', color: 'error' as const }
@@ -364,7 +426,7 @@ const DashboardLayout: React.FC<DashboardLayoutProps> = ({ children }) => {
             {/* Notifications */}
             <Tooltip title="Notifications">
               <IconButton onClick={handleNotificationsClick} color="inherit">
-                <Badge badgeContent={notifications.filter(n => !n.read).length} color="error">
+                <Badge badgeContent={accountUnreadCount + notifications.filter(n => !n.read).length} color="error">
                   <NotificationsIcon />
                 </Badge>
               </IconButton>
@@ -390,7 +452,7 @@ const DashboardLayout: React.FC<DashboardLayoutProps> = ({ children }) => {
                     {address?.slice(0, 6)}...{address?.slice(-4)}
                   </Typography>
                   <Typography variant="caption" color="text.secondary">
-                    {hasCompany ? 'Company Owner' : 'No Company'}
+                    {hasCompany && role ? ROLE_LABELS[role] : 'No Company'}
                   </Typography>
                 </Box>
               </Button>
@@ -479,7 +541,22 @@ const DashboardLayout: React.FC<DashboardLayoutProps> = ({ children }) => {
           },
         }}
       >
-        {notifications.length === 0 ? (
+        {accountNotifications.slice(0, 5).map((notification) => (
+          <MenuItem
+            key={notification._id}
+            onClick={() => !notification.read && markAccountNotificationRead(notification._id)}
+          >
+            <Box>
+              <Typography variant="body2" sx={{ fontWeight: notification.read ? 400 : 600 }}>
+                {notification.title}
+              </Typography>
+              <Typography variant="caption" color="text.secondary">
+                {notification.message}
+              </Typography>
+            </Box>
+          </MenuItem>
+        ))}
+        {notifications.length === 0 && accountNotifications.length === 0 ? (
           <MenuItem>
             <Typography variant="body2" color="text.secondary">
               No notifications
@@ -1,5 +1,7 @@
-import React, { createContext, useContext, useState, useEffect, ReactNode } from 'react'
-import { useAccount } from 'wagmi'
+import React, { createContext, useContext, useState, useEffect, useCallback, ReactNode } from 'react'
+import { useAccount, useNetwork, useSignMessage } from 'wagmi'
+import { apiService } from '../services/apiService'
+import { createSiweMessage, SIWE_STATEMENT } from '../utils/siwe'
 
 interface CompanyData {
   _id: string
@@ -7,19 +9,48 @@ interface CompanyData {
   ensDomain: string
   ensNode: string
   ownerWallet: string
+  financeApprovers?: string[]
+  payrollApprovalsRequired?: number
+  members?: CompanyMember[]
+}
+
+export type CompanyRole = 'owner' | 'hr' | 'finance' | 'auditor'
+
+export interface CompanyMember {
+  wallet: string
+  role: Exclude<CompanyRole, 'owner'>
+  invitedBy?: string
+  invitedAt?: string
+}
+
+export const ROLE_LABELS: Record<CompanyRole, string> = {
+  owner: 'Company Owner',
+  hr: 'HR',
+  finance: 'Finance',
+  auditor: 'Auditor',
 }
 
 interface AuthState {
   isConnected: boolean
   address: string | undefined
+  // A Sign-In with Ethereum session exists for this wallet and chain
+  isAuthenticated: boolean
+  signingIn: boolean
   hasCompany: boolean
   company: CompanyData | null
+  role: CompanyRole | null
+  // Wallet belongs to an employee rather than to a company member
+  isEmployee: boolean
   loading: boolean
   error: string | null
 }
 
 interface AuthContextType extends AuthState {
+  // True for the owner and for any of the given roles
+  hasRole: (...roles: CompanyRole[]) => boolean
   refreshStatus: () => Promise<void>
+  signIn: () => Promise<boolean>
+  signOut: () => Promise<void>
 }
 
 const AuthContext = createContext<AuthContextType | undefined>(undefined)
@@ -28,81 +59,198 @@ interface AuthProviderProps {
   children: ReactNode
 }
 
+// Refresh the session token this long before it expires
+const REFRESH_MARGIN_MS = 5 * 60 * 1000
+
+const SIGNED_OUT = {
+  isAuthenticated: false,
+  hasCompany: false,
+  company: null,
+  role: null,
+  isEmployee: false,
+  loading: false,
+}
+
+/**
+ * Whether the stored session belongs to this wallet on this chain
+ */
+const isSessionFor = (address: string, chainId: number | undefined) => {
+  const claims = apiService.getCurrentUser()
+  return apiService.isAuthenticated() &&
+    !!claims &&
+    claims.sub === address.toLowerCase() &&
+    claims.chainId === chainId
+}
+
 export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
-  const { isConnected, address, isConnecting } = useAccount()
+  const { isConnected, address, isConnecting } = useAccount({
+    // Disconnecting ends the session; a page reload (no auto-connect) does not
+    onDisconnect: () => {
+      apiService.logout()
+    }
+  })
+  const { chain } = useNetwork()
+  const { signMessageAsync } = useSignMessage()
   const [authState, setAuthState] = useState<Omit<AuthState, 'isConnected' | 'address'>>({
-    hasCompany: false,
-    company: null,
-    loading: false,
+    ...SIGNED_OUT,
+    signingIn: false,
     error: null
   })
+  // Expiry (unix seconds) of the current token, which schedules its refresh
+  const [sessionExpiry, setSessionExpiry] = useState<number | null>(null)
+  const chainId = chain?.id
 
-  const checkCompanyStatus = async (walletAddress: string): Promise<{ hasCompany: boolean; company: CompanyData | null }> => {
-    try {
-      console.log('🔐 AuthContext: Checking company status for:', walletAddress)
-      
-      // Force the correct URL construction
-      const envUrl = process.env.REACT_APP_API_URL || 'http://localhost:3001'
-      const baseUrl = envUrl + '/api'
-      const fullUrl = `${baseUrl}/companies/status`
-      console.log('🔧 AuthContext: ENV URL:', envUrl)
-      console.log('🔧 AuthContext: BASE URL:', baseUrl)
-      console.log('🔧 AuthContext: FULL URL:', fullUrl)
-      console.log('🔧 AuthContext: Making request to:', fullUrl)
-      const response = await fetch(fullUrl, {
-        headers: {
-          'x-wallet-address': walletAddress
-        }
-      })
+  const checkCompanyStatus = async (): Promise<{ hasCompany: boolean; company: CompanyData | null; role: CompanyRole | null }> => {
+    const response = await apiService.getCompanyStatus()
 
-      if (response.ok) {
-        const data = await response.json()
-        console.log('🔐 AuthContext: API response:', data)
-        return {
-          hasCompany: data.hasCompany,
-          company: data.company || null
-        }
-      } else {
-        console.log('🔐 AuthContext: API error:', response.status)
-        return { hasCompany: false, company: null }
+    if (response.success && response.data) {
+      console.log('🔐 AuthContext: API response:', response.data)
+      return {
+        hasCompany: response.data.hasCompany,
+        company: response.data.company || null,
+        role: response.data.role || null
       }
-    } catch (error) {
-      console.error('🔐 AuthContext: Network error:', error)
-      return { hasCompany: false, company: null }
     }
+
+    console.log('🔐 AuthContext: API error:', response.error)
+    return { hasCompany: false, company: null, role: null }
   }
 
-  const refreshStatus = async () => {
+  const checkEmployeeStatus = async (walletAddress: string): Promise<boolean> => {
+    const response = await apiService.getEmployeeProfile(walletAddress)
+    return response.success
+  }
+
+  const refreshStatus = useCallback(async () => {
     if (!isConnected || !address) {
-      setAuthState({ hasCompany: false, company: null, loading: false, error: null })
+      setSessionExpiry(null)
+      setAuthState(prev => ({ ...prev, ...SIGNED_OUT, error: null }))
+      return
+    }
+
+    // The chain is reported separately; wait for it rather than drop a valid session
+    if (!chainId) return
+
+    // A session for another account or chain must not be reused
+    if (!isSessionFor(address, chainId)) {
+      if (apiService.getCurrentUser()) {
+        console.log('🔐 AuthContext: Wallet or chain changed, ending previous session')
+        await apiService.logout()
+      }
+      setSessionExpiry(null)
+      setAuthState(prev => ({ ...prev, ...SIGNED_OUT }))
       return
     }
 
     setAuthState(prev => ({ ...prev, loading: true, error: null }))
 
     try {
-      const { hasCompany, company } = await checkCompanyStatus(address)
-      setAuthState({ hasCompany, company, loading: false, error: null })
+      const { hasCompany, company, role } = await checkCompanyStatus()
+      const isEmployee = hasCompany ? false : await checkEmployeeStatus(address)
+      setSessionExpiry(apiService.getCurrentUser()?.exp || null)
+      setAuthState(prev => ({ ...prev, isAuthenticated: true, hasCompany, company, role, isEmployee, loading: false, error: null }))
     } catch (error) {
-      setAuthState({ hasCompany: false, company: null, loading: false, error: 'Failed to check status' })
+      setAuthState(prev => ({ ...prev, ...SIGNED_OUT, error: 'Failed to check status' }))
     }
-  }
+  }, [isConnected, address, chainId])
+
+  /**
+   * Sign a Sign-In with Ethereum message and exchange it for a session
+   */
+  const signIn = useCallback(async (): Promise<boolean> => {
+    if (!address || !chainId) return false
+
+    setAuthState(prev => ({ ...prev, signingIn: true, error: null }))
+
+    try {
+      const nonceResponse = await apiService.getSiweNonce(address)
+      if (!nonceResponse.success || !nonceResponse.data) {
+        throw new Error(nonceResponse.error || 'Failed to start sign-in')
+      }
+
+      const message = createSiweMessage({
+        domain: window.location.host,
+        address,
+        statement: SIWE_STATEMENT,
+        uri: window.location.origin,
+        chainId,
+        nonce: nonceResponse.data.nonce,
+      })
+      const signature = await signMessageAsync({ message })
 
-  // Check status when wallet connection changes
+      const session = await apiService.verifySiweMessage(message, signature)
+      if (!session.success) {
+        throw new Error(session.error || 'Sign-in failed')
+      }
+
+      setAuthState(prev => ({ ...prev, signingIn: false }))
+      await refreshStatus()
+      return true
+    } catch (error: any) {
+      console.error('🔐 AuthContext: Sign-in failed:', error)
+      setAuthState(prev => ({ ...prev, signingIn: false, error: error.shortMessage || error.message || 'Sign-in failed' }))
+      return false
+    }
+  }, [address, chainId, signMessageAsync, refreshStatus])
+
+  const hasRole = useCallback((...roles: CompanyRole[]) => {
+    return authState.role === 'owner' || (!!authState.role && roles.includes(authState.role))
+  }, [authState.role])
+
+  const signOut = useCallback(async () => {
+    await apiService.logout()
+    setSessionExpiry(null)
+    setAuthState(prev => ({ ...prev, ...SIGNED_OUT, error: null }))
+  }, [])
+
+  // Check status when the wallet, its account or its chain changes
   useEffect(() => {
     if (!isConnecting) {
       refreshStatus()
     }
-  }, [isConnected, address, isConnecting])
+  }, [isConnecting, refreshStatus])
+
+  // The backend rejected the token (revoked or expired)
+  useEffect(() => {
+    return apiService.onSessionExpired(() => {
+      setSessionExpiry(null)
+      setAuthState(prev => ({ ...prev, ...SIGNED_OUT, error: 'Your session has ended. Please sign in again.' }))
+    })
+  }, [])
+
+  // Keep an active session alive while the app is open
+  useEffect(() => {
+    if (!sessionExpiry) return
+
+    const delay = Math.max(sessionExpiry * 1000 - Date.now() - REFRESH_MARGIN_MS, 0)
+    const timer = setTimeout(async () => {
+      const response = await apiService.refreshToken()
+      if (response.success) {
+        setSessionExpiry(apiService.getCurrentUser()?.exp || null)
+      } else {
+        setSessionExpiry(null)
+        setAuthState(prev => ({ ...prev, ...SIGNED_OUT, error: 'Your session has ended. Please sign in again.' }))
+      }
+    }, delay)
+
+    return () => clearTimeout(timer)
+  }, [sessionExpiry])
 
   const contextValue: AuthContextType = {
     isConnected,
     address,
+    isAuthenticated: authState.isAuthenticated,
+    signingIn: authState.signingIn,
     hasCompany: authState.hasCompany,
     company: authState.company,
+    role: authState.role,
+    isEmployee: authState.isEmployee,
     loading: authState.loading || isConnecting,
     error: authState.error,
-    refreshStatus
+    hasRole,
+    refreshStatus,
+    signIn,
+    signOut
   }
 
   return <AuthContext.Provider value={contextValue}>{children}</AuthContext.Provider>
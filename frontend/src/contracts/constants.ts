@@ -91,6 +91,17 @@ export const CONTRACT_ADDRESSES = {
   },
 } as const
 
+// Block each PayrollManager was deployed in; event scans start here instead of at genesis
+export const CONTRACT_DEPLOYMENT_BLOCKS = {
+  [NETWORKS.MAINNET.chainId]: Number(process.env.REACT_APP_PAYROLL_MANAGER_MAINNET_BLOCK) || 0,
+  [NETWORKS.SEPOLIA.chainId]: Number(process.env.REACT_APP_PAYROLL_MANAGER_SEPOLIA_BLOCK) || 0,
+  [NETWORKS.GOERLI.chainId]: Number(process.env.REACT_APP_PAYROLL_MANAGER_GOERLI_BLOCK) || 0,
+  31337: 0,
+} as const
+
+// Blocks requested per eth_getLogs call when scanning contract history
+export const EVENT_SCAN_PAGE_BLOCKS = 5000
+
 // Payment frequency enum values
 export const PAYMENT_FREQUENCIES = {
   WEEKLY: 0,
@@ -151,6 +162,8 @@ export const API_ENDPOINTS = {
   ENS: '/ens',
   ANALYTICS: '/analytics',
   AUTH: '/auth',
+  INVITES: '/invites',
+  NOTIFICATIONS: '/notifications',
 } as const
 
 // Error messages
@@ -163,10 +176,90 @@ export const ERROR_MESSAGES = {
   EMPLOYEE_NOT_FOUND: 'Employee not found',
   UNAUTHORIZED: 'You are not authorized to perform this action',
   NETWORK_ERROR: 'Network error. Please check your connection',
+  TRANSACTION_REJECTED: 'Transaction was rejected in the wallet',
+  TRANSACTION_CANCELLED: 'Transaction was cancelled by a replacement transaction',
+  TRANSACTION_NOT_REPLACEABLE: 'Only a pending transaction can be sped up or cancelled',
   INVALID_ADDRESS: 'Invalid wallet address',
   ENS_DOMAIN_TAKEN: 'ENS domain is already taken',
+  // PayrollManager reverts
+  INVALID_ENS_REGISTRY: 'The ENS registry address is invalid',
+  INVALID_RESOLVER: 'The ENS resolver address is invalid',
+  INVALID_EMPLOYEE_ADDRESS: 'The employee wallet address is invalid',
+  INVALID_SALARY: 'Salary must be greater than 0',
+  TOKEN_NOT_AUTHORIZED: 'This token is not enabled for payroll',
+  EMPLOYEE_ALREADY_EXISTS: 'This wallet is already registered as an active employee',
+  EMPTY_SUBDOMAIN: 'An ENS subdomain is required',
+  NO_EMPLOYEES_SPECIFIED: 'No employees were selected',
+  EMPLOYEE_NOT_ACTIVE: 'This employee is not active',
+  NO_PAYMENT_DUE: 'No payment is due for this employee yet',
+  INSUFFICIENT_ETH_BALANCE: 'The payroll contract does not hold enough ETH',
+  INSUFFICIENT_TOKEN_BALANCE: 'The payroll contract does not hold enough of this token',
+  INVALID_RECIPIENT: 'The recipient address is invalid',
+  INVALID_AMOUNT: 'Amount must be greater than 0',
+  BONUS_ALREADY_DISTRIBUTED: 'This bonus has already been distributed',
+  USE_ETH_TRANSFER: 'ETH deposits must be sent as a plain transfer',
+  INSUFFICIENT_PAYMENT: 'No ETH was sent to pay for the ENS registration',
+  DOMAIN_OWNER_MISMATCH: 'Domains can only be registered for the connected wallet',
+  EMPTY_DOMAIN_NAME: 'A domain name is required',
+  CONTRACT_PAUSED: 'The payroll contract is paused',
+  CONTRACT_NOT_PAUSED: 'The payroll contract is not paused',
+  REENTRANT_CALL: 'Another contract call is already in progress',
+  TOKEN_TRANSFER_FAILED: 'The token transfer failed',
+  UNKNOWN_ROLE: 'This role cannot be granted on the payroll contract',
+  INVALID_NEW_WALLET: 'The new wallet must be a different, valid address',
+  WALLET_IN_USE: 'This wallet already belongs to an employee',
+  NO_PENDING_WALLET_CHANGE: 'There is no pending wallet change for this employee',
+  WALLET_CHANGE_LOCKED: 'The wallet change cooldown has not expired yet',
+  WALLET_CHANGE_DELAY_TOO_SHORT: 'The wallet change cooldown must be at least one hour',
+  EMPLOYEE_STILL_ACTIVE: 'This employee is still active on the payroll contract',
+  NO_ENS_SUBDOMAIN: 'This employee has no ENS subdomain to hand over',
+  AMOUNT_EXCEEDS_ACCRUED: 'The amount is more than the employee has accrued',
+  ONE_TIME_NOT_SPLITTABLE: 'One-time payments cannot be paid in part',
 } as const
 
+export type ErrorCode = keyof typeof ERROR_MESSAGES
+
+// Contract revert messages (require/OpenZeppelin) -> error code and suggested fix
+export const CONTRACT_REVERT_REASONS: Record<string, { code: ErrorCode; suggestion: string }> = {
+  'Invalid ENS registry': { code: 'INVALID_ENS_REGISTRY', suggestion: 'Redeploy the contract with the ENS registry for this network.' },
+  'Invalid resolver': { code: 'INVALID_RESOLVER', suggestion: 'Redeploy the contract with the public resolver for this network.' },
+  'Invalid employee address': { code: 'INVALID_EMPLOYEE_ADDRESS', suggestion: 'Check the employee wallet address and try again.' },
+  'Salary must be greater than 0': { code: 'INVALID_SALARY', suggestion: 'Enter a salary above zero.' },
+  'Token not authorized': { code: 'TOKEN_NOT_AUTHORIZED', suggestion: 'Enable the token in Settings before using it.' },
+  'Employee already exists': { code: 'EMPLOYEE_ALREADY_EXISTS', suggestion: 'Edit the existing employee instead of adding them again.' },
+  'Subdomain cannot be empty': { code: 'EMPTY_SUBDOMAIN', suggestion: 'Enter an ENS subdomain for the employee.' },
+  'Employee not found': { code: 'EMPLOYEE_NOT_FOUND', suggestion: 'Refresh the employee list; they may have been removed on-chain.' },
+  'No employees specified': { code: 'NO_EMPLOYEES_SPECIFIED', suggestion: 'Select at least one employee.' },
+  'Employee not active': { code: 'EMPLOYEE_NOT_ACTIVE', suggestion: 'Remove this employee from the batch or re-add them on-chain.' },
+  'No payment due': { code: 'NO_PAYMENT_DUE', suggestion: 'Wait for the next pay date or remove the employee from the batch.' },
+  'Insufficient ETH balance': { code: 'INSUFFICIENT_ETH_BALANCE', suggestion: 'Fund the contract with ETH and try again.' },
+  'Insufficient token balance': { code: 'INSUFFICIENT_TOKEN_BALANCE', suggestion: 'Fund the contract with the token and try again.' },
+  'Invalid recipient': { code: 'INVALID_RECIPIENT', suggestion: 'Check the recipient address and try again.' },
+  'Amount must be greater than 0': { code: 'INVALID_AMOUNT', suggestion: 'Enter an amount above zero.' },
+  'Bonus already distributed': { code: 'BONUS_ALREADY_DISTRIBUTED', suggestion: 'Refresh the bonus list; nothing else is needed.' },
+  'Use ETH transfer for ETH': { code: 'USE_ETH_TRANSFER', suggestion: 'Send ETH straight to the contract address instead.' },
+  'Insufficient payment': { code: 'INSUFFICIENT_PAYMENT', suggestion: 'Include the registration fee with the transaction.' },
+  'Can only register domains for yourself': { code: 'DOMAIN_OWNER_MISMATCH', suggestion: 'Register the domain from the wallet that will own it.' },
+  'Domain name cannot be empty': { code: 'EMPTY_DOMAIN_NAME', suggestion: 'Enter a domain name.' },
+  'Ownable: caller is not the owner': { code: 'UNAUTHORIZED', suggestion: 'Switch to the wallet that owns the payroll contract.' },
+  'Not authorized': { code: 'UNAUTHORIZED', suggestion: 'Ask the company owner to grant your wallet the HR or finance role.' },
+  'Unknown role': { code: 'UNKNOWN_ROLE', suggestion: 'Only the HR and finance roles exist on-chain.' },
+  'Invalid new wallet': { code: 'INVALID_NEW_WALLET', suggestion: 'Enter a wallet other than the current one.' },
+  'Wallet already in use': { code: 'WALLET_IN_USE', suggestion: 'Use a wallet that has never been registered as an employee.' },
+  'No pending wallet change': { code: 'NO_PENDING_WALLET_CHANGE', suggestion: 'Refresh; the change may already have been applied or cancelled.' },
+  'Wallet change still time-locked': { code: 'WALLET_CHANGE_LOCKED', suggestion: 'Wait until the cooldown ends, then apply the change.' },
+  'Employee still active': { code: 'EMPLOYEE_STILL_ACTIVE', suggestion: 'Deactivate the employee on-chain before handing over their ENS subdomain.' },
+  'No ENS subdomain': { code: 'NO_ENS_SUBDOMAIN', suggestion: 'Skip the ENS step; the subdomain was already reassigned or revoked.' },
+  'Amount exceeds accrued pay': { code: 'AMOUNT_EXCEEDS_ACCRUED', suggestion: 'Pay at most the pro-rated amount shown for this employee.' },
+  'One-time payments cannot be split': { code: 'ONE_TIME_NOT_SPLITTABLE', suggestion: 'Pay the full amount with a regular payment instead.' },
+  'Delay too short': { code: 'WALLET_CHANGE_DELAY_TOO_SHORT', suggestion: 'Choose a cooldown of at least one hour.' },
+  'Invalid account': { code: 'INVALID_ADDRESS', suggestion: 'Check the member wallet address and try again.' },
+  'Pausable: paused': { code: 'CONTRACT_PAUSED', suggestion: 'Unpause the contract in Settings and try again.' },
+  'Pausable: not paused': { code: 'CONTRACT_NOT_PAUSED', suggestion: 'No action is needed; the contract is already running.' },
+  'ReentrancyGuard: reentrant call': { code: 'REENTRANT_CALL', suggestion: 'Wait for the pending transaction to finish and try again.' },
+  'SafeERC20: ERC20 operation did not succeed': { code: 'TOKEN_TRANSFER_FAILED', suggestion: 'Check the token allowance and balance, then try again.' },
+}
+
 // Success messages
 export const SUCCESS_MESSAGES = {
   EMPLOYEE_ADDED: 'Employee added successfully',
@@ -197,6 +290,52 @@ export const DEFAULTS = {
   REFRESH_INTERVAL: 30000, // 30 seconds
 } as const
 
+// Transaction fee speeds (priority fee percentile from recent blocks)
+export const GAS_FEE_SPEEDS = {
+  low: { label: 'Low', rewardPercentile: 10, fallbackMultiplier: 80 },
+  medium: { label: 'Medium', rewardPercentile: 50, fallbackMultiplier: 100 },
+  high: { label: 'High', rewardPercentile: 90, fallbackMultiplier: 150 },
+} as const
+
+export const GAS_FEE_HISTORY_BLOCKS = 10
+
+// Batch payroll chunking
+export const PAYROLL_BATCH = {
+  MAX_CHUNK_GAS: 8000000, // hard cap per processPayroll transaction
+  BLOCK_GAS_SHARE: 50, // never use more than this % of the block gas limit
+  GAS_BUFFER: 120, // gas limit sent = estimate * 120%
+  SAMPLE_SIZE: 10, // employees, spread across the batch, used to measure per-employee gas
+  SAFETY_MARGIN: 15, // % of the budget left free when sizing chunks from the sampled average
+} as const
+
+// Bulk import: employees registered per addEmployeesBatch transaction.
+// Each one creates an ENS subdomain and stores several strings, so batches stay small
+export const ONBOARDING_BATCH = {
+  MAX_EMPLOYEES: 15,
+} as const
+
+// Company roles that also exist on the PayrollManager contract (AccessControl role names)
+export const CONTRACT_ROLES = {
+  hr: 'HR_ROLE',
+  finance: 'FINANCE_ROLE',
+} as const
+
+export type ContractRole = keyof typeof CONTRACT_ROLES
+
+// Confirmations before a transaction is treated as final
+export const TRANSACTION_CONFIRMATIONS = {
+  [NETWORKS.MAINNET.chainId]: 3,
+  [NETWORKS.SEPOLIA.chainId]: 2,
+  [NETWORKS.GOERLI.chainId]: 2,
+  [NETWORKS.LOCALHOST.chainId]: 1, // Hardhat only mines when a transaction arrives
+} as const
+
+// Speed-up and cancel replacement transactions
+export const TRANSACTION_REPLACEMENT = {
+  FEE_BUMP: 125, // replacement fees = original * 125% (nodes require at least +10%)
+  CANCEL_GAS_LIMIT: 21000,
+} as const
+
 // Validation rules
 export const VALIDATION = {
   MIN_SALARY: 0.001, // 0.001 ETH minimum
@@ -8,10 +8,29 @@ import { useAccount } from 'wagmi'
 import { 
   apiService, 
   EmployeeData, 
+  EmployeeProfile,
+  EmployeeInvite,
+  AccountNotification,
+  CreateInviteRequest,
+  ImportInvitesResult,
+  CreateEmployeeRequest,
+  UpdateEmployeeRequest,
+  TerminateEmployeeRequest,
+  RequestWalletChangeRequest,
+  HrWalletChangeRequest,
+  OnboardedEmployee,
+  RecordOnboardedEmployeesResult,
   PaymentRecord, 
   BonusRecord, 
-  AnalyticsData
+  AnalyticsData,
+  PayrollRun,
+  PayrollRunStatus,
+  PayrollRunChunk,
+  RecordPaymentsRequest,
+  RecordPaymentsResult,
+  RecordBonusEventsResult
 } from '../services/apiService'
+import { BonusEvents } from '../services/blockchainService'
 
 export interface UseEmployeesReturn {
   employees: EmployeeData[]
@@ -19,9 +38,13 @@ export interface UseEmployeesReturn {
   activeEmployees: number
   loading: boolean
   error: string | null
-  createEmployee: (data: Partial<EmployeeData>) => Promise<boolean>
-  updateEmployee: (id: string, data: Partial<EmployeeData>) => Promise<boolean>
-  deleteEmployee: (id: string) => Promise<boolean>
+  createEmployee: (data: CreateEmployeeRequest) => Promise<boolean>
+  updateEmployee: (id: string, data: UpdateEmployeeRequest) => Promise<boolean>
+  terminateEmployee: (id: string, request: TerminateEmployeeRequest) => Promise<boolean>
+  recordOnboardedEmployees: (employees: OnboardedEmployee[]) => Promise<RecordOnboardedEmployeesResult | null>
+  recordWalletChangeRequest: (id: string, data: HrWalletChangeRequest) => Promise<boolean>
+  recordWalletChangeCancelled: (id: string) => Promise<boolean>
+  recordWalletChangeApplied: (id: string, transactionHash?: string) => Promise<boolean>
   activateEmployee: (id: string) => Promise<boolean>
   deactivateEmployee: (id: string) => Promise<boolean>
   refreshEmployees: () => Promise<void>
@@ -32,8 +55,7 @@ export interface UsePaymentsReturn {
   pendingPayments: PaymentRecord[]
   loading: boolean
   error: string | null
-  processPayroll: (employeeIds: string[]) => Promise<boolean>
-  processIndividualPayment: (employeeId: string) => Promise<boolean>
+  recordPayments: (data: RecordPaymentsRequest) => Promise<RecordPaymentsResult | null>
   refreshPayments: () => Promise<void>
 }
 
@@ -41,12 +63,30 @@ export interface UseBonusesReturn {
   bonuses: BonusRecord[]
   loading: boolean
   error: string | null
-  createBonus: (data: any) => Promise<boolean>
-  distributeBonus: (bonusId: string) => Promise<boolean>
-  bulkDistributeBonuses: (bonusIds: string[]) => Promise<boolean>
+  recordBonusEvents: (events: BonusEvents, poolId?: string) => Promise<RecordBonusEventsResult | null>
   refreshBonuses: () => Promise<void>
 }
 
+export interface UsePayrollRunsReturn {
+  runs: PayrollRun[]
+  loading: boolean
+  error: string | null
+  createRun: (data: Parameters<typeof apiService.createPayrollRun>[0]) => Promise<PayrollRun | null>
+  submitRun: (id: string, note?: string) => Promise<PayrollRun | null>
+  approveRun: (id: string, comment?: string) => Promise<PayrollRun | null>
+  rejectRun: (id: string, reason: string) => Promise<PayrollRun | null>
+  executeRun: (id: string) => Promise<PayrollRun | null>
+  planChunks: (id: string, chunks: string[][]) => Promise<PayrollRun | null>
+  updateChunk: (id: string, index: number, data: {
+    status: PayrollRunChunk['status']
+    transactionHash?: string
+    error?: string
+  }) => Promise<PayrollRun | null>
+  settleRun: (id: string, transactionHash: string) => Promise<PayrollRun | null>
+  failRun: (id: string, reason: string) => Promise<PayrollRun | null>
+  refreshRuns: () => Promise<void>
+}
+
 export interface UseAnalyticsReturn {
   analytics: AnalyticsData | null
   loading: boolean
@@ -54,6 +94,36 @@ export interface UseAnalyticsReturn {
   refreshAnalytics: () => Promise<void>
 }
 
+export interface UseEmployeePortalReturn {
+  profile: EmployeeProfile | null
+  payments: PaymentRecord[]
+  loading: boolean
+  error: string | null
+  recordWalletChangeRequest: (data: RequestWalletChangeRequest) => Promise<boolean>
+  recordWalletChangeCancelled: () => Promise<boolean>
+  recordWalletChangeApplied: (transactionHash?: string) => Promise<boolean>
+  refreshPortal: () => Promise<void>
+}
+
+export interface UseEmployeeInvitesReturn {
+  invites: EmployeeInvite[]
+  loading: boolean
+  error: string | null
+  createInvite: (data: CreateInviteRequest) => Promise<EmployeeInvite | null>
+  createInvites: (data: CreateInviteRequest[]) => Promise<ImportInvitesResult | null>
+  revokeInvite: (id: string) => Promise<boolean>
+  refreshInvites: () => Promise<void>
+}
+
+export interface UseAccountNotificationsReturn {
+  notifications: AccountNotification[]
+  unreadCount: number
+  loading: boolean
+  error: string | null
+  markRead: (id: string) => Promise<boolean>
+  refreshNotifications: () => Promise<void>
+}
+
 /**
  * Hook for employee management
  */
@@ -70,13 +140,6 @@ export const useEmployees = (params?: {
   const [loading, setLoading] = useState(false)
   const [error, setError] = useState<string | null>(null)
 
-  // Set wallet address in API service when address changes
-  useEffect(() => {
-    if (address) {
-      apiService.setWalletAddress(address)
-    }
-  }, [address])
-
   const loadEmployees = useCallback(async () => {
     if (!address) {
       console.log('🔐 useEmployees: No wallet address available, skipping load')
@@ -120,7 +183,7 @@ export const useEmployees = (params?: {
     }
   }, [params, address])
 
-  const createEmployee = useCallback(async (data: Partial<EmployeeData>): Promise<boolean> => {
+  const createEmployee = useCallback(async (data: CreateEmployeeRequest): Promise<boolean> => {
     try {
       const response = await apiService.createEmployee(data)
       
@@ -137,7 +200,7 @@ export const useEmployees = (params?: {
     }
   }, [loadEmployees])
 
-  const updateEmployee = useCallback(async (id: string, data: Partial<EmployeeData>): Promise<boolean> => {
+  const updateEmployee = useCallback(async (id: string, data: UpdateEmployeeRequest): Promise<boolean> => {
     try {
       const response = await apiService.updateEmployee(id, data)
       
@@ -154,19 +217,89 @@ export const useEmployees = (params?: {
     }
   }, [loadEmployees])
 
-  const deleteEmployee = useCallback(async (id: string): Promise<boolean> => {
+  const terminateEmployee = useCallback(async (id: string, request: TerminateEmployeeRequest): Promise<boolean> => {
     try {
-      const response = await apiService.deleteEmployee(id)
+      const response = await apiService.terminateEmployee(id, request)
       
       if (response.success) {
         await loadEmployees() // Refresh the list
         return true
       } else {
-        setError(response.error || 'Failed to delete employee')
+        setError(response.error || 'Failed to terminate employee')
+        return false
+      }
+    } catch (err: any) {
+      setError(err.message || 'Failed to terminate employee')
+      return false
+    }
+  }, [loadEmployees])
+
+  const recordOnboardedEmployees = useCallback(async (
+    onboarded: OnboardedEmployee[]
+  ): Promise<RecordOnboardedEmployeesResult | null> => {
+    try {
+      const response = await apiService.recordOnboardedEmployees(onboarded)
+      
+      if (response.success && response.data) {
+        await loadEmployees() // Refresh the list
+        return response.data
+      } else {
+        setError(response.error || 'Failed to record onboarded employees')
+        return null
+      }
+    } catch (err: any) {
+      setError(err.message || 'Failed to record onboarded employees')
+      return null
+    }
+  }, [loadEmployees])
+
+  const recordWalletChangeRequest = useCallback(async (id: string, data: HrWalletChangeRequest): Promise<boolean> => {
+    try {
+      const response = await apiService.requestEmployeeWalletChange(id, data)
+
+      if (response.success) {
+        await loadEmployees() // Refresh the list
+        return true
+      } else {
+        setError(response.error || 'Failed to record wallet change')
+        return false
+      }
+    } catch (err: any) {
+      setError(err.message || 'Failed to record wallet change')
+      return false
+    }
+  }, [loadEmployees])
+
+  const recordWalletChangeCancelled = useCallback(async (id: string): Promise<boolean> => {
+    try {
+      const response = await apiService.cancelEmployeeWalletChange(id)
+
+      if (response.success) {
+        await loadEmployees() // Refresh the list
+        return true
+      } else {
+        setError(response.error || 'Failed to cancel wallet change')
+        return false
+      }
+    } catch (err: any) {
+      setError(err.message || 'Failed to cancel wallet change')
+      return false
+    }
+  }, [loadEmployees])
+
+  const recordWalletChangeApplied = useCallback(async (id: string, transactionHash?: string): Promise<boolean> => {
+    try {
+      const response = await apiService.applyEmployeeWalletChange(id, transactionHash)
+
+      if (response.success) {
+        await loadEmployees() // Refresh the list
+        return true
+      } else {
+        setError(response.error || 'Failed to record wallet change')
         return false
       }
     } catch (err: any) {
-      setError(err.message || 'Failed to delete employee')
+      setError(err.message || 'Failed to record wallet change')
       return false
     }
   }, [loadEmployees])
@@ -224,7 +357,11 @@ export const useEmployees = (params?: {
     error,
     createEmployee,
     updateEmployee,
-    deleteEmployee,
+    terminateEmployee,
+    recordOnboardedEmployees,
+    recordWalletChangeRequest,
+    recordWalletChangeCancelled,
+    recordWalletChangeApplied,
     activateEmployee,
     deactivateEmployee,
     refreshEmployees,
@@ -241,19 +378,11 @@ export const usePayments = (params?: {
   startDate?: string
   endDate?: string
 }): UsePaymentsReturn => {
-  const { address } = useAccount()
   const [payments, setPayments] = useState<PaymentRecord[]>([])
   const [pendingPayments, setPendingPayments] = useState<PaymentRecord[]>([])
   const [loading, setLoading] = useState(false)
   const [error, setError] = useState<string | null>(null)
 
-  // Set wallet address in API service when address changes
-  useEffect(() => {
-    if (address) {
-      apiService.setWalletAddress(address)
-    }
-  }, [address])
-
   const loadPayments = useCallback(async () => {
     setLoading(true)
     setError(null)
@@ -280,37 +409,20 @@ export const usePayments = (params?: {
     }
   }, [params])
 
-  const processPayroll = useCallback(async (employeeIds: string[]): Promise<boolean> => {
+  const recordPayments = useCallback(async (data: RecordPaymentsRequest): Promise<RecordPaymentsResult | null> => {
     try {
-      const response = await apiService.processPayroll(employeeIds)
+      const response = await apiService.recordPayments(data)
       
-      if (response.success) {
-        await loadPayments() // Refresh the list
-        return true
-      } else {
-        setError(response.error || 'Failed to process payroll')
-        return false
-      }
-    } catch (err: any) {
-      setError(err.message || 'Failed to process payroll')
-      return false
-    }
-  }, [loadPayments])
-
-  const processIndividualPayment = useCallback(async (employeeId: string): Promise<boolean> => {
-    try {
-      const response = await apiService.processIndividualPayment(employeeId)
-      
-      if (response.success) {
+      if (response.success && response.data) {
         await loadPayments() // Refresh the list
-        return true
+        return response.data
       } else {
-        setError(response.error || 'Failed to process individual payment')
-        return false
+        setError(response.error || 'Failed to record payments')
+        return null
       }
     } catch (err: any) {
-      setError(err.message || 'Failed to process individual payment')
-      return false
+      setError(err.message || 'Failed to record payments')
+      return null
     }
   }, [loadPayments])
 
@@ -328,8 +440,7 @@ export const usePayments = (params?: {
     pendingPayments,
     loading,
     error,
-    processPayroll,
-    processIndividualPayment,
+    recordPayments,
     refreshPayments,
   }
 }
@@ -343,18 +454,10 @@ export const useBonuses = (params?: {
   page?: number
   limit?: number
 }): UseBonusesReturn => {
-  const { address } = useAccount()
   const [bonuses, setBonuses] = useState<BonusRecord[]>([])
   const [loading, setLoading] = useState(false)
   const [error, setError] = useState<string | null>(null)
 
-  // Set wallet address in API service when address changes
-  useEffect(() => {
-    if (address) {
-      apiService.setWalletAddress(address)
-    }
-  }, [address])
-
   const loadBonuses = useCallback(async () => {
     setLoading(true)
     setError(null)
@@ -374,74 +477,153 @@ export const useBonuses = (params?: {
     }
   }, [params])
 
-  const createBonus = useCallback(async (data: any): Promise<boolean> => {
+  const recordBonusEvents = useCallback(async (events: BonusEvents, poolId?: string): Promise<RecordBonusEventsResult | null> => {
     try {
-      const response = await apiService.createBonus(data)
+      const response = await apiService.recordBonusEvents(events, poolId)
       
-      if (response.success) {
+      if (response.success && response.data) {
         await loadBonuses() // Refresh the list
-        return true
+        return response.data
       } else {
-        setError(response.error || 'Failed to create bonus')
-        return false
+        setError(response.error || 'Failed to record bonuses')
+        return null
       }
     } catch (err: any) {
-      setError(err.message || 'Failed to create bonus')
-      return false
+      setError(err.message || 'Failed to record bonuses')
+      return null
     }
   }, [loadBonuses])
 
-  const distributeBonus = useCallback(async (bonusId: string): Promise<boolean> => {
+  const refreshBonuses = useCallback(async () => {
+    await loadBonuses()
+  }, [loadBonuses])
+
+  // Load bonuses on mount and when params change
+  useEffect(() => {
+    loadBonuses()
+  }, [loadBonuses])
+
+  return {
+    bonuses,
+    loading,
+    error,
+    recordBonusEvents,
+    refreshBonuses,
+  }
+}
+
+/**
+ * Hook for payroll runs and their approval workflow
+ */
+export const usePayrollRuns = (status?: PayrollRunStatus[]): UsePayrollRunsReturn => {
+  const { address } = useAccount()
+  const [runs, setRuns] = useState<PayrollRun[]>([])
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const statusKey = status?.join(',')
+
+  const loadRuns = useCallback(async () => {
+    if (!address) return
+
+    setLoading(true)
+    setError(null)
+
     try {
-      const response = await apiService.distributeBonus(bonusId)
-      
-      if (response.success) {
-        await loadBonuses() // Refresh the list
-        return true
+      const response = await apiService.getPayrollRuns(statusKey ? statusKey.split(',') as PayrollRunStatus[] : undefined)
+
+      if (response.success && response.data) {
+        setRuns(response.data)
       } else {
-        setError(response.error || 'Failed to distribute bonus')
-        return false
+        setError(response.error || 'Failed to load payroll runs')
       }
     } catch (err: any) {
-      setError(err.message || 'Failed to distribute bonus')
-      return false
+      setError(err.message || 'Failed to load payroll runs')
+    } finally {
+      setLoading(false)
     }
-  }, [loadBonuses])
+  }, [address, statusKey])
 
-  const bulkDistributeBonuses = useCallback(async (bonusIds: string[]): Promise<boolean> => {
+  // Run a workflow action and keep the local list in sync with the result
+  const runAction = useCallback(async (
+    action: () => Promise<{ success: boolean, data?: PayrollRun, error?: string }>,
+    fallbackError: string
+  ): Promise<PayrollRun | null> => {
     try {
-      const response = await apiService.bulkBonusDistribution(bonusIds)
-      
-      if (response.success) {
-        await loadBonuses() // Refresh the list
-        return true
+      const response = await action()
+
+      if (response.success && response.data) {
+        const updated = response.data
+        setRuns(prev => {
+          const exists = prev.some(run => run._id === updated._id)
+          return exists
+            ? prev.map(run => run._id === updated._id ? updated : run)
+            : [updated, ...prev]
+        })
+        return updated
       } else {
-        setError(response.error || 'Failed to distribute bonuses')
-        return false
+        setError(response.error || fallbackError)
+        return null
       }
     } catch (err: any) {
-      setError(err.message || 'Failed to distribute bonuses')
-      return false
+      setError(err.message || fallbackError)
+      return null
     }
-  }, [loadBonuses])
+  }, [])
 
-  const refreshBonuses = useCallback(async () => {
-    await loadBonuses()
-  }, [loadBonuses])
+  const createRun = useCallback((data: Parameters<typeof apiService.createPayrollRun>[0]) =>
+    runAction(() => apiService.createPayrollRun(data), 'Failed to create payroll run'), [runAction])
 
-  // Load bonuses on mount and when params change
+  const submitRun = useCallback((id: string, note?: string) =>
+    runAction(() => apiService.submitPayrollRun(id, note), 'Failed to submit payroll run'), [runAction])
+
+  const approveRun = useCallback((id: string, comment?: string) =>
+    runAction(() => apiService.approvePayrollRun(id, comment), 'Failed to approve payroll run'), [runAction])
+
+  const rejectRun = useCallback((id: string, reason: string) =>
+    runAction(() => apiService.rejectPayrollRun(id, reason), 'Failed to reject payroll run'), [runAction])
+
+  const executeRun = useCallback((id: string) =>
+    runAction(() => apiService.executePayrollRun(id), 'Failed to start payroll run'), [runAction])
+
+  const planChunks = useCallback((id: string, chunks: string[][]) =>
+    runAction(() => apiService.setPayrollRunChunks(id, chunks), 'Failed to save payroll chunks'), [runAction])
+
+  const updateChunk = useCallback((id: string, index: number, data: {
+    status: PayrollRunChunk['status']
+    transactionHash?: string
+    error?: string
+  }) =>
+    runAction(() => apiService.updatePayrollRunChunk(id, index, data), 'Failed to save chunk progress'), [runAction])
+
+  const settleRun = useCallback((id: string, transactionHash: string) =>
+    runAction(() => apiService.settlePayrollRun(id, transactionHash), 'Failed to settle payroll run'), [runAction])
+
+  const failRun = useCallback((id: string, reason: string) =>
+    runAction(() => apiService.failPayrollRun(id, reason), 'Failed to update payroll run'), [runAction])
+
+  const refreshRuns = useCallback(async () => {
+    await loadRuns()
+  }, [loadRuns])
+
+  // Load runs on mount and when the filter changes
   useEffect(() => {
-    loadBonuses()
-  }, [loadBonuses])
+    loadRuns()
+  }, [loadRuns])
 
   return {
-    bonuses,
+    runs,
     loading,
     error,
-    createBonus,
-    distributeBonus,
-    bulkDistributeBonuses,
-    refreshBonuses,
+    createRun,
+    submitRun,
+    approveRun,
+    rejectRun,
+    executeRun,
+    planChunks,
+    updateChunk,
+    settleRun,
+    failRun,
+    refreshRuns,
   }
 }
 
@@ -454,13 +636,6 @@ export const useAnalytics = (): UseAnalyticsReturn => {
   const [loading, setLoading] = useState(false)
   const [error, setError] = useState<string | null>(null)
 
-  // Set wallet address in API service when address changes
-  useEffect(() => {
-    if (address) {
-      apiService.setWalletAddress(address)
-    }
-  }, [address])
-
   const loadAnalytics = useCallback(async () => {
     if (!address) {
       console.log('🔐 useAnalytics: No wallet address available, skipping load')
@@ -505,6 +680,276 @@ export const useAnalytics = (): UseAnalyticsReturn => {
   }
 }
 
+/**
+ * Hook for the connected wallet's own employee record and payment history
+ */
+export const useEmployeePortal = (): UseEmployeePortalReturn => {
+  const { address } = useAccount()
+  const [profile, setProfile] = useState<EmployeeProfile | null>(null)
+  const [payments, setPayments] = useState<PaymentRecord[]>([])
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const loadPortal = useCallback(async () => {
+    if (!address) return
+
+    setLoading(true)
+    setError(null)
+
+    try {
+      const [profileResponse, paymentsResponse] = await Promise.all([
+        apiService.getEmployeeProfile(address),
+        apiService.getEmployeePayments(address, { limit: 50 }),
+      ])
+
+      if (profileResponse.success && profileResponse.data) {
+        setProfile(profileResponse.data)
+      } else {
+        setProfile(null)
+        setError(profileResponse.error || 'Failed to load employee record')
+      }
+
+      setPayments(paymentsResponse.success && paymentsResponse.data ? paymentsResponse.data.data : [])
+    } catch (err: any) {
+      setError(err.message || 'Failed to load employee record')
+    } finally {
+      setLoading(false)
+    }
+  }, [address])
+
+  const recordWalletChangeRequest = useCallback(async (data: RequestWalletChangeRequest): Promise<boolean> => {
+    if (!address) return false
+
+    const response = await apiService.requestOwnWalletChange(address, data)
+    if (!response.success) {
+      setError(response.error || 'Failed to record wallet change')
+      return false
+    }
+
+    await loadPortal()
+    return true
+  }, [address, loadPortal])
+
+  const recordWalletChangeCancelled = useCallback(async (): Promise<boolean> => {
+    if (!address) return false
+
+    const response = await apiService.cancelOwnWalletChange(address)
+    if (!response.success) {
+      setError(response.error || 'Failed to cancel wallet change')
+      return false
+    }
+
+    await loadPortal()
+    return true
+  }, [address, loadPortal])
+
+  // The record moves to the new wallet, so this wallet no longer has a portal
+  const recordWalletChangeApplied = useCallback(async (transactionHash?: string): Promise<boolean> => {
+    if (!address) return false
+
+    const response = await apiService.applyOwnWalletChange(address, transactionHash)
+    if (!response.success) {
+      setError(response.error || 'Failed to record wallet change')
+      return false
+    }
+
+    setProfile(null)
+    setPayments([])
+    return true
+  }, [address])
+
+  const refreshPortal = useCallback(async () => {
+    await loadPortal()
+  }, [loadPortal])
+
+  // Load when the connected wallet changes
+  useEffect(() => {
+    loadPortal()
+  }, [loadPortal])
+
+  return {
+    profile,
+    payments,
+    loading,
+    error,
+    recordWalletChangeRequest,
+    recordWalletChangeCancelled,
+    recordWalletChangeApplied,
+    refreshPortal,
+  }
+}
+
+/**
+ * Hook for the company's open employee invites (owner and HR only)
+ */
+export const useEmployeeInvites = (enabled: boolean = true): UseEmployeeInvitesReturn => {
+  const { address } = useAccount()
+  const [invites, setInvites] = useState<EmployeeInvite[]>([])
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const loadInvites = useCallback(async () => {
+    if (!address || !enabled) return
+
+    setLoading(true)
+    setError(null)
+
+    try {
+      const response = await apiService.getEmployeeInvites(['pending', 'accepted'])
+
+      if (response.success && response.data) {
+        setInvites(response.data)
+      } else {
+        setError(response.error || 'Failed to load invites')
+      }
+    } catch (err: any) {
+      setError(err.message || 'Failed to load invites')
+    } finally {
+      setLoading(false)
+    }
+  }, [address, enabled])
+
+  const createInvite = useCallback(async (data: CreateInviteRequest): Promise<EmployeeInvite | null> => {
+    try {
+      const response = await apiService.createEmployeeInvite(data)
+
+      if (response.success && response.data) {
+        const created = response.data
+        setInvites(prev => [created, ...prev])
+        return created
+      } else {
+        setError(response.error || 'Failed to create invite')
+        return null
+      }
+    } catch (err: any) {
+      setError(err.message || 'Failed to create invite')
+      return null
+    }
+  }, [])
+
+  const createInvites = useCallback(async (data: CreateInviteRequest[]): Promise<ImportInvitesResult | null> => {
+    try {
+      const response = await apiService.createEmployeeInvites(data)
+
+      if (response.success && response.data) {
+        const { created } = response.data
+        setInvites(prev => [...created, ...prev])
+        return response.data
+      } else {
+        setError(response.error || 'Failed to create invites')
+        return null
+      }
+    } catch (err: any) {
+      setError(err.message || 'Failed to create invites')
+      return null
+    }
+  }, [])
+
+  const revokeInvite = useCallback(async (id: string): Promise<boolean> => {
+    try {
+      const response = await apiService.revokeEmployeeInvite(id)
+
+      if (response.success) {
+        setInvites(prev => prev.filter(invite => invite._id !== id))
+        return true
+      } else {
+        setError(response.error || 'Failed to revoke invite')
+        return false
+      }
+    } catch (err: any) {
+      setError(err.message || 'Failed to revoke invite')
+      return false
+    }
+  }, [])
+
+  const refreshInvites = useCallback(async () => {
+    await loadInvites()
+  }, [loadInvites])
+
+  useEffect(() => {
+    loadInvites()
+  }, [loadInvites])
+
+  return {
+    invites,
+    loading,
+    error,
+    createInvite,
+    createInvites,
+    revokeInvite,
+    refreshInvites,
+  }
+}
+
+/**
+ * Hook for the signed-in wallet's notifications from the backend, e.g. wallet changes
+ * made by the other party
+ */
+export const useAccountNotifications = (): UseAccountNotificationsReturn => {
+  const { address } = useAccount()
+  const [notifications, setNotifications] = useState<AccountNotification[]>([])
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const loadNotifications = useCallback(async () => {
+    if (!address || !apiService.isAuthenticated()) {
+      setNotifications([])
+      return
+    }
+
+    setLoading(true)
+    setError(null)
+
+    try {
+      const response = await apiService.getNotifications()
+
+      if (response.success && response.data) {
+        setNotifications(response.data)
+      } else {
+        setError(response.error || 'Failed to load notifications')
+      }
+    } catch (err: any) {
+      setError(err.message || 'Failed to load notifications')
+    } finally {
+      setLoading(false)
+    }
+  }, [address])
+
+  const markRead = useCallback(async (id: string): Promise<boolean> => {
+    try {
+      const response = await apiService.markNotificationRead(id)
+
+      if (response.success) {
+        setNotifications(prev => prev.map(item => item._id === id ? { ...item, read: true } : item))
+        return true
+      } else {
+        setError(response.error || 'Failed to update notification')
+        return false
+      }
+    } catch (err: any) {
+      setError(err.message || 'Failed to update notification')
+      return false
+    }
+  }, [])
+
+  const refreshNotifications = useCallback(async () => {
+    await loadNotifications()
+  }, [loadNotifications])
+
+  useEffect(() => {
+    loadNotifications()
+  }, [loadNotifications])
+
+  return {
+    notifications,
+    unreadCount: notifications.filter(item => !item.read).length,
+    loading,
+    error,
+    markRead,
+    refreshNotifications,
+  }
+}
+
 /**
  * Hook for authentication
  */
@@ -513,17 +958,15 @@ export const useAuth = () => {
   const [user, setUser] = useState(apiService.getCurrentUser())
 
   const authenticateWithWallet = useCallback(async (data: {
-    address: string
     signature: string
     message: string
   }) => {
     try {
-      const response = await apiService.authenticateWithWallet(data)
+      const response = await apiService.verifySiweMessage(data.message, data.signature)
       
       if (response.success && response.data) {
-        apiService.setAuthToken(response.data.token)
         setIsAuthenticated(true)
-        setUser(response.data.user)
+        setUser(apiService.getCurrentUser())
         return true
       }
       return false
@@ -569,13 +1012,6 @@ export const useCompanyENS = (): UseCompanyENSReturn => {
   const [loading, setLoading] = useState(false)
   const [error, setError] = useState<string | null>(null)
 
-  // Set wallet address in API service when address changes
-  useEffect(() => {
-    if (address) {
-      apiService.setWalletAddress(address)
-    }
-  }, [address])
-
   const loadCompanyData = useCallback(async () => {
     if (!address) {
       console.log('🔐 useCompanyENS: No wallet address available, skipping load')
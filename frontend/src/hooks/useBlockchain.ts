@@ -5,8 +5,9 @@
 
 import { useState, useEffect, useCallback } from 'react'
 import { useAccount, useNetwork as useWagmiNetwork } from 'wagmi'
-import { blockchainService, Employee, AddEmployeeParams, PaymentResult } from '../services/blockchainService'
-import { NETWORKS, ERROR_MESSAGES } from '../contracts/constants'
+import { blockchainService, Employee, AddEmployeeParams, PaymentResult, FeeSpeed, GasEstimate, TransactionStatus, PaymentSimulation, PaymentReceipt, OnChainBonus, BonusEvents, EmployeeAddedEvent, PendingWalletChange } from '../services/blockchainService'
+import { TransactionListener } from '../services/transactionTracker'
+import { NETWORKS, ERROR_MESSAGES, ContractRole } from '../contracts/constants'
 
 export interface UseBlockchainReturn {
   // Connection state
@@ -20,22 +21,77 @@ export interface UseBlockchainReturn {
   activeEmployees: string[]
   loadingEmployees: boolean
   addEmployee: (params: AddEmployeeParams) => Promise<PaymentResult>
+  addEmployeesBatch: (employees: AddEmployeeParams[], onUpdate?: TransactionListener) => Promise<PaymentResult>
+  getEmployeeAddedEvents: (transactionHash: string) => Promise<EmployeeAddedEvent[]>
+  updateEmployeeCompensation: (
+    address: string,
+    salary: string,
+    frequency: number,
+    tokenAddress: string,
+    onUpdate?: TransactionListener
+  ) => Promise<PaymentResult>
+  removeEmployee: (address: string, onUpdate?: TransactionListener) => Promise<PaymentResult>
+  reassignEmployeeENS: (address: string, newOwner: string, onUpdate?: TransactionListener) => Promise<PaymentResult>
+  requestWalletChange: (address: string, newWallet: string, onUpdate?: TransactionListener) => Promise<PaymentResult>
+  cancelWalletChange: (address: string, onUpdate?: TransactionListener) => Promise<PaymentResult>
+  applyWalletChange: (address: string, onUpdate?: TransactionListener) => Promise<PaymentResult>
+  getPendingWalletChange: (address: string) => Promise<PendingWalletChange | null>
+  getWalletChangeDelay: () => Promise<number>
+  setWalletChangeDelay: (seconds: number, onUpdate?: TransactionListener) => Promise<PaymentResult>
   getEmployee: (address: string) => Promise<Employee | null>
   calculatePaymentAmount: (address: string) => Promise<string>
+  calculateProRatedAmount: (address: string, until?: Date) => Promise<string>
   
   // Payroll processing
-  processPayroll: (addresses: string[]) => Promise<PaymentResult>
-  processIndividualPayment: (address: string) => Promise<PaymentResult>
+  processPayroll: (
+    addresses: string[],
+    feeSpeed?: FeeSpeed,
+    onUpdate?: TransactionListener
+  ) => Promise<PaymentResult>
+  estimatePayrollGas: (addresses: string[]) => Promise<GasEstimate>
+  planPayrollChunks: (addresses: string[]) => Promise<string[][]>
+  simulatePayroll: (addresses: string[]) => Promise<PaymentSimulation[]>
+  getTransactionStatus: (transactionHash: string) => Promise<TransactionStatus>
+  waitForTransaction: (transactionHash: string) => Promise<PaymentResult>
+  getPaymentReceipt: (transactionHash: string) => Promise<PaymentReceipt>
+  getPaymentIntervals: () => Promise<Record<number, number>>
+  processIndividualPayment: (address: string, onUpdate?: TransactionListener) => Promise<PaymentResult>
+  processPartialPayment: (address: string, amount: string, onUpdate?: TransactionListener) => Promise<PaymentResult>
+  speedUpTransaction: (transactionId: string) => Promise<PaymentResult>
+  cancelTransaction: (transactionId: string) => Promise<PaymentResult>
+  
+  // Bonuses
+  createBonus: (
+    recipient: string,
+    amount: string,
+    reason: string,
+    tokenAddress: string,
+    onUpdate?: TransactionListener
+  ) => Promise<PaymentResult>
+  distributeBonus: (bonusId: number, onUpdate?: TransactionListener) => Promise<PaymentResult>
+  getEmployeeBonuses: (address: string) => Promise<number[]>
+  getBonus: (bonusId: number) => Promise<OnChainBonus | null>
+  getBonusReceipt: (transactionHash: string) => Promise<BonusEvents>
+  getBonusEvents: () => Promise<BonusEvents>
+  getTokenDecimals: (tokenAddress: string) => Promise<number>
   
   // Contract management
   isPaused: boolean
   pause: () => Promise<PaymentResult>
   unpause: () => Promise<PaymentResult>
   getContractBalance: (tokenAddress: string) => Promise<string>
+  getWalletBalance: (tokenAddress: string) => Promise<string>
+  fundContract: (tokenAddress: string, amount: string) => Promise<PaymentResult>
   
   // Token management
   isTokenAuthorized: (tokenAddress: string) => Promise<boolean>
+  isSubdomainAvailable: (subdomain: string) => Promise<boolean>
   setTokenAuthorization: (tokenAddress: string, authorized: boolean) => Promise<PaymentResult>
+
+  // Role management
+  hasRole: (role: ContractRole, address: string) => Promise<boolean>
+  grantRole: (role: ContractRole, address: string, onUpdate?: TransactionListener) => Promise<PaymentResult>
+  revokeRole: (role: ContractRole, address: string, onUpdate?: TransactionListener) => Promise<PaymentResult>
   
   // Utility functions
   switchNetwork: (chainId: number) => Promise<boolean>
@@ -66,10 +122,9 @@ export const useBlockchain = (): UseBlockchainReturn => {
 
     setLoadingEmployees(true)
     try {
-      // Temporarily disable blockchain calls until contract is deployed
-      console.log('🔧 Blockchain employee loading disabled - contract not deployed yet')
-      setActiveEmployees([])
-      setEmployees([])
+      const list = await blockchainService.getEmployees()
+      setEmployees(list)
+      setActiveEmployees(list.filter(employee => employee.isActive).map(employee => employee.walletAddress))
     } catch (error) {
       console.error('Error loading employees:', error)
     } finally {
@@ -139,6 +194,139 @@ export const useBlockchain = (): UseBlockchainReturn => {
     }
   }, [loadEmployees])
 
+  /**
+   * Add several employees in one atomic transaction
+   */
+  const addEmployeesBatch = useCallback(async (
+    newEmployees: AddEmployeeParams[],
+    onUpdate?: TransactionListener
+  ): Promise<PaymentResult> => {
+    try {
+      const result = await blockchainService.addEmployeesBatch(newEmployees, onUpdate)
+      if (result.success) {
+        await loadEmployees()
+      }
+      return result
+    } catch (error: any) {
+      return {
+        success: false,
+        error: error.message || 'Failed to onboard employees'
+      }
+    }
+  }, [loadEmployees])
+
+  /**
+   * Employees added by a confirmed onboarding transaction
+   */
+  const getEmployeeAddedEvents = useCallback(async (transactionHash: string): Promise<EmployeeAddedEvent[]> => {
+    return await blockchainService.getEmployeeAddedEvents(transactionHash)
+  }, [])
+
+  /**
+   * Update an employee's salary, frequency and preferred token
+   */
+  const updateEmployeeCompensation = useCallback(async (
+    address: string,
+    salary: string,
+    frequency: number,
+    tokenAddress: string,
+    onUpdate?: TransactionListener
+  ): Promise<PaymentResult> => {
+    try {
+      const result = await blockchainService.updateEmployeeCompensation(address, salary, frequency, tokenAddress, onUpdate)
+      if (result.success) {
+        // Refresh employees list
+        await loadEmployees()
+      }
+      return result
+    } catch (error: any) {
+      return {
+        success: false,
+        error: error.message || 'Failed to update compensation'
+      }
+    }
+  }, [loadEmployees])
+
+  /**
+   * Remove an employee on-chain
+   */
+  const removeEmployee = useCallback(async (address: string, onUpdate?: TransactionListener): Promise<PaymentResult> => {
+    try {
+      const result = await blockchainService.removeEmployee(address, onUpdate)
+      if (result.success) {
+        // Refresh employees list
+        await loadEmployees()
+      }
+      return result
+    } catch (error: any) {
+      return {
+        success: false,
+        error: error.message || 'Failed to remove employee'
+      }
+    }
+  }, [loadEmployees])
+
+  /**
+   * Reassign or revoke a removed employee's ENS subdomain
+   */
+  const reassignEmployeeENS = useCallback(async (
+    address: string,
+    newOwner: string,
+    onUpdate?: TransactionListener
+  ): Promise<PaymentResult> => {
+    return await blockchainService.reassignEmployeeENS(address, newOwner, onUpdate)
+  }, [])
+
+  /**
+   * Start a time-locked payout wallet change
+   */
+  const requestWalletChange = useCallback(async (
+    address: string,
+    newWallet: string,
+    onUpdate?: TransactionListener
+  ): Promise<PaymentResult> => {
+    return await blockchainService.requestWalletChange(address, newWallet, onUpdate)
+  }, [])
+
+  /**
+   * Cancel a pending wallet change
+   */
+  const cancelWalletChange = useCallback(async (address: string, onUpdate?: TransactionListener): Promise<PaymentResult> => {
+    return await blockchainService.cancelWalletChange(address, onUpdate)
+  }, [])
+
+  /**
+   * Apply a wallet change whose timelock has expired
+   */
+  const applyWalletChange = useCallback(async (address: string, onUpdate?: TransactionListener): Promise<PaymentResult> => {
+    const result = await blockchainService.applyWalletChange(address, onUpdate)
+    if (result.success) {
+      await loadEmployees()
+    }
+    return result
+  }, [loadEmployees])
+
+  /**
+   * Pending wallet change for an employee
+   */
+  const getPendingWalletChange = useCallback(async (address: string): Promise<PendingWalletChange | null> => {
+    return await blockchainService.getPendingWalletChange(address)
+  }, [])
+
+  /**
+   * Wallet change cooldown in seconds
+   */
+  const getWalletChangeDelay = useCallback(async (): Promise<number> => {
+    return await blockchainService.getWalletChangeDelay()
+  }, [])
+
+  /**
+   * Set the wallet change cooldown (owner only)
+   */
+  const setWalletChangeDelay = useCallback(async (seconds: number, onUpdate?: TransactionListener): Promise<PaymentResult> => {
+    return await blockchainService.setWalletChangeDelay(seconds, onUpdate)
+  }, [])
+
   /**
    * Get employee by address
    */
@@ -163,12 +351,23 @@ export const useBlockchain = (): UseBlockchainReturn => {
     }
   }, [])
 
+  /**
+   * Salary accrued up to a date, pro-rated by the contract
+   */
+  const calculateProRatedAmount = useCallback(async (address: string, until?: Date): Promise<string> => {
+    return await blockchainService.calculateProRatedAmount(address, until)
+  }, [])
+
   /**
    * Process payroll
    */
-  const processPayroll = useCallback(async (addresses: string[]): Promise<PaymentResult> => {
+  const processPayroll = useCallback(async (
+    addresses: string[],
+    feeSpeed?: FeeSpeed,
+    onUpdate?: TransactionListener
+  ): Promise<PaymentResult> => {
     try {
-      const result = await blockchainService.processPayroll(addresses)
+      const result = await blockchainService.processPayroll(addresses, feeSpeed, onUpdate)
       if (result.success) {
         // Refresh employees list to update last payment timestamps
         await loadEmployees()
@@ -182,12 +381,61 @@ export const useBlockchain = (): UseBlockchainReturn => {
     }
   }, [loadEmployees])
 
+  /**
+   * Estimate gas and fee options for a payroll batch
+   */
+  const estimatePayrollGas = useCallback(async (addresses: string[]): Promise<GasEstimate> => {
+    return await blockchainService.estimatePayrollGas(addresses)
+  }, [])
+
+  /**
+   * Dry-run payroll and report each employee's outcome
+   */
+  const simulatePayroll = useCallback(async (addresses: string[]): Promise<PaymentSimulation[]> => {
+    return await blockchainService.simulatePayroll(addresses)
+  }, [])
+
+  /**
+   * Split a payroll batch into gas-bounded chunks
+   */
+  const planPayrollChunks = useCallback(async (addresses: string[]): Promise<string[][]> => {
+    return await blockchainService.planPayrollChunks(addresses)
+  }, [])
+
+  /**
+   * Check the outcome of a sent transaction
+   */
+  const getTransactionStatus = useCallback(async (transactionHash: string): Promise<TransactionStatus> => {
+    return await blockchainService.getTransactionStatus(transactionHash)
+  }, [])
+
+  /**
+   * Wait for a sent transaction to be mined
+   */
+  const waitForTransaction = useCallback(async (transactionHash: string): Promise<PaymentResult> => {
+    return await blockchainService.waitForTransaction(transactionHash)
+  }, [])
+
+  /**
+   * Decode the payments actually made by a mined transaction
+   */
+  const getPaymentReceipt = useCallback(async (transactionHash: string): Promise<PaymentReceipt> => {
+    return await blockchainService.getPaymentReceipt(transactionHash)
+  }, [])
+
+  /**
+   * Payment interval in seconds per frequency, as the contract computes it
+   */
+  const getPaymentIntervals = useCallback(async (): Promise<Record<number, number>> => {
+    return await blockchainService.getPaymentIntervals()
+  }, [])
+
   /**
    * Process individual payment
    */
-  const processIndividualPayment = useCallback(async (address: string): Promise<PaymentResult> => {
+  const processIndividualPayment = useCallback(async (address: string, onUpdate?: TransactionListener): Promise<PaymentResult> => {
     try {
-      const result = await blockchainService.processIndividualPayment(address)
+      const result = await blockchainService.processIndividualPayment(address, onUpdate)
       if (result.success) {
         // Refresh employees list
         await loadEmployees()
@@ -201,6 +449,98 @@ export const useBlockchain = (): UseBlockchainReturn => {
     }
   }, [loadEmployees])
 
+  /**
+   * Pay a custom part of an employee's accrued salary
+   */
+  const processPartialPayment = useCallback(async (
+    address: string,
+    amount: string,
+    onUpdate?: TransactionListener
+  ): Promise<PaymentResult> => {
+    try {
+      const result = await blockchainService.processPartialPayment(address, amount, onUpdate)
+      if (result.success) {
+        // Refresh employees list
+        await loadEmployees()
+      }
+      return result
+    } catch (error: any) {
+      return {
+        success: false,
+        error: error.message || 'Failed to process partial payment'
+      }
+    }
+  }, [loadEmployees])
+
+  /**
+   * Create a bonus for an employee
+   */
+  const createBonus = useCallback(async (
+    recipient: string,
+    amount: string,
+    reason: string,
+    tokenAddress: string,
+    onUpdate?: TransactionListener
+  ): Promise<PaymentResult> => {
+    return await blockchainService.createBonus(recipient, amount, reason, tokenAddress, onUpdate)
+  }, [])
+
+  /**
+   * Distribute a pending bonus
+   */
+  const distributeBonus = useCallback(async (bonusId: number, onUpdate?: TransactionListener): Promise<PaymentResult> => {
+    return await blockchainService.distributeBonus(bonusId, onUpdate)
+  }, [])
+
+  /**
+   * Get bonus IDs for an employee
+   */
+  const getEmployeeBonuses = useCallback(async (address: string): Promise<number[]> => {
+    return await blockchainService.getEmployeeBonuses(address)
+  }, [])
+
+  /**
+   * Get a bonus from the contract
+   */
+  const getBonus = useCallback(async (bonusId: number): Promise<OnChainBonus | null> => {
+    return await blockchainService.getBonus(bonusId)
+  }, [])
+
+  /**
+   * Decode the bonus events of a mined transaction
+   */
+  const getBonusReceipt = useCallback(async (transactionHash: string): Promise<BonusEvents> => {
+    return await blockchainService.getBonusReceipt(transactionHash)
+  }, [])
+
+  /**
+   * Get every bonus event emitted by the contract
+   */
+  const getBonusEvents = useCallback(async (): Promise<BonusEvents> => {
+    return await blockchainService.getBonusEvents()
+  }, [])
+
+  /**
+   * Get decimals for a token (ETH is the zero address)
+   */
+  const getTokenDecimals = useCallback(async (tokenAddress: string): Promise<number> => {
+    return await blockchainService.getTokenDecimals(tokenAddress)
+  }, [])
+
+  /**
+   * Speed up a pending tracked transaction
+   */
+  const speedUpTransaction = useCallback(async (transactionId: string): Promise<PaymentResult> => {
+    return await blockchainService.speedUpTransaction(transactionId)
+  }, [])
+
+  /**
+   * Cancel a pending tracked transaction
+   */
+  const cancelTransaction = useCallback(async (transactionId: string): Promise<PaymentResult> => {
+    return await blockchainService.cancelTransaction(transactionId)
+  }, [])
+
   /**
    * Pause contract
    */
@@ -249,6 +589,27 @@ export const useBlockchain = (): UseBlockchainReturn => {
     }
   }, [])
 
+  /**
+   * Get the connected wallet's token balance
+   */
+  const getWalletBalance = useCallback(async (tokenAddress: string): Promise<string> => {
+    return await blockchainService.getWalletBalance(tokenAddress)
+  }, [])
+
+  /**
+   * Fund the payroll contract from the connected wallet
+   */
+  const fundContract = useCallback(async (tokenAddress: string, amount: string): Promise<PaymentResult> => {
+    try {
+      return await blockchainService.fundContract(tokenAddress, amount)
+    } catch (error: any) {
+      return {
+        success: false,
+        error: error.message || 'Failed to fund contract'
+      }
+    }
+  }, [])
+
   /**
    * Check if token is authorized
    */
@@ -261,6 +622,13 @@ export const useBlockchain = (): UseBlockchainReturn => {
     }
   }, [])
 
+  /**
+   * Check if an employee ENS subdomain is still free
+   */
+  const isSubdomainAvailable = useCallback(async (subdomain: string): Promise<boolean> => {
+    return await blockchainService.isSubdomainAvailable(subdomain)
+  }, [])
+
   /**
    * Set token authorization
    */
@@ -275,6 +643,49 @@ export const useBlockchain = (): UseBlockchainReturn => {
     }
   }, [])
 
+  /**
+   * Check whether a wallet holds an HR or finance role on the contract
+   */
+  const hasRole = useCallback(async (role: ContractRole, memberAddress: string): Promise<boolean> => {
+    return await blockchainService.hasRole(role, memberAddress)
+  }, [])
+
+  /**
+   * Grant an HR or finance role on the contract
+   */
+  const grantRole = useCallback(async (
+    role: ContractRole,
+    memberAddress: string,
+    onUpdate?: TransactionListener
+  ): Promise<PaymentResult> => {
+    try {
+      return await blockchainService.grantRole(role, memberAddress, onUpdate)
+    } catch (error: any) {
+      return {
+        success: false,
+        error: error.message || 'Failed to grant role'
+      }
+    }
+  }, [])
+
+  /**
+   * Revoke an HR or finance role on the contract
+   */
+  const revokeRole = useCallback(async (
+    role: ContractRole,
+    memberAddress: string,
+    onUpdate?: TransactionListener
+  ): Promise<PaymentResult> => {
+    try {
+      return await blockchainService.revokeRole(role, memberAddress, onUpdate)
+    } catch (error: any) {
+      return {
+        success: false,
+        error: error.message || 'Failed to revoke role'
+      }
+    }
+  }, [])
+
   /**
    * Switch network
    */
@@ -337,22 +748,61 @@ export const useBlockchain = (): UseBlockchainReturn => {
     activeEmployees,
     loadingEmployees,
     addEmployee,
+    addEmployeesBatch,
+    getEmployeeAddedEvents,
+    updateEmployeeCompensation,
+    removeEmployee,
+    reassignEmployeeENS,
+    requestWalletChange,
+    cancelWalletChange,
+    applyWalletChange,
+    getPendingWalletChange,
+    getWalletChangeDelay,
+    setWalletChangeDelay,
     getEmployee,
     calculatePaymentAmount,
+    calculateProRatedAmount,
     
     // Payroll processing
     processPayroll,
+    estimatePayrollGas,
+    planPayrollChunks,
+    simulatePayroll,
+    getTransactionStatus,
+    waitForTransaction,
+    getPaymentReceipt,
+    getPaymentIntervals,
     processIndividualPayment,
+    processPartialPayment,
+    speedUpTransaction,
+    cancelTransaction,
+    
+    // Bonuses
+    createBonus,
+    distributeBonus,
+    getEmployeeBonuses,
+    getBonus,
+    getBonusReceipt,
+    getBonusEvents,
+    getTokenDecimals,
     
     // Contract management
     isPaused,
     pause,
     unpause,
     getContractBalance,
+    getWalletBalance,
+    fundContract,
     
     // Token management
     isTokenAuthorized,
+    isSubdomainAvailable,
     setTokenAuthorization,
+
+    // Role management
+    hasRole,
+    grantRole,
+    revokeRole,
     
     // Utility functions
     switchNetwork,
@@ -1,6 +1,7 @@
 import { useState, useEffect } from 'react'
 import { useAccount } from 'wagmi'
 import { getCachedCompanyStatus, setCachedCompanyStatus } from '../utils/routeUtils'
+import { apiService } from '../services/apiService'
 
 interface CompanyStatus {
   hasCompany: boolean
@@ -46,15 +47,11 @@ export const useCompanyStatus = (): CompanyStatus => {
       setStatus(prev => ({ ...prev, loading: true, error: null }))
 
       try {
-        const baseUrl = process.env.REACT_APP_API_URL || 'http://localhost:3001'
-        const response = await fetch(`${baseUrl}/api/companies/status`, {
-          headers: {
-            'x-wallet-address': address
-          }
-        })
+        // Identified by the signed-in session, not by the connected address
+        const response = await apiService.getCompanyStatus()
 
-        if (response.ok) {
-          const data = await response.json()
+        if (response.success && response.data) {
+          const data = response.data
           console.log('🔍 useCompanyStatus: API Response:', data)
           
           // Cache the result
@@ -67,7 +64,7 @@ export const useCompanyStatus = (): CompanyStatus => {
             error: null
           })
         } else {
-          console.log('🔍 useCompanyStatus: API Error Response:', response.status)
+          console.log('🔍 useCompanyStatus: API Error Response:', response.error)
           setStatus({
             hasCompany: false,
             company: null,
@@ -0,0 +1,111 @@
+import { useState, useEffect, useMemo } from 'react'
+import { ethers } from 'ethers'
+import { useBlockchain } from './useBlockchain'
+import { apiService, EmployeeData } from '../services/apiService'
+import { TOKEN_ADDRESSES } from '../contracts/constants'
+import {
+  ImportRowErrors,
+  ImportRowValues,
+  SubdomainAvailability,
+  getImportSubdomain,
+  isSubdomainFormatValid,
+  validateImportRows,
+} from '../utils/importValidation'
+
+export interface UseImportValidationReturn {
+  errors: ImportRowErrors[]
+  validCount: number
+  checking: boolean
+}
+
+// Inline edits are re-checked on-chain once typing pauses
+const SUBDOMAIN_CHECK_DELAY = 500
+
+/**
+ * Validate bulk import rows against the contract and the existing employees
+ */
+export const useImportValidation = (rows: ImportRowValues[]): UseImportValidationReturn => {
+  const {
+    currentNetwork,
+    employees: chainEmployees,
+    isTokenAuthorized,
+    isSubdomainAvailable,
+  } = useBlockchain()
+
+  const [records, setRecords] = useState<EmployeeData[]>([])
+  const [authorizedTokens, setAuthorizedTokens] = useState<Set<string>>(new Set())
+  const [availability, setAvailability] = useState<SubdomainAvailability>({})
+  const [checking, setChecking] = useState(false)
+  const hasRows = rows.length > 0
+
+  // Every existing record, not just the page the employee list shows
+  useEffect(() => {
+    if (!hasRows) return
+
+    apiService.getEmployees({ limit: 1000 })
+      .then(response => setRecords(response.success && response.data ? response.data.employees || [] : []))
+      .catch(error => console.error('Error loading existing employees:', error))
+  }, [hasRows])
+
+  useEffect(() => {
+    if (!hasRows || !currentNetwork) return
+
+    const networkTokens: Record<string, string> = TOKEN_ADDRESSES[currentNetwork as keyof typeof TOKEN_ADDRESSES] || {}
+    const candidates = Object.entries(networkTokens)
+      .filter(([symbol, address]) => symbol === 'ETH' || address !== ethers.constants.AddressZero)
+
+    Promise.all(candidates.map(async ([symbol, address]) => (await isTokenAuthorized(address)) ? symbol : null))
+      .then(results => setAuthorizedTokens(new Set(results.filter((symbol): symbol is string => symbol !== null))))
+      .catch(error => console.error('Error checking authorized tokens:', error))
+  }, [hasRows, currentNetwork, isTokenAuthorized])
+
+  const pendingSubdomains = Array.from(new Set(rows.map(getImportSubdomain)))
+    .filter(subdomain => isSubdomainFormatValid(subdomain) && availability[subdomain] === undefined)
+  const pendingKey = pendingSubdomains.join(',')
+
+  useEffect(() => {
+    if (!pendingKey) {
+      setChecking(false)
+      return
+    }
+
+    setChecking(true)
+    const timer = setTimeout(async () => {
+      const results = await Promise.all(pendingKey.split(',').map(async subdomain => {
+        try {
+          return [subdomain, await isSubdomainAvailable(subdomain)] as const
+        } catch (error) {
+          console.error('Error checking subdomain availability:', error)
+          return [subdomain, 'error'] as const
+        }
+      }))
+      setAvailability(prev => ({ ...prev, ...Object.fromEntries(results) }))
+      setChecking(false)
+    }, SUBDOMAIN_CHECK_DELAY)
+
+    return () => clearTimeout(timer)
+  }, [pendingKey, isSubdomainAvailable])
+
+  const errors = useMemo(() => {
+    const existingWallets = new Set([
+      ...records.map(record => record.payrollSettings?.walletAddress?.toLowerCase()),
+      ...(chainEmployees || []).filter(employee => employee.isActive).map(employee => employee.walletAddress.toLowerCase()),
+    ].filter((wallet): wallet is string => !!wallet))
+    const existingSubdomains = new Set(records
+      .map(record => record.ensDetails?.subdomain?.toLowerCase())
+      .filter((subdomain): subdomain is string => !!subdomain))
+
+    return validateImportRows(rows, {
+      existingWallets,
+      existingSubdomains,
+      authorizedTokens,
+      subdomainAvailability: availability,
+    })
+  }, [rows, records, chainEmployees, authorizedTokens, availability])
+
+  return {
+    errors,
+    validCount: errors.filter(rowErrors => Object.keys(rowErrors).length === 0).length,
+    checking,
+  }
+}
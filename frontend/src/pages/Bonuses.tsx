@@ -1,28 +1,633 @@
-import React from 'react'
-import { Box, Typography, Card, CardContent, Alert } from '@mui/material'
+import React, { useState, useEffect, useMemo } from 'react'
+import {
+  Box,
+  Typography,
+  Button,
+  Card,
+  CardContent,
+  Grid,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  Chip,
+  IconButton,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Alert,
+  CircularProgress,
+  LinearProgress,
+  Tooltip,
+  TextField,
+  FormControl,
+  InputLabel,
+  Select,
+  MenuItem,
+  Checkbox,
+  Stack,
+  Accordion,
+  AccordionSummary,
+  AccordionDetails,
+} from '@mui/material'
+import { useTheme, alpha } from '@mui/material/styles'
+import {
+  Refresh as RefreshIcon,
+  Add as AddIcon,
+  Send as SendIcon,
+  Sync as SyncIcon,
+  ExpandMore as ExpandMoreIcon,
+  CardGiftcard as CardGiftcardIcon,
+  Groups as GroupsIcon,
+} from '@mui/icons-material'
+import { useAccount } from 'wagmi'
+import { ethers } from 'ethers'
+import { useAppDispatch } from '../store/store'
+import { addNotification } from '../store/slices/uiSlice'
+import { useBlockchain } from '../hooks/useBlockchain'
+import { useAuth } from '../context/AuthContext'
+import { useBonuses, useEmployees } from '../hooks/useApi'
+import { BonusRecord } from '../services/apiService'
+import { PaymentResult } from '../services/blockchainService'
+import { TOKEN_ADDRESSES, ERROR_MESSAGES } from '../contracts/constants'
+import BonusPoolDialog, { TokenOption } from '../components/Bonuses/BonusPoolDialog'
+
+/**
+ * Bonus Management page for Web3 Payroll System
+ * Creates and distributes on-chain bonuses and keeps the database in sync with their events
+ * @author Dev Austin
+ */
+
+// Bonuses are listed per employee, so load them all at once
+const BONUS_QUERY = { limit: 500 }
+
+const shortAddress = (address: string) => `${address.slice(0, 6)}...${address.slice(-4)}`
+
+/**
+ * Error text for a failed PaymentResult, with the suggested fix when the revert is known
+ */
+const getResultError = (result: PaymentResult, fallback: string) => {
+  const error = result.error || fallback
+  return result.suggestion ? `${error}. ${result.suggestion}` : error
+}
 
 const Bonuses: React.FC = () => {
+  const theme = useTheme()
+  const { isConnected } = useAccount()
+  const dispatch = useAppDispatch()
+  const { hasRole } = useAuth()
+
+  // The owner and finance create and pay bonuses; auditors only read them
+  const canManageBonuses = hasRole('finance')
+
+  const {
+    currentNetwork,
+    employees: blockchainEmployees,
+    createBonus,
+    distributeBonus,
+    getBonusReceipt,
+    getBonusEvents,
+    isTokenAuthorized,
+  } = useBlockchain()
+  const { employees: apiEmployees = [] } = useEmployees()
+  const { bonuses, loading, error, recordBonusEvents, refreshBonuses } = useBonuses(BONUS_QUERY)
+
+  const [tokens, setTokens] = useState<TokenOption[]>([])
+  const [showCreateDialog, setShowCreateDialog] = useState(false)
+  const [showPoolDialog, setShowPoolDialog] = useState(false)
+  const [recipient, setRecipient] = useState('')
+  const [amount, setAmount] = useState('')
+  const [reason, setReason] = useState('')
+  const [tokenAddress, setTokenAddress] = useState(ethers.constants.AddressZero)
+  const [creating, setCreating] = useState(false)
+  const [selectedBonuses, setSelectedBonuses] = useState<number[]>([])
+  const [distributing, setDistributing] = useState<{ current: number, total: number } | null>(null)
+  const [syncing, setSyncing] = useState(false)
+
+  // Only offer tokens the contract will accept
+  useEffect(() => {
+    if (!isConnected || !currentNetwork) return
+
+    const networkTokens = TOKEN_ADDRESSES[currentNetwork as keyof typeof TOKEN_ADDRESSES] || {}
+    const candidates = Object.entries(networkTokens)
+      .filter(([symbol, address]) => symbol === 'ETH' || address !== ethers.constants.AddressZero)
+      .map(([symbol, address]): TokenOption => ({ symbol, address }))
+
+    Promise.all(candidates.map(async token => (await isTokenAuthorized(token.address)) ? token : null))
+      .then(results => setTokens(results.filter((token): token is TokenOption => token !== null)))
+      .catch(err => console.error('Error checking authorized tokens:', err))
+  }, [isConnected, currentNetwork, isTokenAuthorized])
+
+  // Group bonuses per employee wallet, newest first
+  const bonusesByEmployee = useMemo(() => {
+    const groups = new Map<string, BonusRecord[]>()
+    bonuses.forEach(bonus => {
+      groups.set(bonus.walletAddress, [...(groups.get(bonus.walletAddress) || []), bonus])
+    })
+    return Array.from(groups.entries())
+  }, [bonuses])
+
+  const pendingBonuses = bonuses.filter(bonus => bonus.status === 'pending')
+  const activeEmployees = (blockchainEmployees || []).filter(employee => employee.isActive)
+
+  /**
+   * Employee name from the API, falling back to a short wallet address
+   */
+  const getEmployeeDisplayName = (walletAddress: string) => {
+    const apiEmployee = (apiEmployees || []).find((emp: any) => {
+      const wallet = emp.payrollSettings?.walletAddress || emp.walletAddress
+      return wallet?.toLowerCase() === walletAddress.toLowerCase()
+    }) as any
+    return apiEmployee?.personalInfo?.name || apiEmployee?.name || shortAddress(walletAddress)
+  }
+
+  /**
+   * Read the bonus events from a mined transaction and store them
+   */
+  const recordReceipt = async (transactionHash: string) => {
+    try {
+      const events = await getBonusReceipt(transactionHash)
+      const result = await recordBonusEvents(events)
+      if (!result) {
+        throw new Error(ERROR_MESSAGES.NETWORK_ERROR)
+      }
+    } catch (err: any) {
+      console.error('❌ Failed to record bonus events:', err)
+      dispatch(addNotification({
+        type: 'warning',
+        title: 'Bonus Not Recorded',
+        message: 'The transaction succeeded but the bonus could not be saved. Use Sync from Chain to retry.',
+      }))
+    }
+  }
+
+  const resetCreateForm = () => {
+    setRecipient('')
+    setAmount('')
+    setReason('')
+    setTokenAddress(ethers.constants.AddressZero)
+  }
+
+  /**
+   * Create a bonus on-chain, then record it from its BonusCreated event
+   */
+  const handleCreate = async () => {
+    if (!ethers.utils.isAddress(recipient)) {
+      dispatch(addNotification({
+        type: 'error',
+        title: 'Invalid Employee',
+        message: ERROR_MESSAGES.INVALID_ADDRESS,
+      }))
+      return
+    }
+
+    if (!(parseFloat(amount) > 0)) {
+      dispatch(addNotification({
+        type: 'error',
+        title: 'Invalid Amount',
+        message: ERROR_MESSAGES.INVALID_AMOUNT,
+      }))
+      return
+    }
+
+    if (!reason.trim()) {
+      dispatch(addNotification({
+        type: 'error',
+        title: 'Reason Required',
+        message: 'Please describe what the bonus is for',
+      }))
+      return
+    }
+
+    setCreating(true)
+    const result = await createBonus(recipient, amount, reason.trim(), tokenAddress)
+
+    if (result.success && result.transactionHash) {
+      await recordReceipt(result.transactionHash)
+      dispatch(addNotification({
+        type: 'success',
+        title: 'Bonus Created',
+        message: `Bonus for ${getEmployeeDisplayName(recipient)} is ready to distribute`,
+      }))
+      setShowCreateDialog(false)
+      resetCreateForm()
+    } else {
+      dispatch(addNotification({
+        type: 'error',
+        title: 'Bonus Failed',
+        message: getResultError(result, 'Failed to create bonus'),
+      }))
+    }
+    setCreating(false)
+  }
+
+  /**
+   * Distribute bonuses one transaction at a time, recording each as it lands
+   */
+  const handleDistribute = async (bonusIds: number[]) => {
+    let distributed = 0
+    setDistributing({ current: 0, total: bonusIds.length })
+
+    for (const bonusId of bonusIds) {
+      setDistributing({ current: distributed, total: bonusIds.length })
+      const result = await distributeBonus(bonusId)
+
+      if (!result.success || !result.transactionHash) {
+        dispatch(addNotification({
+          type: 'error',
+          title: `Bonus #${bonusId} Not Distributed`,
+          message: getResultError(result, 'Failed to distribute bonus'),
+        }))
+        break
+      }
+
+      await recordReceipt(result.transactionHash)
+      distributed++
+    }
+
+    setDistributing(null)
+    setSelectedBonuses(prev => prev.filter(id => !bonusIds.includes(id)))
+
+    if (distributed > 0) {
+      dispatch(addNotification({
+        type: 'success',
+        title: 'Bonuses Distributed',
+        message: `${distributed} of ${bonusIds.length} bonus${bonusIds.length === 1 ? '' : 'es'} paid out`,
+      }))
+    }
+  }
+
+  /**
+   * Replay every bonus event from the contract into the database
+   */
+  const handleSync = async () => {
+    setSyncing(true)
+    try {
+      const events = await getBonusEvents()
+      const result = await recordBonusEvents(events)
+      if (!result) {
+        throw new Error(ERROR_MESSAGES.NETWORK_ERROR)
+      }
+      dispatch(addNotification({
+        type: 'success',
+        title: 'Bonuses Synced',
+        message: `${result.created} created and ${result.distributed} distributed bonus events recorded`,
+      }))
+    } catch (err: any) {
+      console.error('❌ Failed to sync bonuses:', err)
+      dispatch(addNotification({
+        type: 'error',
+        title: 'Sync Failed',
+        message: err.message || ERROR_MESSAGES.NETWORK_ERROR,
+      }))
+    } finally {
+      setSyncing(false)
+    }
+  }
+
+  const toggleBonus = (bonusId: number) => {
+    setSelectedBonuses(prev => prev.includes(bonusId)
+      ? prev.filter(id => id !== bonusId)
+      : [...prev, bonusId])
+  }
+
+  if (!isConnected) {
+    return (
+      <Box sx={{ p: 3 }}>
+        <Typography variant="h4" gutterBottom>
+          Bonus Management
+        </Typography>
+        <Alert severity="info">
+          Please connect your wallet to manage bonuses.
+        </Alert>
+      </Box>
+    )
+  }
+
+  const busy = !!distributing || creating || syncing
+
   return (
-    <Box>
-      <Typography variant="h4" gutterBottom>
-        Bonus Management
-      </Typography>
-      <Card>
-        <CardContent>
-          <Alert severity="info">
-            <Typography variant="h6" gutterBottom>
-              Bonus Management Coming Soon
+    <Box sx={{ p: 3 }}>
+      {/* Header */}
+      <Box sx={{
+        mb: 4,
+        background: `linear-gradient(135deg, ${alpha(theme.palette.primary.main, 0.1)} 0%, ${alpha(theme.palette.secondary.main, 0.05)} 100%)`,
+        borderRadius: 2,
+        p: 3,
+        border: `1px solid ${alpha(theme.palette.primary.main, 0.12)}`,
+      }}>
+        <Stack direction="row" justifyContent="space-between" alignItems="center">
+          <Box>
+            <Typography variant="h4" fontWeight={700} gutterBottom>
+              Bonus Management
+            </Typography>
+            <Typography variant="body1" color="text.secondary">
+              Create bonuses in any authorized token and pay them out from the payroll contract
             </Typography>
-            <Typography variant="body2">
-              This feature will allow you to create and distribute performance bonuses to employees.
-              It will include bulk bonus distribution, performance-based calculations, and bonus history tracking.
+          </Box>
+          <Stack direction="row" spacing={1}>
+            {canManageBonuses && (
+              <>
+                <Button
+                  variant="outlined"
+                  startIcon={syncing ? <CircularProgress size={16} /> : <SyncIcon />}
+                  onClick={handleSync}
+                  disabled={busy}
+                >
+                  Sync from Chain
+                </Button>
+                <Button
+                  variant="outlined"
+                  startIcon={<GroupsIcon />}
+                  onClick={() => setShowPoolDialog(true)}
+                  disabled={busy}
+                >
+                  Bonus Pool
+                </Button>
+                <Button
+                  variant="contained"
+                  startIcon={<AddIcon />}
+                  onClick={() => setShowCreateDialog(true)}
+                  disabled={busy}
+                >
+                  Create Bonus
+                </Button>
+              </>
+            )}
+            <Tooltip title="Refresh Bonuses">
+              <IconButton
+                onClick={refreshBonuses}
+                sx={{
+                  bgcolor: alpha(theme.palette.primary.main, 0.1),
+                  '&:hover': { bgcolor: alpha(theme.palette.primary.main, 0.2) }
+                }}
+              >
+                <RefreshIcon />
+              </IconButton>
+            </Tooltip>
+          </Stack>
+        </Stack>
+      </Box>
+
+      {error && (
+        <Alert severity="error" sx={{ mb: 3, borderRadius: 2 }}>
+          {error}
+        </Alert>
+      )}
+
+      {!canManageBonuses && (
+        <Alert severity="info" sx={{ mb: 3, borderRadius: 2 }}>
+          Your role can view bonuses but not create or pay them.
+        </Alert>
+      )}
+
+      {/* Summary */}
+      <Grid container spacing={3} sx={{ mb: 3 }}>
+        <Grid item xs={12} sm={4}>
+          <Card sx={{ borderRadius: 2 }}>
+            <CardContent>
+              <Typography variant="body2" color="text.secondary">Pending Bonuses</Typography>
+              <Typography variant="h4" fontWeight={700}>{pendingBonuses.length}</Typography>
+            </CardContent>
+          </Card>
+        </Grid>
+        <Grid item xs={12} sm={4}>
+          <Card sx={{ borderRadius: 2 }}>
+            <CardContent>
+              <Typography variant="body2" color="text.secondary">Distributed Bonuses</Typography>
+              <Typography variant="h4" fontWeight={700}>{bonuses.length - pendingBonuses.length}</Typography>
+            </CardContent>
+          </Card>
+        </Grid>
+        <Grid item xs={12} sm={4}>
+          <Card sx={{ borderRadius: 2 }}>
+            <CardContent>
+              <Typography variant="body2" color="text.secondary">Employees with Bonuses</Typography>
+              <Typography variant="h4" fontWeight={700}>{bonusesByEmployee.length}</Typography>
+            </CardContent>
+          </Card>
+        </Grid>
+      </Grid>
+
+      {distributing && (
+        <Alert severity="info" sx={{ mb: 3, borderRadius: 2 }}>
+          Distributing bonus {distributing.current + 1} of {distributing.total}. Confirm each transaction in your wallet.
+          <LinearProgress
+            variant="determinate"
+            value={(distributing.current / distributing.total) * 100}
+            sx={{ mt: 1 }}
+          />
+        </Alert>
+      )}
+
+      {/* Bonuses per employee */}
+      <Card sx={{ borderRadius: 2 }}>
+        <CardContent>
+          <Stack direction="row" justifyContent="space-between" alignItems="center" sx={{ mb: 2 }}>
+            <Typography variant="h6" fontWeight={600}>
+              Bonuses by Employee
             </Typography>
-          </Alert>
+            {canManageBonuses && (
+              <Button
+                variant="contained"
+                color="success"
+                startIcon={<SendIcon />}
+                disabled={busy || selectedBonuses.length === 0}
+                onClick={() => handleDistribute(selectedBonuses)}
+              >
+                Distribute Selected ({selectedBonuses.length})
+              </Button>
+            )}
+          </Stack>
+
+          {loading ? (
+            <Box sx={{ display: 'flex', justifyContent: 'center', p: 4 }}>
+              <CircularProgress />
+            </Box>
+          ) : bonusesByEmployee.length === 0 ? (
+            <Alert severity="info" sx={{ borderRadius: 2 }}>
+              {canManageBonuses
+                ? 'No bonuses yet. Create one, or sync bonuses already created on-chain.'
+                : 'No bonuses yet.'}
+            </Alert>
+          ) : (
+            bonusesByEmployee.map(([walletAddress, employeeBonuses]) => {
+              const pending = employeeBonuses.filter(bonus => bonus.status === 'pending')
+
+              return (
+                <Accordion key={walletAddress} disableGutters sx={{ mb: 1, '&:before': { display: 'none' } }}>
+                  <AccordionSummary expandIcon={<ExpandMoreIcon />}>
+                    <Stack direction="row" spacing={2} alignItems="center" sx={{ width: '100%', pr: 2 }}>
+                      <CardGiftcardIcon color="primary" />
+                      <Box sx={{ flexGrow: 1 }}>
+                        <Typography variant="body1" fontWeight={600}>
+                          {getEmployeeDisplayName(walletAddress)}
+                        </Typography>
+                        <Typography variant="caption" color="text.secondary" sx={{ fontFamily: 'monospace' }}>
+                          {walletAddress}
+                        </Typography>
+                      </Box>
+                      {pending.length > 0 && (
+                        <Chip label={`${pending.length} pending`} color="warning" size="small" />
+                      )}
+                      <Chip label={`${employeeBonuses.length - pending.length} distributed`} size="small" />
+                    </Stack>
+                  </AccordionSummary>
+                  <AccordionDetails>
+                    <TableContainer>
+                      <Table size="small">
+                        <TableHead>
+                          <TableRow>
+                            <TableCell padding="checkbox" />
+                            <TableCell sx={{ fontWeight: 600 }}>Bonus</TableCell>
+                            <TableCell sx={{ fontWeight: 600 }}>Reason</TableCell>
+                            <TableCell sx={{ fontWeight: 600 }} align="right">Amount</TableCell>
+                            <TableCell sx={{ fontWeight: 600 }}>Created</TableCell>
+                            <TableCell sx={{ fontWeight: 600 }}>Status</TableCell>
+                            <TableCell />
+                          </TableRow>
+                        </TableHead>
+                        <TableBody>
+                          {employeeBonuses.map(bonus => (
+                            <TableRow key={bonus.bonusId}>
+                              <TableCell padding="checkbox">
+                                {canManageBonuses && bonus.status === 'pending' && (
+                                  <Checkbox
+                                    size="small"
+                                    checked={selectedBonuses.includes(bonus.bonusId)}
+                                    onChange={() => toggleBonus(bonus.bonusId)}
+                                    disabled={busy}
+                                  />
+                                )}
+                              </TableCell>
+                              <TableCell>#{bonus.bonusId}</TableCell>
+                              <TableCell>{bonus.reason || '—'}</TableCell>
+                              <TableCell align="right">
+                                {parseFloat(bonus.amount || '0').toFixed(4)} {bonus.tokenSymbol}
+                              </TableCell>
+                              <TableCell>{new Date(bonus.createdAt).toLocaleDateString()}</TableCell>
+                              <TableCell>
+                                <Tooltip title={bonus.distributionDate ? `Paid ${new Date(bonus.distributionDate).toLocaleString()}` : ''}>
+                                  <Chip
+                                    size="small"
+                                    label={bonus.status}
+                                    color={bonus.status === 'distributed' ? 'success' : 'warning'}
+                                  />
+                                </Tooltip>
+                              </TableCell>
+                              <TableCell align="right">
+                                {canManageBonuses && bonus.status === 'pending' && (
+                                  <Button
+                                    size="small"
+                                    startIcon={<SendIcon />}
+                                    disabled={busy}
+                                    onClick={() => handleDistribute([bonus.bonusId])}
+                                  >
+                                    Distribute
+                                  </Button>
+                                )}
+                              </TableCell>
+                            </TableRow>
+                          ))}
+                        </TableBody>
+                      </Table>
+                    </TableContainer>
+                  </AccordionDetails>
+                </Accordion>
+              )
+            })
+          )}
         </CardContent>
       </Card>
+
+      {/* Create bonus dialog */}
+      <Dialog open={showCreateDialog} onClose={() => !creating && setShowCreateDialog(false)} maxWidth="sm" fullWidth>
+        <DialogTitle>Create Bonus</DialogTitle>
+        <DialogContent>
+          <Stack spacing={2} sx={{ mt: 1 }}>
+            <FormControl fullWidth>
+              <InputLabel>Employee</InputLabel>
+              <Select
+                label="Employee"
+                value={recipient}
+                onChange={(e) => setRecipient(e.target.value)}
+              >
+                {activeEmployees.map(employee => (
+                  <MenuItem key={employee.walletAddress} value={employee.walletAddress}>
+                    {getEmployeeDisplayName(employee.walletAddress)} ({shortAddress(employee.walletAddress)})
+                  </MenuItem>
+                ))}
+              </Select>
+            </FormControl>
+            <Stack direction="row" spacing={2}>
+              <TextField
+                fullWidth
+                label="Amount"
+                type="number"
+                value={amount}
+                onChange={(e) => setAmount(e.target.value)}
+                inputProps={{ min: 0, step: 'any' }}
+              />
+              <FormControl sx={{ minWidth: 140 }}>
+                <InputLabel>Token</InputLabel>
+                <Select
+                  label="Token"
+                  value={tokenAddress}
+                  onChange={(e) => setTokenAddress(e.target.value)}
+                >
+                  {tokens.map(token => (
+                    <MenuItem key={token.address} value={token.address}>
+                      {token.symbol}
+                    </MenuItem>
+                  ))}
+                </Select>
+              </FormControl>
+            </Stack>
+            <TextField
+              fullWidth
+              multiline
+              minRows={2}
+              label="Reason"
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              inputProps={{ maxLength: 500 }}
+            />
+            {tokens.length === 0 && (
+              <Alert severity="warning">
+                No tokens are authorized on the payroll contract for this network.
+              </Alert>
+            )}
+          </Stack>
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setShowCreateDialog(false)} disabled={creating}>
+            Cancel
+          </Button>
+          <Button
+            variant="contained"
+            onClick={handleCreate}
+            disabled={creating || !recipient || !amount || tokens.length === 0}
+            startIcon={creating ? <CircularProgress size={16} /> : <AddIcon />}
+          >
+            Create Bonus
+          </Button>
+        </DialogActions>
+      </Dialog>
+
+      {showPoolDialog && (
+        <BonusPoolDialog
+          open={showPoolDialog}
+          tokens={tokens}
+          onClose={() => setShowPoolDialog(false)}
+          getEmployeeDisplayName={getEmployeeDisplayName}
+          recordBonusEvents={recordBonusEvents}
+        />
+      )}
     </Box>
   )
 }
 
 export default Bonuses
-
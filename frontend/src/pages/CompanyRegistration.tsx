@@ -40,6 +40,7 @@ import { useAccount } from 'wagmi'
 import { ConnectButton } from '@rainbow-me/rainbowkit'
 import { useAuth } from '../context/AuthContext'
 import { useENS } from '../hooks/useENS'
+import { apiService } from '../services/apiService'
 
 /**
  * Company Registration Page
@@ -87,16 +88,10 @@ const CompanyRegistration: React.FC = () => {
     if (!address) return
     
     try {
-      const baseUrl = process.env.REACT_APP_API_BASE_URL || 'http://localhost:3001/api'
-      const response = await fetch(`${baseUrl}/companies/status`, {
-        headers: {
-          'x-wallet-address': address
-        }
-      })
-      
-      const data = await response.json()
+      const response = await apiService.getCompanyStatus()
+      const data = response.data
       
-      if (data.hasCompany && data.company) {
+      if (data?.hasCompany && data.company) {
         setRegisteredCompany(data.company)
         // Don't redirect automatically, let user see they already have a company
       }
@@ -193,26 +188,15 @@ const CompanyRegistration: React.FC = () => {
     setError(null)
 
     try {
-      const baseUrl = (process.env.REACT_APP_API_URL || 'http://localhost:3001') + '/api'
-      
       // Step 1: Get registration info from backend
       console.log('🔗 Getting ENS registration info...')
-      const response = await fetch(`${baseUrl}/companies/register`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'x-wallet-address': address
-        },
-        body: JSON.stringify(formData)
-      })
-
-      const data = await response.json()
+      const response = await apiService.registerCompany(formData)
 
-      if (!response.ok || !data.success) {
-        throw new Error(data.message || data.error || 'Failed to get registration info')
+      if (!response.success || !response.data?.success) {
+        throw new Error(response.error || 'Failed to get registration info')
       }
 
-      const { registrationInfo, companyData } = data
+      const { registrationInfo, companyData } = response.data
       console.log('✅ Registration info received:', registrationInfo)
 
       // Step 2: Perform actual ENS registration on frontend with verification
@@ -238,24 +222,16 @@ const CompanyRegistration: React.FC = () => {
       console.log('🏢 Creating company profile...')
       setProgress('Creating company profile...')
       
-      const createResponse = await fetch(`${baseUrl}/companies/create-after-ens`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'x-wallet-address': address
-        },
-        body: JSON.stringify({
-          companyData,
-          transactionHash,
-          blockNumber: blockNumber,
-          gasUsed: 0 // We don't need exact gas for company creation
-        })
+      const createResponse = await apiService.createCompanyAfterENS({
+        companyData,
+        transactionHash,
+        blockNumber: blockNumber,
+        gasUsed: 0 // We don't need exact gas for company creation
       })
+      const createData = createResponse.data
 
-      const createData = await createResponse.json()
-
-      if (!createResponse.ok || !createData.success) {
-        throw new Error(createData.error || 'Failed to create company')
+      if (!createResponse.success || !createData?.success) {
+        throw new Error(createResponse.error || 'Failed to create company')
       }
 
       console.log('✅ Company created successfully:', createData.company)
@@ -0,0 +1,409 @@
+import React, { useState, useEffect, useCallback } from 'react'
+import {
+  Box,
+  Container,
+  Typography,
+  Button,
+  Card,
+  CardContent,
+  Grid,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  Chip,
+  Alert,
+  Avatar,
+  CircularProgress,
+  Link,
+  Skeleton,
+  Stack,
+} from '@mui/material'
+import { useTheme, alpha } from '@mui/material/styles'
+import {
+  Refresh as RefreshIcon,
+  AccountBalanceWallet as WalletIcon,
+  Event as EventIcon,
+  Schedule as ScheduleIcon,
+  CardGiftcard as CardGiftcardIcon,
+  Dns as ENSIcon,
+  Launch as LaunchIcon,
+} from '@mui/icons-material'
+import { ConnectButton } from '@rainbow-me/rainbowkit'
+import { useAccount } from 'wagmi'
+import { useBlockchain } from '../hooks/useBlockchain'
+import { useAccountNotifications, useEmployeePortal } from '../hooks/useApi'
+import { Employee, OnChainBonus } from '../services/blockchainService'
+import { NETWORKS, PAYMENT_FREQUENCY_LABELS, PAYMENT_FREQUENCIES } from '../contracts/constants'
+import { getNextDueDate } from '../utils/payrollSchedule'
+import PayoutWalletCard from '../components/Employees/PayoutWalletCard'
+
+/**
+ * Employee self-service portal for Web3 Payroll System
+ * The connected wallet's own pay, payments and bonuses, and time-locked payout wallet changes
+ * @author Dev Austin
+ */
+
+const shortHash = (hash: string) => `${hash.slice(0, 10)}...${hash.slice(-6)}`
+
+const formatDate = (date: Date) => date.toLocaleDateString(undefined, {
+  year: 'numeric',
+  month: 'short',
+  day: 'numeric',
+})
+
+const getExplorerUrl = (chainId: number | null) => {
+  const network = Object.values(NETWORKS).find(item => item.chainId === chainId)
+  return network?.blockExplorer
+}
+
+const EmployeePortal: React.FC = () => {
+  const theme = useTheme()
+  const { address } = useAccount()
+  const {
+    currentNetwork,
+    getEmployee,
+    getPaymentIntervals,
+    getEmployeeBonuses,
+    getBonus,
+  } = useBlockchain()
+  const {
+    profile,
+    payments,
+    loading,
+    error,
+    recordWalletChangeRequest,
+    recordWalletChangeCancelled,
+    recordWalletChangeApplied,
+    refreshPortal,
+  } = useEmployeePortal()
+  const {
+    notifications,
+    unreadCount,
+    markRead,
+    refreshNotifications,
+  } = useAccountNotifications()
+
+  const [chainEmployee, setChainEmployee] = useState<Employee | null>(null)
+  const [nextPayDate, setNextPayDate] = useState<Date | null>(null)
+  const [pendingBonuses, setPendingBonuses] = useState<OnChainBonus[]>([])
+  const [loadingChain, setLoadingChain] = useState(false)
+
+  const explorerUrl = getExplorerUrl(currentNetwork)
+
+  // Only the connected wallet's own contract data is read
+  const loadChainData = useCallback(async () => {
+    if (!address || !currentNetwork) return
+
+    setLoadingChain(true)
+    try {
+      const [employee, intervals, bonusIds] = await Promise.all([
+        getEmployee(address),
+        getPaymentIntervals(),
+        getEmployeeBonuses(address),
+      ])
+      const bonuses = await Promise.all(bonusIds.map(bonusId => getBonus(bonusId)))
+
+      const registered = employee && employee.isActive ? employee : null
+      const interval = registered ? intervals[registered.frequency] : undefined
+      // A one-time payment that has been made has no next date
+      const paidOnce = interval === 0 && !!registered?.lastPaymentTimestamp
+
+      setChainEmployee(registered)
+      setNextPayDate(registered && interval !== undefined && !paidOnce ? getNextDueDate(registered, interval) : null)
+      setPendingBonuses(bonuses.filter((bonus): bonus is OnChainBonus =>
+        !!bonus && !bonus.distributed && bonus.recipient.toLowerCase() === address.toLowerCase()
+      ))
+    } catch (err) {
+      console.error('Error loading on-chain employee data:', err)
+    } finally {
+      setLoadingChain(false)
+    }
+  }, [address, currentNetwork, getEmployee, getPaymentIntervals, getEmployeeBonuses, getBonus])
+
+  useEffect(() => {
+    loadChainData()
+  }, [loadChainData])
+
+  const handleRefresh = async () => {
+    await Promise.all([refreshPortal(), loadChainData(), refreshNotifications()])
+  }
+
+  const frequencyLabel = chainEmployee
+    ? PAYMENT_FREQUENCY_LABELS[chainEmployee.frequency as keyof typeof PAYMENT_FREQUENCY_LABELS]
+    : profile && PAYMENT_FREQUENCY_LABELS[PAYMENT_FREQUENCIES[profile.paymentFrequency]]
+  const overdue = !!nextPayDate && nextPayDate < new Date()
+
+  const summaryCards = [
+    {
+      title: 'Salary',
+      value: chainEmployee
+        ? chainEmployee.salaryAmount
+        : profile?.salaryAmount || '-',
+      subtitle: profile?.paymentToken || 'ETH',
+      icon: <WalletIcon />,
+      color: theme.palette.primary.main,
+    },
+    {
+      title: 'Frequency',
+      value: frequencyLabel || '-',
+      subtitle: 'Pay schedule',
+      icon: <ScheduleIcon />,
+      color: theme.palette.secondary.main,
+    },
+    {
+      title: 'Next Pay Date',
+      value: nextPayDate ? formatDate(nextPayDate) : '-',
+      subtitle: nextPayDate
+        ? (overdue ? 'Due now' : 'Scheduled')
+        : 'Not scheduled',
+      icon: <EventIcon />,
+      color: overdue ? theme.palette.warning.main : theme.palette.success.main,
+    },
+    {
+      title: 'Pending Bonuses',
+      value: pendingBonuses.length.toString(),
+      subtitle: 'Awaiting payout',
+      icon: <CardGiftcardIcon />,
+      color: theme.palette.info.main,
+    },
+  ]
+
+  return (
+    <Container maxWidth="lg" sx={{ py: 4 }}>
+      {/* Header */}
+      <Box sx={{
+        mb: 4,
+        background: `linear-gradient(135deg, ${alpha(theme.palette.primary.main, 0.1)} 0%, ${alpha(theme.palette.secondary.main, 0.05)} 100%)`,
+        borderRadius: 2,
+        p: 3,
+        border: `1px solid ${alpha(theme.palette.primary.main, 0.12)}`,
+      }}>
+        <Stack direction={{ xs: 'column', md: 'row' }} justifyContent="space-between" alignItems={{ xs: 'flex-start', md: 'center' }} spacing={2}>
+          <Box>
+            <Typography variant="h4" fontWeight={700} gutterBottom>
+              {profile ? `Welcome, ${profile.name}` : 'My Payroll'}
+            </Typography>
+            <Stack direction="row" spacing={1} alignItems="center" flexWrap="wrap">
+              {profile?.ensDomain && (
+                <Chip icon={<ENSIcon />} label={profile.ensDomain} color="primary" variant="outlined" size="small" />
+              )}
+              {profile?.companyName && (
+                <Typography variant="body2" color="text.secondary">
+                  {profile.companyName}
+                </Typography>
+              )}
+            </Stack>
+          </Box>
+          <Stack direction="row" spacing={1} alignItems="center">
+            <Button
+              variant="outlined"
+              startIcon={loading || loadingChain ? <CircularProgress size={16} /> : <RefreshIcon />}
+              onClick={handleRefresh}
+              disabled={loading || loadingChain}
+            >
+              Refresh
+            </Button>
+            <ConnectButton showBalance={false} />
+          </Stack>
+        </Stack>
+      </Box>
+
+      {error && (
+        <Alert severity="error" sx={{ mb: 3 }}>
+          {error}
+        </Alert>
+      )}
+
+      <Alert severity="info" sx={{ mb: 3 }}>
+        Your employer manages your salary, schedule and ENS name. You can change the wallet you are paid to below.
+      </Alert>
+
+      {profile && !profile.isActive && (
+        <Alert severity="warning" sx={{ mb: 3 }}>
+          Your employment has ended. Past payments remain listed below.
+        </Alert>
+      )}
+
+      {/* Summary */}
+      <Grid container spacing={3} sx={{ mb: 4 }}>
+        {summaryCards.map(card => (
+          <Grid item xs={12} sm={6} md={3} key={card.title}>
+            <Card sx={{ height: '100%' }}>
+              <CardContent>
+                <Stack direction="row" spacing={2} alignItems="center">
+                  <Avatar sx={{ bgcolor: alpha(card.color, 0.1), color: card.color }}>
+                    {card.icon}
+                  </Avatar>
+                  <Box>
+                    <Typography variant="body2" color="text.secondary">
+                      {card.title}
+                    </Typography>
+                    {loading && !profile ? (
+                      <Skeleton width={80} />
+                    ) : (
+                      <Typography variant="h6" fontWeight={700}>
+                        {card.value}
+                      </Typography>
+                    )}
+                    <Typography variant="caption" color="text.secondary">
+                      {card.subtitle}
+                    </Typography>
+                  </Box>
+                </Stack>
+              </CardContent>
+            </Card>
+          </Grid>
+        ))}
+      </Grid>
+
+      {/* Notifications from the employer, e.g. wallet changes HR made */}
+      {notifications.length > 0 && (
+        <Card sx={{ mb: 4 }}>
+          <CardContent>
+            <Typography variant="h6" fontWeight={600} gutterBottom>
+              Notifications{unreadCount > 0 ? ` (${unreadCount} unread)` : ''}
+            </Typography>
+            <Stack spacing={1.5}>
+              {notifications.slice(0, 5).map(notification => (
+                <Alert
+                  key={notification._id}
+                  severity={notification.read ? 'info' : 'warning'}
+                  variant={notification.read ? 'outlined' : 'standard'}
+                  action={!notification.read && (
+                    <Button color="inherit" size="small" onClick={() => markRead(notification._id)}>
+                      Mark as read
+                    </Button>
+                  )}
+                >
+                  <Typography variant="body2" fontWeight={600}>
+                    {notification.title} · {formatDate(new Date(notification.createdAt))}
+                  </Typography>
+                  <Typography variant="body2">
+                    {notification.message}
+                  </Typography>
+                </Alert>
+              ))}
+            </Stack>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Payout Wallet */}
+      {profile && profile.isActive && address && (
+        <PayoutWalletCard
+          walletAddress={address}
+          walletChange={profile.walletChange}
+          recordWalletChangeRequest={recordWalletChangeRequest}
+          recordWalletChangeCancelled={recordWalletChangeCancelled}
+          recordWalletChangeApplied={recordWalletChangeApplied}
+        />
+      )}
+
+      {/* Pending Bonuses */}
+      <Card sx={{ mb: 4 }}>
+        <CardContent>
+          <Typography variant="h6" fontWeight={600} gutterBottom>
+            Pending Bonuses
+          </Typography>
+          {pendingBonuses.length === 0 ? (
+            <Typography variant="body2" color="text.secondary">
+              {loadingChain ? 'Loading bonuses...' : 'No bonuses are waiting to be paid.'}
+            </Typography>
+          ) : (
+            <TableContainer>
+              <Table size="small">
+                <TableHead>
+                  <TableRow>
+                    <TableCell>Bonus</TableCell>
+                    <TableCell>Reason</TableCell>
+                    <TableCell>Created</TableCell>
+                    <TableCell align="right">Amount</TableCell>
+                  </TableRow>
+                </TableHead>
+                <TableBody>
+                  {pendingBonuses.map(bonus => (
+                    <TableRow key={bonus.bonusId}>
+                      <TableCell>#{bonus.bonusId}</TableCell>
+                      <TableCell>{bonus.reason || '-'}</TableCell>
+                      <TableCell>{formatDate(new Date(bonus.timestamp * 1000))}</TableCell>
+                      <TableCell align="right">
+                        {bonus.amount} {bonus.tokenSymbol}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </TableContainer>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Payment History */}
+      <Card>
+        <CardContent>
+          <Typography variant="h6" fontWeight={600} gutterBottom>
+            Payment History
+          </Typography>
+          {payments.length === 0 ? (
+            <Typography variant="body2" color="text.secondary">
+              {loading ? 'Loading payments...' : 'No payments have been recorded yet.'}
+            </Typography>
+          ) : (
+            <TableContainer>
+              <Table size="small">
+                <TableHead>
+                  <TableRow>
+                    <TableCell>Date</TableCell>
+                    <TableCell>Type</TableCell>
+                    <TableCell>Transaction</TableCell>
+                    <TableCell align="right">Amount</TableCell>
+                  </TableRow>
+                </TableHead>
+                <TableBody>
+                  {payments.map(payment => (
+                    <TableRow key={payment._id}>
+                      <TableCell>{formatDate(new Date(payment.paymentDate))}</TableCell>
+                      <TableCell>
+                        <Chip
+                          size="small"
+                          label={payment.paymentType === 'bonus' ? 'Bonus' : 'Salary'}
+                          color={payment.paymentType === 'bonus' ? 'info' : 'primary'}
+                          variant="outlined"
+                        />
+                      </TableCell>
+                      <TableCell>
+                        {explorerUrl ? (
+                          <Link
+                            href={`${explorerUrl}/tx/${payment.transactionHash}`}
+                            target="_blank"
+                            rel="noopener noreferrer"
+                            sx={{ display: 'inline-flex', alignItems: 'center', gap: 0.5, fontFamily: 'monospace' }}
+                          >
+                            {shortHash(payment.transactionHash)}
+                            <LaunchIcon sx={{ fontSize: 14 }} />
+                          </Link>
+                        ) : (
+                          <Typography variant="body2" fontFamily="monospace">
+                            {shortHash(payment.transactionHash)}
+                          </Typography>
+                        )}
+                      </TableCell>
+                      <TableCell align="right">
+                        {payment.amount} {payment.tokenSymbol}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </TableContainer>
+          )}
+        </CardContent>
+      </Card>
+    </Container>
+  )
+}
+
+export default EmployeePortal
@@ -1,4 +1,4 @@
-import React, { useState } from 'react'
+import React, { useState, useEffect } from 'react'
 import {
   Box,
   Typography,
@@ -62,14 +62,30 @@ import {
   Info as InfoIcon,
   Error as ErrorIcon,
   GetApp as GetAppIcon,
+  SwapHoriz as SwapHorizIcon,
 } from '@mui/icons-material'
 import { useAccount } from 'wagmi'
+import { ethers } from 'ethers'
 import { useAppDispatch } from '../store/store'
 import { addNotification } from '../store/slices/uiSlice'
 import { useBlockchain } from '../hooks/useBlockchain'
-import { useEmployees } from '../hooks/useApi'
+import { useAuth } from '../context/AuthContext'
+import { useEmployees, useEmployeeInvites } from '../hooks/useApi'
+import { useImportValidation } from '../hooks/useImportValidation'
+import { EmployeeData, EmployeeInvite } from '../services/apiService'
+import { AddEmployeeParams, EmployeeAddedEvent } from '../services/blockchainService'
+import EditCompensationDialog from '../components/Employees/EditCompensationDialog'
+import TerminateEmployeeDialog from '../components/Employees/TerminateEmployeeDialog'
+import SpreadsheetImportDialog from '../components/Employees/SpreadsheetImportDialog'
+import ImportPreviewGrid, { ImportRowProgress } from '../components/Employees/ImportPreviewGrid'
+import EmployeeInvitesCard, { getInviteLink } from '../components/Employees/EmployeeInvitesCard'
+import WalletChangeDialog from '../components/Employees/WalletChangeDialog'
+import { getImportSubdomain } from '../utils/importValidation'
+import { chunkRows, getImportRowKey, getResultError, onboardImportRows } from '../utils/bulkOnboarding'
 import {
+  PAYMENT_FREQUENCIES,
   PAYMENT_FREQUENCY_LABELS,
+  TOKEN_ADDRESSES,
   TOKEN_INFO,
 } from '../contracts/constants'
 
@@ -84,7 +100,17 @@ const EmployeesNew: React.FC = () => {
   const dispatch = useAppDispatch()
 
   // Blockchain hooks
-  const { isOwner, refreshData } = useBlockchain()
+  const {
+    currentNetwork,
+    refreshData,
+    getPaymentIntervals,
+    addEmployeesBatch,
+    getEmployeeAddedEvents,
+  } = useBlockchain()
+  const { hasRole } = useAuth()
+
+  // The owner and HR manage employees; assigning HR in Settings also grants HR_ROLE on the contract
+  const canManageEmployees = hasRole('hr')
 
   // API hooks
   const {
@@ -95,7 +121,25 @@ const EmployeesNew: React.FC = () => {
     error: apiError,
     refreshEmployees,
     createEmployee,
+    updateEmployee,
+    terminateEmployee,
+    recordOnboardedEmployees,
+    recordWalletChangeRequest,
+    recordWalletChangeCancelled,
+    recordWalletChangeApplied,
   } = useEmployees()
+
+  // Invites for employees who still have to confirm their wallet
+  const {
+    invites,
+    loading: invitesLoading,
+    createInvite,
+    createInvites,
+    revokeInvite,
+    refreshInvites,
+  } = useEmployeeInvites(canManageEmployees)
+  const [inviteBusyId, setInviteBusyId] = useState<string | null>(null)
+  const [onboarding, setOnboarding] = useState(false)
   
   // Local state
   const [refreshing, setRefreshing] = useState(false)
@@ -119,8 +163,7 @@ const EmployeesNew: React.FC = () => {
     employmentType: 'full-time' as 'full-time' | 'part-time' | 'contractor',
     startDate: new Date().toISOString().split('T')[0],
     isActive: true,
-    // Payroll Settings
-    walletAddress: '',
+    // Payroll Settings (the employee supplies the wallet by accepting the invite)
     salaryAmount: '',
     paymentFrequency: 'MONTHLY' as 'WEEKLY' | 'BIWEEKLY' | 'MONTHLY' | 'QUARTERLY' | 'ONE_TIME',
     preferredToken: 'ETH',
@@ -131,34 +174,63 @@ const EmployeesNew: React.FC = () => {
     taxExempt: false,
   })
 
+  // Frequencies the deployed contract accepts, null until checked
+  const [supportedFrequencies, setSupportedFrequencies] = useState<number[] | null>(null)
+
+  // Edit Compensation Dialog State
+  const [editingEmployee, setEditingEmployee] = useState<EmployeeData | null>(null)
+  const [terminatingEmployee, setTerminatingEmployee] = useState<EmployeeData | null>(null)
+  const [walletChangeEmployee, setWalletChangeEmployee] = useState<EmployeeData | null>(null)
+
   // Bulk Import State
   const [bulkImportOpen, setBulkImportOpen] = useState(false)
   const [uploadedFile, setUploadedFile] = useState<File | null>(null)
   const [parsedData, setParsedData] = useState<any[]>([])
+  const [spreadsheetFile, setSpreadsheetFile] = useState<File | null>(null)
   const [importing, setImporting] = useState(false)
   const [importProgress, setImportProgress] = useState(0)
+  // Keyed by lowercased wallet, since imported rows leave the preview
+  const [importStatuses, setImportStatuses] = useState<Record<string, ImportRowProgress>>({})
   const [importResults, setImportResults] = useState<{
     successful: number
     failed: number
     errors: string[]
   }>({ successful: 0, failed: 0, errors: [] })
+  const {
+    errors: importErrors,
+    validCount: validImportCount,
+    checking: checkingImport,
+  } = useImportValidation(parsedData)
+
+  // Catch frequencies the deployed contract doesn't know before an employee is saved with one
+  useEffect(() => {
+    if (!addDialogOpen || !isConnected) return
+    getPaymentIntervals()
+      .then(intervals => setSupportedFrequencies(Object.keys(intervals).map(Number)))
+      .catch(err => console.error('Error checking supported frequencies:', err))
+  }, [addDialogOpen, isConnected, getPaymentIntervals])
+
+  const isFrequencySupported = (frequency: keyof typeof PAYMENT_FREQUENCIES) => {
+    return !supportedFrequencies || supportedFrequencies.includes(PAYMENT_FREQUENCIES[frequency])
+  }
 
   // Helper functions
   const getTokenSymbol = (tokenAddress: string) => {
+    // The backend stores the symbol itself
+    if (tokenAddress in TOKEN_INFO) return tokenAddress
     const token = Object.values(TOKEN_INFO).find(
       t => 'address' in t && (t as { address: string }).address === tokenAddress
     )
     return token?.symbol || 'ETH'
   }
 
-  const isValidWalletAddress = (address: string) => {
-    return /^0x[a-fA-F0-9]{40}$/.test(address)
-  }
-
   const isValidEmail = (email: string) => {
     return /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email)
   }
 
+  // Shown to HR until each change is applied or cancelled
+  const pendingWalletChanges = (apiEmployees || []).filter(employee => employee.walletChange)
+
   const getFilteredEmployees = () => {
     if (!apiEmployees) return []
     
@@ -215,7 +287,6 @@ const EmployeesNew: React.FC = () => {
       employmentType: 'full-time',
       startDate: new Date().toISOString().split('T')[0],
       isActive: true,
-      walletAddress: '',
       salaryAmount: '',
       paymentFrequency: 'MONTHLY',
       preferredToken: 'ETH',
@@ -236,7 +307,7 @@ const EmployeesNew: React.FC = () => {
     setSubmitting(true)
     try {
       // Validate required fields
-      if (!formData.name || !formData.email || !formData.walletAddress || 
+      if (!formData.name || !formData.email ||
           !formData.position || !formData.department || !formData.salaryAmount) {
         dispatch(addNotification({
           type: 'error',
@@ -256,12 +327,11 @@ const EmployeesNew: React.FC = () => {
         return
       }
 
-      // Validate wallet address format
-      if (!isValidWalletAddress(formData.walletAddress)) {
+      if (!isFrequencySupported(formData.paymentFrequency)) {
         dispatch(addNotification({
           type: 'error',
-          title: 'Invalid Wallet Address',
-          message: 'Please enter a valid Ethereum wallet address.',
+          title: 'Unsupported Frequency',
+          message: 'The deployed payroll contract does not support this payment frequency.',
         }))
         return
       }
@@ -277,65 +347,93 @@ const EmployeesNew: React.FC = () => {
         return
       }
 
-      // Prepare employee data
-      const employeeData = {
-        personalInfo: {
-          name: formData.name,
-          email: formData.email,
-          phone: formData.phone,
-        },
-        employmentDetails: {
-          startDate: formData.startDate,
-          position: formData.position,
-          department: formData.department,
-          employmentType: formData.employmentType,
-          isActive: formData.isActive,
-        },
-        payrollSettings: {
-          walletAddress: formData.walletAddress,
-          salaryAmount: formData.salaryAmount,
-          paymentFrequency: formData.paymentFrequency,
-          preferredToken: formData.preferredToken,
-          lastPaymentTimestamp: 0,
-        },
-        ensDetails: {
-          subdomain: formData.subdomain || formData.name.toLowerCase().replace(/\s+/g, ''),
-          fullDomain: `${formData.subdomain || formData.name.toLowerCase().replace(/\s+/g, '')}.company.eth`,
-          ensNode: '',
-        },
-        taxInformation: {
-          withholdings: formData.withholdings,
-          taxExempt: formData.taxExempt,
-        },
-      }
+      const invite = await createInvite({
+        name: formData.name,
+        salaryAmount: formData.salaryAmount,
+        paymentToken: formData.preferredToken,
+        paymentFrequency: formData.paymentFrequency,
+      })
 
-      const success = await createEmployee(employeeData)
-      
-      if (success) {
-        dispatch(addNotification({
-          type: 'success',
-          title: 'Employee Added',
-          message: `${formData.name} has been successfully added to the system.`,
-        }))
+      if (invite) {
+        await copyInviteLink(invite)
         handleAddEmployeeClose()
       } else {
         dispatch(addNotification({
           type: 'error',
-          title: 'Add Employee Failed',
-          message: 'Failed to add employee. Please try again.',
+          title: 'Invite Failed',
+          message: 'Failed to create the invite. Please try again.',
         }))
       }
     } catch (error) {
       dispatch(addNotification({
         type: 'error',
-        title: 'Add Employee Failed',
-        message: 'An error occurred while adding the employee.',
+        title: 'Invite Failed',
+        message: 'An error occurred while creating the invite.',
       }))
     } finally {
       setSubmitting(false)
     }
   }
 
+  // Invite Functions
+  const copyInviteLink = async (invite: EmployeeInvite) => {
+    const link = getInviteLink(invite)
+    try {
+      await navigator.clipboard.writeText(link)
+      dispatch(addNotification({
+        type: 'success',
+        title: 'Invite Link Copied',
+        message: `Send the link to ${invite.name}. They connect their wallet and sign to confirm it.`,
+      }))
+    } catch {
+      dispatch(addNotification({
+        type: 'info',
+        title: 'Invite Link',
+        message: link,
+      }))
+    }
+  }
+
+  const handleRevokeInvite = async (invite: EmployeeInvite) => {
+    setInviteBusyId(invite._id)
+    const revoked = await revokeInvite(invite._id)
+    setInviteBusyId(null)
+
+    dispatch(addNotification(revoked ? {
+      type: 'success',
+      title: 'Invite Revoked',
+      message: `The invite link for ${invite.name} no longer works.`,
+    } : {
+      type: 'error',
+      title: 'Revoke Failed',
+      message: 'Failed to revoke the invite. Please try again.',
+    }))
+  }
+
+  /**
+   * Create the employee record from an invite whose wallet the employee signed for
+   */
+  const handleAddInvitedEmployee = async (invite: EmployeeInvite) => {
+    setInviteBusyId(invite._id)
+    const success = await createEmployee({ inviteId: invite._id })
+    setInviteBusyId(null)
+
+    if (success) {
+      await refreshInvites()
+      dispatch(addNotification({
+        type: 'success',
+        title: 'Employee Added',
+        message: `${invite.name} has been added with their confirmed wallet. Add them on-chain from Reconciliation.`,
+      }))
+    } else {
+      dispatch(addNotification({
+        type: 'error',
+        title: 'Add Employee Failed',
+        message: 'Failed to add employee. Please try again.',
+      }))
+    }
+  }
+
   // Bulk Import Functions
   const handleBulkImportOpen = () => {
     setBulkImportOpen(true)
@@ -344,9 +442,11 @@ const EmployeesNew: React.FC = () => {
   const handleBulkImportClose = () => {
     setBulkImportOpen(false)
     setUploadedFile(null)
+    setSpreadsheetFile(null)
     setParsedData([])
     setImportResults({ successful: 0, failed: 0, errors: [] })
     setImportProgress(0)
+    setImportStatuses({})
   }
 
   const handleFileUpload = (event: React.ChangeEvent<HTMLInputElement>) => {
@@ -413,7 +513,7 @@ const EmployeesNew: React.FC = () => {
     }
 
     const headers = lines[0].split(',').map(h => h.trim().replace(/"/g, ''))
-    const data = []
+    const rows = []
 
     for (let i = 1; i < lines.length; i++) {
       const values = lines[i].split(',').map(v => v.trim().replace(/"/g, ''))
@@ -423,124 +523,242 @@ const EmployeesNew: React.FC = () => {
         row[header.toLowerCase().replace(/\s+/g, '_')] = values[index] || ''
       })
       
-      if (row.name && row.email) { // Basic validation
-        data.push(row)
-      }
+      rows.push(row)
     }
 
+    loadParsedRows(rows, 'CSV')
+  }
+
+  const parseExcel = async (file: File) => {
+    // Sheet, header row and columns are picked in the mapping dialog
+    setSpreadsheetFile(file)
+  }
+
+  const handleSpreadsheetImport = (rows: Record<string, string>[]) => {
+    setSpreadsheetFile(null)
+    loadParsedRows(rows, 'Excel')
+  }
+
+  /**
+   * Shared by the CSV and Excel parsers: rows keyed by template column names
+   */
+  const loadParsedRows = (rows: Record<string, string>[], source: string) => {
+    // Keep incomplete rows: the preview flags them so they can be fixed in place
+    const data = rows.filter(row => Object.values(row).some(value => value?.trim()))
+
     setParsedData(data)
     
     dispatch(addNotification({
       type: 'success',
       title: 'File Parsed',
-      message: `Successfully parsed ${data.length} employee records from CSV.`,
+      message: `Successfully parsed ${data.length} employee records from ${source}.`,
     }))
   }
 
-  const parseExcel = async (file: File) => {
-    // For Excel parsing, we'd typically use a library like xlsx
-    // For now, we'll show an instruction to convert to CSV
-    dispatch(addNotification({
-      type: 'info',
-      title: 'Excel Support',
-      message: 'Excel files detected. For now, please convert to CSV format and re-upload.',
-    }))
+  const handleImportCellChange = (index: number, column: string, value: string) => {
+    setParsedData(prev => prev.map((row, i) => i === index ? { ...row, [column]: value } : row))
   }
 
-  const handleBulkImport = async () => {
-    if (parsedData.length === 0) {
+  const setRowProgress = (rows: any[], progress: ImportRowProgress) => {
+    setImportStatuses(prev => {
+      const next = { ...prev }
+      rows.forEach(row => {
+        next[getImportRowKey(row)] = progress
+      })
+      return next
+    })
+  }
+
+  // Only rows that passed every check in the preview are submitted; null when there are none
+  const getValidImportRows = (action: string) => {
+    if (!canManageEmployees) {
       dispatch(addNotification({
         type: 'error',
-        title: 'No Data',
-        message: 'Please upload and parse a file first.',
+        title: 'Not Authorized',
+        message: `Only the owner or HR can ${action} employees.`,
       }))
-      return
+      return null
+    }
+
+    const validRows = parsedData.filter((_, index) => Object.keys(importErrors[index] || {}).length === 0)
+    if (validRows.length === 0) {
+      dispatch(addNotification({
+        type: 'error',
+        title: 'No Valid Rows',
+        message: 'Fix the highlighted cells in the preview before importing.',
+      }))
+      return null
     }
 
+    return validRows
+  }
+
+  /**
+   * Onboard the valid rows on-chain in batches; each batch is saved to the
+   * backend only once its EmployeeAdded events are final
+   */
+  const handleBulkImport = async () => {
+    const validRows = getValidImportRows('onboard')
+    if (!validRows) return
+
+    const networkTokens: Record<string, string> = currentNetwork
+      ? TOKEN_ADDRESSES[currentNetwork as keyof typeof TOKEN_ADDRESSES] || {}
+      : {}
+
     setImporting(true)
     setImportProgress(0)
-    
-    const results = { successful: 0, failed: 0, errors: [] as string[] }
+    setImportStatuses({})
+
+    const { onChain, ...results } = await onboardImportRows(
+      validRows,
+      networkTokens,
+      { addEmployeesBatch, getEmployeeAddedEvents, recordOnboardedEmployees },
+      setRowProgress,
+      (done, total) => setImportProgress((done / total) * 100)
+    )
 
-    for (let i = 0; i < parsedData.length; i++) {
-      const row = parsedData[i]
-      
-      try {
-        // Validate required fields
-        if (!row.name || !row.email || !row.wallet_address || !row.position || !row.department || !row.salary_amount) {
-          results.failed++
-          results.errors.push(`Row ${i + 2}: Missing required fields`)
-          continue
-        }
+    // Leave the rows that still need attention in the preview
+    setParsedData(prev => prev.filter(row => !onChain.includes(row)))
+    setImportResults(results)
+    setImporting(false)
 
-        // Validate email and wallet address
-        if (!isValidEmail(row.email)) {
-          results.failed++
-          results.errors.push(`Row ${i + 2}: Invalid email format`)
-          continue
-        }
+    dispatch(addNotification({
+      type: results.successful > 0 ? 'success' : 'error',
+      title: 'Bulk Import Complete',
+      message: `Successfully imported ${results.successful} employees. ${results.failed} failed.`,
+    }))
+  }
 
-        if (!isValidWalletAddress(row.wallet_address)) {
-          results.failed++
-          results.errors.push(`Row ${i + 2}: Invalid wallet address format`)
-          continue
-        }
+  /**
+   * Invite the valid rows instead of onboarding them. The wallet in the file is only
+   * expected: each employee signs their invite with it before they can be onboarded.
+   */
+  const handleBulkInvite = async () => {
+    const validRows = getValidImportRows('invite')
+    if (!validRows) return
 
-        // Prepare employee data
-        const employeeData = {
-          personalInfo: {
-            name: row.name,
-            email: row.email,
-            phone: row.phone || '',
-          },
-          employmentDetails: {
-            startDate: row.start_date || new Date().toISOString().split('T')[0],
-            position: row.position,
-            department: row.department,
-            employmentType: (row.employment_type || 'full-time') as 'full-time' | 'part-time' | 'contractor',
-            isActive: row.is_active !== 'false',
-          },
-          payrollSettings: {
-            walletAddress: row.wallet_address,
-            salaryAmount: row.salary_amount,
-            paymentFrequency: (row.payment_frequency || 'MONTHLY') as 'WEEKLY' | 'BIWEEKLY' | 'MONTHLY' | 'QUARTERLY' | 'ONE_TIME',
-            preferredToken: row.preferred_token || 'ETH',
-            lastPaymentTimestamp: 0,
-          },
-          ensDetails: {
-            subdomain: row.subdomain || row.name.toLowerCase().replace(/\s+/g, ''),
-            fullDomain: `${row.subdomain || row.name.toLowerCase().replace(/\s+/g, '')}.company.eth`,
-            ensNode: '',
-          },
-          taxInformation: {
-            withholdings: parseFloat(row.withholdings) || 0,
-            taxExempt: row.tax_exempt === 'true',
-          },
-        }
+    setImporting(true)
+    setImportProgress(0)
+    setImportStatuses({})
+    setRowProgress(validRows, { state: 'queued' })
 
-        const success = await createEmployee(employeeData)
-        
-        if (success) {
-          results.successful++
-        } else {
+    const results = { successful: 0, failed: 0, errors: [] as string[] }
+    const invited: any[] = []
+    const imported = await createInvites(validRows.map(row => ({
+      name: row.name.trim(),
+      salaryAmount: row.salary_amount.trim(),
+      paymentToken: row.preferred_token || 'ETH',
+      paymentFrequency: row.payment_frequency || 'MONTHLY',
+      expectedWallet: row.wallet_address.trim(),
+      subdomain: getImportSubdomain(row),
+      position: row.position,
+      department: row.department,
+    })))
+
+    if (!imported) {
+      results.failed = validRows.length
+      results.errors.push('Could not reach the backend. No invites were created.')
+      setRowProgress(validRows, { state: 'failed', message: 'Could not reach the backend' })
+    } else {
+      const skipped = new Map(imported.skipped.map(item => [item.index, item.error]))
+      validRows.forEach((row, index) => {
+        const error = skipped.get(index)
+        if (error) {
           results.failed++
-          results.errors.push(`Row ${i + 2}: Failed to create employee`)
+          results.errors.push(`${row.name} (${row.email}): ${error}`)
+          setRowProgress([row], { state: 'failed', message: error })
+        } else {
+          results.successful++
+          invited.push(row)
         }
-      } catch (error) {
-        results.failed++
-        results.errors.push(`Row ${i + 2}: ${error instanceof Error ? error.message : 'Unknown error'}`)
-      }
-
-      setImportProgress(((i + 1) / parsedData.length) * 100)
+      })
     }
+    setImportProgress(100)
 
+    // Leave the rows that still need attention in the preview
+    setParsedData(prev => prev.filter(row => !invited.includes(row)))
     setImportResults(results)
     setImporting(false)
 
     dispatch(addNotification({
       type: results.successful > 0 ? 'success' : 'error',
-      title: 'Bulk Import Complete',
-      message: `Successfully imported ${results.successful} employees. ${results.failed} failed.`,
+      title: 'Invites Created',
+      message: `Created ${results.successful} invites, ${results.failed} failed. Send each employee their link; they can be onboarded once they confirm their wallet.`,
+    }))
+  }
+
+  /**
+   * Onboard employees who confirmed their wallet on-chain in batches; each batch
+   * is saved to the backend only once its EmployeeAdded events are final
+   */
+  const handleOnboardInvites = async (accepted: EmployeeInvite[]) => {
+    if (!canManageEmployees || accepted.length === 0) return
+
+    const networkTokens: Record<string, string> = currentNetwork
+      ? TOKEN_ADDRESSES[currentNetwork as keyof typeof TOKEN_ADDRESSES] || {}
+      : {}
+
+    setOnboarding(true)
+
+    const results = { onboarded: 0, errors: [] as string[] }
+    const chunks = chunkRows(accepted)
+
+    for (let c = 0; c < chunks.length; c++) {
+      const chunk = chunks[c]
+      const params: AddEmployeeParams[] = chunk.map(invite => ({
+        employee: ethers.utils.getAddress(invite.walletAddress as string),
+        salary: invite.salaryAmount,
+        subdomain: getImportSubdomain({ name: invite.name, subdomain: invite.subdomain || '' }),
+        frequency: PAYMENT_FREQUENCIES[invite.paymentFrequency],
+        token: networkTokens[invite.paymentToken],
+        position: invite.position || '',
+        department: invite.department || '',
+      }))
+
+      const result = await addEmployeesBatch(params)
+      if (!result.success || !result.transactionHash) {
+        results.errors.push(`Batch ${c + 1} of ${chunks.length}: ${getResultError(result, 'Failed to onboard employees')}. Remaining employees were not sent.`)
+        break
+      }
+
+      try {
+        // The batch is atomic, but only invites with a confirmed event are written back
+        const events = await getEmployeeAddedEvents(result.transactionHash)
+        const eventByWallet = new Map(events.map(event => [event.employee.toLowerCase(), event]))
+        const confirmed = chunk.filter(invite => eventByWallet.has((invite.walletAddress as string).toLowerCase()))
+
+        const recorded = await recordOnboardedEmployees(confirmed.map(invite => {
+          const event = eventByWallet.get((invite.walletAddress as string).toLowerCase()) as EmployeeAddedEvent
+          return {
+            inviteId: invite._id,
+            walletAddress: event.employee,
+            ensName: event.ensSubdomain,
+            ensNode: event.ensNode,
+            transactionHash: event.transactionHash,
+          }
+        }))
+
+        const skipped = new Map((recorded?.skipped || []).map(item => [item.walletAddress.toLowerCase(), item.error]))
+        confirmed.forEach(invite => {
+          const error = recorded ? skipped.get((invite.walletAddress as string).toLowerCase()) : 'Could not reach the backend'
+          if (error) {
+            results.errors.push(`${invite.name}: added on-chain but not saved - ${error}. Use Reconciliation to sync it.`)
+          } else {
+            results.onboarded++
+          }
+        })
+      } catch (error) {
+        results.errors.push(`Batch ${c + 1} of ${chunks.length}: ${error instanceof Error ? error.message : 'Unknown error'}`)
+      }
+    }
+
+    await refreshInvites()
+    setOnboarding(false)
+
+    dispatch(addNotification({
+      type: results.errors.length === 0 ? 'success' : results.onboarded > 0 ? 'warning' : 'error',
+      title: 'Onboarding Complete',
+      message: [`Onboarded ${results.onboarded} of ${accepted.length} employees.`, ...results.errors].join(' '),
     }))
   }
 
@@ -782,7 +1000,7 @@ const EmployeesNew: React.FC = () => {
             <Button
               variant="contained"
               startIcon={<AddIcon />}
-              disabled={!isOwner}
+              disabled={!canManageEmployees}
               onClick={handleAddEmployeeOpen}
               sx={{ 
                 bgcolor: 'rgba(255,255,255,0.2)', 
@@ -790,12 +1008,12 @@ const EmployeesNew: React.FC = () => {
                 borderRadius: 2
               }}
             >
-              Add Employee
+              Invite Employee
             </Button>
             <Button
               variant="outlined"
               startIcon={<CloudUploadIcon />}
-              disabled={!isOwner}
+              disabled={!canManageEmployees}
               onClick={handleBulkImportOpen}
               sx={{ 
                 color: 'white',
@@ -842,9 +1060,9 @@ const EmployeesNew: React.FC = () => {
           </Alert>
         )}
 
-        {!isOwner && (
+        {!canManageEmployees && (
           <Alert severity="info" icon={<InfoIcon />} sx={{ borderRadius: 2 }}>
-            You are viewing as a non-owner. Some administrative functions are not available.
+            Your role can view employees but not change them. Ask the company owner for the HR role to manage them.
           </Alert>
         )}
       </Stack>
@@ -962,6 +1180,34 @@ const EmployeesNew: React.FC = () => {
         </Grid>
       </Paper>
 
+      {/* Pending Wallet Changes */}
+      {pendingWalletChanges.length > 0 && (
+        <Alert severity="warning" sx={{ mb: 3, borderRadius: 2 }}>
+          {pendingWalletChanges.length === 1 ? 'A payout wallet change is' : `${pendingWalletChanges.length} payout wallet changes are`} waiting
+          for the cooldown:{' '}
+          {pendingWalletChanges.map(employee => (
+            `${employee.personalInfo?.name || 'Employee'} to ${employee.walletChange!.newWallet.slice(0, 6)}...${employee.walletChange!.newWallet.slice(-4)}` +
+            ` (${new Date(employee.walletChange!.effectiveAt).toLocaleString()})`
+          )).join(', ')}.
+          Cancel any change the employee did not ask for.
+        </Alert>
+      )}
+
+      {/* Employee Invites */}
+      {canManageEmployees && invites.length > 0 && (
+        <EmployeeInvitesCard
+          invites={invites}
+          loading={invitesLoading}
+          busyId={inviteBusyId}
+          onboarding={onboarding}
+          onCopyLink={copyInviteLink}
+          onRevoke={handleRevokeInvite}
+          onAddToPayroll={handleAddInvitedEmployee}
+          onOnboardConfirmed={handleOnboardInvites}
+          onRefresh={refreshInvites}
+        />
+      )}
+
       {/* Employee Table */}
       <Card sx={{ borderRadius: 3, overflow: 'hidden' }}>
         <CardHeader
@@ -1005,12 +1251,12 @@ const EmployeesNew: React.FC = () => {
                 : "Try adjusting your search or filter criteria."
               }
             </Typography>
-            {isOwner && apiEmployees?.length === 0 && (
+            {canManageEmployees && apiEmployees?.length === 0 && (
               <Button
                 variant="contained"
                 startIcon={<AddIcon />}
               >
-                Add First Employee
+                Invite First Employee
               </Button>
             )}
           </Box>
@@ -1070,13 +1316,16 @@ const EmployeesNew: React.FC = () => {
                             : 'Not set'
                           }
                         </Typography>
+                        {employee.walletChange && (
+                          <Chip label="Change pending" size="small" color="warning" variant="outlined" sx={{ mt: 0.5 }} />
+                        )}
                       </TableCell>
                       <TableCell>
                         <Typography variant="body2" sx={{ fontWeight: 600 }}>
                           {employee.payrollSettings?.salaryAmount || '0'} {getTokenSymbol(employee.payrollSettings?.preferredToken || '')}
                         </Typography>
                         <Typography variant="caption" color="text.secondary">
-                          {PAYMENT_FREQUENCY_LABELS[employee.payrollSettings?.paymentFrequency as unknown as keyof typeof PAYMENT_FREQUENCY_LABELS] || 'Monthly'}
+                          {PAYMENT_FREQUENCY_LABELS[PAYMENT_FREQUENCIES[employee.payrollSettings?.paymentFrequency || 'MONTHLY']] || 'Monthly'}
                         </Typography>
                       </TableCell>
                       <TableCell>
@@ -1109,21 +1358,33 @@ const EmployeesNew: React.FC = () => {
                               <VisibilityIcon />
                             </IconButton>
                           </Tooltip>
-                          {isOwner && (
+                          {canManageEmployees && (
                             <>
-                              <Tooltip title="Edit Employee">
-                                <IconButton size="small">
+                              <Tooltip title="Edit Compensation">
+                                <IconButton size="small" onClick={() => setEditingEmployee(employee)}>
                                   <EditIcon />
                                 </IconButton>
                               </Tooltip>
-                              <Tooltip title="Toggle Status">
+                              <Tooltip title={employee.employmentDetails?.isActive ? 'Terminate Employee' : `Terminated ${employee.employmentDetails?.terminationDate ? new Date(employee.employmentDetails.terminationDate).toLocaleDateString() : ''}`}>
                                 <IconButton 
                                   size="small"
                                   color={employee.employmentDetails?.isActive ? "error" : "success"}
+                                  onClick={() => employee.employmentDetails?.isActive && setTerminatingEmployee(employee)}
                                 >
                                   {employee.employmentDetails?.isActive ? <ToggleOffIcon /> : <ToggleOnIcon />}
                                 </IconButton>
                               </Tooltip>
+                              {employee.employmentDetails?.isActive && (
+                                <Tooltip title={employee.walletChange ? 'Pending Wallet Change' : 'Change Payout Wallet'}>
+                                  <IconButton
+                                    size="small"
+                                    color={employee.walletChange ? 'warning' : 'default'}
+                                    onClick={() => setWalletChangeEmployee(employee)}
+                                  >
+                                    <SwapHorizIcon />
+                                  </IconButton>
+                                </Tooltip>
+                              )}
                             </>
                           )}
                         </Stack>
@@ -1150,6 +1411,32 @@ const EmployeesNew: React.FC = () => {
         )}
       </Card>
 
+      {/* Edit Compensation Dialog */}
+      <EditCompensationDialog
+        open={!!editingEmployee}
+        employee={editingEmployee}
+        onClose={() => setEditingEmployee(null)}
+        updateEmployee={updateEmployee}
+      />
+
+      {/* Terminate Employee Dialog */}
+      <TerminateEmployeeDialog
+        open={!!terminatingEmployee}
+        employee={terminatingEmployee}
+        onClose={() => setTerminatingEmployee(null)}
+        terminateEmployee={terminateEmployee}
+      />
+
+      {/* Wallet Change Dialog */}
+      <WalletChangeDialog
+        open={!!walletChangeEmployee}
+        employee={walletChangeEmployee}
+        onClose={() => setWalletChangeEmployee(null)}
+        recordWalletChangeRequest={recordWalletChangeRequest}
+        recordWalletChangeCancelled={recordWalletChangeCancelled}
+        recordWalletChangeApplied={recordWalletChangeApplied}
+      />
+
       {/* Add Employee Dialog */}
       <Dialog 
         open={addDialogOpen} 
@@ -1167,10 +1454,10 @@ const EmployeesNew: React.FC = () => {
             </Avatar>
             <Box>
               <Typography variant="h6" fontWeight={600}>
-                Add New Employee
+                Invite New Employee
               </Typography>
               <Typography variant="body2" color="text.secondary">
-                Create a new employee profile with payroll settings
+                Set up payroll settings and send the employee an invite link to confirm their wallet
               </Typography>
             </Box>
           </Stack>
@@ -1294,22 +1581,10 @@ const EmployeesNew: React.FC = () => {
             </Grid>
             
             <Grid item xs={12}>
-              <TextField
-                fullWidth
-                label="Wallet Address"
-                value={formData.walletAddress}
-                onChange={(e) => handleFormChange('walletAddress', e.target.value)}
-                required
-                error={Boolean(!formData.walletAddress || (formData.walletAddress.length > 0 && !isValidWalletAddress(formData.walletAddress)))}
-                helperText={
-                  !formData.walletAddress 
-                    ? 'Wallet address is required' 
-                    : formData.walletAddress.length > 0 && !isValidWalletAddress(formData.walletAddress)
-                    ? 'Please enter a valid Ethereum wallet address (0x...)'
-                    : 'Ethereum wallet address for receiving payments'
-                }
-                placeholder="0x..."
-              />
+              <Alert severity="info" sx={{ borderRadius: 2 }}>
+                No wallet address needed. You get an invite link for the employee, who connects
+                their wallet and signs to confirm it before they can be added to payroll.
+              </Alert>
             </Grid>
             
             <Grid item xs={12} md={6}>
@@ -1342,11 +1617,12 @@ const EmployeesNew: React.FC = () => {
                   label="Payment Frequency"
                   onChange={(e) => handleFormChange('paymentFrequency', e.target.value)}
                 >
-                  <MenuItem value="WEEKLY">Weekly</MenuItem>
-                  <MenuItem value="BIWEEKLY">Bi-weekly</MenuItem>
-                  <MenuItem value="MONTHLY">Monthly</MenuItem>
-                  <MenuItem value="QUARTERLY">Quarterly</MenuItem>
-                  <MenuItem value="ONE_TIME">One-time</MenuItem>
+                  {(Object.keys(PAYMENT_FREQUENCIES) as (keyof typeof PAYMENT_FREQUENCIES)[]).map(frequency => (
+                    <MenuItem key={frequency} value={frequency} disabled={!isFrequencySupported(frequency)}>
+                      {PAYMENT_FREQUENCY_LABELS[PAYMENT_FREQUENCIES[frequency]]}
+                      {!isFrequencySupported(frequency) && ' (not supported by contract)'}
+                    </MenuItem>
+                  ))}
                 </Select>
               </FormControl>
             </Grid>
@@ -1417,17 +1693,24 @@ const EmployeesNew: React.FC = () => {
           <Button 
             onClick={handleAddEmployee}
             variant="contained"
-            disabled={submitting || !formData.name || !formData.email || !formData.walletAddress || 
+            disabled={submitting || !formData.name || !formData.email ||
                      !formData.position || !formData.department || !formData.salaryAmount}
             startIcon={submitting ? <CircularProgress size={20} /> : <AddIcon />}
             size="large"
             sx={{ ml: 2 }}
           >
-            {submitting ? 'Adding Employee...' : 'Add Employee'}
+            {submitting ? 'Creating Invite...' : 'Create Invite Link'}
           </Button>
         </DialogActions>
       </Dialog>
 
+      <SpreadsheetImportDialog
+        open={!!spreadsheetFile}
+        file={spreadsheetFile}
+        onClose={() => setSpreadsheetFile(null)}
+        onImport={handleSpreadsheetImport}
+      />
+
       {/* Bulk Import Dialog */}
       <Dialog 
         open={bulkImportOpen} 
@@ -1513,41 +1796,15 @@ const EmployeesNew: React.FC = () => {
                 <Typography variant="h6" gutterBottom color="primary.main" fontWeight={600}>
                   Preview Data ({parsedData.length} records)
                 </Typography>
-                <Card sx={{ maxHeight: 300, overflow: 'auto', borderRadius: 2 }}>
-                  <Table size="small">
-                    <TableHead>
-                      <TableRow sx={{ bgcolor: 'primary.main' }}>
-                        <TableCell sx={{ color: 'white', fontWeight: 600 }}>Name</TableCell>
-                        <TableCell sx={{ color: 'white', fontWeight: 600 }}>Email</TableCell>
-                        <TableCell sx={{ color: 'white', fontWeight: 600 }}>Position</TableCell>
-                        <TableCell sx={{ color: 'white', fontWeight: 600 }}>Department</TableCell>
-                        <TableCell sx={{ color: 'white', fontWeight: 600 }}>Salary</TableCell>
-                        <TableCell sx={{ color: 'white', fontWeight: 600 }}>Wallet</TableCell>
-                      </TableRow>
-                    </TableHead>
-                    <TableBody>
-                      {parsedData.slice(0, 10).map((row, index) => (
-                        <TableRow key={index} hover>
-                          <TableCell>{row.name}</TableCell>
-                          <TableCell>{row.email}</TableCell>
-                          <TableCell>{row.position}</TableCell>
-                          <TableCell>{row.department}</TableCell>
-                          <TableCell>${row.salary_amount}</TableCell>
-                          <TableCell sx={{ fontFamily: 'monospace', fontSize: '0.75rem' }}>
-                            {row.wallet_address?.slice(0, 6)}...{row.wallet_address?.slice(-4)}
-                          </TableCell>
-                        </TableRow>
-                      ))}
-                      {parsedData.length > 10 && (
-                        <TableRow>
-                          <TableCell colSpan={6} sx={{ textAlign: 'center', fontStyle: 'italic', color: 'text.secondary' }}>
-                            ... and {parsedData.length - 10} more records
-                          </TableCell>
-                        </TableRow>
-                      )}
-                    </TableBody>
-                  </Table>
-                </Card>
+                <ImportPreviewGrid
+                  rows={parsedData}
+                  errors={importErrors}
+                  validCount={validImportCount}
+                  checking={checkingImport}
+                  disabled={importing}
+                  progress={importStatuses}
+                  onCellChange={handleImportCellChange}
+                />
               </Grid>
             )}
 
@@ -1640,6 +1897,9 @@ const EmployeesNew: React.FC = () => {
                   <strong>Required:</strong> name, email, position, department, salary_amount, wallet_address<br/>
                   <strong>Optional:</strong> phone, employment_type, start_date, payment_frequency, preferred_token, subdomain, withholdings, tax_exempt, is_active
                 </Typography>
+                <Typography variant="body2" sx={{ mt: 1 }}>
+                  Import adds every valid row to the payroll contract in batches. Send Invites instead gives each row an invite link, and employees join payroll once they sign it with the wallet in the file.
+                </Typography>
               </Alert>
             </Grid>
           </Grid>
@@ -1653,15 +1913,24 @@ const EmployeesNew: React.FC = () => {
           >
             Cancel
           </Button>
+          <Button
+            onClick={handleBulkInvite}
+            variant="outlined"
+            disabled={importing || checkingImport || validImportCount === 0 || !canManageEmployees}
+            size="large"
+            sx={{ ml: 2 }}
+          >
+            Send Invites Instead
+          </Button>
           <Button 
             onClick={handleBulkImport}
             variant="contained"
-            disabled={importing || parsedData.length === 0}
+            disabled={importing || checkingImport || validImportCount === 0 || !canManageEmployees}
             startIcon={importing ? <CircularProgress size={20} /> : <CloudUploadIcon />}
             size="large"
             sx={{ ml: 2 }}
           >
-            {importing ? 'Importing...' : `Import ${parsedData.length} Employees`}
+            {importing ? 'Importing...' : `Import ${validImportCount} Valid Employees`}
           </Button>
         </DialogActions>
       </Dialog>
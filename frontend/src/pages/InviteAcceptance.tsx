@@ -0,0 +1,182 @@
+import React, { useState, useEffect, useCallback } from 'react'
+import { useParams } from 'react-router-dom'
+import {
+  Box,
+  Container,
+  Typography,
+  Button,
+  Card,
+  CardContent,
+  Alert,
+  CircularProgress,
+  Divider,
+  Stack,
+} from '@mui/material'
+import { useTheme, alpha } from '@mui/material/styles'
+import { Draw as DrawIcon, CheckCircle as CheckCircleIcon } from '@mui/icons-material'
+import { ConnectButton } from '@rainbow-me/rainbowkit'
+import { useAccount, useNetwork, useSignTypedData } from 'wagmi'
+import { apiService, PublicInvite } from '../services/apiService'
+import { ERROR_MESSAGES, PAYMENT_FREQUENCIES, PAYMENT_FREQUENCY_LABELS } from '../contracts/constants'
+import { ATTESTATION_STATEMENT, createAttestationTypedData } from '../utils/employeeAttestation'
+
+/**
+ * Invite acceptance page for Web3 Payroll System
+ * The invited employee connects their wallet and signs an attestation that they own it
+ * @author Dev Austin
+ */
+
+const InviteAcceptance: React.FC = () => {
+  const theme = useTheme()
+  const { token } = useParams<{ token: string }>()
+  const { address, isConnected } = useAccount()
+  const { chain } = useNetwork()
+  const { signTypedDataAsync } = useSignTypedData()
+
+  const [invite, setInvite] = useState<PublicInvite | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [signing, setSigning] = useState(false)
+
+  const loadInvite = useCallback(async () => {
+    if (!token) return
+
+    setLoading(true)
+    const response = await apiService.getInvite(token)
+    setLoading(false)
+
+    if (response.success && response.data) {
+      setInvite(response.data)
+      setError(null)
+    } else {
+      setError(response.error || ERROR_MESSAGES.NETWORK_ERROR)
+    }
+  }, [token])
+
+  useEffect(() => {
+    loadInvite()
+  }, [loadInvite])
+
+  const handleAccept = async () => {
+    if (!token || !invite || !address || !chain) return
+
+    setSigning(true)
+    setError(null)
+
+    let signature: string
+    try {
+      signature = await signTypedDataAsync(createAttestationTypedData(invite, address, chain.id))
+    } catch (err: any) {
+      setSigning(false)
+      setError(err?.shortMessage || err?.message || 'Signature was rejected')
+      return
+    }
+
+    const response = await apiService.acceptInvite(token, {
+      walletAddress: address,
+      chainId: chain.id,
+      signature,
+    })
+    setSigning(false)
+
+    if (response.success && response.data) {
+      setInvite(response.data)
+    } else {
+      setError(response.error || ERROR_MESSAGES.NETWORK_ERROR)
+    }
+  }
+
+  const accepted = invite?.status === 'accepted' || invite?.status === 'onboarded'
+  // Invites from a bulk import can only be signed by the wallet on file
+  const wrongWallet = !!invite?.expectedWallet && !!address &&
+    invite.expectedWallet.toLowerCase() !== address.toLowerCase()
+
+  return (
+    <Container maxWidth="sm" sx={{ py: 6 }}>
+      {/* Header */}
+      <Box sx={{
+        mb: 4,
+        background: `linear-gradient(135deg, ${alpha(theme.palette.primary.main, 0.1)} 0%, ${alpha(theme.palette.secondary.main, 0.05)} 100%)`,
+        borderRadius: 2,
+        p: 3,
+        border: `1px solid ${alpha(theme.palette.primary.main, 0.12)}`,
+      }}>
+        <Typography variant="h4" fontWeight={700} gutterBottom>
+          {invite ? `Join ${invite.companyName}` : 'Payroll Invite'}
+        </Typography>
+        <Typography variant="body1" color="text.secondary">
+          Confirm the wallet your salary will be paid to
+        </Typography>
+      </Box>
+
+      {error && (
+        <Alert severity="error" sx={{ mb: 3 }}>
+          {error}
+        </Alert>
+      )}
+
+      {loading ? (
+        <Box sx={{ display: 'flex', justifyContent: 'center', p: 4 }}>
+          <CircularProgress />
+        </Box>
+      ) : invite && (
+        <Card>
+          <CardContent>
+            <Stack spacing={1.5}>
+              <Stack direction="row" justifyContent="space-between">
+                <Typography color="text.secondary">Employee</Typography>
+                <Typography fontWeight={600}>{invite.name}</Typography>
+              </Stack>
+              <Stack direction="row" justifyContent="space-between">
+                <Typography color="text.secondary">Salary</Typography>
+                <Typography fontWeight={600}>
+                  {invite.salaryAmount} {invite.paymentToken}{' '}
+                  {PAYMENT_FREQUENCY_LABELS[PAYMENT_FREQUENCIES[invite.paymentFrequency]]}
+                </Typography>
+              </Stack>
+              <Stack direction="row" justifyContent="space-between">
+                <Typography color="text.secondary">Company</Typography>
+                <Typography fontWeight={600}>{invite.ensDomain}</Typography>
+              </Stack>
+            </Stack>
+
+            <Divider sx={{ my: 3 }} />
+
+            {accepted ? (
+              <Alert severity="success" icon={<CheckCircleIcon />}>
+                Wallet {invite.walletAddress} is confirmed. Your employer can now add you to payroll.
+              </Alert>
+            ) : (
+              <Stack spacing={2} alignItems="flex-start">
+                <Typography variant="body2" color="text.secondary">
+                  {invite.expectedWallet
+                    ? `Connect ${invite.expectedWallet}, the wallet your employer has on file, and sign this statement.`
+                    : 'Connect the wallet you want to be paid to and sign this statement.'}{' '}
+                  Signing is free and does not send a transaction: "{ATTESTATION_STATEMENT}"
+                </Typography>
+                <ConnectButton showBalance={false} />
+                {wrongWallet && (
+                  <Alert severity="warning">
+                    This invite is for a different wallet. Switch wallets, or ask your employer for a new invite.
+                  </Alert>
+                )}
+                {isConnected && (
+                  <Button
+                    variant="contained"
+                    startIcon={signing ? <CircularProgress size={18} color="inherit" /> : <DrawIcon />}
+                    onClick={handleAccept}
+                    disabled={signing || !chain || wrongWallet}
+                  >
+                    Sign & Confirm Wallet
+                  </Button>
+                )}
+              </Stack>
+            )}
+          </CardContent>
+        </Card>
+      )}
+    </Container>
+  )
+}
+
+export default InviteAcceptance
@@ -107,7 +107,7 @@ const StatCard: React.FC<StatCardProps> = ({ value, label, sublabel, color }) =>
 const Landing: React.FC = () => {
   const theme = useTheme()
   const navigate = useNavigate()
-  const { isConnected, hasCompany } = useAuth()
+  const { isConnected, isAuthenticated, signingIn, signIn, hasCompany, isEmployee } = useAuth()
   const [showFeatures, setShowFeatures] = useState(false)
   const [animatedStats, setAnimatedStats] = useState({
     users: 0,
@@ -290,7 +290,28 @@ const Landing: React.FC = () => {
             {/* CTA Buttons */}
             <div className="flex flex-col sm:flex-row items-center justify-center space-y-4 sm:space-y-0 sm:space-x-6 mb-16">
               {/* Dynamic CTA based on user state */}
-              {isConnected && hasCompany ? (
+              {isConnected && !isAuthenticated ? (
+                <Button
+                  variant="contained"
+                  size="large"
+                  onClick={signIn}
+                  disabled={signingIn}
+                  sx={{
+                    px: 4,
+                    py: 2,
+                    fontSize: '1.1rem',
+                    borderRadius: 3,
+                    background: 'linear-gradient(45deg, #667eea, #764ba2)',
+                    '&:hover': {
+                      background: 'linear-gradient(45deg, #5a67d8, #6b46c1)',
+                      transform: 'scale(1.05)',
+                    },
+                  }}
+                  endIcon={<ArrowForwardIcon />}
+                >
+                  {signingIn ? 'Waiting for signature...' : 'Sign In with Ethereum'}
+                </Button>
+              ) : isConnected && hasCompany ? (
                 <Button
                   variant="contained"
                   size="large"
@@ -310,6 +331,26 @@ const Landing: React.FC = () => {
                 >
                   Go to Dashboard
                 </Button>
+              ) : isConnected && isEmployee ? (
+                <Button
+                  variant="contained"
+                  size="large"
+                  onClick={() => navigate('/portal')}
+                  sx={{
+                    px: 4,
+                    py: 2,
+                    fontSize: '1.1rem',
+                    borderRadius: 3,
+                    background: 'linear-gradient(45deg, #667eea, #764ba2)',
+                    '&:hover': {
+                      background: 'linear-gradient(45deg, #5a67d8, #6b46c1)',
+                      transform: 'scale(1.05)',
+                    },
+                  }}
+                  endIcon={<ArrowForwardIcon />}
+                >
+                  View My Payroll
+                </Button>
               ) : isConnected && !hasCompany ? (
                 <Button
                   variant="contained"
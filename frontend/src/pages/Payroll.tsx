@@ -46,6 +46,8 @@ import {
   Stack,
   CardHeader,
   Skeleton,
+  ToggleButton,
+  ToggleButtonGroup,
 } from '@mui/material'
 import { useTheme, alpha } from '@mui/material/styles'
 import {
@@ -72,12 +74,22 @@ import {
   Cancel as CancelIcon,
   People as PeopleIcon,
   Search as SearchIcon,
+  FactCheck as FactCheckIcon,
+  Speed as SpeedIcon,
+  PieChart as PieChartIcon,
 } from '@mui/icons-material'
 import { useAccount } from 'wagmi'
+import { useNavigate, useLocation } from 'react-router-dom'
 import { useAppDispatch } from '../store/store'
 import { addNotification } from '../store/slices/uiSlice'
+import { addPayment, updatePaymentStatus } from '../store/slices/payrollSlice'
 import { useBlockchain } from '../hooks/useBlockchain'
-import { usePayments, useEmployees } from '../hooks/useApi'
+import { usePayments, useEmployees, usePayrollRuns } from '../hooks/useApi'
+import { PayrollRun, PayrollRunStatus, MissingPayment, RecordPaymentsResult } from '../services/apiService'
+import { ChunkGasEstimate, FeeSpeed, FeeOption, PaymentResult, PaymentSimulation, SimulationStatus } from '../services/blockchainService'
+import { TrackedTransaction, FINAL_TRANSACTION_STATES, TRANSACTION_STATE_LABELS } from '../services/transactionTracker'
+import { currencyService } from '../services/currencyService'
+import { isPaymentDue } from '../utils/payrollSchedule'
 import { 
   TOKEN_ADDRESSES, 
   NETWORKS, 
@@ -85,8 +97,8 @@ import {
   TOKEN_INFO,
   SUCCESS_MESSAGES,
   ERROR_MESSAGES,
-  DEFAULTS,
-  CONTRACT_ADDRESSES
+  CONTRACT_ADDRESSES,
+  GAS_FEE_SPEEDS
 } from '../contracts/constants'
 
 /**
@@ -99,7 +111,40 @@ interface PaymentSummary {
   totalAmount: string
   employeeCount: number
   tokenBreakdown: Record<string, { amount: string; count: number }>
-  estimatedGas: string
+  estimatedGas: string // ETH for the selected fee speed
+  feeSpeed: FeeSpeed
+  gasLimit?: string
+  baseFeePerGas?: string // gwei
+  feeOptions?: Record<FeeSpeed, FeeOption>
+  feeChunks?: ChunkGasEstimate[] // one per processPayroll transaction
+  gasEstimateError?: string
+  ethUsdRate: number
+  simulation: PaymentSimulation[]
+  simulationError?: string
+  proRated: ProRatedLine[]
+}
+
+// Selected employee whose fixed contract amount differs from their pro-rated pay
+interface ProRatedLine {
+  employee: string
+  symbol: string
+  fixedAmount: string
+  proRatedAmount: string
+  since: Date
+}
+
+interface PartialPaymentTarget {
+  employee: string
+  symbol: string
+  accrued: string
+}
+
+interface FundingStatus {
+  symbol: string
+  tokenAddress: string
+  required: number
+  balance: number
+  shortfall: number
 }
 
 interface ProcessingStep {
@@ -107,12 +152,43 @@ interface ProcessingStep {
   description: string
   status: 'pending' | 'processing' | 'completed' | 'error'
   error?: string
+  transaction?: TrackedTransaction // live transaction behind this step, if any
+}
+
+/**
+ * Error text for a failed PaymentResult, with the suggested fix when the revert is known
+ */
+const getResultError = (result: PaymentResult, fallback: string) => {
+  const error = result.error || fallback
+  return result.suggestion ? `${error}. ${result.suggestion}` : error
+}
+
+const SIMULATION_LABELS: Record<SimulationStatus, string> = {
+  success: 'Will be paid',
+  no_payment_due: 'No payment due',
+  not_active: 'Employee not active',
+  insufficient_balance: 'Insufficient token balance',
+  error: 'Would revert',
+}
+
+// Runs that still need attention on this page
+const OPEN_RUN_STATUSES: PayrollRunStatus[] = ['draft', 'submitted', 'approved', 'executing', 'failed']
+
+const RUN_STATUS_COLORS: Record<PayrollRunStatus, 'default' | 'info' | 'success' | 'warning' | 'error' | 'primary'> = {
+  draft: 'default',
+  submitted: 'info',
+  approved: 'success',
+  executing: 'warning',
+  settled: 'primary',
+  failed: 'error',
 }
 
 const Payroll: React.FC = () => {
   const theme = useTheme()
   const { address, isConnected } = useAccount()
   const dispatch = useAppDispatch()
+  const navigate = useNavigate()
+  const location = useLocation()
   
   // Blockchain hooks
   const {
@@ -121,9 +197,22 @@ const Payroll: React.FC = () => {
     employees: blockchainEmployees,
     loadingEmployees,
     processPayroll,
+    estimatePayrollGas,
+    planPayrollChunks,
+    simulatePayroll,
+    getTransactionStatus,
+    waitForTransaction,
+    getPaymentReceipt,
     processIndividualPayment,
+    processPartialPayment,
     calculatePaymentAmount,
+    calculateProRatedAmount,
+    getPaymentIntervals,
     getContractBalance,
+    getWalletBalance,
+    fundContract,
+    speedUpTransaction,
+    cancelTransaction,
     refreshData,
   } = useBlockchain()
   
@@ -139,10 +228,21 @@ const Payroll: React.FC = () => {
     payments = [], 
     pendingPayments = [], 
     loading: paymentsLoading, 
-    processPayroll: processPayrollAPI,
-    processIndividualPayment: processIndividualPaymentAPI,
+    recordPayments,
     refreshPayments 
   } = usePayments()
+
+  const {
+    runs: openRuns,
+    createRun,
+    submitRun,
+    executeRun,
+    planChunks,
+    updateChunk,
+    settleRun,
+    failRun,
+    refreshRuns,
+  } = usePayrollRuns(OPEN_RUN_STATUSES)
   
   // Local state
   const [selectedEmployees, setSelectedEmployees] = useState<string[]>([])
@@ -153,10 +253,21 @@ const Payroll: React.FC = () => {
   const [showSummaryDialog, setShowSummaryDialog] = useState(false)
   const [paymentSummary, setPaymentSummary] = useState<PaymentSummary | null>(null)
   const [contractBalance, setContractBalance] = useState('0')
+  const [contractBalances, setContractBalances] = useState<Record<string, string>>({})
+  const [paymentIntervals, setPaymentIntervals] = useState<Record<number, number>>({})
+  const [fundingTarget, setFundingTarget] = useState<FundingStatus | null>(null)
+  const [fundAmount, setFundAmount] = useState('')
+  const [walletBalance, setWalletBalance] = useState('0')
+  const [isFunding, setIsFunding] = useState(false)
   const [loadingBalance, setLoadingBalance] = useState(false)
   const [processingType, setProcessingType] = useState<'batch' | 'individual'>('batch')
   const [selectedEmployee, setSelectedEmployee] = useState<string>('')
   const [searchTerm, setSearchTerm] = useState('')
+  const [submittingRun, setSubmittingRun] = useState(false)
+  const [preparingSummary, setPreparingSummary] = useState(false)
+  const [partialPayment, setPartialPayment] = useState<PartialPaymentTarget | null>(null)
+  const [partialAmount, setPartialAmount] = useState('')
+  const [payingPartial, setPayingPartial] = useState(false)
 
   const employeesLoading = loadingEmployees // Alias for clarity
 
@@ -170,34 +281,49 @@ const Payroll: React.FC = () => {
     )
   })
 
-  // compute pending employees array once for UI usage
+  // compute pending employees array once for UI usage, with the contract's own intervals
   const pendingEmployeesList = (() => {
     if (!blockchainEmployees || !blockchainEmployees.length) return []
-    const now = Date.now()
-    return blockchainEmployees.filter((emp: any) => {
-      const lastPayment = (emp.lastPaymentTimestamp || 0) * 1000
-      const frequencyDays = emp.frequency === 0 ? 7 : emp.frequency === 1 ? 14 : emp.frequency === 2 ? 30 : 90
-      return (now - lastPayment) > (frequencyDays * 24 * 60 * 60 * 1000)
+    const now = new Date()
+    return blockchainEmployees.filter(emp => {
+      const interval = paymentIntervals[emp.frequency]
+      return emp.isActive && interval !== undefined && isPaymentDue(emp, interval, now)
     })
   })()
 
   /**
-   * Load contract balance
+   * Get token address for a symbol on the current network
+   */
+  const getTokenAddress = (symbol: string) => {
+    if (!currentNetwork) return undefined
+    const networkTokens = TOKEN_ADDRESSES[currentNetwork as keyof typeof TOKEN_ADDRESSES]
+    return networkTokens?.[symbol as keyof typeof networkTokens]
+  }
+
+  /**
+   * Load contract balance for every token available on the network
    */
   const loadContractBalance = async () => {
     if (!currentNetwork) return
     
     setLoadingBalance(true)
     try {
-      const ethAddress = TOKEN_ADDRESSES[currentNetwork as keyof typeof TOKEN_ADDRESSES]?.ETH
-      console.log('🔍 Payroll: Loading contract balance for network:', currentNetwork)
-      console.log('🔍 Payroll: ETH address:', ethAddress)
-      
-      if (ethAddress) {
-        const balance = await getContractBalance(ethAddress)
-        console.log('✅ Payroll: Contract balance loaded:', balance, 'ETH')
-        setContractBalance(balance)
-      }
+      const networkTokens = TOKEN_ADDRESSES[currentNetwork as keyof typeof TOKEN_ADDRESSES]
+      console.log('🔍 Payroll: Loading contract balances for network:', currentNetwork)
+
+      // Tokens without a deployment on this network are listed as the zero address
+      const tokens = Object.entries(networkTokens || {}).filter(([symbol, tokenAddress]) =>
+        symbol === 'ETH' || tokenAddress !== TOKEN_ADDRESSES[currentNetwork as keyof typeof TOKEN_ADDRESSES].ETH
+      )
+
+      const balances: Record<string, string> = {}
+      await Promise.all(tokens.map(async ([symbol, tokenAddress]) => {
+        balances[symbol] = await getContractBalance(tokenAddress)
+      }))
+
+      console.log('✅ Payroll: Contract balances loaded:', balances)
+      setContractBalances(balances)
+      setContractBalance(balances.ETH || '0')
     } catch (error) {
       console.error('❌ Payroll: Error loading contract balance:', error)
     } finally {
@@ -205,22 +331,111 @@ const Payroll: React.FC = () => {
     }
   }
 
+  /**
+   * Compare the amount needed per token with the contract's balance
+   */
+  const getFundingStatus = (tokenBreakdown: Record<string, { amount: string; count: number }>): FundingStatus[] => {
+    return Object.entries(tokenBreakdown).map(([symbol, data]) => {
+      const required = parseFloat(data.amount) || 0
+      const balance = parseFloat(contractBalances[symbol] || '0') || 0
+      return {
+        symbol,
+        tokenAddress: getTokenAddress(symbol) || '',
+        required,
+        balance,
+        shortfall: Math.max(0, required - balance),
+      }
+    })
+  }
+
+  const getShortfalls = (tokenBreakdown: Record<string, { amount: string; count: number }>) =>
+    getFundingStatus(tokenBreakdown).filter(status => status.shortfall > 0)
+
+  /**
+   * Open the fund contract dialog for a token
+   */
+  const openFundDialog = async (status: FundingStatus) => {
+    const decimals = TOKEN_INFO[status.symbol as keyof typeof TOKEN_INFO]?.decimals ?? 18
+    const places = Math.min(decimals, 6)
+    // Round the shortfall up so the deposit always covers it
+    setFundAmount(status.shortfall > 0
+      ? (Math.ceil(status.shortfall * 10 ** places) / 10 ** places).toFixed(places)
+      : '')
+    setFundingTarget(status)
+    setWalletBalance(await getWalletBalance(status.tokenAddress))
+  }
+
+  /**
+   * Send funds from the connected wallet into the payroll contract
+   */
+  const confirmFundContract = async () => {
+    if (!fundingTarget) return
+
+    const amount = parseFloat(fundAmount)
+    if (!amount || amount <= 0) {
+      dispatch(addNotification({
+        type: 'error',
+        title: 'Invalid Amount',
+        message: 'Enter an amount greater than 0',
+      }))
+      return
+    }
+
+    setIsFunding(true)
+    try {
+      const result = await fundContract(fundingTarget.tokenAddress, fundAmount)
+      if (!result.success) {
+        throw new Error(getResultError(result, 'Funding transaction failed'))
+      }
+
+      dispatch(addNotification({
+        type: 'success',
+        title: 'Contract Funded',
+        message: `Deposited ${fundAmount} ${fundingTarget.symbol} into the payroll contract`,
+      }))
+      setFundingTarget(null)
+      await loadContractBalance()
+    } catch (error: any) {
+      dispatch(addNotification({
+        type: 'error',
+        title: 'Funding Failed',
+        message: error?.message || ERROR_MESSAGES.NETWORK_ERROR,
+      }))
+    } finally {
+      setIsFunding(false)
+    }
+  }
+
   /**
    * Calculate payment summary
    */
   const calculatePaymentSummary = async (employeeAddresses: string[]): Promise<PaymentSummary> => {
     const tokenBreakdown: Record<string, { amount: string; count: number }> = {}
+    const proRated: ProRatedLine[] = []
     let totalAmount = 0
-    let totalGas = 0
 
     for (const addr of employeeAddresses) {
       try {
-        const amount = await calculatePaymentAmount(addr)
+        const [amount, proRatedAmount] = await Promise.all([
+          calculatePaymentAmount(addr),
+          calculateProRatedAmount(addr),
+        ])
         const employee = (blockchainEmployees || []).find((emp: any) => emp.walletAddress === addr)
         
         if (employee) {
           const tokenAddress = employee.preferredToken
           const tokenSymbol = getTokenSymbol(tokenAddress)
+
+          // Mid-cycle hires are owed less than a full salary, late payments more
+          if (parseFloat(proRatedAmount) !== parseFloat(amount)) {
+            proRated.push({
+              employee: addr,
+              symbol: tokenSymbol,
+              fixedAmount: amount,
+              proRatedAmount,
+              since: new Date((employee.lastPaymentTimestamp || employee.startDate) * 1000),
+            })
+          }
           
           if (!tokenBreakdown[tokenSymbol]) {
             tokenBreakdown[tokenSymbol] = { amount: '0', count: 0 }
@@ -232,21 +447,106 @@ const Payroll: React.FC = () => {
           tokenBreakdown[tokenSymbol].count += 1
           
           totalAmount += parseFloat(amount)
-          totalGas += DEFAULTS.GAS_LIMIT
         }
       } catch (error) {
         console.error(`Error calculating payment for ${addr}:`, error)
       }
     }
 
+    // Dry-run the batch so failing employees show up before anyone signs
+    let simulation: PaymentSimulation[] = []
+    let simulationError: string | undefined
+    try {
+      simulation = await simulatePayroll(employeeAddresses)
+    } catch (error: any) {
+      console.error('Error simulating payroll:', error)
+      simulationError = error?.reason || error?.message || 'Simulation failed'
+    }
+
+    const payable = simulation.length
+      ? simulation.filter(result => result.status === 'success').map(result => result.employee)
+      : employeeAddresses
+
+    // Estimate the processPayroll transactions the batch is split into, with current EIP-1559 fees
+    const feeSpeed: FeeSpeed = paymentSummary?.feeSpeed || 'medium'
+    let gasEstimate = null
+    let gasEstimateError: string | undefined
+    if (payable.length === 0) {
+      gasEstimateError = 'No employee in the batch can be paid'
+    } else {
+      try {
+        gasEstimate = await estimatePayrollGas(payable)
+      } catch (error: any) {
+        console.error('Error estimating payroll gas:', error)
+        gasEstimateError = error?.reason || error?.message || 'Gas estimation failed'
+      }
+    }
+
+    const ethUsdRate = await currencyService.getCurrentRate()
+
     return {
       totalAmount: totalAmount.toString(),
       employeeCount: employeeAddresses.length,
       tokenBreakdown,
-      estimatedGas: (totalGas / 1e9).toString(), // Convert to ETH
+      estimatedGas: gasEstimate ? gasEstimate.options[feeSpeed].estimatedCost : '0',
+      feeSpeed,
+      gasLimit: gasEstimate?.gasLimit,
+      baseFeePerGas: gasEstimate?.baseFeePerGas,
+      feeOptions: gasEstimate?.options,
+      feeChunks: gasEstimate?.chunks,
+      gasEstimateError,
+      ethUsdRate,
+      simulation,
+      simulationError,
+      proRated,
     }
   }
 
+  /**
+   * Drop employees whose payment would revert and recalculate the summary
+   */
+  const handleDropFailingEmployees = async () => {
+    if (!paymentSummary) return
+
+    const failing = paymentSummary.simulation
+      .filter(result => result.status !== 'success')
+      .map(result => result.employee)
+    const remaining = selectedEmployees.filter(addr => !failing.includes(addr))
+
+    setSelectedEmployees(remaining)
+    if (remaining.length === 0) {
+      setShowSummaryDialog(false)
+      setPaymentSummary(null)
+      return
+    }
+
+    setPreparingSummary(true)
+    try {
+      setPaymentSummary(await calculatePaymentSummary(remaining))
+    } finally {
+      setPreparingSummary(false)
+    }
+  }
+
+  /**
+   * Switch the fee speed used for the payroll transaction
+   */
+  const handleFeeSpeedChange = (feeSpeed: FeeSpeed | null) => {
+    if (!feeSpeed || !paymentSummary) return
+    setPaymentSummary({
+      ...paymentSummary,
+      feeSpeed,
+      estimatedGas: paymentSummary.feeOptions?.[feeSpeed].estimatedCost || paymentSummary.estimatedGas,
+    })
+  }
+
+  /**
+   * Format an ETH amount in USD
+   */
+  const formatUsd = (ethAmount: string, rate: number) => {
+    return currencyService.formatCurrency((parseFloat(ethAmount) || 0) * rate, 'USD')
+  }
+
   /**
    * Get token symbol
    */
@@ -365,149 +665,432 @@ const Payroll: React.FC = () => {
     }
 
     // Calculate summary
-    const summary = await calculatePaymentSummary(selectedEmployees)
-    setPaymentSummary(summary)
-    setShowSummaryDialog(true)
+    setPreparingSummary(true)
+    try {
+      const summary = await calculatePaymentSummary(selectedEmployees)
+      setPaymentSummary(summary)
+      setShowSummaryDialog(true)
+    } finally {
+      setPreparingSummary(false)
+    }
   }
 
   /**
-   * Confirm and process batch payroll
+   * Save the selected employees and summary as a payroll run and submit it for approval
    */
-  const confirmBatchPayroll = async () => {
-    setShowSummaryDialog(false)
+  const submitPayrollRunForApproval = async () => {
+    if (!paymentSummary) return
+
+    setSubmittingRun(true)
+    try {
+      const runEmployees = await Promise.all(selectedEmployees.map(async (addr) => {
+        const chainEmployee = (blockchainEmployees || []).find((emp: any) => emp.walletAddress === addr)
+        const apiEmployee = (apiEmployees || []).find((emp: any) =>
+          emp.payrollSettings?.walletAddress?.toLowerCase() === addr.toLowerCase()
+        )
+        return {
+          employeeId: apiEmployee?._id,
+          walletAddress: addr,
+          name: getEmployeeDisplayName(addr),
+          amount: await calculatePaymentAmount(addr),
+          tokenSymbol: chainEmployee ? getTokenSymbol(chainEmployee.preferredToken) : 'ETH',
+        }
+      }))
+
+      const draft = await createRun({
+        employees: runEmployees,
+        summary: {
+          totalAmount: paymentSummary.totalAmount,
+          employeeCount: paymentSummary.employeeCount,
+          tokenBreakdown: paymentSummary.tokenBreakdown,
+          estimatedGas: paymentSummary.estimatedGas,
+          feeSpeed: paymentSummary.feeSpeed,
+        },
+      })
+      if (!draft) {
+        throw new Error('Failed to create payroll run')
+      }
+
+      const submitted = await submitRun(draft._id)
+      if (!submitted) {
+        throw new Error('Payroll run was saved as a draft but could not be submitted')
+      }
+
+      dispatch(addNotification({
+        type: 'success',
+        title: 'Payroll Run Submitted',
+        message: `Payroll run for ${runEmployees.length} employees is awaiting finance approval`,
+      }))
+
+      setShowSummaryDialog(false)
+      setSelectedEmployees([])
+    } catch (error: any) {
+      dispatch(addNotification({
+        type: 'error',
+        title: 'Payroll Run Failed',
+        message: error?.message || ERROR_MESSAGES.NETWORK_ERROR,
+      }))
+    } finally {
+      setSubmittingRun(false)
+    }
+  }
+
+  /**
+   * Submit a draft (e.g. one sent back by finance) or a failed run for approval again
+   */
+  const handleResubmitRun = async (run: PayrollRun) => {
+    const submitted = await submitRun(run._id)
+    dispatch(addNotification(submitted ? {
+      type: 'success',
+      title: 'Payroll Run Submitted',
+      message: 'The payroll run is awaiting finance approval',
+    } : {
+      type: 'error',
+      title: 'Submit Failed',
+      message: 'Could not submit the payroll run for approval',
+    }))
+  }
+
+  /**
+   * Execute an approved payroll run in gas-bounded chunks
+   * Chunk progress is saved on the run so an interrupted run resumes at the first unpaid chunk
+   */
+  const confirmBatchPayroll = async (run: PayrollRun) => {
+    if (!['approved', 'executing'].includes(run.status)) {
+      dispatch(addNotification({
+        type: 'error',
+        title: 'Approval Required',
+        message: 'Payroll runs must be approved by finance before they can be processed',
+      }))
+      return
+    }
+
+    const shortfalls = getShortfalls(run.summary.tokenBreakdown || {})
+    if (shortfalls.length > 0) {
+      dispatch(addNotification({
+        type: 'error',
+        title: 'Insufficient Contract Balance',
+        message: `Fund the contract first: ${shortfalls.map(status => `${formatCurrency(status.shortfall.toString())} ${status.symbol}`).join(', ')} short`,
+      }))
+      return
+    }
+
+    const runEmployees = run.employees.map(emp => emp.walletAddress)
+
     setIsProcessing(true)
     setProcessingStep(0)
 
-    const steps: ProcessingStep[] = [
+    setProcessingSteps([
       {
         label: 'Validate Employees',
         description: 'Checking employee data and payment eligibility',
         status: 'pending',
       },
       {
-        label: 'Estimate Gas',
-        description: 'Calculating transaction gas requirements',
-        status: 'pending',
-      },
-      {
-        label: 'Process Blockchain Transaction',
-        description: 'Executing payroll on smart contract',
-        status: 'pending',
-      },
-      {
-        label: 'Update Database',
-        description: 'Recording payment in database',
-        status: 'pending',
-      },
-      {
-        label: 'Complete',
-        description: 'Payroll processing completed successfully',
+        label: 'Plan Chunks',
+        description: 'Estimating gas and splitting the batch into transactions',
         status: 'pending',
       },
-    ]
-
-    setProcessingSteps(steps)
+    ])
 
+    let activeStep = 0
+    let settled = false
     try {
-      // Step 1: Validate employees
-      setProcessingSteps(prev => prev.map((step, index) => 
-        index === 0 ? { ...step, status: 'processing' } : step
-      ))
-      
-      await new Promise(resolve => setTimeout(resolve, 1000)) // Simulate validation
-      
-      setProcessingSteps(prev => prev.map((step, index) => 
-        index === 0 ? { ...step, status: 'completed' } : step
-      ))
-      setProcessingStep(1)
+      const started = run.status === 'executing' ? run : await executeRun(run._id)
+      if (!started) {
+        throw new Error('Could not start the payroll run')
+      }
 
-      // Step 2: Estimate gas
-      setProcessingSteps(prev => prev.map((step, index) => 
-        index === 1 ? { ...step, status: 'processing' } : step
-      ))
-      
-      await new Promise(resolve => setTimeout(resolve, 1000)) // Simulate gas estimation
-      
-      setProcessingSteps(prev => prev.map((step, index) => 
-        index === 1 ? { ...step, status: 'completed' } : step
-      ))
-      setProcessingStep(2)
+      // Step 1: Validate employees against current chain state (skip chunks already sent)
+      setStepStatus(0, 'processing')
 
-      // Step 3: Process blockchain transaction
-      setProcessingSteps(prev => prev.map((step, index) => 
-        index === 2 ? { ...step, status: 'processing' } : step
-      ))
+      const unpaid = started.chunks?.length
+        ? started.chunks.filter(chunk => chunk.status === 'pending' || chunk.status === 'failed').flatMap(chunk => chunk.employees)
+        : runEmployees
+      const failing = unpaid.length
+        ? (await simulatePayroll(unpaid)).filter(result => result.status !== 'success')
+        : []
+      if (failing.length > 0) {
+        throw new Error(`${failing.length} payment(s) would revert: ${failing
+          .map(result => `${getEmployeeDisplayName(result.employee)} (${SIMULATION_LABELS[result.status]})`)
+          .join(', ')}`)
+      }
 
-      const blockchainResult = await processPayroll(selectedEmployees)
-      
-      if (!blockchainResult.success) {
-        throw new Error(blockchainResult.error || 'Blockchain transaction failed')
+      setStepStatus(0, 'completed')
+      activeStep = 1
+      setProcessingStep(1)
+
+      // Step 2: Plan chunks (reuse the saved plan when resuming)
+      setStepStatus(1, 'processing')
+
+      let current: PayrollRun = started
+      if (!current.chunks?.length) {
+        const plan = await planPayrollChunks(runEmployees)
+        const planned = await planChunks(run._id, plan)
+        if (!planned) {
+          throw new Error('Failed to save payroll chunks')
+        }
+        current = planned
       }
 
-      setProcessingSteps(prev => prev.map((step, index) => 
-        index === 2 ? { ...step, status: 'completed' } : step
-      ))
-      setProcessingStep(3)
+      const chunks = current.chunks
+      const firstChunkStep = 2
+      const databaseStep = firstChunkStep + chunks.length
+      const resumeFrom = chunks.findIndex(chunk => chunk.status !== 'confirmed')
+
+      setProcessingSteps(prev => [
+        ...prev.slice(0, firstChunkStep),
+        ...chunks.map(chunk => ({
+          label: `Chunk ${chunk.index + 1} of ${chunks.length}`,
+          description: chunk.status === 'confirmed'
+            ? `${chunk.employees.length} employees • already paid in ${chunk.transactionHash}`
+            : `${chunk.employees.length} employees`,
+          status: chunk.status === 'confirmed' ? 'completed' as const : 'pending' as const,
+        })),
+        {
+          label: 'Update Database',
+          description: 'Recording payments from receipt logs',
+          status: 'pending',
+        },
+        {
+          label: 'Complete',
+          description: 'Payroll processing completed successfully',
+          status: 'pending',
+        },
+      ])
+      setStepStatus(1, 'completed', {
+        description: resumeFrom > 0
+          ? `Resuming from chunk ${resumeFrom + 1} of ${chunks.length}`
+          : `${chunks.length} transaction(s) needed`,
+      })
+
+      // Transaction that paid each chunk, by chunk index
+      const chunkHashes = new Map<number, string>(chunks
+        .filter(chunk => chunk.status === 'confirmed' && chunk.transactionHash)
+        .map(chunk => [chunk.index, chunk.transactionHash!]))
 
-      // Step 4: Update database
-      setProcessingSteps(prev => prev.map((step, index) => 
-        index === 3 ? { ...step, status: 'processing' } : step
-      ))
+      // Step 3..n: Send chunks one after another
+      for (const chunk of chunks) {
+        if (chunk.status === 'confirmed') continue
 
-      const apiResult = await processPayrollAPI(selectedEmployees.map(addr => {
-        const employee = (apiEmployees || []).find((emp: any) => emp.payrollSettings?.walletAddress === addr)
-        return employee?._id || ''
-      }).filter(id => id))
+        activeStep = firstChunkStep + chunk.index
+        setProcessingStep(activeStep)
+        setStepStatus(activeStep, 'processing')
+
+        // A chunk sent before an interruption may already be mined
+        if (chunk.status === 'sent' && chunk.transactionHash) {
+          const status = await getTransactionStatus(chunk.transactionHash)
+          const previous = status === 'success' || status === 'pending'
+            ? await waitForTransaction(chunk.transactionHash)
+            : null
+
+          if (previous?.success) {
+            await updateChunk(run._id, chunk.index, { status: 'confirmed', transactionHash: chunk.transactionHash })
+            chunkHashes.set(chunk.index, chunk.transactionHash)
+            setStepStatus(activeStep, 'completed', {
+              description: `${chunk.employees.length} employees • ${chunk.transactionHash}`,
+            })
+            continue
+          }
+        }
+
+        const step = activeStep
+        const paymentIds = chunk.employees.map(wallet => `${run._id}-${wallet}`)
+        for (const wallet of chunk.employees) {
+          const emp = run.employees.find(item => item.walletAddress.toLowerCase() === wallet.toLowerCase())
+          dispatch(addPayment({
+            id: `${run._id}-${wallet}`,
+            employeeAddress: wallet,
+            amount: emp?.amount || '0',
+            token: emp?.tokenSymbol || 'ETH',
+            timestamp: Date.now(),
+            transactionHash: '',
+            status: 'pending',
+          }))
+        }
 
-      if (!apiResult) {
-        throw new Error('Failed to update database')
+        let savedHash = chunk.status === 'sent' ? chunk.transactionHash : undefined
+        const result = await processPayroll(chunk.employees, current.summary.feeSpeed, async (transaction) => {
+          setStepStatus(step, 'processing', {
+            description: describeTransaction(transaction, `${chunk.employees.length} employees`),
+            transaction,
+          })
+          syncPaymentStatus(paymentIds, transaction)
+
+          // Save every new hash, including speed-ups, so an interrupted run can resume
+          if (transaction.hash && transaction.hash !== savedHash && !FINAL_TRANSACTION_STATES.includes(transaction.state)) {
+            savedHash = transaction.hash
+            await updateChunk(run._id, chunk.index, { status: 'sent', transactionHash: transaction.hash })
+          }
+        })
+
+        if (!result.success) {
+          await updateChunk(run._id, chunk.index, {
+            status: 'failed',
+            transactionHash: result.transactionHash,
+            error: result.error || 'Blockchain transaction failed',
+          })
+          throw new Error(getResultError(result, 'Blockchain transaction failed'))
+        }
+
+        const confirmed = await updateChunk(run._id, chunk.index, {
+          status: 'confirmed',
+          transactionHash: result.transactionHash,
+        })
+        if (!confirmed) {
+          throw new Error(`Chunk ${chunk.index + 1} was paid but its progress could not be saved`)
+        }
+        chunkHashes.set(chunk.index, result.transactionHash!)
+
+        setStepStatus(activeStep, 'completed', {
+          description: `${chunk.employees.length} employees • ${result.transactionHash}`,
+          transaction: undefined,
+        })
       }
 
-      setProcessingSteps(prev => prev.map((step, index) => 
-        index === 3 ? { ...step, status: 'completed' } : step
-      ))
-      setProcessingStep(4)
+      const lastHash = chunkHashes.get(chunks[chunks.length - 1].index)
+      if (!lastHash || !(await settleRun(run._id, lastHash))) {
+        throw new Error('All chunks were paid but the payroll run could not be settled')
+      }
+      settled = true
 
-      // Step 5: Complete
-      setProcessingSteps(prev => prev.map((step, index) => 
-        index === 4 ? { ...step, status: 'completed' } : step
-      ))
+      // Update database from the PaymentProcessed events in each receipt
+      activeStep = databaseStep
+      setProcessingStep(databaseStep)
+      setStepStatus(databaseStep, 'processing')
 
-      dispatch(addNotification({
-        type: 'success',
-        title: 'Payroll Processed',
-        message: `Successfully processed payroll for ${selectedEmployees.length} employees`,
-      }))
+      let recorded = 0
+      const missing: MissingPayment[] = []
+      for (const chunk of chunks) {
+        const expected = run.employees
+          .filter(emp => chunk.employees.includes(emp.walletAddress.toLowerCase()))
+          .map(emp => ({ walletAddress: emp.walletAddress, name: emp.name, amount: emp.amount }))
+        const result = await reconcileReceipt(chunkHashes.get(chunk.index)!, expected, run._id)
+        recorded += result.recorded
+        missing.push(...result.missing)
+      }
+
+      setStepStatus(databaseStep, 'completed', {
+        description: missing.length > 0
+          ? `${recorded} payment(s) recorded • ${missing.length} expected payment(s) had no event`
+          : `${recorded} payment(s) recorded from receipt logs`,
+      })
+      setProcessingStep(databaseStep + 1)
+      setStepStatus(databaseStep + 1, 'completed')
+
+      if (missing.length > 0) {
+        dispatch(addNotification({
+          type: 'warning',
+          title: 'Payments Missing From Receipt',
+          message: `No PaymentProcessed event for: ${missing
+            .map(item => item.name || getEmployeeDisplayName(item.walletAddress))
+            .join(', ')}`,
+        }))
+      } else {
+        dispatch(addNotification({
+          type: 'success',
+          title: 'Payroll Processed',
+          message: `Successfully processed payroll for ${recorded} employees in ${chunks.length} transaction(s)`,
+        }))
+      }
 
       // Refresh data
       await Promise.all([
         refreshData(),
         refreshEmployees(),
         refreshPayments(),
+        refreshRuns(),
         loadContractBalance(),
       ])
-
-      setSelectedEmployees([])
     } catch (error: any) {
-      const currentStepIndex = processingStep
-      setProcessingSteps(prev => prev.map((step, index) => 
-        index === currentStepIndex ? { 
-          ...step, 
-          status: 'error', 
-          error: error?.message || String(error)
-        } : step
-      ))
+      setStepStatus(activeStep, 'error', { error: error?.message || String(error), transaction: undefined })
+
+      // A database error after the transaction went through leaves the run settled
+      if (!settled) {
+        await failRun(run._id, error?.message || String(error))
+      }
 
       dispatch(addNotification({
         type: 'error',
         title: 'Payroll Processing Failed',
-        message: error?.message || ERROR_MESSAGES.NETWORK_ERROR,
+        message: `${error?.message || ERROR_MESSAGES.NETWORK_ERROR}. Paid chunks are saved and the run can be resumed.`,
       }))
     } finally {
       setIsProcessing(false)
     }
   }
 
+  /**
+   * Update one step of the processing stepper
+   */
+  const setStepStatus = (stepIndex: number, status: ProcessingStep['status'], extra: Partial<ProcessingStep> = {}) => {
+    setProcessingSteps(prev => prev.map((step, index) =>
+      index === stepIndex ? { ...step, ...extra, status } : step
+    ))
+  }
+
+  /**
+   * Step description for a tracked transaction
+   */
+  const describeTransaction = (transaction: TrackedTransaction, prefix: string) => {
+    const state = transaction.state === 'confirming'
+      ? `${TRANSACTION_STATE_LABELS.confirming} (${transaction.confirmations}/${transaction.requiredConfirmations})`
+      : transaction.state === 'mined'
+        ? `${TRANSACTION_STATE_LABELS.mined} in block ${transaction.blockNumber}`
+        : TRANSACTION_STATE_LABELS[transaction.state]
+    const replaced = transaction.replacement === 'speed_up' ? ' • sped up' : transaction.replacement === 'cancel' ? ' • cancelling' : ''
+    return `${prefix} • ${state}${replaced}${transaction.hash ? ` • ${transaction.hash}` : ''}`
+  }
+
+  /**
+   * Mirror a tracked transaction onto the payroll store's payments
+   */
+  const syncPaymentStatus = (paymentIds: string[], transaction: TrackedTransaction) => {
+    const status = transaction.state === 'finalized'
+      ? 'completed' as const
+      : FINAL_TRANSACTION_STATES.includes(transaction.state) ? 'failed' as const : 'pending' as const
+
+    paymentIds.forEach(id => dispatch(updatePaymentStatus({ id, status, transactionHash: transaction.hash })))
+  }
+
+  /**
+   * Speed up or cancel the transaction behind a processing step
+   */
+  const handleReplaceTransaction = async (transaction: TrackedTransaction, action: 'speed_up' | 'cancel') => {
+    const result = action === 'speed_up'
+      ? await speedUpTransaction(transaction.id)
+      : await cancelTransaction(transaction.id)
+
+    dispatch(addNotification(result.success
+      ? {
+          type: 'info',
+          title: action === 'speed_up' ? 'Speed-up Sent' : 'Cancellation Sent',
+          message: `Replacement transaction ${result.transactionHash} is pending`,
+        }
+      : {
+          type: 'error',
+          title: action === 'speed_up' ? 'Speed-up Failed' : 'Cancellation Failed',
+          message: getResultError(result, ERROR_MESSAGES.TRANSACTION_FAILED),
+        }))
+  }
+
+  /**
+   * Record the payments a mined transaction actually emitted
+   * Expected employees without a PaymentProcessed event come back as missing
+   */
+  const reconcileReceipt = async (
+    transactionHash: string,
+    expected: MissingPayment[],
+    payrollRunId?: string
+  ): Promise<RecordPaymentsResult> => {
+    const receipt = await getPaymentReceipt(transactionHash)
+    const result = await recordPayments({ ...receipt, expected, payrollRunId })
+    if (!result) {
+      throw new Error('Failed to record payments in database')
+    }
+    return result
+  }
+
   /**
    * Handle individual payment processing
    */
@@ -523,26 +1106,73 @@ const Payroll: React.FC = () => {
   const confirmIndividualPayment = async () => {
     setShowConfirmDialog(false)
     setIsProcessing(true)
+    setProcessingStep(0)
+    setProcessingSteps([
+      {
+        label: 'Send Payment',
+        description: getEmployeeDisplayName(selectedEmployee),
+        status: 'processing',
+      },
+      {
+        label: 'Update Database',
+        description: 'Recording payment from receipt logs',
+        status: 'pending',
+      },
+    ])
 
+    let activeStep = 0
     try {
-      // Process blockchain transaction
-      const blockchainResult = await processIndividualPayment(selectedEmployee)
+      // Process blockchain transaction, tracked until final
+      const paymentId = `individual-${selectedEmployee}-${Date.now()}`
+      dispatch(addPayment({
+        id: paymentId,
+        employeeAddress: selectedEmployee,
+        amount: await calculatePaymentAmount(selectedEmployee),
+        token: 'ETH',
+        timestamp: Date.now(),
+        transactionHash: '',
+        status: 'pending',
+      }))
+
+      const blockchainResult = await processIndividualPayment(selectedEmployee, (transaction) => {
+        setStepStatus(0, 'processing', {
+          description: describeTransaction(transaction, getEmployeeDisplayName(selectedEmployee)),
+          transaction,
+        })
+        syncPaymentStatus([paymentId], transaction)
+      })
       
       if (!blockchainResult.success) {
-        throw new Error(blockchainResult.error || 'Blockchain transaction failed')
+        throw new Error(getResultError(blockchainResult, 'Blockchain transaction failed'))
       }
 
-      // Update database
-      const employee = (apiEmployees || []).find((emp: any) => emp.payrollSettings?.walletAddress === selectedEmployee)
-      if (employee?._id) {
-        await processIndividualPaymentAPI(employee._id)
-      }
+      setStepStatus(0, 'completed', {
+        description: `${getEmployeeDisplayName(selectedEmployee)} • ${blockchainResult.transactionHash}`,
+        transaction: undefined,
+      })
+      activeStep = 1
+      setProcessingStep(1)
+      setStepStatus(1, 'processing')
 
-      dispatch(addNotification({
-        type: 'success',
-        title: 'Payment Processed',
-        message: 'Individual payment processed successfully',
-      }))
+      // Update database from the PaymentProcessed event in the receipt
+      const { missing } = await reconcileReceipt(blockchainResult.transactionHash!, [
+        { walletAddress: selectedEmployee, name: getEmployeeDisplayName(selectedEmployee) },
+      ])
+      setStepStatus(1, 'completed')
+
+      if (missing.length > 0) {
+        dispatch(addNotification({
+          type: 'warning',
+          title: 'Payment Missing From Receipt',
+          message: `The transaction was mined but emitted no PaymentProcessed event for ${getEmployeeDisplayName(selectedEmployee)}`,
+        }))
+      } else {
+        dispatch(addNotification({
+          type: 'success',
+          title: 'Payment Processed',
+          message: 'Individual payment processed successfully',
+        }))
+      }
 
       // Refresh data
       await Promise.all([
@@ -552,6 +1182,7 @@ const Payroll: React.FC = () => {
         loadContractBalance(),
       ])
     } catch (error: any) {
+      setStepStatus(activeStep, 'error', { error: error?.message || String(error), transaction: undefined })
       dispatch(addNotification({
         type: 'error',
         title: 'Payment Failed',
@@ -563,6 +1194,65 @@ const Payroll: React.FC = () => {
     }
   }
 
+  /**
+   * Open the partial payment dialog with the employee's accrued pay as the default
+   */
+  const openPartialPayment = async (employeeAddress: string) => {
+    const employee = (blockchainEmployees || []).find((emp: any) => emp.walletAddress === employeeAddress)
+    const accrued = await calculateProRatedAmount(employeeAddress)
+    setPartialPayment({
+      employee: employeeAddress,
+      symbol: getTokenSymbol(employee?.preferredToken || ''),
+      accrued,
+    })
+    setPartialAmount(accrued)
+  }
+
+  /**
+   * Pay a custom amount of accrued salary when the contract's fixed amount doesn't fit
+   */
+  const confirmPartialPayment = async () => {
+    if (!partialPayment) return
+
+    setPayingPartial(true)
+    try {
+      const result = await processPartialPayment(partialPayment.employee, partialAmount)
+      if (!result.success) {
+        throw new Error(getResultError(result, 'Partial payment failed'))
+      }
+
+      await reconcileReceipt(result.transactionHash!, [
+        { walletAddress: partialPayment.employee, name: getEmployeeDisplayName(partialPayment.employee) },
+      ])
+
+      dispatch(addNotification({
+        type: 'success',
+        title: 'Partial Payment Processed',
+        message: `Paid ${partialAmount} ${partialPayment.symbol} to ${getEmployeeDisplayName(partialPayment.employee)}`,
+      }))
+      setPartialPayment(null)
+
+      await Promise.all([
+        refreshData(),
+        refreshPayments(),
+        loadContractBalance(),
+      ])
+
+      // Amounts in an open summary are stale now
+      if (paymentSummary) {
+        setPaymentSummary(await calculatePaymentSummary(selectedEmployees))
+      }
+    } catch (error: any) {
+      dispatch(addNotification({
+        type: 'error',
+        title: 'Payment Failed',
+        message: error?.message || ERROR_MESSAGES.NETWORK_ERROR,
+      }))
+    } finally {
+      setPayingPartial(false)
+    }
+  }
+
   /**
    * Get employee display name
    */
@@ -578,6 +1268,19 @@ const Payroll: React.FC = () => {
     return apiEmployee?.personalInfo?.name || 'Unknown Employee'
   }
 
+  // Preselect employees handed over by the payroll calendar
+  useEffect(() => {
+    const requested: string[] | undefined = (location.state as any)?.selectedEmployees
+    if (!requested?.length || !blockchainEmployees?.length) return
+
+    const active = blockchainEmployees
+      .filter((emp: any) => emp.isActive && requested.some(addr => addr.toLowerCase() === emp.walletAddress.toLowerCase()))
+      .map((emp: any) => emp.walletAddress)
+    setSelectedEmployees(active)
+    setProcessingType('batch')
+    navigate(location.pathname, { replace: true, state: null })
+  }, [location.state, location.pathname, blockchainEmployees, navigate])
+
   // Load contract balance on mount
   useEffect(() => {
     if (isConnected && currentNetwork) {
@@ -585,6 +1288,15 @@ const Payroll: React.FC = () => {
     }
   }, [isConnected, currentNetwork])
 
+  // Load payment intervals from the deployed contract
+  useEffect(() => {
+    if (!isConnected || !currentNetwork) return
+
+    getPaymentIntervals()
+      .then(setPaymentIntervals)
+      .catch(error => console.error('Error loading payment intervals:', error))
+  }, [isConnected, currentNetwork, getPaymentIntervals])
+
   if (!isConnected) {
     return (
       <Box sx={{ p: 3 }}>
@@ -605,7 +1317,7 @@ const Payroll: React.FC = () => {
           Payroll Processing
         </Typography>
         <Alert severity="warning">
-          Only contract owners can process payroll.
+          Only the owner or finance can process payroll.
         </Alert>
       </Box>
     )
@@ -638,6 +1350,7 @@ const Payroll: React.FC = () => {
                   refreshData(); 
                   refreshEmployees(); 
                   refreshPayments(); 
+                  refreshRuns(); 
                   loadContractBalance(); 
                 }}
                 sx={{
@@ -652,7 +1365,7 @@ const Payroll: React.FC = () => {
               variant="contained"
               startIcon={<PaymentIcon />}
               onClick={handleBatchPayroll}
-              disabled={isProcessing || selectedEmployees.length === 0}
+              disabled={isProcessing || preparingSummary || selectedEmployees.length === 0}
               size="large"
               sx={{
                 borderRadius: 2,
@@ -661,7 +1374,7 @@ const Payroll: React.FC = () => {
                 px: 3,
               }}
             >
-              Process Selected ({selectedEmployees.length})
+              Draft Payroll Run ({selectedEmployees.length})
             </Button>
           </Stack>
         </Stack>
@@ -732,6 +1445,91 @@ const Payroll: React.FC = () => {
         </Alert>
       )}
 
+      {/* Payroll Runs awaiting approval or execution */}
+      <Card sx={{ mb: 3, borderRadius: 2 }}>
+        <CardHeader
+          title={
+            <Stack direction="row" alignItems="center" spacing={2}>
+              <FactCheckIcon color="primary" />
+              <Typography variant="h6" fontWeight={600}>
+                Payroll Runs ({openRuns.length})
+              </Typography>
+            </Stack>
+          }
+          subheader="Payroll can only be processed once finance has approved the run"
+          action={
+            <Button onClick={() => navigate('/payroll/runs')} sx={{ textTransform: 'none' }}>
+              View All
+            </Button>
+          }
+        />
+        <CardContent sx={{ pt: 0 }}>
+          {openRuns.length === 0 ? (
+            <Alert severity="info" sx={{ borderRadius: 2 }}>
+              No open payroll runs. Select employees and draft a run to request approval.
+            </Alert>
+          ) : (
+            <List disablePadding>
+              {openRuns.map((run, index) => (
+                <React.Fragment key={run._id}>
+                  <ListItem
+                    secondaryAction={
+                      run.status === 'approved' || run.status === 'executing' ? (
+                        <Stack direction="row" spacing={1}>
+                          {getShortfalls(run.summary.tokenBreakdown || {}).map(status => (
+                            <Button
+                              key={status.symbol}
+                              size="small"
+                              color="warning"
+                              startIcon={<AccountBalanceIcon />}
+                              onClick={() => openFundDialog(status)}
+                            >
+                              Fund {status.symbol}
+                            </Button>
+                          ))}
+                          <Button
+                            variant="contained"
+                            size="small"
+                            startIcon={<PaymentIcon />}
+                            onClick={() => confirmBatchPayroll(run)}
+                            disabled={isProcessing || getShortfalls(run.summary.tokenBreakdown || {}).length > 0}
+                          >
+                            {run.status === 'approved' ? 'Process' : 'Resume'}
+                          </Button>
+                        </Stack>
+                      ) : run.status === 'draft' || run.status === 'failed' ? (
+                        <Button size="small" startIcon={<SendIcon />} onClick={() => handleResubmitRun(run)}>
+                          {run.status === 'failed' ? 'Resubmit' : 'Submit'}
+                        </Button>
+                      ) : undefined
+                    }
+                  >
+                    <ListItemText
+                      primary={
+                        <Stack direction="row" spacing={1} alignItems="center">
+                          <Typography variant="body1" fontWeight={500}>
+                            {run.summary.employeeCount} employees • {formatCurrency(run.summary.totalAmount)}
+                          </Typography>
+                          <Chip label={run.status} color={RUN_STATUS_COLORS[run.status]} size="small" />
+                        </Stack>
+                      }
+                      secondary={
+                        run.status === 'submitted'
+                          ? `Approvals ${run.approvals.length}/${run.requiredApprovals} • Created ${new Date(run.createdAt).toLocaleString()}`
+                          : run.status === 'failed' || run.status === 'executing'
+                            ? `${run.chunks?.filter(chunk => chunk.status === 'confirmed').length || 0}/${run.chunks?.length || 0} chunks paid${run.failureReason ? ` • Failed: ${run.failureReason}` : ''}`
+                            : `Created ${new Date(run.createdAt).toLocaleString()}`
+                      }
+                    />
+                  </ListItem>
+                  {index < openRuns.length - 1 && <Divider />}
+                </React.Fragment>
+              ))}
+            </List>
+          )}
+        </CardContent>
+      </Card>
+
       {/* Search and Filter Controls */}
       <Card sx={{ mb: 3, borderRadius: 2 }}>
         <CardHeader
@@ -915,6 +1713,21 @@ const Payroll: React.FC = () => {
                                 <PlayArrowIcon />
                               </IconButton>
                             </Tooltip>
+                            <Tooltip title="Pay Partial Amount">
+                              <IconButton
+                                size="small"
+                                onClick={() => openPartialPayment(employee.walletAddress)}
+                                disabled={isProcessing || payingPartial}
+                                sx={{
+                                  color: theme.palette.warning.main,
+                                  '&:hover': {
+                                    bgcolor: alpha(theme.palette.warning.main, 0.1)
+                                  }
+                                }}
+                              >
+                                <PieChartIcon />
+                              </IconButton>
+                            </Tooltip>
                             <Tooltip title="View Details">
                               <IconButton
                                 size="small"
@@ -1004,7 +1817,36 @@ const Payroll: React.FC = () => {
                     {step.description}
                   </Typography>
                   {step.status === 'processing' && (
-                    <LinearProgress sx={{ mb: 2 }} />
+                    step.transaction?.state === 'confirming' ? (
+                      <LinearProgress
+                        variant="determinate"
+                        value={(step.transaction.confirmations / step.transaction.requiredConfirmations) * 100}
+                        sx={{ mb: 2 }}
+                      />
+                    ) : (
+                      <LinearProgress sx={{ mb: 2 }} />
+                    )
+                  )}
+                  {step.transaction && (step.transaction.state === 'broadcast' || step.transaction.state === 'pending') && (
+                    <Stack direction="row" spacing={1} sx={{ mb: 2 }}>
+                      <Button
+                        size="small"
+                        variant="outlined"
+                        startIcon={<SpeedIcon />}
+                        onClick={() => handleReplaceTransaction(step.transaction!, 'speed_up')}
+                      >
+                        Speed Up
+                      </Button>
+                      <Button
+                        size="small"
+                        color="error"
+                        startIcon={<CancelIcon />}
+                        disabled={step.transaction.replacement === 'cancel'}
+                        onClick={() => handleReplaceTransaction(step.transaction!, 'cancel')}
+                      >
+                        Cancel Transaction
+                      </Button>
+                    </Stack>
                   )}
                   {step.status === 'error' && step.error && (
                     <Alert severity="error" sx={{ mb: 2 }}>
@@ -1035,7 +1877,13 @@ const Payroll: React.FC = () => {
                 </Grid>
                 <Grid item xs={6}>
                   <Typography variant="subtitle2" color="text.secondary">Estimated Gas</Typography>
-                  <Typography variant="h6">{formatCurrency(paymentSummary.estimatedGas)} ETH</Typography>
+                  <Typography variant="h6">{formatCurrency(paymentSummary.estimatedGas, 6)} ETH</Typography>
+                  <Typography variant="caption" color="text.secondary">
+                    {formatUsd(paymentSummary.estimatedGas, paymentSummary.ethUsdRate)}
+                    {paymentSummary.feeChunks && paymentSummary.feeChunks.length > 1
+                      ? ` • ${paymentSummary.feeChunks.length} transactions`
+                      : ''}
+                  </Typography>
                 </Grid>
                 <Grid item xs={6}>
                   <Typography variant="subtitle2" color="text.secondary">Total Cost</Typography>
@@ -1045,6 +1893,166 @@ const Payroll: React.FC = () => {
                 </Grid>
               </Grid>
 
+              <Typography variant="subtitle2" color="text.secondary" sx={{ mb: 1 }}>
+                Pre-flight Check
+              </Typography>
+              {paymentSummary.simulationError ? (
+                <Alert severity="warning" sx={{ mb: 3 }}>
+                  Simulation failed: {paymentSummary.simulationError}
+                </Alert>
+              ) : paymentSummary.simulation.every(result => result.status === 'success') ? (
+                <Alert severity="success" sx={{ mb: 3 }}>
+                  All {paymentSummary.simulation.length} payments passed the dry run
+                </Alert>
+              ) : (
+                <Box sx={{ mb: 3 }}>
+                  <List dense disablePadding>
+                    {paymentSummary.simulation
+                      .filter(result => result.status !== 'success')
+                      .map(result => (
+                        <ListItem key={result.employee} disableGutters>
+                          <ListItemIcon sx={{ minWidth: 36 }}>
+                            <ErrorIcon color="error" fontSize="small" />
+                          </ListItemIcon>
+                          <ListItemText
+                            primary={getEmployeeDisplayName(result.employee)}
+                            secondary={result.status === 'error' ? result.reason : undefined}
+                          />
+                          <Chip label={SIMULATION_LABELS[result.status]} color="error" size="small" variant="outlined" />
+                        </ListItem>
+                      ))}
+                  </List>
+                  <Stack direction="row" justifyContent="space-between" alignItems="center">
+                    <Typography variant="body2" color="text.secondary">
+                      {paymentSummary.simulation.filter(result => result.status === 'success').length} of {paymentSummary.simulation.length} payments will succeed
+                    </Typography>
+                    <Button
+                      size="small"
+                      color="error"
+                      onClick={handleDropFailingEmployees}
+                      disabled={preparingSummary}
+                      startIcon={preparingSummary ? <CircularProgress size={16} /> : <CancelIcon />}
+                    >
+                      Remove failing employees
+                    </Button>
+                  </Stack>
+                </Box>
+              )}
+
+              <Typography variant="subtitle2" color="text.secondary" sx={{ mb: 1 }}>
+                Transaction Fee
+              </Typography>
+              {paymentSummary.feeOptions ? (
+                <Box sx={{ mb: 3 }}>
+                  <ToggleButtonGroup
+                    exclusive
+                    fullWidth
+                    size="small"
+                    value={paymentSummary.feeSpeed}
+                    onChange={(_, value) => handleFeeSpeedChange(value)}
+                  >
+                    {(Object.keys(GAS_FEE_SPEEDS) as FeeSpeed[]).map(speed => (
+                      <ToggleButton key={speed} value={speed} sx={{ flexDirection: 'column', textTransform: 'none' }}>
+                        <Typography variant="body2" fontWeight={600}>{GAS_FEE_SPEEDS[speed].label}</Typography>
+                        <Typography variant="caption">
+                          {formatCurrency(paymentSummary.feeOptions![speed].estimatedCost, 6)} ETH
+                        </Typography>
+                        <Typography variant="caption" color="text.secondary">
+                          {formatUsd(paymentSummary.feeOptions![speed].estimatedCost, paymentSummary.ethUsdRate)}
+                        </Typography>
+                      </ToggleButton>
+                    ))}
+                  </ToggleButtonGroup>
+                  <Typography variant="caption" color="text.secondary" sx={{ display: 'block', mt: 1 }}>
+                    {paymentSummary.gasLimit} gas • base fee {formatCurrency(paymentSummary.baseFeePerGas || '0', 2)} gwei •
+                    priority fee {formatCurrency(paymentSummary.feeOptions[paymentSummary.feeSpeed].maxPriorityFeePerGas, 2)} gwei •
+                    max {formatCurrency(paymentSummary.feeOptions[paymentSummary.feeSpeed].maxCost, 6)} ETH
+                  </Typography>
+                  {paymentSummary.feeChunks && paymentSummary.feeChunks.length > 1 && (
+                    <Table size="small" sx={{ mt: 1 }}>
+                      <TableHead>
+                        <TableRow>
+                          <TableCell>Transaction</TableCell>
+                          <TableCell align="right">Employees</TableCell>
+                          <TableCell align="right">Gas</TableCell>
+                          <TableCell align="right">Fee</TableCell>
+                        </TableRow>
+                      </TableHead>
+                      <TableBody>
+                        {paymentSummary.feeChunks.map((chunk, index) => (
+                          <TableRow key={index}>
+                            <TableCell>Chunk {index + 1} of {paymentSummary.feeChunks!.length}</TableCell>
+                            <TableCell align="right">{chunk.employeeCount}</TableCell>
+                            <TableCell align="right">{chunk.gasLimit}</TableCell>
+                            <TableCell align="right">
+                              {formatCurrency(chunk.options[paymentSummary.feeSpeed].estimatedCost, 6)} ETH
+                            </TableCell>
+                          </TableRow>
+                        ))}
+                        <TableRow>
+                          <TableCell sx={{ fontWeight: 600 }}>Total</TableCell>
+                          <TableCell align="right">
+                            {paymentSummary.feeChunks.reduce((sum, chunk) => sum + chunk.employeeCount, 0)}
+                          </TableCell>
+                          <TableCell align="right">{paymentSummary.gasLimit}</TableCell>
+                          <TableCell align="right" sx={{ fontWeight: 600 }}>
+                            {formatCurrency(paymentSummary.feeOptions[paymentSummary.feeSpeed].estimatedCost, 6)} ETH
+                          </TableCell>
+                        </TableRow>
+                      </TableBody>
+                    </Table>
+                  )}
+                </Box>
+              ) : (
+                <Alert severity="warning" sx={{ mb: 3 }}>
+                  Gas estimation failed: {paymentSummary.gasEstimateError}
+                </Alert>
+              )}
+
+              {paymentSummary.proRated.length > 0 && (
+                <Box sx={{ mb: 3 }}>
+                  <Typography variant="subtitle2" color="text.secondary" sx={{ mb: 1 }}>
+                    Pro-rated Pay
+                  </Typography>
+                  <Table size="small">
+                    <TableHead>
+                      <TableRow>
+                        <TableCell>Employee</TableCell>
+                        <TableCell align="right">Payroll Amount</TableCell>
+                        <TableCell align="right">Accrued</TableCell>
+                        <TableCell />
+                      </TableRow>
+                    </TableHead>
+                    <TableBody>
+                      {paymentSummary.proRated.map(line => (
+                        <TableRow key={line.employee}>
+                          <TableCell>
+                            <Typography variant="body2">{getEmployeeDisplayName(line.employee)}</Typography>
+                            <Typography variant="caption" color="text.secondary">
+                              since {line.since.toLocaleDateString()}
+                            </Typography>
+                          </TableCell>
+                          <TableCell align="right">{formatCurrency(line.fixedAmount)} {line.symbol}</TableCell>
+                          <TableCell align="right">{formatCurrency(line.proRatedAmount)} {line.symbol}</TableCell>
+                          <TableCell align="right">
+                            <Button
+                              size="small"
+                              onClick={() => openPartialPayment(line.employee)}
+                              disabled={payingPartial || parseFloat(line.proRatedAmount) <= 0}
+                            >
+                              Pay partial
+                            </Button>
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                  <Typography variant="caption" color="text.secondary">
+                    The payroll run pays the fixed salary once a full interval has passed. Pay the accrued amount instead for mid-cycle hires and departures.
+                  </Typography>
+                </Box>
+              )}
+
               <Typography variant="subtitle2" color="text.secondary" sx={{ mb: 1 }}>
                 Token Breakdown
               </Typography>
@@ -1057,19 +2065,145 @@ const Payroll: React.FC = () => {
                 </Box>
               ))}
 
-              <Alert severity="warning" sx={{ mt: 2 }}>
+              <Typography variant="subtitle2" color="text.secondary" sx={{ mt: 2, mb: 1 }}>
+                Contract Funding
+              </Typography>
+              <Table size="small">
+                <TableHead>
+                  <TableRow>
+                    <TableCell>Token</TableCell>
+                    <TableCell align="right">Required</TableCell>
+                    <TableCell align="right">Contract Balance</TableCell>
+                    <TableCell align="right">Shortfall</TableCell>
+                    <TableCell />
+                  </TableRow>
+                </TableHead>
+                <TableBody>
+                  {getFundingStatus(paymentSummary.tokenBreakdown).map(status => (
+                    <TableRow key={status.symbol}>
+                      <TableCell>{status.symbol}</TableCell>
+                      <TableCell align="right">{formatCurrency(status.required.toString())}</TableCell>
+                      <TableCell align="right">{formatCurrency(status.balance.toString())}</TableCell>
+                      <TableCell align="right" sx={{ color: status.shortfall > 0 ? 'error.main' : 'success.main' }}>
+                        {status.shortfall > 0 ? formatCurrency(status.shortfall.toString()) : 'Covered'}
+                      </TableCell>
+                      <TableCell align="right">
+                        {status.shortfall > 0 && (
+                          <Button size="small" onClick={() => openFundDialog(status)}>
+                            Fund contract
+                          </Button>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+
+              {getShortfalls(paymentSummary.tokenBreakdown).length > 0 && (
+                <Alert severity="warning" sx={{ mt: 2 }}>
+                  The contract does not hold enough funds yet. The run can be submitted, but it cannot be processed until every token is covered.
+                </Alert>
+              )}
+
+              <Alert severity="info" sx={{ mt: 2 }}>
                 <Typography variant="body2">
-                  This action will process payments for {paymentSummary.employeeCount} employees. 
-                  Make sure you have sufficient contract balance.
+                  This creates a payroll run for {paymentSummary.employeeCount} employees and sends it to finance for approval.
+                  It can be processed once approved.
                 </Typography>
               </Alert>
             </Box>
           )}
         </DialogContent>
         <DialogActions>
-          <Button onClick={() => setShowSummaryDialog(false)}>Cancel</Button>
-          <Button onClick={confirmBatchPayroll} variant="contained" color="primary">
-            Confirm & Process
+          <Button onClick={() => setShowSummaryDialog(false)} disabled={submittingRun}>Cancel</Button>
+          <Button
+            onClick={submitPayrollRunForApproval}
+            variant="contained"
+            color="primary"
+            disabled={
+              submittingRun ||
+              preparingSummary ||
+              !!paymentSummary?.simulation.some(result => result.status !== 'success')
+            }
+            startIcon={submittingRun ? <CircularProgress size={16} /> : <SendIcon />}
+          >
+            Submit for Approval
+          </Button>
+        </DialogActions>
+      </Dialog>
+
+      {/* Fund Contract Dialog */}
+      <Dialog open={!!fundingTarget} onClose={() => !isFunding && setFundingTarget(null)} maxWidth="xs" fullWidth>
+        <DialogTitle>Fund Contract</DialogTitle>
+        <DialogContent>
+          {fundingTarget && (
+            <Box sx={{ pt: 1 }}>
+              <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+                {fundingTarget.symbol === 'ETH'
+                  ? 'ETH is sent straight to the payroll contract.'
+                  : `The contract is approved to pull ${fundingTarget.symbol} from your wallet, then the deposit is made.`}
+              </Typography>
+              <TextField
+                fullWidth
+                type="number"
+                label={`Amount (${fundingTarget.symbol})`}
+                value={fundAmount}
+                onChange={(e) => setFundAmount(e.target.value)}
+                helperText={`Shortfall: ${formatCurrency(fundingTarget.shortfall.toString())} • Wallet balance: ${formatCurrency(walletBalance)}`}
+                error={parseFloat(fundAmount) > parseFloat(walletBalance)}
+              />
+            </Box>
+          )}
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setFundingTarget(null)} disabled={isFunding}>Cancel</Button>
+          <Button
+            onClick={confirmFundContract}
+            variant="contained"
+            disabled={isFunding || !fundAmount || parseFloat(fundAmount) > parseFloat(walletBalance)}
+            startIcon={isFunding ? <CircularProgress size={16} /> : <AccountBalanceIcon />}
+          >
+            {fundingTarget?.symbol === 'ETH' ? 'Send ETH' : 'Approve & Deposit'}
+          </Button>
+        </DialogActions>
+      </Dialog>
+
+      {/* Partial Payment Dialog */}
+      <Dialog open={!!partialPayment} onClose={() => !payingPartial && setPartialPayment(null)} maxWidth="xs" fullWidth>
+        <DialogTitle>Pay Partial Amount</DialogTitle>
+        <DialogContent>
+          {partialPayment && (
+            <Box sx={{ pt: 1 }}>
+              <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+                {getEmployeeDisplayName(partialPayment.employee)} has accrued {formatCurrency(partialPayment.accrued)} {partialPayment.symbol} since
+                their last payment. Their next full payment is pushed back by the share of the pay period this covers.
+              </Typography>
+              <TextField
+                fullWidth
+                type="number"
+                label={`Amount (${partialPayment.symbol})`}
+                value={partialAmount}
+                onChange={(e) => setPartialAmount(e.target.value)}
+                helperText={`At most ${partialPayment.accrued} ${partialPayment.symbol}`}
+                error={parseFloat(partialAmount) > parseFloat(partialPayment.accrued)}
+              />
+            </Box>
+          )}
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setPartialPayment(null)} disabled={payingPartial}>Cancel</Button>
+          <Button
+            onClick={confirmPartialPayment}
+            variant="contained"
+            disabled={
+              payingPartial ||
+              !partialPayment ||
+              !(parseFloat(partialAmount) > 0) ||
+              parseFloat(partialAmount) > parseFloat(partialPayment.accrued)
+            }
+            startIcon={payingPartial ? <CircularProgress size={16} /> : <PaymentIcon />}
+          >
+            Pay
           </Button>
         </DialogActions>
       </Dialog>
@@ -0,0 +1,486 @@
+import React, { useState, useEffect, useMemo } from 'react'
+import {
+  Box,
+  Typography,
+  Button,
+  Card,
+  CardContent,
+  CardHeader,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  Chip,
+  IconButton,
+  Alert,
+  CircularProgress,
+  Tooltip,
+  Stack,
+  ToggleButton,
+  ToggleButtonGroup,
+  List,
+  ListItemButton,
+  ListItemText,
+} from '@mui/material'
+import { useTheme, alpha } from '@mui/material/styles'
+import {
+  Refresh as RefreshIcon,
+  ChevronLeft as ChevronLeftIcon,
+  ChevronRight as ChevronRightIcon,
+  CalendarMonth as CalendarMonthIcon,
+  ViewList as ViewListIcon,
+  Download as DownloadIcon,
+  PlayArrow as PlayArrowIcon,
+  Warning as WarningIcon,
+} from '@mui/icons-material'
+import { useAccount } from 'wagmi'
+import { useNavigate } from 'react-router-dom'
+import { useAppDispatch } from '../store/store'
+import { addNotification } from '../store/slices/uiSlice'
+import { useBlockchain } from '../hooks/useBlockchain'
+import { useEmployees } from '../hooks/useApi'
+import {
+  ScheduledPayment,
+  PayDate,
+  getDateKey,
+  startOfDay,
+  getPaySchedule,
+  groupByPayDate,
+  buildPayrollICS,
+} from '../utils/payrollSchedule'
+import { TOKEN_ADDRESSES, TOKEN_INFO, PAYMENT_FREQUENCY_LABELS } from '../contracts/constants'
+
+/**
+ * Payroll Calendar page for Web3 Payroll System
+ * Shows when each employee is next due, computed from on-chain payment data
+ * @author Dev Austin
+ */
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat']
+
+// How far ahead the list view and ICS export project pay dates
+const SCHEDULE_HORIZON_MONTHS = 12
+
+const shortAddress = (address: string) => `${address.slice(0, 6)}...${address.slice(-4)}`
+
+const PayrollCalendar: React.FC = () => {
+  const theme = useTheme()
+  const { isConnected } = useAccount()
+  const dispatch = useAppDispatch()
+  const navigate = useNavigate()
+
+  const {
+    currentNetwork,
+    employees: blockchainEmployees,
+    loadingEmployees,
+    getPaymentIntervals,
+    refreshData,
+  } = useBlockchain()
+  const { employees: apiEmployees = [] } = useEmployees()
+
+  const [view, setView] = useState<'month' | 'list'>('month')
+  const [month, setMonth] = useState(() => {
+    const today = new Date()
+    return new Date(today.getFullYear(), today.getMonth(), 1)
+  })
+  const [selectedKey, setSelectedKey] = useState(() => getDateKey(new Date()))
+  const [intervals, setIntervals] = useState<Record<number, number>>({})
+  const [loadingIntervals, setLoadingIntervals] = useState(false)
+
+  useEffect(() => {
+    if (!isConnected) return
+
+    setLoadingIntervals(true)
+    getPaymentIntervals()
+      .then(setIntervals)
+      .catch(error => {
+        console.error('Error loading payment intervals:', error)
+        dispatch(addNotification({
+          type: 'error',
+          title: 'Schedule Unavailable',
+          message: 'Could not read payment intervals from the payroll contract',
+        }))
+      })
+      .finally(() => setLoadingIntervals(false))
+  }, [isConnected, currentNetwork, getPaymentIntervals, dispatch])
+
+  const today = startOfDay(new Date())
+  const todayKey = getDateKey(today)
+
+  // Project far enough to cover both the horizon and whichever month is on screen
+  const payDates = useMemo(() => {
+    const horizon = new Date(today.getFullYear(), today.getMonth() + SCHEDULE_HORIZON_MONTHS, today.getDate())
+    const monthEnd = new Date(month.getFullYear(), month.getMonth() + 1, 0, 23, 59, 59)
+    const until = monthEnd > horizon ? monthEnd : horizon
+    return groupByPayDate(getPaySchedule(blockchainEmployees || [], intervals, until))
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [blockchainEmployees, intervals, month, todayKey])
+
+  const payDatesByKey = useMemo(() => {
+    return new Map(payDates.map(payDate => [payDate.key, payDate]))
+  }, [payDates])
+
+  const overduePayments = payDates.flatMap(payDate => payDate.payments.filter(payment => payment.overdue))
+  const selectedPayDate = payDatesByKey.get(selectedKey)
+
+  /**
+   * Employee name from the API, falling back to a short wallet address
+   */
+  const getEmployeeDisplayName = (walletAddress: string) => {
+    const apiEmployee = (apiEmployees || []).find((emp: any) => {
+      const wallet = emp.payrollSettings?.walletAddress || emp.walletAddress
+      return wallet?.toLowerCase() === walletAddress.toLowerCase()
+    }) as any
+    return apiEmployee?.personalInfo?.name || apiEmployee?.name || shortAddress(walletAddress)
+  }
+
+  /**
+   * Get token symbol
+   */
+  const getTokenSymbol = (tokenAddress: string) => {
+    if (!currentNetwork) return 'UNKNOWN'
+
+    const networkTokens = TOKEN_ADDRESSES[currentNetwork as keyof typeof TOKEN_ADDRESSES]
+    if (!networkTokens) return 'UNKNOWN'
+
+    const token = Object.values(TOKEN_INFO).find((t: any) => {
+      const tokenKey = t.symbol as keyof typeof networkTokens
+      return networkTokens[tokenKey] === tokenAddress
+    })
+    return token?.symbol || 'UNKNOWN'
+  }
+
+  const describePayment = (payment: ScheduledPayment) => {
+    const { employee } = payment
+    return `${getEmployeeDisplayName(employee.walletAddress)} (${employee.walletAddress}): ` +
+      `${employee.salaryAmount} ${getTokenSymbol(employee.preferredToken)}${payment.overdue ? ' - overdue' : ''}`
+  }
+
+  /**
+   * Hand the employees to the Payroll page, which simulates and processes them
+   */
+  const startPayrollRun = (payments: ScheduledPayment[]) => {
+    const addresses = Array.from(new Set(payments.map(payment => payment.employee.walletAddress)))
+    navigate('/payroll', { state: { selectedEmployees: addresses } })
+  }
+
+  /**
+   * Download the projected schedule as an ICS file
+   */
+  const handleExport = () => {
+    const upcoming = payDates.filter(payDate => payDate.date >= today || payDate.overdue)
+    if (upcoming.length === 0) {
+      dispatch(addNotification({
+        type: 'warning',
+        title: 'Nothing to Export',
+        message: 'There are no scheduled payments to export',
+      }))
+      return
+    }
+
+    const blob = new Blob([buildPayrollICS(upcoming, describePayment)], { type: 'text/calendar' })
+    const url = window.URL.createObjectURL(blob)
+    const a = document.createElement('a')
+    a.href = url
+    a.download = `payroll_schedule_${todayKey}.ics`
+    a.click()
+    window.URL.revokeObjectURL(url)
+
+    dispatch(addNotification({
+      type: 'success',
+      title: 'Schedule Exported',
+      message: `${upcoming.length} pay dates exported to your calendar file`,
+    }))
+  }
+
+  const changeMonth = (offset: number) => {
+    setMonth(prev => new Date(prev.getFullYear(), prev.getMonth() + offset, 1))
+  }
+
+  const selectPayDate = (date: Date) => {
+    setSelectedKey(getDateKey(date))
+    setMonth(new Date(date.getFullYear(), date.getMonth(), 1))
+  }
+
+  const renderMonthGrid = () => {
+    const leadingBlanks = month.getDay()
+    const daysInMonth = new Date(month.getFullYear(), month.getMonth() + 1, 0).getDate()
+    const cells: (Date | null)[] = [
+      ...Array.from({ length: leadingBlanks }, () => null),
+      ...Array.from({ length: daysInMonth }, (_, index) => new Date(month.getFullYear(), month.getMonth(), index + 1)),
+    ]
+
+    return (
+      <Box sx={{ display: 'grid', gridTemplateColumns: 'repeat(7, 1fr)', gap: 1 }}>
+        {WEEKDAYS.map(day => (
+          <Typography key={day} variant="caption" color="text.secondary" align="center" fontWeight={600}>
+            {day}
+          </Typography>
+        ))}
+        {cells.map((date, index) => {
+          if (!date) return <Box key={`blank-${index}`} />
+
+          const key = getDateKey(date)
+          const payDate = payDatesByKey.get(key)
+          const isSelected = key === selectedKey
+          const borderColor = payDate?.overdue
+            ? theme.palette.error.main
+            : isSelected
+              ? theme.palette.primary.main
+              : theme.palette.divider
+
+          return (
+            <Box
+              key={key}
+              onClick={() => setSelectedKey(key)}
+              sx={{
+                minHeight: 80,
+                p: 1,
+                borderRadius: 1,
+                cursor: 'pointer',
+                border: `${isSelected ? 2 : 1}px solid ${borderColor}`,
+                bgcolor: isSelected
+                  ? alpha(theme.palette.primary.main, 0.08)
+                  : key === todayKey
+                    ? alpha(theme.palette.secondary.main, 0.08)
+                    : 'transparent',
+                '&:hover': { bgcolor: alpha(theme.palette.primary.main, 0.05) },
+              }}
+            >
+              <Typography variant="body2" fontWeight={key === todayKey ? 700 : 400}>
+                {date.getDate()}
+              </Typography>
+              {payDate && (
+                <Chip
+                  size="small"
+                  label={`${payDate.payments.length} due`}
+                  color={payDate.overdue ? 'error' : 'primary'}
+                  sx={{ mt: 0.5 }}
+                />
+              )}
+            </Box>
+          )
+        })}
+      </Box>
+    )
+  }
+
+  const renderList = () => {
+    const upcoming = payDates.filter(payDate => payDate.date >= today || payDate.overdue)
+    if (upcoming.length === 0) {
+      return (
+        <Alert severity="info" sx={{ borderRadius: 2 }}>
+          No scheduled payments.
+        </Alert>
+      )
+    }
+
+    return (
+      <List disablePadding>
+        {upcoming.map((payDate: PayDate) => (
+          <ListItemButton
+            key={payDate.key}
+            selected={payDate.key === selectedKey}
+            onClick={() => selectPayDate(payDate.date)}
+            sx={{ borderRadius: 1, mb: 0.5 }}
+          >
+            <ListItemText
+              primary={payDate.date.toLocaleDateString(undefined, { weekday: 'short', year: 'numeric', month: 'short', day: 'numeric' })}
+              secondary={payDate.payments.map(payment => getEmployeeDisplayName(payment.employee.walletAddress)).join(', ')}
+            />
+            <Chip
+              size="small"
+              label={payDate.overdue ? 'Overdue' : `${payDate.payments.length} due`}
+              color={payDate.overdue ? 'error' : 'primary'}
+            />
+          </ListItemButton>
+        ))}
+      </List>
+    )
+  }
+
+  if (!isConnected) {
+    return (
+      <Box sx={{ p: 3 }}>
+        <Typography variant="h4" gutterBottom>
+          Payroll Calendar
+        </Typography>
+        <Alert severity="info">
+          Please connect your wallet to view the payroll calendar.
+        </Alert>
+      </Box>
+    )
+  }
+
+  const loading = loadingEmployees || loadingIntervals
+  const selectedIsDue = !!selectedPayDate && selectedPayDate.date <= today
+
+  return (
+    <Box sx={{ p: 3 }}>
+      {/* Header */}
+      <Box sx={{
+        mb: 4,
+        background: `linear-gradient(135deg, ${alpha(theme.palette.primary.main, 0.1)} 0%, ${alpha(theme.palette.secondary.main, 0.05)} 100%)`,
+        borderRadius: 2,
+        p: 3,
+        border: `1px solid ${alpha(theme.palette.primary.main, 0.12)}`,
+      }}>
+        <Stack direction="row" justifyContent="space-between" alignItems="center">
+          <Box>
+            <Typography variant="h4" fontWeight={700} gutterBottom>
+              Payroll Calendar
+            </Typography>
+            <Typography variant="body1" color="text.secondary">
+              Upcoming pay dates from each employee's last on-chain payment and frequency
+            </Typography>
+          </Box>
+          <Stack direction="row" spacing={1}>
+            <Button
+              variant="outlined"
+              startIcon={<DownloadIcon />}
+              onClick={handleExport}
+              disabled={loading}
+            >
+              Export ICS
+            </Button>
+            <Tooltip title="Refresh Schedule">
+              <IconButton
+                onClick={refreshData}
+                sx={{
+                  bgcolor: alpha(theme.palette.primary.main, 0.1),
+                  '&:hover': { bgcolor: alpha(theme.palette.primary.main, 0.2) }
+                }}
+              >
+                <RefreshIcon />
+              </IconButton>
+            </Tooltip>
+          </Stack>
+        </Stack>
+      </Box>
+
+      {overduePayments.length > 0 && (
+        <Alert
+          severity="error"
+          icon={<WarningIcon />}
+          sx={{ mb: 3, borderRadius: 2 }}
+          action={
+            <Button color="inherit" size="small" onClick={() => startPayrollRun(overduePayments)}>
+              Pay Overdue
+            </Button>
+          }
+        >
+          {overduePayments.length} employee{overduePayments.length === 1 ? ' is' : 's are'} overdue for payment
+        </Alert>
+      )}
+
+      <Card sx={{ mb: 3, borderRadius: 2 }}>
+        <CardHeader
+          title={
+            <Stack direction="row" alignItems="center" spacing={1}>
+              <IconButton size="small" onClick={() => changeMonth(-1)}>
+                <ChevronLeftIcon />
+              </IconButton>
+              <Typography variant="h6" sx={{ minWidth: 180, textAlign: 'center' }}>
+                {month.toLocaleDateString(undefined, { month: 'long', year: 'numeric' })}
+              </Typography>
+              <IconButton size="small" onClick={() => changeMonth(1)}>
+                <ChevronRightIcon />
+              </IconButton>
+              <Button size="small" onClick={() => selectPayDate(today)}>
+                Today
+              </Button>
+            </Stack>
+          }
+          action={
+            <ToggleButtonGroup
+              size="small"
+              exclusive
+              value={view}
+              onChange={(_, value) => value && setView(value)}
+            >
+              <ToggleButton value="month">
+                <CalendarMonthIcon sx={{ mr: 1 }} fontSize="small" /> Month
+              </ToggleButton>
+              <ToggleButton value="list">
+                <ViewListIcon sx={{ mr: 1 }} fontSize="small" /> List
+              </ToggleButton>
+            </ToggleButtonGroup>
+          }
+        />
+        <CardContent>
+          {loading ? (
+            <Box sx={{ display: 'flex', justifyContent: 'center', p: 4 }}>
+              <CircularProgress />
+            </Box>
+          ) : view === 'month' ? renderMonthGrid() : renderList()}
+        </CardContent>
+      </Card>
+
+      {/* Selected date */}
+      <Card sx={{ borderRadius: 2 }}>
+        <CardHeader
+          title={new Date(`${selectedKey}T00:00:00`).toLocaleDateString(undefined, { weekday: 'long', year: 'numeric', month: 'long', day: 'numeric' })}
+          subheader={selectedPayDate
+            ? `${selectedPayDate.payments.length} employee${selectedPayDate.payments.length === 1 ? '' : 's'} due`
+            : 'No payments due'}
+          action={selectedPayDate && (
+            <Tooltip title={selectedIsDue ? '' : 'Payments can only be processed once they are due'}>
+              <span>
+                <Button
+                  variant="contained"
+                  startIcon={<PlayArrowIcon />}
+                  disabled={!selectedIsDue}
+                  onClick={() => startPayrollRun(selectedPayDate.payments)}
+                >
+                  Start Payroll Run
+                </Button>
+              </span>
+            </Tooltip>
+          )}
+        />
+        {selectedPayDate && (
+          <CardContent>
+            <TableContainer>
+              <Table size="small">
+                <TableHead>
+                  <TableRow>
+                    <TableCell sx={{ fontWeight: 600 }}>Employee</TableCell>
+                    <TableCell sx={{ fontWeight: 600 }}>Wallet</TableCell>
+                    <TableCell sx={{ fontWeight: 600 }}>Frequency</TableCell>
+                    <TableCell sx={{ fontWeight: 600 }} align="right">Amount</TableCell>
+                    <TableCell sx={{ fontWeight: 600 }}>Status</TableCell>
+                  </TableRow>
+                </TableHead>
+                <TableBody>
+                  {selectedPayDate.payments.map(payment => (
+                    <TableRow key={payment.employee.walletAddress}>
+                      <TableCell>{getEmployeeDisplayName(payment.employee.walletAddress)}</TableCell>
+                      <TableCell sx={{ fontFamily: 'monospace' }}>{shortAddress(payment.employee.walletAddress)}</TableCell>
+                      <TableCell>
+                        {PAYMENT_FREQUENCY_LABELS[payment.employee.frequency as keyof typeof PAYMENT_FREQUENCY_LABELS] || 'Unknown'}
+                      </TableCell>
+                      <TableCell align="right">
+                        {parseFloat(payment.employee.salaryAmount || '0').toFixed(4)} {getTokenSymbol(payment.employee.preferredToken)}
+                      </TableCell>
+                      <TableCell>
+                        <Chip
+                          size="small"
+                          label={payment.overdue ? 'Overdue' : selectedIsDue ? 'Due' : 'Upcoming'}
+                          color={payment.overdue ? 'error' : selectedIsDue ? 'warning' : 'default'}
+                        />
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </TableContainer>
+          </CardContent>
+        )}
+      </Card>
+    </Box>
+  )
+}
+
+export default PayrollCalendar
@@ -0,0 +1,544 @@
+import React, { useState, useEffect } from 'react'
+import {
+  Box,
+  Typography,
+  Button,
+  Card,
+  CardContent,
+  CardHeader,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  Chip,
+  IconButton,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Alert,
+  CircularProgress,
+  Tooltip,
+  TextField,
+  Stack,
+  Tabs,
+  Tab,
+  Accordion,
+  AccordionSummary,
+  AccordionDetails,
+  List,
+  ListItem,
+  ListItemText,
+  Divider,
+} from '@mui/material'
+import { useTheme, alpha } from '@mui/material/styles'
+import {
+  Refresh as RefreshIcon,
+  ExpandMore as ExpandMoreIcon,
+  CheckCircle as CheckCircleIcon,
+  Cancel as CancelIcon,
+  Send as SendIcon,
+  Delete as DeleteIcon,
+  PersonAdd as PersonAddIcon,
+  FactCheck as FactCheckIcon,
+} from '@mui/icons-material'
+import { useAccount } from 'wagmi'
+import { ethers } from 'ethers'
+import { useAppDispatch } from '../store/store'
+import { addNotification } from '../store/slices/uiSlice'
+import { usePayrollRuns } from '../hooks/useApi'
+import { useAuth } from '../context/AuthContext'
+import { apiService, PayrollRun, PayrollRunStatus } from '../services/apiService'
+import { ERROR_MESSAGES } from '../contracts/constants'
+
+/**
+ * Payroll Runs page for Web3 Payroll System
+ * Lists payroll runs with their approval history and lets finance approve or reject them
+ * @author Dev Austin
+ */
+
+const STATUS_TABS: { label: string, statuses?: PayrollRunStatus[] }[] = [
+  { label: 'All' },
+  { label: 'Awaiting Approval', statuses: ['submitted'] },
+  { label: 'Ready', statuses: ['approved'] },
+  { label: 'Drafts', statuses: ['draft'] },
+  { label: 'Completed', statuses: ['settled'] },
+  { label: 'Failed', statuses: ['executing', 'failed'] },
+]
+
+const RUN_STATUS_COLORS: Record<PayrollRunStatus, 'default' | 'info' | 'success' | 'warning' | 'error' | 'primary'> = {
+  draft: 'default',
+  submitted: 'info',
+  approved: 'success',
+  executing: 'warning',
+  settled: 'primary',
+  failed: 'error',
+}
+
+const shortAddress = (address: string) => `${address.slice(0, 6)}...${address.slice(-4)}`
+
+const PayrollRuns: React.FC = () => {
+  const theme = useTheme()
+  const { address, isConnected } = useAccount()
+  const dispatch = useAppDispatch()
+  const { company, role, hasRole, refreshStatus } = useAuth()
+
+  const [tab, setTab] = useState(0)
+  const {
+    runs,
+    loading,
+    error,
+    submitRun,
+    approveRun,
+    rejectRun,
+    refreshRuns,
+  } = usePayrollRuns(STATUS_TABS[tab].statuses)
+
+  // Approve / reject dialog
+  const [reviewRun, setReviewRun] = useState<PayrollRun | null>(null)
+  const [reviewAction, setReviewAction] = useState<'approve' | 'reject'>('approve')
+  const [reviewNote, setReviewNote] = useState('')
+  const [reviewing, setReviewing] = useState(false)
+
+  // Finance approver management (owner only)
+  const [approvers, setApprovers] = useState<string[]>([])
+  const [approvalsRequired, setApprovalsRequired] = useState(1)
+  const [newApprover, setNewApprover] = useState('')
+  const [savingApprovers, setSavingApprovers] = useState(false)
+
+  const wallet = address?.toLowerCase()
+  const isOwner = role === 'owner'
+  const isFinanceApprover = role === 'finance'
+  // The owner and finance prepare and submit runs; auditors only read them
+  const canSubmitRuns = hasRole('finance')
+
+  useEffect(() => {
+    setApprovers(company?.financeApprovers || [])
+    setApprovalsRequired(company?.payrollApprovalsRequired || 1)
+  }, [company])
+
+  /**
+   * Open the approve / reject dialog
+   */
+  const openReview = (run: PayrollRun, action: 'approve' | 'reject') => {
+    setReviewRun(run)
+    setReviewAction(action)
+    setReviewNote('')
+  }
+
+  /**
+   * Confirm approval or rejection
+   */
+  const confirmReview = async () => {
+    if (!reviewRun) return
+
+    if (reviewAction === 'reject' && !reviewNote.trim()) {
+      dispatch(addNotification({
+        type: 'error',
+        title: 'Reason Required',
+        message: 'Please explain why the payroll run is being rejected',
+      }))
+      return
+    }
+
+    setReviewing(true)
+    const result = reviewAction === 'approve'
+      ? await approveRun(reviewRun._id, reviewNote.trim() || undefined)
+      : await rejectRun(reviewRun._id, reviewNote.trim())
+    setReviewing(false)
+
+    if (result) {
+      dispatch(addNotification({
+        type: 'success',
+        title: reviewAction === 'approve' ? 'Payroll Run Approved' : 'Payroll Run Rejected',
+        message: reviewAction === 'approve'
+          ? result.status === 'approved'
+            ? 'The payroll run can now be processed'
+            : `Approval recorded (${result.approvals.length}/${result.requiredApprovals})`
+          : 'The payroll run was sent back to draft',
+      }))
+      setReviewRun(null)
+    } else {
+      dispatch(addNotification({
+        type: 'error',
+        title: 'Review Failed',
+        message: ERROR_MESSAGES.NETWORK_ERROR,
+      }))
+    }
+  }
+
+  /**
+   * Re-submit a draft or a failed run for approval
+   */
+  const handleSubmit = async (run: PayrollRun) => {
+    const result = await submitRun(run._id)
+    dispatch(addNotification(result ? {
+      type: 'success',
+      title: 'Payroll Run Submitted',
+      message: 'The payroll run is awaiting finance approval',
+    } : {
+      type: 'error',
+      title: 'Submit Failed',
+      message: ERROR_MESSAGES.NETWORK_ERROR,
+    }))
+  }
+
+  /**
+   * Add a finance approver to the local list
+   */
+  const handleAddApprover = () => {
+    const candidate = newApprover.trim()
+    if (!ethers.utils.isAddress(candidate)) {
+      dispatch(addNotification({
+        type: 'error',
+        title: 'Invalid Address',
+        message: ERROR_MESSAGES.INVALID_ADDRESS,
+      }))
+      return
+    }
+
+    const normalized = candidate.toLowerCase()
+    if (normalized === company?.ownerWallet?.toLowerCase()) {
+      dispatch(addNotification({
+        type: 'error',
+        title: 'Invalid Approver',
+        message: 'The company owner cannot approve their own payroll runs',
+      }))
+      return
+    }
+
+    if (!approvers.includes(normalized)) {
+      setApprovers(prev => [...prev, normalized])
+    }
+    setNewApprover('')
+  }
+
+  /**
+   * Save finance approvers
+   */
+  const handleSaveApprovers = async () => {
+    setSavingApprovers(true)
+    const response = await apiService.updateFinanceApprovers({
+      approvers,
+      approvalsRequired,
+    })
+    setSavingApprovers(false)
+
+    if (response.success) {
+      await refreshStatus()
+      dispatch(addNotification({
+        type: 'success',
+        title: 'Approvers Updated',
+        message: 'Finance approvers saved',
+      }))
+    } else {
+      dispatch(addNotification({
+        type: 'error',
+        title: 'Update Failed',
+        message: response.error || ERROR_MESSAGES.NETWORK_ERROR,
+      }))
+    }
+  }
+
+  if (!isConnected) {
+    return (
+      <Box sx={{ p: 3 }}>
+        <Typography variant="h4" gutterBottom>
+          Payroll Runs
+        </Typography>
+        <Alert severity="info">
+          Please connect your wallet to review payroll runs.
+        </Alert>
+      </Box>
+    )
+  }
+
+  return (
+    <Box sx={{ p: 3 }}>
+      {/* Header */}
+      <Box sx={{
+        mb: 4,
+        background: `linear-gradient(135deg, ${alpha(theme.palette.primary.main, 0.1)} 0%, ${alpha(theme.palette.secondary.main, 0.05)} 100%)`,
+        borderRadius: 2,
+        p: 3,
+        border: `1px solid ${alpha(theme.palette.primary.main, 0.12)}`,
+      }}>
+        <Stack direction="row" justifyContent="space-between" alignItems="center">
+          <Box>
+            <Typography variant="h4" fontWeight={700} gutterBottom>
+              Payroll Runs
+            </Typography>
+            <Typography variant="body1" color="text.secondary">
+              {isFinanceApprover
+                ? 'Review and approve payroll runs before they are executed on-chain'
+                : 'Track payroll runs through finance approval and execution'}
+            </Typography>
+          </Box>
+          <Tooltip title="Refresh Runs">
+            <IconButton
+              onClick={refreshRuns}
+              sx={{
+                bgcolor: alpha(theme.palette.primary.main, 0.1),
+                '&:hover': { bgcolor: alpha(theme.palette.primary.main, 0.2) }
+              }}
+            >
+              <RefreshIcon />
+            </IconButton>
+          </Tooltip>
+        </Stack>
+      </Box>
+
+      {isOwner && (company?.financeApprovers || []).length === 0 && (
+        <Alert severity="warning" sx={{ mb: 3, borderRadius: 2 }}>
+          No finance approvers are configured yet. Add at least one approver below so payroll runs can be approved.
+        </Alert>
+      )}
+
+      {error && (
+        <Alert severity="error" sx={{ mb: 3, borderRadius: 2 }}>
+          {error}
+        </Alert>
+      )}
+
+      {/* Runs */}
+      <Card sx={{ mb: 3, borderRadius: 2 }}>
+        <Tabs
+          value={tab}
+          onChange={(_, value) => setTab(value)}
+          variant="scrollable"
+          sx={{ px: 2, borderBottom: `1px solid ${theme.palette.divider}` }}
+        >
+          {STATUS_TABS.map(item => <Tab key={item.label} label={item.label} />)}
+        </Tabs>
+        <CardContent>
+          {loading ? (
+            <Box sx={{ display: 'flex', justifyContent: 'center', p: 4 }}>
+              <CircularProgress />
+            </Box>
+          ) : runs.length === 0 ? (
+            <Alert severity="info" sx={{ borderRadius: 2 }}>
+              No payroll runs found.
+            </Alert>
+          ) : (
+            runs.map(run => {
+              const alreadyApproved = run.approvals.some(approval => approval.wallet === wallet)
+              const canReview = isFinanceApprover && run.status === 'submitted' && run.createdBy !== wallet
+
+              return (
+                <Accordion key={run._id} disableGutters sx={{ mb: 1, '&:before': { display: 'none' } }}>
+                  <AccordionSummary expandIcon={<ExpandMoreIcon />}>
+                    <Stack direction="row" spacing={2} alignItems="center" sx={{ width: '100%', pr: 2 }}>
+                      <FactCheckIcon color="primary" />
+                      <Box sx={{ flexGrow: 1 }}>
+                        <Typography variant="body1" fontWeight={600}>
+                          {run.summary.employeeCount} employees • {parseFloat(run.summary.totalAmount || '0').toFixed(4)}
+                        </Typography>
+                        <Typography variant="caption" color="text.secondary">
+                          Created {new Date(run.createdAt).toLocaleString()} by {shortAddress(run.createdBy)}
+                        </Typography>
+                      </Box>
+                      {run.status === 'submitted' && (
+                        <Typography variant="body2" color="text.secondary">
+                          {run.approvals.length}/{run.requiredApprovals} approvals
+                        </Typography>
+                      )}
+                      <Chip label={run.status} color={RUN_STATUS_COLORS[run.status]} size="small" />
+                    </Stack>
+                  </AccordionSummary>
+                  <AccordionDetails>
+                    {run.failureReason && run.status === 'failed' && (
+                      <Alert severity="error" sx={{ mb: 2 }}>
+                        {run.failureReason}
+                      </Alert>
+                    )}
+
+                    {!!run.reconciliation?.missing.length && (
+                      <Alert severity="warning" sx={{ mb: 2 }}>
+                        No PaymentProcessed event for {run.reconciliation.missing
+                          .map(item => item.name || shortAddress(item.walletAddress))
+                          .join(', ')}
+                      </Alert>
+                    )}
+
+                    <Typography variant="subtitle2" color="text.secondary" sx={{ mb: 1 }}>
+                      Payments
+                    </Typography>
+                    <TableContainer sx={{ mb: 2 }}>
+                      <Table size="small">
+                        <TableHead>
+                          <TableRow>
+                            <TableCell sx={{ fontWeight: 600 }}>Employee</TableCell>
+                            <TableCell sx={{ fontWeight: 600 }}>Wallet</TableCell>
+                            <TableCell sx={{ fontWeight: 600 }} align="right">Amount</TableCell>
+                          </TableRow>
+                        </TableHead>
+                        <TableBody>
+                          {run.employees.map(emp => (
+                            <TableRow key={emp.walletAddress}>
+                              <TableCell>{emp.name || 'Unknown'}</TableCell>
+                              <TableCell sx={{ fontFamily: 'monospace' }}>{shortAddress(emp.walletAddress)}</TableCell>
+                              <TableCell align="right">{parseFloat(emp.amount || '0').toFixed(4)} {emp.tokenSymbol}</TableCell>
+                            </TableRow>
+                          ))}
+                        </TableBody>
+                      </Table>
+                    </TableContainer>
+
+                    <Typography variant="subtitle2" color="text.secondary" sx={{ mb: 1 }}>
+                      History
+                    </Typography>
+                    <List dense disablePadding sx={{ mb: 2 }}>
+                      {run.transitions.map((transition, index) => (
+                        <ListItem key={`${transition.to}-${index}`} disableGutters>
+                          <ListItemText
+                            primary={`${transition.from ? `${transition.from} → ` : ''}${transition.to} by ${shortAddress(transition.actor)}`}
+                            secondary={`${new Date(transition.at).toLocaleString()}${transition.note ? ` • ${transition.note}` : ''}`}
+                          />
+                        </ListItem>
+                      ))}
+                      {run.approvals.map(approval => (
+                        <ListItem key={approval.wallet} disableGutters>
+                          <ListItemText
+                            primary={`Approved by ${shortAddress(approval.wallet)}`}
+                            secondary={`${new Date(approval.approvedAt).toLocaleString()}${approval.comment ? ` • ${approval.comment}` : ''}`}
+                          />
+                        </ListItem>
+                      ))}
+                    </List>
+
+                    {run.transactionHash && (
+                      <Typography variant="body2" sx={{ mb: 2, fontFamily: 'monospace' }}>
+                        Transaction: {run.transactionHash}
+                      </Typography>
+                    )}
+
+                    <Stack direction="row" spacing={1} justifyContent="flex-end">
+                      {canSubmitRuns && (run.status === 'draft' || run.status === 'failed') && (
+                        <Button variant="contained" startIcon={<SendIcon />} onClick={() => handleSubmit(run)}>
+                          {run.status === 'failed' ? 'Resubmit for Approval' : 'Submit for Approval'}
+                        </Button>
+                      )}
+                      {canReview && (
+                        <>
+                          <Button color="error" startIcon={<CancelIcon />} onClick={() => openReview(run, 'reject')}>
+                            Reject
+                          </Button>
+                          <Button
+                            variant="contained"
+                            color="success"
+                            startIcon={<CheckCircleIcon />}
+                            onClick={() => openReview(run, 'approve')}
+                            disabled={alreadyApproved}
+                          >
+                            {alreadyApproved ? 'Approved' : 'Approve'}
+                          </Button>
+                        </>
+                      )}
+                    </Stack>
+                  </AccordionDetails>
+                </Accordion>
+              )
+            })
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Finance approvers (owner only) */}
+      {isOwner && (
+        <Card sx={{ borderRadius: 2 }}>
+          <CardHeader
+            title="Finance Approvers"
+            subheader="Wallets that must sign off on payroll runs before they can be processed"
+          />
+          <CardContent>
+            <List dense>
+              {approvers.map((approver, index) => (
+                <React.Fragment key={approver}>
+                  <ListItem
+                    secondaryAction={
+                      <IconButton edge="end" onClick={() => setApprovers(prev => prev.filter(a => a !== approver))}>
+                        <DeleteIcon />
+                      </IconButton>
+                    }
+                  >
+                    <ListItemText primary={approver} primaryTypographyProps={{ fontFamily: 'monospace' }} />
+                  </ListItem>
+                  {index < approvers.length - 1 && <Divider />}
+                </React.Fragment>
+              ))}
+            </List>
+            <Stack direction="row" spacing={2} sx={{ mt: 2 }}>
+              <TextField
+                size="small"
+                label="Approver wallet address"
+                value={newApprover}
+                onChange={(e) => setNewApprover(e.target.value)}
+                sx={{ flexGrow: 1 }}
+              />
+              <Button startIcon={<PersonAddIcon />} onClick={handleAddApprover}>
+                Add
+              </Button>
+            </Stack>
+            <Stack direction="row" spacing={2} alignItems="center" sx={{ mt: 2 }}>
+              <TextField
+                size="small"
+                type="number"
+                label="Approvals required"
+                value={approvalsRequired}
+                onChange={(e) => setApprovalsRequired(Math.max(1, parseInt(e.target.value) || 1))}
+                inputProps={{ min: 1, max: Math.max(1, approvers.length) }}
+                sx={{ width: 200 }}
+              />
+              <Box sx={{ flexGrow: 1 }} />
+              <Button
+                variant="contained"
+                onClick={handleSaveApprovers}
+                disabled={savingApprovers || (approvers.length > 0 && approvalsRequired > approvers.length)}
+              >
+                {savingApprovers ? <CircularProgress size={20} /> : 'Save Approvers'}
+              </Button>
+            </Stack>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Approve / Reject Dialog */}
+      <Dialog open={!!reviewRun} onClose={() => setReviewRun(null)} maxWidth="sm" fullWidth>
+        <DialogTitle>{reviewAction === 'approve' ? 'Approve Payroll Run' : 'Reject Payroll Run'}</DialogTitle>
+        <DialogContent>
+          {reviewRun && (
+            <Typography variant="body1" sx={{ mb: 2 }}>
+              {reviewRun.summary.employeeCount} employees •{' '}
+              {Object.entries(reviewRun.summary.tokenBreakdown || {})
+                .map(([token, data]) => `${parseFloat(data.amount || '0').toFixed(4)} ${token}`)
+                .join(', ')}
+            </Typography>
+          )}
+          <TextField
+            fullWidth
+            multiline
+            minRows={2}
+            label={reviewAction === 'approve' ? 'Comment (optional)' : 'Reason'}
+            value={reviewNote}
+            onChange={(e) => setReviewNote(e.target.value)}
+          />
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setReviewRun(null)} disabled={reviewing}>Cancel</Button>
+          <Button
+            onClick={confirmReview}
+            variant="contained"
+            color={reviewAction === 'approve' ? 'success' : 'error'}
+            disabled={reviewing}
+          >
+            {reviewing ? <CircularProgress size={20} /> : reviewAction === 'approve' ? 'Approve' : 'Reject'}
+          </Button>
+        </DialogActions>
+      </Dialog>
+    </Box>
+  )
+}
+
+export default PayrollRuns
@@ -0,0 +1,485 @@
+import React, { useState, useMemo } from 'react'
+import {
+  Box,
+  Typography,
+  Button,
+  Card,
+  CardContent,
+  CardHeader,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  Chip,
+  IconButton,
+  Alert,
+  CircularProgress,
+  Tooltip,
+  Stack,
+  FormControlLabel,
+  Switch,
+} from '@mui/material'
+import { useTheme, alpha } from '@mui/material/styles'
+import {
+  Refresh as RefreshIcon,
+  CloudUpload as ToChainIcon,
+  Storage as ToDatabaseIcon,
+} from '@mui/icons-material'
+import { useAccount } from 'wagmi'
+import { useAppDispatch } from '../store/store'
+import { addNotification } from '../store/slices/uiSlice'
+import { useBlockchain } from '../hooks/useBlockchain'
+import { useEmployees } from '../hooks/useApi'
+import { PaymentResult } from '../services/blockchainService'
+import {
+  ReconciliationRow,
+  ReconciliationField,
+  ReconciliationStatus,
+  reconcileEmployees,
+  getTokenAddress,
+} from '../utils/reconciliation'
+import {
+  TOKEN_ADDRESSES,
+  PAYMENT_FREQUENCIES,
+  PAYMENT_FREQUENCY_LABELS,
+} from '../contracts/constants'
+
+/**
+ * Reconciliation page for Web3 Payroll System
+ * Compares the payroll contract with the database and fixes drift in either direction
+ * @author Dev Austin
+ */
+
+// The API pages employees; reconciliation needs every record at once
+const ALL_EMPLOYEES = { limit: 1000 }
+
+const STATUS_CHIPS: Record<ReconciliationStatus, { label: string; color: 'success' | 'error' | 'warning' | 'info' }> = {
+  matched: { label: 'In Sync', color: 'success' },
+  mismatched: { label: 'Mismatch', color: 'error' },
+  missing_on_chain: { label: 'Not On-Chain', color: 'warning' },
+  missing_in_db: { label: 'Not In Database', color: 'info' },
+}
+
+const shortAddress = (address: string) => `${address.slice(0, 6)}...${address.slice(-4)}`
+
+const getFrequencyLabel = (frequency?: string) => {
+  if (!frequency) return 'Unknown'
+  return PAYMENT_FREQUENCY_LABELS[PAYMENT_FREQUENCIES[frequency as keyof typeof PAYMENT_FREQUENCIES]] || frequency
+}
+
+const getResultError = (result: PaymentResult, fallback: string) => {
+  const error = result.error || fallback
+  return result.suggestion ? `${error}. ${result.suggestion}` : error
+}
+
+// formatUnits always keeps one decimal place; the database stores "1000", not "1000.0"
+const trimAmount = (amount: string) => amount.replace(/\.0$/, '')
+
+const Reconciliation: React.FC = () => {
+  const theme = useTheme()
+  const { isConnected } = useAccount()
+  const dispatch = useAppDispatch()
+
+  const {
+    isOwner,
+    currentNetwork,
+    employees: blockchainEmployees,
+    loadingEmployees,
+    addEmployee,
+    removeEmployee,
+    updateEmployeeCompensation,
+    refreshData,
+  } = useBlockchain()
+  const {
+    employees: apiEmployees = [],
+    totalEmployees,
+    loading: loadingRecords,
+    createEmployee,
+    updateEmployee,
+    terminateEmployee,
+    activateEmployee,
+    refreshEmployees,
+  } = useEmployees(ALL_EMPLOYEES)
+
+  const [showMatched, setShowMatched] = useState(false)
+  const [fixing, setFixing] = useState<string | null>(null)
+
+  const networkTokens: Record<string, string> = useMemo(() => {
+    return currentNetwork ? TOKEN_ADDRESSES[currentNetwork as keyof typeof TOKEN_ADDRESSES] || {} : {}
+  }, [currentNetwork])
+
+  const rows = useMemo(() => {
+    return reconcileEmployees(blockchainEmployees || [], apiEmployees || [], networkTokens)
+  }, [blockchainEmployees, apiEmployees, networkTokens])
+
+  const counts = rows.reduce((acc, row) => {
+    acc[row.status] = (acc[row.status] || 0) + 1
+    return acc
+  }, {} as Partial<Record<ReconciliationStatus, number>>)
+  const visibleRows = showMatched ? rows : rows.filter(row => row.status !== 'matched')
+
+  const getDisplayName = (row: ReconciliationRow) => {
+    return row.record?.personalInfo?.name || row.chain?.ensSubdomain || shortAddress(row.walletAddress)
+  }
+
+  const notifyFixed = (row: ReconciliationRow, target: string) => {
+    dispatch(addNotification({
+      type: 'success',
+      title: 'Employee Reconciled',
+      message: `${getDisplayName(row)} now matches in the ${target}.`,
+    }))
+  }
+
+  const notifyFailed = (message: string) => {
+    dispatch(addNotification({
+      type: 'error',
+      title: 'Reconciliation Failed',
+      message,
+    }))
+  }
+
+  /**
+   * Why the database values cannot be written on-chain, if they cannot
+   */
+  const getChainFixBlocker = (row: ReconciliationRow) => {
+    if (!row.record) return 'No database record to apply'
+    if (!isOwner) return 'Only the contract owner can update employees on-chain'
+    if (!row.chain && !row.record.payrollSettings.walletVerified) {
+      return 'The employee has not confirmed this wallet through an invite link'
+    }
+    if (!getTokenAddress(networkTokens, row.record.payrollSettings.preferredToken)) {
+      return `${row.record.payrollSettings.preferredToken} is not available on this network`
+    }
+    return null
+  }
+
+  /**
+   * Why the on-chain values cannot be saved to the database, if they cannot
+   */
+  const getDatabaseFixBlocker = (row: ReconciliationRow) => {
+    if (!row.chain) return 'No on-chain employee to apply'
+    if (!row.chainToken) return 'The on-chain token is not a known token on this network'
+    if (!row.chainFrequency) return 'The on-chain payment frequency is not recognised'
+    return null
+  }
+
+  /**
+   * Make the contract match the database record
+   */
+  const applyToChain = async (row: ReconciliationRow) => {
+    const record = row.record
+    if (!record || getChainFixBlocker(row)) return
+
+    const settings = record.payrollSettings
+    const tokenAddress = getTokenAddress(networkTokens, settings.preferredToken) as string
+    const frequency = PAYMENT_FREQUENCIES[settings.paymentFrequency || 'MONTHLY']
+    const recordActive = record.employmentDetails?.isActive !== false
+
+    setFixing(`${row.walletAddress}-chain`)
+    try {
+      let result: PaymentResult
+      if (!row.chain || (!row.chain.isActive && recordActive)) {
+        result = await addEmployee({
+          employee: row.walletAddress,
+          salary: settings.salaryAmount,
+          subdomain: record.ensDetails?.subdomain || record.personalInfo.name.toLowerCase().replace(/\s+/g, ''),
+          frequency,
+          token: tokenAddress,
+          position: record.employmentDetails?.position || '',
+          department: record.employmentDetails?.department || '',
+        })
+      } else if (row.chain.isActive && !recordActive) {
+        result = await removeEmployee(row.walletAddress)
+      } else {
+        result = await updateEmployeeCompensation(row.walletAddress, settings.salaryAmount, frequency, tokenAddress)
+      }
+
+      if (result.success) {
+        notifyFixed(row, 'payroll contract')
+      } else {
+        notifyFailed(getResultError(result, 'Failed to update the payroll contract'))
+      }
+    } finally {
+      setFixing(null)
+    }
+  }
+
+  /**
+   * Make the database record match the contract
+   */
+  const applyToDatabase = async (row: ReconciliationRow) => {
+    const chain = row.chain
+    if (!chain || !row.chainToken || !row.chainFrequency) return
+
+    const payrollSettings = {
+      salaryAmount: trimAmount(chain.salaryAmount),
+      paymentFrequency: row.chainFrequency,
+      preferredToken: row.chainToken,
+    }
+
+    setFixing(`${row.walletAddress}-db`)
+    try {
+      let saved = true
+      if (!row.record?._id) {
+        saved = await createEmployee({
+          fromContract: true,
+          personalInfo: {
+            name: chain.ensSubdomain || shortAddress(row.walletAddress),
+            email: '',
+          },
+          payrollSettings: {
+            ...payrollSettings,
+            walletAddress: row.walletAddress,
+            lastPaymentTimestamp: chain.lastPaymentTimestamp,
+          },
+        })
+      } else {
+        const id = row.record._id
+        if (row.mismatches.includes('active')) {
+          saved = chain.isActive
+            ? await activateEmployee(id)
+            : await terminateEmployee(id, {
+              terminationDate: new Date().toISOString(),
+              reason: 'Removed from the payroll contract',
+              ensAction: 'kept',
+            })
+        }
+
+        const compensationDrift = row.mismatches.some(field => field !== 'active')
+        if (saved && chain.isActive && compensationDrift) {
+          saved = await updateEmployee(id, { payrollSettings, fromContract: true })
+        }
+      }
+
+      if (saved) {
+        notifyFixed(row, 'database')
+      } else {
+        notifyFailed('Failed to update the employee record')
+      }
+    } finally {
+      setFixing(null)
+    }
+  }
+
+  const handleRefresh = async () => {
+    await Promise.all([refreshData(), refreshEmployees()])
+  }
+
+  const renderCompare = (
+    row: ReconciliationRow,
+    field: ReconciliationField,
+    chainValue: string | undefined,
+    recordValue: string | undefined
+  ) => {
+    const mismatched = row.mismatches.includes(field)
+    return (
+      <Box sx={{
+        p: 0.5,
+        borderRadius: 1,
+        bgcolor: mismatched ? alpha(theme.palette.error.main, 0.08) : 'transparent',
+      }}>
+        <Typography variant="body2" color={mismatched ? 'error.main' : 'text.primary'}>
+          Chain: {row.chain ? chainValue ?? 'Unknown' : '-'}
+        </Typography>
+        <Typography variant="caption" color="text.secondary">
+          DB: {row.record ? recordValue ?? 'Unknown' : '-'}
+        </Typography>
+      </Box>
+    )
+  }
+
+  const renderActions = (row: ReconciliationRow) => {
+    if (row.status === 'matched') return null
+
+    const chainBlocker = getChainFixBlocker(row)
+    const databaseBlocker = getDatabaseFixBlocker(row)
+    const busy = fixing !== null
+
+    return (
+      <Stack direction="row" spacing={1} justifyContent="flex-end">
+        <Tooltip title={chainBlocker || 'Write the database values to the payroll contract'}>
+          <span>
+            <Button
+              size="small"
+              variant="outlined"
+              startIcon={fixing === `${row.walletAddress}-chain` ? <CircularProgress size={14} /> : <ToChainIcon />}
+              disabled={busy || !!chainBlocker}
+              onClick={() => applyToChain(row)}
+            >
+              Use Database
+            </Button>
+          </span>
+        </Tooltip>
+        <Tooltip title={databaseBlocker || 'Save the on-chain values to the database'}>
+          <span>
+            <Button
+              size="small"
+              variant="outlined"
+              color="secondary"
+              startIcon={fixing === `${row.walletAddress}-db` ? <CircularProgress size={14} /> : <ToDatabaseIcon />}
+              disabled={busy || !!databaseBlocker}
+              onClick={() => applyToDatabase(row)}
+            >
+              Use On-Chain
+            </Button>
+          </span>
+        </Tooltip>
+      </Stack>
+    )
+  }
+
+  if (!isConnected) {
+    return (
+      <Box sx={{ p: 3 }}>
+        <Typography variant="h4" gutterBottom>
+          Reconciliation
+        </Typography>
+        <Alert severity="info">
+          Please connect your wallet to compare on-chain and database records.
+        </Alert>
+      </Box>
+    )
+  }
+
+  const loading = loadingEmployees || loadingRecords
+
+  return (
+    <Box sx={{ p: 3 }}>
+      {/* Header */}
+      <Box sx={{
+        mb: 4,
+        background: `linear-gradient(135deg, ${alpha(theme.palette.primary.main, 0.1)} 0%, ${alpha(theme.palette.secondary.main, 0.05)} 100%)`,
+        borderRadius: 2,
+        p: 3,
+        border: `1px solid ${alpha(theme.palette.primary.main, 0.12)}`,
+      }}>
+        <Stack direction="row" justifyContent="space-between" alignItems="center">
+          <Box>
+            <Typography variant="h4" fontWeight={700} gutterBottom>
+              Reconciliation
+            </Typography>
+            <Typography variant="body1" color="text.secondary">
+              Employees whose payroll contract entry and database record disagree, matched by wallet address
+            </Typography>
+          </Box>
+          <Tooltip title="Refresh">
+            <IconButton
+              onClick={handleRefresh}
+              sx={{
+                bgcolor: alpha(theme.palette.primary.main, 0.1),
+                '&:hover': { bgcolor: alpha(theme.palette.primary.main, 0.2) }
+              }}
+            >
+              <RefreshIcon />
+            </IconButton>
+          </Tooltip>
+        </Stack>
+      </Box>
+
+      {totalEmployees > (apiEmployees || []).length && (
+        <Alert severity="warning" sx={{ mb: 3, borderRadius: 2 }}>
+          Only {(apiEmployees || []).length} of {totalEmployees} database records were loaded; some differences may not be shown.
+        </Alert>
+      )}
+
+      <Card sx={{ borderRadius: 2 }}>
+        <CardHeader
+          title={
+            <Stack direction="row" spacing={1} alignItems="center" flexWrap="wrap">
+              {(Object.keys(STATUS_CHIPS) as ReconciliationStatus[]).map(status => (
+                <Chip
+                  key={status}
+                  size="small"
+                  label={`${STATUS_CHIPS[status].label}: ${counts[status] || 0}`}
+                  color={STATUS_CHIPS[status].color}
+                  variant={status === 'matched' ? 'outlined' : 'filled'}
+                />
+              ))}
+            </Stack>
+          }
+          action={
+            <FormControlLabel
+              control={<Switch checked={showMatched} onChange={(e) => setShowMatched(e.target.checked)} />}
+              label="Show in-sync employees"
+            />
+          }
+        />
+        <CardContent>
+          {loading ? (
+            <Box sx={{ display: 'flex', justifyContent: 'center', p: 4 }}>
+              <CircularProgress />
+            </Box>
+          ) : visibleRows.length === 0 ? (
+            <Alert severity="success" sx={{ borderRadius: 2 }}>
+              The payroll contract and the database agree on every employee.
+            </Alert>
+          ) : (
+            <TableContainer>
+              <Table size="small">
+                <TableHead>
+                  <TableRow>
+                    <TableCell sx={{ fontWeight: 600 }}>Employee</TableCell>
+                    <TableCell sx={{ fontWeight: 600 }}>Status</TableCell>
+                    <TableCell sx={{ fontWeight: 600 }}>Salary</TableCell>
+                    <TableCell sx={{ fontWeight: 600 }}>Frequency</TableCell>
+                    <TableCell sx={{ fontWeight: 600 }}>Token</TableCell>
+                    <TableCell sx={{ fontWeight: 600 }}>Active</TableCell>
+                    <TableCell sx={{ fontWeight: 600 }} align="right">Fix</TableCell>
+                  </TableRow>
+                </TableHead>
+                <TableBody>
+                  {visibleRows.map(row => (
+                    <TableRow key={row.walletAddress}>
+                      <TableCell>
+                        <Typography variant="body2" fontWeight={500}>
+                          {getDisplayName(row)}
+                        </Typography>
+                        <Typography variant="caption" color="text.secondary" sx={{ fontFamily: 'monospace' }}>
+                          {shortAddress(row.walletAddress)}
+                        </Typography>
+                      </TableCell>
+                      <TableCell>
+                        <Chip
+                          size="small"
+                          label={STATUS_CHIPS[row.status].label}
+                          color={STATUS_CHIPS[row.status].color}
+                        />
+                      </TableCell>
+                      <TableCell>
+                        {renderCompare(row, 'salary', row.chain && trimAmount(row.chain.salaryAmount), row.record?.payrollSettings.salaryAmount)}
+                      </TableCell>
+                      <TableCell>
+                        {renderCompare(
+                          row,
+                          'frequency',
+                          row.chainFrequency && getFrequencyLabel(row.chainFrequency),
+                          getFrequencyLabel(row.record?.payrollSettings.paymentFrequency || 'MONTHLY')
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        {renderCompare(row, 'token', row.chainToken, row.record?.payrollSettings.preferredToken)}
+                      </TableCell>
+                      <TableCell>
+                        {renderCompare(
+                          row,
+                          'active',
+                          row.chain && (row.chain.isActive ? 'Active' : 'Inactive'),
+                          row.record && (row.record.employmentDetails?.isActive !== false ? 'Active' : 'Inactive')
+                        )}
+                      </TableCell>
+                      <TableCell align="right">{renderActions(row)}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </TableContainer>
+          )}
+        </CardContent>
+      </Card>
+    </Box>
+  )
+}
+
+export default Reconciliation
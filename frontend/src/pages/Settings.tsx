@@ -1,23 +1,379 @@
-import React from 'react'
-import { Box, Typography, Card, CardContent, Alert } from '@mui/material'
+import React, { useState, useEffect, useCallback } from 'react'
+import {
+  Box,
+  Typography,
+  Card,
+  CardContent,
+  CardHeader,
+  Alert,
+  Button,
+  Chip,
+  CircularProgress,
+  Divider,
+  FormControl,
+  FormControlLabel,
+  IconButton,
+  InputLabel,
+  List,
+  ListItem,
+  ListItemText,
+  MenuItem,
+  Select,
+  Stack,
+  Switch,
+  TextField,
+  Tooltip,
+} from '@mui/material'
+import { useTheme, alpha } from '@mui/material/styles'
+import {
+  Delete as DeleteIcon,
+  PersonAdd as PersonAddIcon,
+  Refresh as RefreshIcon,
+  Save as SaveIcon,
+} from '@mui/icons-material'
+import { ethers } from 'ethers'
+import { useAppDispatch } from '../store/store'
+import { addNotification } from '../store/slices/uiSlice'
+import { useAuth, ROLE_LABELS } from '../context/AuthContext'
+import { useBlockchain } from '../hooks/useBlockchain'
+import { apiService, CompanyMember } from '../services/apiService'
+import { PaymentResult } from '../services/blockchainService'
+import { ERROR_MESSAGES } from '../contracts/constants'
+import { formatCooldown } from '../utils/walletChange'
+
+/**
+ * Company settings: the owner invites HR, finance and auditor members
+ * and sets the cooldown for payout wallet changes
+ * @author Dev Austin
+ */
+
+type MemberRole = CompanyMember['role']
+
+const ROLE_DESCRIPTIONS: Record<MemberRole, string> = {
+  hr: 'Adds, edits and terminates employees',
+  finance: 'Approves and executes payroll and bonuses',
+  auditor: 'Read-only access to employees, payroll and reports',
+}
+
+const getResultError = (result: PaymentResult, fallback: string) => {
+  const error = result.error || fallback
+  return result.suggestion ? `${error}. ${result.suggestion}` : error
+}
+
+// Auditors never act on-chain, so only HR and finance have a contract role
+const hasContractRole = (role: MemberRole): role is 'hr' | 'finance' => role !== 'auditor'
 
 const Settings: React.FC = () => {
+  const theme = useTheme()
+  const dispatch = useAppDispatch()
+  const { company, refreshStatus } = useAuth()
+  const { grantRole, revokeRole, getWalletChangeDelay, setWalletChangeDelay } = useBlockchain()
+
+  const [members, setMembers] = useState<CompanyMember[]>([])
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  // Invite form
+  const [wallet, setWallet] = useState('')
+  const [role, setRole] = useState<MemberRole>('hr')
+  const [syncOnChain, setSyncOnChain] = useState(true)
+  const [saving, setSaving] = useState(false)
+
+  // Wallet change cooldown, in hours
+  const [cooldown, setCooldown] = useState<number | null>(null)
+  const [cooldownInput, setCooldownInput] = useState('')
+  const [savingCooldown, setSavingCooldown] = useState(false)
+
+  const loadMembers = useCallback(async () => {
+    setLoading(true)
+    const response = await apiService.getCompanyMembers()
+    setLoading(false)
+
+    if (response.success && response.data) {
+      setMembers(response.data.members)
+      setError(null)
+    } else {
+      setError(response.error || ERROR_MESSAGES.NETWORK_ERROR)
+    }
+  }, [])
+
+  useEffect(() => {
+    loadMembers()
+  }, [loadMembers])
+
+  useEffect(() => {
+    getWalletChangeDelay()
+      .then(seconds => {
+        setCooldown(seconds)
+        setCooldownInput((seconds / 3600).toString())
+      })
+      .catch(err => console.error('Error loading wallet change cooldown:', err))
+  }, [getWalletChangeDelay])
+
+  /**
+   * Mirror a role change on the contract so the member can sign transactions
+   */
+  const syncContractRole = async (address: string, previous: MemberRole | null, next: MemberRole | null) => {
+    if (!syncOnChain || previous === next) return
+
+    const steps: Array<() => Promise<PaymentResult>> = []
+    if (previous && hasContractRole(previous)) steps.push(() => revokeRole(previous, address))
+    if (next && hasContractRole(next)) steps.push(() => grantRole(next, address))
+
+    for (const step of steps) {
+      const result = await step()
+      if (!result.success) {
+        dispatch(addNotification({
+          type: 'warning',
+          title: 'On-Chain Role Not Updated',
+          message: getResultError(result, 'The contract role could not be updated'),
+        }))
+        return
+      }
+    }
+  }
+
+  const handleInvite = async () => {
+    if (!ethers.utils.isAddress(wallet)) {
+      dispatch(addNotification({
+        type: 'error',
+        title: 'Invalid Address',
+        message: ERROR_MESSAGES.INVALID_ADDRESS,
+      }))
+      return
+    }
+
+    const address = wallet.toLowerCase()
+    const previous = members.find(member => member.wallet === address)?.role || null
+
+    setSaving(true)
+    const response = await apiService.inviteCompanyMember({ wallet: address, role })
+
+    if (!response.success) {
+      setSaving(false)
+      dispatch(addNotification({
+        type: 'error',
+        title: 'Invite Failed',
+        message: response.error || ERROR_MESSAGES.NETWORK_ERROR,
+      }))
+      return
+    }
+
+    await syncContractRole(address, previous, role)
+    setSaving(false)
+    setWallet('')
+
+    dispatch(addNotification({
+      type: 'success',
+      title: previous ? 'Role Updated' : 'Member Invited',
+      message: `${address.slice(0, 6)}...${address.slice(-4)} is now ${ROLE_LABELS[role]}`,
+    }))
+
+    await Promise.all([loadMembers(), refreshStatus()])
+  }
+
+  const handleRemove = async (member: CompanyMember) => {
+    setSaving(true)
+    const response = await apiService.removeCompanyMember(member.wallet)
+
+    if (!response.success) {
+      setSaving(false)
+      dispatch(addNotification({
+        type: 'error',
+        title: 'Remove Failed',
+        message: response.error || ERROR_MESSAGES.NETWORK_ERROR,
+      }))
+      return
+    }
+
+    await syncContractRole(member.wallet, member.role, null)
+    setSaving(false)
+
+    dispatch(addNotification({
+      type: 'success',
+      title: 'Member Removed',
+      message: `${member.wallet.slice(0, 6)}...${member.wallet.slice(-4)} no longer has access`,
+    }))
+
+    await Promise.all([loadMembers(), refreshStatus()])
+  }
+
+  const cooldownHours = Number(cooldownInput)
+  const cooldownValid = Number.isInteger(cooldownHours) && cooldownHours >= 1
+
+  const handleSaveCooldown = async () => {
+    if (!cooldownValid) return
+
+    setSavingCooldown(true)
+    const result = await setWalletChangeDelay(cooldownHours * 3600)
+    setSavingCooldown(false)
+
+    if (!result.success) {
+      dispatch(addNotification({
+        type: 'error',
+        title: 'Cooldown Not Updated',
+        message: getResultError(result, 'The wallet change cooldown could not be updated'),
+      }))
+      return
+    }
+
+    setCooldown(cooldownHours * 3600)
+    dispatch(addNotification({
+      type: 'success',
+      title: 'Cooldown Updated',
+      message: `New wallet changes take effect after ${formatCooldown(cooldownHours * 3600)}`,
+    }))
+  }
+
   return (
-    <Box>
-      <Typography variant="h4" gutterBottom>
-        Settings
-      </Typography>
-      <Card>
-        <CardContent>
-          <Alert severity="info">
-            <Typography variant="h6" gutterBottom>
-              Settings Panel Coming Soon
+    <Box sx={{ p: 3 }}>
+      {/* Header */}
+      <Box sx={{
+        mb: 4,
+        background: `linear-gradient(135deg, ${alpha(theme.palette.primary.main, 0.1)} 0%, ${alpha(theme.palette.secondary.main, 0.05)} 100%)`,
+        borderRadius: 2,
+        p: 3,
+        border: `1px solid ${alpha(theme.palette.primary.main, 0.12)}`,
+      }}>
+        <Stack direction="row" justifyContent="space-between" alignItems="center">
+          <Box>
+            <Typography variant="h4" fontWeight={700} gutterBottom>
+              Settings
             </Typography>
-            <Typography variant="body2">
-              This feature will allow you to configure company settings, payment preferences, 
-              ENS domain settings, and security preferences.
+            <Typography variant="body1" color="text.secondary">
+              Invite the people who help run {company?.name || 'your company'} and choose what they can do
             </Typography>
-          </Alert>
+          </Box>
+          <Tooltip title="Refresh Members">
+            <IconButton
+              onClick={loadMembers}
+              sx={{
+                bgcolor: alpha(theme.palette.primary.main, 0.1),
+                '&:hover': { bgcolor: alpha(theme.palette.primary.main, 0.2) }
+              }}
+            >
+              <RefreshIcon />
+            </IconButton>
+          </Tooltip>
+        </Stack>
+      </Box>
+
+      {error && (
+        <Alert severity="error" sx={{ mb: 3, borderRadius: 2 }}>
+          {error}
+        </Alert>
+      )}
+
+      <Card sx={{ borderRadius: 2 }}>
+        <CardHeader
+          title="Team Members"
+          subheader="HR manages employees, finance approves and executes payroll, auditors have read-only access"
+        />
+        <CardContent>
+          {loading ? (
+            <Box sx={{ display: 'flex', justifyContent: 'center', p: 4 }}>
+              <CircularProgress />
+            </Box>
+          ) : members.length === 0 ? (
+            <Alert severity="info" sx={{ borderRadius: 2 }}>
+              No members yet. You are the only wallet with access to this company.
+            </Alert>
+          ) : (
+            <List dense>
+              {members.map((member, index) => (
+                <React.Fragment key={member.wallet}>
+                  <ListItem
+                    secondaryAction={
+                      <Tooltip title="Remove Member">
+                        <span>
+                          <IconButton edge="end" onClick={() => handleRemove(member)} disabled={saving}>
+                            <DeleteIcon />
+                          </IconButton>
+                        </span>
+                      </Tooltip>
+                    }
+                  >
+                    <ListItemText
+                      primary={member.wallet}
+                      primaryTypographyProps={{ fontFamily: 'monospace' }}
+                      secondary={ROLE_DESCRIPTIONS[member.role]}
+                    />
+                    <Chip label={ROLE_LABELS[member.role]} size="small" color="primary" variant="outlined" sx={{ mr: 4 }} />
+                  </ListItem>
+                  {index < members.length - 1 && <Divider />}
+                </React.Fragment>
+              ))}
+            </List>
+          )}
+
+          <Stack direction={{ xs: 'column', md: 'row' }} spacing={2} sx={{ mt: 3 }}>
+            <TextField
+              size="small"
+              label="Member wallet address"
+              value={wallet}
+              onChange={(e) => setWallet(e.target.value)}
+              sx={{ flexGrow: 1 }}
+            />
+            <FormControl size="small" sx={{ minWidth: 160 }}>
+              <InputLabel>Role</InputLabel>
+              <Select
+                value={role}
+                label="Role"
+                onChange={(e) => setRole(e.target.value as MemberRole)}
+              >
+                {(Object.keys(ROLE_DESCRIPTIONS) as MemberRole[]).map(item => (
+                  <MenuItem key={item} value={item}>{ROLE_LABELS[item]}</MenuItem>
+                ))}
+              </Select>
+            </FormControl>
+            <Button
+              variant="contained"
+              startIcon={saving ? <CircularProgress size={18} color="inherit" /> : <PersonAddIcon />}
+              onClick={handleInvite}
+              disabled={saving || !wallet}
+            >
+              Invite
+            </Button>
+          </Stack>
+          <FormControlLabel
+            sx={{ mt: 1 }}
+            control={<Switch checked={syncOnChain} onChange={(e) => setSyncOnChain(e.target.checked)} />}
+            label="Also grant HR and finance roles on the payroll contract, so members can sign transactions themselves"
+          />
+        </CardContent>
+      </Card>
+
+      <Card sx={{ mt: 3, borderRadius: 2 }}>
+        <CardHeader
+          title="Wallet Change Cooldown"
+          subheader="How long a requested payout wallet change waits before it can be applied, so the employee and HR can cancel one they did not expect"
+        />
+        <CardContent>
+          <Stack direction={{ xs: 'column', md: 'row' }} spacing={2} alignItems={{ md: 'center' }}>
+            <TextField
+              size="small"
+              type="number"
+              label="Cooldown (hours)"
+              value={cooldownInput}
+              onChange={(e) => setCooldownInput(e.target.value)}
+              error={!!cooldownInput && !cooldownValid}
+              helperText={cooldownInput && !cooldownValid ? 'Enter a whole number of hours, at least 1' : ''}
+              inputProps={{ min: 1 }}
+            />
+            <Button
+              variant="contained"
+              startIcon={savingCooldown ? <CircularProgress size={18} color="inherit" /> : <SaveIcon />}
+              onClick={handleSaveCooldown}
+              disabled={savingCooldown || !cooldownValid || cooldownHours * 3600 === cooldown}
+            >
+              Save
+            </Button>
+            {cooldown !== null && (
+              <Typography variant="body2" color="text.secondary">
+                Currently {formatCooldown(cooldown)}. Pending changes keep the cooldown they were requested with.
+              </Typography>
+            )}
+          </Stack>
         </CardContent>
       </Card>
     </Box>
@@ -25,4 +381,3 @@ const Settings: React.FC = () => {
 }
 
 export default Settings
-
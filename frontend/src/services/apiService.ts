@@ -5,6 +5,9 @@
  */
 
 import { API_ENDPOINTS, ERROR_MESSAGES } from '../contracts/constants'
+import { BonusEvents } from './blockchainService'
+
+export type PaymentFrequencyKey = 'WEEKLY' | 'BIWEEKLY' | 'MONTHLY' | 'QUARTERLY' | 'ONE_TIME'
 
 export interface EmployeeData {
   _id?: string
@@ -26,13 +29,17 @@ export interface EmployeeData {
     department: string
     employmentType: 'full-time' | 'part-time' | 'contractor'
     isActive: boolean
+    terminationDate?: string
   }
   payrollSettings: {
     walletAddress: string
     salaryAmount: string
-    paymentFrequency: 'WEEKLY' | 'BIWEEKLY' | 'MONTHLY' | 'QUARTERLY' | 'ONE_TIME'
+    // Missing on records created before the frequency was stored; those are paid monthly
+    paymentFrequency?: PaymentFrequencyKey
     preferredToken: string
     lastPaymentTimestamp: number
+    // The employee signed for this wallet through an invite link
+    walletVerified?: boolean
   }
   ensDetails: {
     subdomain: string
@@ -52,13 +59,107 @@ export interface EmployeeData {
     blockNumber?: number
     gasUsed?: number
   }
+  compensationHistory?: CompensationChange[]
+  walletChange?: WalletChange
   createdAt?: string
   updatedAt?: string
 }
 
+/**
+ * Payout wallet change waiting for its on-chain timelock
+ */
+export interface WalletChange {
+  newWallet: string
+  requestedBy: string
+  requestedByRole: 'employee' | 'owner' | 'hr'
+  requestedAt: string
+  effectiveAt: string
+  requestTransactionHash?: string
+}
+
+/**
+ * A change the other party made, e.g. HR requesting a wallet change for an employee
+ */
+export interface AccountNotification {
+  _id: string
+  companyId: string
+  employeeId: string
+  audience: 'employee' | 'company'
+  type: 'wallet_change_requested' | 'wallet_change_cancelled' | 'wallet_change_applied'
+  title: string
+  message: string
+  actorWallet?: string
+  actorRole?: WalletChange['requestedByRole']
+  read: boolean // by the signed-in wallet
+  createdAt: string
+}
+
+export interface RequestWalletChangeRequest {
+  newWallet: string
+  transactionHash?: string
+}
+
+// HR re-enters the wallet and confirms they checked the change with the employee
+export interface HrWalletChangeRequest extends RequestWalletChangeRequest {
+  confirmNewWallet: string
+  verifiedWithEmployee: boolean
+}
+
+/**
+ * Compensation that applied until `changedAt`
+ */
+export interface CompensationChange {
+  salaryAmount: string
+  paymentFrequency: PaymentFrequencyKey
+  paymentToken: string
+  changedAt: string
+  changedBy?: string
+  transactionHash?: string
+}
+
+export interface TerminateEmployeeRequest {
+  terminationDate: string
+  reason?: string
+  finalPaymentAmount?: string
+  finalPaymentHash?: string
+  removalTransactionHash?: string
+  ensAction: 'kept' | 'revoked' | 'reassigned'
+  ensNewOwner?: string
+  ensTransactionHash?: string
+}
+
+export interface UpdateEmployeeRequest {
+  payrollSettings?: Partial<EmployeeData['payrollSettings']>
+  transactionHash?: string // the updateEmployeeCompensation transaction
+  fromContract?: boolean // copy the contract's current values instead
+}
+
+/**
+ * An employee whose EmployeeAdded event has confirmed on-chain
+ */
+// Payroll details are taken from the accepted invite, or sent with an imported row
+export interface OnboardedEmployee {
+  inviteId?: string
+  name?: string
+  salaryAmount?: string
+  paymentToken?: string
+  paymentFrequency?: PaymentFrequencyKey
+  walletAddress: string
+  ensName: string
+  ensNode: string
+  transactionHash: string
+}
+
+export interface RecordOnboardedEmployeesResult {
+  created: { _id: string, walletAddress: string }[]
+  skipped: { walletAddress: string, error: string }[]
+}
+
 export interface PaymentRecord {
   _id: string
   employeeId: string
+  payrollRunId?: string
+  walletAddress: string
   amount: string
   tokenAddress: string
   tokenSymbol: string
@@ -68,23 +169,242 @@ export interface PaymentRecord {
   paymentType: 'salary' | 'bonus'
   status: 'pending' | 'completed' | 'failed'
   gasUsed: number
+  logIndex: number
   createdAt: string
 }
 
+// An employee's own record, as shown in the self-service portal
+export interface EmployeeProfile {
+  _id: string
+  name: string
+  walletAddress: string
+  salaryAmount: string
+  paymentToken: string
+  paymentFrequency: 'WEEKLY' | 'BIWEEKLY' | 'MONTHLY' | 'QUARTERLY' | 'ONE_TIME'
+  ensName: string
+  ensDomain: string
+  companyName?: string
+  isActive: boolean
+  walletChange?: WalletChange
+  createdAt: string
+}
+
+// Employees are created from an accepted invite, or mirrored from the payroll contract
+export type CreateEmployeeRequest = Partial<EmployeeData> & {
+  inviteId?: string
+  fromContract?: boolean
+}
+
+export type EmployeeInviteStatus = 'pending' | 'accepted' | 'onboarded' | 'revoked'
+
+// A pending employee created by HR, as listed for the company
+export interface EmployeeInvite {
+  _id: string
+  token: string
+  name: string
+  salaryAmount: string
+  paymentToken: string
+  paymentFrequency: EmployeeProfile['paymentFrequency']
+  status: EmployeeInviteStatus
+  expectedWallet?: string
+  walletAddress?: string
+  subdomain?: string
+  position?: string
+  department?: string
+  attestation?: {
+    signature: string
+    chainId: number
+    signedAt: string
+  }
+  employeeId?: string
+  createdBy: string
+  expiresAt: string
+  createdAt: string
+}
+
+// What the employee sees when opening an invite link
+export interface PublicInvite {
+  _id: string
+  name: string
+  salaryAmount: string
+  paymentToken: string
+  paymentFrequency: EmployeeProfile['paymentFrequency']
+  status: EmployeeInviteStatus
+  expectedWallet?: string
+  walletAddress?: string
+  expiresAt: string
+  companyName: string
+  ensDomain: string
+}
+
+export interface CreateInviteRequest {
+  name: string
+  salaryAmount: string
+  paymentToken: string
+  paymentFrequency: EmployeeProfile['paymentFrequency']
+  // From a bulk import: only this wallet can accept the invite
+  expectedWallet?: string
+  subdomain?: string
+  position?: string
+  department?: string
+}
+
+export interface ImportInvitesResult {
+  created: EmployeeInvite[]
+  skipped: { index: number, error: string }[]
+}
+
+export interface MissingPayment {
+  walletAddress: string
+  name?: string
+  amount?: string
+  transactionHash?: string
+}
+
+export interface RecordPaymentsRequest {
+  transactionHash: string
+  blockNumber: number
+  gasUsed: string
+  payments: {
+    employee: string
+    amount: string
+    token: string
+    tokenSymbol: string
+    timestamp: number
+    logIndex: number
+  }[]
+  expected: MissingPayment[]
+  payrollRunId?: string
+}
+
+export interface RecordPaymentsResult {
+  recorded: number
+  missing: MissingPayment[]
+}
+
 export interface BonusRecord {
   _id: string
-  employeeId: string
+  bonusId: number // on-chain bonus ID
+  employeeId?: string
+  walletAddress: string
   amount: string
   tokenAddress: string
   tokenSymbol: string
   reason: string
-  transactionHash?: string
+  createTransactionHash: string
+  transactionHash?: string // distribution transaction
   blockNumber?: number
   distributionDate?: string
-  status: 'pending' | 'distributed' | 'failed'
+  status: 'pending' | 'distributed'
+  createdAt: string
+}
+
+export interface BonusPoolAllocation {
+  employeeId?: string
+  walletAddress: string
+  weight: string
+  amount: string
+  bonusId?: number
+  status: 'pending' | 'created' | 'distributed'
+}
+
+export interface BonusPool {
+  _id: string
+  reason: string
+  totalAmount: string
+  tokenAddress: string
+  tokenSymbol: string
+  method: 'salary' | 'equal' | 'score'
+  allocations: BonusPoolAllocation[]
+  status: 'pending' | 'created' | 'completed'
+  createdBy: string
+  createdAt: string
+}
+
+export interface CreateBonusPoolRequest {
+  reason: string
+  totalAmount: string
+  tokenAddress: string
+  tokenSymbol: string
+  method: BonusPool['method']
+  allocations: { walletAddress: string, weight: string, amount: string }[]
+}
+
+export interface RecordBonusEventsResult {
+  created: number
+  distributed: number
+  pool?: BonusPool | null
+}
+
+export type PayrollRunStatus = 'draft' | 'submitted' | 'approved' | 'executing' | 'settled' | 'failed'
+
+export interface PayrollRunEmployee {
+  employeeId?: string
+  walletAddress: string
+  name?: string
+  amount: string
+  tokenSymbol: string
+}
+
+export interface PayrollRunTransition {
+  from: PayrollRunStatus | null
+  to: PayrollRunStatus
+  actor: string
+  note?: string
+  at: string
+}
+
+export interface PayrollRunApproval {
+  wallet: string
+  comment?: string
+  approvedAt: string
+}
+
+export interface PayrollRunChunk {
+  index: number
+  employees: string[]
+  status: 'pending' | 'sent' | 'confirmed' | 'failed'
+  transactionHash?: string
+  error?: string
+  updatedAt: string
+}
+
+export interface PayrollRun {
+  _id: string
+  companyId: string
+  status: PayrollRunStatus
+  employees: PayrollRunEmployee[]
+  summary: {
+    totalAmount: string
+    employeeCount: number
+    tokenBreakdown: Record<string, { amount: string, count: number }>
+    estimatedGas: string
+    feeSpeed?: 'low' | 'medium' | 'high'
+  }
+  requiredApprovals: number
+  approvals: PayrollRunApproval[]
+  transitions: PayrollRunTransition[]
+  chunks: PayrollRunChunk[]
+  reconciliation?: {
+    recordedCount: number
+    missing: MissingPayment[]
+    reconciledAt?: string
+  }
+  transactionHash?: string
+  failureReason?: string
+  createdBy: string
   createdAt: string
 }
 
+export type CompanyRole = 'owner' | 'hr' | 'finance' | 'auditor'
+
+export interface CompanyMember {
+  wallet: string
+  role: Exclude<CompanyRole, 'owner'>
+  invitedBy?: string
+  invitedAt?: string
+}
+
 export interface AnalyticsData {
   totalEmployees: number
   activeEmployees: number
@@ -112,6 +432,24 @@ export interface AnalyticsData {
   }[]
 }
 
+// Session issued after a Sign-In with Ethereum login
+export interface AuthSession {
+  token: string
+  address: string
+  chainId: number
+  expiresAt: string
+}
+
+// Claims carried by the session token
+export interface SessionClaims {
+  sub: string // lowercased wallet address
+  chainId: number
+  sid: string
+  exp: number
+}
+
+export type SessionListener = () => void
+
 export interface ApiResponse<T> {
   success: boolean
   data?: T
@@ -139,7 +477,7 @@ export interface EmployeesResponse {
 export class ApiService {
   private baseURL: string
   private authToken: string | null = null
-  private walletAddress: string | null = null
+  private sessionListeners: Set<SessionListener> = new Set()
 
   constructor() {
     this.baseURL = API_ENDPOINTS.BASE_URL
@@ -170,10 +508,13 @@ export class ApiService {
   }
 
   /**
-   * Set wallet address for API requests
+   * Be told when the backend rejects the current session
    */
-  setWalletAddress(address: string | null): void {
-    this.walletAddress = address
+  onSessionExpired(listener: SessionListener): () => void {
+    this.sessionListeners.add(listener)
+    return () => {
+      this.sessionListeners.delete(listener)
+    }
   }
 
   /**
@@ -188,10 +529,6 @@ export class ApiService {
       headers['Authorization'] = `Bearer ${this.authToken}`
     }
 
-    if (this.walletAddress) {
-      headers['x-wallet-address'] = this.walletAddress
-    }
-
     return headers
   }
 
@@ -218,6 +555,12 @@ export class ApiService {
 
       const data = await response.json()
 
+      // The session was revoked or expired on the server
+      if (response.status === 401 && this.authToken) {
+        this.clearAuthToken()
+        this.sessionListeners.forEach(listener => listener())
+      }
+
       if (!response.ok) {
         return {
           success: false,
@@ -268,10 +611,140 @@ export class ApiService {
     return this.request<EmployeeData>(`${API_ENDPOINTS.EMPLOYEES}/${id}`)
   }
 
+  /**
+   * Get the employee registered to a wallet; only that wallet or its company may read it
+   */
+  async getEmployeeProfile(address: string): Promise<ApiResponse<EmployeeProfile>> {
+    return this.request<EmployeeProfile>(`${API_ENDPOINTS.EMPLOYEES}/wallet/${address}`)
+  }
+
+  /**
+   * Get the payments made to an employee's wallet
+   */
+  async getEmployeePayments(address: string, params?: {
+    page?: number
+    limit?: number
+  }): Promise<ApiResponse<PaginatedResponse<PaymentRecord>>> {
+    const queryParams = new URLSearchParams()
+
+    if (params?.page) queryParams.append('page', params.page.toString())
+    if (params?.limit) queryParams.append('limit', params.limit.toString())
+
+    const endpoint = `${API_ENDPOINTS.EMPLOYEES}/wallet/${address}/payments${queryParams.toString() ? `?${queryParams.toString()}` : ''}`
+    return this.request<PaginatedResponse<PaymentRecord>>(endpoint)
+  }
+
+  /**
+   * Record a wallet change the employee requested from their current wallet
+   */
+  async requestOwnWalletChange(address: string, data: RequestWalletChangeRequest): Promise<ApiResponse<EmployeeProfile>> {
+    return this.request<EmployeeProfile>(`${API_ENDPOINTS.EMPLOYEES}/wallet/${address}/wallet-change`, {
+      method: 'POST',
+      body: JSON.stringify(data),
+    })
+  }
+
+  /**
+   * Cancel the employee's own pending wallet change
+   */
+  async cancelOwnWalletChange(address: string): Promise<ApiResponse<EmployeeProfile>> {
+    return this.request<EmployeeProfile>(`${API_ENDPOINTS.EMPLOYEES}/wallet/${address}/wallet-change`, {
+      method: 'DELETE',
+    })
+  }
+
+  /**
+   * Record the employee's own wallet change once applied on-chain
+   */
+  async applyOwnWalletChange(address: string, transactionHash?: string): Promise<ApiResponse<EmployeeProfile>> {
+    return this.request<EmployeeProfile>(`${API_ENDPOINTS.EMPLOYEES}/wallet/${address}/wallet-change/apply`, {
+      method: 'POST',
+      body: JSON.stringify({ transactionHash }),
+    })
+  }
+
+  /**
+   * Get the company's employee invites
+   */
+  async getEmployeeInvites(status?: EmployeeInviteStatus[]): Promise<ApiResponse<EmployeeInvite[]>> {
+    const queryParams = new URLSearchParams()
+
+    if (status?.length) queryParams.append('status', status.join(','))
+
+    const endpoint = `${API_ENDPOINTS.INVITES}${queryParams.toString() ? `?${queryParams.toString()}` : ''}`
+    return this.request<EmployeeInvite[]>(endpoint)
+  }
+
+  /**
+   * Create a pending employee and its invite link
+   */
+  async createEmployeeInvite(data: CreateInviteRequest): Promise<ApiResponse<EmployeeInvite>> {
+    return this.request<EmployeeInvite>(API_ENDPOINTS.INVITES, {
+      method: 'POST',
+      body: JSON.stringify(data),
+    })
+  }
+
+  /**
+   * Invite every row of a bulk import
+   */
+  async createEmployeeInvites(invites: CreateInviteRequest[]): Promise<ApiResponse<ImportInvitesResult>> {
+    return this.request<ImportInvitesResult>(`${API_ENDPOINTS.INVITES}/bulk`, {
+      method: 'POST',
+      body: JSON.stringify({ invites }),
+    })
+  }
+
+  /**
+   * Revoke an invite that has not been added to payroll
+   */
+  async revokeEmployeeInvite(id: string): Promise<ApiResponse<EmployeeInvite>> {
+    return this.request<EmployeeInvite>(`${API_ENDPOINTS.INVITES}/${id}`, {
+      method: 'DELETE',
+    })
+  }
+
+  /**
+   * Notifications for the signed-in wallet, as an employee and as the company's owner or HR
+   */
+  async getNotifications(): Promise<ApiResponse<AccountNotification[]>> {
+    return this.request<AccountNotification[]>(API_ENDPOINTS.NOTIFICATIONS)
+  }
+
+  /**
+   * Mark a notification as read by the signed-in wallet
+   */
+  async markNotificationRead(id: string): Promise<ApiResponse<AccountNotification>> {
+    return this.request<AccountNotification>(`${API_ENDPOINTS.NOTIFICATIONS}/${id}/read`, {
+      method: 'POST',
+    })
+  }
+
+  /**
+   * Get the invite behind a link (no sign-in needed)
+   */
+  async getInvite(token: string): Promise<ApiResponse<PublicInvite>> {
+    return this.request<PublicInvite>(`${API_ENDPOINTS.INVITES}/token/${token}`)
+  }
+
+  /**
+   * Accept an invite with the employee's signed wallet attestation
+   */
+  async acceptInvite(token: string, data: {
+    walletAddress: string
+    chainId: number
+    signature: string
+  }): Promise<ApiResponse<PublicInvite>> {
+    return this.request<PublicInvite>(`${API_ENDPOINTS.INVITES}/token/${token}/accept`, {
+      method: 'POST',
+      body: JSON.stringify(data),
+    })
+  }
+
   /**
    * Create new employee
    */
-  async createEmployee(employeeData: Partial<EmployeeData> | any): Promise<ApiResponse<any>> {
+  async createEmployee(employeeData: CreateEmployeeRequest): Promise<ApiResponse<any>> {
     return this.request<any>(API_ENDPOINTS.EMPLOYEES, {
       method: 'POST',
       body: JSON.stringify(employeeData),
@@ -281,7 +754,7 @@ export class ApiService {
   /**
    * Update employee
    */
-  async updateEmployee(id: string, employeeData: Partial<EmployeeData>): Promise<ApiResponse<EmployeeData>> {
+  async updateEmployee(id: string, employeeData: UpdateEmployeeRequest): Promise<ApiResponse<EmployeeData>> {
     return this.request<EmployeeData>(`${API_ENDPOINTS.EMPLOYEES}/${id}`, {
       method: 'PUT',
       body: JSON.stringify(employeeData),
@@ -289,14 +762,54 @@ export class ApiService {
   }
 
   /**
-   * Delete employee
+   * Record employees registered through addEmployeesBatch, once the transaction is final
+   */
+  async recordOnboardedEmployees(employees: OnboardedEmployee[]): Promise<ApiResponse<RecordOnboardedEmployeesResult>> {
+    return this.request<RecordOnboardedEmployeesResult>(`${API_ENDPOINTS.EMPLOYEES}/bulk`, {
+      method: 'POST',
+      body: JSON.stringify({ employees }),
+    })
+  }
+
+  /**
+   * Deactivate an employee with a termination date, keeping the record
    */
-  async deleteEmployee(id: string): Promise<ApiResponse<void>> {
-    return this.request<void>(`${API_ENDPOINTS.EMPLOYEES}/${id}`, {
+  async terminateEmployee(id: string, request: TerminateEmployeeRequest): Promise<ApiResponse<EmployeeData>> {
+    return this.request<EmployeeData>(`${API_ENDPOINTS.EMPLOYEES}/${id}/terminate`, {
+      method: 'POST',
+      body: JSON.stringify(request),
+    })
+  }
+
+  /**
+   * Record a wallet change HR requested on the employee's behalf
+   */
+  async requestEmployeeWalletChange(id: string, data: HrWalletChangeRequest): Promise<ApiResponse<EmployeeData>> {
+    return this.request<EmployeeData>(`${API_ENDPOINTS.EMPLOYEES}/${id}/wallet-change`, {
+      method: 'POST',
+      body: JSON.stringify(data),
+    })
+  }
+
+  /**
+   * Cancel an employee's pending wallet change
+   */
+  async cancelEmployeeWalletChange(id: string): Promise<ApiResponse<EmployeeData>> {
+    return this.request<EmployeeData>(`${API_ENDPOINTS.EMPLOYEES}/${id}/wallet-change`, {
       method: 'DELETE',
     })
   }
 
+  /**
+   * Record an employee's wallet change once applied on-chain
+   */
+  async applyEmployeeWalletChange(id: string, transactionHash?: string): Promise<ApiResponse<EmployeeData>> {
+    return this.request<EmployeeData>(`${API_ENDPOINTS.EMPLOYEES}/${id}/wallet-change/apply`, {
+      method: 'POST',
+      body: JSON.stringify({ transactionHash }),
+    })
+  }
+
   /**
    * Activate employee
    */
@@ -347,21 +860,129 @@ export class ApiService {
   }
 
   /**
-   * Process payroll
+   * Record the payments decoded from a mined transaction's PaymentProcessed events
+   */
+  async recordPayments(data: RecordPaymentsRequest): Promise<ApiResponse<RecordPaymentsResult>> {
+    return this.request<RecordPaymentsResult>(`${API_ENDPOINTS.PAYROLL}/records`, {
+      method: 'POST',
+      body: JSON.stringify(data),
+    })
+  }
+
+  // Payroll Run API
+
+  /**
+   * Get payroll runs, optionally filtered by status
+   */
+  async getPayrollRuns(status?: PayrollRunStatus[]): Promise<ApiResponse<PayrollRun[]>> {
+    const queryParams = new URLSearchParams()
+
+    if (status?.length) queryParams.append('status', status.join(','))
+
+    const endpoint = `${API_ENDPOINTS.PAYROLL}/runs${queryParams.toString() ? `?${queryParams.toString()}` : ''}`
+    return this.request<PayrollRun[]>(endpoint)
+  }
+
+  /**
+   * Get payroll run by ID
+   */
+  async getPayrollRun(id: string): Promise<ApiResponse<PayrollRun>> {
+    return this.request<PayrollRun>(`${API_ENDPOINTS.PAYROLL}/runs/${id}`)
+  }
+
+  /**
+   * Create a draft payroll run
+   */
+  async createPayrollRun(data: {
+    employees: PayrollRunEmployee[]
+    summary: PayrollRun['summary']
+  }): Promise<ApiResponse<PayrollRun>> {
+    return this.request<PayrollRun>(`${API_ENDPOINTS.PAYROLL}/runs`, {
+      method: 'POST',
+      body: JSON.stringify(data),
+    })
+  }
+
+  /**
+   * Submit a draft payroll run for approval
+   */
+  async submitPayrollRun(id: string, note?: string): Promise<ApiResponse<PayrollRun>> {
+    return this.request<PayrollRun>(`${API_ENDPOINTS.PAYROLL}/runs/${id}/submit`, {
+      method: 'POST',
+      body: JSON.stringify({ note }),
+    })
+  }
+
+  /**
+   * Approve a submitted payroll run
+   */
+  async approvePayrollRun(id: string, comment?: string): Promise<ApiResponse<PayrollRun>> {
+    return this.request<PayrollRun>(`${API_ENDPOINTS.PAYROLL}/runs/${id}/approve`, {
+      method: 'POST',
+      body: JSON.stringify({ comment }),
+    })
+  }
+
+  /**
+   * Reject a submitted payroll run back to draft
+   */
+  async rejectPayrollRun(id: string, reason: string): Promise<ApiResponse<PayrollRun>> {
+    return this.request<PayrollRun>(`${API_ENDPOINTS.PAYROLL}/runs/${id}/reject`, {
+      method: 'POST',
+      body: JSON.stringify({ reason }),
+    })
+  }
+
+  /**
+   * Mark an approved payroll run as executing
+   */
+  async executePayrollRun(id: string): Promise<ApiResponse<PayrollRun>> {
+    return this.request<PayrollRun>(`${API_ENDPOINTS.PAYROLL}/runs/${id}/execute`, {
+      method: 'POST',
+    })
+  }
+
+  /**
+   * Save the chunk plan of an executing payroll run
+   */
+  async setPayrollRunChunks(id: string, chunks: string[][]): Promise<ApiResponse<PayrollRun>> {
+    return this.request<PayrollRun>(`${API_ENDPOINTS.PAYROLL}/runs/${id}/chunks`, {
+      method: 'PUT',
+      body: JSON.stringify({ chunks }),
+    })
+  }
+
+  /**
+   * Update the progress of a payroll run chunk
    */
-  async processPayroll(employeeIds: string[]): Promise<ApiResponse<{ transactionHash: string }>> {
-    return this.request<{ transactionHash: string }>(`${API_ENDPOINTS.PAYROLL}/process`, {
+  async updatePayrollRunChunk(id: string, index: number, data: {
+    status: PayrollRunChunk['status']
+    transactionHash?: string
+    error?: string
+  }): Promise<ApiResponse<PayrollRun>> {
+    return this.request<PayrollRun>(`${API_ENDPOINTS.PAYROLL}/runs/${id}/chunks/${index}`, {
+      method: 'PATCH',
+      body: JSON.stringify(data),
+    })
+  }
+
+  /**
+   * Mark an executing payroll run as settled
+   */
+  async settlePayrollRun(id: string, transactionHash: string): Promise<ApiResponse<PayrollRun>> {
+    return this.request<PayrollRun>(`${API_ENDPOINTS.PAYROLL}/runs/${id}/settle`, {
       method: 'POST',
-      body: JSON.stringify({ employeeIds }),
+      body: JSON.stringify({ transactionHash }),
     })
   }
 
   /**
-   * Process individual payment
+   * Mark an executing payroll run as failed
    */
-  async processIndividualPayment(employeeId: string): Promise<ApiResponse<{ transactionHash: string }>> {
-    return this.request<{ transactionHash: string }>(`${API_ENDPOINTS.PAYROLL}/process/${employeeId}`, {
+  async failPayrollRun(id: string, reason: string): Promise<ApiResponse<PayrollRun>> {
+    return this.request<PayrollRun>(`${API_ENDPOINTS.PAYROLL}/runs/${id}/fail`, {
       method: 'POST',
+      body: JSON.stringify({ reason }),
     })
   }
 
@@ -372,6 +993,7 @@ export class ApiService {
    */
   async getBonuses(params?: {
     employeeId?: string
+    walletAddress?: string
     status?: string
     page?: number
     limit?: number
@@ -379,6 +1001,7 @@ export class ApiService {
     const queryParams = new URLSearchParams()
     
     if (params?.employeeId) queryParams.append('employeeId', params.employeeId)
+    if (params?.walletAddress) queryParams.append('walletAddress', params.walletAddress)
     if (params?.status) queryParams.append('status', params.status)
     if (params?.page) queryParams.append('page', params.page.toString())
     if (params?.limit) queryParams.append('limit', params.limit.toString())
@@ -388,46 +1011,99 @@ export class ApiService {
   }
 
   /**
-   * Create bonus
+   * Record bonuses from BonusCreated / BonusDistributed events
    */
-  async createBonus(bonusData: {
-    employeeId: string
-    amount: string
-    tokenAddress: string
-    reason: string
-  }): Promise<ApiResponse<BonusRecord>> {
-    return this.request<BonusRecord>(API_ENDPOINTS.BONUSES, {
+  async recordBonusEvents(events: BonusEvents, poolId?: string): Promise<ApiResponse<RecordBonusEventsResult>> {
+    return this.request<RecordBonusEventsResult>(`${API_ENDPOINTS.BONUSES}/events`, {
       method: 'POST',
-      body: JSON.stringify(bonusData),
+      body: JSON.stringify({ ...events, poolId }),
     })
   }
 
   /**
-   * Distribute bonus
+   * Create a bonus pool whose allocations are then created and distributed on-chain
    */
-  async distributeBonus(bonusId: string): Promise<ApiResponse<{ transactionHash: string }>> {
-    return this.request<{ transactionHash: string }>(`${API_ENDPOINTS.BONUSES}/${bonusId}/distribute`, {
+  async createBonusPool(data: CreateBonusPoolRequest): Promise<ApiResponse<BonusPool>> {
+    return this.request<BonusPool>(`${API_ENDPOINTS.BONUSES}/bulk`, {
       method: 'POST',
+      body: JSON.stringify(data),
     })
   }
 
+  // ENS API
+
+  /**
+   * Get company status and domain info
+   */
+  async getCompanyStatus(): Promise<ApiResponse<{ hasCompany: boolean, company: any, role: CompanyRole | null }>> {
+    return this.request<{ hasCompany: boolean, company: any, role: CompanyRole | null }>(`/companies/status`)
+  }
+
   /**
-   * Bulk bonus distribution
+   * Validate a new company and get the ENS registration details for it
    */
-  async bulkBonusDistribution(bonusIds: string[]): Promise<ApiResponse<{ transactionHash: string }>> {
-    return this.request<{ transactionHash: string }>(`${API_ENDPOINTS.BONUSES}/bulk`, {
+  async registerCompany(formData: any): Promise<ApiResponse<{ success: boolean, registrationInfo: any, companyData: any }>> {
+    return this.request<{ success: boolean, registrationInfo: any, companyData: any }>(`/companies/register`, {
       method: 'POST',
-      body: JSON.stringify({ bonusIds }),
+      body: JSON.stringify(formData),
     })
   }
 
-  // ENS API
+  /**
+   * Create the company once its ENS domain is registered
+   */
+  async createCompanyAfterENS(data: {
+    companyData: any
+    transactionHash: string
+    blockNumber: number
+    gasUsed: number
+  }): Promise<ApiResponse<{ success: boolean, company: any }>> {
+    return this.request<{ success: boolean, company: any }>(`/companies/create-after-ens`, {
+      method: 'POST',
+      body: JSON.stringify(data),
+    })
+  }
 
   /**
-   * Get company status and domain info
+   * Update the wallets allowed to approve payroll runs (owner only)
+   */
+  async updateFinanceApprovers(data: {
+    approvers: string[]
+    approvalsRequired?: number
+  }): Promise<ApiResponse<{ company: any }>> {
+    return this.request<{ company: any }>(`/companies/finance-approvers`, {
+      method: 'PUT',
+      body: JSON.stringify(data),
+    })
+  }
+
+  /**
+   * Get the company owner and its invited members
+   */
+  async getCompanyMembers(): Promise<ApiResponse<{ owner: string, members: CompanyMember[] }>> {
+    return this.request<{ owner: string, members: CompanyMember[] }>(`/companies/members`)
+  }
+
+  /**
+   * Invite a wallet as HR, finance or auditor, or change its role (owner only)
    */
-  async getCompanyStatus(): Promise<ApiResponse<{ hasCompany: boolean, company: any }>> {
-    return this.request<{ hasCompany: boolean, company: any }>(`/companies/status`)
+  async inviteCompanyMember(data: {
+    wallet: string
+    role: CompanyMember['role']
+  }): Promise<ApiResponse<{ company: any }>> {
+    return this.request<{ company: any }>(`/companies/members`, {
+      method: 'POST',
+      body: JSON.stringify(data),
+    })
+  }
+
+  /**
+   * Remove a member from the company (owner only)
+   */
+  async removeCompanyMember(wallet: string): Promise<ApiResponse<{ company: any }>> {
+    return this.request<{ company: any }>(`/companies/members/${wallet}`, {
+      method: 'DELETE',
+    })
   }
 
   /**
@@ -515,39 +1191,58 @@ export class ApiService {
   // Authentication API
 
   /**
-   * Authenticate with wallet signature
+   * Get a single-use nonce for a Sign-In with Ethereum message
    */
-  async authenticateWithWallet(data: {
-    address: string
-    signature: string
-    message: string
-  }): Promise<ApiResponse<{ token: string; user: any }>> {
-    return this.request<{ token: string; user: any }>(`${API_ENDPOINTS.AUTH}/wallet`, {
+  async getSiweNonce(address: string): Promise<ApiResponse<{ nonce: string; expiresAt: string }>> {
+    return this.request<{ nonce: string; expiresAt: string }>(`${API_ENDPOINTS.AUTH}/nonce`, {
       method: 'POST',
-      body: JSON.stringify(data),
+      body: JSON.stringify({ address }),
     })
   }
 
   /**
-   * Refresh authentication token
+   * Exchange a signed Sign-In with Ethereum message for a session token
    */
-  async refreshToken(): Promise<ApiResponse<{ token: string }>> {
-    return this.request<{ token: string }>(`${API_ENDPOINTS.AUTH}/refresh`, {
+  async verifySiweMessage(message: string, signature: string): Promise<ApiResponse<AuthSession>> {
+    const result = await this.request<AuthSession>(`${API_ENDPOINTS.AUTH}/verify`, {
       method: 'POST',
+      body: JSON.stringify({ message, signature }),
     })
+
+    if (result.success && result.data) {
+      this.setAuthToken(result.data.token)
+    }
+
+    return result
   }
 
   /**
-   * Logout
+   * Extend the current session and store its new token
+   */
+  async refreshToken(): Promise<ApiResponse<AuthSession>> {
+    const result = await this.request<AuthSession>(`${API_ENDPOINTS.AUTH}/refresh`, {
+      method: 'POST',
+    })
+
+    if (result.success && result.data) {
+      this.setAuthToken(result.data.token)
+    }
+
+    return result
+  }
+
+  /**
+   * Logout; the local token is dropped even if the backend can't be reached
    */
   async logout(): Promise<ApiResponse<void>> {
+    if (!this.authToken) {
+      return { success: true }
+    }
+
     const result = await this.request<void>(`${API_ENDPOINTS.AUTH}/logout`, {
       method: 'POST',
     })
-    
-    if (result.success) {
-      this.clearAuthToken()
-    }
+    this.clearAuthToken()
     
     return result
   }
@@ -558,17 +1253,20 @@ export class ApiService {
    * Check if user is authenticated
    */
   isAuthenticated(): boolean {
-    return !!this.authToken
+    const claims = this.getCurrentUser()
+    return !!claims && claims.exp * 1000 > Date.now()
   }
 
   /**
    * Get current user info from token
    */
-  getCurrentUser(): any {
+  getCurrentUser(): SessionClaims | null {
     if (!this.authToken) return null
     
     try {
-      const payload = JSON.parse(atob(this.authToken.split('.')[1]))
+      // JWT segments are base64url encoded
+      const segment = this.authToken.split('.')[1].replace(/-/g, '+').replace(/_/g, '/')
+      const payload = JSON.parse(atob(segment))
       return payload
     } catch (error) {
       console.error('Error parsing auth token:', error)
@@ -11,9 +11,20 @@ import {
   NETWORKS, 
   TOKEN_ADDRESSES,
   PAYMENT_FREQUENCIES,
+  PAYMENT_FREQUENCY_LABELS,
   ERROR_MESSAGES,
-  DEFAULTS
+  ErrorCode,
+  DEFAULTS,
+  GAS_FEE_SPEEDS,
+  GAS_FEE_HISTORY_BLOCKS,
+  PAYROLL_BATCH,
+  CONTRACT_ROLES,
+  CONTRACT_DEPLOYMENT_BLOCKS,
+  EVENT_SCAN_PAGE_BLOCKS,
+  ContractRole
 } from '../contracts/constants'
+import { decodeContractError } from '../utils/revertDecoder'
+import { transactionTracker, TrackedTransaction, TransactionListener } from './transactionTracker'
 
 export interface Employee {
   walletAddress: string
@@ -43,6 +54,109 @@ export interface PaymentResult {
   success: boolean
   transactionHash?: string
   error?: string
+  errorCode?: ErrorCode
+  suggestion?: string // how to fix the error, for known contract reverts
+}
+
+export type FeeSpeed = keyof typeof GAS_FEE_SPEEDS
+
+export interface FeeOption {
+  speed: FeeSpeed
+  maxFeePerGas: string // gwei
+  maxPriorityFeePerGas: string // gwei
+  estimatedCost: string // ETH, at current base fee
+  maxCost: string // ETH, upper bound the wallet may charge
+}
+
+// One processPayroll transaction of a chunked payroll run
+export interface ChunkGasEstimate {
+  employeeCount: number
+  gasLimit: string
+  options: Record<FeeSpeed, FeeOption>
+}
+
+export interface GasEstimate {
+  gasLimit: string // sum over all chunks
+  baseFeePerGas: string // gwei
+  options: Record<FeeSpeed, FeeOption> // totals over all chunks
+  chunks: ChunkGasEstimate[]
+}
+
+export type SimulationStatus = 'success' | 'no_payment_due' | 'not_active' | 'insufficient_balance' | 'error'
+
+export interface PaymentSimulation {
+  employee: string
+  status: SimulationStatus
+  reason: string
+}
+
+export type TransactionStatus = 'pending' | 'success' | 'reverted' | 'unknown'
+
+export interface ProcessedPayment {
+  employee: string
+  amount: string // formatted with the token's decimals
+  token: string
+  tokenSymbol: string
+  timestamp: number
+  logIndex: number
+}
+
+export interface PaymentReceipt {
+  transactionHash: string
+  blockNumber: number
+  gasUsed: string
+  payments: ProcessedPayment[]
+}
+
+export interface OnChainBonus {
+  bonusId: number
+  recipient: string
+  amount: string // formatted with the token's decimals
+  reason: string
+  token: string
+  tokenSymbol: string
+  timestamp: number // when the bonus was created
+  distributed: boolean
+}
+
+// A BonusCreated or BonusDistributed log, with the bonus as it is stored now
+export interface BonusEvent extends OnChainBonus {
+  transactionHash: string
+  blockNumber: number
+  blockTimestamp: number
+  logIndex: number
+}
+
+export interface BonusEvents {
+  created: BonusEvent[]
+  distributed: BonusEvent[]
+}
+
+// An EmployeeAdded log from a confirmed onboarding transaction
+export interface EmployeeAddedEvent {
+  employee: string
+  ensSubdomain: string
+  ensNode: string
+  frequency: number
+  transactionHash: string
+}
+
+// A payout wallet change waiting for its timelock
+export interface PendingWalletChange {
+  newWallet: string
+  requestedBy: string
+  effectiveAt: number // unix seconds
+}
+
+// A planned processPayroll chunk and its gas estimate
+interface PlannedChunk {
+  employees: string[]
+  gas: ethers.BigNumber
+}
+
+interface FeeData {
+  baseFeePerGas: ethers.BigNumber
+  priorityFees: Record<FeeSpeed, ethers.BigNumber>
 }
 
 export interface ContractInfo {
@@ -59,6 +173,7 @@ export class BlockchainService {
   private signer: ethers.Signer | null = null
   private contract: ethers.Contract | null = null
   private currentNetwork: number | null = null
+  private tokenDecimals: Map<string, number> = new Map()
 
   constructor() {
     this.initializeProvider()
@@ -217,6 +332,59 @@ export class BlockchainService {
     }
   }
 
+  /**
+   * Check whether an address holds an HR or finance role on the contract
+   */
+  async hasRole(role: ContractRole, address: string): Promise<boolean> {
+    try {
+      const contract = this.getContract()
+      return await contract.hasRole(ethers.utils.id(CONTRACT_ROLES[role]), address)
+    } catch (error) {
+      console.error('Error checking role:', error)
+      return false
+    }
+  }
+
+  /**
+   * Let a company member run HR or finance functions from its own wallet (owner only)
+   */
+  async grantRole(role: ContractRole, address: string, onUpdate?: TransactionListener): Promise<PaymentResult> {
+    try {
+      const contract = this.getContract()
+      const roleHash = ethers.utils.id(CONTRACT_ROLES[role])
+      const gasEstimate = await contract.estimateGas.grantRole(roleHash, address)
+
+      const transaction = await transactionTracker.track('Grant role', () => contract.grantRole(roleHash, address, {
+        gasLimit: gasEstimate.mul(120).div(100), // Add 20% buffer
+      }), onUpdate)
+
+      return this.getTrackedResult(transaction, 'Failed to grant role')
+    } catch (error: any) {
+      console.error('❌ Failed to grant role:', error)
+      return this.getErrorResult(error)
+    }
+  }
+
+  /**
+   * Take an HR or finance role away from a wallet (owner only)
+   */
+  async revokeRole(role: ContractRole, address: string, onUpdate?: TransactionListener): Promise<PaymentResult> {
+    try {
+      const contract = this.getContract()
+      const roleHash = ethers.utils.id(CONTRACT_ROLES[role])
+      const gasEstimate = await contract.estimateGas.revokeRole(roleHash, address)
+
+      const transaction = await transactionTracker.track('Revoke role', () => contract.revokeRole(roleHash, address, {
+        gasLimit: gasEstimate.mul(120).div(100), // Add 20% buffer
+      }), onUpdate)
+
+      return this.getTrackedResult(transaction, 'Failed to revoke role')
+    } catch (error: any) {
+      console.error('❌ Failed to revoke role:', error)
+      return this.getErrorResult(error)
+    }
+  }
+
   /**
    * Get contract info
    */
@@ -253,8 +421,9 @@ export class BlockchainService {
         department: params.department
       })
       
-      // Convert salary to wei
-      const salaryWei = ethers.utils.parseEther(params.salary)
+      // Convert salary to the token's smallest unit
+      const decimals = await this.getTokenDecimals(params.token)
+      const salaryWei = ethers.utils.parseUnits(params.salary, decimals)
       console.log('💰 Salary in wei:', salaryWei.toString())
       
       // Check if caller is owner
@@ -277,6 +446,8 @@ export class BlockchainService {
       } catch (error) {
         console.log('👥 Employee check result:', error)
       }
+
+      await this.assertFrequencySupported(contract, params.frequency)
       
       // Estimate gas
       const gasEstimate = await contract.estimateGas.addEmployee(
@@ -315,267 +486,1319 @@ export class BlockchainService {
       }
     } catch (error: any) {
       console.error('❌ Failed to add employee:', error)
-      return {
-        success: false,
-        error: error.message || 'Failed to add employee'
-      }
+      return this.getErrorResult(error)
     }
   }
 
   /**
-   * Get employee information
+   * Register several employees in one addEmployeesBatch transaction.
+   * The batch is atomic: if any employee is rejected, none are added
    */
-  async getEmployee(address: string): Promise<Employee | null> {
+  async addEmployeesBatch(employees: AddEmployeeParams[], onUpdate?: TransactionListener): Promise<PaymentResult> {
     try {
       const contract = this.getContract()
-      const employeeData = await contract.employees(address)
-      
-      return {
-        walletAddress: employeeData.walletAddress,
-        salaryAmount: ethers.utils.formatEther(employeeData.salaryAmount),
-        lastPaymentTimestamp: employeeData.lastPaymentTimestamp.toNumber(),
-        isActive: employeeData.isActive,
-        ensNode: employeeData.ensNode,
-        frequency: employeeData.frequency,
-        preferredToken: employeeData.preferredToken,
-        ensSubdomain: employeeData.ensSubdomain,
-        startDate: employeeData.startDate.toNumber(),
-        position: employeeData.position,
-        department: employeeData.department,
+
+      const frequencies = Array.from(new Set(employees.map(employee => employee.frequency)))
+      for (const frequency of frequencies) {
+        await this.assertFrequencySupported(contract, frequency)
       }
-    } catch (error) {
-      console.error('Error getting employee:', error)
-      return null
+
+      const newEmployees = await Promise.all(employees.map(async employee => ({
+        walletAddress: employee.employee,
+        salaryAmount: ethers.utils.parseUnits(employee.salary, await this.getTokenDecimals(employee.token)),
+        ensSubdomain: employee.subdomain,
+        frequency: employee.frequency,
+        preferredToken: employee.token,
+        position: employee.position,
+        department: employee.department,
+      })))
+
+      const gasEstimate = await contract.estimateGas.addEmployeesBatch(newEmployees)
+
+      const transaction = await transactionTracker.track(`Onboard ${employees.length} employees`, () => contract.addEmployeesBatch(newEmployees, {
+        gasLimit: gasEstimate.mul(120).div(100), // Add 20% buffer
+      }), onUpdate)
+
+      return this.getTrackedResult(transaction, 'Failed to onboard employees')
+    } catch (error: any) {
+      console.error('❌ Failed to onboard employees:', error)
+      return this.getErrorResult(error)
     }
   }
 
   /**
-   * Get all active employees
+   * EmployeeAdded events of a mined transaction
    */
-  async getActiveEmployees(): Promise<string[]> {
-    try {
-      const contract = this.getContract()
-      return await contract.getActiveEmployees()
-    } catch (error) {
-      console.error('Error getting active employees:', error)
-      return []
+  async getEmployeeAddedEvents(transactionHash: string): Promise<EmployeeAddedEvent[]> {
+    if (!this.provider) {
+      throw new Error(ERROR_MESSAGES.WALLET_NOT_CONNECTED)
+    }
+
+    const receipt = await this.provider.waitForTransaction(transactionHash)
+    if (receipt.status !== 1) {
+      throw new Error(ERROR_MESSAGES.TRANSACTION_FAILED)
+    }
+
+    const contract = this.getContract()
+    const events: EmployeeAddedEvent[] = []
+    for (const log of receipt.logs) {
+      if (log.address.toLowerCase() !== contract.address.toLowerCase()) continue
+
+      let parsed: ethers.utils.LogDescription
+      try {
+        parsed = contract.interface.parseLog(log)
+      } catch {
+        continue // Not an event from this ABI
+      }
+      if (parsed.name !== 'EmployeeAdded') continue
+
+      events.push({
+        employee: parsed.args.employee,
+        ensSubdomain: parsed.args.ensSubdomain,
+        ensNode: parsed.args.ensNode,
+        frequency: Number(parsed.args.frequency),
+        transactionHash,
+      })
     }
+    return events
   }
 
   /**
-   * Calculate payment amount for an employee
+   * Change an employee's salary, payment frequency and preferred token in one transaction
    */
-  async calculatePaymentAmount(employeeAddress: string): Promise<string> {
+  async updateEmployeeCompensation(
+    employeeAddress: string,
+    salary: string,
+    frequency: number,
+    tokenAddress: string,
+    onUpdate?: TransactionListener
+  ): Promise<PaymentResult> {
     try {
       const contract = this.getContract()
-      const amount = await contract.calculatePaymentAmount(employeeAddress)
-      return ethers.utils.formatEther(amount)
-    } catch (error) {
-      console.error('Error calculating payment amount:', error)
-      return '0'
+      // Salary is stored in the new token's units
+      const decimals = await this.getTokenDecimals(tokenAddress)
+      const salaryAmount = ethers.utils.parseUnits(salary, decimals)
+
+      await this.assertFrequencySupported(contract, frequency)
+
+      const gasEstimate = await contract.estimateGas.updateEmployeeCompensation(employeeAddress, salaryAmount, frequency, tokenAddress)
+
+      const transaction = await transactionTracker.track('Update compensation', () => contract.updateEmployeeCompensation(employeeAddress, salaryAmount, frequency, tokenAddress, {
+        gasLimit: gasEstimate.mul(120).div(100), // Add 20% buffer
+      }), onUpdate)
+
+      return this.getTrackedResult(transaction, 'Failed to update compensation')
+    } catch (error: any) {
+      console.error('❌ Failed to update compensation:', error)
+      return this.getErrorResult(error)
     }
   }
 
   /**
-   * Process payroll for multiple employees
+   * Deactivate an employee so they are no longer paid
    */
-  async processPayroll(employeeAddresses: string[]): Promise<PaymentResult> {
+  async removeEmployee(employeeAddress: string, onUpdate?: TransactionListener): Promise<PaymentResult> {
     try {
       const contract = this.getContract()
-      
-      // Estimate gas
-      const gasEstimate = await contract.estimateGas.processPayroll(employeeAddresses)
+      const gasEstimate = await contract.estimateGas.removeEmployee(employeeAddress)
 
-      // Execute transaction
-      const tx = await contract.processPayroll(employeeAddresses, {
+      const transaction = await transactionTracker.track('Remove employee', () => contract.removeEmployee(employeeAddress, {
         gasLimit: gasEstimate.mul(120).div(100), // Add 20% buffer
-      })
+      }), onUpdate)
 
-      console.log('📝 Payroll processing transaction sent:', tx.hash)
-      
-      // Wait for confirmation
-      const receipt = await tx.wait()
-      console.log('✅ Payroll processed successfully:', receipt.transactionHash)
-
-      return {
-        success: true,
-        transactionHash: receipt.transactionHash
-      }
+      return this.getTrackedResult(transaction, 'Failed to remove employee')
     } catch (error: any) {
-      console.error('❌ Failed to process payroll:', error)
-      return {
-        success: false,
-        error: error.message || 'Failed to process payroll'
-      }
+      console.error('❌ Failed to remove employee:', error)
+      return this.getErrorResult(error)
     }
   }
 
   /**
-   * Process individual payment
+   * Hand a removed employee's ENS subdomain to a new owner, or revoke it with the zero address
    */
-  async processIndividualPayment(employeeAddress: string): Promise<PaymentResult> {
+  async reassignEmployeeENS(
+    employeeAddress: string,
+    newOwner: string,
+    onUpdate?: TransactionListener
+  ): Promise<PaymentResult> {
     try {
       const contract = this.getContract()
-      
-      // Estimate gas
-      const gasEstimate = await contract.estimateGas.processIndividualPayment(employeeAddress)
+      const gasEstimate = await contract.estimateGas.reassignEmployeeENS(employeeAddress, newOwner)
 
-      // Execute transaction
-      const tx = await contract.processIndividualPayment(employeeAddress, {
+      const label = newOwner === ethers.constants.AddressZero ? 'Revoke ENS subdomain' : 'Reassign ENS subdomain'
+      const transaction = await transactionTracker.track(label, () => contract.reassignEmployeeENS(employeeAddress, newOwner, {
         gasLimit: gasEstimate.mul(120).div(100), // Add 20% buffer
-      })
-
-      console.log('📝 Individual payment transaction sent:', tx.hash)
-      
-      // Wait for confirmation
-      const receipt = await tx.wait()
-      console.log('✅ Individual payment processed:', receipt.transactionHash)
+      }), onUpdate)
 
-      return {
-        success: true,
-        transactionHash: receipt.transactionHash
-      }
+      return this.getTrackedResult(transaction, 'Failed to update ENS subdomain')
     } catch (error: any) {
-      console.error('❌ Failed to process individual payment:', error)
-      return {
-        success: false,
-        error: error.message || 'Failed to process payment'
-      }
+      console.error('❌ Failed to update ENS subdomain:', error)
+      return this.getErrorResult(error)
     }
   }
 
   /**
-   * Check if token is authorized
+   * Start a time-locked payout wallet change, from the employee's current wallet or as HR
    */
-  async isTokenAuthorized(tokenAddress: string): Promise<boolean> {
+  async requestWalletChange(
+    employeeAddress: string,
+    newWallet: string,
+    onUpdate?: TransactionListener
+  ): Promise<PaymentResult> {
     try {
       const contract = this.getContract()
-      return await contract.authorizedTokens(tokenAddress)
-    } catch (error) {
-      console.error('Error checking token authorization:', error)
-      return false
+      const gasEstimate = await contract.estimateGas.requestWalletChange(employeeAddress, newWallet)
+
+      const transaction = await transactionTracker.track('Request wallet change', () => contract.requestWalletChange(employeeAddress, newWallet, {
+        gasLimit: gasEstimate.mul(120).div(100), // Add 20% buffer
+      }), onUpdate)
+
+      return this.getTrackedResult(transaction, 'Failed to request wallet change')
+    } catch (error: any) {
+      console.error('❌ Failed to request wallet change:', error)
+      return this.getErrorResult(error)
     }
   }
 
   /**
-   * Set token authorization
+   * Cancel a pending wallet change
    */
-  async setTokenAuthorization(tokenAddress: string, authorized: boolean): Promise<PaymentResult> {
+  async cancelWalletChange(employeeAddress: string, onUpdate?: TransactionListener): Promise<PaymentResult> {
     try {
       const contract = this.getContract()
-      
-      const tx = await contract.setTokenAuthorization(tokenAddress, authorized, {
-        gasLimit: DEFAULTS.GAS_LIMIT,
-      })
+      const gasEstimate = await contract.estimateGas.cancelWalletChange(employeeAddress)
 
-      console.log('📝 Token authorization transaction sent:', tx.hash)
-      
-      const receipt = await tx.wait()
-      console.log('✅ Token authorization updated:', receipt.transactionHash)
+      const transaction = await transactionTracker.track('Cancel wallet change', () => contract.cancelWalletChange(employeeAddress, {
+        gasLimit: gasEstimate.mul(120).div(100), // Add 20% buffer
+      }), onUpdate)
 
-      return {
-        success: true,
-        transactionHash: receipt.transactionHash
-      }
+      return this.getTrackedResult(transaction, 'Failed to cancel wallet change')
     } catch (error: any) {
-      console.error('❌ Failed to set token authorization:', error)
-      return {
-        success: false,
-        error: error.message || 'Failed to update token authorization'
-      }
+      console.error('❌ Failed to cancel wallet change:', error)
+      return this.getErrorResult(error)
     }
   }
 
   /**
-   * Get contract balance for a token
+   * Move the employee to their new wallet once the timelock has expired
    */
-  async getContractBalance(tokenAddress: string): Promise<string> {
+  async applyWalletChange(employeeAddress: string, onUpdate?: TransactionListener): Promise<PaymentResult> {
     try {
-      if (!this.provider || !this.currentNetwork) {
-        console.log('❌ BlockchainService: No provider or network')
-        return '0'
-      }
-
-      const contractInfo = this.getContractInfo()
-      if (!contractInfo) {
-        console.log('❌ BlockchainService: No contract info')
-        return '0'
-      }
+      const contract = this.getContract()
+      const gasEstimate = await contract.estimateGas.applyWalletChange(employeeAddress)
 
-      console.log('🔍 BlockchainService: Getting balance for contract:', contractInfo.address)
-      console.log('🔍 BlockchainService: Token address:', tokenAddress)
-      console.log('🔍 BlockchainService: Current network:', this.currentNetwork)
+      const transaction = await transactionTracker.track('Apply wallet change', () => contract.applyWalletChange(employeeAddress, {
+        gasLimit: gasEstimate.mul(120).div(100), // Add 20% buffer
+      }), onUpdate)
 
-      if (tokenAddress === TOKEN_ADDRESSES[this.currentNetwork as keyof typeof TOKEN_ADDRESSES].ETH) {
-        // ETH balance
-        console.log('🔍 BlockchainService: Getting ETH balance for contract address:', contractInfo.address)
-        const balance = await this.provider.getBalance(contractInfo.address)
-        const formattedBalance = ethers.utils.formatEther(balance)
-        console.log('✅ BlockchainService: Contract ETH balance:', formattedBalance)
-        return formattedBalance
-      } else {
-        // ERC20 token balance
-        console.log('🔍 BlockchainService: Getting ERC20 token balance')
-        const tokenContract = new ethers.Contract(
-          tokenAddress,
-          ['function balanceOf(address) view returns (uint256)'],
-          this.provider
-        )
-        const balance = await tokenContract.balanceOf(contractInfo.address)
-        const formattedBalance = ethers.utils.formatEther(balance)
-        console.log('✅ BlockchainService: Contract token balance:', formattedBalance)
-        return formattedBalance
-      }
-    } catch (error) {
-      console.error('❌ BlockchainService: Error getting contract balance:', error)
-      return '0'
+      return this.getTrackedResult(transaction, 'Failed to apply wallet change')
+    } catch (error: any) {
+      console.error('❌ Failed to apply wallet change:', error)
+      return this.getErrorResult(error)
     }
   }
 
   /**
-   * Check if contract is paused
+   * Pending wallet change for an employee, or null when there is none
    */
-  async isPaused(): Promise<boolean> {
+  async getPendingWalletChange(employeeAddress: string): Promise<PendingWalletChange | null> {
     try {
       const contract = this.getContract()
-      return await contract.paused()
+      const change = await contract.pendingWalletChanges(employeeAddress)
+      if (change.newWallet === ethers.constants.AddressZero) return null
+
+      return {
+        newWallet: change.newWallet,
+        requestedBy: change.requestedBy,
+        effectiveAt: change.effectiveAt.toNumber(),
+      }
     } catch (error) {
-      console.error('Error checking pause status:', error)
-      return false
+      console.error('Error getting pending wallet change:', error)
+      return null
     }
   }
 
   /**
-   * Pause contract
+   * Cooldown in seconds before a requested wallet change can be applied
    */
-  async pause(): Promise<PaymentResult> {
+  async getWalletChangeDelay(): Promise<number> {
+    const contract = this.getContract()
+    const delay = await contract.walletChangeDelay()
+    return delay.toNumber()
+  }
+
+  /**
+   * Set the wallet change cooldown in seconds (owner only)
+   */
+  async setWalletChangeDelay(seconds: number, onUpdate?: TransactionListener): Promise<PaymentResult> {
     try {
       const contract = this.getContract()
-      
-      const tx = await contract.pause({
-        gasLimit: DEFAULTS.GAS_LIMIT,
-      })
+      const gasEstimate = await contract.estimateGas.setWalletChangeDelay(seconds)
 
-      console.log('📝 Pause transaction sent:', tx.hash)
-      
-      const receipt = await tx.wait()
-      console.log('✅ Contract paused:', receipt.transactionHash)
+      const transaction = await transactionTracker.track('Set wallet change cooldown', () => contract.setWalletChangeDelay(seconds, {
+        gasLimit: gasEstimate.mul(120).div(100), // Add 20% buffer
+      }), onUpdate)
 
-      return {
-        success: true,
-        transactionHash: receipt.transactionHash
-      }
+      return this.getTrackedResult(transaction, 'Failed to set wallet change cooldown')
     } catch (error: any) {
-      console.error('❌ Failed to pause contract:', error)
-      return {
-        success: false,
-        error: error.message || 'Failed to pause contract'
-      }
+      console.error('❌ Failed to set wallet change cooldown:', error)
+      return this.getErrorResult(error)
     }
   }
 
   /**
-   * Unpause contract
+   * Get employee information
+   */
+  async getEmployee(address: string): Promise<Employee | null> {
+    try {
+      const contract = this.getContract()
+      const employeeData = await contract.employees(address)
+      const decimals = await this.getTokenDecimals(employeeData.preferredToken)
+      
+      return {
+        walletAddress: employeeData.walletAddress,
+        salaryAmount: ethers.utils.formatUnits(employeeData.salaryAmount, decimals),
+        lastPaymentTimestamp: employeeData.lastPaymentTimestamp.toNumber(),
+        isActive: employeeData.isActive,
+        ensNode: employeeData.ensNode,
+        frequency: employeeData.frequency,
+        preferredToken: employeeData.preferredToken,
+        ensSubdomain: employeeData.ensSubdomain,
+        startDate: employeeData.startDate.toNumber(),
+        position: employeeData.position,
+        department: employeeData.department,
+      }
+    } catch (error) {
+      console.error('Error getting employee:', error)
+      return null
+    }
+  }
+
+  /**
+   * Events matching a filter since the contract was deployed, fetched in fixed-size
+   * block ranges so no eth_getLogs call exceeds the provider's range limit
+   */
+  private async queryEventsSinceDeployment(contract: ethers.Contract, filter: ethers.EventFilter): Promise<ethers.Event[]> {
+    const fromBlock = CONTRACT_DEPLOYMENT_BLOCKS[this.currentNetwork as keyof typeof CONTRACT_DEPLOYMENT_BLOCKS] || 0
+    const latestBlock = await contract.provider.getBlockNumber()
+    const events: ethers.Event[] = []
+
+    for (let start = fromBlock; start <= latestBlock; start += EVENT_SCAN_PAGE_BLOCKS) {
+      const end = Math.min(start + EVENT_SCAN_PAGE_BLOCKS - 1, latestBlock)
+      events.push(...await contract.queryFilter(filter, start, end))
+    }
+
+    return events
+  }
+
+  /**
+   * Every address ever added, from EmployeeAdded and WalletChanged logs
+   * (the contract keeps no list of employees)
+   */
+  async getEmployeeAddresses(): Promise<string[]> {
+    const contract = this.getContract()
+    const [added, moved] = await Promise.all([
+      this.queryEventsSinceDeployment(contract, contract.filters.EmployeeAdded()),
+      this.queryEventsSinceDeployment(contract, contract.filters.WalletChanged()),
+    ])
+    return Array.from(new Set([
+      ...added.map(event => ethers.utils.getAddress(event.args!.employee)),
+      ...moved.map(event => ethers.utils.getAddress(event.args!.newWallet)),
+    ]))
+  }
+
+  /**
+   * Get all employees ever registered, with their current on-chain data
+   */
+  async getEmployees(): Promise<Employee[]> {
+    try {
+      const addresses = await this.getEmployeeAddresses()
+      const employees = await Promise.all(addresses.map(address => this.getEmployee(address)))
+      // Wallets an employee moved away from have no record left
+      return employees.filter((employee): employee is Employee =>
+        employee !== null && employee.walletAddress !== ethers.constants.AddressZero
+      )
+    } catch (error) {
+      console.error('Error getting employees:', error)
+      return []
+    }
+  }
+
+  /**
+   * Get all active employees
+   */
+  async getActiveEmployees(): Promise<string[]> {
+    const employees = await this.getEmployees()
+    return employees.filter(employee => employee.isActive).map(employee => employee.walletAddress)
+  }
+
+  /**
+   * Payment interval in seconds for each frequency the deployed contract accepts
+   */
+  async getPaymentIntervals(): Promise<Record<number, number>> {
+    const contract = this.getContract()
+    const intervals: Record<number, number> = {}
+
+    await Promise.all(Object.values(PAYMENT_FREQUENCIES).map(async (frequency) => {
+      try {
+        intervals[frequency] = (await contract.getPaymentInterval(frequency)).toNumber()
+      } catch (error) {
+        console.warn(`⚠️ Frequency ${frequency} is not supported by the deployed contract`)
+      }
+    }))
+
+    return intervals
+  }
+
+  /**
+   * Reject frequencies missing from the deployed contract's PaymentFrequency enum.
+   * Enums are plain uint8 in the ABI, so the contract itself is asked: decoding an
+   * out-of-range enum value reverts.
+   */
+  private async assertFrequencySupported(contract: ethers.Contract, frequency: number): Promise<void> {
+    try {
+      await contract.getPaymentInterval(frequency)
+    } catch (error) {
+      const label = PAYMENT_FREQUENCY_LABELS[frequency as keyof typeof PAYMENT_FREQUENCY_LABELS] || `Frequency ${frequency}`
+      throw new Error(`${label} payments are not supported by the deployed payroll contract`)
+    }
+  }
+
+  /**
+   * Get decimals for a token (ETH is the zero address)
+   */
+  async getTokenDecimals(tokenAddress: string): Promise<number> {
+    if (tokenAddress === ethers.constants.AddressZero) return 18
+
+    const cached = this.tokenDecimals.get(tokenAddress.toLowerCase())
+    if (cached !== undefined) return cached
+
+    if (!this.provider) {
+      throw new Error(ERROR_MESSAGES.WALLET_NOT_CONNECTED)
+    }
+
+    const tokenContract = new ethers.Contract(
+      tokenAddress,
+      ['function decimals() view returns (uint8)'],
+      this.provider
+    )
+    const decimals = await tokenContract.decimals()
+    this.tokenDecimals.set(tokenAddress.toLowerCase(), decimals)
+    return decimals
+  }
+
+  /**
+   * Calculate payment amount for an employee
+   */
+  async calculatePaymentAmount(employeeAddress: string): Promise<string> {
+    try {
+      const contract = this.getContract()
+      const [amount, employeeData] = await Promise.all([
+        contract.calculatePaymentAmount(employeeAddress),
+        contract.employees(employeeAddress),
+      ])
+      const decimals = await this.getTokenDecimals(employeeData.preferredToken)
+      return ethers.utils.formatUnits(amount, decimals)
+    } catch (error) {
+      console.error('Error calculating payment amount:', error)
+      return '0'
+    }
+  }
+
+  /**
+   * Salary accrued since the last payment (or start date) up to `until`, pro-rated by the contract
+   */
+  async calculateProRatedAmount(employeeAddress: string, until: Date = new Date()): Promise<string> {
+    try {
+      const contract = this.getContract()
+      const [amount, employeeData] = await Promise.all([
+        contract.calculateProRatedAmount(employeeAddress, Math.floor(until.getTime() / 1000)),
+        contract.employees(employeeAddress),
+      ])
+      const decimals = await this.getTokenDecimals(employeeData.preferredToken)
+      return ethers.utils.formatUnits(amount, decimals)
+    } catch (error) {
+      console.error('Error calculating pro-rated amount:', error)
+      return '0'
+    }
+  }
+
+  /**
+   * Get the next block's base fee and priority fees for each speed
+   * Uses eth_feeHistory, falling back to the provider's fee data
+   */
+  private async getFeeData(): Promise<FeeData> {
+    if (!this.provider) {
+      throw new Error(ERROR_MESSAGES.WALLET_NOT_CONNECTED)
+    }
+
+    const speeds = Object.keys(GAS_FEE_SPEEDS) as FeeSpeed[]
+
+    try {
+      const history = await this.provider.send('eth_feeHistory', [
+        ethers.utils.hexValue(GAS_FEE_HISTORY_BLOCKS),
+        'latest',
+        speeds.map(speed => GAS_FEE_SPEEDS[speed].rewardPercentile),
+      ])
+
+      // The last entry is the base fee of the next block
+      const baseFees: string[] = history.baseFeePerGas || []
+      const rewards: string[][] = history.reward || []
+      if (!baseFees.length || !rewards.length) {
+        throw new Error('Fee history unavailable')
+      }
+
+      const priorityFees = {} as Record<FeeSpeed, ethers.BigNumber>
+      speeds.forEach((speed, index) => {
+        const total = rewards.reduce(
+          (sum, blockRewards) => sum.add(ethers.BigNumber.from(blockRewards[index] || 0)),
+          ethers.BigNumber.from(0)
+        )
+        priorityFees[speed] = total.div(rewards.length)
+      })
+
+      return {
+        baseFeePerGas: ethers.BigNumber.from(baseFees[baseFees.length - 1]),
+        priorityFees,
+      }
+    } catch (error) {
+      console.warn('⚠️ eth_feeHistory unavailable, using provider fee data:', error)
+
+      const feeData = await this.provider.getFeeData()
+      const baseFeePerGas = feeData.lastBaseFeePerGas || feeData.gasPrice || ethers.BigNumber.from(DEFAULTS.GAS_PRICE)
+      const priorityFee = feeData.maxPriorityFeePerGas || ethers.utils.parseUnits('1.5', 'gwei')
+
+      const priorityFees = {} as Record<FeeSpeed, ethers.BigNumber>
+      speeds.forEach(speed => {
+        priorityFees[speed] = priorityFee.mul(GAS_FEE_SPEEDS[speed].fallbackMultiplier).div(100)
+      })
+
+      return { baseFeePerGas, priorityFees }
+    }
+  }
+
+  /**
+   * EIP-1559 fee overrides for a speed (max fee covers a doubling of the base fee)
+   */
+  private getFeeOverrides(feeData: FeeData, speed: FeeSpeed) {
+    const maxPriorityFeePerGas = feeData.priorityFees[speed]
+    return {
+      maxPriorityFeePerGas,
+      maxFeePerGas: feeData.baseFeePerGas.mul(2).add(maxPriorityFeePerGas),
+    }
+  }
+
+  /**
+   * Fee for each speed when spending gasLimit
+   */
+  private getFeeOptions(gasLimit: ethers.BigNumber, feeData: FeeData): Record<FeeSpeed, FeeOption> {
+    const options = {} as Record<FeeSpeed, FeeOption>
+    for (const speed of Object.keys(GAS_FEE_SPEEDS) as FeeSpeed[]) {
+      const overrides = this.getFeeOverrides(feeData, speed)
+      options[speed] = {
+        speed,
+        maxFeePerGas: ethers.utils.formatUnits(overrides.maxFeePerGas, 'gwei'),
+        maxPriorityFeePerGas: ethers.utils.formatUnits(overrides.maxPriorityFeePerGas, 'gwei'),
+        estimatedCost: ethers.utils.formatEther(gasLimit.mul(feeData.baseFeePerGas.add(overrides.maxPriorityFeePerGas))),
+        maxCost: ethers.utils.formatEther(gasLimit.mul(overrides.maxFeePerGas)),
+      }
+    }
+    return options
+  }
+
+  /**
+   * Estimate gas and fees for processing payroll
+   * The batch is paid in the chunks planPayrollChunks plans, so each chunk is estimated and the total summed
+   */
+  async estimatePayrollGas(employeeAddresses: string[]): Promise<GasEstimate> {
+    const [chunks, feeData] = await Promise.all([
+      this.planPayrollChunkGas(employeeAddresses),
+      this.getFeeData(),
+    ])
+    const gasLimit = chunks.reduce((sum, chunk) => sum.add(chunk.gas), ethers.BigNumber.from(0))
+
+    return {
+      gasLimit: gasLimit.toString(),
+      baseFeePerGas: ethers.utils.formatUnits(feeData.baseFeePerGas, 'gwei'),
+      options: this.getFeeOptions(gasLimit, feeData),
+      chunks: chunks.map(chunk => ({
+        employeeCount: chunk.employees.length,
+        gasLimit: chunk.gas.toString(),
+        options: this.getFeeOptions(chunk.gas, feeData),
+      })),
+    }
+  }
+
+  /**
+   * Failed PaymentResult with the error decoded into a user-facing message
+   */
+  private getErrorResult(error: any, transactionHash?: string): PaymentResult {
+    const decoded = decodeContractError(error)
+    return {
+      success: false,
+      transactionHash,
+      error: decoded.message,
+      errorCode: decoded.code,
+      suggestion: decoded.suggestion
+    }
+  }
+
+  /**
+   * Map a failed static call to a simulation outcome
+   */
+  private getSimulation(employee: string, error: any): PaymentSimulation {
+    const { code, message } = decodeContractError(error)
+    const status: SimulationStatus = code === 'NO_PAYMENT_DUE'
+      ? 'no_payment_due'
+      : code === 'EMPLOYEE_NOT_ACTIVE'
+        ? 'not_active'
+        : code === 'INSUFFICIENT_ETH_BALANCE' || code === 'INSUFFICIENT_TOKEN_BALANCE'
+          ? 'insufficient_balance'
+          : 'error'
+    return { employee, status, reason: message }
+  }
+
+  /**
+   * Dry-run payroll with static calls against current chain state
+   * Reports the outcome for each employee without sending a transaction
+   */
+  async simulatePayroll(employeeAddresses: string[]): Promise<PaymentSimulation[]> {
+    const contract = this.getContract()
+    const success = (employee: string): PaymentSimulation => ({ employee, status: 'success', reason: 'Payment will succeed' })
+
+    // Fast path: the whole batch goes through
+    try {
+      await contract.callStatic.processPayroll(employeeAddresses)
+      return employeeAddresses.map(success)
+    } catch (error) {
+      console.log('🔍 Batch simulation reverted, checking employees individually')
+    }
+
+    const results = new Map<string, PaymentSimulation>()
+    await Promise.all(employeeAddresses.map(async (employee) => {
+      try {
+        await contract.callStatic.processIndividualPayment(employee)
+        results.set(employee, success(employee))
+      } catch (error) {
+        results.set(employee, this.getSimulation(employee, error))
+      }
+    }))
+
+    // Employees that pass alone can still fail together once the balance runs out
+    const passing = employeeAddresses.filter(employee => results.get(employee)?.status === 'success')
+    if (passing.length > 1) {
+      try {
+        await contract.callStatic.processPayroll(passing)
+      } catch (error) {
+        const accepted: string[] = []
+        for (const employee of passing) {
+          try {
+            await contract.callStatic.processPayroll([...accepted, employee])
+            accepted.push(employee)
+          } catch (batchError) {
+            results.set(employee, this.getSimulation(employee, batchError))
+          }
+        }
+      }
+    }
+
+    return employeeAddresses.map(employee => results.get(employee) as PaymentSimulation)
+  }
+
+  /**
+   * Split a payroll batch into chunks that each fit a gas budget
+   * Chunks are sized from a sample spread across the batch, then each one is
+   * estimated and halved until its gas limit fits under the cap
+   */
+  private async planPayrollChunkGas(employeeAddresses: string[]): Promise<PlannedChunk[]> {
+    if (!this.provider) {
+      throw new Error(ERROR_MESSAGES.WALLET_NOT_CONNECTED)
+    }
+
+    const contract = this.getContract()
+
+    // Evenly spaced so later hires or other tokens are measured too, not just the first rows
+    const sampleSize = Math.min(PAYROLL_BATCH.SAMPLE_SIZE, employeeAddresses.length)
+    const sample = Array.from({ length: sampleSize }, (_, i) =>
+      employeeAddresses[Math.floor(i * employeeAddresses.length / sampleSize)])
+
+    const [block, singleGas, sampleGas] = await Promise.all([
+      this.provider.getBlock('latest'),
+      contract.estimateGas.processPayroll(sample.slice(0, 1)) as Promise<ethers.BigNumber>,
+      contract.estimateGas.processPayroll(sample) as Promise<ethers.BigNumber>,
+    ])
+
+    const perEmployeeGas = sample.length > 1
+      ? sampleGas.sub(singleGas).div(sample.length - 1)
+      : singleGas
+    const baseGas = singleGas.gt(perEmployeeGas) ? singleGas.sub(perEmployeeGas) : ethers.BigNumber.from(0)
+
+    // Largest estimate whose buffered gas limit still fits the cap
+    let maxGas = block.gasLimit.mul(PAYROLL_BATCH.BLOCK_GAS_SHARE).div(100)
+    if (maxGas.gt(PAYROLL_BATCH.MAX_CHUNK_GAS)) {
+      maxGas = ethers.BigNumber.from(PAYROLL_BATCH.MAX_CHUNK_GAS)
+    }
+    const maxEstimate = maxGas.mul(100).div(PAYROLL_BATCH.GAS_BUFFER)
+
+    // Size chunks with headroom, since employees outside the sample may cost more than its average
+    const budget = maxEstimate.mul(100 - PAYROLL_BATCH.SAFETY_MARGIN).div(100)
+    const chunkSize = perEmployeeGas.isZero()
+      ? employeeAddresses.length
+      : Math.max(1, budget.sub(baseGas).div(perEmployeeGas).toNumber())
+
+    const pending: string[][] = []
+    for (let i = 0; i < employeeAddresses.length; i += chunkSize) {
+      pending.push(employeeAddresses.slice(i, i + chunkSize))
+    }
+
+    const planned: PlannedChunk[] = []
+    while (pending.length > 0) {
+      const employees = pending.shift() as string[]
+      const gas: ethers.BigNumber = await contract.estimateGas.processPayroll(employees)
+
+      if (gas.gt(maxEstimate) && employees.length > 1) {
+        const half = Math.ceil(employees.length / 2)
+        pending.unshift(employees.slice(0, half), employees.slice(half))
+        continue
+      }
+
+      planned.push({ employees, gas })
+    }
+
+    console.log(`🧩 Payroll split into ${planned.length} chunk(s), sized for ${chunkSize} employees (~${perEmployeeGas.toString()} gas each)`)
+    return planned
+  }
+
+  /**
+   * Employees of each processPayroll transaction needed to pay a batch
+   */
+  async planPayrollChunks(employeeAddresses: string[]): Promise<string[][]> {
+    const planned = await this.planPayrollChunkGas(employeeAddresses)
+    return planned.map(chunk => chunk.employees)
+  }
+
+  /**
+   * Look up the outcome of a previously sent transaction
+   */
+  async getTransactionStatus(transactionHash: string): Promise<TransactionStatus> {
+    try {
+      if (!this.provider) return 'unknown'
+
+      const receipt = await this.provider.getTransactionReceipt(transactionHash)
+      if (receipt) {
+        return receipt.status === 1 ? 'success' : 'reverted'
+      }
+
+      const tx = await this.provider.getTransaction(transactionHash)
+      return tx ? 'pending' : 'unknown'
+    } catch (error) {
+      console.error('Error getting transaction status:', error)
+      return 'unknown'
+    }
+  }
+
+  /**
+   * Wait for a previously sent transaction to be mined
+   */
+  async waitForTransaction(transactionHash: string): Promise<PaymentResult> {
+    try {
+      if (!this.provider) {
+        throw new Error(ERROR_MESSAGES.WALLET_NOT_CONNECTED)
+      }
+
+      const receipt = await this.provider.waitForTransaction(transactionHash)
+      if (receipt.status !== 1) {
+        throw new Error(ERROR_MESSAGES.TRANSACTION_FAILED)
+      }
+
+      return {
+        success: true,
+        transactionHash: receipt.transactionHash
+      }
+    } catch (error: any) {
+      return this.getErrorResult(error, transactionHash)
+    }
+  }
+
+  /**
+   * Decode the PaymentProcessed events emitted in a mined transaction
+   * These are the payments that actually happened, whatever was requested
+   */
+  async getPaymentReceipt(transactionHash: string): Promise<PaymentReceipt> {
+    if (!this.provider) {
+      throw new Error(ERROR_MESSAGES.WALLET_NOT_CONNECTED)
+    }
+
+    const contract = this.getContract()
+    const receipt = await this.provider.waitForTransaction(transactionHash)
+    if (receipt.status !== 1) {
+      throw new Error(ERROR_MESSAGES.TRANSACTION_FAILED)
+    }
+
+    const events = receipt.logs
+      .filter(log => log.address.toLowerCase() === contract.address.toLowerCase())
+      .map(log => {
+        try {
+          return { log, parsed: contract.interface.parseLog(log) }
+        } catch {
+          return null // Not an event from this ABI
+        }
+      })
+      .filter(event => event?.parsed.name === 'PaymentProcessed')
+
+    const payments: ProcessedPayment[] = []
+    for (const event of events) {
+      const { employee, amount, token, timestamp } = event!.parsed.args
+      const decimals = await this.getTokenDecimals(token)
+      const tokenSymbol = this.getTokenSymbol(token)
+
+      payments.push({
+        employee,
+        amount: ethers.utils.formatUnits(amount, decimals),
+        token,
+        tokenSymbol,
+        timestamp: timestamp.toNumber(),
+        logIndex: event!.log.logIndex
+      })
+    }
+
+    return {
+      transactionHash: receipt.transactionHash,
+      blockNumber: receipt.blockNumber,
+      gasUsed: receipt.gasUsed.toString(),
+      payments
+    }
+  }
+
+  /**
+   * Symbol of a known token on the current network, or the address itself
+   */
+  private getTokenSymbol(tokenAddress: string): string {
+    if (tokenAddress === ethers.constants.AddressZero) return 'ETH'
+
+    const tokens = TOKEN_ADDRESSES[this.currentNetwork as keyof typeof TOKEN_ADDRESSES] || {}
+    return Object.keys(tokens).find(symbol =>
+      tokens[symbol as keyof typeof tokens].toLowerCase() === tokenAddress.toLowerCase()
+    ) || tokenAddress
+  }
+
+  /**
+   * Turn a tracked transaction's final state into a PaymentResult
+   */
+  private getTrackedResult(transaction: TrackedTransaction, fallbackError: string): PaymentResult {
+    if (transaction.state === 'finalized') {
+      return {
+        success: true,
+        transactionHash: transaction.hash
+      }
+    }
+
+    return {
+      success: false,
+      transactionHash: transaction.hash,
+      error: transaction.error || fallbackError,
+      errorCode: transaction.errorCode,
+      suggestion: transaction.suggestion
+    }
+  }
+
+  /**
+   * Process payroll for multiple employees
+   * onUpdate receives every lifecycle change, from signature request to finality
+   */
+  async processPayroll(
+    employeeAddresses: string[],
+    feeSpeed: FeeSpeed = 'medium',
+    onUpdate?: TransactionListener
+  ): Promise<PaymentResult> {
+    try {
+      const contract = this.getContract()
+      
+      // Estimate gas and fees
+      const [gasEstimate, feeData] = await Promise.all([
+        contract.estimateGas.processPayroll(employeeAddresses),
+        this.getFeeData(),
+      ])
+
+      // Execute and track transaction
+      const transaction = await transactionTracker.track('Payroll', () => contract.processPayroll(employeeAddresses, {
+        gasLimit: gasEstimate.mul(PAYROLL_BATCH.GAS_BUFFER).div(100),
+        ...this.getFeeOverrides(feeData, feeSpeed),
+      }), onUpdate)
+
+      return this.getTrackedResult(transaction, 'Failed to process payroll')
+    } catch (error: any) {
+      console.error('❌ Failed to process payroll:', error)
+      return this.getErrorResult(error)
+    }
+  }
+
+  /**
+   * Process individual payment
+   */
+  async processIndividualPayment(employeeAddress: string, onUpdate?: TransactionListener): Promise<PaymentResult> {
+    try {
+      const contract = this.getContract()
+      
+      // Estimate gas
+      const gasEstimate = await contract.estimateGas.processIndividualPayment(employeeAddress)
+
+      // Execute and track transaction
+      const transaction = await transactionTracker.track('Individual payment', () => contract.processIndividualPayment(employeeAddress, {
+        gasLimit: gasEstimate.mul(120).div(100), // Add 20% buffer
+      }), onUpdate)
+
+      return this.getTrackedResult(transaction, 'Failed to process payment')
+    } catch (error: any) {
+      console.error('❌ Failed to process individual payment:', error)
+      return this.getErrorResult(error)
+    }
+  }
+
+  /**
+   * Pay a custom part of an employee's accrued salary
+   */
+  async processPartialPayment(
+    employeeAddress: string,
+    amount: string,
+    onUpdate?: TransactionListener
+  ): Promise<PaymentResult> {
+    try {
+      const contract = this.getContract()
+      const employeeData = await contract.employees(employeeAddress)
+      const decimals = await this.getTokenDecimals(employeeData.preferredToken)
+      const paymentAmount = ethers.utils.parseUnits(amount, decimals)
+
+      const gasEstimate = await contract.estimateGas.processPartialPayment(employeeAddress, paymentAmount)
+
+      const transaction = await transactionTracker.track('Partial payment', () => contract.processPartialPayment(employeeAddress, paymentAmount, {
+        gasLimit: gasEstimate.mul(120).div(100), // Add 20% buffer
+      }), onUpdate)
+
+      return this.getTrackedResult(transaction, 'Failed to process partial payment')
+    } catch (error: any) {
+      console.error('❌ Failed to process partial payment:', error)
+      return this.getErrorResult(error)
+    }
+  }
+
+  /**
+   * Create a bonus for an employee in any authorized token
+   */
+  async createBonus(
+    recipient: string,
+    amount: string,
+    reason: string,
+    tokenAddress: string,
+    onUpdate?: TransactionListener
+  ): Promise<PaymentResult> {
+    try {
+      const contract = this.getContract()
+      const decimals = await this.getTokenDecimals(tokenAddress)
+      const bonusAmount = ethers.utils.parseUnits(amount, decimals)
+
+      const gasEstimate = await contract.estimateGas.createBonus(recipient, bonusAmount, reason, tokenAddress)
+
+      const transaction = await transactionTracker.track('Create bonus', () => contract.createBonus(recipient, bonusAmount, reason, tokenAddress, {
+        gasLimit: gasEstimate.mul(120).div(100), // Add 20% buffer
+      }), onUpdate)
+
+      return this.getTrackedResult(transaction, 'Failed to create bonus')
+    } catch (error: any) {
+      console.error('❌ Failed to create bonus:', error)
+      return this.getErrorResult(error)
+    }
+  }
+
+  /**
+   * Pay out a pending bonus from the contract balance
+   */
+  async distributeBonus(bonusId: number, onUpdate?: TransactionListener): Promise<PaymentResult> {
+    try {
+      const contract = this.getContract()
+      const gasEstimate = await contract.estimateGas.distributeBonus(bonusId)
+
+      const transaction = await transactionTracker.track(`Distribute bonus #${bonusId}`, () => contract.distributeBonus(bonusId, {
+        gasLimit: gasEstimate.mul(120).div(100), // Add 20% buffer
+      }), onUpdate)
+
+      return this.getTrackedResult(transaction, 'Failed to distribute bonus')
+    } catch (error: any) {
+      console.error('❌ Failed to distribute bonus:', error)
+      return this.getErrorResult(error)
+    }
+  }
+
+  /**
+   * Get the IDs of every bonus created for an employee
+   */
+  async getEmployeeBonuses(address: string): Promise<number[]> {
+    try {
+      const contract = this.getContract()
+      const bonusIds: ethers.BigNumber[] = await contract.getEmployeeBonuses(address)
+      return bonusIds.map(bonusId => bonusId.toNumber())
+    } catch (error) {
+      console.error('Error getting employee bonuses:', error)
+      return []
+    }
+  }
+
+  /**
+   * Get a bonus as stored on-chain
+   */
+  async getBonus(bonusId: number): Promise<OnChainBonus | null> {
+    try {
+      const contract = this.getContract()
+      const bonus = await contract.getBonus(bonusId)
+      const decimals = await this.getTokenDecimals(bonus.token)
+
+      return {
+        bonusId,
+        recipient: bonus.recipient,
+        amount: ethers.utils.formatUnits(bonus.amount, decimals),
+        reason: bonus.reason,
+        token: bonus.token,
+        tokenSymbol: this.getTokenSymbol(bonus.token),
+        timestamp: bonus.timestamp.toNumber(),
+        distributed: bonus.distributed,
+      }
+    } catch (error) {
+      console.error('Error getting bonus:', error)
+      return null
+    }
+  }
+
+  /**
+   * Decode the bonus events emitted by a mined transaction
+   */
+  async getBonusReceipt(transactionHash: string): Promise<BonusEvents> {
+    if (!this.provider) {
+      throw new Error(ERROR_MESSAGES.WALLET_NOT_CONNECTED)
+    }
+
+    const receipt = await this.provider.waitForTransaction(transactionHash)
+    if (receipt.status !== 1) {
+      throw new Error(ERROR_MESSAGES.TRANSACTION_FAILED)
+    }
+
+    return this.decodeBonusLogs(receipt.logs)
+  }
+
+  /**
+   * Every bonus event the contract has emitted, for a full resync
+   */
+  async getBonusEvents(): Promise<BonusEvents> {
+    const contract = this.getContract()
+    const [created, distributed] = await Promise.all([
+      this.queryEventsSinceDeployment(contract, contract.filters.BonusCreated()),
+      this.queryEventsSinceDeployment(contract, contract.filters.BonusDistributed()),
+    ])
+
+    return this.decodeBonusLogs([...created, ...distributed])
+  }
+
+  private async decodeBonusLogs(logs: ethers.providers.Log[]): Promise<BonusEvents> {
+    const contract = this.getContract()
+    const bonuses = new Map<number, OnChainBonus | null>()
+    const blockTimes = new Map<number, number>()
+    const events: BonusEvents = { created: [], distributed: [] }
+
+    for (const log of logs) {
+      if (log.address.toLowerCase() !== contract.address.toLowerCase()) continue
+
+      let parsed: ethers.utils.LogDescription
+      try {
+        parsed = contract.interface.parseLog(log)
+      } catch {
+        continue // Not an event from this ABI
+      }
+      if (parsed.name !== 'BonusCreated' && parsed.name !== 'BonusDistributed') continue
+
+      // The events carry no token, so read the bonus itself
+      const bonusId = parsed.args.bonusId.toNumber()
+      if (!bonuses.has(bonusId)) {
+        bonuses.set(bonusId, await this.getBonus(bonusId))
+      }
+      if (!blockTimes.has(log.blockNumber)) {
+        blockTimes.set(log.blockNumber, (await this.provider!.getBlock(log.blockNumber)).timestamp)
+      }
+
+      const bonus = bonuses.get(bonusId)
+      if (!bonus) continue
+
+      const event: BonusEvent = {
+        ...bonus,
+        transactionHash: log.transactionHash,
+        blockNumber: log.blockNumber,
+        blockTimestamp: blockTimes.get(log.blockNumber)!,
+        logIndex: log.logIndex,
+      }
+      if (parsed.name === 'BonusCreated') {
+        events.created.push(event)
+      } else {
+        events.distributed.push(event)
+      }
+    }
+
+    return events
+  }
+
+  /**
+   * Resend a stuck tracked transaction with higher fees
+   */
+  async speedUpTransaction(transactionId: string): Promise<PaymentResult> {
+    try {
+      const transactionHash = await transactionTracker.speedUp(transactionId)
+      return {
+        success: true,
+        transactionHash
+      }
+    } catch (error: any) {
+      console.error('❌ Failed to speed up transaction:', error)
+      return this.getErrorResult(error)
+    }
+  }
+
+  /**
+   * Cancel a stuck tracked transaction by replacing it with an empty transfer
+   */
+  async cancelTransaction(transactionId: string): Promise<PaymentResult> {
+    try {
+      const transactionHash = await transactionTracker.cancel(transactionId)
+      return {
+        success: true,
+        transactionHash
+      }
+    } catch (error: any) {
+      console.error('❌ Failed to cancel transaction:', error)
+      return this.getErrorResult(error)
+    }
+  }
+
+  /**
+   * Check if token is authorized
+   */
+  async isTokenAuthorized(tokenAddress: string): Promise<boolean> {
+    try {
+      const contract = this.getContract()
+      return await contract.authorizedTokens(tokenAddress)
+    } catch (error) {
+      console.error('Error checking token authorization:', error)
+      return false
+    }
+  }
+
+  /**
+   * Check whether an employee subdomain is free under the company's ENS name
+   * @dev Mirrors the node the contract derives in _createENSSubdomain
+   */
+  async isSubdomainAvailable(subdomain: string): Promise<boolean> {
+    const contract = this.getContract()
+    const companyNode = await contract.companyNode()
+    const node = ethers.utils.solidityKeccak256(['bytes32', 'bytes32'], [companyNode, ethers.utils.id(subdomain)])
+    const owner = await contract.resolveENSToEmployee(node)
+    return owner === ethers.constants.AddressZero
+  }
+
+  /**
+   * Set token authorization
+   */
+  async setTokenAuthorization(tokenAddress: string, authorized: boolean): Promise<PaymentResult> {
+    try {
+      const contract = this.getContract()
+      
+      const tx = await contract.setTokenAuthorization(tokenAddress, authorized, {
+        gasLimit: DEFAULTS.GAS_LIMIT,
+      })
+
+      console.log('📝 Token authorization transaction sent:', tx.hash)
+      
+      const receipt = await tx.wait()
+      console.log('✅ Token authorization updated:', receipt.transactionHash)
+
+      return {
+        success: true,
+        transactionHash: receipt.transactionHash
+      }
+    } catch (error: any) {
+      console.error('❌ Failed to set token authorization:', error)
+      return this.getErrorResult(error)
+    }
+  }
+
+  /**
+   * Get contract balance for a token
+   */
+  async getContractBalance(tokenAddress: string): Promise<string> {
+    try {
+      if (!this.provider || !this.currentNetwork) {
+        console.log('❌ BlockchainService: No provider or network')
+        return '0'
+      }
+
+      const contractInfo = this.getContractInfo()
+      if (!contractInfo) {
+        console.log('❌ BlockchainService: No contract info')
+        return '0'
+      }
+
+      console.log('🔍 BlockchainService: Getting balance for contract:', contractInfo.address)
+      console.log('🔍 BlockchainService: Token address:', tokenAddress)
+      console.log('🔍 BlockchainService: Current network:', this.currentNetwork)
+
+      if (tokenAddress === TOKEN_ADDRESSES[this.currentNetwork as keyof typeof TOKEN_ADDRESSES].ETH) {
+        // ETH balance
+        console.log('🔍 BlockchainService: Getting ETH balance for contract address:', contractInfo.address)
+        const balance = await this.provider.getBalance(contractInfo.address)
+        const formattedBalance = ethers.utils.formatEther(balance)
+        console.log('✅ BlockchainService: Contract ETH balance:', formattedBalance)
+        return formattedBalance
+      } else {
+        // ERC20 token balance
+        console.log('🔍 BlockchainService: Getting ERC20 token balance')
+        const tokenContract = new ethers.Contract(
+          tokenAddress,
+          ['function balanceOf(address) view returns (uint256)'],
+          this.provider
+        )
+        const [balance, decimals] = await Promise.all([
+          tokenContract.balanceOf(contractInfo.address),
+          this.getTokenDecimals(tokenAddress),
+        ])
+        const formattedBalance = ethers.utils.formatUnits(balance, decimals)
+        console.log('✅ BlockchainService: Contract token balance:', formattedBalance)
+        return formattedBalance
+      }
+    } catch (error) {
+      console.error('❌ BlockchainService: Error getting contract balance:', error)
+      return '0'
+    }
+  }
+
+  /**
+   * Get the connected wallet's balance for a token
+   */
+  async getWalletBalance(tokenAddress: string): Promise<string> {
+    try {
+      if (!this.provider || !this.signer) return '0'
+
+      const walletAddress = await this.signer.getAddress()
+      if (tokenAddress === ethers.constants.AddressZero) {
+        return ethers.utils.formatEther(await this.provider.getBalance(walletAddress))
+      }
+
+      const tokenContract = new ethers.Contract(
+        tokenAddress,
+        ['function balanceOf(address) view returns (uint256)'],
+        this.provider
+      )
+      const [balance, decimals] = await Promise.all([
+        tokenContract.balanceOf(walletAddress),
+        this.getTokenDecimals(tokenAddress),
+      ])
+      return ethers.utils.formatUnits(balance, decimals)
+    } catch (error) {
+      console.error('Error getting wallet balance:', error)
+      return '0'
+    }
+  }
+
+  /**
+   * Fund the payroll contract from the connected wallet
+   * ETH is sent directly; ERC20 tokens are approved and deposited via depositToken
+   */
+  async fundContract(tokenAddress: string, amount: string): Promise<PaymentResult> {
+    try {
+      const contract = this.getContract()
+      const decimals = await this.getTokenDecimals(tokenAddress)
+      const value = ethers.utils.parseUnits(amount, decimals)
+
+      if (tokenAddress === ethers.constants.AddressZero) {
+        const tx = await this.signer!.sendTransaction({ to: contract.address, value })
+        console.log('📝 Contract funding transaction sent:', tx.hash)
+
+        const receipt = await tx.wait()
+        console.log('✅ Contract funded with ETH:', receipt.transactionHash)
+
+        return {
+          success: true,
+          transactionHash: receipt.transactionHash
+        }
+      }
+
+      const tokenContract = new ethers.Contract(
+        tokenAddress,
+        [
+          'function allowance(address owner, address spender) view returns (uint256)',
+          'function approve(address spender, uint256 amount) returns (bool)',
+        ],
+        this.signer!
+      )
+
+      const allowance = await tokenContract.allowance(await this.signer!.getAddress(), contract.address)
+      if (allowance.lt(value)) {
+        const approveTx = await tokenContract.approve(contract.address, value)
+        console.log('📝 Token approval transaction sent:', approveTx.hash)
+        await approveTx.wait()
+      }
+
+      const tx = await contract.depositToken(tokenAddress, value)
+      console.log('📝 Token deposit transaction sent:', tx.hash)
+
+      const receipt = await tx.wait()
+      console.log('✅ Contract funded with token:', receipt.transactionHash)
+
+      return {
+        success: true,
+        transactionHash: receipt.transactionHash
+      }
+    } catch (error: any) {
+      console.error('❌ Failed to fund contract:', error)
+      return this.getErrorResult(error)
+    }
+  }
+
+  /**
+   * Check if contract is paused
+   */
+  async isPaused(): Promise<boolean> {
+    try {
+      const contract = this.getContract()
+      return await contract.paused()
+    } catch (error) {
+      console.error('Error checking pause status:', error)
+      return false
+    }
+  }
+
+  /**
+   * Pause contract
+   */
+  async pause(): Promise<PaymentResult> {
+    try {
+      const contract = this.getContract()
+      
+      const tx = await contract.pause({
+        gasLimit: DEFAULTS.GAS_LIMIT,
+      })
+
+      console.log('📝 Pause transaction sent:', tx.hash)
+      
+      const receipt = await tx.wait()
+      console.log('✅ Contract paused:', receipt.transactionHash)
+
+      return {
+        success: true,
+        transactionHash: receipt.transactionHash
+      }
+    } catch (error: any) {
+      console.error('❌ Failed to pause contract:', error)
+      return this.getErrorResult(error)
+    }
+  }
+
+  /**
+   * Unpause contract
    */
   async unpause(): Promise<PaymentResult> {
     try {
@@ -596,10 +1819,7 @@ export class BlockchainService {
       }
     } catch (error: any) {
       console.error('❌ Failed to unpause contract:', error)
-      return {
-        success: false,
-        error: error.message || 'Failed to unpause contract'
-      }
+      return this.getErrorResult(error)
     }
   }
 
@@ -629,10 +1849,7 @@ export class BlockchainService {
       }
     } catch (error: any) {
       console.error('❌ Failed to emergency withdraw:', error)
-      return {
-        success: false,
-        error: error.message || 'Failed to emergency withdraw'
-      }
+      return this.getErrorResult(error)
     }
   }
 }
@@ -0,0 +1,364 @@
+/**
+ * Transaction tracker for Web3 Payroll System
+ * Follows a transaction from the signature request until it is final,
+ * including speed-up and cancel replacements
+ * @author Dev Austin
+ */
+
+import { ethers } from 'ethers'
+import {
+  ERROR_MESSAGES,
+  ErrorCode,
+  TRANSACTION_CONFIRMATIONS,
+  TRANSACTION_REPLACEMENT
+} from '../contracts/constants'
+import { decodeContractError } from '../utils/revertDecoder'
+
+export type TrackedTransactionState =
+  | 'awaiting_signature'
+  | 'broadcast'
+  | 'pending'
+  | 'mined'
+  | 'confirming'
+  | 'finalized'
+  | 'reverted'
+  | 'cancelled'
+  | 'failed'
+
+export interface TrackedTransaction {
+  id: string
+  label: string
+  state: TrackedTransactionState
+  hash?: string
+  nonce?: number
+  blockNumber?: number
+  gasUsed?: string
+  confirmations: number
+  requiredConfirmations: number
+  replacedHashes: string[] // earlier hashes, oldest first
+  replacement?: 'speed_up' | 'cancel'
+  error?: string
+  errorCode?: ErrorCode
+  suggestion?: string
+  updatedAt: number
+}
+
+export type TransactionListener = (transaction: TrackedTransaction) => void | Promise<void>
+
+export const FINAL_TRANSACTION_STATES: TrackedTransactionState[] = ['finalized', 'reverted', 'cancelled', 'failed']
+
+export const TRANSACTION_STATE_LABELS: Record<TrackedTransactionState, string> = {
+  awaiting_signature: 'Awaiting signature in wallet',
+  broadcast: 'Broadcast to the network',
+  pending: 'Pending in mempool',
+  mined: 'Mined',
+  confirming: 'Waiting for confirmations',
+  finalized: 'Finalized',
+  reverted: 'Reverted',
+  cancelled: 'Cancelled',
+  failed: 'Failed',
+}
+
+/**
+ * Transaction tracker class
+ */
+export class TransactionTracker {
+  private provider: ethers.providers.Web3Provider | null = null
+  private transactions: Map<string, TrackedTransaction> = new Map()
+  private responses: Map<string, ethers.providers.TransactionResponse> = new Map()
+  private callbacks: Map<string, TransactionListener> = new Map()
+  private listeners: Set<TransactionListener> = new Set()
+  private nextId = 1
+
+  constructor() {
+    this.initializeProvider()
+  }
+
+  /**
+   * Initialize provider
+   */
+  private initializeProvider() {
+    if (typeof window !== 'undefined' && window.ethereum) {
+      this.provider = new ethers.providers.Web3Provider(window.ethereum as any)
+    }
+  }
+
+  private getProvider(): ethers.providers.Web3Provider {
+    if (!this.provider) {
+      throw new Error(ERROR_MESSAGES.WALLET_NOT_CONNECTED)
+    }
+    return this.provider
+  }
+
+  /**
+   * Listen to every tracked transaction update
+   */
+  subscribe(listener: TransactionListener): () => void {
+    this.listeners.add(listener)
+    return () => {
+      this.listeners.delete(listener)
+    }
+  }
+
+  /**
+   * Get a tracked transaction by ID
+   */
+  get(id: string): TrackedTransaction | undefined {
+    return this.transactions.get(id)
+  }
+
+  /**
+   * Whether a transaction can still be sped up or cancelled
+   */
+  isReplaceable(id: string): boolean {
+    const transaction = this.transactions.get(id)
+    return !!transaction && (transaction.state === 'broadcast' || transaction.state === 'pending')
+  }
+
+  /**
+   * Apply changes and notify subscribers and the caller that started the transaction
+   */
+  private async update(id: string, changes: Partial<TrackedTransaction>): Promise<TrackedTransaction> {
+    const transaction = { ...this.transactions.get(id)!, ...changes, updatedAt: Date.now() }
+    this.transactions.set(id, transaction)
+
+    this.listeners.forEach(listener => listener(transaction))
+    const onUpdate = this.callbacks.get(id)
+    if (onUpdate) {
+      await onUpdate(transaction)
+    }
+    return transaction
+  }
+
+  /**
+   * Send a transaction and follow it until it is finalized, reverted or cancelled.
+   * Never throws: failures are reported through the returned state.
+   */
+  async track(
+    label: string,
+    send: () => Promise<ethers.providers.TransactionResponse>,
+    onUpdate?: TransactionListener
+  ): Promise<TrackedTransaction> {
+    const id = `tx-${this.nextId++}`
+    this.transactions.set(id, {
+      id,
+      label,
+      state: 'awaiting_signature',
+      confirmations: 0,
+      requiredConfirmations: 1,
+      replacedHashes: [],
+      updatedAt: Date.now(),
+    })
+    if (onUpdate) {
+      this.callbacks.set(id, onUpdate)
+    }
+    await this.update(id, {})
+
+    let tx: ethers.providers.TransactionResponse
+    try {
+      tx = await send()
+    } catch (error: any) {
+      const failed = await this.update(id, { state: 'failed', ...this.getErrorFields(error) })
+      this.callbacks.delete(id)
+      return failed
+    }
+
+    try {
+      const provider = this.getProvider()
+      const { chainId } = await provider.getNetwork()
+      const requiredConfirmations = TRANSACTION_CONFIRMATIONS[chainId as keyof typeof TRANSACTION_CONFIRMATIONS] || 2
+
+      this.responses.set(id, tx)
+      console.log(`📝 ${label} transaction sent:`, tx.hash)
+      await this.update(id, { state: 'broadcast', hash: tx.hash, nonce: tx.nonce, requiredConfirmations })
+
+      // The node knows about it once it is in the mempool
+      if (await provider.getTransaction(tx.hash)) {
+        await this.update(id, { state: 'pending' })
+      }
+
+      const receipt = await this.waitForReceipt(id, tx)
+      if (!receipt) {
+        return this.transactions.get(id)!
+      }
+
+      if (receipt.status !== 1) {
+        return this.update(id, {
+          state: 'reverted',
+          hash: receipt.transactionHash,
+          blockNumber: receipt.blockNumber,
+          gasUsed: receipt.gasUsed.toString(),
+          ...(await this.getRevertFields(tx, receipt.blockNumber)),
+        })
+      }
+
+      await this.update(id, {
+        state: 'mined',
+        hash: receipt.transactionHash,
+        blockNumber: receipt.blockNumber,
+        gasUsed: receipt.gasUsed.toString(),
+        confirmations: 1,
+      })
+
+      // Count confirmations one block at a time
+      for (let confirmations = 2; confirmations <= requiredConfirmations; confirmations++) {
+        await this.update(id, { state: 'confirming' })
+        await provider.waitForTransaction(receipt.transactionHash, confirmations)
+        await this.update(id, { confirmations })
+      }
+
+      console.log(`✅ ${label} finalized:`, receipt.transactionHash)
+      return this.update(id, { state: 'finalized' })
+    } catch (error: any) {
+      console.error(`❌ ${label} failed:`, error)
+      return this.update(id, { state: 'failed', ...this.getErrorFields(error) })
+    } finally {
+      this.responses.delete(id)
+      this.callbacks.delete(id)
+    }
+  }
+
+  private getErrorFields(error: any): Pick<TrackedTransaction, 'error' | 'errorCode' | 'suggestion'> {
+    const decoded = decodeContractError(error)
+    return { error: decoded.message, errorCode: decoded.code, suggestion: decoded.suggestion }
+  }
+
+  /**
+   * Receipts carry no revert reason, so replay the call at the block it was mined in
+   */
+  private async getRevertFields(
+    tx: ethers.providers.TransactionResponse,
+    blockNumber: number
+  ): Promise<Pick<TrackedTransaction, 'error' | 'errorCode' | 'suggestion'>> {
+    try {
+      await this.getProvider().call({ from: tx.from, to: tx.to, data: tx.data, value: tx.value }, blockNumber)
+    } catch (error) {
+      return this.getErrorFields(error)
+    }
+    return { error: ERROR_MESSAGES.TRANSACTION_FAILED, errorCode: 'TRANSACTION_FAILED' }
+  }
+
+  /**
+   * Wait for the receipt, following replacements made here or in the wallet.
+   * Returns null if the transaction was cancelled.
+   */
+  private async waitForReceipt(
+    id: string,
+    tx: ethers.providers.TransactionResponse
+  ): Promise<ethers.providers.TransactionReceipt | null> {
+    try {
+      return await tx.wait(1)
+    } catch (error: any) {
+      if (error?.code === ethers.errors.CALL_EXCEPTION && error.receipt) {
+        return error.receipt
+      }
+
+      if (error?.code !== ethers.errors.TRANSACTION_REPLACED) {
+        throw error
+      }
+
+      const current = this.transactions.get(id)!
+      const replacedHashes = current.replacedHashes.includes(tx.hash)
+        ? current.replacedHashes
+        : [...current.replacedHashes, tx.hash]
+
+      if (error.cancelled) {
+        await this.update(id, {
+          state: 'cancelled',
+          hash: error.replacement.hash,
+          replacedHashes,
+          error: ERROR_MESSAGES.TRANSACTION_CANCELLED,
+        })
+        return null
+      }
+
+      // Repriced: same call with higher fees, so its receipt is ours
+      await this.update(id, { hash: error.replacement.hash, replacedHashes })
+      return error.receipt
+    }
+  }
+
+  /**
+   * Resend a pending transaction with the same nonce and higher fees
+   */
+  async speedUp(id: string): Promise<string> {
+    const tx = this.getReplaceable(id)
+    const replacement = await this.sendReplacement(tx, {
+      to: tx.to,
+      data: tx.data,
+      value: tx.value,
+      gasLimit: tx.gasLimit,
+    })
+
+    await this.recordReplacement(id, replacement, 'speed_up')
+    return replacement.hash
+  }
+
+  /**
+   * Replace a pending transaction with an empty transfer to self
+   */
+  async cancel(id: string): Promise<string> {
+    const tx = this.getReplaceable(id)
+    const replacement = await this.sendReplacement(tx, {
+      to: tx.from,
+      data: '0x',
+      value: 0,
+      gasLimit: TRANSACTION_REPLACEMENT.CANCEL_GAS_LIMIT,
+    })
+
+    await this.recordReplacement(id, replacement, 'cancel')
+    return replacement.hash
+  }
+
+  private getReplaceable(id: string): ethers.providers.TransactionResponse {
+    const tx = this.responses.get(id)
+    if (!tx || !this.isReplaceable(id)) {
+      throw new Error(ERROR_MESSAGES.TRANSACTION_NOT_REPLACEABLE)
+    }
+    return tx
+  }
+
+  /**
+   * Send a transaction with the original nonce, bumping fees enough for nodes to accept it
+   */
+  private async sendReplacement(
+    tx: ethers.providers.TransactionResponse,
+    request: ethers.providers.TransactionRequest
+  ): Promise<ethers.providers.TransactionResponse> {
+    const provider = this.getProvider()
+    const feeData = await provider.getFeeData()
+    const bump = (value?: ethers.BigNumber | null, current?: ethers.BigNumber | null) => {
+      const bumped = (value || ethers.constants.Zero).mul(TRANSACTION_REPLACEMENT.FEE_BUMP).div(100)
+      return current && current.gt(bumped) ? current : bumped
+    }
+
+    const fees = tx.maxFeePerGas
+      ? {
+          maxFeePerGas: bump(tx.maxFeePerGas, feeData.maxFeePerGas),
+          maxPriorityFeePerGas: bump(tx.maxPriorityFeePerGas, feeData.maxPriorityFeePerGas),
+        }
+      : { gasPrice: bump(tx.gasPrice, feeData.gasPrice) }
+
+    return provider.getSigner(tx.from).sendTransaction({ ...request, ...fees, nonce: tx.nonce })
+  }
+
+  private async recordReplacement(
+    id: string,
+    replacement: ethers.providers.TransactionResponse,
+    kind: 'speed_up' | 'cancel'
+  ) {
+    const current = this.transactions.get(id)!
+    console.log(`🔁 ${current.label} ${kind === 'cancel' ? 'cancellation' : 'speed-up'} sent:`, replacement.hash)
+
+    // The original wait() picks up the replacement once it is mined
+    await this.update(id, {
+      hash: replacement.hash,
+      replacedHashes: [...current.replacedHashes, current.hash!],
+      replacement: kind,
+      state: 'pending',
+    })
+  }
+}
+
+// Export singleton instance
+export const transactionTracker = new TransactionTracker()
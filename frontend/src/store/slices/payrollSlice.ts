@@ -39,7 +39,12 @@ const payrollSlice = createSlice({
       state.payments = action.payload
     },
     addPayment: (state, action: PayloadAction<PaymentRecord>) => {
-      state.payments.unshift(action.payload)
+      const index = state.payments.findIndex(p => p.id === action.payload.id)
+      if (index >= 0) {
+        state.payments[index] = action.payload
+      } else {
+        state.payments.unshift(action.payload)
+      }
     },
     updatePaymentStatus: (state, action: PayloadAction<{ id: string; status: PaymentRecord['status']; transactionHash?: string }>) => {
       const payment = state.payments.find(p => p.id === action.payload.id)
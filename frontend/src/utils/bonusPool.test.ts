@@ -0,0 +1,109 @@
+import { describe, expect, it } from '@jest/globals'
+import { ethers } from 'ethers'
+import { allocateBonusPool, parseScoreCsv } from './bonusPool'
+
+const ALICE = '0x1111111111111111111111111111111111111111'
+const BOB = '0x2222222222222222222222222222222222222222'
+const CAROL = '0x3333333333333333333333333333333333333333'
+
+const sumUnits = (amounts: string[], decimals: number) => amounts
+  .reduce((sum, amount) => sum.add(ethers.utils.parseUnits(amount, decimals)), ethers.constants.Zero)
+
+describe('allocateBonusPool', () => {
+  it('splits by weight', () => {
+    const allocations = allocateBonusPool('300', 6, [
+      { walletAddress: ALICE, weight: '2000' },
+      { walletAddress: BOB, weight: '1000' },
+    ])
+
+    expect(allocations.map(item => item.amount)).toEqual(['200.0', '100.0'])
+    expect(allocations.map(item => item.share)).toEqual([0.666666, 0.333333])
+  })
+
+  it('adds up to the pool exactly, giving leftover units to the largest remainders', () => {
+    const allocations = allocateBonusPool('0.000001', 6, [
+      { walletAddress: ALICE, weight: '1' },
+      { walletAddress: BOB, weight: '1' },
+      { walletAddress: CAROL, weight: '2' },
+    ])
+
+    expect(allocations.map(item => item.amount)).toEqual(['0.0', '0.0', '0.000001'])
+  })
+
+  it('breaks remainder ties by the lower wallet address', () => {
+    const allocations = allocateBonusPool('1', 0, [
+      { walletAddress: CAROL, weight: '1' },
+      { walletAddress: BOB, weight: '1' },
+      { walletAddress: ALICE, weight: '1' },
+    ])
+
+    expect(allocations.map(item => item.amount)).toEqual(['0', '0', '1'])
+  })
+
+  it('never loses or creates units on uneven splits', () => {
+    const allocations = allocateBonusPool('1000', 18, [
+      { walletAddress: ALICE, weight: '3.3' },
+      { walletAddress: BOB, weight: '3.3' },
+      { walletAddress: CAROL, weight: '3.4' },
+    ])
+
+    expect(sumUnits(allocations.map(item => item.amount), 18).eq(ethers.utils.parseUnits('1000', 18))).toBe(true)
+  })
+
+  it('gives nothing to zero weights', () => {
+    const allocations = allocateBonusPool('10', 18, [
+      { walletAddress: ALICE, weight: '0' },
+      { walletAddress: BOB, weight: '5' },
+    ])
+
+    expect(allocations.map(item => item.amount)).toEqual(['0.0', '10.0'])
+  })
+
+  it('rejects weights that add up to zero', () => {
+    expect(() => allocateBonusPool('10', 18, [{ walletAddress: ALICE, weight: '0' }]))
+      .toThrow('Weights must add up to more than zero')
+  })
+})
+
+describe('parseScoreCsv', () => {
+  it('reads scores keyed by lowercased wallet', () => {
+    const checksummed = ethers.utils.getAddress('0xabcdefabcdefabcdefabcdefabcdefabcdefabcd')
+    const result = parseScoreCsv(`Wallet Address,Score\n${checksummed},4.5\n"${BOB}","3"\n`)
+
+    expect(result.errors).toEqual([])
+    expect(result.scores).toEqual({
+      '0xabcdefabcdefabcdefabcdefabcdefabcdefabcd': '4.5',
+      [BOB]: '3',
+    })
+  })
+
+  it('accepts the alternative column names', () => {
+    const result = parseScoreCsv(`address,weight\r\n${ALICE},2`)
+    expect(result.scores).toEqual({ [ALICE]: '2' })
+  })
+
+  it('reports invalid, negative and duplicate rows without dropping the rest', () => {
+    const result = parseScoreCsv([
+      'wallet_address,score',
+      'not-a-wallet,1',
+      `${ALICE},-1`,
+      `${BOB},2`,
+      `${BOB},3`,
+    ].join('\n'))
+
+    expect(result.scores).toEqual({ [BOB]: '2' })
+    expect(result.errors).toEqual([
+      'Row 2: invalid wallet address "not-a-wallet"',
+      'Row 3: score must be a non-negative number',
+      `Row 5: duplicate wallet ${BOB}`,
+    ])
+  })
+
+  it('needs a header and at least one row', () => {
+    expect(parseScoreCsv('wallet_address,score').errors).toEqual(['CSV file must contain headers and at least one data row.'])
+  })
+
+  it('needs a wallet and a score column', () => {
+    expect(parseScoreCsv(`wallet,name\n${ALICE},Alice`).errors).toEqual(['CSV needs a wallet_address column and a score column.'])
+  })
+})
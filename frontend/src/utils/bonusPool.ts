@@ -0,0 +1,126 @@
+/**
+ * Bonus pool utilities
+ * Splits a fixed pool across employees by weight, exactly, in token base units
+ * @author Dev Austin
+ */
+
+import { ethers } from 'ethers'
+
+export type BonusPoolMethod = 'salary' | 'equal' | 'score'
+
+export interface PoolWeight {
+  walletAddress: string
+  weight: string // any non-negative decimal: salary, score or 1 for an equal split
+}
+
+export interface PoolAllocation {
+  walletAddress: string
+  weight: string
+  share: number // fraction of the pool, for display only
+  amount: string // formatted with the token's decimals
+}
+
+export interface ScoreParseResult {
+  scores: Record<string, string> // lowercased wallet address -> score
+  errors: string[]
+}
+
+// Weights are scaled to integers so decimals in salaries or scores divide exactly
+const WEIGHT_DECIMALS = 18
+
+const WALLET_COLUMNS = ['wallet_address', 'walletaddress', 'wallet', 'address']
+const SCORE_COLUMNS = ['score', 'weight', 'performance_score']
+
+/**
+ * Split `total` by weight using the largest remainder method.
+ * Every allocation is floored to base units, then the leftover units go one at a time
+ * to the largest fractional remainders; ties go to the lower wallet address,
+ * so the same inputs always produce the same split and the amounts add up to `total` exactly.
+ */
+export const allocateBonusPool = (total: string, decimals: number, weights: PoolWeight[]): PoolAllocation[] => {
+  const totalUnits = ethers.utils.parseUnits(total, decimals)
+  const scaled = weights.map(item => ({
+    ...item,
+    units: ethers.utils.parseUnits(item.weight, WEIGHT_DECIMALS),
+  }))
+  const weightSum = scaled.reduce((sum, item) => sum.add(item.units), ethers.constants.Zero)
+
+  if (weightSum.isZero()) {
+    throw new Error('Weights must add up to more than zero')
+  }
+
+  const allocations = scaled.map(item => {
+    const product = totalUnits.mul(item.units)
+    return {
+      ...item,
+      amount: product.div(weightSum),
+      remainder: product.mod(weightSum),
+    }
+  })
+
+  const allocated = allocations.reduce((sum, item) => sum.add(item.amount), ethers.constants.Zero)
+  let leftover = totalUnits.sub(allocated).toNumber() // always fewer than weights.length
+
+  const byRemainder = [...allocations].sort((a, b) => {
+    if (!a.remainder.eq(b.remainder)) return a.remainder.gt(b.remainder) ? -1 : 1
+    return a.walletAddress.toLowerCase() < b.walletAddress.toLowerCase() ? -1 : 1
+  })
+  for (const item of byRemainder) {
+    if (leftover === 0) break
+    item.amount = item.amount.add(1)
+    leftover--
+  }
+
+  return allocations.map(item => ({
+    walletAddress: item.walletAddress,
+    weight: item.weight,
+    share: item.units.mul(1000000).div(weightSum).toNumber() / 1000000,
+    amount: ethers.utils.formatUnits(item.amount, decimals),
+  }))
+}
+
+/**
+ * Read a CSV of wallet addresses and scores
+ */
+export const parseScoreCsv = (text: string): ScoreParseResult => {
+  const lines = text.split(/\r?\n/).filter(line => line.trim())
+  const errors: string[] = []
+  const scores: Record<string, string> = {}
+
+  if (lines.length < 2) {
+    return { scores, errors: ['CSV file must contain headers and at least one data row.'] }
+  }
+
+  const headers = lines[0].split(',').map(h => h.trim().replace(/"/g, '').toLowerCase().replace(/\s+/g, '_'))
+  const walletIndex = headers.findIndex(header => WALLET_COLUMNS.includes(header))
+  const scoreIndex = headers.findIndex(header => SCORE_COLUMNS.includes(header))
+
+  if (walletIndex === -1 || scoreIndex === -1) {
+    return { scores, errors: ['CSV needs a wallet_address column and a score column.'] }
+  }
+
+  for (let i = 1; i < lines.length; i++) {
+    const values = lines[i].split(',').map(v => v.trim().replace(/"/g, ''))
+    const wallet = values[walletIndex] || ''
+    const score = values[scoreIndex] || ''
+
+    if (!ethers.utils.isAddress(wallet)) {
+      errors.push(`Row ${i + 1}: invalid wallet address "${wallet}"`)
+      continue
+    }
+
+    if (!/^\d+(\.\d+)?$/.test(score)) {
+      errors.push(`Row ${i + 1}: score must be a non-negative number`)
+      continue
+    }
+
+    if (scores[wallet.toLowerCase()] !== undefined) {
+      errors.push(`Row ${i + 1}: duplicate wallet ${wallet}`)
+      continue
+    }
+
+    scores[wallet.toLowerCase()] = score
+  }
+
+  return { scores, errors }
+}
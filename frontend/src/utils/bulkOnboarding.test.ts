@@ -0,0 +1,193 @@
+import { describe, expect, it } from '@jest/globals'
+import { ethers } from 'ethers'
+import { OnboardedEmployee } from '../services/apiService'
+import { AddEmployeeParams } from '../services/blockchainService'
+import { TrackedTransaction } from '../services/transactionTracker'
+import { BulkOnboardingSteps, chunkRows, getImportRowKey, ImportRowProgress, onboardImportRows } from './bulkOnboarding'
+import { ImportRowValues } from './importValidation'
+
+const USDC = '0xA0b86a33E6e527e1F8A4E84F57FB1e8A84eB8aEd'
+const NETWORK_TOKENS = { ETH: ethers.constants.AddressZero, USDC }
+
+const wallet = (index: number) => `0x${(index + 1).toString(16).padStart(40, '0')}`
+
+const makeRow = (index: number, overrides: ImportRowValues = {}): ImportRowValues => ({
+  name: `Employee ${index}`,
+  email: `employee${index}@example.com`,
+  wallet_address: ` ${wallet(index)} `,
+  position: 'Engineer',
+  department: 'Engineering',
+  salary_amount: '1.5',
+  ...overrides,
+})
+
+const transaction = (state: TrackedTransaction['state'], error?: string): TrackedTransaction => ({
+  id: 'tx',
+  label: 'Onboard employees',
+  state,
+  confirmations: 0,
+  requiredConfirmations: 1,
+  replacedHashes: [],
+  updatedAt: 0,
+  error,
+})
+
+// Confirms every batch, emitting an EmployeeAdded event per employee unless told otherwise
+const makeSteps = (overrides: Partial<BulkOnboardingSteps> = {}) => {
+  const batches: AddEmployeeParams[][] = []
+  const recorded: OnboardedEmployee[][] = []
+  const steps: BulkOnboardingSteps = {
+    addEmployeesBatch: async (employees, onUpdate) => {
+      batches.push(employees)
+      await onUpdate?.(transaction('awaiting_signature'))
+      await onUpdate?.(transaction('finalized'))
+      return { success: true, transactionHash: `0x${String(batches.length).padStart(64, '0')}` }
+    },
+    getEmployeeAddedEvents: async (transactionHash) => batches[batches.length - 1].map(params => ({
+      employee: params.employee,
+      ensSubdomain: params.subdomain,
+      ensNode: ethers.utils.id(params.subdomain),
+      frequency: params.frequency,
+      transactionHash,
+    })),
+    recordOnboardedEmployees: async (employees) => {
+      recorded.push(employees)
+      return { created: employees.map(item => ({ _id: item.walletAddress, walletAddress: item.walletAddress })), skipped: [] }
+    },
+    ...overrides,
+  }
+  return { steps, batches, recorded }
+}
+
+// The last progress reported for each row, and every state a row went through
+const trackProgress = () => {
+  const latest: Record<string, ImportRowProgress> = {}
+  const history: Record<string, string[]> = {}
+  const onRowProgress = (rows: ImportRowValues[], progress: ImportRowProgress) => {
+    rows.forEach(row => {
+      const key = getImportRowKey(row)
+      latest[key] = progress
+      history[key] = [...(history[key] || []), progress.state]
+    })
+  }
+  return { latest, history, onRowProgress }
+}
+
+describe('chunkRows', () => {
+  it('splits rows into batches of the contract limit', () => {
+    const rows = Array.from({ length: 31 }, (_, index) => index)
+    expect(chunkRows(rows).map(chunk => chunk.length)).toEqual([15, 15, 1])
+    expect(chunkRows([])).toEqual([])
+  })
+})
+
+describe('onboardImportRows', () => {
+  it('walks every row from queued through the transaction to saved', async () => {
+    const rows = [makeRow(0), makeRow(1, { payment_frequency: 'WEEKLY', preferred_token: 'USDC', subdomain: 'bob' })]
+    const { steps, batches, recorded } = makeSteps()
+    const { history, onRowProgress } = trackProgress()
+
+    const result = await onboardImportRows(rows, NETWORK_TOKENS, steps, onRowProgress)
+
+    expect(result).toMatchObject({ successful: 2, failed: 0, errors: [] })
+    expect(result.onChain).toEqual(rows)
+    expect(history[wallet(0)]).toEqual(['queued', 'awaiting_signature', 'finalized', 'saved'])
+
+    expect(batches[0][1]).toMatchObject({
+      employee: ethers.utils.getAddress(wallet(1)),
+      subdomain: 'bob',
+      frequency: 0,
+      token: USDC,
+    })
+    expect(recorded[0][1]).toMatchObject({
+      name: 'Employee 1',
+      salaryAmount: '1.5',
+      paymentToken: 'USDC',
+      paymentFrequency: 'WEEKLY',
+      ensName: 'bob',
+    })
+  })
+
+  it('reports progress after each batch', async () => {
+    const rows = Array.from({ length: 20 }, (_, index) => makeRow(index))
+    const { steps, batches } = makeSteps()
+    const done: number[] = []
+
+    await onboardImportRows(rows, NETWORK_TOKENS, steps, () => undefined, (count, total) => done.push(count / total))
+
+    expect(batches.map(batch => batch.length)).toEqual([15, 5])
+    expect(done).toEqual([0.5, 1])
+  })
+
+  it('stops at a failed batch and leaves the remaining rows queued', async () => {
+    const rows = Array.from({ length: 20 }, (_, index) => makeRow(index))
+    const { steps } = makeSteps({
+      addEmployeesBatch: async (employees, onUpdate) => {
+        await onUpdate?.(transaction('reverted', 'Employee already exists'))
+        return { success: false, error: 'Employee already exists', suggestion: 'Remove the row and retry.' }
+      },
+    })
+    const { latest, onRowProgress } = trackProgress()
+
+    const result = await onboardImportRows(rows, NETWORK_TOKENS, steps, onRowProgress)
+
+    expect(result.failed).toBe(20)
+    expect(result.onChain).toEqual([])
+    expect(result.errors).toEqual([
+      'Batch 1 of 2: Employee already exists. Remove the row and retry. Remaining rows were not sent.',
+    ])
+    expect(latest[wallet(0)]).toEqual({ state: 'failed', message: 'Employee already exists. Remove the row and retry.' })
+    expect(latest[wallet(19)]).toEqual({ state: 'queued' })
+  })
+
+  it('marks rows the backend did not save as on-chain only', async () => {
+    const rows = [makeRow(0), makeRow(1)]
+    const { steps } = makeSteps({
+      recordOnboardedEmployees: async (employees) => ({
+        created: [{ _id: '1', walletAddress: employees[0].walletAddress }],
+        skipped: [{ walletAddress: employees[1].walletAddress, error: 'ENS name already in use' }],
+      }),
+    })
+    const { latest, onRowProgress } = trackProgress()
+
+    const result = await onboardImportRows(rows, NETWORK_TOKENS, steps, onRowProgress)
+
+    expect(result).toMatchObject({ successful: 1, failed: 1 })
+    expect(result.onChain).toEqual(rows)
+    expect(latest[wallet(0)].state).toBe('saved')
+    expect(latest[wallet(1)]).toEqual({ state: 'not_saved', message: 'ENS name already in use' })
+  })
+
+  it('only writes back rows with a confirmed event', async () => {
+    const rows = [makeRow(0), makeRow(1)]
+    const { steps, recorded } = makeSteps({
+      getEmployeeAddedEvents: async (transactionHash) => [{
+        employee: ethers.utils.getAddress(wallet(0)),
+        ensSubdomain: 'employee0',
+        ensNode: ethers.constants.HashZero,
+        frequency: 2,
+        transactionHash,
+      }],
+    })
+    const { latest, onRowProgress } = trackProgress()
+
+    const result = await onboardImportRows(rows, NETWORK_TOKENS, steps, onRowProgress)
+
+    expect(recorded[0].map(item => item.walletAddress)).toEqual([ethers.utils.getAddress(wallet(0))])
+    expect(result.onChain).toEqual([rows[0]])
+    expect(latest[wallet(1)].state).toBe('finalized')
+  })
+
+  it('fails the batch when its events cannot be read', async () => {
+    const rows = [makeRow(0)]
+    const { steps } = makeSteps({
+      getEmployeeAddedEvents: async () => { throw new Error('RPC unavailable') },
+    })
+    const { latest, onRowProgress } = trackProgress()
+
+    const result = await onboardImportRows(rows, NETWORK_TOKENS, steps, onRowProgress)
+
+    expect(result).toMatchObject({ successful: 0, failed: 1, errors: ['Batch 1 of 1: RPC unavailable'] })
+    expect(latest[wallet(0)]).toEqual({ state: 'failed', message: 'Could not read the onboarding events' })
+  })
+})
@@ -0,0 +1,141 @@
+/**
+ * Bulk onboarding
+ * Sends imported rows to addEmployeesBatch in chunks and tracks every row until it is saved
+ * @author Dev Austin
+ */
+
+import { ethers } from 'ethers'
+import { ONBOARDING_BATCH, PAYMENT_FREQUENCIES } from '../contracts/constants'
+import { OnboardedEmployee, RecordOnboardedEmployeesResult } from '../services/apiService'
+import { AddEmployeeParams, EmployeeAddedEvent, PaymentResult } from '../services/blockchainService'
+import { TrackedTransactionState, TransactionListener } from '../services/transactionTracker'
+import { getImportSubdomain, ImportRowValues } from './importValidation'
+
+export type ImportRowState = 'queued' | TrackedTransactionState | 'saved' | 'not_saved'
+
+export interface ImportRowProgress {
+  state: ImportRowState
+  message?: string
+}
+
+export interface BulkOnboardingSteps {
+  addEmployeesBatch: (employees: AddEmployeeParams[], onUpdate?: TransactionListener) => Promise<PaymentResult>
+  getEmployeeAddedEvents: (transactionHash: string) => Promise<EmployeeAddedEvent[]>
+  recordOnboardedEmployees: (employees: OnboardedEmployee[]) => Promise<RecordOnboardedEmployeesResult | null>
+}
+
+export interface BulkOnboardingResult {
+  successful: number
+  failed: number
+  errors: string[]
+  onChain: ImportRowValues[] // rows whose EmployeeAdded event confirmed, saved or not
+}
+
+/**
+ * The error of a failed transaction, with the suggested fix when the revert is known
+ */
+export const getResultError = (result: PaymentResult, fallback: string) => {
+  const error = result.error || fallback
+  return result.suggestion ? `${error}. ${result.suggestion}` : error
+}
+
+/**
+ * Progress is keyed by the row's wallet, since onboarded rows leave the preview
+ */
+export const getImportRowKey = (row: ImportRowValues) => row.wallet_address.trim().toLowerCase()
+
+export const chunkRows = <T>(rows: T[], size: number = ONBOARDING_BATCH.MAX_EMPLOYEES): T[][] => {
+  const chunks: T[][] = []
+  for (let i = 0; i < rows.length; i += size) {
+    chunks.push(rows.slice(i, i + size))
+  }
+  return chunks
+}
+
+const toAddEmployeeParams = (row: ImportRowValues, networkTokens: Record<string, string>): AddEmployeeParams => ({
+  employee: ethers.utils.getAddress(row.wallet_address.trim()),
+  salary: row.salary_amount.trim(),
+  subdomain: getImportSubdomain(row),
+  frequency: PAYMENT_FREQUENCIES[(row.payment_frequency || 'MONTHLY') as keyof typeof PAYMENT_FREQUENCIES],
+  token: networkTokens[row.preferred_token || 'ETH'],
+  position: row.position,
+  department: row.department,
+})
+
+/**
+ * Onboard validated rows on-chain one batch at a time. Each batch is saved to the backend
+ * only once its EmployeeAdded events are final; a failed batch stops the rest, which stay
+ * queued so the import can be resumed.
+ */
+export const onboardImportRows = async (
+  rows: ImportRowValues[],
+  networkTokens: Record<string, string>,
+  steps: BulkOnboardingSteps,
+  onRowProgress: (rows: ImportRowValues[], progress: ImportRowProgress) => void,
+  onBatchDone?: (done: number, total: number) => void
+): Promise<BulkOnboardingResult> => {
+  const results: BulkOnboardingResult = { successful: 0, failed: 0, errors: [], onChain: [] }
+  const chunks = chunkRows(rows)
+
+  onRowProgress(rows, { state: 'queued' })
+
+  for (let c = 0; c < chunks.length; c++) {
+    const chunk = chunks[c]
+    const params = chunk.map(row => toAddEmployeeParams(row, networkTokens))
+
+    const result = await steps.addEmployeesBatch(params, transaction => {
+      onRowProgress(chunk, { state: transaction.state, message: transaction.error })
+    })
+
+    if (!result.success || !result.transactionHash) {
+      const error = getResultError(result, 'Failed to onboard employees')
+      onRowProgress(chunk, { state: 'failed', message: error })
+      results.failed += rows.length - c * ONBOARDING_BATCH.MAX_EMPLOYEES
+      results.errors.push(`Batch ${c + 1} of ${chunks.length}: ${error.replace(/\.$/, '')}. Remaining rows were not sent.`)
+      break
+    }
+
+    try {
+      // The batch is atomic, but only rows with a confirmed event are written back
+      const events = await steps.getEmployeeAddedEvents(result.transactionHash)
+      const eventByWallet = new Map(events.map(event => [event.employee.toLowerCase(), event]))
+      const confirmed = chunk.filter(row => eventByWallet.has(getImportRowKey(row)))
+      results.onChain.push(...confirmed)
+
+      const recorded = await steps.recordOnboardedEmployees(confirmed.map(row => {
+        const event = eventByWallet.get(getImportRowKey(row)) as EmployeeAddedEvent
+        return {
+          name: row.name,
+          walletAddress: event.employee,
+          salaryAmount: row.salary_amount.trim(),
+          paymentToken: row.preferred_token || 'ETH',
+          paymentFrequency: (row.payment_frequency || 'MONTHLY') as OnboardedEmployee['paymentFrequency'],
+          ensName: event.ensSubdomain,
+          ensNode: event.ensNode,
+          transactionHash: event.transactionHash,
+        }
+      }))
+
+      const skipped = new Map((recorded?.skipped || []).map(item => [item.walletAddress.toLowerCase(), item.error]))
+      confirmed.forEach(row => {
+        const error = recorded ? skipped.get(getImportRowKey(row)) : 'Could not reach the backend'
+        if (error) {
+          results.failed++
+          results.errors.push(`${row.name} (${row.email}): added on-chain but not saved - ${error}. Use Reconciliation to sync it.`)
+          onRowProgress([row], { state: 'not_saved', message: error })
+        } else {
+          results.successful++
+          onRowProgress([row], { state: 'saved' })
+        }
+      })
+    } catch (error) {
+      results.failed += chunk.length
+      results.errors.push(`Batch ${c + 1} of ${chunks.length}: ${error instanceof Error ? error.message : 'Unknown error'}`)
+      onRowProgress(chunk, { state: 'failed', message: 'Could not read the onboarding events' })
+    }
+
+    onBatchDone?.(c + 1, chunks.length)
+  }
+
+  return results
+}
@@ -0,0 +1,43 @@
+/**
+ * EIP-712 attestation an employee signs to accept an invite
+ * @author Dev Austin
+ */
+
+import { ethers } from 'ethers'
+import { PublicInvite } from '../services/apiService'
+
+export const ATTESTATION_STATEMENT = 'I own this wallet and want my salary paid to it.'
+
+export const ATTESTATION_TYPES = {
+  EmployeeWalletAttestation: [
+    { name: 'inviteId', type: 'string' },
+    { name: 'company', type: 'string' },
+    { name: 'employeeName', type: 'string' },
+    { name: 'wallet', type: 'address' },
+    { name: 'salaryAmount', type: 'string' },
+    { name: 'paymentToken', type: 'string' },
+    { name: 'statement', type: 'string' },
+  ],
+} as const
+
+/**
+ * Build the typed data the wallet signs; the backend verifies the same structure
+ */
+export const createAttestationTypedData = (invite: PublicInvite, wallet: string, chainId: number) => ({
+  domain: {
+    name: 'Web3 Payroll',
+    version: '1',
+    chainId,
+  },
+  types: ATTESTATION_TYPES,
+  primaryType: 'EmployeeWalletAttestation' as const,
+  message: {
+    inviteId: invite._id,
+    company: invite.ensDomain,
+    employeeName: invite.name,
+    wallet: ethers.utils.getAddress(wallet) as `0x${string}`,
+    salaryAmount: invite.salaryAmount,
+    paymentToken: invite.paymentToken,
+    statement: ATTESTATION_STATEMENT,
+  },
+})
@@ -0,0 +1,131 @@
+import { describe, expect, it } from '@jest/globals'
+import { ethers } from 'ethers'
+import {
+  getImportSubdomain,
+  ImportRowValues,
+  ImportValidationContext,
+  isSubdomainFormatValid,
+  validateImportRows,
+} from './importValidation'
+
+const WALLET = '0xabcdefabcdefabcdefabcdefabcdefabcdefabcd'
+const OTHER_WALLET = '0x1111111111111111111111111111111111111111'
+
+const makeRow = (overrides: ImportRowValues = {}): ImportRowValues => ({
+  name: 'Alice Smith',
+  email: 'alice@example.com',
+  wallet_address: WALLET,
+  position: 'Engineer',
+  department: 'Engineering',
+  salary_amount: '1.5',
+  ...overrides,
+})
+
+const makeContext = (overrides: Partial<ImportValidationContext> = {}): ImportValidationContext => ({
+  existingWallets: new Set(),
+  existingSubdomains: new Set(),
+  authorizedTokens: new Set(['ETH', 'USDC']),
+  subdomainAvailability: { alicesmith: true, bob: true },
+  ...overrides,
+})
+
+describe('getImportSubdomain', () => {
+  it('uses the subdomain column when present', () => {
+    expect(getImportSubdomain(makeRow({ subdomain: 'alice' }))).toBe('alice')
+  })
+
+  it('falls back to the name without spaces', () => {
+    expect(getImportSubdomain(makeRow())).toBe('alicesmith')
+  })
+})
+
+describe('isSubdomainFormatValid', () => {
+  it('accepts lowercase letters, numbers and hyphens of a valid length', () => {
+    expect(isSubdomainFormatValid('alice-2')).toBe(true)
+    expect(isSubdomainFormatValid('Alice')).toBe(false)
+    expect(isSubdomainFormatValid('ab')).toBe(false)
+    expect(isSubdomainFormatValid('a'.repeat(64))).toBe(false)
+  })
+})
+
+describe('validateImportRows', () => {
+  it('passes a complete row', () => {
+    expect(validateImportRows([makeRow()], makeContext())).toEqual([{}])
+  })
+
+  it('flags missing required columns', () => {
+    const [errors] = validateImportRows([makeRow({ email: '', position: '  ' })], makeContext())
+    expect(errors).toMatchObject({ email: 'Required', position: 'Required' })
+  })
+
+  it('checks email, salary, frequency and token', () => {
+    const [errors] = validateImportRows([makeRow({
+      email: 'alice@',
+      salary_amount: '5000',
+      payment_frequency: 'DAILY',
+      preferred_token: 'DAI',
+    })], makeContext())
+
+    expect(errors.email).toBe('Invalid email format')
+    expect(errors.salary_amount).toBe('Salary must be between 0.001 and 1000')
+    expect(errors.payment_frequency).toBe('Use one of WEEKLY, BIWEEKLY, MONTHLY, QUARTERLY, ONE_TIME')
+    expect(errors.preferred_token).toBe('DAI is not authorized on the payroll contract')
+  })
+
+  it('rejects salaries that are not plain numbers', () => {
+    const [errors] = validateImportRows([makeRow({ salary_amount: '1e3' })], makeContext())
+    expect(errors.salary_amount).toBe('Salary must be a number')
+  })
+
+  it('accepts unchecksummed wallets but rejects a wrong checksum', () => {
+    const checksummed = ethers.utils.getAddress(WALLET)
+    // Flip the case of one letter so the mixed-case checksum no longer matches
+    const wrongChecksum = checksummed.replace(/[a-f]/, letter => letter.toUpperCase())
+
+    expect(validateImportRows([makeRow({ wallet_address: checksummed })], makeContext())[0]).toEqual({})
+    expect(validateImportRows([makeRow({ wallet_address: WALLET.toUpperCase().replace('0X', '0x') })], makeContext())[0]).toEqual({})
+    expect(validateImportRows([makeRow({ wallet_address: wrongChecksum })], makeContext())[0].wallet_address)
+      .toBe('Wallet address checksum does not match')
+    expect(validateImportRows([makeRow({ wallet_address: '0x1234' })], makeContext())[0].wallet_address)
+      .toBe('Invalid wallet address format')
+  })
+
+  it('flags wallets that already belong to an employee', () => {
+    const [errors] = validateImportRows([makeRow()], makeContext({ existingWallets: new Set([WALLET]) }))
+    expect(errors.wallet_address).toBe('Wallet already belongs to an employee')
+  })
+
+  it('flags repeated wallets and subdomains on every row after the first', () => {
+    const errors = validateImportRows([
+      makeRow({ subdomain: 'bob', wallet_address: OTHER_WALLET }),
+      makeRow(),
+      makeRow({ wallet_address: WALLET.toUpperCase().replace('0X', '0x') }),
+      makeRow({ subdomain: 'bob', wallet_address: '0x2222222222222222222222222222222222222222' }),
+    ], makeContext())
+
+    expect(errors[0]).toEqual({})
+    expect(errors[1]).toEqual({})
+    expect(errors[2]).toMatchObject({ wallet_address: 'Duplicate of row 3', subdomain: 'Duplicate of row 3' })
+    expect(errors[3]).toEqual({ subdomain: 'Duplicate of row 2' })
+  })
+
+  it('reports the subdomain availability check', () => {
+    const rows = [
+      makeRow({ subdomain: 'taken' }),
+      makeRow({ subdomain: 'pending', wallet_address: OTHER_WALLET }),
+      makeRow({ subdomain: 'failed', wallet_address: '0x2222222222222222222222222222222222222222' }),
+    ]
+    const errors = validateImportRows(rows, makeContext({ subdomainAvailability: { taken: false, failed: 'error' } }))
+
+    expect(errors.map(row => row.subdomain)).toEqual([
+      'Subdomain is already taken',
+      'Checking availability...',
+      'Could not check availability',
+    ])
+  })
+
+  it('flags subdomains of existing employees', () => {
+    const [errors] = validateImportRows([makeRow({ subdomain: 'bob' })], makeContext({ existingSubdomains: new Set(['bob']) }))
+    expect(errors.subdomain).toBe('Subdomain belongs to another employee')
+  })
+})
@@ -0,0 +1,143 @@
+/**
+ * Bulk import validation
+ * Checks every imported row before anything is submitted
+ * @author Dev Austin
+ */
+
+import { ethers } from 'ethers'
+import { PAYMENT_FREQUENCIES, VALIDATION } from '../contracts/constants'
+
+export type ImportRowValues = Record<string, string> // keyed by template column name
+
+export type ImportRowErrors = Record<string, string> // column name -> message
+
+export type SubdomainAvailability = Record<string, boolean | 'error'> // undefined while unchecked
+
+export interface ImportValidationContext {
+  existingWallets: Set<string> // lowercased
+  existingSubdomains: Set<string>
+  authorizedTokens: Set<string> // symbols
+  subdomainAvailability: SubdomainAvailability
+}
+
+export const REQUIRED_IMPORT_COLUMNS = ['name', 'email', 'wallet_address', 'position', 'department', 'salary_amount']
+
+const SUBDOMAIN_REGEX = /^[a-z0-9-]+$/
+
+/**
+ * The subdomain the import will register, defaulting to the name as the add form does
+ */
+export const getImportSubdomain = (row: ImportRowValues) => {
+  return (row.subdomain || (row.name || '').toLowerCase().replace(/\s+/g, '')).trim()
+}
+
+const validateWallet = (wallet: string) => {
+  if (!VALIDATION.ADDRESS_REGEX.test(wallet)) return 'Invalid wallet address format'
+
+  // All-lowercase and all-uppercase addresses carry no checksum; mixed case must match it
+  try {
+    ethers.utils.getAddress(wallet)
+  } catch {
+    return 'Wallet address checksum does not match'
+  }
+  return null
+}
+
+const validateSalary = (salary: string) => {
+  if (!/^\d+(\.\d+)?$/.test(salary)) return 'Salary must be a number'
+
+  const amount = parseFloat(salary)
+  if (amount < VALIDATION.MIN_SALARY || amount > VALIDATION.MAX_SALARY) {
+    return `Salary must be between ${VALIDATION.MIN_SALARY} and ${VALIDATION.MAX_SALARY}`
+  }
+  return null
+}
+
+const getSubdomainFormatError = (subdomain: string) => {
+  if (!SUBDOMAIN_REGEX.test(subdomain)) return 'Only lowercase letters, numbers and hyphens'
+  if (subdomain.length < VALIDATION.ENS_SUBDOMAIN_MIN_LENGTH || subdomain.length > VALIDATION.ENS_SUBDOMAIN_MAX_LENGTH) {
+    return `Must be ${VALIDATION.ENS_SUBDOMAIN_MIN_LENGTH}-${VALIDATION.ENS_SUBDOMAIN_MAX_LENGTH} characters`
+  }
+  return null
+}
+
+/**
+ * Only well-formed subdomains are worth an on-chain availability check
+ */
+export const isSubdomainFormatValid = (subdomain: string) => !getSubdomainFormatError(subdomain)
+
+const validateSubdomain = (subdomain: string, availability: boolean | 'error' | undefined) => {
+  const formatError = getSubdomainFormatError(subdomain)
+  if (formatError) return formatError
+  if (availability === undefined) return 'Checking availability...'
+  if (availability === 'error') return 'Could not check availability'
+  if (!availability) return 'Subdomain is already taken'
+  return null
+}
+
+/**
+ * Errors for every row; a row can be committed when its entry is empty.
+ * Wallets and subdomains repeated inside the file are flagged on every row after the first.
+ */
+export const validateImportRows = (rows: ImportRowValues[], context: ImportValidationContext): ImportRowErrors[] => {
+  const firstWalletRow = new Map<string, number>()
+  const firstSubdomainRow = new Map<string, number>()
+
+  return rows.map((row, index) => {
+    const errors: ImportRowErrors = {}
+
+    REQUIRED_IMPORT_COLUMNS.forEach(column => {
+      if (!row[column]?.trim()) errors[column] = 'Required'
+    })
+
+    if (row.email && !VALIDATION.EMAIL_REGEX.test(row.email)) {
+      errors.email = 'Invalid email format'
+    }
+
+    const wallet = (row.wallet_address || '').trim()
+    if (wallet) {
+      const walletError = validateWallet(wallet)
+      const key = wallet.toLowerCase()
+      if (walletError) {
+        errors.wallet_address = walletError
+      } else if (context.existingWallets.has(key)) {
+        errors.wallet_address = 'Wallet already belongs to an employee'
+      } else if (firstWalletRow.has(key)) {
+        errors.wallet_address = `Duplicate of row ${(firstWalletRow.get(key) as number) + 2}`
+      } else {
+        firstWalletRow.set(key, index)
+      }
+    }
+
+    if (row.salary_amount) {
+      const salaryError = validateSalary(row.salary_amount.trim())
+      if (salaryError) errors.salary_amount = salaryError
+    }
+
+    const frequency = row.payment_frequency || 'MONTHLY'
+    if (!(frequency in PAYMENT_FREQUENCIES)) {
+      errors.payment_frequency = `Use one of ${Object.keys(PAYMENT_FREQUENCIES).join(', ')}`
+    }
+
+    const token = row.preferred_token || 'ETH'
+    if (!context.authorizedTokens.has(token)) {
+      errors.preferred_token = `${token} is not authorized on the payroll contract`
+    }
+
+    const subdomain = getImportSubdomain(row)
+    if (subdomain) {
+      const subdomainError = validateSubdomain(subdomain, context.subdomainAvailability[subdomain])
+      if (subdomainError) {
+        errors.subdomain = subdomainError
+      } else if (context.existingSubdomains.has(subdomain)) {
+        errors.subdomain = 'Subdomain belongs to another employee'
+      } else if (firstSubdomainRow.has(subdomain)) {
+        errors.subdomain = `Duplicate of row ${(firstSubdomainRow.get(subdomain) as number) + 2}`
+      } else {
+        firstSubdomainRow.set(subdomain, index)
+      }
+    }
+
+    return errors
+  })
+}
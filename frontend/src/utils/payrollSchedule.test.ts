@@ -0,0 +1,190 @@
+import { describe, expect, it } from '@jest/globals'
+import { Employee } from '../services/blockchainService'
+import {
+  buildPayrollICS,
+  getNextDueDate,
+  getPaySchedule,
+  getProRatedPay,
+  groupByPayDate,
+  isPaymentDue,
+} from './payrollSchedule'
+
+const DAY = 24 * 60 * 60
+const WEEK = 7 * DAY
+
+// Frequency -> interval in seconds, as getPaymentIntervals returns them
+const INTERVALS: Record<number, number> = { 0: WEEK, 4: 0 }
+
+const seconds = (date: Date) => Math.floor(date.getTime() / 1000)
+
+const makeEmployee = (overrides: Partial<Employee> = {}): Employee => ({
+  walletAddress: '0x1111111111111111111111111111111111111111',
+  salaryAmount: '1.0',
+  lastPaymentTimestamp: 0,
+  isActive: true,
+  ensNode: '0x',
+  frequency: 0,
+  preferredToken: '0x0000000000000000000000000000000000000000',
+  ensSubdomain: 'alice',
+  startDate: seconds(new Date(2024, 0, 1, 12)),
+  position: 'Engineer',
+  department: 'Engineering',
+  ...overrides,
+})
+
+describe('getNextDueDate', () => {
+  it('is the start date for an employee who was never paid', () => {
+    const employee = makeEmployee()
+    expect(getNextDueDate(employee, WEEK)).toEqual(new Date(employee.startDate * 1000))
+  })
+
+  it('is one interval after the last payment', () => {
+    const lastPaid = seconds(new Date(2024, 0, 8, 12))
+    const employee = makeEmployee({ lastPaymentTimestamp: lastPaid })
+    expect(getNextDueDate(employee, WEEK)).toEqual(new Date((lastPaid + WEEK) * 1000))
+  })
+})
+
+describe('isPaymentDue', () => {
+  it('is due once the interval has passed since the last payment', () => {
+    const lastPaid = seconds(new Date(2024, 0, 8, 12))
+    const employee = makeEmployee({ lastPaymentTimestamp: lastPaid })
+
+    expect(isPaymentDue(employee, WEEK, new Date((lastPaid + WEEK - 1) * 1000))).toBe(false)
+    expect(isPaymentDue(employee, WEEK, new Date((lastPaid + WEEK) * 1000))).toBe(true)
+  })
+
+  it('keeps a one-time payment due only until it is paid', () => {
+    const unpaid = makeEmployee({ frequency: 4 })
+    const paid = makeEmployee({ frequency: 4, lastPaymentTimestamp: unpaid.startDate })
+    const muchLater = new Date((unpaid.startDate + 365 * DAY) * 1000)
+
+    expect(isPaymentDue(unpaid, 0, muchLater)).toBe(true)
+    expect(isPaymentDue(paid, 0, muchLater)).toBe(false)
+  })
+})
+
+describe('getPaySchedule', () => {
+  const now = new Date(2024, 0, 10, 12)
+
+  it('projects every pay date up to the end of the range', () => {
+    const employee = makeEmployee({ lastPaymentTimestamp: seconds(new Date(2024, 0, 8, 12)) })
+    const payments = getPaySchedule([employee], INTERVALS, new Date(2024, 0, 31), now)
+
+    expect(payments.map(payment => payment.dueDate)).toEqual([
+      new Date(2024, 0, 15, 12),
+      new Date(2024, 0, 22, 12),
+      new Date(2024, 0, 29, 12),
+    ])
+    expect(payments.every(payment => !payment.overdue)).toBe(true)
+  })
+
+  it('marks a missed payment overdue and projects the next ones from now', () => {
+    const employee = makeEmployee()
+    const payments = getPaySchedule([employee], INTERVALS, new Date(2024, 0, 25), now)
+
+    expect(payments[0]).toMatchObject({ dueDate: new Date(2024, 0, 1, 12), overdue: true })
+    expect(payments.slice(1).map(payment => payment.dueDate)).toEqual([
+      new Date(now.getTime() + WEEK * 1000),
+      new Date(now.getTime() + 2 * WEEK * 1000),
+    ])
+  })
+
+  it('schedules a one-time payment once', () => {
+    const employee = makeEmployee({ frequency: 4, startDate: seconds(new Date(2024, 0, 20)) })
+    const payments = getPaySchedule([employee], INTERVALS, new Date(2024, 2, 1), now)
+
+    expect(payments).toHaveLength(1)
+    expect(payments[0].overdue).toBe(false)
+  })
+
+  it('drops a one-time payment once it has been paid', () => {
+    const employee = makeEmployee({ frequency: 4, lastPaymentTimestamp: seconds(new Date(2024, 0, 5)) })
+    expect(getPaySchedule([employee], INTERVALS, new Date(2024, 2, 1), now)).toEqual([])
+  })
+
+  it('skips inactive employees and unknown frequencies', () => {
+    const inactive = makeEmployee({ isActive: false })
+    const unknown = makeEmployee({ frequency: 2 })
+    expect(getPaySchedule([inactive, unknown], INTERVALS, new Date(2024, 2, 1), now)).toEqual([])
+  })
+})
+
+describe('getProRatedPay', () => {
+  it('pays the elapsed share of the interval', () => {
+    const lastPaid = seconds(new Date(2024, 0, 1, 12))
+    const employee = makeEmployee({ salaryAmount: '7.0', lastPaymentTimestamp: lastPaid })
+    const pay = getProRatedPay(employee, WEEK, 18, new Date((lastPaid + 3 * DAY) * 1000))
+
+    expect(pay.amount).toBe('3.0')
+    expect(pay.periods).toBeCloseTo(3 / 7)
+  })
+
+  it('counts from the start date when the employee was never paid', () => {
+    const employee = makeEmployee({ salaryAmount: '7.0' })
+    const pay = getProRatedPay(employee, WEEK, 6, new Date((employee.startDate + DAY) * 1000))
+
+    expect(pay.from).toEqual(new Date(employee.startDate * 1000))
+    expect(pay.amount).toBe('1.0')
+  })
+
+  it('owes nothing before the start date', () => {
+    const employee = makeEmployee()
+    const pay = getProRatedPay(employee, WEEK, 18, new Date((employee.startDate - DAY) * 1000))
+    expect(pay.amount).toBe('0.0')
+  })
+
+  it('owes a one-time payment in full until it is paid', () => {
+    const unpaid = makeEmployee({ salaryAmount: '5.0' })
+    const paid = makeEmployee({ salaryAmount: '5.0', lastPaymentTimestamp: unpaid.startDate })
+    const until = new Date((unpaid.startDate + DAY) * 1000)
+
+    expect(getProRatedPay(unpaid, 0, 18, until).amount).toBe('5.0')
+    expect(getProRatedPay(paid, 0, 18, until).amount).toBe('0')
+  })
+})
+
+describe('groupByPayDate', () => {
+  it('groups payments by local day, earliest first, and flags overdue days', () => {
+    const alice = makeEmployee()
+    const bob = makeEmployee({ walletAddress: '0x2222222222222222222222222222222222222222' })
+    const groups = groupByPayDate([
+      { employee: alice, dueDate: new Date(2024, 0, 15, 9), overdue: false },
+      { employee: bob, dueDate: new Date(2024, 0, 8, 9), overdue: true },
+      { employee: bob, dueDate: new Date(2024, 0, 15, 17), overdue: false },
+    ])
+
+    expect(groups.map(group => group.key)).toEqual(['2024-01-08', '2024-01-15'])
+    expect(groups[0].overdue).toBe(true)
+    expect(groups[1].payments).toHaveLength(2)
+    expect(groups[1].overdue).toBe(false)
+  })
+})
+
+describe('buildPayrollICS', () => {
+  it('writes one all-day event per pay date with escaped text', () => {
+    const payDates = groupByPayDate([
+      { employee: makeEmployee(), dueDate: new Date(2024, 0, 15, 9), overdue: false },
+    ])
+    const ics = buildPayrollICS(payDates, () => 'alice; 1.0 ETH, weekly', 'Acme, Inc.')
+    const lines = ics.split('\r\n')
+
+    expect(lines[0]).toBe('BEGIN:VCALENDAR')
+    expect(lines).toContain('X-WR-CALNAME:Acme\\, Inc.')
+    expect(lines).toContain('DTSTART;VALUE=DATE:20240115')
+    expect(lines).toContain('DTEND;VALUE=DATE:20240116')
+    expect(lines).toContain('SUMMARY:Payroll: 1 employee due')
+    expect(lines).toContain('DESCRIPTION:alice\\; 1.0 ETH\\, weekly')
+    expect(lines[lines.length - 1]).toBe('END:VCALENDAR')
+  })
+
+  it('folds lines longer than 75 octets', () => {
+    const payDates = groupByPayDate([
+      { employee: makeEmployee(), dueDate: new Date(2024, 0, 15, 9), overdue: false },
+    ])
+    const ics = buildPayrollICS(payDates, () => 'x'.repeat(200))
+
+    expect(ics.split('\r\n').every(line => line.length <= 75)).toBe(true)
+    expect(ics).toContain('\r\n x')
+  })
+})
@@ -0,0 +1,213 @@
+/**
+ * Payroll schedule utilities
+ * Projects pay dates from on-chain employee data and exports them as ICS
+ * @author Dev Austin
+ */
+
+import { ethers } from 'ethers'
+import { Employee } from '../services/blockchainService'
+
+export interface ScheduledPayment {
+  employee: Employee
+  dueDate: Date
+  overdue: boolean
+}
+
+export interface ProRatedPay {
+  from: Date
+  until: Date
+  periods: number // pay intervals covered, fractional
+  amount: string // formatted with the token's decimals
+}
+
+export interface PayDate {
+  key: string // YYYY-MM-DD in local time
+  date: Date
+  overdue: boolean
+  payments: ScheduledPayment[]
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+/**
+ * Local calendar day key, so grouping matches what the month grid shows
+ */
+export const getDateKey = (date: Date): string => {
+  const month = String(date.getMonth() + 1).padStart(2, '0')
+  const day = String(date.getDate()).padStart(2, '0')
+  return `${date.getFullYear()}-${month}-${day}`
+}
+
+export const startOfDay = (date: Date): Date => {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate())
+}
+
+/**
+ * Next date the contract will pay this employee.
+ * Never-paid employees are due from their start date, mirroring calculatePaymentAmount.
+ */
+export const getNextDueDate = (employee: Employee, interval: number): Date => {
+  if (!employee.lastPaymentTimestamp) {
+    return new Date(employee.startDate * 1000)
+  }
+  return new Date((employee.lastPaymentTimestamp + interval) * 1000)
+}
+
+/**
+ * Whether a payment is due now.
+ * One-time payments (interval 0) are due only until they have been paid.
+ */
+export const isPaymentDue = (employee: Employee, interval: number, now: Date = new Date()): boolean => {
+  if (!interval) {
+    return !employee.lastPaymentTimestamp
+  }
+  return getNextDueDate(employee, interval) <= now
+}
+
+/**
+ * Every pay date for active employees up to `until`.
+ * An overdue payment resets the cycle when it is made, so later dates are projected from today.
+ */
+export const getPaySchedule = (
+  employees: Employee[],
+  intervals: Record<number, number>,
+  until: Date,
+  now: Date = new Date()
+): ScheduledPayment[] => {
+  const today = startOfDay(now)
+  const payments: ScheduledPayment[] = []
+
+  employees.forEach(employee => {
+    const interval = intervals[employee.frequency]
+    if (!employee.isActive || interval === undefined) return
+
+    let dueDate = getNextDueDate(employee, interval)
+
+    // One-time payments have no interval: due once, from the start date, until paid
+    if (interval === 0) {
+      if (!employee.lastPaymentTimestamp && dueDate <= until) {
+        payments.push({ employee, dueDate, overdue: dueDate < today })
+      }
+      return
+    }
+    if (dueDate < today) {
+      payments.push({ employee, dueDate, overdue: true })
+      dueDate = new Date(now.getTime() + interval * 1000)
+    }
+
+    while (dueDate <= until) {
+      payments.push({ employee, dueDate, overdue: false })
+      dueDate = new Date(dueDate.getTime() + interval * 1000)
+    }
+  })
+
+  return payments
+}
+
+/**
+ * Salary earned but not yet paid between the last payment (or start date) and `until`,
+ * pro-rated by the second. Used for final pay when an employee leaves mid-cycle.
+ */
+export const getProRatedPay = (
+  employee: Employee,
+  interval: number,
+  decimals: number,
+  until: Date
+): ProRatedPay => {
+  const fromSeconds = employee.lastPaymentTimestamp || employee.startDate
+  const untilSeconds = Math.floor(until.getTime() / 1000)
+  const elapsed = Math.max(untilSeconds - fromSeconds, 0)
+  const salary = ethers.utils.parseUnits(employee.salaryAmount, decimals)
+
+  // One-time payments are owed in full until paid, as the contract's calculateProRatedAmount does
+  if (!interval) {
+    return {
+      from: new Date(fromSeconds * 1000),
+      until,
+      periods: employee.lastPaymentTimestamp ? 0 : 1,
+      amount: employee.lastPaymentTimestamp ? '0' : employee.salaryAmount,
+    }
+  }
+
+  return {
+    from: new Date(fromSeconds * 1000),
+    until,
+    periods: elapsed / interval,
+    amount: ethers.utils.formatUnits(salary.mul(elapsed).div(interval), decimals),
+  }
+}
+
+/**
+ * Group scheduled payments by calendar day, earliest first
+ */
+export const groupByPayDate = (payments: ScheduledPayment[]): PayDate[] => {
+  const groups = new Map<string, PayDate>()
+
+  payments.forEach(payment => {
+    const key = getDateKey(payment.dueDate)
+    const group = groups.get(key) || { key, date: startOfDay(payment.dueDate), overdue: false, payments: [] }
+    group.payments.push(payment)
+    group.overdue = group.overdue || payment.overdue
+    groups.set(key, group)
+  })
+
+  return Array.from(groups.values()).sort((a, b) => a.date.getTime() - b.date.getTime())
+}
+
+const escapeICSText = (text: string): string => {
+  return text
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n')
+}
+
+// RFC 5545 lines are at most 75 octets; continuation lines start with a space
+const foldICSLine = (line: string): string => {
+  const parts: string[] = []
+  for (let i = 0; i < line.length; i += 73) {
+    parts.push(line.slice(i, i + 73))
+  }
+  return parts.join('\r\n ')
+}
+
+const formatICSDate = (date: Date): string => getDateKey(date).replace(/-/g, '')
+
+const formatICSTimestamp = (date: Date): string => {
+  return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '')
+}
+
+/**
+ * Build an ICS calendar with one all-day event per pay date
+ */
+export const buildPayrollICS = (
+  payDates: PayDate[],
+  describePayment: (payment: ScheduledPayment) => string,
+  calendarName = 'Payroll Schedule'
+): string => {
+  const stamp = formatICSTimestamp(new Date())
+
+  const events = payDates.flatMap(payDate => {
+    const count = payDate.payments.length
+    return [
+      'BEGIN:VEVENT',
+      `UID:payroll-${payDate.key}@web3-payroll`,
+      `DTSTAMP:${stamp}`,
+      `DTSTART;VALUE=DATE:${formatICSDate(payDate.date)}`,
+      `DTEND;VALUE=DATE:${formatICSDate(new Date(payDate.date.getTime() + DAY_MS))}`,
+      `SUMMARY:${escapeICSText(`Payroll: ${count} employee${count === 1 ? '' : 's'} due`)}`,
+      `DESCRIPTION:${escapeICSText(payDate.payments.map(describePayment).join('\n'))}`,
+      'END:VEVENT',
+    ]
+  })
+
+  return [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//Web3 Payroll System//Payroll Calendar//EN',
+    'CALSCALE:GREGORIAN',
+    `X-WR-CALNAME:${escapeICSText(calendarName)}`,
+    ...events,
+    'END:VCALENDAR',
+  ].map(foldICSLine).join('\r\n')
+}
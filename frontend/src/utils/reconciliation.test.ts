@@ -0,0 +1,142 @@
+import { describe, expect, it } from '@jest/globals'
+import { ethers } from 'ethers'
+import { Employee } from '../services/blockchainService'
+import { EmployeeData } from '../services/apiService'
+import { getFrequencyKey, getTokenAddress, getTokenSymbol, reconcileEmployees } from './reconciliation'
+
+const USDC = '0xA0b86a33E6e527e1F8A4E84F57FB1e8A84eB8aEd'
+
+const NETWORK_TOKENS: Record<string, string> = {
+  ETH: ethers.constants.AddressZero,
+  USDC,
+  DAI: ethers.constants.AddressZero, // not deployed on this network
+}
+
+const WALLET = '0xabcdefabcdefabcdefabcdefabcdefabcdefabcd'
+
+const makeChainEmployee = (overrides: Partial<Employee> = {}): Employee => ({
+  walletAddress: ethers.utils.getAddress(WALLET),
+  salaryAmount: '1000.0',
+  lastPaymentTimestamp: 0,
+  isActive: true,
+  ensNode: ethers.constants.HashZero,
+  frequency: 2, // MONTHLY
+  preferredToken: USDC,
+  ensSubdomain: 'alice',
+  startDate: 1704067200,
+  position: 'Engineer',
+  department: 'Engineering',
+  ...overrides,
+})
+
+const makeRecord = (
+  payroll: Partial<EmployeeData['payrollSettings']> = {},
+  employment: Partial<EmployeeData['employmentDetails']> = {}
+): EmployeeData => ({
+  personalInfo: { name: 'Alice', email: 'alice@example.com' },
+  employmentDetails: {
+    startDate: '2024-01-01',
+    position: 'Engineer',
+    department: 'Engineering',
+    employmentType: 'full-time',
+    isActive: true,
+    ...employment,
+  },
+  payrollSettings: {
+    walletAddress: WALLET,
+    salaryAmount: '1000',
+    paymentFrequency: 'MONTHLY',
+    preferredToken: 'USDC',
+    lastPaymentTimestamp: 0,
+    ...payroll,
+  },
+  ensDetails: { subdomain: 'alice', fullDomain: 'alice.acme.eth', ensNode: ethers.constants.HashZero },
+  taxInformation: { withholdings: 0, taxExempt: false },
+})
+
+describe('token lookups', () => {
+  it('only treats the zero address as a token for ETH', () => {
+    expect(getTokenAddress(NETWORK_TOKENS, 'ETH')).toBe(ethers.constants.AddressZero)
+    expect(getTokenAddress(NETWORK_TOKENS, 'DAI')).toBeUndefined()
+    expect(getTokenAddress(NETWORK_TOKENS, 'USDT')).toBeUndefined()
+  })
+
+  it('finds the symbol of an address in any case', () => {
+    expect(getTokenSymbol(NETWORK_TOKENS, USDC.toLowerCase())).toBe('USDC')
+    expect(getTokenSymbol(NETWORK_TOKENS, ethers.constants.AddressZero)).toBe('ETH')
+    expect(getTokenSymbol(NETWORK_TOKENS, WALLET)).toBeUndefined()
+  })
+
+  it('maps contract frequencies to their keys', () => {
+    expect(getFrequencyKey(0)).toBe('WEEKLY')
+    expect(getFrequencyKey(4)).toBe('ONE_TIME')
+    expect(getFrequencyKey(9)).toBeUndefined()
+  })
+})
+
+describe('reconcileEmployees', () => {
+  it('matches records whose salary only differs in formatting', () => {
+    const [row] = reconcileEmployees([makeChainEmployee()], [makeRecord()], NETWORK_TOKENS)
+
+    expect(row.status).toBe('matched')
+    expect(row.mismatches).toEqual([])
+    expect(row.walletAddress).toBe(ethers.utils.getAddress(WALLET))
+    expect(row.chainToken).toBe('USDC')
+    expect(row.chainFrequency).toBe('MONTHLY')
+  })
+
+  it('lists every field that differs', () => {
+    const [row] = reconcileEmployees(
+      [makeChainEmployee({ salaryAmount: '1200.0', frequency: 0, preferredToken: ethers.constants.AddressZero, isActive: false })],
+      [makeRecord()],
+      NETWORK_TOKENS
+    )
+
+    expect(row.status).toBe('mismatched')
+    expect(row.mismatches).toEqual(['salary', 'frequency', 'token', 'active'])
+  })
+
+  it('treats a record without a frequency as monthly', () => {
+    const record = makeRecord({ paymentFrequency: undefined })
+    const [row] = reconcileEmployees([makeChainEmployee()], [record], NETWORK_TOKENS)
+    expect(row.mismatches).toEqual([])
+  })
+
+  it('reports employees missing on either side', () => {
+    const other = '0x1111111111111111111111111111111111111111'
+    const rows = reconcileEmployees(
+      [makeChainEmployee({ walletAddress: other })],
+      [makeRecord()],
+      NETWORK_TOKENS
+    )
+
+    expect(rows.map(row => [row.walletAddress, row.status])).toEqual([
+      [ethers.utils.getAddress(WALLET), 'missing_on_chain'],
+      [other, 'missing_in_db'],
+    ])
+  })
+
+  it('leaves out inactive employees with no counterpart', () => {
+    const rows = reconcileEmployees(
+      [makeChainEmployee({ walletAddress: '0x1111111111111111111111111111111111111111', isActive: false })],
+      [makeRecord({}, { isActive: false })],
+      NETWORK_TOKENS
+    )
+    expect(rows).toEqual([])
+  })
+
+  it('ignores records without a wallet', () => {
+    expect(reconcileEmployees([], [makeRecord({ walletAddress: '' })], NETWORK_TOKENS)).toEqual([])
+  })
+
+  it('puts mismatches first and matches last', () => {
+    const matched = '0x1111111111111111111111111111111111111111'
+    const rows = reconcileEmployees(
+      [makeChainEmployee({ walletAddress: matched }), makeChainEmployee({ salaryAmount: '1.0' })],
+      [makeRecord({ walletAddress: matched }), makeRecord()],
+      NETWORK_TOKENS
+    )
+
+    expect(rows.map(row => row.status)).toEqual(['mismatched', 'matched'])
+  })
+})
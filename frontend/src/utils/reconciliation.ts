@@ -0,0 +1,123 @@
+/**
+ * Reconciliation utilities
+ * Diffs on-chain employees against database records by wallet address
+ * @author Dev Austin
+ */
+
+import { ethers } from 'ethers'
+import { Employee } from '../services/blockchainService'
+import { EmployeeData, PaymentFrequencyKey } from '../services/apiService'
+import { PAYMENT_FREQUENCIES } from '../contracts/constants'
+
+export type ReconciliationField = 'salary' | 'frequency' | 'token' | 'active'
+
+export type ReconciliationStatus = 'matched' | 'mismatched' | 'missing_on_chain' | 'missing_in_db'
+
+export type Frequency = PaymentFrequencyKey
+
+export interface ReconciliationRow {
+  walletAddress: string // checksummed
+  chain?: Employee
+  record?: EmployeeData
+  chainFrequency?: Frequency
+  chainToken?: string // symbol, undefined when the address is not a known token
+  status: ReconciliationStatus
+  mismatches: ReconciliationField[]
+}
+
+// Amounts are compared in base units so "1000" and "1000.0" match
+const COMPARE_DECIMALS = 18
+
+/**
+ * Address of a token symbol on the current network.
+ * Placeholder zero addresses only count for ETH, as in the add and edit forms.
+ */
+export const getTokenAddress = (networkTokens: Record<string, string>, symbol: string): string | undefined => {
+  const address = networkTokens[symbol]
+  if (!address) return undefined
+  return symbol === 'ETH' || address !== ethers.constants.AddressZero ? address : undefined
+}
+
+/**
+ * Symbol of a token address on the current network
+ */
+export const getTokenSymbol = (networkTokens: Record<string, string>, address: string): string | undefined => {
+  return Object.keys(networkTokens).find(symbol => getTokenAddress(networkTokens, symbol)?.toLowerCase() === address.toLowerCase())
+}
+
+export const getFrequencyKey = (frequency: number): Frequency | undefined => {
+  const entry = Object.entries(PAYMENT_FREQUENCIES).find(([, value]) => value === frequency)
+  return entry?.[0] as Frequency | undefined
+}
+
+const sameAmount = (a: string, b: string) => {
+  try {
+    return ethers.utils.parseUnits(a, COMPARE_DECIMALS).eq(ethers.utils.parseUnits(b, COMPARE_DECIMALS))
+  } catch {
+    return a === b
+  }
+}
+
+const toChecksum = (address: string) => {
+  try {
+    return ethers.utils.getAddress(address)
+  } catch {
+    return address
+  }
+}
+
+/**
+ * Pair on-chain employees with database records by wallet address and list what differs.
+ * A side that is inactive and has no counterpart is left out: there is nothing to reconcile.
+ */
+export const reconcileEmployees = (
+  chainEmployees: Employee[],
+  records: EmployeeData[],
+  networkTokens: Record<string, string>
+): ReconciliationRow[] => {
+  const chainByWallet = new Map(chainEmployees.map(employee => [employee.walletAddress.toLowerCase(), employee]))
+  const recordsByWallet = new Map(
+    records
+      .filter(record => !!record.payrollSettings?.walletAddress)
+      .map(record => [record.payrollSettings.walletAddress.toLowerCase(), record])
+  )
+  const wallets = Array.from(new Set([...Array.from(chainByWallet.keys()), ...Array.from(recordsByWallet.keys())]))
+
+  const rows: ReconciliationRow[] = []
+  wallets.forEach(wallet => {
+    const chain = chainByWallet.get(wallet)
+    const record = recordsByWallet.get(wallet)
+    const recordActive = record?.employmentDetails?.isActive !== false
+
+    if (!chain && !recordActive) return
+    if (!record && !chain?.isActive) return
+
+    const row: ReconciliationRow = {
+      walletAddress: toChecksum(chain?.walletAddress || wallet),
+      chain,
+      record,
+      chainFrequency: chain ? getFrequencyKey(chain.frequency) : undefined,
+      chainToken: chain ? getTokenSymbol(networkTokens, chain.preferredToken) : undefined,
+      status: 'matched',
+      mismatches: [],
+    }
+
+    if (!chain) {
+      row.status = 'missing_on_chain'
+    } else if (!record) {
+      row.status = 'missing_in_db'
+    } else {
+      const settings = record.payrollSettings
+      if (!sameAmount(chain.salaryAmount, settings.salaryAmount)) row.mismatches.push('salary')
+      if (row.chainFrequency !== (settings.paymentFrequency || 'MONTHLY')) row.mismatches.push('frequency')
+      if (row.chainToken !== settings.preferredToken) row.mismatches.push('token')
+      if (chain.isActive !== recordActive) row.mismatches.push('active')
+      if (row.mismatches.length > 0) row.status = 'mismatched'
+    }
+
+    rows.push(row)
+  })
+
+  const order: Record<ReconciliationStatus, number> = { mismatched: 0, missing_on_chain: 1, missing_in_db: 2, matched: 3 }
+  return rows.sort((a, b) => order[a.status] - order[b.status] || a.walletAddress.localeCompare(b.walletAddress))
+}
@@ -0,0 +1,83 @@
+import { describe, expect, it } from '@jest/globals'
+import { ethers } from 'ethers'
+import { decodeContractError, formatDecodedError, getRevertReason } from './revertDecoder'
+
+// Revert data as a node returns it for require(false, reason)
+const encodeRevert = (reason: string) =>
+  `0x08c379a0${ethers.utils.defaultAbiCoder.encode(['string'], [reason]).slice(2)}`
+
+describe('getRevertReason', () => {
+  it('finds a known reason nested inside wrapped provider errors', () => {
+    const error = {
+      message: 'cannot estimate gas',
+      error: { body: '{"message":"execution reverted: No payment due"}' },
+    }
+    expect(getRevertReason(error)).toBe('No payment due')
+  })
+
+  it('decodes Error(string) revert data', () => {
+    expect(getRevertReason({ data: encodeRevert('Insufficient ETH balance') })).toBe('Insufficient ETH balance')
+  })
+
+  it('returns unknown reasons as the node reported them', () => {
+    expect(getRevertReason({ message: "reverted with reason string 'Something new'" })).toBe('Something new')
+    expect(getRevertReason(new Error('network timeout'))).toBeUndefined()
+  })
+})
+
+describe('decodeContractError', () => {
+  it('recognises a wallet rejection', () => {
+    expect(decodeContractError({ code: 'ACTION_REJECTED' }).code).toBe('TRANSACTION_REJECTED')
+    expect(decodeContractError({ code: 4001 }).code).toBe('TRANSACTION_REJECTED')
+  })
+
+  it('maps a known revert to its code and suggestion', () => {
+    const decoded = decodeContractError({ reason: 'Pausable: paused' })
+
+    expect(decoded).toEqual({
+      code: 'CONTRACT_PAUSED',
+      message: 'The payroll contract is paused',
+      suggestion: 'Unpause the contract in Settings and try again.',
+      reason: 'Pausable: paused',
+    })
+    expect(formatDecodedError(decoded))
+      .toBe('The payroll contract is paused. Unpause the contract in Settings and try again.')
+  })
+
+  it('falls back to the raw reason without a suggestion', () => {
+    const decoded = decodeContractError({ message: 'execution reverted: Something new' })
+
+    expect(decoded.code).toBe('TRANSACTION_FAILED')
+    expect(decoded.message).toBe('Something new')
+    expect(decoded.suggestion).toBeUndefined()
+  })
+})
+
+describe('PayrollManager reverts', () => {
+  it('explains ENS handover reverts', () => {
+    expect(decodeContractError({ reason: 'Employee still active' })).toMatchObject({
+      code: 'EMPLOYEE_STILL_ACTIVE',
+      suggestion: 'Deactivate the employee on-chain before handing over their ENS subdomain.',
+    })
+    expect(decodeContractError({ data: encodeRevert('No ENS subdomain') })).toMatchObject({
+      code: 'NO_ENS_SUBDOMAIN',
+      message: 'This employee has no ENS subdomain to hand over',
+    })
+  })
+
+  it('explains a partial payment above the accrued amount', () => {
+    const decoded = decodeContractError({ message: "reverted with reason string 'Amount exceeds accrued pay'" })
+
+    expect(decoded.code).toBe('AMOUNT_EXCEEDS_ACCRUED')
+    expect(formatDecodedError(decoded)).toBe(
+      'The amount is more than the employee has accrued. Pay at most the pro-rated amount shown for this employee.'
+    )
+  })
+
+  it('explains a partial payment to a one-time payee', () => {
+    expect(decodeContractError({ error: { data: encodeRevert('One-time payments cannot be split') } })).toMatchObject({
+      code: 'ONE_TIME_NOT_SPLITTABLE',
+      suggestion: 'Pay the full amount with a regular payment instead.',
+    })
+  })
+})
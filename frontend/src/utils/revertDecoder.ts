@@ -0,0 +1,110 @@
+/**
+ * Revert decoder
+ * Turns wallet, provider and contract errors into typed, user-facing errors
+ * @author Dev Austin
+ */
+
+import { ethers } from 'ethers'
+import { CONTRACT_REVERT_REASONS, ERROR_MESSAGES, ErrorCode } from '../contracts/constants'
+
+export interface DecodedError {
+  code: ErrorCode
+  message: string // from ERROR_MESSAGES, or the raw reason for unknown reverts
+  suggestion?: string
+  reason?: string // raw revert reason, if one was found
+}
+
+// Error(string) selector used by require() reverts
+const ERROR_STRING_SELECTOR = '0x08c379a0'
+
+// Longest first so one reason never matches inside another
+const KNOWN_REASONS = Object.keys(CONTRACT_REVERT_REASONS).sort((a, b) => b.length - a.length)
+
+/**
+ * Gather every message-like string from an error and its nested causes
+ * (ethers wraps provider errors several levels deep, and MetaMask nests them again)
+ */
+const collectMessages = (error: any, depth = 0): string[] => {
+  if (error === null || error === undefined || depth > 5) return []
+
+  if (typeof error === 'string') {
+    if (error.startsWith(ERROR_STRING_SELECTOR)) {
+      try {
+        return [ethers.utils.defaultAbiCoder.decode(['string'], `0x${error.slice(10)}`)[0]]
+      } catch {
+        return [error]
+      }
+    }
+    return [error]
+  }
+
+  if (typeof error !== 'object') return []
+
+  return ['reason', 'data', 'message', 'error', 'originalError', 'body']
+    .flatMap(key => collectMessages(error[key], depth + 1))
+}
+
+/**
+ * Pull the require() message out of an error, if there is one
+ */
+export const getRevertReason = (error: any): string | undefined => {
+  const messages = collectMessages(error)
+
+  for (const message of messages) {
+    const known = KNOWN_REASONS.find(reason => message.includes(reason))
+    if (known) return known
+  }
+
+  for (const message of messages) {
+    const match = message.match(/reverted with reason string '([^']*)'/) || message.match(/execution reverted: ([^"\n]*)/)
+    if (match) return match[1]
+  }
+
+  return undefined
+}
+
+/**
+ * Decode any error thrown by a contract call or transaction
+ */
+export const decodeContractError = (error: any): DecodedError => {
+  if (error?.code === 4001 || error?.code === 'ACTION_REJECTED') {
+    return {
+      code: 'TRANSACTION_REJECTED',
+      message: ERROR_MESSAGES.TRANSACTION_REJECTED,
+      suggestion: 'Approve the transaction in your wallet to continue.'
+    }
+  }
+
+  if (error?.code === 'INSUFFICIENT_FUNDS') {
+    return {
+      code: 'INSUFFICIENT_FUNDS',
+      message: ERROR_MESSAGES.INSUFFICIENT_FUNDS,
+      suggestion: 'Add ETH to the connected wallet to pay for gas.'
+    }
+  }
+
+  const reason = getRevertReason(error)
+  const known = reason ? CONTRACT_REVERT_REASONS[reason] : undefined
+
+  if (known) {
+    return {
+      code: known.code,
+      message: ERROR_MESSAGES[known.code],
+      suggestion: known.suggestion,
+      reason
+    }
+  }
+
+  return {
+    code: 'TRANSACTION_FAILED',
+    message: reason || error?.reason || error?.message || ERROR_MESSAGES.TRANSACTION_FAILED,
+    reason
+  }
+}
+
+/**
+ * One-line message with the suggested fix, for notifications and alerts
+ */
+export const formatDecodedError = (decoded: DecodedError): string => {
+  return decoded.suggestion ? `${decoded.message}. ${decoded.suggestion}` : decoded.message
+}
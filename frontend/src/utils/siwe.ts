@@ -0,0 +1,38 @@
+/**
+ * Sign-In with Ethereum (EIP-4361) message construction
+ * @author Dev Austin
+ */
+
+import { ethers } from 'ethers'
+
+export interface SiweMessageParams {
+  domain: string
+  address: string
+  statement: string
+  uri: string
+  chainId: number
+  nonce: string
+  issuedAt?: Date
+}
+
+export const SIWE_STATEMENT = 'Sign in to Web3 Payroll. This request will not trigger a transaction or cost any gas.'
+
+/**
+ * Build the message the wallet signs; the backend parses the same layout
+ */
+export const createSiweMessage = (params: SiweMessageParams): string => {
+  const issuedAt = (params.issuedAt || new Date()).toISOString()
+
+  return [
+    `${params.domain} wants you to sign in with your Ethereum account:`,
+    ethers.utils.getAddress(params.address),
+    '',
+    params.statement,
+    '',
+    `URI: ${params.uri}`,
+    'Version: 1',
+    `Chain ID: ${params.chainId}`,
+    `Nonce: ${params.nonce}`,
+    `Issued At: ${issuedAt}`,
+  ].join('\n')
+}
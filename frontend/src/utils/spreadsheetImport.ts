@@ -0,0 +1,132 @@
+/**
+ * Spreadsheet import utilities
+ * Reads Excel workbooks in the browser and maps their columns onto the bulk import fields
+ * @author Dev Austin
+ */
+
+import * as XLSX from 'xlsx'
+
+export interface ImportField {
+  key: string // the bulk import column name, as in the CSV template
+  label: string
+  required: boolean
+  aliases: string[] // other header spellings HRIS exports use
+}
+
+export type ColumnMapping = Record<string, number> // field key -> column index, -1 when unmapped
+
+export const IMPORT_FIELDS: ImportField[] = [
+  { key: 'name', label: 'Name', required: true, aliases: ['full_name', 'employee_name', 'employee'] },
+  { key: 'email', label: 'Email', required: true, aliases: ['email_address', 'work_email', 'e-mail'] },
+  { key: 'phone', label: 'Phone', required: false, aliases: ['phone_number', 'mobile', 'telephone'] },
+  { key: 'position', label: 'Position', required: true, aliases: ['title', 'job_title', 'role'] },
+  { key: 'department', label: 'Department', required: true, aliases: ['dept', 'team', 'division'] },
+  { key: 'employment_type', label: 'Employment Type', required: false, aliases: ['type', 'contract_type'] },
+  { key: 'start_date', label: 'Start Date', required: false, aliases: ['hire_date', 'joined', 'date_of_joining'] },
+  { key: 'wallet_address', label: 'Wallet Address', required: true, aliases: ['wallet', 'address', 'eth_address'] },
+  { key: 'salary_amount', label: 'Salary Amount', required: true, aliases: ['salary', 'pay', 'amount', 'compensation'] },
+  { key: 'payment_frequency', label: 'Payment Frequency', required: false, aliases: ['frequency', 'pay_frequency'] },
+  { key: 'preferred_token', label: 'Preferred Token', required: false, aliases: ['token', 'currency'] },
+  { key: 'subdomain', label: 'ENS Subdomain', required: false, aliases: ['ens', 'ens_name'] },
+  { key: 'withholdings', label: 'Withholdings', required: false, aliases: ['tax_withholdings'] },
+  { key: 'tax_exempt', label: 'Tax Exempt', required: false, aliases: [] },
+  { key: 'is_active', label: 'Active', required: false, aliases: ['active', 'status'] },
+]
+
+// Header rows further down than this are unusual; the picker only offers these
+export const HEADER_SEARCH_ROWS = 20
+
+// Same normalisation the CSV parser applies to its header line
+export const normalizeHeader = (header: string) => header.trim().toLowerCase().replace(/\s+/g, '_')
+
+const formatDate = (date: Date) => {
+  const month = String(date.getMonth() + 1).padStart(2, '0')
+  const day = String(date.getDate()).padStart(2, '0')
+  return `${date.getFullYear()}-${month}-${day}`
+}
+
+// Cells are read raw so salaries keep full precision instead of their display format
+const cellToString = (value: unknown): string => {
+  if (value === null || value === undefined) return ''
+  if (value instanceof Date) return formatDate(value)
+  return String(value).trim()
+}
+
+export const readWorkbook = async (file: File): Promise<XLSX.WorkBook> => {
+  const buffer = await file.arrayBuffer()
+  return XLSX.read(buffer, { type: 'array', cellDates: true })
+}
+
+/**
+ * Every non-blank row of a sheet as strings
+ */
+export const getSheetRows = (workbook: XLSX.WorkBook, sheetName: string): string[][] => {
+  const sheet = workbook.Sheets[sheetName]
+  if (!sheet) return []
+
+  const rows = XLSX.utils.sheet_to_json<unknown[]>(sheet, { header: 1, raw: true, defval: '', blankrows: false })
+  return rows.map(row => row.map(cellToString))
+}
+
+const matchField = (header: string) => {
+  const normalized = normalizeHeader(header)
+  return IMPORT_FIELDS.find(field => field.key === normalized || field.aliases.includes(normalized))
+}
+
+/**
+ * The row that names the most import fields, or the first row if none do
+ */
+export const guessHeaderRow = (rows: string[][]) => {
+  let best = 0
+  let bestMatches = 0
+  rows.slice(0, HEADER_SEARCH_ROWS).forEach((row, index) => {
+    const matches = row.filter(cell => cell && matchField(cell)).length
+    if (matches > bestMatches) {
+      best = index
+      bestMatches = matches
+    }
+  })
+  return best
+}
+
+export const guessColumnMapping = (headers: string[]): ColumnMapping => {
+  const mapping: ColumnMapping = {}
+  IMPORT_FIELDS.forEach(field => {
+    mapping[field.key] = -1
+  })
+  headers.forEach((header, index) => {
+    const field = header ? matchField(header) : undefined
+    if (field && mapping[field.key] === -1) {
+      mapping[field.key] = index
+    }
+  })
+  return mapping
+}
+
+export const getMissingRequiredFields = (mapping: ColumnMapping) => {
+  return IMPORT_FIELDS.filter(field => field.required && (mapping[field.key] ?? -1) < 0)
+}
+
+/**
+ * Rows below the header keyed by import field, the same shape parseCSV produces
+ */
+export const applyColumnMapping = (rows: string[][], headerRow: number, mapping: ColumnMapping): Record<string, string>[] => {
+  return rows.slice(headerRow + 1).map(row => {
+    const record: Record<string, string> = {}
+    IMPORT_FIELDS.forEach(field => {
+      const column = mapping[field.key] ?? -1
+      if (column >= 0) {
+        record[field.key] = row[column] || ''
+      }
+    })
+    return record
+  })
+}
+
+/**
+ * Spreadsheet-style column letter for a zero-based index
+ */
+export const getColumnLetter = (index: number): string => {
+  const letter = String.fromCharCode(65 + (index % 26))
+  return index < 26 ? letter : getColumnLetter(Math.floor(index / 26) - 1) + letter
+}
@@ -1,8 +1,18 @@
 /**
  * Transaction Verification Utilities
- * Provides functions to verify transactions on Etherscan and ensure they're successful
+ * Verifies transactions by reading receipts and confirmation counts straight from the node
+ * through the wagmi public client. Etherscan is only used as a fallback when an API key
+ * is configured and the RPC lookup fails.
  */
 
+import { getPublicClient } from 'wagmi/actions'
+import {
+  TransactionNotFoundError,
+  TransactionReceiptNotFoundError,
+  WaitForTransactionReceiptTimeoutError
+} from 'viem'
+import { TRANSACTION_CONFIRMATIONS } from '../contracts/constants'
+
 export interface TransactionVerificationResult {
   success: boolean
   confirmed: boolean
@@ -11,51 +21,135 @@ export interface TransactionVerificationResult {
   status?: 'success' | 'failed' | 'pending'
   confirmations?: number
   error?: string
+  source?: 'rpc' | 'etherscan'
+}
+
+const ETHERSCAN_API_KEY = process.env.REACT_APP_ETHERSCAN_API_KEY
+
+/**
+ * Public client for the chain, or an error if wagmi is not configured for it
+ */
+function getClient(chainId: number) {
+  const client = getPublicClient({ chainId })
+  if (client.chain?.id !== chainId) {
+    throw new Error(`No RPC client configured for chain ${chainId}`)
+  }
+  return client
 }
 
 /**
- * Verify a transaction on Etherscan API
+ * Default confirmations for a chain (1 on Hardhat, which only mines on demand)
+ */
+function getRequiredConfirmations(chainId: number): number {
+  return TRANSACTION_CONFIRMATIONS[chainId as keyof typeof TRANSACTION_CONFIRMATIONS] || 2
+}
+
+/**
+ * Etherscan is only tried when a key is available and the chain has an API
+ */
+function canUseEtherscan(chainId: number, apiKey?: string): boolean {
+  return !!(apiKey || ETHERSCAN_API_KEY) && !!getEtherscanApiUrl(chainId)
+}
+
+/**
+ * Verify a transaction, reading the receipt from the node
+ * Kept under its original name; Etherscan is now only a fallback
  */
 export async function verifyTransactionOnEtherscan(
-  txHash: string, 
+  txHash: string,
   chainId: number = 11155111, // Default to Sepolia
   apiKey?: string
 ): Promise<TransactionVerificationResult> {
   try {
-    console.log(`🔍 Verifying transaction ${txHash} on Etherscan...`)
-    
-    // Determine the correct Etherscan API endpoint
+    console.log(`🔍 Verifying transaction ${txHash} on chain ${chainId}...`)
+
+    const client = getClient(chainId)
+    const hash = txHash as `0x${string}`
+
+    try {
+      const receipt = await client.getTransactionReceipt({ hash })
+      const confirmations = await client.getTransactionConfirmations({ transactionReceipt: receipt })
+
+      return {
+        success: receipt.status === 'success',
+        confirmed: true,
+        blockNumber: Number(receipt.blockNumber),
+        gasUsed: receipt.gasUsed.toString(),
+        status: receipt.status === 'success' ? 'success' : 'failed',
+        confirmations: Number(confirmations),
+        source: 'rpc'
+      }
+    } catch (error) {
+      if (!(error instanceof TransactionReceiptNotFoundError)) {
+        throw error
+      }
+
+      // No receipt yet: either still in the mempool or unknown to the node
+      const tx = await client.getTransaction({ hash }).catch(() => null)
+      return {
+        success: false,
+        confirmed: false,
+        status: tx ? 'pending' : undefined,
+        error: tx ? 'Transaction not yet mined' : 'Transaction not found',
+        source: 'rpc'
+      }
+    }
+  } catch (error) {
+    if (canUseEtherscan(chainId, apiKey)) {
+      console.warn('⚠️ RPC verification failed, falling back to Etherscan:', error)
+      return verifyWithEtherscan(txHash, chainId, apiKey)
+    }
+
+    console.error('❌ Transaction verification failed:', error)
+    return {
+      success: false,
+      confirmed: false,
+      error: error instanceof Error ? error.message : 'Unknown error'
+    }
+  }
+}
+
+/**
+ * Verify a transaction through the Etherscan API (fallback only)
+ */
+async function verifyWithEtherscan(
+  txHash: string,
+  chainId: number,
+  apiKey?: string
+): Promise<TransactionVerificationResult> {
+  try {
     const baseUrl = getEtherscanApiUrl(chainId)
-    
-    // Build API URL
-    const apiUrl = `${baseUrl}/api?module=transaction&action=gettxreceipt&txhash=${txHash}&apikey=${apiKey || 'YourApiKeyToken'}`
-    
+    const apiUrl = `${baseUrl}/api?module=transaction&action=gettxreceipt&txhash=${txHash}&apikey=${apiKey || ETHERSCAN_API_KEY}`
+
     const response = await fetch(apiUrl)
     const data = await response.json()
-    
+
     if (data.status === '1' && data.result) {
       const result = data.result
-      
+
       return {
-        success: true,
+        success: result.status === '0x1',
         confirmed: true,
         blockNumber: parseInt(result.blockNumber, 16),
         gasUsed: parseInt(result.gasUsed, 16).toString(),
         status: result.status === '0x1' ? 'success' : 'failed',
-        confirmations: result.confirmations ? parseInt(result.confirmations, 16) : 0
+        confirmations: result.confirmations ? parseInt(result.confirmations, 16) : 0,
+        source: 'etherscan'
       }
     } else if (data.status === '0' && data.message === 'No transactions found') {
       return {
         success: false,
         confirmed: false,
         status: 'pending',
-        error: 'Transaction not yet mined'
+        error: 'Transaction not yet mined',
+        source: 'etherscan'
       }
     } else {
       return {
         success: false,
         confirmed: false,
-        error: data.message || 'Failed to verify transaction'
+        error: data.message || 'Failed to verify transaction',
+        source: 'etherscan'
       }
     }
   } catch (error) {
@@ -69,9 +163,9 @@ export async function verifyTransactionOnEtherscan(
 }
 
 /**
- * Get the appropriate Etherscan API URL for the chain
+ * Get the Etherscan API URL for the chain, or null if Etherscan doesn't cover it
  */
-function getEtherscanApiUrl(chainId: number): string {
+function getEtherscanApiUrl(chainId: number): string | null {
   switch (chainId) {
     case 1: // Mainnet
       return 'https://api.etherscan.io'
@@ -80,7 +174,7 @@ function getEtherscanApiUrl(chainId: number): string {
     case 5: // Goerli
       return 'https://api-goerli.etherscan.io'
     default:
-      return 'https://api-sepolia.etherscan.io' // Default to Sepolia
+      return null
   }
 }
 
@@ -101,22 +195,89 @@ export function getEtherscanTxUrl(txHash: string, chainId: number = 11155111): s
 }
 
 /**
- * Wait for transaction confirmation with polling
+ * Wait until a transaction has the required number of confirmations
  */
 export async function waitForTransactionConfirmation(
   txHash: string,
   chainId: number = 11155111,
-  requiredConfirmations: number = 2,
+  requiredConfirmations: number = getRequiredConfirmations(chainId),
   timeoutMs: number = 120000, // 2 minutes
   apiKey?: string
+): Promise<TransactionVerificationResult> {
+  try {
+    const client = getClient(chainId)
+
+    // Resolves once the receipt has enough confirmations, following replacements
+    const receipt = await client.waitForTransactionReceipt({
+      hash: txHash as `0x${string}`,
+      confirmations: requiredConfirmations,
+      timeout: timeoutMs
+    })
+
+    if (receipt.status !== 'success') {
+      return {
+        success: false,
+        confirmed: true,
+        blockNumber: Number(receipt.blockNumber),
+        gasUsed: receipt.gasUsed.toString(),
+        status: 'failed',
+        error: 'Transaction failed on blockchain',
+        source: 'rpc'
+      }
+    }
+
+    const confirmations = await client.getTransactionConfirmations({ transactionReceipt: receipt })
+    console.log(`✅ Transaction confirmed with ${confirmations} confirmations`)
+
+    return {
+      success: true,
+      confirmed: true,
+      blockNumber: Number(receipt.blockNumber),
+      gasUsed: receipt.gasUsed.toString(),
+      status: 'success',
+      confirmations: Number(confirmations),
+      source: 'rpc'
+    }
+  } catch (error) {
+    if (error instanceof WaitForTransactionReceiptTimeoutError) {
+      return {
+        success: false,
+        confirmed: false,
+        status: 'pending',
+        error: 'Transaction confirmation timeout'
+      }
+    }
+
+    if (canUseEtherscan(chainId, apiKey)) {
+      console.warn('⚠️ RPC confirmation failed, falling back to Etherscan:', error)
+      return pollEtherscanConfirmation(txHash, chainId, requiredConfirmations, timeoutMs, apiKey)
+    }
+
+    return {
+      success: false,
+      confirmed: false,
+      error: error instanceof Error ? error.message : 'Unknown error'
+    }
+  }
+}
+
+/**
+ * Poll Etherscan for confirmations (fallback only)
+ */
+async function pollEtherscanConfirmation(
+  txHash: string,
+  chainId: number,
+  requiredConfirmations: number,
+  timeoutMs: number,
+  apiKey?: string
 ): Promise<TransactionVerificationResult> {
   const startTime = Date.now()
   const pollInterval = 5000 // 5 seconds
-  
+
   while (Date.now() - startTime < timeoutMs) {
     try {
-      const result = await verifyTransactionOnEtherscan(txHash, chainId, apiKey)
-      
+      const result = await verifyWithEtherscan(txHash, chainId, apiKey)
+
       if (result.confirmed && result.status === 'success') {
         if ((result.confirmations || 0) >= requiredConfirmations) {
           console.log(`✅ Transaction confirmed with ${result.confirmations} confirmations`)
@@ -129,19 +290,20 @@ export async function waitForTransactionConfirmation(
           success: false,
           confirmed: true,
           status: 'failed',
-          error: 'Transaction failed on blockchain'
+          error: 'Transaction failed on blockchain',
+          source: 'etherscan'
         }
       }
-      
+
       // Wait before next poll
       await new Promise(resolve => setTimeout(resolve, pollInterval))
-      
+
     } catch (error) {
       console.warn('⚠️ Error during confirmation polling:', error)
       await new Promise(resolve => setTimeout(resolve, pollInterval))
     }
   }
-  
+
   return {
     success: false,
     confirmed: false,
@@ -159,27 +321,97 @@ export async function validateTransaction(
   expectedTo?: string,
   chainId: number = 11155111,
   apiKey?: string
-): Promise<TransactionVerificationResult & { 
+): Promise<TransactionVerificationResult & {
   valueMatches?: boolean
-  toMatches?: boolean 
+  toMatches?: boolean
 }> {
   try {
     console.log(`🔍 Comprehensive validation of transaction ${txHash}`)
-    
+
+    const client = getClient(chainId)
+    const hash = txHash as `0x${string}`
+
+    const [tx, receipt] = await Promise.all([
+      client.getTransaction({ hash }),
+      client.getTransactionReceipt({ hash })
+    ])
+    const confirmations = await client.getTransactionConfirmations({ transactionReceipt: receipt })
+
+    const result: TransactionVerificationResult & {
+      valueMatches?: boolean
+      toMatches?: boolean
+    } = {
+      success: receipt.status === 'success',
+      confirmed: true,
+      blockNumber: Number(receipt.blockNumber),
+      gasUsed: receipt.gasUsed.toString(),
+      status: receipt.status === 'success' ? 'success' : 'failed',
+      confirmations: Number(confirmations),
+      source: 'rpc'
+    }
+
+    // Validate expected values if provided (value in wei)
+    if (expectedValue) {
+      result.valueMatches = tx.value.toString() === expectedValue
+    }
+
+    if (expectedTo) {
+      result.toMatches = tx.to?.toLowerCase() === expectedTo.toLowerCase()
+    }
+
+    return result
+
+  } catch (error) {
+    if (error instanceof TransactionNotFoundError || error instanceof TransactionReceiptNotFoundError) {
+      return {
+        success: false,
+        confirmed: false,
+        error: 'Transaction not found'
+      }
+    }
+
+    if (canUseEtherscan(chainId, apiKey)) {
+      console.warn('⚠️ RPC validation failed, falling back to Etherscan:', error)
+      return validateWithEtherscan(txHash, expectedValue, expectedTo, chainId, apiKey)
+    }
+
+    return {
+      success: false,
+      confirmed: false,
+      error: error instanceof Error ? error.message : 'Validation failed'
+    }
+  }
+}
+
+/**
+ * Validate a transaction through the Etherscan API (fallback only)
+ */
+async function validateWithEtherscan(
+  txHash: string,
+  expectedValue: string | undefined,
+  expectedTo: string | undefined,
+  chainId: number,
+  apiKey?: string
+): Promise<TransactionVerificationResult & {
+  valueMatches?: boolean
+  toMatches?: boolean
+}> {
+  try {
     const baseUrl = getEtherscanApiUrl(chainId)
-    
+    const key = apiKey || ETHERSCAN_API_KEY
+
     // Get transaction details
-    const txUrl = `${baseUrl}/api?module=proxy&action=eth_getTransactionByHash&txhash=${txHash}&apikey=${apiKey || 'YourApiKeyToken'}`
-    const receiptUrl = `${baseUrl}/api?module=transaction&action=gettxreceipt&txhash=${txHash}&apikey=${apiKey || 'YourApiKeyToken'}`
-    
+    const txUrl = `${baseUrl}/api?module=proxy&action=eth_getTransactionByHash&txhash=${txHash}&apikey=${key}`
+    const receiptUrl = `${baseUrl}/api?module=transaction&action=gettxreceipt&txhash=${txHash}&apikey=${key}`
+
     const [txResponse, receiptResponse] = await Promise.all([
       fetch(txUrl),
       fetch(receiptUrl)
     ])
-    
+
     const txData = await txResponse.json()
     const receiptData = await receiptResponse.json()
-    
+
     if (!txData.result || !receiptData.result) {
       return {
         success: false,
@@ -187,33 +419,33 @@ export async function validateTransaction(
         error: 'Transaction not found'
       }
     }
-    
+
     const tx = txData.result
     const receipt = receiptData.result
-    
-    const result: TransactionVerificationResult & { 
+
+    const result: TransactionVerificationResult & {
       valueMatches?: boolean
-      toMatches?: boolean 
+      toMatches?: boolean
     } = {
       success: receipt.status === '0x1',
       confirmed: true,
       blockNumber: parseInt(receipt.blockNumber, 16),
       gasUsed: parseInt(receipt.gasUsed, 16).toString(),
-      status: receipt.status === '0x1' ? 'success' : 'failed'
+      status: receipt.status === '0x1' ? 'success' : 'failed',
+      source: 'etherscan'
     }
-    
+
     // Validate expected values if provided
     if (expectedValue) {
-      const txValue = parseInt(tx.value, 16).toString()
-      result.valueMatches = txValue === expectedValue
+      result.valueMatches = BigInt(tx.value).toString() === expectedValue
     }
-    
+
     if (expectedTo) {
       result.toMatches = tx.to?.toLowerCase() === expectedTo.toLowerCase()
     }
-    
+
     return result
-    
+
   } catch (error) {
     return {
       success: false,
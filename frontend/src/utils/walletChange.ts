@@ -0,0 +1,25 @@
+/**
+ * Helpers for time-locked payout wallet changes
+ * @author Dev Austin
+ */
+
+/**
+ * Readable cooldown, e.g. "3 days" or "12 hours"
+ */
+export const formatCooldown = (seconds: number): string => {
+  const hours = Math.ceil(seconds / 3600)
+
+  if (hours >= 24 && hours % 24 === 0) {
+    const days = hours / 24
+    return `${days} day${days === 1 ? '' : 's'}`
+  }
+
+  return `${hours} hour${hours === 1 ? '' : 's'}`
+}
+
+/**
+ * Seconds left before a wallet change can be applied, 0 once it is ready
+ */
+export const getCooldownRemaining = (effectiveAt: string | Date): number => {
+  return Math.max(0, Math.ceil((new Date(effectiveAt).getTime() - Date.now()) / 1000))
+}
@@ -2,7 +2,7 @@ import { createConfig, configureChains } from 'wagmi'
 import { alchemyProvider } from 'wagmi/providers/alchemy'
 import { publicProvider } from 'wagmi/providers/public'
 import { jsonRpcProvider } from 'wagmi/providers/jsonRpc'
-import { mainnet, sepolia } from 'wagmi/chains'
+import { mainnet, sepolia, hardhat } from 'wagmi/chains'
 import { QueryClient, QueryCache } from '@tanstack/react-query'
 import { connectorsForWallets } from '@rainbow-me/rainbowkit'
 import {
@@ -17,8 +17,9 @@ const walletConnectProjectId = process.env.REACT_APP_WALLETCONNECT_PROJECT_ID
 console.log('WalletConnect Project ID:', walletConnectProjectId ? 'Found' : 'Not found')
 
 // Configure chains and providers with Alchemy RPC
+// Hardhat (31337) is served by the public provider at http://127.0.0.1:8545
 const { chains, publicClient, webSocketPublicClient } = configureChains(
-  [sepolia, mainnet],
+  [sepolia, mainnet, hardhat],
   [
     jsonRpcProvider({
       rpc: (chain) => {